@@ -15,8 +15,11 @@ import Projects from "./pages/Projects";
 import ProjectDetails from "./pages/ProjectDetails";
 import DepartmentGantt from "./pages/DepartmentGantt";
 import MyTasks from "./pages/MyTasks";
+import Timesheets from "./pages/Timesheets";
+import Workload from "./pages/Workload";
 import AdminDashboard from "./pages/admin/AdminDashboard";
 import UserManagement from "./pages/admin/UserManagement";
+import AuditLog from "./pages/admin/AuditLog";
 import Analytics from "./pages/Analytics";
 import Auth from "./pages/Auth";
 import ExternalAuth from "./pages/ExternalAuth";
@@ -60,6 +63,8 @@ const App: React.FC = () => (
                 <Route path="/" element={<ExternalUserRoute><Layout><Dashboard /></Layout></ExternalUserRoute>} />
                 <Route path="/dashboard" element={<ExternalUserRoute><Layout><Dashboard /></Layout></ExternalUserRoute>} />
                 <Route path="/my-tasks" element={<ExternalUserRoute><Layout><MyTasks /></Layout></ExternalUserRoute>} />
+                <Route path="/timesheets" element={<ExternalUserRoute><Layout><Timesheets /></Layout></ExternalUserRoute>} />
+                <Route path="/workload" element={<ExternalUserRoute><Layout><Workload /></Layout></ExternalUserRoute>} />
                 <Route path="/projects" element={<ExternalUserRoute><Layout><Projects /></Layout></ExternalUserRoute>} />
                 <Route path="/projects/new" element={<ExternalUserRoute><NewProject /></ExternalUserRoute>} />
                 <Route path="/projects/:projectId" element={<ExternalUserRoute><Layout><ProjectDetails /></Layout></ExternalUserRoute>} />
@@ -70,6 +75,7 @@ const App: React.FC = () => (
                 <Route path="/projects/:projectId/department/:departmentId" element={<ExternalUserRoute><Layout><DepartmentGantt /></Layout></ExternalUserRoute>} />
                 <Route path="/admin" element={<ExternalUserRoute><Layout><AdminRoute><AdminDashboard /></AdminRoute></Layout></ExternalUserRoute>} />
                 <Route path="/admin/users" element={<ExternalUserRoute><Layout><AdminRoute><UserManagement /></AdminRoute></Layout></ExternalUserRoute>} />
+                <Route path="/admin/audit" element={<ExternalUserRoute><Layout><AdminRoute><AuditLog /></AdminRoute></Layout></ExternalUserRoute>} />
                 <Route path="/analytics" element={<ExternalUserRoute><Layout><Analytics /></Layout></ExternalUserRoute>} />
                 <Route path="/gantt-demo" element={<ExternalUserRoute><Layout><GanttDemo /></Layout></ExternalUserRoute>} />
                 <Route path="/gantt-docs" element={<ExternalUserRoute><Layout><GanttDocumentation /></Layout></ExternalUserRoute>} />
@@ -10,6 +10,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { SearchableUserSelect } from '@/components/SearchableUserSelect';
+import { LabelPicker } from '@/components/labels/LabelPicker';
+import { TaskStatusSelect } from '@/components/workflow/TaskStatusSelect';
 interface CreateTaskDialogProps {
   projectId?: string;
   departmentId?: string;
@@ -51,6 +53,7 @@ export function CreateTaskDialog({ projectId, departmentId, onTaskCreated, showT
   const [elements, setElements] = useState<Element[]>([]);
   const [selectedProjectId, setSelectedProjectId] = useState<string>(projectId || '');
   const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
+  const [labels, setLabels] = useState<string[]>([]);
   const [formData, setFormData] = useState({
     title: '',
     description: '',
@@ -88,6 +91,8 @@ export function CreateTaskDialog({ projectId, departmentId, onTaskCreated, showT
       fetchDepartments(selectedProjectId);
       fetchElements(selectedProjectId);
       setFormData(prev => ({ ...prev, project_id: selectedProjectId, assignee_department_id: departmentId || '', element_id: '' }));
+      // Labels come from the project's catalogue
+      setLabels([]);
     }
   }, [selectedProjectId]);
 
@@ -204,6 +209,7 @@ export function CreateTaskDialog({ projectId, departmentId, onTaskCreated, showT
           due_date: formData.due_date || null,
           estimated_cost: parseFloat(formData.estimated_cost) || 0,
           actual_cost: parseFloat(formData.actual_cost) || 0,
+          labels,
         })
         .select()
         .single();
@@ -275,6 +281,7 @@ export function CreateTaskDialog({ projectId, departmentId, onTaskCreated, showT
         actual_cost: '0',
       });
       setSelectedUserIds([]);
+      setLabels([]);
       setOpen(false);
       onTaskCreated?.();
     } catch (error: any) {
@@ -408,21 +415,20 @@ export function CreateTaskDialog({ projectId, departmentId, onTaskCreated, showT
             />
           </div>
 
+          <div className="space-y-2">
+            <Label>Labels</Label>
+            <LabelPicker projectId={selectedProjectId} value={labels} onChange={setLabels} />
+          </div>
+
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="status">Status</Label>
-              <Select value={formData.status} onValueChange={(value) => setFormData({ ...formData, status: value })}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="todo">Not Started</SelectItem>
-                  <SelectItem value="in_progress">In Progress</SelectItem>
-                  <SelectItem value="review">Review</SelectItem>
-                  <SelectItem value="done">Completed</SelectItem>
-                  <SelectItem value="blocked">Blocked</SelectItem>
-                </SelectContent>
-              </Select>
+              <TaskStatusSelect
+                projectId={selectedProjectId}
+                value={formData.status}
+                onChange={(value) => setFormData({ ...formData, status: value })}
+                anyStatus
+              />
             </div>
 
             <div className="space-y-2">
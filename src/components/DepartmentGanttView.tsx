@@ -1,6 +1,7 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { Gantt, Task as GanttTask, ViewMode } from 'gantt-task-react';
 import 'gantt-task-react/dist/index.css';
+import { format, parseISO } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -9,39 +10,70 @@ import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Link2, CornerDownRight, Download } from 'lucide-react';
+import { GanttExportDialog } from '@/components/GanttExportDialog';
+import { MilestoneDiamond } from '@/components/milestones/MilestoneDiamond';
+import { useTaskDependencies } from '@/hooks/useTaskDependencies';
+import { useProjectMilestones } from '@/hooks/useProjectMilestones';
+import { useWorkingCalendar } from '@/hooks/useWorkingCalendar';
+import { MILESTONE_STATUS_COLORS, MILESTONE_STATUS_LABELS } from '@/lib/milestones';
+import { flattenTaskTree } from '@/lib/subtasks';
+import { normalizeTaskStatus } from '@/lib/taskStatus';
+import { getDayWeight } from '@/lib/workingDays';
+import type { GanttExportLegendItem, GanttExportRow } from '@/lib/ganttExport';
 
 interface Task {
   id: string;
   title: string;
   status: string;
+  status_category?: string | null;
   priority: string;
   start_date: string;
   due_date: string;
   assignee_department_id: string;
   description?: string;
   progress_percentage?: number;
+  parent_task_id?: string | null;
 }
 
 interface DepartmentGanttViewProps {
+  projectId: string;
   departmentId: string;
   departmentName: string;
   tasks: Task[];
   onTasksUpdate: () => void;
+  canEditDependencies?: boolean;
+  /** Milestones can be moved by dragging their diamond */
+  canMoveMilestones?: boolean;
 }
 
-export function DepartmentGanttView({ departmentId, departmentName, tasks, onTasksUpdate }: DepartmentGanttViewProps) {
+export function DepartmentGanttView({ projectId, departmentId, departmentName, tasks, onTasksUpdate, canEditDependencies = false, canMoveMilestones = false }: DepartmentGanttViewProps) {
   const { toast } = useToast();
   const [viewMode, setViewMode] = useState<ViewMode>(ViewMode.Day);
   const [ganttTasks, setGanttTasks] = useState<GanttTask[]>([]);
+  const [dragSourceTaskId, setDragSourceTaskId] = useState<string | null>(null);
+  const { dependencies, toggleDependency, rescheduleDependents } = useTaskDependencies(projectId);
+  const { milestones: projectMilestones, updateMilestone } = useProjectMilestones(projectId);
+  // The department's own milestones and those its tasks lead up to
+  const milestones = useMemo(() => {
+    const taskIds = new Set(tasks.map(t => t.id));
+    return projectMilestones.filter(m => m.department_id === departmentId || m.task_ids.some(id => taskIds.has(id)));
+  }, [projectMilestones, tasks, departmentId]);
+  const { calendar } = useWorkingCalendar(projectId);
+  const [exportOpen, setExportOpen] = useState(false);
   const leftScrollRef = useRef<HTMLDivElement>(null);
   const rightScrollRef = useRef<HTMLDivElement>(null);
+  // Subtasks sit directly below their parent in both the list and the chart
+  const taskRows = flattenTaskTree(tasks);
 
   useEffect(() => {
     const convertToGanttTasks = () => {
-      const converted: GanttTask[] = tasks
-        .filter(task => task.start_date && task.due_date)
-        .map(task => {
-          const progress = task.progress_percentage ?? (task.status === 'done' ? 100 : task.status === 'in_progress' ? 50 : 0);
+      const datedRows = flattenTaskTree(tasks).filter(({ task }) => task.start_date && task.due_date);
+      const datedIds = new Set(datedRows.map(({ task }) => task.id));
+      const converted: GanttTask[] = datedRows
+        .map(({ task, childCount }, index) => {
+          const category = normalizeTaskStatus(task.status, task.status_category);
+          const progress = task.progress_percentage ?? (category === 'done' ? 100 : category === 'in_progress' ? 50 : 0);
           
           return {
             id: task.id,
@@ -49,31 +81,58 @@ export function DepartmentGanttView({ departmentId, departmentName, tasks, onTas
             start: new Date(task.start_date),
             end: new Date(task.due_date),
             progress,
-            type: 'task' as const,
+            // Parents are drawn as summary bars over their subtasks
+            type: childCount > 0 ? 'project' as const : 'task' as const,
+            project: task.parent_task_id && datedIds.has(task.parent_task_id) ? task.parent_task_id : undefined,
+            displayOrder: index,
+            dependencies: dependencies
+              .filter(d => d.task_id === task.id)
+              .map(d => d.depends_on_task_id),
             styles: {
-              progressColor: getProgressColor(task.status),
-              progressSelectedColor: getProgressColor(task.status),
+              progressColor: getProgressColor(category),
+              progressSelectedColor: getProgressColor(category),
               backgroundColor: getBackgroundColor(task.priority),
               backgroundSelectedColor: getBackgroundColor(task.priority),
             },
           };
         });
+
+      // Milestones follow the tasks as diamonds
+      milestones.forEach((milestone, index) => {
+        const color = MILESTONE_STATUS_COLORS[milestone.status];
+        converted.push({
+          id: `milestone-${milestone.id}`,
+          name: milestone.title,
+          start: new Date(milestone.due_date),
+          end: new Date(milestone.due_date),
+          progress: 0,
+          type: 'milestone',
+          displayOrder: datedRows.length + index,
+          isDisabled: !canMoveMilestones,
+          styles: {
+            backgroundColor: color,
+            backgroundSelectedColor: color,
+          },
+        });
+      });
       
       // Only update state if ganttTasks actually changed
       setGanttTasks(prev => {
         if (prev.length !== converted.length) return converted;
         const hasChange = converted.some((t, i) => 
           t.id !== prev[i]?.id || 
+          t.styles?.backgroundColor !== prev[i]?.styles?.backgroundColor ||
           t.progress !== prev[i]?.progress ||
           t.start.getTime() !== prev[i]?.start.getTime() ||
-          t.end.getTime() !== prev[i]?.end.getTime()
+          t.end.getTime() !== prev[i]?.end.getTime() ||
+          (t.dependencies || []).join() !== (prev[i]?.dependencies || []).join()
         );
         return hasChange ? converted : prev;
       });
     };
 
     convertToGanttTasks();
-  }, [tasks]);
+  }, [tasks, dependencies, milestones, canMoveMilestones]);
 
   const getProgressColor = (status: string) => {
     switch (status) {
@@ -100,6 +159,17 @@ export function DepartmentGanttView({ departmentId, departmentName, tasks, onTas
   };
 
   const handleTaskChange = async (task: GanttTask) => {
+    if (task.type === 'milestone') {
+      const moved = await updateMilestone(task.id.replace('milestone-', ''), { due_date: format(task.start, 'yyyy-MM-dd') });
+      if (moved) {
+        toast({
+          title: 'Success',
+          description: 'Milestone date updated successfully',
+        });
+      }
+      return;
+    }
+
     try {
       const { error } = await supabase
         .from('tasks')
@@ -116,6 +186,9 @@ export function DepartmentGanttView({ departmentId, departmentName, tasks, onTas
         description: 'Task dates updated successfully',
       });
 
+      // Push dependent tasks forward if this one now finishes later
+      await rescheduleDependents(task.id);
+
       // Call the callback to refresh only if needed
       onTasksUpdate();
     } catch (error: any) {
@@ -192,6 +265,17 @@ export function DepartmentGanttView({ departmentId, departmentName, tasks, onTas
     }
   };
 
+  const handleLinkDrop = async (targetTaskId: string) => {
+    const sourceTaskId = dragSourceTaskId;
+    setDragSourceTaskId(null);
+    if (!sourceTaskId || sourceTaskId === targetTaskId) return;
+
+    await toggleDependency(sourceTaskId, targetTaskId);
+    onTasksUpdate();
+  };
+
+  const getTaskTitle = (taskId: string) => tasks.find(t => t.id === taskId)?.title;
+
   const getTaskProgress = (status: string) => {
     switch (status) {
       case 'done':
@@ -203,22 +287,77 @@ export function DepartmentGanttView({ departmentId, departmentName, tasks, onTas
     }
   };
 
+  // Same colours as the chart: priority behind, status as progress
+  const getExportRows = (): GanttExportRow[] => [
+    ...flattenTaskTree(tasks)
+      .filter(({ task }) => task.start_date && task.due_date)
+      .map(({ task, depth, childCount }) => {
+        const category = normalizeTaskStatus(task.status, task.status_category);
+        return {
+          kind: childCount > 0 ? 'summary' as const : 'task' as const,
+          label: task.title,
+          depth,
+          start: parseISO(task.start_date.split('T')[0]),
+          end: parseISO(task.due_date.split('T')[0]),
+          color: getProgressColor(category),
+          barColor: childCount > 0 ? undefined : getBackgroundColor(task.priority),
+          progress: task.progress_percentage ?? getTaskProgress(category),
+        };
+      }),
+    ...milestones.map(milestone => ({
+      kind: 'milestone' as const,
+      label: milestone.title,
+      start: parseISO(milestone.due_date),
+      end: parseISO(milestone.due_date),
+      color: MILESTONE_STATUS_COLORS[milestone.status],
+    })),
+  ];
+
+  const exportLegend: GanttExportLegendItem[] = [
+    { label: 'High priority', color: getBackgroundColor('high') },
+    { label: 'Medium priority', color: getBackgroundColor('medium') },
+    { label: 'Low priority', color: getBackgroundColor('low') },
+    { label: 'Done', color: getProgressColor('done') },
+    { label: 'In progress', color: getProgressColor('in_progress') },
+    ...(milestones.length > 0
+      ? (['hit', 'missed', 'at_risk', 'upcoming'] as const).map(status => ({
+          label: `${MILESTONE_STATUS_LABELS[status]} milestone`,
+          color: MILESTONE_STATUS_COLORS[status],
+          shape: 'diamond' as const,
+        }))
+      : []),
+    { label: 'Today', color: '#ef4444', shape: 'line' },
+  ];
+
   return (
     <div className="space-y-4">
-      <div className="flex items-center justify-between">
+      <div className="flex items-center justify-between gap-2">
         <h3 className="text-lg font-semibold">{departmentName} - Gantt Chart</h3>
-        <Select value={viewMode} onValueChange={(value) => setViewMode(value as ViewMode)}>
-          <SelectTrigger className="w-[180px]">
-            <SelectValue placeholder="View Mode" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value={ViewMode.Day}>Day</SelectItem>
-            <SelectItem value={ViewMode.Week}>Week</SelectItem>
-            <SelectItem value={ViewMode.Month}>Month</SelectItem>
-          </SelectContent>
-        </Select>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" className="gap-2" onClick={() => setExportOpen(true)} disabled={ganttTasks.length === 0}>
+            <Download className="h-4 w-4" />
+            Export
+          </Button>
+          <Select value={viewMode} onValueChange={(value) => setViewMode(value as ViewMode)}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="View Mode" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ViewMode.Day}>Day</SelectItem>
+              <SelectItem value={ViewMode.Week}>Week</SelectItem>
+              <SelectItem value={ViewMode.Month}>Month</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
+      {canEditDependencies && ganttTasks.length > 0 && (
+        <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+          <Link2 className="h-3.5 w-3.5" />
+          Drag a task in the list onto another task to make the second one wait for the first. Drag again to remove the link.
+        </p>
+      )}
+
       {ganttTasks.length > 0 ? (
         <div className="border rounded-lg bg-background overflow-hidden">
           {/* Excel-like layout with tasks on left and chart on right */}
@@ -242,13 +381,45 @@ export function DepartmentGanttView({ departmentId, departmentName, tasks, onTas
               <div className="h-[50px] border-b bg-muted/10"></div>
               
               <div>
-                {tasks.map((task) => {
-                  const progress = task.progress_percentage ?? getTaskProgress(task.status);
+                {taskRows.map(({ task, depth, childCount }) => {
+                  const progress = task.progress_percentage ?? getTaskProgress(normalizeTaskStatus(task.status, task.status_category));
+                  const predecessorTitles = dependencies
+                    .filter(d => d.task_id === task.id)
+                    .map(d => getTaskTitle(d.depends_on_task_id))
+                    .filter(Boolean);
                   return (
-                    <div key={task.id} className="p-3 hover:bg-muted/50 transition-colors border-b" style={{ height: '50px' }}>
+                    <div
+                      key={task.id}
+                      className={`p-3 hover:bg-muted/50 transition-colors border-b ${
+                        dragSourceTaskId && dragSourceTaskId !== task.id ? 'bg-primary/5' : ''
+                      } ${canEditDependencies ? 'cursor-grab' : ''}`}
+                      style={{ height: '50px' }}
+                      draggable={canEditDependencies}
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'link';
+                        setDragSourceTaskId(task.id);
+                      }}
+                      onDragEnd={() => setDragSourceTaskId(null)}
+                      onDragOver={(e) => {
+                        if (dragSourceTaskId) e.preventDefault();
+                      }}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        handleLinkDrop(task.id);
+                      }}
+                    >
                       <div className="w-full flex items-center justify-between gap-2 h-full">
-                        <div className="flex-1 min-w-0">
-                          <p className="font-medium text-sm leading-tight truncate">{task.title}</p>
+                        <div className="flex-1 min-w-0" style={{ paddingLeft: depth * 16 }}>
+                          <p className={`text-sm leading-tight truncate flex items-center gap-1 ${childCount > 0 ? 'font-semibold' : 'font-medium'}`}>
+                            {depth > 0 && <CornerDownRight className="h-3 w-3 shrink-0 text-muted-foreground" />}
+                            {task.title}
+                          </p>
+                          {predecessorTitles.length > 0 && (
+                            <p className="text-[10px] text-muted-foreground truncate flex items-center gap-1">
+                              <Link2 className="h-2.5 w-2.5 shrink-0" />
+                              After {predecessorTitles.join(', ')}
+                            </p>
+                          )}
                         </div>
                         <Badge 
                           variant={task.priority === 'high' ? 'destructive' : 'default'}
@@ -260,6 +431,23 @@ export function DepartmentGanttView({ departmentId, departmentName, tasks, onTas
                     </div>
                   );
                 })}
+                {milestones.map(milestone => (
+                  <div key={milestone.id} className="p-3 border-b bg-muted/20" style={{ height: '50px' }}>
+                    <div className="w-full flex items-center justify-between gap-2 h-full">
+                      <p className="text-sm font-medium leading-tight truncate flex items-center gap-1.5 min-w-0">
+                        <MilestoneDiamond status={milestone.status} className="h-3.5 w-3.5 shrink-0" />
+                        {milestone.title}
+                      </p>
+                      <Badge
+                        variant="outline"
+                        className="shrink-0 text-xs h-5"
+                        style={{ color: MILESTONE_STATUS_COLORS[milestone.status], borderColor: MILESTONE_STATUS_COLORS[milestone.status] }}
+                      >
+                        {MILESTONE_STATUS_LABELS[milestone.status]}
+                      </Badge>
+                    </div>
+                  </div>
+                ))}
               </div>
             </div>
 
@@ -291,6 +479,17 @@ export function DepartmentGanttView({ departmentId, departmentName, tasks, onTas
           No tasks with dates available for Gantt chart view
         </div>
       )}
+
+      <GanttExportDialog
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        projectId={projectId}
+        subtitle={`${departmentName} department`}
+        getRows={getExportRows}
+        legend={exportLegend}
+        isNonWorkingDay={(day) => getDayWeight(day, calendar) < 1}
+        fileName={`${departmentName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-gantt`}
+      />
     </div>
   );
 }
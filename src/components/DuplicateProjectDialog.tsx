@@ -1,33 +1,115 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Copy, Loader2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
   DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
-  DialogTrigger,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 
 interface DuplicateProjectDialogProps {
-  projectId: string;
-  projectName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  project: { id: string; name: string; start_date: string } | null;
 }
 
-export function DuplicateProjectDialog({ projectId, projectName }: DuplicateProjectDialogProps) {
+interface CopyOptions {
+  assignees: boolean;
+  progress: boolean;
+  documents: boolean;
+  chat: boolean;
+}
+
+interface DuplicationCounts {
+  departments: number;
+  elements: number;
+  tasks: number;
+  members: number;
+  assignments: number;
+  folders: number;
+  links: number;
+  chatRooms: number;
+}
+
+// What the background copy is going to create, counted before it starts
+interface DuplicationSummary extends DuplicationCounts {
+  startDate: string;
+  dateShift: number;
+  shiftUnit: 'days' | 'working_days';
+  copied: CopyOptions;
+}
+
+const COPY_OPTIONS: { key: keyof CopyOptions; label: string; description: string }[] = [
+  { key: 'assignees', label: 'Assignees', description: 'Keep the people assigned to each task' },
+  { key: 'progress', label: 'Progress', description: 'Keep task statuses and progress instead of resetting to "todo"' },
+  { key: 'documents', label: 'Documents', description: 'Folder structure and document links' },
+  { key: 'chat', label: 'Chat', description: 'Chat settings and rooms, without messages' },
+];
+
+// What the copy created, stored on the new project once it finished or stopped
+interface DuplicationOutcome extends DuplicationCounts {
+  error: string | null;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+const DEFAULT_OPTIONS: CopyOptions = { assignees: false, progress: false, documents: true, chat: true };
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+export function DuplicateProjectDialog({ open, onOpenChange, project }: DuplicateProjectDialogProps) {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [open, setOpen] = useState(false);
-  const [newName, setNewName] = useState(`Copy of ${projectName}`);
+  const [newName, setNewName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [workingDays, setWorkingDays] = useState(true);
+  const [options, setOptions] = useState<CopyOptions>(DEFAULT_OPTIONS);
   const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<{ newProjectId: string; summary: DuplicationSummary } | null>(null);
+  const [outcome, setOutcome] = useState<{ failed: boolean; counts: DuplicationOutcome | null } | null>(null);
+
+  useEffect(() => {
+    if (open && project) {
+      setNewName(`Copy of ${project.name}`);
+      setStartDate(project.start_date?.split('T')[0] || '');
+      setWorkingDays(true);
+      setOptions(DEFAULT_OPTIONS);
+      setResult(null);
+      setOutcome(null);
+    }
+  }, [open, project]);
+
+  // The copy runs in the background; wait for the new project to leave 'duplicating'
+  useEffect(() => {
+    if (!open || !result || outcome) return;
+    const interval = setInterval(async () => {
+      const { data } = await supabase
+        .from('projects')
+        .select('status, duplication_result')
+        .eq('id', result.newProjectId)
+        .maybeSingle();
+      if (data && data.status !== 'duplicating') {
+        setOutcome({
+          failed: data.status === 'error',
+          counts: data.duplication_result as unknown as DuplicationOutcome | null,
+        });
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [open, result, outcome]);
 
   const handleDuplicate = async () => {
+    if (!project) return;
     if (!newName.trim()) {
       toast({
         title: "Error",
@@ -42,8 +124,11 @@ export function DuplicateProjectDialog({ projectId, projectName }: DuplicateProj
     try {
       const { data, error } = await supabase.functions.invoke('duplicate-project', {
         body: {
-          projectId,
+          projectId: project.id,
           newProjectName: newName.trim(),
+          newStartDate: startDate || null,
+          shiftInWorkingDays: workingDays,
+          copy: options,
         },
       });
 
@@ -54,12 +139,7 @@ export function DuplicateProjectDialog({ projectId, projectName }: DuplicateProj
         description: data.message || "Project duplicated successfully",
       });
 
-      setOpen(false);
-      
-      // Navigate to the new project
-      if (data.newProjectId) {
-        navigate(`/projects/${data.newProjectId}`);
-      }
+      setResult({ newProjectId: data.newProjectId, summary: data.summary });
     } catch (error: any) {
       console.error('Error duplicating project:', error);
       toast({
@@ -72,41 +152,142 @@ export function DuplicateProjectDialog({ projectId, projectName }: DuplicateProj
     }
   };
 
+  const shiftDescription = (summary: DuplicationSummary) => {
+    if (summary.dateShift === 0) return 'Dates are unchanged.';
+    const unit = summary.shiftUnit === 'working_days' ? 'working day' : 'day';
+    const amount = plural(Math.abs(summary.dateShift), unit);
+    return `Dates moved ${summary.dateShift > 0 ? 'forward' : 'back'} by ${amount}, starting ${format(parseISO(summary.startDate), 'MMM d, yyyy')}.`;
+  };
+
+  const renderCounts = (counts: DuplicationCounts, copied: CopyOptions) => (
+    <ul className="text-sm text-muted-foreground space-y-1 list-disc pl-5">
+      <li>
+        {plural(counts.departments, 'department')}, {plural(counts.elements, 'element')} and{' '}
+        {plural(counts.tasks, 'task')}
+      </li>
+      <li>{plural(counts.members, 'project member')}</li>
+      <li>{copied.assignees ? plural(counts.assignments, 'task assignment') : 'Tasks left unassigned'}</li>
+      <li>{copied.progress ? 'Statuses and progress kept' : 'All tasks reset to "todo"'}</li>
+      <li>
+        {copied.documents
+          ? `${plural(counts.folders, 'folder')} and ${plural(counts.links, 'document link')}`
+          : 'Documents not copied'}
+      </li>
+      <li>{copied.chat ? plural(counts.chatRooms, 'chat room') : 'Chat not copied'}</li>
+    </ul>
+  );
+
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
-      <DialogTrigger asChild>
-        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={(e) => e.stopPropagation()}>
-          <Copy className="h-4 w-4" />
-        </Button>
-      </DialogTrigger>
+    <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent onClick={(e) => e.stopPropagation()}>
         <DialogHeader>
           <DialogTitle>Duplicate Project</DialogTitle>
           <DialogDescription>
-            This will create a copy of the project including all departments, elements, and tasks.
-            All tasks will be reset to "todo" status and unassigned.
+            This will create a copy of the project including all departments, elements, tasks,
+            dependencies, workflow statuses and labels.
           </DialogDescription>
         </DialogHeader>
-        <div className="space-y-4 py-4">
-          <div className="space-y-2">
-            <Label htmlFor="newName">New Project Name</Label>
-            <Input
-              id="newName"
-              value={newName}
-              onChange={(e) => setNewName(e.target.value)}
-              placeholder="Enter project name"
-            />
+
+        {result ? (
+          <div className="space-y-3 py-2">
+            {!outcome ? (
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Copying "{newName.trim()}" in the background
+              </div>
+            ) : outcome.failed ? (
+              <div className="flex items-start gap-2 text-sm font-medium text-destructive">
+                <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                Copying "{newName.trim()}" stopped{outcome.counts?.error ? `: ${outcome.counts.error}` : ''}
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <CheckCircle2 className="h-4 w-4 text-success" />
+                Copied "{newName.trim()}"
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              {!outcome
+                ? 'Planned copy. The counts are updated once the copy finishes.'
+                : outcome.failed
+                  ? 'Created before the copy stopped:'
+                  : 'Created in the new project:'}
+            </p>
+            {renderCounts(outcome?.counts || result.summary, result.summary.copied)}
+            <p className="text-sm">{shiftDescription(result.summary)}</p>
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="newName">New Project Name</Label>
+              <Input
+                id="newName"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="Enter project name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="newStartDate">New Start Date</Label>
+              <Input
+                id="newStartDate"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="shift-working-days"
+                  checked={workingDays}
+                  onCheckedChange={(checked) => setWorkingDays(checked === true)}
+                />
+                <Label htmlFor="shift-working-days" className="text-sm font-normal">
+                  Shift dates in working days, keeping tasks off weekends and holidays
+                </Label>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Also Copy</Label>
+              {COPY_OPTIONS.map(option => (
+                <div key={option.key} className="flex items-start gap-2">
+                  <Checkbox
+                    id={`copy-${option.key}`}
+                    checked={options[option.key]}
+                    onCheckedChange={(checked) => setOptions(prev => ({ ...prev, [option.key]: checked === true }))}
+                    className="mt-0.5"
+                  />
+                  <Label htmlFor={`copy-${option.key}`} className="text-sm font-normal leading-snug">
+                    {option.label}
+                    <span className="block text-xs text-muted-foreground">{option.description}</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
           </div>
-        </div>
-        <div className="flex justify-end gap-3">
-          <Button variant="outline" onClick={() => setOpen(false)} disabled={loading}>
-            Cancel
-          </Button>
-          <Button onClick={handleDuplicate} disabled={loading}>
-            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-            Duplicate Project
-          </Button>
-        </div>
+        )}
+
+        <DialogFooter>
+          {result ? (
+            <Button
+              onClick={() => {
+                onOpenChange(false);
+                navigate(`/projects/${result.newProjectId}`);
+              }}
+            >
+              Open Project
+            </Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+                Cancel
+              </Button>
+              <Button onClick={handleDuplicate} disabled={loading}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Duplicate Project
+              </Button>
+            </>
+          )}
+        </DialogFooter>
       </DialogContent>
     </Dialog>
   );
@@ -6,10 +6,20 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Trash2, Building2 } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2, Trash2, Building2, MessageSquare } from 'lucide-react';
 import { SearchableUserSelect } from '@/components/SearchableUserSelect';
 import { useUserRole } from '@/hooks/useUserRole';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTaskDependencies } from '@/hooks/useTaskDependencies';
+import { TaskComments } from '@/components/tasks/TaskComments';
+import { syncTaskAssignments } from '@/lib/taskAssignments';
+import { LabelPicker } from '@/components/labels/LabelPicker';
+import { RecurrenceEditor } from '@/components/recurrence/RecurrenceEditor';
+import { useWorkingCalendar } from '@/hooks/useWorkingCalendar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useTaskRecurrence } from '@/hooks/useTaskRecurrence';
+import type { RecurrenceRule } from '@/lib/recurrence';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -58,6 +68,7 @@ interface Department {
 export function EditTaskDialog({ open, onOpenChange, task, onSuccess }: EditTaskDialogProps) {
   const [title, setTitle] = useState('');
   const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
+  const [labels, setLabels] = useState<string[]>([]);
   const [elementId, setElementId] = useState<string>('');
   const [departmentId, setDepartmentId] = useState<string>('');
   const [estimatedCost, setEstimatedCost] = useState<string>('0');
@@ -71,9 +82,16 @@ export function EditTaskDialog({ open, onOpenChange, task, onSuccess }: EditTask
   const [dataLoading, setDataLoading] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [canMoveDepartment, setCanMoveDepartment] = useState(false);
+  const [recurrenceId, setRecurrenceId] = useState<string | null>(null);
+  const [recurrenceRule, setRecurrenceRule] = useState<RecurrenceRule | null>(null);
+  const [applyToSeries, setApplyToSeries] = useState(false);
   const { toast } = useToast();
   const { isAdmin, isProjectManager } = useUserRole();
   const { user } = useAuth();
+  const { rescheduleDependents } = useTaskDependencies(task?.project_id);
+  const { calendar } = useWorkingCalendar(task?.project_id);
+  const recurrence = useTaskRecurrence(recurrenceId);
+  const savedRule = recurrence.recurrence;
   
   // Track the task ID we've loaded data for to prevent redundant fetches
   const loadedTaskIdRef = useRef<string | null>(null);
@@ -97,6 +115,8 @@ export function EditTaskDialog({ open, onOpenChange, task, onSuccess }: EditTask
       setStartDate('');
       setDueDate('');
       setSelectedUserIds([]);
+      setLabels([]);
+      setRecurrenceId(null);
       loadedTaskIdRef.current = null;
     }
   }, [task?.id, task?.title, task?.element_id, task?.assignee_department_id, task?.estimated_cost, task?.actual_cost, task?.start_date, task?.due_date]);
@@ -143,6 +163,8 @@ export function EditTaskDialog({ open, onOpenChange, task, onSuccess }: EditTask
             ? Promise.resolve(supabase.from('elements').select('id, title').eq('project_id', task.project_id).eq('department_id', task.assignee_department_id).order('title'))
             : Promise.resolve({ data: [], error: null }),
           Promise.resolve(supabase.from('task_assignments').select('user_id').eq('task_id', task.id)),
+          // Callers don't all pass labels, so read them with the rest of the task data
+          Promise.resolve(supabase.from('tasks').select('labels, recurrence_id').eq('id', task.id).single()),
         ];
 
         // Fetch departments for the project
@@ -160,7 +182,7 @@ export function EditTaskDialog({ open, onOpenChange, task, onSuccess }: EditTask
         }
 
         const results = await Promise.all(queries);
-        const [usersResult, elementsResult, assignmentsResult] = results;
+        const [usersResult, elementsResult, assignmentsResult, labelsResult] = results;
 
         if (usersResult.error) throw usersResult.error;
         if (elementsResult.error) throw elementsResult.error;
@@ -171,14 +193,17 @@ export function EditTaskDialog({ open, onOpenChange, task, onSuccess }: EditTask
         
         const assignedIds = (assignmentsResult.data || []).map((a: any) => a.user_id).filter(Boolean) as string[];
         setSelectedUserIds(assignedIds);
+        setLabels(labelsResult.data?.labels || []);
+        setRecurrenceId(labelsResult.data?.recurrence_id || null);
+        setApplyToSeries(false);
 
         // Set departments if fetched
-        if (results[3] && !results[3].error) {
-          setDepartments(results[3].data || []);
+        if (results[4] && !results[4].error) {
+          setDepartments(results[4].data || []);
         }
 
         // Check if user can move department
-        const isDeptLead = results[4]?.data ? true : false;
+        const isDeptLead = results[5]?.data ? true : false;
         setCanMoveDepartment(isAdmin || isProjectManager || isDeptLead);
       } catch (error) {
         console.error('Error loading task data:', error);
@@ -190,6 +215,17 @@ export function EditTaskDialog({ open, onOpenChange, task, onSuccess }: EditTask
     loadData();
   }, [open, task?.id, task?.project_id, task?.assignee_department_id, isAdmin, isProjectManager, user?.id]);
 
+  // Start from the saved rule once the series has loaded
+  useEffect(() => {
+    setRecurrenceRule(savedRule ? {
+      frequency: savedRule.frequency,
+      interval_count: savedRule.interval_count,
+      weekdays: savedRule.weekdays || [],
+      generate_on: savedRule.generate_on,
+      ends_on: savedRule.ends_on,
+    } : null);
+  }, [savedRule]);
+
   // Reset loaded task ref when dialog closes
   useEffect(() => {
     if (!open) {
@@ -230,6 +266,7 @@ export function EditTaskDialog({ open, onOpenChange, task, onSuccess }: EditTask
         actual_cost: parseFloat(actualCost) || 0,
         start_date: startDate || null,
         due_date: dueDate || null,
+        labels,
       };
 
       // Only include department change if user has permission and it changed
@@ -244,32 +281,33 @@ export function EditTaskDialog({ open, onOpenChange, task, onSuccess }: EditTask
 
       if (taskError) throw taskError;
 
-      // Delete existing task assignments
-      const { error: deleteError } = await supabase
-        .from('task_assignments')
-        .delete()
-        .eq('task_id', task.id);
-
-      if (deleteError) throw deleteError;
-
-      // Create new task assignments
-      if (selectedUserIds.length > 0) {
-        const assignments = selectedUserIds.map(userId => ({
-          task_id: task.id,
-          user_id: userId,
-        }));
-        
-        const { error: assignError } = await supabase
-          .from('task_assignments')
-          .insert(assignments);
+      // Update task assignments
+      await syncTaskAssignments(task.id, selectedUserIds);
+
+      if (recurrenceId && applyToSeries) {
+        await recurrence.applyToSeries(task.id, {
+          title: updateData.title,
+          element_id: updateData.element_id,
+          estimated_cost: updateData.estimated_cost,
+          labels,
+          ...(updateData.assignee_department_id ? { assignee_department_id: updateData.assignee_department_id } : {}),
+        }, selectedUserIds);
+      }
 
-        if (assignError) throw assignError;
+      if (recurrenceRule && task.project_id) {
+        await recurrence.saveRecurrence(task.id, task.project_id, recurrenceRule);
+      } else if (!recurrenceRule && recurrenceId) {
+        await recurrence.stopRecurrence();
       }
 
       toast({
         title: 'Success',
         description: `Task updated with ${selectedUserIds.length} assigned user(s)`,
       });
+
+      if (startDate !== (task.start_date || '') || dueDate !== (task.due_date || '')) {
+        await rescheduleDependents(task.id);
+      }
       onSuccess();
       onOpenChange(false);
     } catch (error: any) {
@@ -324,7 +362,7 @@ export function EditTaskDialog({ open, onOpenChange, task, onSuccess }: EditTask
   return (
     <>
       <Dialog open={open} onOpenChange={onOpenChange}>
-        <DialogContent className="sm:max-w-[500px]">
+        <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Task</DialogTitle>
           </DialogHeader>
@@ -335,155 +373,197 @@ export function EditTaskDialog({ open, onOpenChange, task, onSuccess }: EditTask
               <span className="ml-2 text-muted-foreground">Loading task data...</span>
             </div>
           ) : (
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="title">Task Name</Label>
-                <Input
-                  id="title"
-                  value={title}
-                  onChange={(e) => setTitle(e.target.value)}
-                  placeholder="Enter task name"
-                  required
-                />
-              </div>
-
-              {/* Department selector - only visible to admin/PM/dept lead */}
-              {canMoveDepartment && departments.length > 1 && (
-                <div className="space-y-2">
-                  <Label htmlFor="department" className="flex items-center gap-1.5">
-                    <Building2 className="h-3.5 w-3.5" />
-                    Move to Department
-                  </Label>
-                  <Select
-                    value={departmentId}
-                    onValueChange={(value) => setDepartmentId(value)}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select department" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {departments.map((dept) => (
-                        <SelectItem key={dept.id} value={dept.id}>
-                          {dept.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  {departmentId !== task?.assignee_department_id && (
-                    <p className="text-xs text-destructive">
-                      ⚠ Task will be moved to a different department
-                    </p>
+            <Tabs defaultValue="details">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="details">Details</TabsTrigger>
+                <TabsTrigger value="comments" className="gap-2">
+                  <MessageSquare className="h-4 w-4" />
+                  Comments
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="details">
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="title">Task Name</Label>
+                    <Input
+                      id="title"
+                      value={title}
+                      onChange={(e) => setTitle(e.target.value)}
+                      placeholder="Enter task name"
+                      required
+                    />
+                  </div>
+
+                  {/* Department selector - only visible to admin/PM/dept lead */}
+                  {canMoveDepartment && departments.length > 1 && (
+                    <div className="space-y-2">
+                      <Label htmlFor="department" className="flex items-center gap-1.5">
+                        <Building2 className="h-3.5 w-3.5" />
+                        Move to Department
+                      </Label>
+                      <Select
+                        value={departmentId}
+                        onValueChange={(value) => setDepartmentId(value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select department" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {departments.map((dept) => (
+                            <SelectItem key={dept.id} value={dept.id}>
+                              {dept.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {departmentId !== task?.assignee_department_id && (
+                        <p className="text-xs text-destructive">
+                          ⚠ Task will be moved to a different department
+                        </p>
+                      )}
+                    </div>
                   )}
-                </div>
-              )}
-
-              <div className="space-y-2">
-                <Label htmlFor="element">Element</Label>
-                <Select 
-                  value={elementId || 'no-element'} 
-                  onValueChange={(value) => setElementId(value === 'no-element' ? '' : value)}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select element" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="no-element">No Element</SelectItem>
-                    {elements.map((element) => (
-                      <SelectItem key={element.id} value={element.id}>
-                        {element.title}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-                {elements.length === 0 && (
-                  <p className="text-xs text-muted-foreground">No elements available in this department</p>
-                )}
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="assignees">Assign To (Multiple Users)</Label>
-                <SearchableUserSelect
-                  users={users}
-                  selectedUserIds={selectedUserIds}
-                  onSelectionChange={setSelectedUserIds}
-                  placeholder="Search by name or email..."
-                />
-              </div>
-
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="start-date">Start Date</Label>
-                  <Input
-                    id="start-date"
-                    type="date"
-                    value={startDate}
-                    onChange={(e) => setStartDate(e.target.value)}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="due-date">Due Date</Label>
-                  <Input
-                    id="due-date"
-                    type="date"
-                    value={dueDate}
-                    onChange={(e) => setDueDate(e.target.value)}
-                  />
-                </div>
-              </div>
-
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="estimated-cost">Estimated Cost</Label>
-                  <Input
-                    id="estimated-cost"
-                    type="number"
-                    min="0"
-                    step="0.01"
-                    value={estimatedCost}
-                    onChange={(e) => setEstimatedCost(e.target.value)}
-                    placeholder="0.00"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="actual-cost">Actual Cost</Label>
-                  <Input
-                    id="actual-cost"
-                    type="number"
-                    min="0"
-                    step="0.01"
-                    value={actualCost}
-                    onChange={(e) => setActualCost(e.target.value)}
-                    placeholder="0.00"
+
+                  <div className="space-y-2">
+                    <Label htmlFor="element">Element</Label>
+                    <Select 
+                      value={elementId || 'no-element'} 
+                      onValueChange={(value) => setElementId(value === 'no-element' ? '' : value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select element" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="no-element">No Element</SelectItem>
+                        {elements.map((element) => (
+                          <SelectItem key={element.id} value={element.id}>
+                            {element.title}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {elements.length === 0 && (
+                      <p className="text-xs text-muted-foreground">No elements available in this department</p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="assignees">Assign To (Multiple Users)</Label>
+                    <SearchableUserSelect
+                      users={users}
+                      selectedUserIds={selectedUserIds}
+                      onSelectionChange={setSelectedUserIds}
+                      placeholder="Search by name or email..."
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Labels</Label>
+                    <LabelPicker projectId={task?.project_id} value={labels} onChange={setLabels} />
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="start-date">Start Date</Label>
+                      <Input
+                        id="start-date"
+                        type="date"
+                        value={startDate}
+                        onChange={(e) => setStartDate(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="due-date">Due Date</Label>
+                      <Input
+                        id="due-date"
+                        type="date"
+                        value={dueDate}
+                        onChange={(e) => setDueDate(e.target.value)}
+                      />
+                    </div>
+                  </div>
+
+                  <RecurrenceEditor
+                    value={recurrenceRule}
+                    onChange={setRecurrenceRule}
+                    startDate={startDate}
+                    calendar={calendar}
+                    disabled={!task?.project_id}
                   />
-                </div>
-              </div>
-
-              <DialogFooter className="flex justify-between sm:justify-between">
-                <Button
-                  type="button"
-                  variant="destructive"
-                  onClick={() => setShowDeleteDialog(true)}
-                  disabled={loading}
-                >
-                  <Trash2 className="h-4 w-4 mr-2" />
-                  Delete
-                </Button>
-                <div className="flex gap-2">
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => onOpenChange(false)}
-                    disabled={loading}
-                  >
-                    Cancel
-                  </Button>
-                  <Button type="submit" disabled={loading}>
-                    {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
-                    Save Changes
-                  </Button>
-                </div>
-              </DialogFooter>
-            </form>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="estimated-cost">Estimated Cost</Label>
+                      <Input
+                        id="estimated-cost"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={estimatedCost}
+                        onChange={(e) => setEstimatedCost(e.target.value)}
+                        placeholder="0.00"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="actual-cost">Actual Cost</Label>
+                      <Input
+                        id="actual-cost"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={actualCost}
+                        onChange={(e) => setActualCost(e.target.value)}
+                        placeholder="0.00"
+                      />
+                    </div>
+                  </div>
+
+                  {recurrenceId && recurrence.openCount > 1 && (
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="apply-to-series"
+                        checked={applyToSeries}
+                        onCheckedChange={(checked) => setApplyToSeries(checked === true)}
+                      />
+                      <Label htmlFor="apply-to-series" className="text-sm font-normal">
+                        Apply name, element, assignees, labels and cost to all {recurrence.openCount} open tasks in the series
+                      </Label>
+                    </div>
+                  )}
+
+                  <DialogFooter className="flex justify-between sm:justify-between">
+                    <Button
+                      type="button"
+                      variant="destructive"
+                      onClick={() => setShowDeleteDialog(true)}
+                      disabled={loading}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </Button>
+                    <div className="flex gap-2">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => onOpenChange(false)}
+                        disabled={loading}
+                      >
+                        Cancel
+                      </Button>
+                      <Button type="submit" disabled={loading}>
+                        {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        Save Changes
+                      </Button>
+                    </div>
+                  </DialogFooter>
+                </form>
+              </TabsContent>
+
+              <TabsContent value="comments" className="pt-2">
+                {task && <TaskComments taskId={task.id} members={users} />}
+              </TabsContent>
+            </Tabs>
           )}
         </DialogContent>
       </Dialog>
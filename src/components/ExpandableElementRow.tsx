@@ -7,7 +7,9 @@ import {
   Circle, 
   ChevronRight,
   ChevronDown,
-  User
+  User,
+  Route,
+  CornerDownRight
 } from 'lucide-react';
 import { 
   Tooltip,
@@ -16,13 +18,18 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { format } from 'date-fns';
-import { calculateWorkingDays, formatWorkingDays, calculateCostVariance } from '@/lib/workingDays';
+import { calculateWorkingDays, formatWorkingDays, calculateCostVariance, type WorkingCalendar } from '@/lib/workingDays';
+import { formatFloat, type TaskSchedule } from '@/lib/criticalPath';
+import { flattenTaskTree } from '@/lib/subtasks';
+import { calculateScheduleVariance, formatDayVariance, type BaselineDates } from '@/lib/baselines';
+import type { BarDragMode } from '@/lib/ganttDrag';
 
 interface Task {
   id: string;
   title: string;
   assignee?: string;
   assignee_user_id?: string;
+  parent_task_id?: string | null;
   start_date: string;
   due_date: string;
   progress_percentage: number;
@@ -52,6 +59,52 @@ interface ExpandableElementRowProps {
   getStatusIcon: (status: string) => any;
   getStatusColor: (status?: string) => string;
   isTaskOverdue: (dueDate: string, status: string) => boolean;
+  onStartLink?: (taskId: string, event: React.PointerEvent) => void;
+  linkingFromTaskId?: string | null;
+  taskSchedules?: Record<string, TaskSchedule>;
+  baselineTasks?: Map<string, BaselineDates>;
+  elementBaseline?: BaselineDates | null;
+  onStartBarDrag?: (target: { kind: 'task' | 'element'; id: string }, mode: BarDragMode, event: React.PointerEvent) => void;
+  canDragElement?: boolean;
+  canDragTask?: (task: Task) => boolean;
+  draggingBarId?: string | null;
+  /** CSS background shading the calendar's non-working days across the timeline */
+  timelineShading?: string;
+  /** The project's working calendar, for durations and baseline variance */
+  calendar: WorkingCalendar;
+}
+
+/**
+ * Thin dashed bar showing where the baseline planned an item
+ */
+function BaselineGhostBar({ position, top }: { position: { left: string; width: string } | null; top: string }) {
+  if (!position) return null;
+  return (
+    <div
+      className="absolute rounded-sm border border-dashed border-muted-foreground/60 bg-muted-foreground/20 pointer-events-none"
+      style={{ ...position, top, height: '5px' }}
+      aria-hidden="true"
+    />
+  );
+}
+
+function BaselineTooltipLine({
+  baseline,
+  current,
+  calendar,
+}: {
+  baseline: BaselineDates;
+  current: BaselineDates;
+  calendar: WorkingCalendar;
+}) {
+  const variance = calculateScheduleVariance(baseline, current, calendar);
+  return (
+    <p className="text-[10px] pt-1 border-t border-border/50">
+      <span className="text-muted-foreground">Baseline:</span>{' '}
+      {format(new Date(baseline.start_date!), 'MMM d')} – {format(new Date(baseline.due_date!), 'MMM d')}{' '}
+      <span className={`font-medium ${variance.statusColor}`}>({formatDayVariance(variance.finishVariance)})</span>
+    </p>
+  );
 }
 
 export function ExpandableElementRow({
@@ -64,7 +117,18 @@ export function ExpandableElementRow({
   calculatePosition,
   getStatusIcon,
   getStatusColor,
-  isTaskOverdue
+  isTaskOverdue,
+  onStartLink,
+  linkingFromTaskId,
+  taskSchedules = {},
+  baselineTasks,
+  elementBaseline,
+  onStartBarDrag,
+  canDragElement = false,
+  canDragTask = () => false,
+  draggingBarId,
+  timelineShading,
+  calendar
 }: ExpandableElementRowProps) {
   // Calculate element position based on its tasks
   const elementStartDate = element.start_date || 
@@ -78,10 +142,13 @@ export function ExpandableElementRow({
   if (!position) return null;
   
   const hasTasks = element.tasks && element.tasks.length > 0;
+  // Subtasks are drawn directly below their parent
+  const taskRows = flattenTaskTree(element.tasks);
+  const topLevelTasks = taskRows.filter(row => row.depth === 0).map(row => row.task);
   
-  // Calculate average progress
+  // Calculate average progress; parents already roll up their subtasks
   const avgProgress = hasTasks 
-    ? Math.round(element.tasks.reduce((sum, task) => sum + (task.progress_percentage || 0), 0) / element.tasks.length)
+    ? Math.round(topLevelTasks.reduce((sum, task) => sum + (task.progress_percentage || 0), 0) / topLevelTasks.length)
     : 0;
   
   // Check if any tasks in element are overdue
@@ -97,6 +164,14 @@ export function ExpandableElementRow({
 
   const completedTasks = element.tasks.filter(t => t.status === 'done').length;
 
+  const startBarDrag = (kind: 'task' | 'element', id: string, mode: BarDragMode) => (e: React.PointerEvent) => {
+    if (!onStartBarDrag || e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    onStartBarDrag({ kind, id }, mode, e);
+  };
+  const elementDraggable = !!onStartBarDrag && canDragElement;
+
   return (
     <>
       {/* Element Row */}
@@ -147,17 +222,19 @@ export function ExpandableElementRow({
         </div>
 
         {/* Timeline - Element Bar */}
-        <div className="flex-1 relative p-2" style={{ minWidth: '400px', minHeight: '48px' }}>
+        <div className="flex-1 relative p-2" style={{ minWidth: '400px', minHeight: '48px', backgroundImage: timelineShading }}>
+          {elementBaseline && <BaselineGhostBar position={calculatePosition(elementBaseline)} top="41px" />}
           <TooltipProvider>
             <Tooltip>
               <TooltipTrigger asChild>
                 <motion.div
                   initial={{ opacity: 0, scaleX: 0.8 }}
                   animate={{ opacity: 1, scaleX: 1 }}
-                  whileHover={{ scale: 1.02, zIndex: 30 }}
-                  className={`absolute cursor-pointer rounded-lg overflow-hidden shadow-md hover:shadow-lg transition-all ${
-                    hasOverdueTasks ? 'ring-2 ring-destructive' : ''
-                  }`}
+                  whileHover={draggingBarId ? undefined : { scale: 1.02, zIndex: 30 }}
+                  data-gantt-bar
+                  className={`absolute rounded-lg overflow-hidden shadow-md hover:shadow-lg transition-shadow ${
+                    elementDraggable ? 'cursor-grab active:cursor-grabbing touch-none' : 'cursor-pointer'
+                  } ${draggingBarId === element.id ? 'ring-2 ring-primary z-30' : hasOverdueTasks ? 'ring-2 ring-destructive' : ''}`}
                   style={{
                     ...position,
                     height: '32px',
@@ -167,6 +244,7 @@ export function ExpandableElementRow({
                       : `linear-gradient(135deg, ${deptColor}E6, ${deptColor}B3)`
                   }}
                   onClick={onElementClick}
+                  onPointerDown={elementDraggable ? startBarDrag('element', element.id, 'move') : undefined}
                 >
                   {/* Progress Bar */}
                   <motion.div
@@ -217,6 +295,13 @@ export function ExpandableElementRow({
                       </div>
                     </div>
                   )}
+                  {elementBaseline && (
+                    <BaselineTooltipLine
+                      baseline={elementBaseline}
+                      current={{ start_date: elementStartDate, due_date: elementDueDate }}
+                      calendar={calendar}
+                    />
+                  )}
                 </div>
               </TooltipContent>
             </Tooltip>
@@ -226,7 +311,7 @@ export function ExpandableElementRow({
 
       {/* Task Sub-Rows */}
       <AnimatePresence>
-        {isExpanded && hasTasks && element.tasks.map((task, taskIdx) => {
+        {isExpanded && hasTasks && taskRows.map(({ task, depth, childCount }, taskIdx) => {
           console.log('Rendering task:', task.title, 'isExpanded:', isExpanded, 'hasTasks:', hasTasks);
           const taskPosition = calculatePosition(task);
           if (!taskPosition) {
@@ -237,6 +322,11 @@ export function ExpandableElementRow({
           const TaskStatusIcon = getStatusIcon(task.status);
           const isOverdue = isTaskOverdue(task.due_date, task.status);
           const overdueColor = '#EF4444'; // Red color for overdue
+          const schedule = taskSchedules[task.id];
+          const isCritical = schedule?.isCritical ?? false;
+          const isParent = childCount > 0;
+          const taskBaseline = baselineTasks?.get(task.id);
+          const taskDraggable = !!onStartBarDrag && canDragTask(task);
 
           return (
             <motion.div
@@ -251,11 +341,15 @@ export function ExpandableElementRow({
               <div className={`w-32 sm:w-40 md:w-48 lg:w-64 border-r px-2 sm:px-3 md:px-4 py-2 flex-shrink-0 ${
                 isOverdue ? 'bg-destructive/5' : ''
               }`}>
-                <div className="flex items-center gap-2 pl-8">
+                <div className="flex items-center gap-2" style={{ paddingLeft: `${2 + depth * 0.75}rem` }}>
               <div className="min-w-0 flex-1">
                 <div className="flex items-center gap-1.5">
+                  {depth > 0 && <CornerDownRight className="h-3 w-3 flex-shrink-0 text-muted-foreground" />}
                   <TaskStatusIcon className={`h-3 w-3 flex-shrink-0 ${isOverdue ? 'text-destructive' : ''}`} />
-                  <span className={`text-xs font-medium truncate ${isOverdue ? 'text-destructive' : ''}`}>{task.title}</span>
+                  <span className={`text-xs truncate ${isParent ? 'font-semibold' : 'font-medium'} ${isOverdue ? 'text-destructive' : ''}`}>{task.title}</span>
+                  {isCritical && (
+                    <Route className="h-3 w-3 flex-shrink-0 text-orange-500" aria-label="Critical path" />
+                  )}
                 </div>
                 <div className="flex items-center gap-1.5 mt-0.5">
                   {task.assignee && (
@@ -292,7 +386,8 @@ export function ExpandableElementRow({
               </div>
 
               {/* Timeline - Task Bar */}
-              <div className="flex-1 relative p-2" style={{ minWidth: '400px', minHeight: '36px' }}>
+              <div className="flex-1 relative p-2" style={{ minWidth: '400px', minHeight: '36px', backgroundImage: timelineShading }}>
+                {taskBaseline && <BaselineGhostBar position={calculatePosition(taskBaseline)} top="30px" />}
                 <TooltipProvider>
                   <Tooltip>
                      <TooltipTrigger asChild>
@@ -302,13 +397,20 @@ export function ExpandableElementRow({
                           opacity: task.status === 'not-started' || task.status === 'todo' ? 0.6 : 1, 
                           x: 0
                         }}
-                        whileHover={{ scale: 1.02, zIndex: 30 }}
+                        whileHover={draggingBarId ? undefined : { scale: 1.02, zIndex: 30 }}
                         transition={{ duration: 0.3, ease: "easeOut" }}
-                        className="absolute cursor-pointer rounded-md overflow-hidden shadow-sm hover:shadow-md"
+                        data-task-bar-id={task.id}
+                        data-gantt-bar
+                        className={`group absolute rounded-md overflow-hidden shadow-sm hover:shadow-md ${
+                          taskDraggable ? 'cursor-grab active:cursor-grabbing touch-none' : 'cursor-pointer'
+                        } ${
+                          draggingBarId === task.id ? 'ring-2 ring-primary z-30' : linkingFromTaskId && linkingFromTaskId !== task.id ? 'ring-2 ring-primary/40' : isCritical ? 'ring-2 ring-orange-500 ring-offset-1' : ''
+                        }`}
                         style={{
                           ...taskPosition,
-                          height: '24px',
-                          top: '6px',
+                          // Parent bars are drawn slimmer as a summary of their subtasks
+                          height: isParent ? '16px' : '24px',
+                          top: isParent ? '10px' : '6px',
                           background: isOverdue
                             ? `linear-gradient(90deg, ${overdueColor}, ${overdueColor}99)`
                             : task.status === 'in_progress' || task.status === 'in-progress'
@@ -318,6 +420,7 @@ export function ExpandableElementRow({
                             : `${getStatusColor(task.status)}55`,
                           border: `2px solid ${isOverdue ? overdueColor : getStatusColor(task.status)}`
                         }}
+                        onPointerDown={taskDraggable ? startBarDrag('task', task.id, 'move') : undefined}
                       >
                         {/* Animated shimmer effect for in-progress and overdue tasks */}
                         {(isOverdue || task.status === 'in_progress' || task.status === 'in-progress') && (
@@ -354,12 +457,45 @@ export function ExpandableElementRow({
                             </span>
                           )}
                         </div>
+
+                        {/* Resize handles - drag an edge to change the start or due date */}
+                        {taskDraggable && (
+                          <>
+                            <div
+                              className="absolute left-0 top-0 h-full w-1.5 cursor-ew-resize bg-white/40 opacity-0 group-hover:opacity-100 transition-opacity"
+                              onPointerDown={startBarDrag('task', task.id, 'start')}
+                            />
+                            <div
+                              className="absolute right-0 top-0 h-full w-1.5 cursor-ew-resize bg-white/40 opacity-0 group-hover:opacity-100 transition-opacity"
+                              onPointerDown={startBarDrag('task', task.id, 'end')}
+                            />
+                          </>
+                        )}
+
+                        {/* Link handle - drag onto another bar to add or remove a dependency */}
+                        {onStartLink && (
+                          <div
+                            className={`absolute top-0 h-full w-2.5 cursor-crosshair bg-white/60 opacity-0 group-hover:opacity-100 transition-opacity ${
+                              taskDraggable ? 'right-1.5' : 'right-0'
+                            }`}
+                            onPointerDown={(e) => {
+                              e.preventDefault();
+                              e.stopPropagation();
+                              onStartLink(task.id, e);
+                            }}
+                          />
+                        )}
                       </motion.div>
                     </TooltipTrigger>
                     <TooltipContent side="top" className="max-w-xs z-50">
                       <div className="space-y-1">
                         <p className="font-semibold text-xs">{task.title}</p>
                         <p className="text-[10px] text-muted-foreground">Part of {element.title}</p>
+                        {isParent && (
+                          <p className="text-[10px] text-muted-foreground">
+                            {childCount} subtask{childCount !== 1 ? 's' : ''} • progress rolled up
+                          </p>
+                        )}
                         {task.assignee && (
                           <p className="text-[10px]">
                             <User className="h-2.5 w-2.5 inline mr-1" />
@@ -380,11 +516,20 @@ export function ExpandableElementRow({
                           </div>
                         </div>
                         <p className="text-[10px] pt-1">
-                          <span className="text-muted-foreground">Working Days:</span> <span className="font-medium">{formatWorkingDays(calculateWorkingDays(task.start_date, task.due_date))}</span>
+                          <span className="text-muted-foreground">Working Days:</span> <span className="font-medium">{formatWorkingDays(calculateWorkingDays(task.start_date, task.due_date, calendar))}</span>
                         </p>
                         <p className="text-[10px] text-muted-foreground">
                           Progress: {task.progress_percentage || 0}%
                         </p>
+                        {taskBaseline && <BaselineTooltipLine baseline={taskBaseline} current={task} calendar={calendar} />}
+                        {baselineTasks && !taskBaseline && (
+                          <p className="text-[10px] text-muted-foreground">Not in baseline</p>
+                        )}
+                        {schedule && (
+                          <p className={`text-[10px] ${isCritical ? 'text-orange-600 font-medium' : 'text-muted-foreground'}`}>
+                            Float: {formatFloat(schedule.totalFloat)}
+                          </p>
+                        )}
                         {(task.estimated_cost || task.actual_cost) && (() => {
                           const variance = calculateCostVariance(task.estimated_cost || 0, task.actual_cost || 0);
                           return (
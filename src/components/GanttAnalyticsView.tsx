@@ -1,7 +1,9 @@
 import { motion } from 'framer-motion';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
-import { CheckCircle2, Clock, Circle, BarChart3 } from 'lucide-react';
+import { CheckCircle2, Clock, Circle, BarChart3, Route } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import type { CriticalPathResult } from '@/lib/criticalPath';
 
 interface Task {
   id: string;
@@ -38,14 +40,22 @@ interface GanttAnalyticsViewProps {
   departments: Department[];
   filteredElements: Element[];
   getDepartmentColor: (deptId: string) => string;
+  criticalPath?: CriticalPathResult;
 }
 
 export function GanttAnalyticsView({
   departmentAnalytics,
   departments,
   filteredElements,
-  getDepartmentColor
+  getDepartmentColor,
+  criticalPath
 }: GanttAnalyticsViewProps) {
+  const schedules = criticalPath?.schedules || {};
+  const criticalTasks = filteredElements
+    .flatMap(e => e.tasks.map(task => ({ task, element: e })))
+    .filter(({ task }) => schedules[task.id]?.isCritical)
+    .sort((a, b) => schedules[a.task.id].earliestStart.localeCompare(schedules[b.task.id].earliestStart));
+
   return (
     <div className="p-6 space-y-6">
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
@@ -58,6 +68,7 @@ export function GanttAnalyticsView({
           const allTasks = deptElements.flatMap(e => e.tasks);
           const inProgress = allTasks.filter(t => t.status === 'in_progress').length;
           const todo = allTasks.filter(t => t.status === 'todo').length;
+          const critical = allTasks.filter(t => schedules[t.id]?.isCritical).length;
           
           return (
             <motion.div
@@ -81,6 +92,9 @@ export function GanttAnalyticsView({
                   <h3 className="font-semibold truncate">{dept.name}</h3>
                   <p className="text-xs text-muted-foreground">
                     {analytics.totalTasks} total tasks
+                    {critical > 0 && (
+                      <span className="text-orange-600"> · {critical} critical</span>
+                    )}
                   </p>
                 </div>
               </div>
@@ -117,6 +131,46 @@ export function GanttAnalyticsView({
         })}
       </div>
       
+      {/* Critical Path */}
+      {criticalPath && (
+        <div className="p-6 rounded-xl border bg-card">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <h3 className="font-semibold flex items-center gap-2">
+              <Route className="h-5 w-5 text-orange-500" />
+              Critical Path
+            </h3>
+            {criticalPath.projectFinish && (
+              <p className="text-sm text-muted-foreground">
+                Projected finish: <span className="font-medium text-foreground">{format(parseISO(criticalPath.projectFinish), 'MMM d, yyyy')}</span>
+              </p>
+            )}
+          </div>
+          {criticalTasks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No zero-float tasks in the current view.</p>
+          ) : (
+            <div className="space-y-2">
+              {criticalTasks.map(({ task, element }) => {
+                const schedule = schedules[task.id];
+                return (
+                  <div key={task.id} className="flex items-center gap-3 p-2 rounded-lg border border-orange-500/30 bg-orange-500/5">
+                    <div className="h-2.5 w-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: getDepartmentColor(element.departmentId) }} />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{task.title}</p>
+                      <p className="text-xs text-muted-foreground truncate">{element.title}</p>
+                    </div>
+                    <div className="text-xs text-muted-foreground text-right flex-shrink-0">
+                      <p>ES {format(parseISO(schedule.earliestStart), 'MMM d')} · LF {format(parseISO(schedule.latestFinish), 'MMM d')}</p>
+                      <p>Float: {schedule.totalFloat}d</p>
+                    </div>
+                    <Badge variant="outline" className="text-[10px] flex-shrink-0">{task.progress_percentage || 0}%</Badge>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Overall Project Statistics */}
       <div className="p-6 rounded-xl border bg-gradient-to-br from-primary/5 to-accent/5">
         <h3 className="font-semibold mb-4 flex items-center gap-2">
@@ -0,0 +1,153 @@
+import { useCallback, useEffect, useState, type RefObject } from 'react';
+import type { TaskDependency } from '@/lib/taskDependencies';
+
+interface BarRect {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+export interface LinkDragState {
+  fromTaskId: string;
+  clientX: number;
+  clientY: number;
+}
+
+interface GanttDependencyLayerProps {
+  containerRef: RefObject<HTMLDivElement>;
+  dependencies: TaskDependency[];
+  layoutKey: string;
+  linkDrag?: LinkDragState | null;
+  canEdit?: boolean;
+  onDependencyClick?: (dependency: TaskDependency) => void;
+}
+
+const ELBOW = 10;
+
+/**
+ * SVG overlay that draws finish-to-start arrows between task bars rendered
+ * inside `containerRef`. Bars are located through their `data-task-bar-id`.
+ */
+export function GanttDependencyLayer({
+  containerRef,
+  dependencies,
+  layoutKey,
+  linkDrag,
+  canEdit = false,
+  onDependencyClick,
+}: GanttDependencyLayerProps) {
+  const [rects, setRects] = useState<Record<string, BarRect>>({});
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  const measure = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const origin = container.getBoundingClientRect();
+    const next: Record<string, BarRect> = {};
+    container.querySelectorAll<HTMLElement>('[data-task-bar-id]').forEach(el => {
+      const rect = el.getBoundingClientRect();
+      next[el.dataset.taskBarId!] = {
+        left: rect.left - origin.left,
+        right: rect.right - origin.left,
+        top: rect.top - origin.top,
+        bottom: rect.bottom - origin.top,
+      };
+    });
+
+    setRects(next);
+    setSize({ width: container.scrollWidth, height: container.scrollHeight });
+  }, [containerRef]);
+
+  useEffect(() => {
+    measure();
+    // Bars animate into place, so measure again once they have settled
+    const timer = setTimeout(measure, 600);
+    const observer = new ResizeObserver(() => measure());
+    if (containerRef.current) observer.observe(containerRef.current);
+
+    return () => {
+      clearTimeout(timer);
+      observer.disconnect();
+    };
+  }, [measure, layoutKey, containerRef]);
+
+  const buildPath = (from: BarRect, to: BarRect) => {
+    const x1 = from.right;
+    const y1 = (from.top + from.bottom) / 2;
+    const x2 = to.left;
+    const y2 = (to.top + to.bottom) / 2;
+
+    if (x2 - x1 >= ELBOW * 2) {
+      return `M ${x1} ${y1} H ${x1 + ELBOW} V ${y2} H ${x2}`;
+    }
+
+    // Successor starts before the predecessor ends on screen: route around between the rows
+    const gapY = to.top > from.bottom ? (from.bottom + to.top) / 2 : (from.top + to.bottom) / 2;
+    return `M ${x1} ${y1} H ${x1 + ELBOW} V ${gapY} H ${x2 - ELBOW} V ${y2} H ${x2}`;
+  };
+
+  const dragOrigin = linkDrag ? rects[linkDrag.fromTaskId] : undefined;
+  const containerOrigin = linkDrag ? containerRef.current?.getBoundingClientRect() : undefined;
+
+  return (
+    <svg
+      className="absolute inset-0 z-20 pointer-events-none"
+      width={size.width}
+      height={size.height}
+      style={{ overflow: 'visible' }}
+    >
+      <defs>
+        <marker id="gantt-dependency-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" className="fill-foreground/70" />
+        </marker>
+      </defs>
+
+      {dependencies.map(dep => {
+        const from = rects[dep.depends_on_task_id];
+        const to = rects[dep.task_id];
+        if (!from || !to) return null;
+
+        const d = buildPath(from, to);
+        return (
+          <g key={dep.id}>
+            <path
+              d={d}
+              fill="none"
+              className="stroke-foreground/60"
+              strokeWidth={1.5}
+              markerEnd="url(#gantt-dependency-arrow)"
+            />
+            {canEdit && onDependencyClick && (
+              <path
+                d={d}
+                fill="none"
+                stroke="transparent"
+                strokeWidth={10}
+                className="cursor-pointer hover:stroke-destructive/30"
+                style={{ pointerEvents: 'stroke' }}
+                onClick={() => onDependencyClick(dep)}
+              >
+                <title>Click to remove this dependency</title>
+              </path>
+            )}
+          </g>
+        );
+      })}
+
+      {dragOrigin && containerOrigin && linkDrag && (
+        <line
+          x1={dragOrigin.right}
+          y1={(dragOrigin.top + dragOrigin.bottom) / 2}
+          x2={linkDrag.clientX - containerOrigin.left}
+          y2={linkDrag.clientY - containerOrigin.top}
+          className="stroke-primary"
+          strokeWidth={2}
+          strokeDasharray="4 3"
+          markerEnd="url(#gantt-dependency-arrow)"
+        />
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  exportGanttPdf,
+  exportGanttPng,
+  getRowsRange,
+  loadExportImage,
+  type GanttExportLegendItem,
+  type GanttExportPageSize,
+  type GanttExportRow,
+} from '@/lib/ganttExport';
+
+type ExportFormat = 'pdf' | 'png';
+
+interface GanttExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  /** Shown under the project name, e.g. the department */
+  subtitle: string;
+  /** Built when the export starts so it reflects the chart at that moment */
+  getRows: () => GanttExportRow[];
+  legend: GanttExportLegendItem[];
+  isNonWorkingDay?: (day: Date) => boolean;
+  /** File name without extension */
+  fileName: string;
+}
+
+/**
+ * Exports the whole timeline, not just the part scrolled into view, for
+ * handing to clients: paged landscape PDF or a single PNG.
+ */
+export function GanttExportDialog({
+  open,
+  onOpenChange,
+  projectId,
+  subtitle,
+  getRows,
+  legend,
+  isNonWorkingDay,
+  fileName,
+}: GanttExportDialogProps) {
+  const { toast } = useToast();
+  const [fileType, setFileType] = useState<ExportFormat>('pdf');
+  const [pageSize, setPageSize] = useState<GanttExportPageSize>('a3');
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async () => {
+    const rows = getRows();
+    const range = getRowsRange(rows);
+    if (!range) {
+      toast({ title: 'Nothing to export', description: 'There are no dated tasks on this chart.' });
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const { data: project, error } = await supabase
+        .from('projects')
+        .select('name, logo_url')
+        .eq('id', projectId)
+        .single();
+      if (error) throw error;
+
+      const options = {
+        title: project.name,
+        subtitle,
+        logo: await loadExportImage(project.logo_url),
+        rows,
+        legend,
+        rangeStart: range.start,
+        rangeEnd: range.end,
+        isNonWorkingDay,
+      };
+      const name = `${fileName}-${format(new Date(), 'yyyy-MM-dd')}`;
+      if (fileType === 'pdf') {
+        exportGanttPdf(options, pageSize, `${name}.pdf`);
+      } else {
+        await exportGanttPng(options, `${name}.png`);
+      }
+
+      toast({ title: 'Export ready', description: `Gantt chart exported as ${fileType.toUpperCase()}` });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error exporting Gantt chart:', error);
+      toast({ title: 'Error', description: 'Failed to export the Gantt chart', variant: 'destructive' });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Gantt Chart</DialogTitle>
+          <DialogDescription>
+            The full timeline with the project logo, date range and legend, ready to share with clients.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <RadioGroup value={fileType} onValueChange={(value) => setFileType(value as ExportFormat)} className="flex gap-6">
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="pdf" id="gantt-export-pdf" />
+                <Label htmlFor="gantt-export-pdf">PDF (paged)</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="png" id="gantt-export-png" />
+                <Label htmlFor="gantt-export-png">PNG (single image)</Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          {fileType === 'pdf' && (
+            <div className="space-y-2">
+              <Label>Paper size</Label>
+              <RadioGroup value={pageSize} onValueChange={(value) => setPageSize(value as GanttExportPageSize)} className="flex gap-6">
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="a3" id="gantt-export-a3" />
+                  <Label htmlFor="gantt-export-a3">A3 landscape</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="a4" id="gantt-export-a4" />
+                  <Label htmlFor="gantt-export-a4">A4 landscape</Label>
+                </div>
+              </RadioGroup>
+              <p className="text-xs text-muted-foreground">
+                Long plans continue across pages, with the task list repeated on each one.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={exporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={exporting}>
+            {exporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,465 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { FileInput, Upload } from 'lucide-react';
+import {
+  CSV_FIELDS,
+  buildPlanImport,
+  guessCsvMapping,
+  guessResourceTarget,
+  newDepartmentKey,
+  parseCsv,
+  parseMspdi,
+  planFromCsv,
+  type CsvColumnMapping,
+  type CsvField,
+  type DepartmentKey,
+  type ParsedPlan,
+  type ResourceTarget,
+} from '@/lib/planImport';
+
+interface ImportPlanDialogProps {
+  projectId: string;
+  onPlanImported: () => void;
+}
+
+interface Person {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+}
+
+type Step = 'file' | 'columns' | 'mapping';
+
+const FALLBACK_DEPARTMENT_NAME = 'Imported Tasks';
+
+// Select values for resource targets
+const encodeTarget = (target: ResourceTarget | undefined) => {
+  if (!target || target.kind === 'ignore') return 'ignore';
+  if (target.kind === 'new_department') return 'new';
+  if (target.kind === 'department') return `dept:${target.departmentId}`;
+  return `user:${target.userId}`;
+};
+
+const decodeTarget = (value: string): ResourceTarget => {
+  if (value === 'new') return { kind: 'new_department' };
+  if (value.startsWith('dept:')) return { kind: 'department', departmentId: value.slice(5) };
+  if (value.startsWith('user:')) return { kind: 'user', userId: value.slice(5) };
+  return { kind: 'ignore' };
+};
+
+const statusForProgress = (percent: number) => (percent >= 100 ? 'done' : percent > 0 ? 'in_progress' : 'todo');
+
+export function ImportPlanDialog({ projectId, onPlanImported }: ImportPlanDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>('file');
+  const [fileName, setFileName] = useState('');
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [columns, setColumns] = useState<CsvColumnMapping | null>(null);
+  const [plan, setPlan] = useState<ParsedPlan | null>(null);
+  const [targets, setTargets] = useState<Record<string, ResourceTarget>>({});
+  const [unmatched, setUnmatched] = useState<string[]>([]);
+  const [fallback, setFallback] = useState<DepartmentKey>(newDepartmentKey(FALLBACK_DEPARTMENT_NAME));
+  const [departments, setDepartments] = useState<{ id: string; name: string }[]>([]);
+  const [people, setPeople] = useState<Person[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const { toast } = useToast();
+
+  const fetchProjectData = useCallback(async () => {
+    const [departmentsRes, membersRes, projectRes] = await Promise.all([
+      supabase.from('departments').select('id, name').eq('project_id', projectId).order('name'),
+      supabase.from('project_members').select('user_id').eq('project_id', projectId),
+      supabase.from('projects').select('owner_id').eq('id', projectId).single(),
+    ]);
+
+    const departmentList = departmentsRes.data || [];
+    setDepartments(departmentList);
+    if (departmentList.length > 0) setFallback(departmentList[0].id);
+
+    const memberIds = (membersRes.data || []).map(m => m.user_id);
+    if (projectRes.data?.owner_id) memberIds.push(projectRes.data.owner_id);
+    const uniqueIds = [...new Set(memberIds)];
+    if (uniqueIds.length === 0) return;
+
+    const { data } = await supabase
+      .from('profiles')
+      .select('id, full_name, email')
+      .in('id', uniqueIds)
+      .order('full_name');
+    if (data) setPeople(data);
+  }, [projectId]);
+
+  useEffect(() => {
+    if (open) fetchProjectData();
+  }, [open, fetchProjectData]);
+
+  const reset = () => {
+    setStep('file');
+    setFileName('');
+    setCsvRows([]);
+    setColumns(null);
+    setPlan(null);
+    setTargets({});
+    setUnmatched([]);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) reset();
+  };
+
+  // Resources named like a department or a project member are mapped up front
+  const startMapping = (parsed: ParsedPlan) => {
+    const guessed: Record<string, ResourceTarget> = {};
+    const missing: string[] = [];
+    parsed.resources.forEach(resource => {
+      const target = guessResourceTarget(resource, departments, people);
+      if (target) guessed[resource] = target;
+      else {
+        guessed[resource] = { kind: 'new_department' };
+        missing.push(resource);
+      }
+    });
+    setPlan(parsed);
+    setTargets(guessed);
+    setUnmatched(missing);
+    setStep('mapping');
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      setFileName(file.name);
+
+      if (/\.xml$/i.test(file.name)) {
+        startMapping(parseMspdi(text));
+      } else if (/\.csv$/i.test(file.name)) {
+        const rows = parseCsv(text);
+        if (rows.length < 2) throw new Error('The CSV file has no task rows');
+        setCsvRows(rows);
+        setColumns(guessCsvMapping(rows[0]));
+        setStep('columns');
+      } else {
+        throw new Error('Please upload an MS Project XML (.xml) or CSV (.csv) file');
+      }
+    } catch (error) {
+      toast({
+        title: 'Import Failed',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleColumnsConfirmed = () => {
+    if (!columns) return;
+    try {
+      startMapping(planFromCsv(csvRows, columns));
+    } catch (error) {
+      toast({ title: 'Import Failed', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const planImport = useMemo(
+    () => (plan ? buildPlanImport(plan, targets, fallback) : null),
+    [plan, targets, fallback]
+  );
+
+  const removeRows = async (table: 'tasks' | 'elements' | 'departments', ids: string[]) => {
+    for (let i = 0; i < ids.length; i += 100) {
+      const { error } = await supabase.from(table).delete().in('id', ids.slice(i, i + 100));
+      if (error) console.error(`Error removing imported ${table}:`, error);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!planImport) return;
+    setImporting(true);
+    setProgress(0);
+
+    // Rows created so far, removed again if a later step fails
+    const created = { departments: [] as string[], elements: [] as string[], tasks: [] as string[] };
+
+    try {
+      // Departments named after resources (and the fallback, when used)
+      const departmentIds = new Map<DepartmentKey, string>(departments.map(d => [d.id, d.id]));
+      if (planImport.newDepartments.length > 0) {
+        const { data, error } = await supabase
+          .from('departments')
+          .insert(planImport.newDepartments.map(name => ({ name, project_id: projectId })))
+          .select('id, name');
+        if (error) throw error;
+        (data || []).forEach(d => {
+          departmentIds.set(newDepartmentKey(d.name), d.id);
+          created.departments.push(d.id);
+        });
+      }
+      setProgress(15);
+
+      // Ids are generated here so tasks and dependencies can refer to them in one insert each
+      const elementIds = new Map(planImport.elements.map(e => [e.uid, crypto.randomUUID()]));
+      const taskIds = new Map(planImport.tasks.map(t => [t.uid, crypto.randomUUID()]));
+
+      if (planImport.elements.length > 0) {
+        const { error } = await supabase.from('elements').insert(planImport.elements.map(element => ({
+          id: elementIds.get(element.uid),
+          project_id: projectId,
+          department_id: departmentIds.get(element.department) ?? null,
+          title: element.title,
+          start_date: element.start,
+          due_date: element.finish,
+        })));
+        if (error) throw error;
+        created.elements.push(...elementIds.values());
+      }
+      setProgress(30);
+
+      const taskRows = planImport.tasks.map(task => {
+        const status = statusForProgress(task.percentComplete);
+        return {
+          id: taskIds.get(task.uid),
+          project_id: projectId,
+          assignee_department_id: departmentIds.get(task.department) ?? null,
+          assignee_user_id: task.userIds[0] ?? null,
+          element_id: task.elementUid ? elementIds.get(task.elementUid) ?? null : null,
+          title: task.title,
+          description: task.description,
+          start_date: task.start,
+          due_date: task.finish,
+          status,
+          progress_percentage: task.percentComplete,
+          completed_at: status === 'done' ? new Date().toISOString() : null,
+        };
+      });
+
+      const batchSize = 100;
+      for (let i = 0; i < taskRows.length; i += batchSize) {
+        const batch = taskRows.slice(i, i + batchSize);
+        const { error } = await supabase.from('tasks').insert(batch);
+        if (error) throw error;
+        created.tasks.push(...batch.map(row => row.id!));
+        setProgress(30 + ((i + batchSize) / taskRows.length) * 50);
+      }
+
+      const assignmentRows = planImport.tasks.flatMap(task =>
+        task.userIds.map(userId => ({ task_id: taskIds.get(task.uid)!, user_id: userId }))
+      );
+      if (assignmentRows.length > 0) {
+        const { error } = await supabase.from('task_assignments').insert(assignmentRows);
+        if (error) throw error;
+      }
+      setProgress(90);
+
+      if (planImport.dependencies.length > 0) {
+        const { error } = await supabase.from('task_dependencies').insert(
+          planImport.dependencies.map(([taskUid, predecessorUid]) => ({
+            task_id: taskIds.get(taskUid)!,
+            depends_on_task_id: taskIds.get(predecessorUid)!,
+          }))
+        );
+        if (error) throw error;
+      }
+      setProgress(100);
+
+      toast({
+        title: 'Plan Imported',
+        description: `${planImport.tasks.length} tasks in ${planImport.elements.length} elements with ${planImport.dependencies.length} dependencies` +
+          (planImport.skippedDependencies > 0 ? ` (${planImport.skippedDependencies} links on summary or missing tasks skipped)` : ''),
+      });
+
+      handleOpenChange(false);
+      onPlanImported();
+    } catch (error) {
+      console.error('Error importing plan:', error);
+      toast({
+        title: 'Import Failed',
+        description: (error as Error).message || 'Failed to import the plan',
+        variant: 'destructive',
+      });
+      // Don't leave a half-imported plan behind; assignments and dependencies go with their tasks
+      await removeRows('tasks', created.tasks);
+      await removeRows('elements', created.elements);
+      await removeRows('departments', created.departments);
+    } finally {
+      setImporting(false);
+      setProgress(0);
+    }
+  };
+
+  const headers = csvRows[0] || [];
+  const usesFallback = planImport?.tasks.some(task => task.department === fallback) ?? false;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1.5 rounded-lg">
+          <FileInput className="h-3.5 w-3.5" />
+          Import Plan
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Project Plan</DialogTitle>
+          <DialogDescription>
+            {step === 'file' && 'Bring in a schedule from MS Project, ProjectLibre or a spreadsheet.'}
+            {step === 'columns' && `Match the columns of ${fileName} to task fields.`}
+            {step === 'mapping' && `Choose where the people and teams in ${fileName} belong in this project.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'file' && (
+          <div className="space-y-4">
+            <div className="rounded-lg border bg-muted/50 p-4 text-sm text-muted-foreground space-y-1">
+              <p>• MS Project XML (File › Save As › XML), also exported by ProjectLibre</p>
+              <p>• CSV with a task name column; outline level, dates, % complete, predecessors and resources are optional</p>
+              <p>• Summary tasks become elements, the tasks under them become tasks and predecessors become dependencies</p>
+            </div>
+            <Button className="w-full" onClick={() => document.getElementById('plan-upload')?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Choose File
+            </Button>
+            <input
+              id="plan-upload"
+              type="file"
+              accept=".xml,.csv"
+              className="hidden"
+              onChange={handleFileUpload}
+            />
+          </div>
+        )}
+
+        {step === 'columns' && columns && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              {CSV_FIELDS.map(field => (
+                <div key={field.key} className="space-y-1">
+                  <Label className="text-xs">
+                    {field.label}{field.required && ' *'}
+                  </Label>
+                  <Select
+                    value={String(columns[field.key])}
+                    onValueChange={(value) => setColumns(prev => prev && ({ ...prev, [field.key as CsvField]: parseInt(value, 10) }))}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {!field.required && <SelectItem value="-1">Not in file</SelectItem>}
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {csvRows.length - 1} rows. Predecessors refer to the ID column, or to row numbers when there is none.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={reset}>Back</Button>
+              <Button onClick={handleColumnsConfirmed} disabled={columns.name < 0}>Continue</Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'mapping' && plan && planImport && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{planImport.elements.length} elements</Badge>
+              <Badge variant="secondary">{planImport.tasks.length} tasks</Badge>
+              <Badge variant="secondary">{planImport.dependencies.length} dependencies</Badge>
+              {planImport.newDepartments.length > 0 && (
+                <Badge variant="outline">{planImport.newDepartments.length} new departments</Badge>
+              )}
+            </div>
+
+            {plan.resources.length > 0 && (
+              <ScrollArea className="max-h-[280px] rounded-lg border">
+                <div className="p-3 space-y-2">
+                  {plan.resources.map(resource => (
+                    <div key={resource} className="flex items-center gap-3">
+                      <div className="flex-1 min-w-0 text-sm">
+                        <span className="truncate">{resource}</span>
+                        {unmatched.includes(resource) && (
+                          <Badge variant="outline" className="ml-2 text-[10px] border-warning text-warning">No match</Badge>
+                        )}
+                      </div>
+                      <Select
+                        value={encodeTarget(targets[resource])}
+                        onValueChange={(value) => setTargets(prev => ({ ...prev, [resource]: decodeTarget(value) }))}
+                      >
+                        <SelectTrigger className="h-8 w-[240px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="new">New department "{resource}"</SelectItem>
+                          <SelectItem value="ignore">Ignore</SelectItem>
+                          {departments.length > 0 && (
+                            <SelectGroup>
+                              <SelectLabel>Departments</SelectLabel>
+                              {departments.map(d => (
+                                <SelectItem key={d.id} value={`dept:${d.id}`}>{d.name}</SelectItem>
+                              ))}
+                            </SelectGroup>
+                          )}
+                          {people.length > 0 && (
+                            <SelectGroup>
+                              <SelectLabel>People</SelectLabel>
+                              {people.map(p => (
+                                <SelectItem key={p.id} value={`user:${p.id}`}>{p.full_name || p.email}</SelectItem>
+                              ))}
+                            </SelectGroup>
+                          )}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+
+            <div className="space-y-1">
+              <Label className="text-xs">Department for tasks without one</Label>
+              <Select value={fallback} onValueChange={setFallback}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={newDepartmentKey(FALLBACK_DEPARTMENT_NAME)}>New department "{FALLBACK_DEPARTMENT_NAME}"</SelectItem>
+                  {departments.map(d => (
+                    <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {!usesFallback && (
+                <p className="text-xs text-muted-foreground">Every task already has a department from its resources.</p>
+              )}
+            </div>
+
+            {importing && <Progress value={progress} />}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={reset} disabled={importing}>Back</Button>
+              <Button onClick={handleImport} disabled={importing || planImport.tasks.length === 0}>
+                Import {planImport.tasks.length} tasks
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
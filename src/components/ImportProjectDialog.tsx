@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, CheckCircle2, FileUp, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { readProjectArchive, type ProjectArchive, type ProjectImportSummary } from '@/lib/projectArchive';
+
+interface ImportProjectDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+export function ImportProjectDialog({ open, onOpenChange, onImported }: ImportProjectDialogProps) {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [archive, setArchive] = useState<ProjectArchive | null>(null);
+  const [projectName, setProjectName] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<{ projectId: string; summary: ProjectImportSummary } | null>(null);
+
+  const reset = () => {
+    setArchive(null);
+    setProjectName('');
+    setResult(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = await readProjectArchive(file);
+      setArchive(parsed);
+      setProjectName(parsed.project.name);
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!archive || !projectName.trim()) return;
+    setImporting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('project-archive', {
+        body: { action: 'import', archive, projectName: projectName.trim() },
+      });
+      if (error) throw error;
+
+      setResult({ projectId: data.projectId, summary: data.summary });
+      toast({ title: 'Project imported', description: `"${projectName.trim()}" is ready` });
+      onImported();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to import project', variant: 'destructive' });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import Project</DialogTitle>
+          <DialogDescription>
+            Create a project from an archive exported from this or another environment.
+            People are matched to existing accounts by email.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-3 py-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <CheckCircle2 className="h-4 w-4 text-success" />
+              Imported {result.summary.tasks} tasks in {result.summary.departments} departments
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {result.summary.elements} elements, {result.summary.dependencies} dependencies, {result.summary.folders} folders,{' '}
+              {result.summary.links} document links and {result.summary.members} members.
+            </p>
+            {result.summary.unmatchedUsers.length > 0 && (
+              <div className="flex gap-2 rounded-md border border-warning/30 bg-warning/10 p-3 text-xs">
+                <AlertTriangle className="h-4 w-4 text-warning shrink-0" />
+                <div>
+                  <p className="font-medium">No account found for {result.summary.unmatchedUsers.length} people</p>
+                  <p className="text-muted-foreground mt-1">
+                    Their memberships and assignments were left out: {result.summary.unmatchedUsers.join(', ')}
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div>
+              <Input id="project-archive-file" type="file" accept=".json,application/json" onChange={handleFileChange} className="hidden" />
+              <Label
+                htmlFor="project-archive-file"
+                className="flex items-center justify-center gap-2 px-4 py-6 border border-dashed rounded-md cursor-pointer hover:bg-muted text-sm"
+              >
+                <FileUp className="h-4 w-4" />
+                {archive ? 'Choose a different archive' : 'Choose archive file (.json)'}
+              </Label>
+            </div>
+
+            {archive && (
+              <>
+                <div className="rounded-md border p-3 text-sm space-y-1">
+                  <p className="font-medium">{archive.project.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {archive.departments.length} departments · {archive.elements.length} elements · {archive.tasks.length} tasks ·{' '}
+                    {archive.folders.length} folders · {archive.users.length} people
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Exported {format(parseISO(archive.exported_at), 'MMM d, yyyy HH:mm')} · archive version {archive.version}
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="import-project-name">Project Name</Label>
+                  <Input
+                    id="import-project-name"
+                    value={projectName}
+                    onChange={(e) => setProjectName(e.target.value)}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {result ? (
+            <Button
+              onClick={() => {
+                handleOpenChange(false);
+                navigate(`/projects/${result.projectId}`);
+              }}
+            >
+              Open Project
+            </Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={importing}>
+                Cancel
+              </Button>
+              <Button onClick={handleImport} disabled={!archive || !projectName.trim() || importing}>
+                {importing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import Project
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,24 +1,28 @@
 import { useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from '@/hooks/use-toast';
+import { useProjectWorkflow } from '@/hooks/useProjectWorkflow';
 import { supabase } from '@/integrations/supabase/client';
-import { Upload, Download, FileSpreadsheet } from 'lucide-react';
+import { Upload, Download, FileSpreadsheet, AlertTriangle } from 'lucide-react';
 import * as XLSX from 'xlsx';
-import { z } from 'zod';
 import { Progress } from '@/components/ui/progress';
-
-const taskRowSchema = z.object({
-  'Task Title': z.string().min(1, 'Task title is required'),
-  'Element': z.string().optional(),
-  'Status': z.enum(['todo', 'in_progress', 'done', 'on_hold']).optional(),
-  'Priority': z.enum(['low', 'medium', 'high']).optional(),
-  'Start Date': z.union([z.string(), z.number()]).optional(),
-  'Due Date': z.union([z.string(), z.number()]).optional(),
-  'Description': z.string().optional(),
-  'Estimated Cost': z.union([z.number(), z.string()]).optional(),
-  'Actual Cost': z.union([z.number(), z.string()]).optional(),
-});
+import { getProgressForStatus, getStatusCategory } from '@/lib/taskStatus';
+import {
+  TASK_SHEET_COLUMNS,
+  buildTaskImportPlan,
+  buildTaskSheetRows,
+  type SheetTask,
+  type TaskImportPlan,
+  type TaskSheetValues,
+} from '@/lib/taskSpreadsheet';
+
+const SHEET_TASK_COLUMNS =
+  'id, title, status, priority, start_date, due_date, description, estimated_cost, actual_cost, progress_percentage, updated_at, element:elements(id, title)';
 
 interface ImportTasksDialogProps {
   projectId: string;
@@ -34,29 +38,77 @@ export function ImportTasksDialog({
   const [open, setOpen] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [plan, setPlan] = useState<TaskImportPlan | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [deleteMissing, setDeleteMissing] = useState(false);
   const { toast } = useToast();
+  const { statuses } = useProjectWorkflow(projectId);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setPlan(null);
+      setDeleteMissing(false);
+    }
+  };
+
+  const fetchDepartment = async () => {
+    const [departmentResult, elementsResult] = await Promise.all([
+      supabase.from('departments').select('name').eq('id', departmentId).single(),
+      supabase.from('elements').select('id, title').eq('department_id', departmentId).order('title'),
+    ]);
+    if (elementsResult.error) throw elementsResult.error;
+
+    return {
+      departmentName: departmentResult.data?.name || 'Department',
+      elements: elementsResult.data || [],
+    };
+  };
+
+  const fetchDepartmentTasks = async (): Promise<SheetTask[]> => {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select(SHEET_TASK_COLUMNS)
+      .eq('project_id', projectId)
+      .eq('assignee_department_id', departmentId)
+      .order('start_date', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as SheetTask[];
+  };
+
+  // Reference sheet with department info and the values each column accepts
+  const buildReferenceSheet = (departmentName: string, elementNames: string[]) => {
+    const referenceData = [
+      { 'Information': 'Department', 'Value': departmentName },
+      { 'Information': '', 'Value': '' },
+      { 'Information': 'Available Elements:', 'Value': '' },
+      ...elementNames.map(name => ({ 'Information': '  • ' + name, 'Value': '' })),
+      { 'Information': '', 'Value': '' },
+      { 'Information': 'Valid Status Values:', 'Value': statuses.map(s => `${s.key} (${s.label})`).join(', ') },
+      { 'Information': 'Valid Priority Values:', 'Value': 'low, medium, high' },
+      { 'Information': 'Date Format:', 'Value': 'MM-DD-YYYY (e.g., 01-31-2025)' },
+      { 'Information': '', 'Value': '' },
+      { 'Information': 'Task ID:', 'Value': 'Leave empty for new tasks; keep as exported to update a task' },
+    ];
+
+    const wsRef = XLSX.utils.json_to_sheet(referenceData);
+    wsRef['!cols'] = [
+      { wch: 30 }, // Information
+      { wch: 60 }, // Value
+    ];
+    return wsRef;
+  };
 
   const downloadTemplate = async () => {
     try {
-      // Fetch department and elements data
-      const { data: department } = await supabase
-        .from('departments')
-        .select('name')
-        .eq('id', departmentId)
-        .single();
-
-      const { data: elements } = await supabase
-        .from('elements')
-        .select('title, description')
-        .eq('department_id', departmentId)
-        .order('title');
-
-      const departmentName = department?.name || 'Department';
-      const elementNames = elements?.map(el => el.title) || [];
+      const { departmentName, elements } = await fetchDepartment();
+      const elementNames = elements.map(el => el.title);
 
       // Create main template with example rows
       const template = [
         {
+          'Task ID': '',
           'Task Title': 'Example Task 1',
           'Element': elementNames[0] || 'Element Name',
           'Status': 'todo',
@@ -68,6 +120,7 @@ export function ImportTasksDialog({
           'Actual Cost': 0,
         },
         {
+          'Task ID': '',
           'Task Title': 'Example Task 2',
           'Element': elementNames[1] || elementNames[0] || 'Element Name',
           'Status': 'in_progress',
@@ -81,43 +134,15 @@ export function ImportTasksDialog({
       ];
 
       const wb = XLSX.utils.book_new();
-      
+
       // Main tasks sheet
       const ws = XLSX.utils.json_to_sheet(template);
-      ws['!cols'] = [
-        { wch: 30 }, // Task Title
-        { wch: 20 }, // Element
-        { wch: 15 }, // Status
-        { wch: 10 }, // Priority
-        { wch: 12 }, // Start Date
-        { wch: 12 }, // Due Date
-        { wch: 40 }, // Description
-        { wch: 15 }, // Estimated Cost
-        { wch: 15 }, // Actual Cost
-      ];
+      ws['!cols'] = TASK_SHEET_COLUMNS.map(column => ({ wch: column.width }));
       XLSX.utils.book_append_sheet(wb, ws, 'Tasks Template');
-
-      // Reference sheet with department info and available elements
-      const referenceData = [
-        { 'Information': 'Department', 'Value': departmentName },
-        { 'Information': '', 'Value': '' },
-        { 'Information': 'Available Elements:', 'Value': '' },
-        ...elementNames.map(name => ({ 'Information': '  • ' + name, 'Value': '' })),
-        { 'Information': '', 'Value': '' },
-        { 'Information': 'Valid Status Values:', 'Value': 'todo, in_progress, done, on_hold' },
-        { 'Information': 'Valid Priority Values:', 'Value': 'low, medium, high' },
-        { 'Information': 'Date Format:', 'Value': 'MM-DD-YYYY (e.g., 01-31-2025)' },
-      ];
-
-      const wsRef = XLSX.utils.json_to_sheet(referenceData);
-      wsRef['!cols'] = [
-        { wch: 30 }, // Information
-        { wch: 50 }, // Value
-      ];
-      XLSX.utils.book_append_sheet(wb, wsRef, 'Reference');
+      XLSX.utils.book_append_sheet(wb, buildReferenceSheet(departmentName, elementNames), 'Reference');
 
       XLSX.writeFile(wb, `task-import-template-${departmentName.replace(/[^a-z0-9]/gi, '-').toLowerCase()}.xlsx`);
-      
+
       toast({
         title: 'Template Downloaded',
         description: `Template for "${departmentName}" with ${elementNames.length} available elements`,
@@ -132,47 +157,35 @@ export function ImportTasksDialog({
     }
   };
 
-  const parseExcelDate = (serial: any): string | null => {
-    if (!serial) return null;
-    
-    // If it's already a string in YYYY-MM-DD format (for database storage)
-    if (typeof serial === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(serial)) {
-      return serial;
-    }
-    
-    // If it's in MM-DD-YYYY format (our template format)
-    if (typeof serial === 'string' && /^\d{2}-\d{2}-\d{4}$/.test(serial)) {
-      const [month, day, year] = serial.split('-');
-      return `${year}-${month}-${day}`;
-    }
-    
-    // Helper function to format date as YYYY-MM-DD in local timezone
-    const formatLocalDate = (date: Date): string => {
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      return `${year}-${month}-${day}`;
-    };
-    
-    // If it's an Excel serial number
-    if (typeof serial === 'number') {
-      const date = new Date((serial - 25569) * 86400 * 1000);
-      return formatLocalDate(date);
-    }
-    
-    // Try to parse as date string
+  const exportTasks = async () => {
     try {
-      const date = new Date(serial);
-      if (!isNaN(date.getTime())) {
-        return formatLocalDate(date);
-      }
-    } catch (e) {
-      // Ignore parsing errors
+      const [{ departmentName, elements }, tasks] = await Promise.all([fetchDepartment(), fetchDepartmentTasks()]);
+
+      const wb = XLSX.utils.book_new();
+      const ws = XLSX.utils.json_to_sheet(buildTaskSheetRows(tasks), {
+        header: TASK_SHEET_COLUMNS.map(column => column.key),
+      });
+      ws['!cols'] = TASK_SHEET_COLUMNS.map(column => ({ wch: column.width }));
+      XLSX.utils.book_append_sheet(wb, ws, 'Tasks');
+      XLSX.utils.book_append_sheet(wb, buildReferenceSheet(departmentName, elements.map(el => el.title)), 'Reference');
+
+      XLSX.writeFile(wb, `tasks-${departmentName.replace(/[^a-z0-9]/gi, '-').toLowerCase()}.xlsx`);
+
+      toast({
+        title: 'Tasks Exported',
+        description: `${tasks.length} tasks from "${departmentName}". Edit and upload the file to apply changes.`,
+      });
+    } catch (error) {
+      console.error('Error exporting tasks:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to export tasks',
+        variant: 'destructive',
+      });
     }
-    
-    return null;
   };
 
+  // Read the file and compare it with the department; nothing is written yet
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -188,33 +201,54 @@ export function ImportTasksDialog({
     }
 
     setIsProcessing(true);
-    setProgress(0);
 
     try {
-      // Read the file
       const data = await file.arrayBuffer();
       const workbook = XLSX.read(data, { type: 'array' });
       const sheetName = workbook.SheetNames[0];
       const worksheet = workbook.Sheets[sheetName];
-      const jsonData = XLSX.utils.sheet_to_json(worksheet);
+      const jsonData = XLSX.utils.sheet_to_json<Record<string, unknown>>(worksheet);
 
       if (jsonData.length === 0) {
         throw new Error('The Excel file is empty');
       }
 
-      setProgress(10);
+      const [{ elements }, tasks] = await Promise.all([fetchDepartment(), fetchDepartmentTasks()]);
 
-      // Get or create elements
-      const elementMap = new Map<string, string>();
-      const uniqueElements = [...new Set(
-        jsonData
-          .map((row: any) => row['Element'])
-          .filter((element: string) => element && element.trim())
-      )];
+      setPlan(buildTaskImportPlan(jsonData, tasks, elements.map(el => el.title), statuses));
+      setFileName(file.name);
+      setDeleteMissing(false);
+    } catch (error) {
+      console.error('Error reading tasks file:', error);
+      toast({
+        title: 'Import Failed',
+        description: (error as Error).message || 'Failed to read tasks from Excel',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsProcessing(false);
+      // Reset file input
+      event.target.value = '';
+    }
+  };
 
-      setProgress(20);
+  const applyPlan = async () => {
+    if (!plan) return;
 
-      // Fetch existing elements
+    setIsProcessing(true);
+    setProgress(0);
+
+    const toDelete = deleteMissing ? plan.missing : [];
+    const total = plan.creates.length + plan.updates.length + (toDelete.length > 0 ? 1 : 0);
+    let done = 0;
+    const step = (count: number) => {
+      done += count;
+      setProgress(10 + (done / Math.max(total, 1)) * 90);
+    };
+
+    try {
+      // Get or create elements
+      const elementMap = new Map<string, string>();
       const { data: existingElements } = await supabase
         .from('elements')
         .select('id, title')
@@ -224,95 +258,48 @@ export function ImportTasksDialog({
         elementMap.set(el.title, el.id);
       });
 
-      // Create missing elements
-      for (const elementTitle of uniqueElements) {
-        if (!elementMap.has(elementTitle)) {
-          const { data: newElement, error } = await supabase
-            .from('elements')
-            .insert({
-              project_id: projectId,
-              department_id: departmentId,
-              title: elementTitle,
-            })
-            .select('id')
-            .single();
-
-          if (error) throw error;
-          if (newElement) {
-            elementMap.set(elementTitle, newElement.id);
-          }
-        }
-      }
-
-      setProgress(40);
-
-      // Validate and prepare tasks
-      const tasksToCreate = [];
-      const errors: string[] = [];
-
-      for (let i = 0; i < jsonData.length; i++) {
-        const row: any = jsonData[i];
-        
-        // Skip empty rows (rows without a Task Title)
-        if (!row['Task Title'] || String(row['Task Title']).trim() === '') {
-          continue;
-        }
-        
-        try {
-          // Validate row
-          const validated = taskRowSchema.parse({
-            'Task Title': row['Task Title'],
-            'Element': row['Element'],
-            'Status': row['Status']?.toLowerCase(),
-            'Priority': row['Priority']?.toLowerCase(),
-            'Start Date': row['Start Date'],
-            'Due Date': row['Due Date'],
-            'Description': row['Description'],
-            'Estimated Cost': row['Estimated Cost'],
-            'Actual Cost': row['Actual Cost'],
-          });
-
-          // Parse costs to numbers
-          const estimatedCost = validated['Estimated Cost'] 
-            ? typeof validated['Estimated Cost'] === 'number' 
-              ? validated['Estimated Cost']
-              : parseFloat(String(validated['Estimated Cost']))
-            : 0;
-          
-          const actualCost = validated['Actual Cost']
-            ? typeof validated['Actual Cost'] === 'number'
-              ? validated['Actual Cost']
-              : parseFloat(String(validated['Actual Cost']))
-            : 0;
-
-          const task = {
+      for (const elementTitle of plan.newElements) {
+        if (elementMap.has(elementTitle)) continue;
+        const { data: newElement, error } = await supabase
+          .from('elements')
+          .insert({
             project_id: projectId,
-            assignee_department_id: departmentId,
-            title: validated['Task Title'],
-            description: validated['Description'] || null,
-            status: validated['Status'] || 'todo',
-            priority: validated['Priority'] || 'medium',
-            start_date: parseExcelDate(row['Start Date']),
-            due_date: parseExcelDate(row['Due Date']),
-            estimated_cost: isNaN(estimatedCost) ? 0 : estimatedCost,
-            actual_cost: isNaN(actualCost) ? 0 : actualCost,
-            element_id: validated['Element'] ? elementMap.get(validated['Element']) : null,
-            progress_percentage: validated['Status'] === 'done' ? 100 : validated['Status'] === 'in_progress' ? 50 : 0,
-          };
-
-          tasksToCreate.push(task);
-        } catch (error: any) {
-          errors.push(`Row ${i + 2}: ${error.message}`);
-        }
-      }
+            department_id: departmentId,
+            title: elementTitle,
+          })
+          .select('id')
+          .single();
 
-      if (errors.length > 0) {
-        throw new Error(`Validation errors:\n${errors.slice(0, 5).join('\n')}${errors.length > 5 ? `\n... and ${errors.length - 5} more errors` : ''}`);
+        if (error) throw error;
+        elementMap.set(elementTitle, newElement.id);
       }
 
-      setProgress(60);
+      setProgress(10);
+
+      const toRow = (values: TaskSheetValues) => ({
+        title: values.title,
+        description: values.description,
+        status: values.status,
+        priority: values.priority,
+        start_date: values.start_date,
+        due_date: values.due_date,
+        estimated_cost: values.estimated_cost,
+        actual_cost: values.actual_cost,
+        element_id: values.element ? elementMap.get(values.element) ?? null : null,
+      });
 
       // Insert tasks in batches
+      const tasksToCreate = plan.creates.map(({ values }) => {
+        const category = getStatusCategory(values.status, statuses);
+        return {
+          ...toRow(values),
+          project_id: projectId,
+          assignee_department_id: departmentId,
+          progress_percentage: category === 'done' ? 100 : category === 'in_progress' ? 50 : 0,
+          completed_at: category === 'done' ? new Date().toISOString() : null,
+        };
+      });
+
       const batchSize = 50;
       for (let i = 0; i < tasksToCreate.length; i += batchSize) {
         const batch = tasksToCreate.slice(i, i + batchSize);
@@ -321,105 +308,284 @@ export function ImportTasksDialog({
           .insert(batch);
 
         if (error) throw error;
-        
-        setProgress(60 + ((i + batchSize) / tasksToCreate.length) * 40);
+        step(batch.length);
+      }
+
+      for (const { task, values, changes } of plan.updates) {
+        const statusChanged = changes.some(change => change.field === 'status');
+        const category = getStatusCategory(values.status, statuses);
+        const { error } = await supabase
+          .from('tasks')
+          .update({
+            ...toRow(values),
+            ...(statusChanged && {
+              progress_percentage: getProgressForStatus(category, task.progress_percentage || 0),
+              completed_at: category === 'done' ? new Date().toISOString() : null,
+            }),
+          })
+          .eq('id', task.id);
+
+        if (error) throw new Error(`"${task.title}": ${error.message}`);
+        step(1);
+      }
+
+      if (toDelete.length > 0) {
+        const { error } = await supabase
+          .from('tasks')
+          .delete()
+          .in('id', toDelete.map(task => task.id));
+
+        if (error) throw error;
+        step(1);
       }
 
       setProgress(100);
 
+      const parts = [
+        `${plan.creates.length} created`,
+        `${plan.updates.length} updated`,
+        ...(toDelete.length > 0 ? [`${toDelete.length} deleted`] : []),
+        ...(plan.conflicts.length > 0 ? [`${plan.conflicts.length} conflicts skipped`] : []),
+      ];
       toast({
         title: 'Success',
-        description: `Successfully imported ${tasksToCreate.length} tasks`,
+        description: `Tasks imported: ${parts.join(', ')}`,
       });
 
-      setOpen(false);
+      handleOpenChange(false);
       onTasksImported();
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error importing tasks:', error);
       toast({
         title: 'Import Failed',
-        description: error.message || 'Failed to import tasks from Excel',
+        description: (error as Error).message || 'Failed to import tasks from Excel',
         variant: 'destructive',
       });
+      // Some rows may already be written; show them
+      onTasksImported();
     } finally {
       setIsProcessing(false);
       setProgress(0);
-      // Reset file input
-      event.target.value = '';
     }
   };
 
+  const changeCount = plan
+    ? plan.creates.length + plan.updates.length + (deleteMissing ? plan.missing.length : 0)
+    : 0;
+
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         <Button size="sm" variant="outline" className="gap-2">
           <Upload className="h-4 w-4" />
           <span className="hidden sm:inline">Import Tasks</span>
         </Button>
       </DialogTrigger>
-      <DialogContent className="max-w-lg">
+      <DialogContent className={plan ? 'max-w-2xl' : 'max-w-lg'}>
         <DialogHeader>
-          <DialogTitle>Import Tasks from Excel</DialogTitle>
+          <DialogTitle>{plan ? 'Review Import' : 'Import Tasks from Excel'}</DialogTitle>
         </DialogHeader>
 
-        <div className="space-y-4">
-          <div className="rounded-lg border bg-muted/50 p-4">
-            <h4 className="font-medium mb-2 flex items-center gap-2">
-              <FileSpreadsheet className="h-4 w-4" />
-              Required Columns
-            </h4>
-            <ul className="text-sm text-muted-foreground space-y-1">
-              <li>• Task Title (required)</li>
-              <li>• Element (optional)</li>
-              <li>• Status: todo, in_progress, done, on_hold</li>
-              <li>• Priority: low, medium, high</li>
-              <li>• Start Date (MM-DD-YYYY)</li>
-              <li>• Due Date (MM-DD-YYYY)</li>
-              <li>• Description</li>
-              <li>• Estimated Cost (number)</li>
-              <li>• Actual Cost (number)</li>
-            </ul>
-          </div>
+        {plan ? (
+          <div className="space-y-4">
+            <div>
+              <p className="text-sm text-muted-foreground mb-2">
+                Changes found in <span className="font-medium text-foreground">{fileName}</span>. Nothing has been saved yet.
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary">{plan.creates.length} to create</Badge>
+                <Badge variant="secondary">{plan.updates.length} to update</Badge>
+                {deleteMissing && plan.missing.length > 0 && (
+                  <Badge variant="destructive">{plan.missing.length} to delete</Badge>
+                )}
+                {plan.conflicts.length > 0 && (
+                  <Badge variant="outline" className="border-warning text-warning">{plan.conflicts.length} conflicts</Badge>
+                )}
+                <Badge variant="outline">{plan.unchanged} unchanged</Badge>
+              </div>
+            </div>
 
-          {isProcessing && (
-            <div className="space-y-2">
-              <Progress value={progress} />
-              <p className="text-sm text-center text-muted-foreground">
-                Processing... {Math.round(progress)}%
+            {plan.errors.length > 0 && (
+              <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm">
+                <p className="font-medium text-destructive mb-1">Fix these rows and upload the file again:</p>
+                <ul className="text-muted-foreground space-y-0.5">
+                  {plan.errors.slice(0, 5).map(error => <li key={error}>{error}</li>)}
+                  {plan.errors.length > 5 && <li>... and {plan.errors.length - 5} more errors</li>}
+                </ul>
+              </div>
+            )}
+
+            <ScrollArea className="max-h-[320px] rounded-lg border">
+              <div className="p-3 space-y-4 text-sm">
+                {plan.conflicts.length > 0 && (
+                  <div>
+                    <h4 className="font-medium mb-1 flex items-center gap-1.5">
+                      <AlertTriangle className="h-4 w-4 text-warning" />
+                      Conflicts (skipped)
+                    </h4>
+                    <ul className="space-y-1">
+                      {plan.conflicts.map(conflict => (
+                        <li key={`${conflict.row}-${conflict.title}`}>
+                          <span className="text-muted-foreground">Row {conflict.row}:</span> {conflict.title}
+                          <span className="block text-xs text-muted-foreground">{conflict.reason}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {plan.updates.length > 0 && (
+                  <div>
+                    <h4 className="font-medium mb-1">Updates</h4>
+                    <ul className="space-y-1.5">
+                      {plan.updates.map(update => (
+                        <li key={update.task.id}>
+                          {update.task.title}
+                          <ul className="text-xs text-muted-foreground">
+                            {update.changes.map(change => (
+                              <li key={change.field}>
+                                {change.label}: <span className="line-through">{change.from}</span> → {change.to}
+                              </li>
+                            ))}
+                          </ul>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {plan.creates.length > 0 && (
+                  <div>
+                    <h4 className="font-medium mb-1">New tasks</h4>
+                    <ul className="space-y-0.5">
+                      {plan.creates.map(create => (
+                        <li key={create.row}>
+                          <span className="text-muted-foreground">Row {create.row}:</span> {create.values.title}
+                          {create.values.element && (
+                            <span className="text-xs text-muted-foreground"> · {create.values.element}</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                    {plan.newElements.length > 0 && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        New elements: {plan.newElements.join(', ')}
+                      </p>
+                    )}
+                  </div>
+                )}
+                {deleteMissing && plan.missing.length > 0 && (
+                  <div>
+                    <h4 className="font-medium mb-1 text-destructive">Deletions</h4>
+                    <ul className="space-y-0.5">
+                      {plan.missing.map(task => <li key={task.id}>{task.title}</li>)}
+                    </ul>
+                  </div>
+                )}
+                {changeCount === 0 && plan.conflicts.length === 0 && (
+                  <p className="text-muted-foreground text-center py-4">The file matches the department's tasks.</p>
+                )}
+              </div>
+            </ScrollArea>
+
+            {plan.missing.length > 0 && (
+              <div className="flex items-start gap-2">
+                <Checkbox
+                  id="delete-missing-tasks"
+                  checked={deleteMissing}
+                  onCheckedChange={(checked) => setDeleteMissing(checked === true)}
+                  disabled={isProcessing}
+                  className="mt-0.5"
+                />
+                <Label htmlFor="delete-missing-tasks" className="text-sm font-normal leading-snug">
+                  Delete {plan.missing.length} task{plan.missing.length === 1 ? '' : 's'} missing from the file
+                </Label>
+              </div>
+            )}
+
+            {isProcessing && (
+              <div className="space-y-2">
+                <Progress value={progress} />
+                <p className="text-sm text-center text-muted-foreground">
+                  Processing... {Math.round(progress)}%
+                </p>
+              </div>
+            )}
+
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setPlan(null)} disabled={isProcessing}>
+                Back
+              </Button>
+              <Button onClick={applyPlan} disabled={isProcessing || plan.errors.length > 0 || changeCount === 0}>
+                Apply {changeCount} change{changeCount === 1 ? '' : 's'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="rounded-lg border bg-muted/50 p-4">
+              <h4 className="font-medium mb-2 flex items-center gap-2">
+                <FileSpreadsheet className="h-4 w-4" />
+                Required Columns
+              </h4>
+              <ul className="text-sm text-muted-foreground space-y-1">
+                <li>• Task ID (empty for new tasks, as exported for existing ones)</li>
+                <li>• Task Title (required)</li>
+                <li>• Element (optional)</li>
+                <li>• Status: {statuses.map(s => s.key).join(', ')}</li>
+                <li>• Priority: low, medium, high</li>
+                <li>• Start Date (MM-DD-YYYY)</li>
+                <li>• Due Date (MM-DD-YYYY)</li>
+                <li>• Description</li>
+                <li>• Estimated Cost (number)</li>
+                <li>• Actual Cost (number)</li>
+              </ul>
+              <p className="text-xs text-muted-foreground mt-2">
+                Export the current tasks to edit them in Excel. You can review every change before it is applied.
               </p>
             </div>
-          )}
 
-          <div className="flex gap-2">
-            <Button
-              variant="outline"
-              onClick={downloadTemplate}
-              className="flex-1"
-              disabled={isProcessing}
-            >
-              <Download className="h-4 w-4 mr-2" />
-              Download Template
-            </Button>
-
-            <Button
-              className="flex-1"
-              onClick={() => document.getElementById('excel-upload')?.click()}
+            {isProcessing && (
+              <p className="text-sm text-center text-muted-foreground">Reading file...</p>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant="outline"
+                onClick={downloadTemplate}
+                disabled={isProcessing}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download Template
+              </Button>
+
+              <Button
+                variant="outline"
+                onClick={exportTasks}
+                disabled={isProcessing}
+              >
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                Export Tasks
+              </Button>
+
+              <Button
+                className="col-span-2"
+                onClick={() => document.getElementById('excel-upload')?.click()}
+                disabled={isProcessing}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Upload Excel
+              </Button>
+            </div>
+
+            <input
+              id="excel-upload"
+              type="file"
+              accept=".xlsx,.xls"
+              className="hidden"
+              onChange={handleFileUpload}
               disabled={isProcessing}
-            >
-              <Upload className="h-4 w-4 mr-2" />
-              Upload Excel
-            </Button>
+            />
           </div>
-
-          <input
-            id="excel-upload"
-            type="file"
-            accept=".xlsx,.xls"
-            className="hidden"
-            onChange={handleFileUpload}
-            disabled={isProcessing}
-          />
-        </div>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -8,6 +8,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Progress } from '@/components/ui/progress';
 import { GanttAnalyticsView } from '@/components/GanttAnalyticsView';
 import { ExpandableElementRow } from '@/components/ExpandableElementRow';
+import { GanttDependencyLayer, type LinkDragState } from '@/components/GanttDependencyLayer';
 import {
   Select,
   SelectContent,
@@ -29,7 +30,10 @@ import {
   BarChart3,
   GanttChartSquare,
   FileSpreadsheet,
-  FileText
+  FileText,
+  Link2,
+  Route,
+  Diamond
 } from 'lucide-react';
 import {
   Tooltip,
@@ -40,6 +44,7 @@ import {
 import { supabase } from '@/integrations/supabase/client';
 import { 
   format, 
+  parseISO,
   eachDayOfInterval, 
   differenceInDays, 
   addDays, 
@@ -53,17 +58,43 @@ import {
   getWeek
 } from 'date-fns';
 import { toZonedTime } from 'date-fns-tz';
-import html2canvas from 'html2canvas';
-import jsPDF from 'jspdf';
 import * as XLSX from 'xlsx';
+import { useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
-import { calculateWorkingDays, formatWorkingDays, calculateCostVariance } from '@/lib/workingDays';
+import { ToastAction } from '@/components/ui/toast';
+import { calculateWorkingDays, formatWorkingDays, calculateCostVariance, getCalendarDay, getDayWeight, CALENDAR_DAY_KINDS } from '@/lib/workingDays';
+import { useWorkingCalendar } from '@/hooks/useWorkingCalendar';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useUserRole } from '@/hooks/useUserRole';
+import { rescheduleDependentTasks, useTaskDependencies } from '@/hooks/useTaskDependencies';
+import type { TaskDateShift, TaskDependency } from '@/lib/taskDependencies';
+import { flattenTaskTree, getDescendantIds } from '@/lib/subtasks';
+import { applyBarDrag, getDragSnapDays, snapDragDelta, type BarDates, type BarDragMode } from '@/lib/ganttDrag';
+import { computeCriticalPath } from '@/lib/criticalPath';
+import { useBaselineSnapshot } from '@/hooks/useProjectBaselines';
+import { getDateSpan, type BaselineDates } from '@/lib/baselines';
+import { BaselineSelector } from '@/components/baselines/BaselineSelector';
+import { MilestoneDiamond } from '@/components/milestones/MilestoneDiamond';
+import { useProjectMilestones } from '@/hooks/useProjectMilestones';
+import { MILESTONE_APPROVAL_LABELS, MILESTONE_STATUS_COLORS, MILESTONE_STATUS_LABELS } from '@/lib/milestones';
+import { isTaskDoneStatus } from '@/lib/taskStatus';
+import { GanttExportDialog } from '@/components/GanttExportDialog';
+import type { GanttExportLegendItem, GanttExportRow } from '@/lib/ganttExport';
 
 interface Task {
   id: string;
@@ -71,6 +102,7 @@ interface Task {
   assignee?: string;
   assignee_user_id?: string;
   assigned_user_ids?: string[]; // from task_assignments
+  parent_task_id?: string | null;
   start_date: string;
   due_date: string;
   progress_percentage: number;
@@ -109,6 +141,58 @@ interface InteractiveGanttChartProps {
 type ViewMode = 'day' | 'week' | 'month';
 type ChartMode = 'gantt' | 'analytics';
 
+interface BarDragState {
+  kind: 'task' | 'element';
+  id: string;
+  mode: BarDragMode;
+  originX: number;
+  dayWidth: number;
+  deltaDays: number;
+}
+
+interface BarDragChanges {
+  tasks: { id: string; previous: BarDates; next: BarDates }[];
+  element: { id: string; next: BarDates } | null;
+}
+
+// Assigned via the legacy assignee column or task_assignments
+const isAssignedToTask = (task: Task, userId: string) =>
+  task.assignee_user_id === userId || !!task.assigned_user_ids?.includes(userId);
+
+/**
+ * Dates every bar would take if the drag ended now. Element bars carry all of
+ * their tasks along, and moving a parent task carries its subtasks.
+ */
+function getBarDragChanges(elements: Element[], drag: BarDragState): BarDragChanges {
+  const shiftTask = (task: Task, mode: BarDragMode) => ({
+    id: task.id,
+    previous: { start_date: task.start_date, due_date: task.due_date },
+    next: applyBarDrag(task, mode, drag.deltaDays),
+  });
+
+  if (drag.kind === 'element') {
+    const element = elements.find(e => e.id === drag.id);
+    if (!element) return { tasks: [], element: null };
+    return {
+      tasks: element.tasks.map(task => shiftTask(task, 'move')),
+      element: element.start_date && element.due_date
+        ? { id: element.id, next: applyBarDrag({ start_date: element.start_date, due_date: element.due_date }, 'move', drag.deltaDays) }
+        : null,
+    };
+  }
+
+  const allTasks = elements.flatMap(e => e.tasks);
+  const task = allTasks.find(t => t.id === drag.id);
+  if (!task) return { tasks: [], element: null };
+  if (drag.mode !== 'move') return { tasks: [shiftTask(task, drag.mode)], element: null };
+
+  const descendants = getDescendantIds(allTasks, task.id);
+  return {
+    tasks: [task, ...allTasks.filter(t => descendants.has(t.id))].map(t => shiftTask(t, 'move')),
+    element: null,
+  };
+}
+
 // Department color palette - distinct colors for better differentiation
 const DEPT_COLORS = [
   '#FF6B6B', '#4ECDC4', '#FFD93D', '#A78BFA', '#38BDF8',
@@ -125,7 +209,9 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
   const [selectedElement, setSelectedElement] = useState<Element | null>(null);
   const [filterDepartment, setFilterDepartment] = useState<string>('all');
   const [filterStatus, setFilterStatus] = useState<string>('all');
+  const [showCriticalOnly, setShowCriticalOnly] = useState<boolean>(false);
   const [expandedElements, setExpandedElements] = useState<Set<string>>(new Set());
+  const [baselineId, setBaselineId] = useState<string | null>(null);
   
   // Auto-expand all elements when they're loaded
   useEffect(() => {
@@ -137,8 +223,38 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
     }
   }, [elements]);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
-  const chartRef = useRef<HTMLDivElement>(null);
+  const [linkDrag, setLinkDrag] = useState<LinkDragState | null>(null);
+  const [pendingDependencyRemoval, setPendingDependencyRemoval] = useState<TaskDependency | null>(null);
+  const [barDrag, setBarDrag] = useState<BarDragState | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
+  const suppressClickRef = useRef(false);
+  const timelineBodyRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { isAdmin, isProjectManager } = useUserRole();
+  const { calendar } = useWorkingCalendar(projectId);
+  const { dependencies, toggleDependency, removeDependency } = useTaskDependencies(projectId);
+  const canEditDependencies = isAdmin || isProjectManager;
+  const { baselineTasks, baselineElements } = useBaselineSnapshot(baselineId);
+  const { milestones } = useProjectMilestones(projectId);
+
+  // Planned dates from the selected baseline, drawn as ghost bars under the live ones
+  const baselineTaskDates = useMemo(() => {
+    const map = new Map<string, BaselineDates>();
+    baselineTasks.forEach(b => {
+      if (b.start_date && b.due_date) map.set(b.task_id, b);
+    });
+    return map;
+  }, [baselineTasks]);
+
+  const getElementBaseline = (element: Element): BaselineDates | null => {
+    if (!baselineId) return null;
+    const saved = baselineElements.find(b => b.element_id === element.id);
+    const span = getDateSpan(element.tasks.map(t => baselineTaskDates.get(t.id)).filter(Boolean) as BaselineDates[]);
+    const start = saved?.start_date || span.start_date;
+    const due = saved?.due_date || span.due_date;
+    return start && due ? { start_date: start, due_date: due } : null;
+  };
 
   useEffect(() => {
     fetchData();
@@ -150,9 +266,9 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
     setCurrentUserId(user?.id || null);
   };
 
-  const fetchData = async () => {
+  const fetchData = async (showLoading = true) => {
     try {
-      setLoading(true);
+      if (showLoading) setLoading(true);
 
       // Fetch departments - RLS will filter to only show departments with user's assigned tasks
       const { data: deptData, error: deptError } = await supabase
@@ -273,10 +389,12 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
           assignee: assigneeDisplay,
           assignee_user_id: task.assignee_user_id,
           assigned_user_ids: taskAssignedUserIds,
+          parent_task_id: task.parent_task_id,
           start_date: task.start_date,
           due_date: task.due_date,
           progress_percentage: task.progress_percentage || 0,
-          status: task.status
+          // Bars, filters and counts work on the category of custom workflow statuses
+          status: task.status_category || task.status
         };
         
         if (task.element_id && elementsMap.has(task.element_id)) {
@@ -351,6 +469,10 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
     }
   };
 
+  // The link-drag listeners outlive a render, so they reload through the latest fetchData
+  const fetchDataRef = useRef(fetchData);
+  fetchDataRef.current = fetchData;
+
   // Department color mapping
   const getDepartmentColor = (deptId: string) => {
     const index = departments.findIndex(d => d.id === deptId);
@@ -405,13 +527,10 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
     }
 
     // Check if user is assigned to any task in this element (via legacy OR task_assignments)
-    const isAssignedToTask = element.tasks.some(task => 
-      task.assignee_user_id === user.id || 
-      task.assigned_user_ids?.includes(user.id)
-    );
-    console.log('Is assigned to task:', isAssignedToTask);
+    const isAssigned = element.tasks.some(task => isAssignedToTask(task, user.id));
+    console.log('Is assigned to task:', isAssigned);
 
-    if (isAssignedToTask) {
+    if (isAssigned) {
       console.log('Access granted: Assigned to task');
       setSelectedElement(element);
     } else {
@@ -424,9 +543,215 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
     }
   };
 
+  // Dependency linking: drag from a bar's right edge onto another bar
+  const handleStartLink = (taskId: string, event: React.PointerEvent) => {
+    setLinkDrag({ fromTaskId: taskId, clientX: event.clientX, clientY: event.clientY });
+  };
+
+  const linkingFromTaskId = linkDrag?.fromTaskId;
+
+  useEffect(() => {
+    if (!linkingFromTaskId) return;
+    const fromTaskId = linkingFromTaskId;
+
+    const handleMove = (e: PointerEvent) => {
+      setLinkDrag({ fromTaskId, clientX: e.clientX, clientY: e.clientY });
+    };
+
+    const handleUp = async (e: PointerEvent) => {
+      setLinkDrag(null);
+      const target = document.elementFromPoint(e.clientX, e.clientY)?.closest<HTMLElement>('[data-task-bar-id]');
+      const targetTaskId = target?.dataset.taskBarId;
+      if (!targetTaskId || targetTaskId === fromTaskId) return;
+
+      await toggleDependency(fromTaskId, targetTaskId);
+      // Dependent tasks may have been pushed forward
+      fetchDataRef.current(false);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [linkingFromTaskId, toggleDependency]);
+
+  // Rescheduling: drag a bar to move it, or a task bar's edges to change its start/due date.
+  // Same rules as handleElementClick: admins and PMs can move anything, others only their own work.
+  const canRescheduleAll = isAdmin || isProjectManager;
+  const canDragTask = (task: Task) => canRescheduleAll || (!!currentUserId && isAssignedToTask(task, currentUserId));
+  const canDragElement = (element: Element) =>
+    canRescheduleAll || (!!currentUserId && element.tasks.some(task => isAssignedToTask(task, currentUserId)));
+
+  const handleStartBarDrag = (target: { kind: 'task' | 'element'; id: string }, mode: BarDragMode, event: React.PointerEvent) => {
+    // Bars are positioned as a share of their row's timeline, so one day is its width / visible days
+    const track = (event.target as HTMLElement).closest<HTMLElement>('[data-gantt-bar]')?.offsetParent as HTMLElement | null;
+    if (!track || visibleDays.length === 0) return;
+
+    const drag: BarDragState = { ...target, mode, originX: event.clientX, dayWidth: track.clientWidth / visibleDays.length, deltaDays: 0 };
+    const snapDays = getDragSnapDays(viewMode);
+    let deltaDays = 0;
+    setBarDrag(drag);
+
+    const handleMove = (e: PointerEvent) => {
+      const next = snapDragDelta(e.clientX - drag.originX, drag.dayWidth, snapDays);
+      if (next === deltaDays) return;
+      deltaDays = next;
+      setBarDrag({ ...drag, deltaDays });
+    };
+
+    const handleUp = () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      setBarDrag(null);
+      if (deltaDays === 0) return;
+
+      // The click that ends a drag should not also open the element
+      suppressClickRef.current = true;
+      setTimeout(() => { suppressClickRef.current = false; }, 0);
+      saveBarDrag({ ...drag, deltaDays });
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+  };
+
+  const draggingBarId = barDrag?.id;
+
+  const restoreBarDrag = async (
+    moved: BarDragChanges['tasks'],
+    shifts: TaskDateShift[],
+    previousElement: { id: string; start_date: string | null; due_date: string | null } | null
+  ) => {
+    try {
+      // Dependents first, so a task that was both dragged and pushed ends up on its original dates
+      for (const shift of [...shifts].reverse()) {
+        const { error } = await supabase
+          .from('tasks')
+          .update({ start_date: shift.previous_start_date, due_date: shift.previous_due_date })
+          .eq('id', shift.id);
+        if (error) throw error;
+      }
+      for (const change of moved) {
+        const { error } = await supabase.from('tasks').update(change.previous).eq('id', change.id);
+        if (error) throw error;
+      }
+      if (previousElement) {
+        const { error } = await supabase
+          .from('elements')
+          .update({ start_date: previousElement.start_date, due_date: previousElement.due_date })
+          .eq('id', previousElement.id);
+        if (error) throw error;
+      }
+      toast({ title: 'Reschedule undone' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to undo reschedule',
+        variant: 'destructive'
+      });
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ['critical-path', projectId] });
+      fetchData(false);
+    }
+  };
+
+  const saveBarDrag = async (drag: BarDragState) => {
+    const moved = getBarDragChanges(elements, drag).tasks.filter(
+      change => change.next.start_date !== change.previous.start_date || change.next.due_date !== change.previous.due_date
+    );
+    if (moved.length === 0) return;
+
+    try {
+      for (const change of moved) {
+        const { error } = await supabase.from('tasks').update(change.next).eq('id', change.id);
+        if (error) throw error;
+      }
+
+      // Only managers can edit elements; dates derived from tasks follow them on their own
+      let previousElement: { id: string; start_date: string | null; due_date: string | null } | null = null;
+      if (drag.kind === 'element' && canRescheduleAll && !drag.id.startsWith('ungrouped-')) {
+        const { data: stored, error } = await supabase
+          .from('elements')
+          .select('start_date, due_date')
+          .eq('id', drag.id)
+          .maybeSingle();
+        if (error) throw error;
+
+        if (stored && (stored.start_date || stored.due_date)) {
+          const shift = (date: string | null) =>
+            date ? applyBarDrag({ start_date: date, due_date: date }, 'move', drag.deltaDays).start_date : null;
+          const { error: updateError } = await supabase
+            .from('elements')
+            .update({ start_date: shift(stored.start_date), due_date: shift(stored.due_date) })
+            .eq('id', drag.id);
+          if (updateError) throw updateError;
+          previousElement = { id: drag.id, ...stored };
+        }
+      }
+
+      const shifts = await rescheduleDependentTasks(projectId, moved.map(change => change.id));
+      const days = Math.abs(drag.deltaDays);
+      const summary = drag.mode === 'start'
+        ? `Start date set to ${format(new Date(moved[0].next.start_date), 'MMM d')}`
+        : drag.mode === 'end'
+        ? `Due date set to ${format(new Date(moved[0].next.due_date), 'MMM d')}`
+        : `${moved.length} task${moved.length !== 1 ? 's' : ''} moved ${days} day${days !== 1 ? 's' : ''} ${drag.deltaDays > 0 ? 'later' : 'earlier'}`;
+
+      toast({
+        title: drag.kind === 'element' ? 'Element rescheduled' : 'Task rescheduled',
+        description: shifts.length > 0
+          ? `${summary}. ${shifts.length} dependent task${shifts.length !== 1 ? 's were' : ' was'} pushed back.`
+          : `${summary}.`,
+        action: (
+          <ToastAction altText="Undo reschedule" onClick={() => restoreBarDrag(moved, shifts, previousElement)}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    } catch (error) {
+      console.error('Error rescheduling:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to reschedule',
+        variant: 'destructive'
+      });
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ['critical-path', projectId] });
+      fetchData(false);
+    }
+  };
+
+  const getTaskTitle = (taskId: string) =>
+    elements.flatMap(e => e.tasks).find(t => t.id === taskId)?.title || 'Unknown task';
+
+  const handleConfirmDependencyRemoval = async () => {
+    if (!pendingDependencyRemoval) return;
+    try {
+      await removeDependency(pendingDependencyRemoval.id);
+    } catch {
+      // Error toast is raised by the hook
+    } finally {
+      setPendingDependencyRemoval(null);
+    }
+  };
+
+  // Critical path over every task on the chart (before filters, so float is project-wide)
+  const criticalPath = useMemo(() => {
+    return computeCriticalPath(elements.flatMap(e => e.tasks), dependencies, calendar);
+  }, [elements, dependencies, calendar]);
+
   // Filter elements
   const filteredElements = useMemo(() => {
-    return elements.filter(element => {
+    const criticalIds = new Set(criticalPath.criticalTaskIds);
+    const scopedElements = showCriticalOnly
+      ? elements
+          .map(element => ({ ...element, tasks: element.tasks.filter(task => criticalIds.has(task.id)) }))
+          .filter(element => element.tasks.length > 0)
+      : elements;
+
+    return scopedElements.filter(element => {
       if (filterDepartment !== 'all' && element.departmentId !== filterDepartment) {
         return false;
       }
@@ -442,14 +767,40 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
       }
       return true;
     });
-  }, [elements, filterDepartment, filterStatus]);
+  }, [elements, filterDepartment, filterStatus, showCriticalOnly, criticalPath]);
+
+  // Bars follow the pointer while dragging; nothing is saved until release
+  const displayElements = useMemo(() => {
+    if (!barDrag || barDrag.deltaDays === 0) return filteredElements;
+    const preview = getBarDragChanges(elements, barDrag);
+    const taskDates = new Map(preview.tasks.map(change => [change.id, change.next]));
+    return filteredElements.map(element => ({
+      ...element,
+      ...(preview.element?.id === element.id ? preview.element.next : {}),
+      tasks: element.tasks.map(task => ({ ...task, ...taskDates.get(task.id) })),
+    }));
+  }, [filteredElements, elements, barDrag]);
+
+  // Dependency arrows are re-measured whenever a bar moves
+  const barDatesKey = useMemo(
+    () => displayElements.flatMap(e => e.tasks.map(t => `${t.start_date}:${t.due_date}`)).join('|'),
+    [displayElements]
+  );
 
   const dateRange = useMemo(() => {
     if (filteredElements.length === 0) return [];
     
     const allDates = filteredElements.flatMap(element => 
-      element.tasks.map(task => [new Date(task.start_date), new Date(task.due_date)])
-    ).flat();
+      element.tasks.flatMap(task => {
+        const dates = [new Date(task.start_date), new Date(task.due_date)];
+        // Keep baseline bars in view when the plan has since moved
+        const baseline = baselineTaskDates.get(task.id);
+        if (baseline) dates.push(new Date(baseline.start_date!), new Date(baseline.due_date!));
+        return dates;
+      })
+    );
+    // Milestones stay on the timeline even past the last task
+    if (allDates.length > 0) milestones.forEach(m => allDates.push(new Date(m.due_date)));
     
     if (allDates.length === 0) return [];
     
@@ -461,7 +812,7 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
     const paddedEnd = addDays(maxDate, 7);
     
     return eachDayOfInterval({ start: paddedStart, end: paddedEnd });
-  }, [filteredElements]);
+  }, [filteredElements, baselineTaskDates, milestones]);
 
   const visibleDays = useMemo(() => {
     // Show all days in the date range to ensure all tasks are visible
@@ -469,6 +820,35 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
     return dateRange;
   }, [dateRange]);
 
+  // Weekends, holidays and half-days from the working calendar, keyed by yyyy-MM-dd
+  const nonWorkingDays = useMemo(() => {
+    const days = new Map<string, { weight: number; label: string }>();
+    visibleDays.forEach(date => {
+      const weight = getDayWeight(date, calendar);
+      if (weight === 1) return;
+      const calendarDay = getCalendarDay(date, calendar);
+      const label = calendarDay
+        ? calendarDay.name || CALENDAR_DAY_KINDS.find(k => k.value === calendarDay.kind)!.label
+        : 'Weekend';
+      days.set(format(date, 'yyyy-MM-dd'), { weight, label });
+    });
+    return days;
+  }, [visibleDays, calendar]);
+
+  // Shaded columns behind the bars, positioned like the bars as a share of the timeline width
+  const timelineShading = useMemo(() => {
+    const stops: string[] = [];
+    visibleDays.forEach((date, idx) => {
+      const day = nonWorkingDays.get(format(date, 'yyyy-MM-dd'));
+      if (!day) return;
+      const from = (idx / visibleDays.length) * 100;
+      const to = ((idx + 1) / visibleDays.length) * 100;
+      const color = day.weight === 0 ? 'hsl(var(--muted-foreground) / 0.09)' : 'hsl(var(--muted-foreground) / 0.04)';
+      stops.push(`transparent ${from}%, ${color} ${from}%, ${color} ${to}%, transparent ${to}%`);
+    });
+    return stops.length > 0 ? `linear-gradient(to right, ${stops.join(', ')})` : undefined;
+  }, [visibleDays, nonWorkingDays]);
+
   // Status-to-Color Mapping (supports both old and new status formats)
   const getStatusColor = (status?: string): string => {
     switch (status) {
@@ -552,106 +932,66 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
     return;
   };
 
-  const handleExportPDF = async () => {
-    if (!chartRef.current) return;
-    
-    try {
-      toast({
-        title: 'Generating PDF...',
-        description: 'Please wait while we capture your Gantt chart'
-      });
+  // The export is drawn from data, so it covers the whole timeline
+  const getExportRows = (): GanttExportRow[] => {
+    const rows: GanttExportRow[] = [];
+    const toDate = (value?: string | null) => (value ? parseISO(value.split('T')[0]) : null);
+
+    if (milestones.length > 0) {
+      rows.push({ kind: 'group', label: 'Milestones', color: MILESTONE_STATUS_COLORS.upcoming });
+      milestones.forEach(milestone => rows.push({
+        kind: 'milestone',
+        label: milestone.title,
+        start: toDate(milestone.due_date),
+        end: toDate(milestone.due_date),
+        color: MILESTONE_STATUS_COLORS[milestone.status],
+      }));
+    }
 
-      const element = chartRef.current;
-      
-      // Find the scrollable timeline container
-      const scrollableContainer = element.querySelector('.overflow-x-auto');
-      
-      // Store original styles
-      const originalOverflow = scrollableContainer ? (scrollableContainer as HTMLElement).style.overflow : '';
-      const originalMaxWidth = element.style.maxWidth;
-      const originalWidth = element.style.width;
-      
-      // Temporarily expand to show all content
-      if (scrollableContainer) {
-        (scrollableContainer as HTMLElement).style.overflow = 'visible';
-      }
-      element.style.maxWidth = 'none';
-      element.style.width = 'fit-content';
-      
-      // Wait for layout to update
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      // Capture with full width
-      const canvas = await html2canvas(element, {
-        scale: 1.5,
-        backgroundColor: '#ffffff',
-        logging: false,
-        useCORS: true,
-        allowTaint: true,
-        scrollX: 0,
-        scrollY: -window.scrollY,
-        windowWidth: element.scrollWidth,
-        windowHeight: element.scrollHeight
-      });
-      
-      // Restore original styles
-      if (scrollableContainer) {
-        (scrollableContainer as HTMLElement).style.overflow = originalOverflow;
-      }
-      element.style.maxWidth = originalMaxWidth;
-      element.style.width = originalWidth;
-      
-      const imgData = canvas.toDataURL('image/png');
-      
-      // Use A2 landscape for very wide Gantt charts
-      const pdf = new jsPDF({
-        orientation: 'landscape',
-        unit: 'mm',
-        format: 'a2' // A2 is 594 x 420 mm
-      });
-      
-      // A2 landscape dimensions in mm
-      const pdfWidth = 594;
-      const pdfHeight = 420;
-      
-      // Calculate scaling to fit
-      const imgWidth = canvas.width;
-      const imgHeight = canvas.height;
-      const ratio = Math.min((pdfWidth - 20) / imgWidth, (pdfHeight - 20) / imgHeight);
-      
-      const scaledWidth = imgWidth * ratio;
-      const scaledHeight = imgHeight * ratio;
-      
-      // Center on page
-      const x = (pdfWidth - scaledWidth) / 2;
-      const y = (pdfHeight - scaledHeight) / 2;
-      
-      pdf.addImage(imgData, 'PNG', x, y, scaledWidth, scaledHeight);
-      
-      // Add title
-      pdf.setFontSize(16);
-      pdf.text('Interactive Gantt Chart', 10, 15);
-      
-      // Add date
-      pdf.setFontSize(10);
-      pdf.text(`Generated: ${format(new Date(), 'MMM dd, yyyy')}`, 10, 25);
-      
-      pdf.save(`gantt-chart-${format(new Date(), 'yyyy-MM-dd')}.pdf`);
-      
-      toast({
-        title: 'Success!',
-        description: 'Gantt chart exported as PDF'
-      });
-    } catch (error) {
-      console.error('Export error:', error);
-      toast({
-        title: 'Export failed',
-        description: 'Failed to export Gantt chart. Please try again.',
-        variant: 'destructive'
+    departments.forEach(dept => {
+      const deptElements = filteredElements.filter(e => e.departmentId === dept.id);
+      if (deptElements.length === 0) return;
+      const color = getDepartmentColor(dept.id);
+      rows.push({ kind: 'group', label: dept.name, color });
+
+      deptElements.forEach(element => {
+        const span = getDateSpan(element.tasks);
+        rows.push({
+          kind: 'summary',
+          label: element.title,
+          start: toDate(element.start_date || span.start_date),
+          end: toDate(element.due_date || span.due_date),
+          color,
+        });
+        flattenTaskTree(element.tasks).forEach(({ task, depth }) => rows.push({
+          kind: 'task',
+          label: task.title,
+          depth: depth + 1,
+          start: toDate(task.start_date),
+          end: toDate(task.due_date),
+          color,
+          progress: task.progress_percentage,
+        }));
       });
-    }
+    });
+
+    return rows;
   };
 
+  const exportLegend: GanttExportLegendItem[] = [
+    ...departments
+      .filter(dept => filteredElements.some(e => e.departmentId === dept.id))
+      .map(dept => ({ label: dept.name, color: getDepartmentColor(dept.id) })),
+    ...(milestones.length > 0
+      ? (['hit', 'missed', 'at_risk', 'upcoming'] as const).map(status => ({
+          label: `${MILESTONE_STATUS_LABELS[status]} milestone`,
+          color: MILESTONE_STATUS_COLORS[status],
+          shape: 'diamond' as const,
+        }))
+      : []),
+    { label: 'Today', color: '#ef4444', shape: 'line' },
+  ];
+
   const handleExportExcel = () => {
     try {
       toast({
@@ -693,7 +1033,7 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
           : 0;
         
         const totalWorkingDays = element.tasks.reduce((sum, t) => 
-          sum + calculateWorkingDays(t.start_date, t.due_date), 0
+          sum + calculateWorkingDays(t.start_date, t.due_date, calendar), 0
         );
         
         // Calculate total duration: sum of all task durations (calendar days)
@@ -737,7 +1077,7 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
           const taskDuration = differenceInDays(taskEnd, taskStart) + 1;
           
           // Calculate working days: only weekdays (Mon-Fri) including start and end dates
-          const workingDays = calculateWorkingDays(task.start_date, task.due_date);
+          const workingDays = calculateWorkingDays(task.start_date, task.due_date, calendar);
           const taskVariance = (task.actual_cost || 0) - (task.estimated_cost || 0);
           const taskVariancePercent = (task.estimated_cost || 0) > 0 
             ? (taskVariance / (task.estimated_cost || 0)) * 100 
@@ -933,7 +1273,7 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
           : 0;
         
         const totalWorkingDays = allTasks.reduce((sum, t) => 
-          sum + calculateWorkingDays(t.start_date, t.due_date), 0
+          sum + calculateWorkingDays(t.start_date, t.due_date, calendar), 0
         );
         
         const totalEstimated = allTasks.reduce((sum, t) => sum + (t.estimated_cost || 0), 0);
@@ -1009,6 +1349,14 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
 
   const todayPosition = getTodayPosition();
 
+  // Diamonds sit in the middle of their day, dated the same way as the bars
+  const getMilestonePosition = (date: string) => {
+    if (visibleDays.length === 0) return null;
+    const index = differenceInDays(new Date(date), visibleDays[0]);
+    if (index < 0 || index >= visibleDays.length) return null;
+    return `${((index + 0.5) / visibleDays.length) * 100}%`;
+  };
+
   // Analytics calculations
   const departmentAnalytics = useMemo(() => {
     return departments.map(dept => {
@@ -1189,7 +1537,7 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
 
   return (
     <>
-      <Card className="w-full rounded-none border-x-0 overflow-hidden" ref={chartRef}>
+      <Card className="w-full rounded-none border-x-0 overflow-hidden">
         <CardHeader className="px-3 sm:px-5 py-4 bg-card border-b">
           <div className="flex flex-col gap-4">
             {/* Header Row */}
@@ -1253,9 +1601,9 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
                     </Button>
                   </DropdownMenuTrigger>
                   <DropdownMenuContent align="end" className="z-50 bg-background">
-                    <DropdownMenuItem onClick={handleExportPDF}>
+                    <DropdownMenuItem onClick={() => setExportOpen(true)}>
                       <FileText className="h-4 w-4 mr-2" />
-                      Export as PDF
+                      Export as PDF or PNG
                     </DropdownMenuItem>
                     <DropdownMenuItem onClick={handleExportExcel}>
                       <FileSpreadsheet className="h-4 w-4 mr-2" />
@@ -1323,13 +1671,30 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
                 </SelectContent>
               </Select>
 
-              {(filterDepartment !== 'all' || filterStatus !== 'all') && (
+              <Button
+                variant={showCriticalOnly ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setShowCriticalOnly(prev => !prev)}
+                className="h-8 gap-1.5 rounded-lg text-xs"
+                aria-pressed={showCriticalOnly}
+              >
+                <Route className="h-3 w-3" />
+                Only critical tasks
+                <Badge variant="secondary" className="h-4 px-1 text-[10px]">
+                  {criticalPath.criticalTaskIds.length}
+                </Badge>
+              </Button>
+
+              <BaselineSelector projectId={projectId} value={baselineId} onChange={setBaselineId} />
+
+              {(filterDepartment !== 'all' || filterStatus !== 'all' || showCriticalOnly) && (
                 <Button
                   variant="ghost"
                   size="sm"
                   onClick={() => {
                     setFilterDepartment('all');
                     setFilterStatus('all');
+                    setShowCriticalOnly(false);
                   }}
                   className="h-8 gap-1 text-xs text-muted-foreground hover:text-foreground rounded-lg"
                 >
@@ -1393,6 +1758,25 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
                   <div className="h-3 w-3 rounded-full bg-[#EF4444] animate-pulse" />
                   <span className="text-destructive font-medium">Overdue</span>
                 </div>
+                <div className="flex items-center gap-2">
+                  <div className="h-3 w-3 rounded-full ring-2 ring-orange-500" />
+                  <span>Critical path</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Link2 className="h-3 w-3 text-muted-foreground" />
+                  <span>Depends on ({dependencies.length})</span>
+                </div>
+                {milestones.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Diamond className="h-3 w-3 text-muted-foreground" />
+                    <span>Milestone</span>
+                  </div>
+                )}
+                {canEditDependencies && (
+                  <span className="ml-auto text-muted-foreground hidden md:inline">
+                    Drag from the right edge of a task bar onto another task to link or unlink them
+                  </span>
+                )}
               </div>
 
               {/* Timeline Header */}
@@ -1407,6 +1791,7 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
                   <div className="flex h-full">
                     {timelineGroups.map((group, idx) => {
                       const width = `${(group.dates.length / visibleDays.length) * 100}%`;
+                      const nonWorking = viewMode === 'day' ? nonWorkingDays.get(group.key) : undefined;
                       
                       return (
                         <motion.div
@@ -1415,8 +1800,9 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
                           animate={{ opacity: 1 }}
                           transition={{ duration: 0.2, delay: idx * 0.01 }}
                           className={`border-r px-1 sm:px-2 py-2 sm:py-3 text-center text-[10px] sm:text-xs ${
-                            group.isToday ? 'bg-primary/10' : ''
+                            group.isToday ? 'bg-primary/10' : nonWorking ? 'bg-muted/60 text-muted-foreground' : ''
                           }`}
+                          title={nonWorking?.label}
                           style={{ 
                             width: width,
                             minWidth: viewMode === 'day' ? '30px' : '60px'
@@ -1435,11 +1821,51 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
                 </div>
               </div>
 
+              {/* Milestones */}
+              {milestones.length > 0 && (
+                <div className="flex border-b bg-muted/10">
+                  <div className="w-32 sm:w-40 md:w-48 lg:w-64 border-r px-2 sm:px-3 md:px-4 py-3 flex-shrink-0 flex items-center gap-2">
+                    <Diamond className="h-3.5 w-3.5 text-muted-foreground" />
+                    <span className="font-semibold text-xs sm:text-sm">Milestones</span>
+                  </div>
+                  <div className="flex-1 relative" style={{ minWidth: '400px', minHeight: '44px', backgroundImage: timelineShading }}>
+                    {todayPosition && (
+                      <div className="absolute top-0 bottom-0 w-0.5 bg-primary/60 pointer-events-none" style={{ left: todayPosition }} />
+                    )}
+                    {milestones.map(milestone => {
+                      const left = getMilestonePosition(milestone.due_date);
+                      if (!left) return null;
+                      const linkedDone = milestone.tasks.filter(t => isTaskDoneStatus(t.status, t.status_category)).length;
+                      return (
+                        <Tooltip key={milestone.id}>
+                          <TooltipTrigger asChild>
+                            <div
+                              className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2 z-10 cursor-default"
+                              style={{ left }}
+                            >
+                              <MilestoneDiamond status={milestone.status} className="h-5 w-5 drop-shadow-sm" />
+                            </div>
+                          </TooltipTrigger>
+                          <TooltipContent className="max-w-xs">
+                            <div className="space-y-1 text-xs">
+                              <p className="font-semibold text-sm">{milestone.title}</p>
+                              <p>{format(parseISO(milestone.due_date), 'EEE, MMM d, yyyy')} · {MILESTONE_STATUS_LABELS[milestone.status]}</p>
+                              {milestone.completed_at && <p>{MILESTONE_APPROVAL_LABELS[milestone.approval_status]}</p>}
+                              {milestone.tasks.length > 0 && <p>{linkedDone}/{milestone.tasks.length} linked tasks done</p>}
+                            </div>
+                          </TooltipContent>
+                        </Tooltip>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
               {/* Timeline Body */}
-              <div className="divide-y">
+              <div className="divide-y relative" ref={timelineBodyRef}>
               <AnimatePresence>
                 {departments.map((dept, deptIdx) => {
-                  const deptElements = filteredElements.filter(e => e.departmentId === dept.id);
+                  const deptElements = displayElements.filter(e => e.departmentId === dept.id);
                   
                   if (deptElements.length === 0) return null;
                   
@@ -1477,7 +1903,7 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
                               <div
                                 key={idx}
                                 className={`flex-1 border-r border-border/30 ${
-                                  isToday(date) ? 'bg-primary/5' : ''
+                                  isToday(date) ? 'bg-primary/5' : nonWorkingDays.has(format(date, 'yyyy-MM-dd')) ? 'bg-muted-foreground/10' : ''
                                 }`}
                                 style={{ minWidth: '30px' }}
                               />
@@ -1509,17 +1935,38 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
                           deptName={dept.name}
                           isExpanded={expandedElements.has(element.id)}
                           onToggleExpand={() => toggleElementExpansion(element.id)}
-                          onElementClick={() => handleElementClick(element)}
+                          onElementClick={() => {
+                            if (!suppressClickRef.current) handleElementClick(element);
+                          }}
                           calculatePosition={calculatePosition}
                           getStatusIcon={getStatusIcon}
                           getStatusColor={getStatusColor}
                           isTaskOverdue={isTaskOverdue}
+                          onStartLink={canEditDependencies ? handleStartLink : undefined}
+                          taskSchedules={criticalPath.schedules}
+                          linkingFromTaskId={linkingFromTaskId}
+                          baselineTasks={baselineId ? baselineTaskDates : undefined}
+                          elementBaseline={getElementBaseline(element)}
+                          onStartBarDrag={linkDrag ? undefined : handleStartBarDrag}
+                          canDragElement={canDragElement(element)}
+                          canDragTask={canDragTask}
+                          draggingBarId={draggingBarId}
+                          timelineShading={timelineShading}
+                          calendar={calendar}
                         />
                       ))}
                     </motion.div>
                   );
                  })}
               </AnimatePresence>
+              <GanttDependencyLayer
+                containerRef={timelineBodyRef}
+                dependencies={dependencies}
+                layoutKey={`${viewMode}-${filterDepartment}-${filterStatus}-${Array.from(expandedElements).join(',')}-${elements.length}-${baselineId}-${barDatesKey}`}
+                linkDrag={linkDrag}
+                canEdit={canEditDependencies}
+                onDependencyClick={setPendingDependencyRemoval}
+              />
               </div>
 
               {/* Task Count per Week - Bar indicator under timeline */}
@@ -1569,6 +2016,7 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
             departments={departments}
             filteredElements={filteredElements}
             getDepartmentColor={getDepartmentColor}
+            criticalPath={criticalPath}
           />
           )}
         </CardContent>
@@ -1701,6 +2149,42 @@ export function InteractiveGanttChart({ projectId }: InteractiveGanttChartProps)
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Dependency Removal Confirmation */}
+      <AlertDialog open={!!pendingDependencyRemoval} onOpenChange={(open) => !open && setPendingDependencyRemoval(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove Dependency</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDependencyRemoval && (
+                <>
+                  "{getTaskTitle(pendingDependencyRemoval.task_id)}" will no longer wait for "{getTaskTitle(pendingDependencyRemoval.depends_on_task_id)}" to finish.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={handleConfirmDependencyRemoval}
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <GanttExportDialog
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        projectId={projectId}
+        subtitle="Project plan"
+        getRows={getExportRows}
+        legend={exportLegend}
+        isNonWorkingDay={(day) => getDayWeight(day, calendar) < 1}
+        fileName="gantt-chart"
+      />
     </>
   );
 }
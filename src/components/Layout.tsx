@@ -17,6 +17,9 @@ import {
   Palette,
   Search,
   ChevronRight,
+  History,
+  Timer,
+  Gauge,
 } from 'lucide-react';
 import cioLogo from '@/assets/cio-africa-logo.png';
 import { cn } from '@/lib/utils';
@@ -27,6 +30,8 @@ import { GlobalMessagingCenter } from '@/components/GlobalMessagingCenter';
 import { useGlobalUnreadMessages } from '@/hooks/useGlobalUnreadMessages';
 import { Badge } from '@/components/ui/badge';
 import { ThemeSelector } from '@/components/ThemeSelector';
+import { useRunningTimer } from '@/hooks/useTimeEntries';
+import { formatElapsed } from '@/lib/timeTracking';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -66,7 +71,7 @@ function AppSidebar({
   onOpenTheme: () => void;
 }) {
   const { user, signOut } = useAuth();
-  const { isAdmin, loading: roleLoading } = useUserRole();
+  const { isAdmin, isProjectManager, loading: roleLoading } = useUserRole();
   const location = useLocation();
   const { state } = useSidebar();
   const collapsed = state === 'collapsed';
@@ -74,14 +79,19 @@ function AppSidebar({
   const userNavItems = [
     { icon: LayoutDashboard, label: 'Dashboard', path: '/' },
     { icon: CheckSquare, label: 'My Tasks', path: '/my-tasks' },
+    { icon: Timer, label: 'Timesheets', path: '/timesheets' },
     { icon: FolderKanban, label: 'Projects', path: '/projects' },
+    ...(isProjectManager ? [{ icon: Gauge, label: 'Workload', path: '/workload' }] : []),
   ];
 
   const adminNavItems = [
     { icon: Shield, label: 'Admin', path: '/admin' },
     { icon: UserCog, label: 'Users', path: '/admin/users' },
+    { icon: History, label: 'Audit Trail', path: '/admin/audit' },
     { icon: FolderKanban, label: 'Projects', path: '/projects' },
     { icon: CheckSquare, label: 'Tasks', path: '/my-tasks' },
+    { icon: Timer, label: 'Timesheets', path: '/timesheets' },
+    { icon: Gauge, label: 'Workload', path: '/workload' },
     { icon: BarChart3, label: 'Analytics', path: '/analytics' },
   ];
 
@@ -196,6 +206,33 @@ function AppSidebar({
   );
 }
 
+function RunningTimerIndicator() {
+  const { runningTimer } = useRunningTimer();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!runningTimer) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [runningTimer]);
+
+  if (!runningTimer) return null;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button variant="ghost" size="sm" asChild className="h-9 gap-2 text-primary">
+          <Link to="/timesheets">
+            <Timer className="h-4 w-4 animate-pulse" />
+            <span className="font-mono text-xs">{formatElapsed(now - new Date(runningTimer.started_at).getTime())}</span>
+          </Link>
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent>Timer running on "{runningTimer.task_title}"</TooltipContent>
+    </Tooltip>
+  );
+}
+
 function LayoutHeader({ 
   onOpenMessaging, 
   onOpenPasswordChange,
@@ -214,6 +251,8 @@ function LayoutHeader({
       <div className="flex-1" />
 
       <div className="flex items-center gap-1">
+        <RunningTimerIndicator />
+
         <Tooltip>
           <TooltipTrigger asChild>
             <Button
@@ -14,15 +14,20 @@ interface SearchableUserSelectProps {
   selectedUserIds: string[];
   onSelectionChange: (userIds: string[]) => void;
   placeholder?: string;
+  /** Filter from outside (e.g. the text after an @) instead of the built-in search box */
+  searchQuery?: string;
 }
 
 export function SearchableUserSelect({
   users,
   selectedUserIds,
   onSelectionChange,
-  placeholder = "Search users..."
+  placeholder = "Search users...",
+  searchQuery: externalQuery
 }: SearchableUserSelectProps) {
-  const [searchQuery, setSearchQuery] = useState('');
+  const [internalQuery, setSearchQuery] = useState('');
+  const isControlled = externalQuery !== undefined;
+  const searchQuery = isControlled ? externalQuery : internalQuery;
 
   const filteredUsers = useMemo(() => {
     if (!searchQuery.trim()) return users;
@@ -43,15 +48,17 @@ export function SearchableUserSelect({
 
   return (
     <div className="space-y-2">
-      <div className="relative">
-        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-        <Input
-          placeholder={placeholder}
-          value={searchQuery}
-          onChange={(e) => setSearchQuery(e.target.value)}
-          className="pl-9"
-        />
-      </div>
+      {!isControlled && (
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder={placeholder}
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+      )}
       <div className="border rounded-md p-2 space-y-1 max-h-48 overflow-y-auto bg-background">
         {filteredUsers.length === 0 ? (
           <p className="text-sm text-muted-foreground text-center py-2">
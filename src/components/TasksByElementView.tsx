@@ -1,10 +1,12 @@
 import React from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
-import { Calendar, Clock, Edit, User, Percent, Trash2 } from 'lucide-react';
+import { Calendar, Clock, Edit, User, Percent, Trash2, CornerDownRight } from 'lucide-react';
 import { Slider } from '@/components/ui/slider';
+import { flattenTaskTree } from '@/lib/subtasks';
+import { isTaskDoneStatus, normalizeTaskStatus } from '@/lib/taskStatus';
+import { TaskStatusSelect } from '@/components/workflow/TaskStatusSelect';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -26,6 +28,7 @@ interface TaskWithProfile {
   id: string;
   title: string;
   status: string;
+  status_category?: string | null;
   priority: string;
   start_date: string;
   due_date: string;
@@ -38,6 +41,8 @@ interface TaskWithProfile {
   assigned_users?: AssignedUser[];
   element_id?: string;
   element_name?: string;
+  project_id?: string;
+  parent_task_id?: string | null;
 }
 
 interface Element {
@@ -112,9 +117,9 @@ export function TasksByElementView({
     }
   };
 
-  const isOverdue = (dueDate: string, status: string) => {
-    if (!dueDate || status === 'done') return false;
-    return new Date(dueDate) < new Date();
+  const isOverdue = (task: TaskWithProfile) => {
+    if (!task.due_date || isTaskDoneStatus(task.status, task.status_category)) return false;
+    return new Date(task.due_date) < new Date();
   };
 
   return (
@@ -167,17 +172,23 @@ export function TasksByElementView({
                   </CardContent>
                 </Card>
               ) : (
-                elementData.tasks.map((task) => {
-                const progress = task.progress_percentage ?? (task.status === 'done' ? 100 : task.status === 'in_progress' ? 50 : 0);
-                const taskOverdue = isOverdue(task.due_date, task.status);
+                flattenTaskTree(elementData.tasks).map(({ task, depth, childCount }) => {
+                const category = normalizeTaskStatus(task.status, task.status_category);
+                const progress = task.progress_percentage ?? (category === 'done' ? 100 : category === 'in_progress' ? 50 : 0);
+                const taskOverdue = isOverdue(task);
                 
                 return (
-                  <Card key={task.id} className={`hover:shadow-md transition-shadow ${taskOverdue ? 'border-destructive' : ''}`}>
+                  <Card
+                    key={task.id}
+                    className={`hover:shadow-md transition-shadow ${taskOverdue ? 'border-destructive' : ''} ${depth > 0 ? 'border-l-4 border-l-primary/30' : ''}`}
+                    style={{ marginLeft: depth * 16 }}
+                  >
                     <CardContent className="p-4">
                       <div className="space-y-3">
                         {/* Title, Priority, and Edit Button */}
                         <div className="space-y-2">
                           <div className="flex items-start gap-2">
+                            {depth > 0 && <CornerDownRight className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />}
                             <h4 className="text-sm font-semibold flex-1 leading-tight">{task.title}</h4>
                             <div className="flex items-center gap-1 shrink-0">
                               <Badge variant={getPriorityColor(task.priority)} className="text-xs">
@@ -262,35 +273,35 @@ export function TasksByElementView({
                             </div>
                             <span className="font-medium text-base">{progress}%</span>
                           </div>
-                          <Slider
-                            value={[progress]}
-                            onValueChange={(value) => {
-                              const next = value[0];
-                              // Guard against Radix firing change events with the current value
-                              // (prevents accidental update loops)
-                              if (next === progress) return;
-                              onProgressUpdate(task.id, next);
-                            }}
-                            max={100}
-                            step={1}
-                            className="w-full"
-                          />
+                          {childCount > 0 ? (
+                            <p className="text-[11px] text-muted-foreground">
+                              Rolled up from {childCount} subtask{childCount !== 1 ? 's' : ''}
+                            </p>
+                          ) : (
+                            <Slider
+                              value={[progress]}
+                              onValueChange={(value) => {
+                                const next = value[0];
+                                // Guard against Radix firing change events with the current value
+                                // (prevents accidental update loops)
+                                if (next === progress) return;
+                                onProgressUpdate(task.id, next);
+                              }}
+                              max={100}
+                              step={1}
+                              className="w-full"
+                            />
+                          )}
                         </div>
 
                         {/* Status Control */}
-                        <Select 
-                          value={task.status} 
-                          onValueChange={(value) => onStatusUpdate(task.id, value)}
-                        >
-                          <SelectTrigger className="h-8 text-xs">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent className="bg-background z-50">
-                            <SelectItem value="todo">To Do (0%)</SelectItem>
-                            <SelectItem value="in_progress">In Progress (1-99%)</SelectItem>
-                            <SelectItem value="done">Done (100%)</SelectItem>
-                          </SelectContent>
-                        </Select>
+                        <TaskStatusSelect
+                          projectId={task.project_id}
+                          value={task.status}
+                          category={task.status_category}
+                          onChange={(value) => onStatusUpdate(task.id, value)}
+                          className="h-8 text-xs"
+                        />
                       </div>
                     </CardContent>
                   </Card>
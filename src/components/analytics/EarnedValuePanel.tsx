@@ -0,0 +1,241 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Gauge } from 'lucide-react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { supabase } from '@/integrations/supabase/client';
+import { useEarnedValueHistory } from '@/hooks/useEarnedValueHistory';
+import { useWorkingCalendar } from '@/hooks/useWorkingCalendar';
+import { formatCurrency } from '@/hooks/useProjectAnalytics';
+import {
+  buildEarnedValueSeries,
+  formatIndex,
+  getEarnedValueTasks,
+  getPerformanceStatus,
+  groupEarnedValue,
+  type EarnedValueMetrics,
+  type EarnedValueTask,
+} from '@/lib/earnedValue';
+
+interface EarnedValuePanelProps {
+  projectId: string;
+  tasks: (EarnedValueTask & {
+    assignee_department_id: string | null;
+    element_id: string | null;
+  })[];
+  metrics: EarnedValueMetrics;
+  currency: 'USD' | 'KES';
+}
+
+interface GroupRow {
+  key: string;
+  name: string;
+  metrics: EarnedValueMetrics;
+}
+
+/**
+ * Table rows for grouped metrics, largest budget first. Groups with neither
+ * budget nor spend are left out.
+ */
+function toGroupRows(
+  groups: Map<string | null, EarnedValueMetrics>,
+  nameOf: (key: string) => string | undefined,
+  fallback: string
+): GroupRow[] {
+  return Array.from(groups.entries())
+    .filter(([, m]) => m.taskCount > 0 || m.ac > 0)
+    .map(([key, m]) => ({ key: key || 'none', name: (key && nameOf(key)) || fallback, metrics: m }))
+    .sort((a, b) => b.metrics.bac - a.metrics.bac);
+}
+
+function EarnedValueTable({ rows, label, currency }: { rows: GroupRow[]; label: string; currency: 'USD' | 'KES' }) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{label}</TableHead>
+            <TableHead className="text-right">BAC</TableHead>
+            <TableHead className="text-right">PV</TableHead>
+            <TableHead className="text-right">EV</TableHead>
+            <TableHead className="text-right">AC</TableHead>
+            <TableHead className="text-right">CPI</TableHead>
+            <TableHead className="text-right">SPI</TableHead>
+            <TableHead className="text-right">EAC</TableHead>
+            <TableHead className="text-right">ETC</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={9} className="text-center text-muted-foreground py-6">
+                No budgeted tasks
+              </TableCell>
+            </TableRow>
+          ) : (
+            rows.map(row => (
+              <TableRow key={row.key}>
+                <TableCell className="font-medium">{row.name}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.metrics.bac, currency)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.metrics.pv, currency)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.metrics.ev, currency)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.metrics.ac, currency)}</TableCell>
+                <TableCell className={`text-right ${getPerformanceStatus(row.metrics.cpi).statusColor}`}>
+                  {formatIndex(row.metrics.cpi)}
+                </TableCell>
+                <TableCell className={`text-right ${getPerformanceStatus(row.metrics.spi).statusColor}`}>
+                  {formatIndex(row.metrics.spi)}
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(row.metrics.eac, currency)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.metrics.etc, currency)}</TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export function EarnedValuePanel({ projectId, tasks, metrics, currency }: EarnedValuePanelProps) {
+  const { history, loading } = useEarnedValueHistory(projectId);
+  const { calendar } = useWorkingCalendar(projectId);
+  const [departments, setDepartments] = useState<{ id: string; name: string }[]>([]);
+  const [elements, setElements] = useState<{ id: string; title: string }[]>([]);
+
+  useEffect(() => {
+    supabase
+      .from('departments')
+      .select('id, name')
+      .eq('project_id', projectId)
+      .order('name')
+      .then(({ data }) => setDepartments(data || []));
+    supabase
+      .from('elements')
+      .select('id, title')
+      .eq('project_id', projectId)
+      .order('created_at')
+      .then(({ data }) => setElements(data || []));
+  }, [projectId]);
+
+  const leafTasks = useMemo(() => getEarnedValueTasks(tasks), [tasks]);
+
+  const series = useMemo(
+    () => buildEarnedValueSeries(leafTasks, history, new Date(), calendar).map(point => ({
+      ...point,
+      label: format(parseISO(point.date), 'MMM d'),
+    })),
+    [leafTasks, history, calendar]
+  );
+
+  const departmentRows = useMemo(
+    () => toGroupRows(
+      groupEarnedValue(leafTasks, t => t.assignee_department_id, new Date(), calendar),
+      key => departments.find(d => d.id === key)?.name,
+      'Unassigned'
+    ),
+    [leafTasks, departments, calendar]
+  );
+  const elementRows = useMemo(
+    () => toGroupRows(
+      groupEarnedValue(leafTasks, t => t.element_id, new Date(), calendar),
+      key => elements.find(e => e.id === key)?.title,
+      'No element'
+    ),
+    [leafTasks, elements, calendar]
+  );
+
+  const cpiStatus = getPerformanceStatus(metrics.cpi);
+  const spiStatus = getPerformanceStatus(metrics.spi);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          Earned Value
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {metrics.taskCount === 0 ? (
+          <div className="py-10 text-center text-muted-foreground">
+            <Gauge className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">Add estimated costs and dates to tasks to track earned value.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <div className="rounded-lg border p-4">
+                <p className="text-sm text-muted-foreground">Cost Performance (CPI)</p>
+                <p className={`text-2xl font-bold ${cpiStatus.statusColor}`}>{formatIndex(metrics.cpi)}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  CV {formatCurrency(metrics.cv, currency)} • {cpiStatus.statusLabel}
+                </p>
+              </div>
+              <div className="rounded-lg border p-4">
+                <p className="text-sm text-muted-foreground">Schedule Performance (SPI)</p>
+                <p className={`text-2xl font-bold ${spiStatus.statusColor}`}>{formatIndex(metrics.spi)}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  SV {formatCurrency(metrics.sv, currency)} • {spiStatus.statusLabel}
+                </p>
+              </div>
+              <div className="rounded-lg border p-4">
+                <p className="text-sm text-muted-foreground">Estimate at Completion</p>
+                <p className={`text-2xl font-bold ${metrics.vac < 0 ? 'text-red-600' : ''}`}>
+                  {formatCurrency(metrics.eac, currency)}
+                </p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Budget {formatCurrency(metrics.bac, currency)} • VAC {formatCurrency(metrics.vac, currency)}
+                </p>
+              </div>
+              <div className="rounded-lg border p-4">
+                <p className="text-sm text-muted-foreground">Estimate to Complete</p>
+                <p className="text-2xl font-bold">{formatCurrency(metrics.etc, currency)}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {formatCurrency(metrics.ac, currency)} spent of {formatCurrency(metrics.ev, currency)} earned
+                </p>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold mb-2">Planned vs Earned vs Actual</h4>
+              {loading ? (
+                <div className="py-10 text-center text-muted-foreground text-sm">Loading history...</div>
+              ) : series.length === 0 ? (
+                <div className="py-10 text-center text-muted-foreground text-sm">No work has been scheduled yet</div>
+              ) : (
+                <ResponsiveContainer width="100%" height={300}>
+                  <LineChart data={series}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" />
+                    <YAxis tickFormatter={(value: number) => formatCurrency(value, currency)} width={90} />
+                    <Tooltip formatter={(value: number) => formatCurrency(value, currency)} />
+                    <Legend />
+                    <Line type="monotone" dataKey="pv" name="Planned Value" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+                    <Line type="monotone" dataKey="ev" name="Earned Value" stroke="hsl(var(--success))" strokeWidth={2} dot={false} />
+                    <Line type="monotone" dataKey="ac" name="Actual Cost" stroke="hsl(var(--destructive))" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
+            </div>
+
+            <Tabs defaultValue="departments">
+              <TabsList>
+                <TabsTrigger value="departments">By Department</TabsTrigger>
+                <TabsTrigger value="elements">By Element</TabsTrigger>
+              </TabsList>
+              <TabsContent value="departments">
+                <EarnedValueTable rows={departmentRows} label="Department" currency={currency} />
+              </TabsContent>
+              <TabsContent value="elements">
+                <EarnedValueTable rows={elementRows} label="Element" currency={currency} />
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
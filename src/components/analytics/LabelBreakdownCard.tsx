@@ -0,0 +1,86 @@
+import { useMemo } from 'react';
+import { Tag } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Progress } from '@/components/ui/progress';
+import { useProjectLabels } from '@/hooks/useProjectLabels';
+import { formatCurrency } from '@/hooks/useProjectAnalytics';
+import { computeLabelBreakdown, getLabelChipStyle } from '@/lib/taskLabels';
+
+interface LabelBreakdownCardProps {
+  projectId: string;
+  tasks: {
+    status: string;
+    labels?: string[] | null;
+    estimated_cost?: number | null;
+    actual_cost?: number | null;
+  }[];
+  currency: 'USD' | 'KES';
+}
+
+export function LabelBreakdownCard({ projectId, tasks, currency }: LabelBreakdownCardProps) {
+  const { labels } = useProjectLabels(projectId);
+  const rows = useMemo(() => computeLabelBreakdown(tasks, labels), [tasks, labels]);
+  const unlabelled = tasks.filter(t => !t.labels || t.labels.length === 0).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tag className="h-5 w-5" />
+          Tasks by Label
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <div className="py-10 text-center text-muted-foreground">
+            <Tag className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">No labels in this project yet.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Label</TableHead>
+                  <TableHead className="text-right">Tasks</TableHead>
+                  <TableHead className="w-[180px]">Completion</TableHead>
+                  <TableHead className="text-right">Estimated</TableHead>
+                  <TableHead className="text-right">Actual</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.name}>
+                    <TableCell>
+                      <span
+                        className="inline-flex items-center rounded-full border px-2 py-0.5 text-xs font-medium"
+                        style={getLabelChipStyle(row.color)}
+                      >
+                        {row.name}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right">{row.total}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Progress value={row.completionPct} className="h-2" />
+                        <span className="text-xs text-muted-foreground w-9 text-right">{row.completionPct}%</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.estimatedCost, currency)}</TableCell>
+                    <TableCell className={`text-right ${row.actualCost > row.estimatedCost && row.estimatedCost > 0 ? 'text-red-600' : ''}`}>
+                      {formatCurrency(row.actualCost, currency)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-muted-foreground mt-3">
+              {unlabelled} task{unlabelled === 1 ? '' : 's'} without a label. Tasks with several labels count towards each.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
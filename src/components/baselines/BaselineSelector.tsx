@@ -0,0 +1,167 @@
+import { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Layers, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useProjectBaselines } from '@/hooks/useProjectBaselines';
+import { cn } from '@/lib/utils';
+
+const NO_BASELINE = 'none';
+
+interface BaselineSelectorProps {
+  projectId: string;
+  value: string | null;
+  onChange: (baselineId: string | null) => void;
+  /** Pick the most recent baseline once they have loaded */
+  autoSelectLatest?: boolean;
+  className?: string;
+}
+
+export function BaselineSelector({ projectId, value, onChange, autoSelectLatest = false, className }: BaselineSelectorProps) {
+  const { isAdmin, isProjectManager } = useUserRole();
+  const { baselines, createBaseline, deleteBaseline } = useProjectBaselines(projectId);
+  const [showCreate, setShowCreate] = useState(false);
+  const [showDelete, setShowDelete] = useState(false);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const autoSelected = useRef(false);
+
+  const canManage = isAdmin || isProjectManager;
+  const selected = baselines.find(b => b.id === value);
+
+  useEffect(() => {
+    if (!autoSelectLatest || autoSelected.current || baselines.length === 0) return;
+    autoSelected.current = true;
+    if (!value) onChange(baselines[0].id);
+  }, [autoSelectLatest, baselines, value, onChange]);
+
+  const openCreate = () => {
+    setName(`Baseline ${format(new Date(), 'MMM d, yyyy')}`);
+    setShowCreate(true);
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    const baseline = await createBaseline(name);
+    setSaving(false);
+    if (baseline) {
+      onChange(baseline.id);
+      setShowCreate(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!value) return;
+    if (await deleteBaseline(value)) onChange(null);
+    setShowDelete(false);
+  };
+
+  return (
+    <div className={cn('flex items-center gap-1.5', className)}>
+      <Select value={value || NO_BASELINE} onValueChange={(v) => onChange(v === NO_BASELINE ? null : v)}>
+        <SelectTrigger className="w-[180px] sm:w-[220px] h-8 rounded-lg text-xs border-border/50 bg-background">
+          <div className="flex items-center gap-1.5 min-w-0">
+            <Layers className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />
+            <SelectValue placeholder="No baseline" />
+          </div>
+        </SelectTrigger>
+        <SelectContent className="z-50 bg-background">
+          <SelectItem value={NO_BASELINE}>No baseline</SelectItem>
+          {baselines.map(baseline => (
+            <SelectItem key={baseline.id} value={baseline.id}>
+              <span className="truncate">{baseline.name}</span>
+              <span className="ml-2 text-muted-foreground">{format(new Date(baseline.created_at), 'MMM d')}</span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {canManage && (
+        <>
+          <Button variant="outline" size="sm" className="h-8 gap-1.5 rounded-lg text-xs" onClick={openCreate}>
+            <Plus className="h-3 w-3" />
+            Save baseline
+          </Button>
+          {selected && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setShowDelete(true)}
+              title="Delete baseline"
+            >
+              <Trash2 className="h-3.5 w-3.5 text-destructive" />
+            </Button>
+          )}
+        </>
+      )}
+
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save Baseline</DialogTitle>
+            <DialogDescription>
+              Snapshot the current start and due dates, estimates and costs of every task and element.
+              Later changes are measured against it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="baseline-name">Name</Label>
+            <Input
+              id="baseline-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Approved plan"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreate(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving || !name.trim()}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Baseline
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={showDelete} onOpenChange={setShowDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete baseline?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{selected?.name}" will be removed for everyone. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
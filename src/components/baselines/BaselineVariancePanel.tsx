@@ -0,0 +1,208 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarClock, Layers } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useBaselineSnapshot } from '@/hooks/useProjectBaselines';
+import { useWorkingCalendar } from '@/hooks/useWorkingCalendar';
+import { formatCurrency } from '@/hooks/useProjectAnalytics';
+import { BaselineSelector } from './BaselineSelector';
+import {
+  compareElementsToBaseline,
+  compareTasksToBaseline,
+  computeScheduleVarianceSummary,
+  formatDayVariance,
+} from '@/lib/baselines';
+
+interface BaselineVariancePanelProps {
+  projectId: string;
+  tasks: {
+    id: string;
+    title: string;
+    element_id?: string | null;
+    start_date: string | null;
+    due_date: string | null;
+    estimated_cost?: number | null;
+  }[];
+  currency: 'USD' | 'KES';
+}
+
+const formatDate = (date: string | null) => (date ? format(parseISO(date), 'MMM d, yyyy') : 'N/A');
+
+export function BaselineVariancePanel({ projectId, tasks, currency }: BaselineVariancePanelProps) {
+  const [baselineId, setBaselineId] = useState<string | null>(null);
+  const [elements, setElements] = useState<{ id: string; title: string; start_date: string | null; due_date: string | null }[]>([]);
+  const { baselineTasks, baselineElements, loading } = useBaselineSnapshot(baselineId);
+  const { calendar } = useWorkingCalendar(projectId);
+
+  useEffect(() => {
+    supabase
+      .from('elements')
+      .select('id, title, start_date, due_date')
+      .eq('project_id', projectId)
+      .order('created_at')
+      .then(({ data }) => setElements(data || []));
+  }, [projectId]);
+
+  const comparison = useMemo(
+    () => compareTasksToBaseline(tasks, baselineTasks, calendar),
+    [tasks, baselineTasks, calendar]
+  );
+  const summary = useMemo(
+    () => computeScheduleVarianceSummary(comparison.rows, baselineTasks, comparison.removed.length, calendar),
+    [comparison, baselineTasks, calendar]
+  );
+  const elementRows = useMemo(
+    () => compareElementsToBaseline(elements, baselineElements, tasks, baselineTasks, calendar).filter(e => e.baseline),
+    [elements, baselineElements, tasks, baselineTasks, calendar]
+  );
+  // Largest slips first
+  const slippedTasks = useMemo(
+    () => comparison.rows
+      .filter(r => r.schedule.finishVariance !== null && r.schedule.finishVariance !== 0)
+      .sort((a, b) => (b.schedule.finishVariance || 0) - (a.schedule.finishVariance || 0))
+      .slice(0, 10),
+    [comparison]
+  );
+
+  const baselineCost = baselineTasks.reduce((sum, b) => sum + (b.estimated_cost || 0), 0);
+  const currentCost = tasks.reduce((sum, t) => sum + (t.estimated_cost || 0), 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Baseline vs Actual
+        </CardTitle>
+        <BaselineSelector projectId={projectId} value={baselineId} onChange={setBaselineId} autoSelectLatest />
+      </CardHeader>
+      <CardContent>
+        {!baselineId ? (
+          <div className="py-10 text-center text-muted-foreground">
+            <Layers className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">Save a baseline to track how the schedule moves against the agreed plan.</p>
+          </div>
+        ) : loading ? (
+          <div className="py-10 text-center text-muted-foreground text-sm">Loading baseline...</div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <div className="rounded-lg border p-4">
+                <p className="text-sm text-muted-foreground">Project Finish</p>
+                <p className={`text-2xl font-bold ${
+                  (summary.projectFinishVariance || 0) > 0 ? 'text-red-600' : (summary.projectFinishVariance || 0) < 0 ? 'text-green-600' : ''
+                }`}>
+                  {formatDayVariance(summary.projectFinishVariance)}
+                </p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {formatDate(summary.baselineFinish)} → {formatDate(summary.currentFinish)}
+                </p>
+              </div>
+              <div className="rounded-lg border p-4">
+                <p className="text-sm text-muted-foreground">Tasks Behind Plan</p>
+                <p className="text-2xl font-bold text-red-600">{summary.behind}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {summary.onSchedule} on schedule • {summary.ahead} ahead
+                </p>
+              </div>
+              <div className="rounded-lg border p-4">
+                <p className="text-sm text-muted-foreground">Average Finish Slip</p>
+                <p className="text-2xl font-bold">
+                  {summary.averageFinishVariance === null ? 'N/A' : `${summary.averageFinishVariance > 0 ? '+' : ''}${summary.averageFinishVariance.toFixed(1)}d`}
+                </p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {summary.notBaselined} added • {summary.removed} removed since baseline
+                </p>
+              </div>
+              <div className="rounded-lg border p-4">
+                <p className="text-sm text-muted-foreground">Estimated Cost vs Baseline</p>
+                <p className={`text-2xl font-bold ${currentCost > baselineCost ? 'text-red-600' : currentCost < baselineCost ? 'text-green-600' : ''}`}>
+                  {formatCurrency(currentCost - baselineCost, currency)}
+                </p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {formatCurrency(baselineCost, currency)} → {formatCurrency(currentCost, currency)}
+                </p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                <h4 className="text-sm font-semibold mb-2">Schedule Variance by Element</h4>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Element</TableHead>
+                        <TableHead>Baseline Due</TableHead>
+                        <TableHead>Current Due</TableHead>
+                        <TableHead>Variance</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {elementRows.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={4} className="text-center text-muted-foreground py-6">
+                            No elements in this baseline
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        elementRows.map(row => (
+                          <TableRow key={row.id}>
+                            <TableCell className="font-medium">{row.title}</TableCell>
+                            <TableCell>{formatDate(row.baseline?.due_date || null)}</TableCell>
+                            <TableCell>{formatDate(row.current.due_date)}</TableCell>
+                            <TableCell className={row.schedule.statusColor}>
+                              {formatDayVariance(row.schedule.finishVariance)}
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-semibold mb-2">Largest Task Variances</h4>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Task</TableHead>
+                        <TableHead>Start</TableHead>
+                        <TableHead>Finish</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {slippedTasks.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={4} className="text-center text-muted-foreground py-6">
+                            Every task is finishing on its baseline date
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        slippedTasks.map(row => (
+                          <TableRow key={row.id}>
+                            <TableCell className="font-medium">{row.title}</TableCell>
+                            <TableCell>{formatDayVariance(row.schedule.startVariance)}</TableCell>
+                            <TableCell>{formatDayVariance(row.schedule.finishVariance)}</TableCell>
+                            <TableCell>
+                              <span className={row.schedule.statusColor}>{row.schedule.statusLabel}</span>
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,271 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarDays, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useWorkingCalendar } from '@/hooks/useWorkingCalendar';
+import {
+  CALENDAR_DAY_KINDS,
+  DEFAULT_WEEKEND_DAYS,
+  kenyanPublicHolidays,
+  type CalendarDayKind,
+} from '@/lib/workingDays';
+
+// Monday first; values are Date.getDay() numbers
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+];
+
+const KIND_BADGE: Record<CalendarDayKind, string> = {
+  holiday: 'bg-destructive/10 text-destructive border-destructive/20',
+  non_working: 'bg-muted text-muted-foreground',
+  half_day: 'bg-warning/10 text-warning border-warning/20',
+  working: 'bg-success/10 text-success border-success/20',
+};
+
+interface WorkingCalendarDialogProps {
+  /** Edit this project's calendar; the organisation calendar otherwise */
+  projectId?: string | null;
+  /** Controlled use without the built-in trigger button */
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+export function WorkingCalendarDialog({ projectId, open: controlledOpen, onOpenChange }: WorkingCalendarDialogProps) {
+  const { toast } = useToast();
+  const [internalOpen, setInternalOpen] = useState(false);
+  const open = controlledOpen ?? internalOpen;
+  const setOpen = onOpenChange ?? setInternalOpen;
+
+  const {
+    organisation,
+    project,
+    loading,
+    saveWeekendDays,
+    addCalendarDays,
+    removeCalendarDay,
+  } = useWorkingCalendar(projectId);
+
+  const thisYear = new Date().getFullYear();
+  const [year, setYear] = useState(thisYear);
+  const [date, setDate] = useState('');
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<CalendarDayKind>('holiday');
+  const [saving, setSaving] = useState(false);
+
+  const level = project ?? organisation;
+  const inheritsWeekend = !!project && project.weekendDays === null;
+  const weekendDays = level.weekendDays ?? organisation.weekendDays ?? DEFAULT_WEEKEND_DAYS;
+  const days = level.days.filter(d => d.date.startsWith(`${year}-`));
+  const organisationDayCount = project ? organisation.days.filter(d => d.date.startsWith(`${year}-`)).length : 0;
+
+  const toggleWeekday = (day: number, isWeekend: boolean) => {
+    const next = isWeekend ? [...weekendDays, day] : weekendDays.filter(d => d !== day);
+    if (next.length >= 7) {
+      toast({ title: 'Error', description: 'At least one day of the week has to be a working day', variant: 'destructive' });
+      return;
+    }
+    saveWeekendDays(next.sort());
+  };
+
+  const handleAddDay = async () => {
+    if (!date) return;
+    setSaving(true);
+    const added = await addCalendarDays([{ date, name, kind }]);
+    setSaving(false);
+    if (added === 0) {
+      toast({ title: 'Already in the calendar', description: `${format(parseISO(date), 'MMM d, yyyy')} is already listed` });
+    } else if (added) {
+      setDate('');
+      setName('');
+      setYear(parseISO(date).getFullYear());
+    }
+  };
+
+  const handleAddPublicHolidays = async () => {
+    setSaving(true);
+    const added = await addCalendarDays(kenyanPublicHolidays(year));
+    setSaving(false);
+    if (added !== null) {
+      toast({
+        title: 'Public holidays added',
+        description: added > 0
+          ? `${added} Kenyan public holidays added for ${year}. Add Idd-ul-Fitr once it is gazetted.`
+          : `The Kenyan public holidays for ${year} are already in the calendar`,
+      });
+    }
+  };
+
+  return (
+    <>
+      {controlledOpen === undefined && (
+        <Button variant="outline" size="icon" onClick={() => setOpen(true)} title="Working Calendar">
+          <CalendarDays className="h-4 w-4" />
+        </Button>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{projectId ? 'Project Working Calendar' : 'Working Calendar'}</DialogTitle>
+            <DialogDescription>
+              {projectId
+                ? 'Weekends, holidays and blackout days for this project. They apply on top of the organisation calendar.'
+                : 'Weekends, public holidays and non-working days used for durations, overdue reminders and scheduling in every project.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-5">
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Weekend</Label>
+                  {project && (
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="inherit-weekend"
+                        checked={inheritsWeekend}
+                        onCheckedChange={(checked) => saveWeekendDays(checked ? null : weekendDays)}
+                      />
+                      <Label htmlFor="inherit-weekend" className="text-sm font-normal">Same as organisation</Label>
+                    </div>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                  {WEEKDAYS.map(day => {
+                    const isWeekend = weekendDays.includes(day.value);
+                    return (
+                      <Button
+                        key={day.value}
+                        type="button"
+                        size="sm"
+                        variant={isWeekend ? 'secondary' : 'outline'}
+                        className={`w-12 ${isWeekend ? 'line-through text-muted-foreground' : ''}`}
+                        disabled={inheritsWeekend}
+                        onClick={() => toggleWeekday(day.value, !isWeekend)}
+                        title={isWeekend ? 'Non-working day' : 'Working day'}
+                      >
+                        {day.label}
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Add a day</Label>
+                <div className="flex flex-wrap gap-2">
+                  <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="h-9 w-[150px]" />
+                  <Input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Name, e.g. Launch event"
+                    className="h-9 flex-1 min-w-[160px]"
+                  />
+                  <Select value={kind} onValueChange={(v) => setKind(v as CalendarDayKind)}>
+                    <SelectTrigger className="h-9 w-[150px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CALENDAR_DAY_KINDS.map(k => (
+                        <SelectItem key={k.value} value={k.value}>{k.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button size="sm" className="h-9 gap-1" onClick={handleAddDay} disabled={!date || saving}>
+                    <Plus className="h-4 w-4" />
+                    Add
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Label>Days in</Label>
+                    <Select value={String(year)} onValueChange={(v) => setYear(Number(v))}>
+                      <SelectTrigger className="h-8 w-[90px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {[thisYear - 1, thisYear, thisYear + 1, thisYear + 2].map(y => (
+                          <SelectItem key={y} value={String(y)}>{y}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {!projectId && (
+                    <Button variant="outline" size="sm" onClick={handleAddPublicHolidays} disabled={saving}>
+                      {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Add Kenyan public holidays
+                    </Button>
+                  )}
+                </div>
+
+                <ScrollArea className="h-[240px] rounded-md border">
+                  {days.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-8">
+                      No holidays or special days in {year}
+                    </p>
+                  ) : (
+                    <div className="divide-y">
+                      {days.map(day => (
+                        <div key={day.id} className="flex items-center gap-3 px-3 py-2">
+                          <span className="text-sm tabular-nums w-[110px] shrink-0">
+                            {format(parseISO(day.date), 'EEE, MMM d')}
+                          </span>
+                          <span className="text-sm flex-1 truncate">{day.name || '—'}</span>
+                          <Badge variant="outline" className={`text-xs ${KIND_BADGE[day.kind]}`}>
+                            {CALENDAR_DAY_KINDS.find(k => k.value === day.kind)?.label}
+                          </Badge>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                            onClick={() => removeCalendarDay(day.id)}
+                            title="Remove"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </ScrollArea>
+                {organisationDayCount > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {organisationDayCount} organisation holiday{organisationDayCount === 1 ? '' : 's'} in {year} also
+                    apply to this project. A project day on the same date takes precedence.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,31 @@
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { LABEL_COLORS } from '@/lib/taskLabels';
+import { cn } from '@/lib/utils';
+
+export function ColorSwatchPicker({ value, onChange }: { value: string; onChange: (color: string) => void }) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="h-8 w-8 shrink-0 rounded-md border"
+          style={{ backgroundColor: value }}
+          title="Change colour"
+        />
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-2" align="start">
+        <div className="grid grid-cols-5 gap-1.5">
+          {LABEL_COLORS.map(color => (
+            <button
+              key={color}
+              type="button"
+              className={cn('h-6 w-6 rounded-md border-2', color === value ? 'border-foreground' : 'border-transparent')}
+              style={{ backgroundColor: color }}
+              onClick={() => onChange(color)}
+            />
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
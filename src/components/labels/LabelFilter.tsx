@@ -0,0 +1,52 @@
+import { Check, Tag } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import type { ProjectLabel } from '@/lib/taskLabels';
+
+interface LabelFilterProps {
+  labels: ProjectLabel[];
+  value: string[];
+  onChange: (labels: string[]) => void;
+}
+
+export function LabelFilter({ labels, value, onChange }: LabelFilterProps) {
+  const toggle = (name: string) => {
+    onChange(value.includes(name) ? value.filter(l => l !== name) : [...value, name]);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="w-[140px] justify-start font-normal">
+          <Tag className="h-4 w-4 mr-2" />
+          {value.length === 0 ? 'All Labels' : value.length === 1 ? value[0] : `${value.length} labels`}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search labels..." />
+          <CommandList className="max-h-56">
+            <CommandEmpty>No labels found</CommandEmpty>
+            <CommandGroup>
+              {labels.map(label => (
+                <CommandItem key={label.name} value={label.name} onSelect={() => toggle(label.name)}>
+                  <Check className={`h-4 w-4 mr-2 shrink-0 ${value.includes(label.name) ? 'opacity-100' : 'opacity-0'}`} />
+                  <span className="h-2.5 w-2.5 rounded-full mr-2 shrink-0" style={{ backgroundColor: label.color }} />
+                  <span className="truncate">{label.name}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+            {value.length > 0 && (
+              <CommandGroup>
+                <CommandItem value="clear-label-filter" onSelect={() => onChange([])} className="justify-center text-muted-foreground">
+                  Clear labels
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Check, Plus, Tag } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useProjectLabels } from '@/hooks/useProjectLabels';
+import { LABEL_COLORS, normalizeLabelName } from '@/lib/taskLabels';
+import { TaskLabelChips } from './TaskLabelChips';
+
+interface LabelPickerProps {
+  projectId?: string | null;
+  value: string[];
+  onChange: (labels: string[]) => void;
+}
+
+export function LabelPicker({ projectId, value, onChange }: LabelPickerProps) {
+  const { isAdmin, isProjectManager } = useUserRole();
+  const { labels, createLabel } = useProjectLabels(projectId);
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+
+  const canCreate = (isAdmin || isProjectManager) && !!projectId;
+  const newName = normalizeLabelName(search);
+  const exists = labels.some(label => label.name.toLowerCase() === newName.toLowerCase());
+
+  const toggle = (name: string) => {
+    onChange(value.includes(name) ? value.filter(l => l !== name) : [...value, name]);
+  };
+
+  const handleCreate = async () => {
+    if (!projectId || !newName) return;
+    // Cycle through the palette so new labels are easy to tell apart
+    const color = LABEL_COLORS[(labels.length + 1) % LABEL_COLORS.length];
+    const label = await createLabel(projectId, newName, color);
+    if (label) {
+      onChange([...value, label.name]);
+      setSearch('');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="sm" className="gap-2" disabled={!projectId}>
+            <Tag className="h-3.5 w-3.5" />
+            {value.length > 0 ? `${value.length} label${value.length === 1 ? '' : 's'}` : 'Add labels'}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search labels..." value={search} onValueChange={setSearch} />
+            <CommandList className="max-h-56">
+              <CommandEmpty>{canCreate ? 'No labels found' : 'No labels in this project'}</CommandEmpty>
+              {labels.length > 0 && (
+                <CommandGroup>
+                  {labels.map(label => (
+                    <CommandItem key={label.id} value={label.name} onSelect={() => toggle(label.name)}>
+                      <Check className={`h-4 w-4 mr-2 shrink-0 ${value.includes(label.name) ? 'opacity-100' : 'opacity-0'}`} />
+                      <span className="h-2.5 w-2.5 rounded-full mr-2 shrink-0" style={{ backgroundColor: label.color }} />
+                      <span className="truncate">{label.name}</span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              {canCreate && newName && !exists && (
+                <CommandGroup>
+                  <CommandItem value={`create ${newName}`} onSelect={handleCreate}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Create "{newName}"
+                  </CommandItem>
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      <TaskLabelChips labels={value} projectId={projectId} />
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { Loader2, Plus, Tags, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useProjectLabels } from '@/hooks/useProjectLabels';
+import { DEFAULT_LABEL_COLOR, type ProjectLabel } from '@/lib/taskLabels';
+import { ColorSwatchPicker } from './ColorSwatchPicker';
+
+interface ManageLabelsDialogProps {
+  projectId: string;
+}
+
+function LabelRow({
+  label,
+  onRename,
+  onRecolor,
+  onDelete,
+}: {
+  label: ProjectLabel;
+  onRename: (name: string) => Promise<boolean>;
+  onRecolor: (color: string) => void;
+  onDelete: () => void;
+}) {
+  const [name, setName] = useState(label.name);
+
+  const commit = () => {
+    if (name.trim() && name.trim() !== label.name) {
+      onRename(name).then(saved => !saved && setName(label.name));
+    } else {
+      setName(label.name);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <ColorSwatchPicker value={label.color} onChange={onRecolor} />
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            commit();
+          }
+        }}
+        className="h-8"
+      />
+      <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={onDelete} title="Delete label">
+        <Trash2 className="h-3.5 w-3.5 text-destructive" />
+      </Button>
+    </div>
+  );
+}
+
+export function ManageLabelsDialog({ projectId }: ManageLabelsDialogProps) {
+  const { labels, loading, createLabel, updateLabel, deleteLabel } = useProjectLabels(projectId);
+  const [open, setOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState<string>(DEFAULT_LABEL_COLOR);
+  const [creating, setCreating] = useState(false);
+  const [deleting, setDeleting] = useState<ProjectLabel | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    setCreating(true);
+    const label = await createLabel(projectId, newName, newColor);
+    setCreating(false);
+    if (label) setNewName('');
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    await deleteLabel(deleting.id);
+    setDeleting(null);
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="icon" onClick={() => setOpen(true)} title="Manage Labels">
+        <Tags className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Task Labels</DialogTitle>
+            <DialogDescription>
+              Labels available to every task in this project. Renaming or deleting a label updates the tasks that use it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleCreate} className="flex items-center gap-2">
+            <ColorSwatchPicker value={newColor} onChange={setNewColor} />
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New label name"
+              className="h-8"
+            />
+            <Button type="submit" size="sm" className="h-8 gap-1.5 shrink-0" disabled={creating || !newName.trim()}>
+              {creating ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Plus className="h-3.5 w-3.5" />}
+              Add
+            </Button>
+          </form>
+
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {loading ? (
+              <div className="flex items-center justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : labels.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No labels yet</p>
+            ) : (
+              labels.map(label => (
+                <LabelRow
+                  key={`${label.id}-${label.name}`}
+                  label={label}
+                  onRename={(name) => updateLabel(label.id, { name })}
+                  onRecolor={(color) => updateLabel(label.id, { color })}
+                  onDelete={() => setDeleting(label)}
+                />
+              ))
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(isOpen) => !isOpen && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete label?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleting?.name}" will be removed from every task in this project.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
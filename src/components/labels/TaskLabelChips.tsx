@@ -0,0 +1,40 @@
+import { useProjectLabels } from '@/hooks/useProjectLabels';
+import { getLabelChipStyle, getLabelColor } from '@/lib/taskLabels';
+import { cn } from '@/lib/utils';
+
+interface TaskLabelChipsProps {
+  labels?: string[] | null;
+  projectId?: string | null;
+  /** Show at most this many chips followed by a "+n" count */
+  max?: number;
+  className?: string;
+}
+
+export function TaskLabelChips({ labels, projectId, max, className }: TaskLabelChipsProps) {
+  const { labels: catalogue } = useProjectLabels(projectId);
+
+  if (!labels || labels.length === 0) return null;
+
+  const visible = max !== undefined ? labels.slice(0, max) : labels;
+  const hidden = labels.length - visible.length;
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-1', className)}>
+      {visible.map(label => (
+        <span
+          key={label}
+          className="inline-flex items-center rounded-full border px-1.5 py-0 text-[10px] font-medium leading-4 max-w-[120px] truncate"
+          style={getLabelChipStyle(getLabelColor(catalogue, label))}
+          title={label}
+        >
+          {label}
+        </span>
+      ))}
+      {hidden > 0 && (
+        <span className="text-[10px] text-muted-foreground" title={labels.slice(visible.length).join(', ')}>
+          +{hidden}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Loader2, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { MilestoneInput, MilestoneWithStatus } from '@/hooks/useProjectMilestones';
+
+const NONE = 'none';
+
+interface MilestoneDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The milestone being edited; a new one is created when omitted */
+  milestone?: MilestoneWithStatus | null;
+  tasks: { id: string; title: string; due_date: string | null }[];
+  departments: { id: string; name: string }[];
+  people: { id: string; full_name: string | null; email: string }[];
+  onSave: (input: MilestoneInput, taskIds: string[]) => Promise<boolean>;
+}
+
+export function MilestoneDialog({ open, onOpenChange, milestone, tasks, departments, people, onSave }: MilestoneDialogProps) {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [ownerId, setOwnerId] = useState(NONE);
+  const [departmentId, setDepartmentId] = useState(NONE);
+  const [taskIds, setTaskIds] = useState<string[]>([]);
+  const [taskQuery, setTaskQuery] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setTitle(milestone?.title || '');
+    setDescription(milestone?.description || '');
+    setDueDate(milestone?.due_date || '');
+    setOwnerId(milestone?.owner_user_id || NONE);
+    setDepartmentId(milestone?.department_id || NONE);
+    setTaskIds(milestone?.task_ids || []);
+    setTaskQuery('');
+  }, [open, milestone]);
+
+  const filteredTasks = useMemo(() => {
+    const query = taskQuery.trim().toLowerCase();
+    const selected = new Set(taskIds);
+    return tasks
+      .filter(task => !query || task.title.toLowerCase().includes(query))
+      // Linked tasks first so they stay visible in long lists
+      .sort((a, b) => Number(selected.has(b.id)) - Number(selected.has(a.id)) || a.title.localeCompare(b.title));
+  }, [tasks, taskQuery, taskIds]);
+
+  const toggleTask = (taskId: string, checked: boolean) => {
+    setTaskIds(prev => (checked ? [...prev, taskId] : prev.filter(id => id !== taskId)));
+  };
+
+  const handleSave = async () => {
+    if (!title.trim() || !dueDate) return;
+    setSaving(true);
+    const saved = await onSave({
+      title: title.trim(),
+      description: description.trim() || null,
+      due_date: dueDate,
+      owner_user_id: ownerId === NONE ? null : ownerId,
+      department_id: departmentId === NONE ? null : departmentId,
+    }, taskIds);
+    setSaving(false);
+    if (saved) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{milestone ? 'Edit milestone' : 'New milestone'}</DialogTitle>
+          <DialogDescription>
+            A fixed date the project has to meet, such as a signed contract or the show day
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="milestone-title">Title</Label>
+            <Input
+              id="milestone-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Venue contract signed"
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="milestone-date">Date</Label>
+              <Input id="milestone-date" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Owner</Label>
+              <Select value={ownerId} onValueChange={setOwnerId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No owner</SelectItem>
+                  {people.map(person => (
+                    <SelectItem key={person.id} value={person.id}>{person.full_name || person.email}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Department</Label>
+            <Select value={departmentId} onValueChange={setDepartmentId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Whole project</SelectItem>
+                {departments.map(department => (
+                  <SelectItem key={department.id} value={department.id}>{department.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="milestone-description">Description</Label>
+            <Textarea
+              id="milestone-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              placeholder="What has to be true for this milestone to count as reached"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>
+              Linked tasks
+              {taskIds.length > 0 && <span className="text-muted-foreground font-normal"> ({taskIds.length})</span>}
+            </Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={taskQuery}
+                onChange={(e) => setTaskQuery(e.target.value)}
+                placeholder="Search tasks..."
+                className="pl-9"
+              />
+            </div>
+            <ScrollArea className="h-44 rounded-md border">
+              <div className="p-1">
+                {filteredTasks.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-6">No tasks found</p>
+                ) : filteredTasks.map(task => (
+                  <label
+                    key={task.id}
+                    className="flex items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-muted/60 cursor-pointer"
+                  >
+                    <Checkbox
+                      checked={taskIds.includes(task.id)}
+                      onCheckedChange={(checked) => toggleTask(task.id, checked === true)}
+                    />
+                    <span className="truncate flex-1">{task.title}</span>
+                    {task.due_date && (
+                      <span className={`text-xs shrink-0 ${dueDate && task.due_date.split('T')[0] > dueDate ? 'text-destructive' : 'text-muted-foreground'}`}>
+                        {format(parseISO(task.due_date), 'MMM d')}
+                      </span>
+                    )}
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving || !title.trim() || !dueDate}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {milestone ? 'Save' : 'Add milestone'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,7 @@
+import { Diamond } from 'lucide-react';
+import { MILESTONE_STATUS_COLORS, type MilestoneStatus } from '@/lib/milestones';
+
+export function MilestoneDiamond({ status, className = 'h-4 w-4' }: { status: MilestoneStatus; className?: string }) {
+  const color = MILESTONE_STATUS_COLORS[status];
+  return <Diamond className={className} style={{ color, fill: color }} />;
+}
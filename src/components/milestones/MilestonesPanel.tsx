@@ -0,0 +1,282 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import {
+  CheckCircle2,
+  Loader2,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  ShieldCheck,
+  ShieldX,
+  Trash2,
+  Undo2,
+} from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { MilestoneDialog } from '@/components/milestones/MilestoneDialog';
+import { MilestoneDiamond } from '@/components/milestones/MilestoneDiamond';
+import { useProjectMilestones, type MilestoneWithStatus } from '@/hooks/useProjectMilestones';
+import {
+  MILESTONE_APPROVAL_LABELS,
+  MILESTONE_STATUS_COLORS,
+  MILESTONE_STATUS_LABELS,
+  getMilestoneTaskProgress,
+  isMilestoneReached,
+  type MilestoneStatus,
+} from '@/lib/milestones';
+
+interface MilestonesPanelProps {
+  projectId: string;
+  tasks: { id: string; title: string; status: string; status_category?: string | null; due_date: string | null }[];
+  departments: { id: string; name: string }[];
+  people: { id: string; full_name: string | null; email: string }[];
+  canManage: boolean;
+  currentUserId?: string;
+}
+
+const STATUS_ORDER: MilestoneStatus[] = ['missed', 'at_risk', 'upcoming', 'hit'];
+
+const APPROVAL_BADGE_STYLES = {
+  pending: 'border-warning/30 text-warning bg-warning/5',
+  approved: 'border-success/30 text-success bg-success/5',
+  rejected: 'border-destructive/30 text-destructive bg-destructive/5',
+};
+
+/**
+ * The project's milestones in date order with their status, linked work and
+ * sign-off. Owners report a milestone reached; managers sign it off.
+ */
+export function MilestonesPanel({ projectId, tasks, departments, people, canManage, currentUserId }: MilestonesPanelProps) {
+  const {
+    milestones,
+    loading,
+    createMilestone,
+    updateMilestone,
+    setReached,
+    reviewMilestone,
+    deleteMilestone,
+  } = useProjectMilestones(projectId);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<MilestoneWithStatus | null>(null);
+  const [rejecting, setRejecting] = useState<MilestoneWithStatus | null>(null);
+  const [rejectNote, setRejectNote] = useState('');
+
+  const personName = (userId: string | null) => {
+    if (!userId) return null;
+    const person = people.find(p => p.id === userId);
+    return person?.full_name || person?.email || 'Unknown';
+  };
+  const departmentName = (departmentId: string | null) => departments.find(d => d.id === departmentId)?.name;
+
+  const counts = STATUS_ORDER.map(status => ({ status, count: milestones.filter(m => m.status === status).length }));
+
+  const openDialog = (milestone: MilestoneWithStatus | null) => {
+    setEditing(milestone);
+    setDialogOpen(true);
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+    if (await reviewMilestone(rejecting.id, 'rejected', rejectNote)) {
+      setRejecting(null);
+      setRejectNote('');
+    }
+  };
+
+  return (
+    <Card className="rounded-xl">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="text-base">Milestones</CardTitle>
+          <CardDescription className="flex flex-wrap items-center gap-3 mt-1.5">
+            {milestones.length === 0
+              ? 'Fixed dates the project has to meet'
+              : counts.filter(c => c.count > 0).map(({ status, count }) => (
+                <span key={status} className="flex items-center gap-1">
+                  <MilestoneDiamond status={status} className="h-3 w-3" />
+                  {count} {MILESTONE_STATUS_LABELS[status].toLowerCase()}
+                </span>
+              ))}
+          </CardDescription>
+        </div>
+        {canManage && (
+          <Button size="sm" className="gap-1.5" onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4" />
+            Add milestone
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : milestones.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No milestones yet</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {milestones.map(milestone => {
+              const progress = getMilestoneTaskProgress(milestone, milestone.tasks);
+              const isOwner = !!currentUserId && milestone.owner_user_id === currentUserId;
+              const canReport = canManage || isOwner;
+              const owner = personName(milestone.owner_user_id);
+              const department = departmentName(milestone.department_id);
+
+              return (
+                <div key={milestone.id} className="flex flex-col sm:flex-row sm:items-center gap-3 px-4 py-3">
+                  <div className="flex items-start gap-3 min-w-0 flex-1">
+                    <MilestoneDiamond status={milestone.status} className="h-5 w-5 mt-0.5 shrink-0" />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium text-sm">{milestone.title}</span>
+                        <Badge
+                          variant="outline"
+                          className="text-[10px]"
+                          style={{ color: MILESTONE_STATUS_COLORS[milestone.status], borderColor: MILESTONE_STATUS_COLORS[milestone.status] }}
+                        >
+                          {MILESTONE_STATUS_LABELS[milestone.status]}
+                        </Badge>
+                        {milestone.completed_at && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Badge variant="outline" className={`text-[10px] ${APPROVAL_BADGE_STYLES[milestone.approval_status]}`}>
+                                {MILESTONE_APPROVAL_LABELS[milestone.approval_status]}
+                              </Badge>
+                            </TooltipTrigger>
+                            <TooltipContent className="max-w-xs text-xs">
+                              Reached {format(parseISO(milestone.completed_at), 'MMM d, yyyy')}
+                              {milestone.approved_at && ` · reviewed ${format(parseISO(milestone.approved_at), 'MMM d')}`}
+                              {milestone.approved_at && people.some(p => p.id === milestone.approved_by) && ` by ${personName(milestone.approved_by)}`}
+                              {milestone.approval_note && <p className="mt-1">{milestone.approval_note}</p>}
+                            </TooltipContent>
+                          </Tooltip>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        {format(parseISO(milestone.due_date), 'EEE, MMM d, yyyy')}
+                        {owner && ` · ${owner}`}
+                        {department && ` · ${department}`}
+                      </p>
+                      {milestone.description && (
+                        <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{milestone.description}</p>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-3 sm:w-[220px] shrink-0">
+                    {progress.total > 0 ? (
+                      <div className="flex-1 space-y-1">
+                        <div className="flex justify-between text-[11px] text-muted-foreground">
+                          <span>Linked tasks</span>
+                          <span>{progress.done}/{progress.total}</span>
+                        </div>
+                        <Progress value={(progress.done / progress.total) * 100} className="h-1.5" />
+                      </div>
+                    ) : (
+                      <span className="flex-1 text-[11px] text-muted-foreground">No linked tasks</span>
+                    )}
+
+                    {canReport && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0">
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {isMilestoneReached(milestone) ? (
+                            <DropdownMenuItem onClick={() => setReached(milestone.id, false)}>
+                              <Undo2 className="h-4 w-4 mr-2" />
+                              Mark not reached
+                            </DropdownMenuItem>
+                          ) : (
+                            <DropdownMenuItem onClick={() => setReached(milestone.id, true)}>
+                              <CheckCircle2 className="h-4 w-4 mr-2" />
+                              {milestone.completed_at ? 'Report reached again' : 'Mark reached'}
+                            </DropdownMenuItem>
+                          )}
+                          {canManage && milestone.completed_at && milestone.approval_status !== 'approved' && (
+                            <DropdownMenuItem onClick={() => reviewMilestone(milestone.id, 'approved')}>
+                              <ShieldCheck className="h-4 w-4 mr-2" />
+                              Sign off
+                            </DropdownMenuItem>
+                          )}
+                          {canManage && milestone.completed_at && milestone.approval_status !== 'rejected' && (
+                            <DropdownMenuItem onClick={() => { setRejecting(milestone); setRejectNote(''); }}>
+                              <ShieldX className="h-4 w-4 mr-2" />
+                              Reject
+                            </DropdownMenuItem>
+                          )}
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem onClick={() => openDialog(milestone)}>
+                            <Pencil className="h-4 w-4 mr-2" />
+                            Edit
+                          </DropdownMenuItem>
+                          {canManage && (
+                            <DropdownMenuItem className="text-destructive" onClick={() => deleteMilestone(milestone.id)}>
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Delete
+                            </DropdownMenuItem>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <MilestoneDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        milestone={editing}
+        tasks={tasks}
+        departments={departments}
+        people={people}
+        onSave={(input, taskIds) => (editing ? updateMilestone(editing.id, input, taskIds) : createMilestone(input, taskIds))}
+      />
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reject milestone</DialogTitle>
+            <DialogDescription>
+              "{rejecting?.title}" goes back to not reached until it is reported again
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reject-note">What is still missing</Label>
+            <Textarea id="reject-note" value={rejectNote} onChange={(e) => setRejectNote(e.target.value)} rows={3} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={handleReject}>Reject</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,304 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  differenceInCalendarDays,
+  eachMonthOfInterval,
+  eachQuarterOfInterval,
+  eachWeekOfInterval,
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  format,
+  max as maxDate,
+  min as minDate,
+  startOfDay,
+} from 'date-fns';
+import { ChevronDown, ChevronRight, Layers, Loader2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { usePortfolioElements } from '@/hooks/usePortfolioElements';
+import { cn } from '@/lib/utils';
+import { PROJECT_HEALTH_LABELS, type ProjectHealthStatus } from '@/lib/projectHealth';
+import {
+  PORTFOLIO_DAY_WIDTH,
+  getElementSpan,
+  getPortfolioRange,
+  getProjectSpan,
+  groupPortfolioProjects,
+  type PortfolioElement,
+  type PortfolioProject,
+  type PortfolioZoom,
+} from '@/lib/portfolio';
+
+interface PortfolioGanttProps {
+  projects: PortfolioProject[];
+}
+
+const HEALTH_BAR_STYLES: Record<ProjectHealthStatus, { bar: string; fill: string; dot: string }> = {
+  on_track: { bar: 'bg-success/30 border-success/60', fill: 'bg-success', dot: 'bg-success' },
+  needs_attention: { bar: 'bg-warning/30 border-warning/60', fill: 'bg-warning', dot: 'bg-warning' },
+  at_risk: { bar: 'bg-destructive/25 border-destructive/60', fill: 'bg-destructive', dot: 'bg-destructive' },
+};
+
+const LABEL_WIDTH = 260;
+const ROW_HEIGHT = 'h-10';
+
+const formatDate = (date: Date) => format(date, 'MMM d, yyyy');
+
+/**
+ * Every visible project as a bar on one timeline, grouped into CIO Africa and
+ * per-client sections and coloured by health. Clicking a bar opens the
+ * project's own Gantt chart.
+ */
+export function PortfolioGantt({ projects }: PortfolioGanttProps) {
+  const navigate = useNavigate();
+  const [zoom, setZoom] = useState<PortfolioZoom>('month');
+  const [showElements, setShowElements] = useState(false);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const { elements, loading: elementsLoading } = usePortfolioElements(projects.map(p => p.id), showElements);
+
+  const groups = useMemo(() => groupPortfolioProjects(projects), [projects]);
+
+  const elementsByProject = useMemo(() => {
+    const map = new Map<string, PortfolioElement[]>();
+    if (!showElements) return map;
+    elements.forEach(element => {
+      if (!getElementSpan(element)) return;
+      const list = map.get(element.project_id) || [];
+      list.push(element);
+      map.set(element.project_id, list);
+    });
+    return map;
+  }, [elements, showElements]);
+
+  const range = useMemo(
+    () => getPortfolioRange(projects, showElements ? elements : []),
+    [projects, elements, showElements]
+  );
+
+  const dayWidth = PORTFOLIO_DAY_WIDTH[zoom];
+  const timelineWidth = range.days * dayWidth;
+  const offsetOf = (date: Date) => differenceInCalendarDays(date, range.start) * dayWidth;
+  const todayOffset = offsetOf(startOfDay(new Date()));
+
+  const columns = useMemo(() => {
+    const interval = { start: range.start, end: range.end };
+    const starts = zoom === 'week'
+      ? eachWeekOfInterval(interval, { weekStartsOn: 1 })
+      : zoom === 'month'
+        ? eachMonthOfInterval(interval)
+        : eachQuarterOfInterval(interval);
+
+    return starts.map(columnStart => {
+      const columnEnd = zoom === 'week'
+        ? endOfWeek(columnStart, { weekStartsOn: 1 })
+        : zoom === 'month' ? endOfMonth(columnStart) : endOfQuarter(columnStart);
+      const start = maxDate([columnStart, range.start]);
+      const end = minDate([columnEnd, range.end]);
+      return {
+        key: columnStart.toISOString(),
+        label: zoom === 'week' ? format(columnStart, 'MMM d') : zoom === 'month' ? format(columnStart, 'MMM yyyy') : format(columnStart, "QQQ yyyy"),
+        left: differenceInCalendarDays(start, range.start) * dayWidth,
+        width: (differenceInCalendarDays(end, start) + 1) * dayWidth,
+      };
+    });
+  }, [range, zoom, dayWidth]);
+
+  const toggleGroup = (key: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const gridLines = (
+    <>
+      {columns.map(column => (
+        <div key={column.key} className="absolute top-0 bottom-0 border-l border-border/50" style={{ left: column.left }} />
+      ))}
+      <div className="absolute top-0 bottom-0 w-px bg-primary/70 z-[1]" style={{ left: todayOffset }} />
+    </>
+  );
+
+  const renderProjectRow = (project: PortfolioProject) => {
+    const span = getProjectSpan(project);
+    const styles = HEALTH_BAR_STYLES[project.health];
+    const left = offsetOf(span.start);
+    const width = Math.max((differenceInCalendarDays(span.end, span.start) + 1) * dayWidth, 6);
+    const dimmed = project.status === 'inactive' || project.status === 'completed';
+    const projectElements = elementsByProject.get(project.id) || [];
+
+    return (
+      <div key={project.id}>
+        <div className={cn('flex border-b', ROW_HEIGHT)}>
+          <button
+            type="button"
+            className="sticky left-0 z-10 flex items-center gap-2 bg-background border-r px-3 text-left hover:bg-muted/50 shrink-0"
+            style={{ width: LABEL_WIDTH }}
+            onClick={() => navigate(`/projects/${project.id}/gantt`)}
+          >
+            <span className={cn('h-2.5 w-2.5 rounded-full shrink-0', styles.dot)} title={PROJECT_HEALTH_LABELS[project.health]} />
+            <span className={cn('text-sm font-medium truncate', dimmed && 'text-muted-foreground')}>{project.name}</span>
+            <span className="ml-auto text-[11px] text-muted-foreground tabular-nums shrink-0">{project.progress}%</span>
+          </button>
+          <div className="relative shrink-0" style={{ width: timelineWidth }}>
+            {gridLines}
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  type="button"
+                  className={cn(
+                    'absolute top-2 h-6 rounded-md border overflow-hidden transition-shadow hover:shadow-md hover:ring-2 hover:ring-primary/30 z-[2]',
+                    styles.bar,
+                    span.openEnded && 'border-dashed',
+                    dimmed && 'opacity-60'
+                  )}
+                  style={{ left, width: span.openEnded ? Math.max(width, 24) : width }}
+                  onClick={() => navigate(`/projects/${project.id}/gantt`)}
+                >
+                  <div className={cn('h-full opacity-70', styles.fill)} style={{ width: `${project.progress}%` }} />
+                  {width > 80 && (
+                    <span className="absolute inset-0 flex items-center px-2 text-[11px] font-medium text-foreground truncate">
+                      {project.name}
+                    </span>
+                  )}
+                </button>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs">
+                <div className="space-y-1 text-xs">
+                  <p className="font-semibold text-sm">{project.name}</p>
+                  <p>
+                    {formatDate(span.start)} – {span.openEnded ? 'no end date' : formatDate(span.end)}
+                  </p>
+                  <p>{project.completedCount}/{project.taskCount} tasks done ({project.progress}%)</p>
+                  <p>
+                    {PROJECT_HEALTH_LABELS[project.health]}
+                    {project.overdueCount > 0 && ` · ${project.overdueCount} overdue`}
+                  </p>
+                  <p className="text-muted-foreground capitalize">{project.status}</p>
+                </div>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+        </div>
+
+        {projectElements.map(element => {
+          const elementSpan = getElementSpan(element)!;
+          const elementLeft = offsetOf(elementSpan.start);
+          const elementWidth = Math.max((differenceInCalendarDays(elementSpan.end, elementSpan.start) + 1) * dayWidth, 4);
+          return (
+            <div key={element.id} className="flex border-b h-8 bg-muted/10">
+              <button
+                type="button"
+                className="sticky left-0 z-10 flex items-center gap-2 bg-background border-r pl-8 pr-3 text-left hover:bg-muted/50 shrink-0"
+                style={{ width: LABEL_WIDTH }}
+                onClick={() => navigate(`/projects/${project.id}/gantt`)}
+              >
+                <Layers className="h-3 w-3 text-muted-foreground shrink-0" />
+                <span className="text-xs text-muted-foreground truncate">{element.title}</span>
+              </button>
+              <div className="relative shrink-0" style={{ width: timelineWidth }}>
+                {gridLines}
+                <div
+                  className="absolute top-2.5 h-3 rounded-sm bg-primary/40 z-[2]"
+                  style={{ left: elementLeft, width: elementWidth }}
+                  title={`${element.title}: ${formatDate(elementSpan.start)} – ${formatDate(elementSpan.end)}`}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <Tabs value={zoom} onValueChange={(v) => setZoom(v as PortfolioZoom)}>
+          <TabsList>
+            <TabsTrigger value="week">Weeks</TabsTrigger>
+            <TabsTrigger value="month">Months</TabsTrigger>
+            <TabsTrigger value="quarter">Quarters</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <div className="flex items-center gap-2">
+          <Switch id="portfolio-elements" checked={showElements} onCheckedChange={setShowElements} />
+          <Label htmlFor="portfolio-elements" className="text-sm font-normal">Show elements</Label>
+          {elementsLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground ml-auto">
+          {(Object.keys(PROJECT_HEALTH_LABELS) as ProjectHealthStatus[]).map(health => (
+            <span key={health} className="flex items-center gap-1.5">
+              <span className={cn('h-2.5 w-2.5 rounded-full', HEALTH_BAR_STYLES[health].dot)} />
+              {PROJECT_HEALTH_LABELS[health]}
+            </span>
+          ))}
+          <span className="flex items-center gap-1.5">
+            <span className="h-3 w-px bg-primary" />
+            Today
+          </span>
+        </div>
+      </div>
+
+      <Card className="overflow-hidden">
+        <div className="overflow-x-auto">
+          <div style={{ width: LABEL_WIDTH + timelineWidth }}>
+            <div className="flex border-b bg-muted/40 h-9 sticky top-0 z-20">
+              <div
+                className="sticky left-0 z-10 flex items-center bg-muted border-r px-3 text-xs font-semibold shrink-0"
+                style={{ width: LABEL_WIDTH }}
+              >
+                Project
+              </div>
+              <div className="relative shrink-0" style={{ width: timelineWidth }}>
+                {columns.map(column => (
+                  <div
+                    key={column.key}
+                    className="absolute top-0 bottom-0 flex items-center border-l px-1.5 text-[11px] font-medium text-muted-foreground overflow-hidden whitespace-nowrap"
+                    style={{ left: column.left, width: column.width }}
+                  >
+                    {column.width >= 36 ? column.label : ''}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {groups.map(group => {
+              const isCollapsed = collapsed.has(group.key);
+              const atRisk = group.projects.filter(p => p.health === 'at_risk').length;
+              return (
+                <div key={group.key}>
+                  <div className="flex border-b bg-muted/20 h-9">
+                    <button
+                      type="button"
+                      className="sticky left-0 z-10 flex items-center gap-2 bg-muted/60 border-r px-3 text-left text-sm font-semibold shrink-0"
+                      style={{ width: LABEL_WIDTH }}
+                      onClick={() => toggleGroup(group.key)}
+                    >
+                      {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      <span className="truncate">{group.label}</span>
+                      <span className="ml-auto text-[11px] font-normal text-muted-foreground shrink-0">
+                        {group.projects.length}
+                        {atRisk > 0 && <span className="text-destructive"> · {atRisk} at risk</span>}
+                      </span>
+                    </button>
+                    <div className="relative shrink-0" style={{ width: timelineWidth }}>
+                      {gridLines}
+                    </div>
+                  </div>
+                  {!isCollapsed && group.projects.map(renderProjectRow)}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+}
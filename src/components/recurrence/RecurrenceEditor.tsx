@@ -0,0 +1,142 @@
+import { format, parseISO } from 'date-fns';
+import { Repeat } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  DEFAULT_RECURRENCE_RULE,
+  RECURRENCE_FREQUENCIES,
+  WEEKDAY_LABELS,
+  describeRecurrence,
+  getUpcomingOccurrences,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type RecurrenceTrigger,
+} from '@/lib/recurrence';
+import type { WorkingCalendar } from '@/lib/workingDays';
+
+// Monday first, as in the Gantt and calendar views
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+interface RecurrenceEditorProps {
+  /** null when the task does not repeat */
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  /** Start date of the task, used to preview the next occurrences */
+  startDate?: string;
+  /** The project's working calendar, for previewing working-day series */
+  calendar: WorkingCalendar;
+  disabled?: boolean;
+}
+
+export function RecurrenceEditor({ value, onChange, startDate, calendar, disabled }: RecurrenceEditorProps) {
+  const update = (changes: Partial<RecurrenceRule>) => onChange({ ...(value || DEFAULT_RECURRENCE_RULE), ...changes });
+
+  const unit = RECURRENCE_FREQUENCIES.find(f => f.value === value?.frequency)?.unit;
+  const upcoming = value && startDate ? getUpcomingOccurrences(value, startDate, 3, calendar) : [];
+
+  return (
+    <div className="space-y-3">
+      <Label className="flex items-center gap-1.5">
+        <Repeat className="h-3.5 w-3.5" />
+        Repeat
+      </Label>
+
+      <div className="grid grid-cols-2 gap-4">
+        <Select
+          value={value?.frequency || 'none'}
+          onValueChange={(frequency) =>
+            frequency === 'none' ? onChange(null) : update({ frequency: frequency as RecurrenceFrequency })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            {RECURRENCE_FREQUENCIES.map(f => (
+              <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {value && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Every</span>
+            <Input
+              type="number"
+              min="1"
+              max="365"
+              className="w-20"
+              value={value.interval_count}
+              onChange={(e) => update({ interval_count: Math.min(365, Math.max(1, parseInt(e.target.value) || 1)) })}
+              disabled={disabled}
+            />
+            <span className="text-sm text-muted-foreground">{unit}{value.interval_count === 1 ? '' : 's'}</span>
+          </div>
+        )}
+      </div>
+
+      {value && (
+        <>
+          {value.frequency === 'weekly' && (
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="justify-start"
+              value={value.weekdays.map(String)}
+              onValueChange={(days) => update({ weekdays: days.map(Number) })}
+              disabled={disabled}
+            >
+              {WEEKDAY_ORDER.map(day => (
+                <ToggleGroupItem key={day} value={String(day)} className="w-11">
+                  {WEEKDAY_LABELS[day]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Create next task</Label>
+              <Select
+                value={value.generate_on}
+                onValueChange={(generateOn) => update({ generate_on: generateOn as RecurrenceTrigger })}
+                disabled={disabled}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="completion">When this one is done</SelectItem>
+                  <SelectItem value="schedule">On its start date</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurrence-ends-on" className="text-xs text-muted-foreground">Ends on</Label>
+              <Input
+                id="recurrence-ends-on"
+                type="date"
+                value={value.ends_on || ''}
+                min={startDate || undefined}
+                onChange={(e) => update({ ends_on: e.target.value || null })}
+                disabled={disabled}
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {describeRecurrence(value)}
+            {upcoming.length > 0
+              ? ` · next: ${upcoming.map(d => format(parseISO(d), 'MMM d')).join(', ')}`
+              : !startDate && ' · set a start date to schedule the series'}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -10,9 +10,12 @@ import {
   Users,
   Calendar,
   Target,
-  Activity
+  Activity,
+  History
 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
 import type { ProjectReportData } from '@/hooks/useProjectReportData';
+import { PROJECT_HEALTH_LABELS } from '@/lib/projectHealth';
 
 interface ProjectReportPreviewProps {
   data: ProjectReportData;
@@ -30,16 +33,7 @@ export function ProjectReportPreview({ data }: ProjectReportPreviewProps) {
     }
   };
 
-  const getHealthLabel = () => {
-    switch (data.healthStatus) {
-      case 'on_track':
-        return 'On Track';
-      case 'needs_attention':
-        return 'Needs Attention';
-      case 'at_risk':
-        return 'At Risk';
-    }
-  };
+  const getHealthLabel = () => PROJECT_HEALTH_LABELS[data.healthStatus];
 
   const getTrendIcon = () => {
     switch (data.smartInsights.completionTrend) {
@@ -274,6 +268,34 @@ export function ProjectReportPreview({ data }: ProjectReportPreviewProps) {
           </CardContent>
         </Card>
       )}
+
+      {/* What Changed Today */}
+      {data.todayChanges.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <History className="h-5 w-5" />
+              What Changed Today
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {data.todayChanges.slice(-10).reverse().map(change => (
+                <div key={change.id} className="flex items-start justify-between gap-3 py-1 border-b last:border-0 text-sm">
+                  <div className="min-w-0">
+                    <span className="font-medium">{change.taskTitle}</span>
+                    <span className="text-muted-foreground"> · {change.userName} {change.description}</span>
+                  </div>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">{format(parseISO(change.at), 'HH:mm')}</span>
+                </div>
+              ))}
+              {data.todayChanges.length > 10 && (
+                <p className="text-xs text-muted-foreground">+{data.todayChanges.length - 10} more changes</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarPlus, Copy, Loader2, RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+
+interface CalendarSubscribeButtonProps {
+  /** Limit the feed to one project; the feed covers all of the user's projects otherwise */
+  projectId?: string | null;
+}
+
+/**
+ * Private iCal link to the signed-in user's assigned tasks, for Outlook, Google
+ * Calendar and other apps that subscribe to calendars by URL.
+ */
+export function CalendarSubscribeButton({ projectId }: CalendarSubscribeButtonProps) {
+  const { toast } = useToast();
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // `reset` gives the user a new feed token, so every link shared before stops working
+  const fetchFeedUrl = async (reset = false) => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('calendar-feed', {
+        body: { projectId: projectId || null, reset },
+      });
+      if (error) throw error;
+      setFeedUrl(data.url);
+      if (reset) {
+        toast({ title: 'Link reset', description: 'Calendars subscribed with the old link will stop updating' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open || feedUrl) return;
+    fetchFeedUrl();
+  };
+
+  const copyUrl = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    toast({ title: 'Link copied', description: 'Add it to your calendar app as a calendar from URL' });
+  };
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1.5">
+          <CalendarPlus className="h-4 w-4" />
+          Subscribe
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div>
+          <h4 className="text-sm font-medium">Subscribe to your tasks</h4>
+          <p className="text-xs text-muted-foreground mt-1">
+            Due dates of tasks assigned to you{projectId ? ' in this project' : ''}, project deadlines and milestones.
+            Calendar apps refresh the feed every few hours. Keep this link private.
+          </p>
+        </div>
+        {loading || !feedUrl ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="flex gap-2">
+              <Input value={feedUrl} readOnly className="h-8 text-xs" onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" className="h-8 w-8 shrink-0" onClick={copyUrl}>
+                <Copy className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+            <Button asChild size="sm" className="w-full">
+              <a href={feedUrl.replace(/^https?:/, 'webcal:')}>Open in Calendar App</a>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full gap-1.5 text-muted-foreground"
+              onClick={() => fetchFeedUrl(true)}
+            >
+              <RotateCcw className="h-3.5 w-3.5" />
+              Reset link
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              Resetting revokes this link and your other calendar links everywhere they were added.
+            </p>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Check, CornerDownRight, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { flattenTaskTree, getDescendantIds } from '@/lib/subtasks';
+
+interface SubtaskCandidate {
+  id: string;
+  title: string;
+  parent_task_id: string | null;
+}
+
+interface ConvertToSubtaskDialogProps {
+  task: { id: string; title: string; project_id?: string; parent_task_id?: string | null } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConverted?: (taskId: string, parentTaskId: string | null) => void;
+}
+
+const TOP_LEVEL = '__top_level__';
+
+export function ConvertToSubtaskDialog({ task, open, onOpenChange, onConverted }: ConvertToSubtaskDialogProps) {
+  const { toast } = useToast();
+  const [candidates, setCandidates] = useState<SubtaskCandidate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [selectedParentId, setSelectedParentId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !task?.project_id) return;
+
+    setSelectedParentId(null);
+    setLoading(true);
+    supabase
+      .from('tasks')
+      .select('id, title, parent_task_id')
+      .eq('project_id', task.project_id)
+      .order('start_date', { ascending: true, nullsFirst: false })
+      .then(({ data, error }) => {
+        if (error) console.error('Error loading tasks:', error);
+        setCandidates(data || []);
+        setLoading(false);
+      });
+  }, [open, task?.id, task?.project_id]);
+
+  // A task cannot be nested under itself or anything already nested below it
+  const rows = useMemo(() => {
+    if (!task) return [];
+    const excluded = getDescendantIds(candidates, task.id);
+    excluded.add(task.id);
+    return flattenTaskTree(candidates).filter(row => !excluded.has(row.task.id));
+  }, [candidates, task]);
+
+  const handleConvert = async () => {
+    if (!task || !selectedParentId) return;
+
+    const parentTaskId = selectedParentId === TOP_LEVEL ? null : selectedParentId;
+    setSaving(true);
+    const { error } = await supabase
+      .from('tasks')
+      .update({ parent_task_id: parentTaskId })
+      .eq('id', task.id);
+    setSaving(false);
+
+    // The database rejects cycles and cross-project parents with a readable message
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    const parentTitle = candidates.find(c => c.id === parentTaskId)?.title;
+    toast({
+      title: 'Success',
+      description: parentTitle ? `"${task.title}" is now a subtask of "${parentTitle}"` : `"${task.title}" is now a top-level task`,
+    });
+    onConverted?.(task.id, parentTaskId);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Convert to Subtask</DialogTitle>
+          <DialogDescription>
+            Choose the parent task for "{task?.title}". The parent's progress is rolled up from its subtasks.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Command className="border rounded-md">
+            <CommandInput placeholder="Search tasks..." />
+            <CommandList className="max-h-64">
+              <CommandEmpty>No tasks found</CommandEmpty>
+              {task?.parent_task_id && (
+                <CommandGroup>
+                  <CommandItem value={TOP_LEVEL} onSelect={() => setSelectedParentId(TOP_LEVEL)}>
+                    <Check className={`h-4 w-4 mr-2 ${selectedParentId === TOP_LEVEL ? 'opacity-100' : 'opacity-0'}`} />
+                    No parent (top-level task)
+                  </CommandItem>
+                </CommandGroup>
+              )}
+              <CommandGroup heading="Parent task">
+                {rows.map(({ task: candidate, depth }) => (
+                  <CommandItem
+                    key={candidate.id}
+                    value={`${candidate.title} ${candidate.id}`}
+                    onSelect={() => setSelectedParentId(candidate.id)}
+                    disabled={candidate.id === task?.parent_task_id}
+                  >
+                    <Check className={`h-4 w-4 mr-2 shrink-0 ${selectedParentId === candidate.id ? 'opacity-100' : 'opacity-0'}`} />
+                    <span className="flex items-center gap-1 min-w-0" style={{ paddingLeft: depth * 12 }}>
+                      {depth > 0 && <CornerDownRight className="h-3 w-3 shrink-0 text-muted-foreground" />}
+                      <span className="truncate">{candidate.title}</span>
+                    </span>
+                    {candidate.id === task?.parent_task_id && (
+                      <span className="ml-auto text-xs text-muted-foreground">Current</span>
+                    )}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleConvert} disabled={saving || !selectedParentId}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Move Task
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
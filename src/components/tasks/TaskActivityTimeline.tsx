@@ -0,0 +1,65 @@
+import { format, formatDistanceToNow } from 'date-fns';
+import { Calendar, CheckCircle2, DollarSign, History, Loader2, MessageSquare, Percent, PlusCircle, UserMinus, UserPlus } from 'lucide-react';
+import { useTaskActivity } from '@/hooks/useTaskActivity';
+import { describeTaskActivity, type TaskActivityType } from '@/lib/taskActivity';
+
+interface TaskActivityTimelineProps {
+  taskId: string;
+}
+
+const ACTIVITY_ICONS: Record<TaskActivityType, { icon: typeof History; className: string }> = {
+  created: { icon: PlusCircle, className: 'text-primary' },
+  status_changed: { icon: CheckCircle2, className: 'text-success' },
+  progress_changed: { icon: Percent, className: 'text-blue-500' },
+  date_changed: { icon: Calendar, className: 'text-orange-500' },
+  assigned: { icon: UserPlus, className: 'text-purple-500' },
+  unassigned: { icon: UserMinus, className: 'text-muted-foreground' },
+  cost_changed: { icon: DollarSign, className: 'text-emerald-600' },
+  commented: { icon: MessageSquare, className: 'text-primary' },
+};
+
+export function TaskActivityTimeline({ taskId }: TaskActivityTimelineProps) {
+  const { entries, userName, loading } = useTaskActivity(taskId);
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span className="text-sm">Loading history...</span>
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-6 text-muted-foreground">
+        <History className="h-8 w-8 mb-2 opacity-50" />
+        <p className="text-sm">No history recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l ml-3 space-y-5">
+      {entries.map(entry => {
+        const { icon: Icon, className } = ACTIVITY_ICONS[entry.activity_type] || ACTIVITY_ICONS.created;
+        const timestamp = new Date(entry.created_at);
+
+        return (
+          <li key={`${entry.activity_type}-${entry.id}`} className="ml-5">
+            <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-background border">
+              <Icon className={`h-3.5 w-3.5 ${className}`} />
+            </span>
+            <p className="text-sm break-words">
+              <span className="font-medium">{userName(entry.user_id)}</span>{' '}
+              <span className="text-muted-foreground">{describeTaskActivity(entry, userName)}</span>
+            </p>
+            <time className="text-xs text-muted-foreground" title={format(timestamp, 'PPpp')}>
+              {formatDistanceToNow(timestamp, { addSuffix: true })}
+            </time>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
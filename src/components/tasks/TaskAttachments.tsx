@@ -0,0 +1,210 @@
+import { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Eye, File, FileImage, FileText, FolderInput, Library, Loader2, Paperclip, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { DocumentPreviewDialog } from '@/components/documents/DocumentPreviewDialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUserRole } from '@/hooks/useUserRole';
+import { attachmentToDocument, useTaskAttachments, type TaskAttachment } from '@/hooks/useTaskAttachments';
+
+interface TaskAttachmentsProps {
+  task: {
+    id: string;
+    project_id?: string;
+    assignee_department_id?: string;
+  };
+  canEdit?: boolean;
+}
+
+const formatFileSize = (bytes: number | null) => {
+  if (!bytes) return 'Unknown size';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const getFileIcon = (fileType: string | null) => {
+  if (fileType?.startsWith('image/')) return <FileImage className="h-5 w-5 text-blue-500 flex-shrink-0" />;
+  if (fileType === 'application/pdf') return <FileText className="h-5 w-5 text-red-500 flex-shrink-0" />;
+  return <File className="h-5 w-5 text-muted-foreground flex-shrink-0" />;
+};
+
+export function TaskAttachments({ task, canEdit = true }: TaskAttachmentsProps) {
+  const { user } = useAuth();
+  const { isAdmin, isProjectManager } = useUserRole();
+  const { attachments, loading, uploadAttachments, deleteAttachment, promoteAttachment } =
+    useTaskAttachments(task.id, task.project_id);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [promotingId, setPromotingId] = useState<string | null>(null);
+  const [previewAttachment, setPreviewAttachment] = useState<TaskAttachment | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const canPromote = isAdmin || isProjectManager;
+
+  const handleFiles = async (files: File[]) => {
+    if (!canEdit || files.length === 0) return;
+    setUploading(true);
+    await uploadAttachments(files);
+    setUploading(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    handleFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handlePromote = async (attachment: TaskAttachment) => {
+    setPromotingId(attachment.id);
+    await promoteAttachment(attachment, task.assignee_department_id);
+    setPromotingId(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      {canEdit && (
+        <div
+          className={`flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-6 text-center transition-colors ${
+            isDragOver ? 'border-primary bg-primary/5' : 'border-muted-foreground/25'
+          }`}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragOver(true);
+          }}
+          onDragLeave={() => setIsDragOver(false)}
+          onDrop={handleDrop}
+        >
+          {uploading ? (
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          ) : (
+            <Upload className="h-6 w-6 text-muted-foreground" />
+          )}
+          <p className="text-sm text-muted-foreground">
+            {uploading ? 'Uploading...' : 'Drag and drop files here'}
+          </p>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploading}
+          >
+            Browse files
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              handleFiles(Array.from(e.target.files || []));
+              e.target.value = '';
+            }}
+          />
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span className="text-sm">Loading attachments...</span>
+        </div>
+      ) : attachments.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-6 text-muted-foreground">
+          <Paperclip className="h-8 w-8 mb-2 opacity-50" />
+          <p className="text-sm">No attachments yet</p>
+        </div>
+      ) : (
+        <TooltipProvider>
+          <div className="space-y-2">
+            {attachments.map(attachment => {
+              const canDelete = canEdit && (attachment.uploaded_by === user?.id || isAdmin);
+
+              return (
+                <div key={attachment.id} className="flex items-center gap-3 rounded-md border p-2">
+                  {getFileIcon(attachment.file_type)}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        className="text-sm font-medium truncate hover:underline text-left"
+                        onClick={() => setPreviewAttachment(attachment)}
+                      >
+                        {attachment.file_name}
+                      </button>
+                      {attachment.document_id && (
+                        <Badge variant="secondary" className="text-[10px] gap-1 flex-shrink-0">
+                          <Library className="h-3 w-3" />
+                          In library
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {formatFileSize(attachment.file_size)}
+                      {attachment.uploader_name && ` · ${attachment.uploader_name}`}
+                      {attachment.created_at && ` · ${format(new Date(attachment.created_at), 'MMM d, yyyy')}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 flex-shrink-0">
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setPreviewAttachment(attachment)}>
+                          <Eye className="h-3.5 w-3.5" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>Preview</TooltipContent>
+                    </Tooltip>
+                    {canPromote && !attachment.document_id && task.project_id && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => handlePromote(attachment)}
+                            disabled={promotingId === attachment.id}
+                          >
+                            {promotingId === attachment.id
+                              ? <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                              : <FolderInput className="h-3.5 w-3.5" />}
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>Add to document library</TooltipContent>
+                      </Tooltip>
+                    )}
+                    {canDelete && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-destructive"
+                            onClick={() => deleteAttachment(attachment.id)}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>Remove attachment</TooltipContent>
+                      </Tooltip>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </TooltipProvider>
+      )}
+
+      {previewAttachment && (
+        <DocumentPreviewDialog
+          open={!!previewAttachment}
+          onOpenChange={(open) => !open && setPreviewAttachment(null)}
+          document={attachmentToDocument(previewAttachment, task.project_id || '')}
+        />
+      )}
+    </div>
+  );
+}
@@ -2,16 +2,29 @@ import { useState, useMemo } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ChevronLeft, ChevronRight, Edit } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Download, Edit } from 'lucide-react';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, addMonths, subMonths, isToday } from 'date-fns';
+import { TaskLabelChips } from '@/components/labels/TaskLabelChips';
+import { isTaskDoneStatus, normalizeTaskStatus } from '@/lib/taskStatus';
+import { downloadTaskCalendar } from '@/lib/ical';
+import { CalendarSubscribeButton } from './CalendarSubscribeButton';
 import type { TaskViewProps, TaskWithProfile } from './types';
 
+interface TaskCalendarViewProps extends TaskViewProps {
+  /** Name of the downloaded .ics calendar */
+  calendarName?: string;
+  /** Project the subscription feed is limited to */
+  feedProjectId?: string | null;
+}
+
 export function TaskCalendarView({ 
   tasks, 
   onDateUpdate,
   onEditTask,
-  canEdit = true 
-}: TaskViewProps) {
+  canEdit = true,
+  calendarName = 'Tasks',
+  feedProjectId,
+}: TaskCalendarViewProps) {
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [draggedTask, setDraggedTask] = useState<TaskWithProfile | null>(null);
   const [dragOverDate, setDragOverDate] = useState<Date | null>(null);
@@ -75,8 +88,8 @@ export function TaskCalendarView({
     }
   };
 
-  const getStatusBorder = (status: string) => {
-    switch (status) {
+  const getStatusBorder = (task: TaskWithProfile) => {
+    switch (normalizeTaskStatus(task.status, task.status_category)) {
       case 'done': return 'border-l-green-500';
       case 'in_progress': return 'border-l-blue-500';
       case 'todo': return 'border-l-gray-400';
@@ -84,9 +97,9 @@ export function TaskCalendarView({
     }
   };
 
-  const isOverdue = (dueDate: string, status: string) => {
-    if (!dueDate || status === 'done') return false;
-    return new Date(dueDate) < new Date();
+  const isOverdue = (task: TaskWithProfile) => {
+    if (!task.due_date || isTaskDoneStatus(task.status, task.status_category)) return false;
+    return new Date(task.due_date) < new Date();
   };
 
   return (
@@ -97,6 +110,17 @@ export function TaskCalendarView({
           {format(currentMonth, 'MMMM yyyy')}
         </h3>
         <div className="flex items-center gap-2">
+          <CalendarSubscribeButton projectId={feedProjectId} />
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1.5"
+            onClick={() => downloadTaskCalendar(calendarName, tasks)}
+            disabled={!tasks.some(t => t.due_date)}
+          >
+            <Download className="h-4 w-4" />
+            .ics
+          </Button>
           <Button 
             variant="outline" 
             size="icon"
@@ -190,14 +214,14 @@ export function TaskCalendarView({
                   
                   <div className="space-y-1 overflow-y-auto max-h-[90px]">
                     {dayTasks.map(task => {
-                      const taskOverdue = isOverdue(task.due_date, task.status);
+                      const taskOverdue = isOverdue(task);
                       
                       return (
                         <div
                           key={task.id}
                           draggable={canEdit}
                           onDragStart={(e) => handleDragStart(e, task)}
-                          className={`group text-xs p-1 rounded border-l-2 ${getStatusBorder(task.status)} ${
+                          className={`group text-xs p-1 rounded border-l-2 ${getStatusBorder(task)} ${
                             taskOverdue ? 'bg-destructive/10' : 'bg-muted/50'
                           } cursor-grab active:cursor-grabbing hover:bg-muted transition-colors ${
                             draggedTask?.id === task.id ? 'opacity-50' : ''
@@ -220,6 +244,7 @@ export function TaskCalendarView({
                               </Button>
                             )}
                           </div>
+                          <TaskLabelChips labels={task.labels} projectId={task.project_id} max={2} className="mt-0.5 pl-2.5" />
                         </div>
                       );
                     })}
@@ -0,0 +1,263 @@
+import { useMemo, useRef, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, MessageSquare, Pencil, Send, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { SearchableUserSelect } from '@/components/SearchableUserSelect';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTaskComments, type TaskComment } from '@/hooks/useTaskComments';
+import { decodeMentions, encodeMentions, splitMentions, type MentionUser } from '@/lib/mentions';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+interface MemberProfile {
+  id: string;
+  full_name: string | null;
+  email: string;
+}
+
+interface TaskCommentsProps {
+  taskId: string;
+  members: MemberProfile[];
+}
+
+interface CommentComposerProps {
+  members: MemberProfile[];
+  initialValue?: string;
+  submitLabel: string;
+  onSubmit: (comment: string) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+const memberName = (member: MemberProfile) => member.full_name || member.email;
+
+function CommentComposer({ members, initialValue = '', submitLabel, onSubmit, onCancel }: CommentComposerProps) {
+  const initial = useMemo(() => decodeMentions(initialValue), [initialValue]);
+  const [text, setText] = useState(initial.text);
+  const [mentions, setMentions] = useState<MentionUser[]>(initial.mentions);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const updateMentionQuery = (value: string, caret: number) => {
+    const match = value.slice(0, caret).match(/(?:^|\s)@([^\s@]*)$/);
+    setMentionQuery(match ? match[1] : null);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setText(e.target.value);
+    updateMentionQuery(e.target.value, e.target.selectionStart);
+  };
+
+  const handleMentionSelect = (userIds: string[]) => {
+    const member = members.find(m => m.id === userIds[0]);
+    const textarea = textareaRef.current;
+    if (!member || !textarea || mentionQuery === null) return;
+
+    const caret = textarea.selectionStart;
+    const start = caret - mentionQuery.length - 1;
+    const name = memberName(member);
+    const next = `${text.slice(0, start)}@${name} ${text.slice(caret)}`;
+
+    setText(next);
+    setMentions(prev => prev.some(m => m.id === member.id) ? prev : [...prev, { id: member.id, name }]);
+    setMentionQuery(null);
+
+    requestAnimationFrame(() => {
+      const position = start + name.length + 2;
+      textarea.focus();
+      textarea.setSelectionRange(position, position);
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!text.trim()) return;
+
+    setSubmitting(true);
+    const activeMentions = mentions.filter(m => text.includes(`@${m.name}`));
+    const success = await onSubmit(encodeMentions(text.trim(), activeMentions));
+    setSubmitting(false);
+
+    if (success && !onCancel) {
+      setText('');
+      setMentions([]);
+      setMentionQuery(null);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Escape' && mentionQuery !== null) {
+      e.preventDefault();
+      e.stopPropagation();
+      setMentionQuery(null);
+    } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        ref={textareaRef}
+        value={text}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateMentionQuery(text, e.currentTarget.selectionStart)}
+        placeholder="Write a comment... Type @ to mention a project member"
+        rows={3}
+        disabled={submitting}
+      />
+      {mentionQuery !== null && (
+        <SearchableUserSelect
+          users={members}
+          selectedUserIds={[]}
+          onSelectionChange={handleMentionSelect}
+          searchQuery={mentionQuery}
+        />
+      )}
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">Ctrl+Enter to send</p>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={submitting}>
+              <X className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+          )}
+          <Button type="button" size="sm" onClick={handleSubmit} disabled={submitting || !text.trim()}>
+            {submitting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Send className="h-4 w-4 mr-1" />}
+            {submitLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CommentBody({ comment }: { comment: string }) {
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words">
+      {splitMentions(comment).map((segment, index) =>
+        segment.type === 'mention' ? (
+          <span key={index} className="font-medium text-primary">{segment.text}</span>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+export function TaskComments({ taskId, members }: TaskCommentsProps) {
+  const { user } = useAuth();
+  const { comments, loading, addComment, editComment, deleteComment } = useTaskComments(taskId);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<TaskComment | null>(null);
+
+  const handleEdit = async (commentId: string, comment: string) => {
+    const success = await editComment(commentId, comment);
+    if (success) setEditingId(null);
+    return success;
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    await deleteComment(pendingDelete.id);
+    setPendingDelete(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      {loading ? (
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span className="text-sm">Loading comments...</span>
+        </div>
+      ) : comments.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-6 text-muted-foreground">
+          <MessageSquare className="h-8 w-8 mb-2 opacity-50" />
+          <p className="text-sm">No comments yet</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {comments.map(comment => {
+            const authorName = comment.user?.full_name || comment.user?.email || 'Unknown user';
+            const isOwn = comment.user_id === user?.id;
+            const isEdited = new Date(comment.updated_at).getTime() - new Date(comment.created_at).getTime() > 1000;
+
+            return (
+              <div key={comment.id} className="flex gap-3 group">
+                <Avatar className="h-8 w-8 flex-shrink-0">
+                  <AvatarImage src={comment.user?.avatar_url || undefined} />
+                  <AvatarFallback className="text-[10px]">{authorName.charAt(0).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium truncate">{authorName}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                      {isEdited && ' (edited)'}
+                    </span>
+                    {isOwn && editingId !== comment.id && (
+                      <div className="ml-auto flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setEditingId(comment.id)}>
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-6 w-6 text-destructive" onClick={() => setPendingDelete(comment)}>
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  {editingId === comment.id ? (
+                    <CommentComposer
+                      members={members}
+                      initialValue={comment.comment}
+                      submitLabel="Save"
+                      onSubmit={(text) => handleEdit(comment.id, text)}
+                      onCancel={() => setEditingId(null)}
+                    />
+                  ) : (
+                    <CommentBody comment={comment.comment} />
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <CommentComposer members={members} submitLabel="Comment" onSubmit={addComment} />
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Comment</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete this comment? This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useEffect, useState, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from '@/components/ui/sheet';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,10 +8,24 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
-import { Calendar, Clock, User, Percent, Save, X, Loader2, Trash2 } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Calendar, Clock, User, Percent, Save, X, Loader2, Trash2, Route, MessageSquare, Paperclip, History, ListTree, CornerDownRight, Timer } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
 import { SearchableUserSelect } from '@/components/SearchableUserSelect';
 import { useToast } from '@/hooks/use-toast';
+import { useTaskDependencies } from '@/hooks/useTaskDependencies';
+import { useCriticalPath } from '@/hooks/useCriticalPath';
+import { useProjectWorkflow } from '@/hooks/useProjectWorkflow';
+import { formatFloat } from '@/lib/criticalPath';
+import { syncTaskAssignments } from '@/lib/taskAssignments';
+import { getProgressForStatus, getStatusCategory, getStatusForProgress, isTaskDoneStatus } from '@/lib/taskStatus';
+import { TaskStatusSelect } from '@/components/workflow/TaskStatusSelect';
+import { TaskComments } from './TaskComments';
+import { TaskAttachments } from './TaskAttachments';
+import { TaskActivityTimeline } from './TaskActivityTimeline';
+import { TaskTimeTracking } from './TaskTimeTracking';
+import { ConvertToSubtaskDialog } from './ConvertToSubtaskDialog';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -29,6 +44,14 @@ interface UserProfile {
   email: string;
 }
 
+interface RelatedTask {
+  id: string;
+  title: string;
+  status: string;
+  status_category: string | null;
+  progress_percentage: number | null;
+}
+
 interface TaskDetailDrawerProps {
   task: TaskWithProfile | null;
   open: boolean;
@@ -51,11 +74,18 @@ export function TaskDetailDrawer({
   canDelete = true
 }: TaskDetailDrawerProps) {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { rescheduleDependents } = useTaskDependencies(task?.project_id);
+  const { criticalPath } = useCriticalPath(open ? task?.project_id : undefined);
+  const { statuses } = useProjectWorkflow(task?.project_id);
   const [saving, setSaving] = useState(false);
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
   const [dataLoading, setDataLoading] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showConvertDialog, setShowConvertDialog] = useState(false);
+  const [subtasks, setSubtasks] = useState<RelatedTask[]>([]);
+  const [parentTask, setParentTask] = useState<RelatedTask | null>(null);
   const loadedTaskIdRef = useRef<string | null>(null);
   const [formData, setFormData] = useState({
     title: '',
@@ -112,16 +142,23 @@ export function TaskDetailDrawer({
           memberUserIds = [...new Set(memberIds)];
         }
 
-        const [usersResult, assignmentsResult] = await Promise.all([
+        const [usersResult, assignmentsResult, subtasksResult, parentResult] = await Promise.all([
           memberUserIds.length > 0
             ? supabase.from('profiles').select('id, full_name, email').in('id', memberUserIds).order('full_name')
             : supabase.from('profiles').select('id, full_name, email').order('full_name'),
-          supabase.from('task_assignments').select('user_id').eq('task_id', task.id)
+          supabase.from('task_assignments').select('user_id').eq('task_id', task.id),
+          supabase.from('tasks').select('id, title, status, status_category, progress_percentage').eq('parent_task_id', task.id).order('start_date'),
+          task.parent_task_id
+            ? supabase.from('tasks').select('id, title, status, status_category, progress_percentage').eq('id', task.parent_task_id).maybeSingle()
+            : Promise.resolve({ data: null }),
         ]);
 
         if (usersResult.error) throw usersResult.error;
         if (assignmentsResult.error) throw assignmentsResult.error;
 
+        setSubtasks(subtasksResult.data || []);
+        setParentTask(parentResult.data);
+
         setUsers(usersResult.data || []);
         const assignedIds = (assignmentsResult.data || []).map(a => a.user_id).filter(Boolean) as string[];
         setSelectedUserIds(assignedIds);
@@ -149,16 +186,8 @@ export function TaskDetailDrawer({
     setSaving(true);
     try {
       // Sync status with progress
-      let status = formData.status;
-      let progress = formData.progress_percentage;
-      
-      if (progress === 0 && status !== 'todo') {
-        status = 'todo';
-      } else if (progress > 0 && progress < 100 && status !== 'in_progress') {
-        status = 'in_progress';
-      } else if (progress === 100 && status !== 'done') {
-        status = 'done';
-      }
+      const progress = formData.progress_percentage;
+      const status = getStatusForProgress(progress, formData.status, getStatusCategory(formData.status, statuses, task.status_category));
 
       const { error } = await supabase
         .from('tasks')
@@ -171,34 +200,21 @@ export function TaskDetailDrawer({
           start_date: formData.start_date || null,
           due_date: formData.due_date || null,
           estimate_hours: formData.estimate_hours ? parseFloat(formData.estimate_hours) : null,
-          completed_at: status === 'done' ? new Date().toISOString() : null,
+          completed_at: getStatusCategory(status, statuses) === 'done' ? new Date().toISOString() : null,
         })
         .eq('id', task.id);
 
       if (error) throw error;
 
       // Update task assignments
-      const { error: deleteError } = await supabase
-        .from('task_assignments')
-        .delete()
-        .eq('task_id', task.id);
+      await syncTaskAssignments(task.id, selectedUserIds);
 
-      if (deleteError) throw deleteError;
-
-      if (selectedUserIds.length > 0) {
-        const assignments = selectedUserIds.map(userId => ({
-          task_id: task.id,
-          user_id: userId,
-        }));
-        
-        const { error: assignError } = await supabase
-          .from('task_assignments')
-          .insert(assignments);
+      toast({ title: 'Success', description: `Task updated with ${selectedUserIds.length} assigned user(s)` });
+      queryClient.invalidateQueries({ queryKey: ['task-activity', task.id] });
 
-        if (assignError) throw assignError;
+      if (formData.start_date !== (task.start_date || '') || formData.due_date !== (task.due_date || '')) {
+        await rescheduleDependents(task.id);
       }
-
-      toast({ title: 'Success', description: `Task updated with ${selectedUserIds.length} assigned user(s)` });
       
       // Call the appropriate callback
       if (onUpdate) {
@@ -226,21 +242,13 @@ export function TaskDetailDrawer({
 
   const handleProgressChange = (value: number[]) => {
     const progress = value[0];
-    let status = formData.status;
-    
-    if (progress === 0) status = 'todo';
-    else if (progress === 100) status = 'done';
-    else status = 'in_progress';
+    const status = getStatusForProgress(progress, formData.status, getStatusCategory(formData.status, statuses, task?.status_category));
     
     setFormData(prev => ({ ...prev, progress_percentage: progress, status }));
   };
 
   const handleStatusChange = (status: string) => {
-    let progress = formData.progress_percentage;
-    
-    if (status === 'todo') progress = 0;
-    else if (status === 'done') progress = 100;
-    else if (status === 'in_progress' && progress === 0) progress = 1;
+    const progress = getProgressForStatus(getStatusCategory(status, statuses), formData.progress_percentage);
     
     setFormData(prev => ({ ...prev, status, progress_percentage: progress }));
   };
@@ -273,7 +281,11 @@ export function TaskDetailDrawer({
     }
   };
 
-  const isOverdue = task?.due_date && task.status !== 'done' && new Date(task.due_date) < new Date();
+  // A parent's progress is rolled up from its subtasks, so it is not edited directly
+  const hasSubtasks = subtasks.length > 0;
+
+  const isOverdue = task?.due_date && !isTaskDoneStatus(task.status, task.status_category) && new Date(task.due_date) < new Date();
+  const schedule = task ? criticalPath?.schedules[task.id] : undefined;
 
   return (
     <>
@@ -283,206 +295,303 @@ export function TaskDetailDrawer({
           <SheetTitle className="flex items-center gap-2">
             Task Details
             {isOverdue && <Badge variant="destructive">Overdue</Badge>}
+            {schedule?.isCritical && (
+              <Badge variant="outline" className="border-orange-500 text-orange-600">Critical</Badge>
+            )}
           </SheetTitle>
           <SheetDescription>
             {canEdit ? 'Edit task details below' : 'View task details'}
           </SheetDescription>
         </SheetHeader>
 
-        <div className="space-y-6 py-6">
-          {/* Title */}
-          <div className="space-y-2">
-            <Label htmlFor="title">Title</Label>
-            <Input
-              id="title"
-              value={formData.title}
-              onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
-              disabled={!canEdit}
-            />
-          </div>
-
-          {/* Description */}
-          <div className="space-y-2">
-            <Label htmlFor="description">Description</Label>
-            <Textarea
-              id="description"
-              value={formData.description}
-              onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
-              disabled={!canEdit}
-              rows={3}
-            />
-          </div>
-
-          {/* Status & Priority */}
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label>Status</Label>
-              <Select 
-                value={formData.status} 
-                onValueChange={handleStatusChange}
-                disabled={!canEdit}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="todo">Not Started</SelectItem>
-                  <SelectItem value="in_progress">In Progress</SelectItem>
-                  <SelectItem value="review">Review</SelectItem>
-                  <SelectItem value="done">Completed</SelectItem>
-                  <SelectItem value="blocked">Blocked</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            <div className="space-y-2">
-              <Label>Priority</Label>
-              <Select 
-                value={formData.priority} 
-                onValueChange={(v) => setFormData(prev => ({ ...prev, priority: v }))}
-                disabled={!canEdit}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="low">Low</SelectItem>
-                  <SelectItem value="medium">Medium</SelectItem>
-                  <SelectItem value="high">High</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
-
-          {/* Progress */}
-          <div className="space-y-3">
-            <div className="flex items-center justify-between">
-              <Label className="flex items-center gap-2">
-                <Percent className="h-4 w-4" />
-                Progress
-              </Label>
-              <span className="text-lg font-semibold">{formData.progress_percentage}%</span>
-            </div>
-            <Slider
-              value={[formData.progress_percentage]}
-              onValueChange={handleProgressChange}
-              max={100}
-              step={1}
-              disabled={!canEdit}
-            />
-          </div>
-
-          {/* Dates */}
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label className="flex items-center gap-2">
-                <Calendar className="h-4 w-4" />
-                Start Date
-              </Label>
-              <Input
-                type="date"
-                value={formData.start_date}
-                onChange={(e) => setFormData(prev => ({ ...prev, start_date: e.target.value }))}
-                disabled={!canEdit}
-              />
-            </div>
-            <div className="space-y-2">
-              <Label className="flex items-center gap-2">
-                <Clock className="h-4 w-4" />
-                Due Date
-              </Label>
-              <Input
-                type="date"
-                value={formData.due_date}
-                onChange={(e) => setFormData(prev => ({ ...prev, due_date: e.target.value }))}
-                disabled={!canEdit}
-              />
-            </div>
-          </div>
-
-          {/* Estimate Hours */}
-          <div className="space-y-2">
-            <Label className="flex items-center gap-2">
-              <Clock className="h-4 w-4" />
-              Estimated Hours
-            </Label>
-            <Input
-              type="number"
-              value={formData.estimate_hours}
-              onChange={(e) => setFormData(prev => ({ ...prev, estimate_hours: e.target.value }))}
-              disabled={!canEdit}
-              placeholder="e.g., 8"
-            />
-          </div>
-
-          {/* Assigned Users - Editable with Search */}
-          <div className="space-y-2">
-            <Label className="flex items-center gap-2">
-              <User className="h-4 w-4" />
-              Assign To (Multiple Users)
-            </Label>
-            {dataLoading ? (
-              <div className="flex items-center gap-2 text-muted-foreground">
-                <Loader2 className="h-4 w-4 animate-spin" />
-                <span className="text-sm">Loading users...</span>
+        <Tabs defaultValue="details" className="pt-4">
+          <TabsList className="grid w-full grid-cols-5">
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="comments" className="gap-2">
+              <MessageSquare className="h-4 w-4" />
+              Comments
+            </TabsTrigger>
+            <TabsTrigger value="attachments" className="gap-2">
+              <Paperclip className="h-4 w-4" />
+              Files
+            </TabsTrigger>
+            <TabsTrigger value="time" className="gap-2">
+              <Timer className="h-4 w-4" />
+              Time
+            </TabsTrigger>
+            <TabsTrigger value="history" className="gap-2">
+              <History className="h-4 w-4" />
+              History
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details">
+            <div className="space-y-6 py-6">
+              {/* Title */}
+              <div className="space-y-2">
+                <Label htmlFor="title">Title</Label>
+                <Input
+                  id="title"
+                  value={formData.title}
+                  onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+                  disabled={!canEdit}
+                />
+              </div>
+
+              {/* Description */}
+              <div className="space-y-2">
+                <Label htmlFor="description">Description</Label>
+                <Textarea
+                  id="description"
+                  value={formData.description}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  disabled={!canEdit}
+                  rows={3}
+                />
+              </div>
+
+              {/* Status & Priority */}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Status</Label>
+                  <TaskStatusSelect
+                    projectId={task?.project_id}
+                    value={formData.status}
+                    category={formData.status === task?.status ? task?.status_category : undefined}
+                    onChange={handleStatusChange}
+                    disabled={!canEdit}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Priority</Label>
+                  <Select 
+                    value={formData.priority} 
+                    onValueChange={(v) => setFormData(prev => ({ ...prev, priority: v }))}
+                    disabled={!canEdit}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="low">Low</SelectItem>
+                      <SelectItem value="medium">Medium</SelectItem>
+                      <SelectItem value="high">High</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
-            ) : canEdit ? (
-              <SearchableUserSelect
-                users={users}
-                selectedUserIds={selectedUserIds}
-                onSelectionChange={setSelectedUserIds}
-                placeholder="Search by name or email..."
-              />
-            ) : (
-              <div className="border rounded-md p-3 space-y-2 max-h-48 overflow-y-auto bg-background">
-                {users.filter(u => selectedUserIds.includes(u.id)).map((user) => (
-                  <div key={user.id} className="flex items-center gap-3 p-2 rounded">
-                    <span className="text-sm">{user.full_name || user.email}</span>
+
+              {/* Progress */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label className="flex items-center gap-2">
+                    <Percent className="h-4 w-4" />
+                    Progress
+                  </Label>
+                  <span className="text-lg font-semibold">{formData.progress_percentage}%</span>
+                </div>
+                <Slider
+                  value={[formData.progress_percentage]}
+                  onValueChange={handleProgressChange}
+                  max={100}
+                  step={1}
+                  disabled={!canEdit || hasSubtasks}
+                />
+                {hasSubtasks && (
+                  <p className="text-xs text-muted-foreground">Rolled up from subtasks, weighted by estimated hours</p>
+                )}
+              </div>
+
+              {/* Dates */}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-2">
+                    <Calendar className="h-4 w-4" />
+                    Start Date
+                  </Label>
+                  <Input
+                    type="date"
+                    value={formData.start_date}
+                    onChange={(e) => setFormData(prev => ({ ...prev, start_date: e.target.value }))}
+                    disabled={!canEdit}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-2">
+                    <Clock className="h-4 w-4" />
+                    Due Date
+                  </Label>
+                  <Input
+                    type="date"
+                    value={formData.due_date}
+                    onChange={(e) => setFormData(prev => ({ ...prev, due_date: e.target.value }))}
+                    disabled={!canEdit}
+                  />
+                </div>
+              </div>
+
+              {/* Schedule Float */}
+              {schedule && (
+                <div className={`rounded-md border p-3 space-y-1 ${schedule.isCritical ? 'border-orange-500/40 bg-orange-500/5' : 'bg-muted/30'}`}>
+                  <Label className="flex items-center gap-2">
+                    <Route className={`h-4 w-4 ${schedule.isCritical ? 'text-orange-500' : ''}`} />
+                    Total Float
+                  </Label>
+                  <p className="text-sm font-semibold">{formatFloat(schedule.totalFloat)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Earliest start {format(parseISO(schedule.earliestStart), 'MMM d')} · Latest start {format(parseISO(schedule.latestStart), 'MMM d')} · Latest finish {format(parseISO(schedule.latestFinish), 'MMM d')}
+                  </p>
+                </div>
+              )}
+
+              {/* Estimate Hours */}
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <Clock className="h-4 w-4" />
+                  Estimated Hours
+                </Label>
+                <Input
+                  type="number"
+                  value={formData.estimate_hours}
+                  onChange={(e) => setFormData(prev => ({ ...prev, estimate_hours: e.target.value }))}
+                  disabled={!canEdit}
+                  placeholder="e.g., 8"
+                />
+              </div>
+
+              {/* Assigned Users - Editable with Search */}
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <User className="h-4 w-4" />
+                  Assign To (Multiple Users)
+                </Label>
+                {dataLoading ? (
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    <span className="text-sm">Loading users...</span>
+                  </div>
+                ) : canEdit ? (
+                  <SearchableUserSelect
+                    users={users}
+                    selectedUserIds={selectedUserIds}
+                    onSelectionChange={setSelectedUserIds}
+                    placeholder="Search by name or email..."
+                  />
+                ) : (
+                  <div className="border rounded-md p-3 space-y-2 max-h-48 overflow-y-auto bg-background">
+                    {users.filter(u => selectedUserIds.includes(u.id)).map((user) => (
+                      <div key={user.id} className="flex items-center gap-3 p-2 rounded">
+                        <span className="text-sm">{user.full_name || user.email}</span>
+                      </div>
+                    ))}
+                    {selectedUserIds.length === 0 && (
+                      <p className="text-sm text-muted-foreground">No users assigned</p>
+                    )}
                   </div>
-                ))}
-                {selectedUserIds.length === 0 && (
-                  <p className="text-sm text-muted-foreground">No users assigned</p>
                 )}
               </div>
-            )}
-          </div>
 
-          {/* Brief */}
-          {task?.element_name && (
-            <div className="space-y-2">
-              <Label>Brief</Label>
-              <Badge variant="outline">{task.element_name}</Badge>
-            </div>
-          )}
-
-          {/* Actions */}
-          {canEdit && (
-            <div className="flex justify-between pt-4">
-              {canDelete && (
-                <Button
-                  variant="destructive"
-                  onClick={() => setShowDeleteDialog(true)}
-                  disabled={saving}
-                >
-                  <Trash2 className="h-4 w-4 mr-2" />
-                  Delete
-                </Button>
+              {/* Brief */}
+              {task?.element_name && (
+                <div className="space-y-2">
+                  <Label>Brief</Label>
+                  <Badge variant="outline">{task.element_name}</Badge>
+                </div>
               )}
-              <div className="flex gap-2 ml-auto">
-                <Button variant="outline" onClick={() => onOpenChange(false)}>
-                  <X className="h-4 w-4 mr-2" />
-                  Cancel
-                </Button>
-                <Button onClick={handleSave} disabled={saving}>
-                  {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
-                  {saving ? 'Saving...' : 'Save Changes'}
-                </Button>
+
+              {/* Subtask hierarchy */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="flex items-center gap-2">
+                    <ListTree className="h-4 w-4" />
+                    Subtasks
+                  </Label>
+                  {canEdit && task?.project_id && (
+                    <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setShowConvertDialog(true)}>
+                      <CornerDownRight className="h-3.5 w-3.5 mr-1" />
+                      {task.parent_task_id ? 'Change Parent' : 'Convert to Subtask'}
+                    </Button>
+                  )}
+                </div>
+                {parentTask && (
+                  <p className="text-sm text-muted-foreground">
+                    Subtask of <span className="font-medium text-foreground">{parentTask.title}</span>
+                  </p>
+                )}
+                {hasSubtasks ? (
+                  <div className="border rounded-md divide-y">
+                    {subtasks.map(subtask => (
+                      <div key={subtask.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                        <CornerDownRight className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                        <span className={`flex-1 truncate ${isTaskDoneStatus(subtask.status, subtask.status_category) ? 'line-through text-muted-foreground' : ''}`}>
+                          {subtask.title}
+                        </span>
+                        <span className="text-xs text-muted-foreground">{subtask.progress_percentage || 0}%</span>
+                      </div>
+                    ))}
+                  </div>
+                ) : !parentTask && (
+                  <p className="text-sm text-muted-foreground">No subtasks</p>
+                )}
               </div>
+
+              {/* Actions */}
+              {canEdit && (
+                <div className="flex justify-between pt-4">
+                  {canDelete && (
+                    <Button
+                      variant="destructive"
+                      onClick={() => setShowDeleteDialog(true)}
+                      disabled={saving}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </Button>
+                  )}
+                  <div className="flex gap-2 ml-auto">
+                    <Button variant="outline" onClick={() => onOpenChange(false)}>
+                      <X className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                    <Button onClick={handleSave} disabled={saving}>
+                      {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                      {saving ? 'Saving...' : 'Save Changes'}
+                    </Button>
+                  </div>
+                </div>
+              )}
             </div>
-          )}
-        </div>
+          </TabsContent>
+
+          <TabsContent value="comments" className="py-4">
+            {task && <TaskComments taskId={task.id} members={users} />}
+          </TabsContent>
+
+          <TabsContent value="attachments" className="py-4">
+            {task && <TaskAttachments task={task} canEdit={canEdit} />}
+          </TabsContent>
+
+          <TabsContent value="time" className="py-4">
+            {task && <TaskTimeTracking task={task} onTimeLogged={onTaskUpdated} />}
+          </TabsContent>
+
+          <TabsContent value="history" className="py-4">
+            {task && <TaskActivityTimeline taskId={task.id} />}
+          </TabsContent>
+        </Tabs>
       </SheetContent>
     </Sheet>
 
+    <ConvertToSubtaskDialog
+      task={task}
+      open={showConvertDialog}
+      onOpenChange={setShowConvertDialog}
+      onConverted={() => {
+        onTaskUpdated?.();
+        onOpenChange(false);
+      }}
+    />
+
     <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
       <AlertDialogContent>
         <AlertDialogHeader>
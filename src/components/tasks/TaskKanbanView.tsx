@@ -1,21 +1,28 @@
 import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Clock, Edit, User, GripVertical } from 'lucide-react';
+import { Clock, Edit, User, GripVertical, Paperclip, Loader2 } from 'lucide-react';
 import { Slider } from '@/components/ui/slider';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useUserRole } from '@/hooks/useUserRole';
+import { uploadTaskAttachment } from '@/hooks/useTaskAttachments';
+import { TaskLabelChips } from '@/components/labels/TaskLabelChips';
+import {
+  DEFAULT_WORKFLOW_STATUSES,
+  canTransitionStatus,
+  getStatusForProgress,
+  isTaskDoneStatus,
+  normalizeTaskStatus,
+  resolveWorkflowStatus,
+} from '@/lib/taskStatus';
 import type { TaskViewProps, TaskWithProfile } from './types';
 
-const COLUMNS = [
-  { id: 'todo', label: 'Not Started', color: 'bg-gray-500' },
-  { id: 'in_progress', label: 'In Progress', color: 'bg-blue-500' },
-  { id: 'review', label: 'Review', color: 'bg-yellow-500' },
-  { id: 'done', label: 'Completed', color: 'bg-green-500' },
-  { id: 'blocked', label: 'Blocked', color: 'bg-red-500' },
-];
-
 export function TaskKanbanView({ 
   tasks, 
+  statuses = DEFAULT_WORKFLOW_STATUSES,
   onStatusUpdate,
   onProgressUpdate,
   onEditTask,
@@ -24,9 +31,17 @@ export function TaskKanbanView({
 }: TaskViewProps) {
   const [draggedTask, setDraggedTask] = useState<TaskWithProfile | null>(null);
   const [dragOverColumn, setDragOverColumn] = useState<string | null>(null);
+  const [fileDropTaskId, setFileDropTaskId] = useState<string | null>(null);
+  const [uploadingTaskId, setUploadingTaskId] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { isAdmin, isProjectManager } = useUserRole();
+  const queryClient = useQueryClient();
 
+  // Tasks whose status is not a column (e.g. from another project's workflow)
+  // sit in the first column of the same category
   const getTasksByStatus = (status: string) => {
-    return tasks.filter(task => task.status === status);
+    return tasks.filter(task => resolveWorkflowStatus(task.status, statuses, task.status_category)?.key === status);
   };
 
   const handleDragStart = (e: React.DragEvent, task: TaskWithProfile) => {
@@ -35,8 +50,11 @@ export function TaskKanbanView({
     e.dataTransfer.effectAllowed = 'move';
   };
 
+  const isFileDrag = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+
   const handleDragOver = (e: React.DragEvent, columnId: string) => {
     e.preventDefault();
+    if (isFileDrag(e)) return;
     setDragOverColumn(columnId);
   };
 
@@ -48,26 +66,76 @@ export function TaskKanbanView({
     e.preventDefault();
     setDragOverColumn(null);
     
-    if (draggedTask && draggedTask.status !== newStatus) {
+    if (draggedTask && resolveWorkflowStatus(draggedTask.status, statuses, draggedTask.status_category)?.key !== newStatus) {
+      if (!isAdmin && !isProjectManager && !canTransitionStatus(statuses, draggedTask.status, newStatus)) {
+        toast({
+          title: 'Not allowed',
+          description: "This project's workflow doesn't allow that move",
+          variant: 'destructive',
+        });
+        setDraggedTask(null);
+        return;
+      }
+
       onStatusUpdate(draggedTask.id, newStatus);
-      // Auto-adjust progress when moving between columns
-      if (newStatus === 'done') {
+      // Auto-adjust progress when moving between categories
+      const category = resolveWorkflowStatus(newStatus, statuses)?.category;
+      if (category === 'done') {
         onProgressUpdate(draggedTask.id, 100);
-      } else if (newStatus === 'in_progress' && draggedTask.status === 'done') {
+      } else if (category === 'in_progress' && isTaskDoneStatus(draggedTask.status, draggedTask.status_category)) {
         onProgressUpdate(draggedTask.id, 99);
       }
     }
     setDraggedTask(null);
   };
 
-  const handleProgressChange = (taskId: string, currentStatus: string, newProgress: number) => {
-    onProgressUpdate(taskId, newProgress);
+  // Files dropped onto a card are attached to that task instead of moving it
+  const handleCardFileDragOver = (e: React.DragEvent, taskId: string) => {
+    if (!canEdit || !isFileDrag(e)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = 'copy';
+    setFileDropTaskId(taskId);
+  };
+
+  const handleCardFileDrop = async (e: React.DragEvent, task: TaskWithProfile) => {
+    if (!canEdit || !isFileDrag(e)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setFileDropTaskId(null);
+
+    const files = Array.from(e.dataTransfer.files);
+    if (!user || files.length === 0) return;
+
+    setUploadingTaskId(task.id);
+    try {
+      for (const file of files) {
+        await uploadTaskAttachment(task, file, user.id);
+      }
+      toast({
+        title: `${files.length} attachment${files.length !== 1 ? 's' : ''} added`,
+        description: task.title,
+      });
+      queryClient.invalidateQueries({ queryKey: ['task-attachments', task.id] });
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to upload attachment',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploadingTaskId(null);
+    }
+  };
+
+  const handleProgressChange = (task: TaskWithProfile, newProgress: number) => {
+    onProgressUpdate(task.id, newProgress);
     
     // Auto-update status based on progress
-    if (newProgress === 100 && currentStatus !== 'done') {
-      onStatusUpdate(taskId, 'done');
-    } else if (newProgress < 100 && currentStatus === 'done') {
-      onStatusUpdate(taskId, 'in_progress');
+    const isDone = isTaskDoneStatus(task.status, task.status_category);
+    if ((newProgress === 100) !== isDone) {
+      onStatusUpdate(task.id, getStatusForProgress(newProgress, task.status, task.status_category));
     }
   };
 
@@ -80,49 +148,55 @@ export function TaskKanbanView({
     }
   };
 
-  const isOverdue = (dueDate: string, status: string) => {
-    if (!dueDate || status === 'done') return false;
-    return new Date(dueDate) < new Date();
+  const isOverdue = (task: TaskWithProfile) => {
+    if (!task.due_date || isTaskDoneStatus(task.status, task.status_category)) return false;
+    return new Date(task.due_date) < new Date();
   };
 
   return (
     <div className="flex flex-col h-[calc(100vh-280px)] min-h-[400px]">
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 flex-1 overflow-hidden">
-        {COLUMNS.map(column => (
+        {statuses.map(column => (
           <div
-            key={column.id}
+            key={column.key}
             className={`flex flex-col rounded-lg border-2 transition-colors overflow-hidden ${
-              dragOverColumn === column.id 
+              dragOverColumn === column.key 
                 ? 'border-primary bg-primary/5' 
                 : 'border-transparent bg-muted/30'
             }`}
-            onDragOver={(e) => handleDragOver(e, column.id)}
+            onDragOver={(e) => handleDragOver(e, column.key)}
             onDragLeave={handleDragLeave}
-            onDrop={(e) => handleDrop(e, column.id)}
+            onDrop={(e) => handleDrop(e, column.key)}
           >
             <div className="p-4 border-b bg-background/50">
               <div className="flex items-center gap-2">
-                <div className={`w-3 h-3 rounded-full ${column.color}`} />
+                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: column.color }} />
                 <h3 className="font-semibold">{column.label}</h3>
                 <Badge variant="outline" className="ml-auto">
-                  {getTasksByStatus(column.id).length}
+                  {getTasksByStatus(column.key).length}
                 </Badge>
               </div>
             </div>
 
             <div className="flex-1 overflow-y-auto p-4 space-y-3">
-              {getTasksByStatus(column.id).map(task => {
-                const taskOverdue = isOverdue(task.due_date, task.status);
-                const progress = task.progress_percentage ?? (task.status === 'done' ? 100 : task.status === 'in_progress' ? 50 : 0);
+              {getTasksByStatus(column.key).map(task => {
+                const taskOverdue = isOverdue(task);
+                const category = normalizeTaskStatus(task.status, task.status_category);
+                const progress = task.progress_percentage ?? (category === 'done' ? 100 : category === 'in_progress' ? 50 : 0);
 
                 return (
                   <Card
                     key={task.id}
                     draggable={canEdit}
                     onDragStart={(e) => handleDragStart(e, task)}
+                    onDragOver={(e) => handleCardFileDragOver(e, task.id)}
+                    onDragLeave={() => setFileDropTaskId(null)}
+                    onDrop={(e) => handleCardFileDrop(e, task)}
                     className={`cursor-grab active:cursor-grabbing transition-all hover:shadow-md ${
                       draggedTask?.id === task.id ? 'opacity-50 scale-95' : ''
-                    } ${taskOverdue ? 'border-destructive' : ''}`}
+                    } ${taskOverdue ? 'border-destructive' : ''} ${
+                      fileDropTaskId === task.id ? 'ring-2 ring-primary ring-offset-1' : ''
+                    }`}
                   >
                     <CardContent className="p-3">
                       <div className="space-y-2">
@@ -171,6 +245,8 @@ export function TaskKanbanView({
                           )}
                         </div>
 
+                        <TaskLabelChips labels={task.labels} projectId={task.project_id} max={4} />
+
                         {/* Interactive Progress slider */}
                         <div className="space-y-1" onClick={(e) => e.stopPropagation()}>
                           <div className="flex justify-between text-xs text-muted-foreground">
@@ -180,7 +256,7 @@ export function TaskKanbanView({
                           {canEdit ? (
                             <Slider
                               value={[progress]}
-                              onValueChange={(value) => handleProgressChange(task.id, task.status, value[0])}
+                              onValueChange={(value) => handleProgressChange(task, value[0])}
                               max={100}
                               step={10}
                               className="h-2 cursor-pointer"
@@ -209,13 +285,21 @@ export function TaskKanbanView({
                               <span>{task.assigned_users.length}</span>
                             </div>
                           )}
+                          {(fileDropTaskId === task.id || uploadingTaskId === task.id) && (
+                            <div className="flex items-center gap-1 text-primary">
+                              {uploadingTaskId === task.id
+                                ? <Loader2 className="h-3 w-3 animate-spin" />
+                                : <Paperclip className="h-3 w-3" />}
+                              <span>{uploadingTaskId === task.id ? 'Uploading...' : 'Drop to attach'}</span>
+                            </div>
+                          )}
                         </div>
                       </div>
                     </CardContent>
                   </Card>
                 );
               })}
-              {getTasksByStatus(column.id).length === 0 && (
+              {getTasksByStatus(column.key).length === 0 && (
                 <div className="text-center text-muted-foreground text-sm py-8">
                   No tasks
                 </div>
@@ -2,9 +2,12 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Clock, Percent, Edit } from 'lucide-react';
+import { Clock, Percent, Edit, CornerDownRight, ListTree, Repeat } from 'lucide-react';
+import { flattenTaskTree, type TaskTreeRow } from '@/lib/subtasks';
+import { TaskLabelChips } from '@/components/labels/TaskLabelChips';
+import { TaskStatusSelect } from '@/components/workflow/TaskStatusSelect';
+import { getStatusLabel, isTaskDoneStatus, normalizeTaskStatus } from '@/lib/taskStatus';
 import type { TaskViewProps, TaskWithProfile } from './types';
 import { useMemo } from 'react';
 
@@ -20,11 +23,26 @@ interface GroupedTasks {
   tasks: TaskWithProfile[];
 }
 
+interface TaskCardEntry {
+  task: TaskWithProfile;
+  subtasks: TaskTreeRow<TaskWithProfile>[];
+}
+
+// One card per top-level task, with its nested subtasks listed inside it
+const toTaskCards = (tasks: TaskWithProfile[]): TaskCardEntry[] =>
+  flattenTaskTree(tasks).reduce((cards, row) => {
+    if (row.depth === 0) cards.push({ task: row.task, subtasks: [] });
+    else cards[cards.length - 1].subtasks.push(row);
+    return cards;
+  }, [] as TaskCardEntry[]);
+
 export function TaskListView({ 
   tasks, 
+  statuses,
   onStatusUpdate,
   onProgressUpdate,
   onEditTask,
+  onConvertToSubtask,
   canEdit = true,
   showProject = false,
   groupByElement = true
@@ -56,14 +74,14 @@ export function TaskListView({
     }, [] as GroupedTasks[]);
   }, [tasks, groupByElement]);
 
-  const isOverdue = (dueDate: string | null, status: string) => {
-    if (!dueDate || status === 'done') return false;
-    return new Date(dueDate) < new Date();
+  const isOverdue = (task: TaskWithProfile) => {
+    if (!task.due_date || isTaskDoneStatus(task.status, task.status_category)) return false;
+    return new Date(task.due_date) < new Date();
   };
 
-  const getStatusColor = (status: string, isTaskOverdue: boolean = false) => {
+  const getStatusColor = (task: TaskWithProfile, isTaskOverdue: boolean = false) => {
     if (isTaskOverdue) return 'bg-destructive text-destructive-foreground';
-    switch (status) {
+    switch (normalizeTaskStatus(task.status, task.status_category)) {
       case 'todo': return 'bg-secondary text-secondary-foreground';
       case 'in_progress': return 'bg-primary text-primary-foreground';
       case 'review': return 'bg-yellow-500 text-white';
@@ -98,8 +116,9 @@ export function TaskListView({
           <CardContent className="p-0">
             <ScrollArea className="w-full">
               <div className="flex gap-4 p-4 overflow-x-auto min-h-[200px] max-h-[calc(100vh-320px)]">
-                {group.tasks.map((task) => {
-                  const taskOverdue = isOverdue(task.due_date, task.status);
+                {toTaskCards(group.tasks).map(({ task, subtasks }) => {
+                  const taskOverdue = isOverdue(task);
+                  const isParent = subtasks.length > 0;
                   return (
                     <Card 
                       key={task.id} 
@@ -111,8 +130,22 @@ export function TaskListView({
                         <div className="flex items-start justify-between gap-2">
                           <CardTitle className="text-base line-clamp-2">
                             {task.title}
+                            {task.recurrence_id && (
+                              <Repeat className="inline h-3.5 w-3.5 ml-1.5 text-muted-foreground" aria-label="Recurring task" />
+                            )}
                           </CardTitle>
                           <div className="flex items-center gap-2 flex-shrink-0">
+                            {onConvertToSubtask && canEdit && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-7 w-7"
+                                title="Convert to subtask"
+                                onClick={() => onConvertToSubtask(task)}
+                              >
+                                <CornerDownRight className="h-4 w-4" />
+                              </Button>
+                            )}
                             {onEditTask && (
                               <Button
                                 size="icon"
@@ -123,8 +156,8 @@ export function TaskListView({
                                 <Edit className="h-4 w-4" />
                               </Button>
                             )}
-                            <Badge className={getStatusColor(task.status, taskOverdue)}>
-                              {taskOverdue ? 'Overdue' : task.status === 'in_progress' ? 'In Progress' : task.status === 'done' ? 'Completed' : task.status === 'review' ? 'Review' : task.status === 'blocked' ? 'Blocked' : 'Not Started'}
+                            <Badge className={getStatusColor(task, taskOverdue)}>
+                              {taskOverdue ? 'Overdue' : getStatusLabel(task.status, statuses)}
                             </Badge>
                           </div>
                         </div>
@@ -146,6 +179,8 @@ export function TaskListView({
                           </Badge>
                         </div>
 
+                        <TaskLabelChips labels={task.labels} projectId={task.project_id} />
+
                         {task.due_date && (
                           <div className={`flex items-center gap-2 text-xs ${
                             taskOverdue ? 'text-destructive font-medium' : 'text-muted-foreground'
@@ -163,7 +198,10 @@ export function TaskListView({
                             </div>
                             <span className="font-medium text-base">{task.progress_percentage || 0}%</span>
                           </div>
-                          {onProgressUpdate && canEdit && (
+                          {isParent && (
+                            <p className="text-[11px] text-muted-foreground">Rolled up from subtasks</p>
+                          )}
+                          {onProgressUpdate && canEdit && !isParent && (
                             <Slider
                               value={[task.progress_percentage || 0]}
                               onValueChange={(value) => onProgressUpdate(task.id, value[0])}
@@ -175,21 +213,37 @@ export function TaskListView({
                         </div>
 
                         {onStatusUpdate && canEdit && (
-                          <Select
+                          <TaskStatusSelect
+                            projectId={task.project_id}
                             value={task.status}
-                            onValueChange={(value) => onStatusUpdate(task.id, value)}
-                          >
-                            <SelectTrigger className="w-full">
-                              <SelectValue />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="todo">Not Started (0%)</SelectItem>
-                              <SelectItem value="in_progress">In Progress (1-99%)</SelectItem>
-                              <SelectItem value="review">Review</SelectItem>
-                              <SelectItem value="done">Completed (100%)</SelectItem>
-                              <SelectItem value="blocked">Blocked</SelectItem>
-                            </SelectContent>
-                          </Select>
+                            category={task.status_category}
+                            onChange={(value) => onStatusUpdate(task.id, value)}
+                            className="w-full"
+                          />
+                        )}
+
+                        {isParent && (
+                          <div className="space-y-1.5 border-t pt-3">
+                            <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                              <ListTree className="h-3 w-3" />
+                              Subtasks ({subtasks.length})
+                            </div>
+                            {subtasks.map(({ task: subtask, depth }) => (
+                              <div
+                                key={subtask.id}
+                                className={`flex items-center gap-2 rounded px-1.5 py-1 text-xs hover:bg-muted/50 ${onEditTask ? 'cursor-pointer' : ''}`}
+                                style={{ paddingLeft: (depth - 1) * 14 + 6 }}
+                                onClick={() => onEditTask?.(subtask)}
+                              >
+                                <CornerDownRight className="h-3 w-3 shrink-0 text-muted-foreground" />
+                                <span className={`h-2 w-2 shrink-0 rounded-full ${getStatusColor(subtask, isOverdue(subtask)).split(' ')[0]}`} />
+                                <span className={`truncate flex-1 ${isTaskDoneStatus(subtask.status, subtask.status_category) ? 'line-through text-muted-foreground' : ''}`}>
+                                  {subtask.title}
+                                </span>
+                                <span className="text-muted-foreground shrink-0">{subtask.progress_percentage || 0}%</span>
+                              </div>
+                            ))}
+                          </div>
                         )}
                       </CardContent>
                     </Card>
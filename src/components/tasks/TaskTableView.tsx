@@ -6,7 +6,11 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Edit, Trash2, ChevronUp, ChevronDown } from 'lucide-react';
+import { Edit, Trash2, ChevronUp, ChevronDown, ChevronRight, CornerDownRight, Repeat } from 'lucide-react';
+import { flattenTaskTree } from '@/lib/subtasks';
+import { TaskLabelChips } from '@/components/labels/TaskLabelChips';
+import { TaskStatusSelect } from '@/components/workflow/TaskStatusSelect';
+import { getStatusLabel, isTaskDoneStatus, normalizeTaskStatus } from '@/lib/taskStatus';
 import type { TaskViewProps, TaskWithProfile } from './types';
 
 type SortField = 'title' | 'status' | 'priority' | 'due_date' | 'progress_percentage';
@@ -14,11 +18,13 @@ type SortDirection = 'asc' | 'desc';
 
 export function TaskTableView({ 
   tasks, 
+  statuses,
   onStatusUpdate, 
   onProgressUpdate,
   onDateUpdate,
   onEditTask,
   onDeleteTask,
+  onConvertToSubtask,
   canEdit = true,
   canDelete = false,
   showProject = false
@@ -27,6 +33,7 @@ export function TaskTableView({
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
   const [selectedTasks, setSelectedTasks] = useState<Set<string>>(new Set());
   const [editingCell, setEditingCell] = useState<{ taskId: string; field: string } | null>(null);
+  const [collapsedParents, setCollapsedParents] = useState<Set<string>>(new Set());
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -54,6 +61,18 @@ export function TaskTableView({
     return sortDirection === 'asc' ? comparison : -comparison;
   });
 
+  // Subtasks sit directly below their parent, sorted among their siblings
+  const taskRows = flattenTaskTree(sortedTasks, collapsedParents);
+
+  const toggleCollapsed = (taskId: string) => {
+    setCollapsedParents(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) next.delete(taskId);
+      else next.add(taskId);
+      return next;
+    });
+  };
+
   const toggleSelectAll = () => {
     if (selectedTasks.size === tasks.length) {
       setSelectedTasks(new Set());
@@ -81,8 +100,8 @@ export function TaskTableView({
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
+  const getStatusColor = (task: TaskWithProfile) => {
+    switch (normalizeTaskStatus(task.status, task.status_category)) {
       case 'done': return 'bg-green-500';
       case 'in_progress': return 'bg-blue-500';
       case 'review': return 'bg-yellow-500';
@@ -92,9 +111,9 @@ export function TaskTableView({
     }
   };
 
-  const isOverdue = (dueDate: string, status: string) => {
-    if (!dueDate || status === 'done') return false;
-    return new Date(dueDate) < new Date();
+  const isOverdue = (task: TaskWithProfile) => {
+    if (!task.due_date || isTaskDoneStatus(task.status, task.status_category)) return false;
+    return new Date(task.due_date) < new Date();
   };
 
   const SortIcon = ({ field }: { field: SortField }) => {
@@ -167,20 +186,22 @@ export function TaskTableView({
               </div>
             </TableHead>
             <TableHead className="w-24">Assignees</TableHead>
-            <TableHead className="w-20">Actions</TableHead>
+            <TableHead className="w-28">Actions</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
-          {sortedTasks.length === 0 ? (
+          {taskRows.length === 0 ? (
             <TableRow>
               <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
                 No tasks found
               </TableCell>
             </TableRow>
           ) : (
-            sortedTasks.map(task => {
-              const taskOverdue = isOverdue(task.due_date, task.status);
+            taskRows.map(({ task, depth, childCount }) => {
+              const taskOverdue = isOverdue(task);
               const progress = task.progress_percentage ?? 0;
+              // A parent's progress is rolled up from its subtasks
+              const isParent = childCount > 0;
 
               return (
                 <TableRow 
@@ -194,40 +215,55 @@ export function TaskTableView({
                     />
                   </TableCell>
                   <TableCell>
-                    <div className="flex flex-col">
-                      <span className="font-medium">{task.title}</span>
-                      {task.element_name && (
-                        <span className="text-xs text-muted-foreground">{task.element_name}</span>
-                      )}
-                      {showProject && task.projects && (
-                        <span className="text-xs text-muted-foreground">{task.projects.name}</span>
-                      )}
+                    <div className="flex items-start gap-1" style={{ paddingLeft: depth * 20 }}>
+                      {isParent ? (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-5 w-5 shrink-0"
+                          onClick={() => toggleCollapsed(task.id)}
+                          aria-label={collapsedParents.has(task.id) ? 'Show subtasks' : 'Hide subtasks'}
+                        >
+                          {collapsedParents.has(task.id) ? <ChevronRight className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+                        </Button>
+                      ) : depth > 0 ? (
+                        <CornerDownRight className="h-3.5 w-3.5 mt-0.5 shrink-0 text-muted-foreground" />
+                      ) : null}
+                      <div className="flex flex-col">
+                        <span className="font-medium">
+                          {task.title}
+                          {task.recurrence_id && (
+                            <Repeat className="inline h-3 w-3 ml-1.5 text-muted-foreground" aria-label="Recurring task" />
+                          )}
+                          {isParent && (
+                            <Badge variant="secondary" className="ml-2 text-[10px] px-1.5 py-0">
+                              {childCount} subtask{childCount !== 1 ? 's' : ''}
+                            </Badge>
+                          )}
+                        </span>
+                        {task.element_name && (
+                          <span className="text-xs text-muted-foreground">{task.element_name}</span>
+                        )}
+                        {showProject && task.projects && (
+                          <span className="text-xs text-muted-foreground">{task.projects.name}</span>
+                        )}
+                        <TaskLabelChips labels={task.labels} projectId={task.project_id} className="mt-1" />
+                      </div>
                     </div>
                   </TableCell>
                   <TableCell>
                     {canEdit ? (
-                      <Select 
-                        value={task.status} 
-                        onValueChange={(value) => onStatusUpdate(task.id, value)}
-                      >
-                        <SelectTrigger className="h-8 text-xs">
-                          <div className="flex items-center gap-2">
-                            <div className={`w-2 h-2 rounded-full ${getStatusColor(task.status)}`} />
-                            <SelectValue />
-                          </div>
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="todo">Not Started</SelectItem>
-                          <SelectItem value="in_progress">In Progress</SelectItem>
-                          <SelectItem value="review">Review</SelectItem>
-                          <SelectItem value="done">Completed</SelectItem>
-                          <SelectItem value="blocked">Blocked</SelectItem>
-                        </SelectContent>
-                      </Select>
+                      <TaskStatusSelect
+                        projectId={task.project_id}
+                        value={task.status}
+                        category={task.status_category}
+                        onChange={(value) => onStatusUpdate(task.id, value)}
+                        className="h-8 text-xs"
+                      />
                     ) : (
                       <div className="flex items-center gap-2">
-                        <div className={`w-2 h-2 rounded-full ${getStatusColor(task.status)}`} />
-                        <span className="text-sm capitalize">{task.status.replace('_', ' ')}</span>
+                        <div className={`w-2 h-2 rounded-full ${getStatusColor(task)}`} />
+                        <span className="text-sm">{getStatusLabel(task.status, statuses)}</span>
                       </div>
                     )}
                   </TableCell>
@@ -255,7 +291,7 @@ export function TaskTableView({
                     )}
                   </TableCell>
                   <TableCell>
-                    {canEdit ? (
+                    {canEdit && !isParent ? (
                       <div className="flex items-center gap-2">
                         <Slider
                           value={[progress]}
@@ -267,7 +303,7 @@ export function TaskTableView({
                         <span className="text-xs w-8">{progress}%</span>
                       </div>
                     ) : (
-                      <span className="text-sm">{progress}%</span>
+                      <span className="text-sm" title={isParent ? 'Rolled up from subtasks' : undefined}>{progress}%</span>
                     )}
                   </TableCell>
                   <TableCell>
@@ -326,6 +362,17 @@ export function TaskTableView({
                           <Edit className="h-3.5 w-3.5" />
                         </Button>
                       )}
+                      {canEdit && onConvertToSubtask && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title="Convert to subtask"
+                          onClick={() => onConvertToSubtask(task)}
+                        >
+                          <CornerDownRight className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
                       {canDelete && onDeleteTask && (
                         <Button
                           variant="ghost"
@@ -0,0 +1,221 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Clock, Loader2, Lock, Play, Plus, Square, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRunningTimer, useTaskTimeEntries } from '@/hooks/useTimeEntries';
+import { formatElapsed, formatHours, getEntryHours, sumEntryHours } from '@/lib/timeTracking';
+
+interface TaskTimeTrackingProps {
+  task: {
+    id: string;
+    estimate_hours?: number | null;
+  };
+  onTimeLogged?: () => void;
+}
+
+export function TaskTimeTracking({ task, onTimeLogged }: TaskTimeTrackingProps) {
+  const { user } = useAuth();
+  const { entries, loading, addEntry, deleteEntry } = useTaskTimeEntries(task.id);
+  const { runningTimer, startTimer, stopTimer } = useRunningTimer();
+  const [now, setNow] = useState(() => new Date());
+  const [busy, setBusy] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [manualEntry, setManualEntry] = useState({
+    date: format(new Date(), 'yyyy-MM-dd'),
+    start: '09:00',
+    end: '10:00',
+    note: '',
+  });
+
+  const isRunningHere = runningTimer?.task_id === task.id;
+
+  useEffect(() => {
+    if (!isRunningHere) return;
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunningHere]);
+
+  const loggedHours = sumEntryHours(entries.filter(e => e.ended_at));
+  const estimate = task.estimate_hours || 0;
+
+  const handleToggleTimer = async () => {
+    setBusy(true);
+    const ok = isRunningHere ? await stopTimer() : await startTimer(task.id);
+    setBusy(false);
+    if (ok && isRunningHere) onTimeLogged?.();
+  };
+
+  const handleAddEntry = async () => {
+    const startedAt = new Date(`${manualEntry.date}T${manualEntry.start}`);
+    const endedAt = new Date(`${manualEntry.date}T${manualEntry.end}`);
+    if (isNaN(startedAt.getTime()) || isNaN(endedAt.getTime()) || endedAt <= startedAt) return;
+
+    setBusy(true);
+    const ok = await addEntry({
+      started_at: startedAt.toISOString(),
+      ended_at: endedAt.toISOString(),
+      note: manualEntry.note,
+    });
+    setBusy(false);
+
+    if (ok) {
+      setManualEntry(prev => ({ ...prev, note: '' }));
+      setShowForm(false);
+      onTimeLogged?.();
+    }
+  };
+
+  const handleDelete = async (entryId: string) => {
+    if (await deleteEntry(entryId)) onTimeLogged?.();
+  };
+
+  const manualRangeInvalid = manualEntry.end <= manualEntry.start;
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-lg border p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm text-muted-foreground">Logged</p>
+            <p className="text-2xl font-semibold">
+              {formatHours(loggedHours)}
+              {estimate > 0 && (
+                <span className="text-sm font-normal text-muted-foreground"> of {formatHours(estimate)} estimated</span>
+              )}
+            </p>
+          </div>
+          <Button
+            variant={isRunningHere ? 'destructive' : 'default'}
+            onClick={handleToggleTimer}
+            disabled={busy}
+            className="gap-2"
+          >
+            {busy ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : isRunningHere ? (
+              <Square className="h-4 w-4" />
+            ) : (
+              <Play className="h-4 w-4" />
+            )}
+            {isRunningHere ? `Stop ${formatElapsed(now.getTime() - new Date(runningTimer.started_at).getTime())}` : 'Start Timer'}
+          </Button>
+        </div>
+        {estimate > 0 && (
+          <Progress value={Math.min((loggedHours / estimate) * 100, 100)} className={loggedHours > estimate ? '[&>div]:bg-destructive' : ''} />
+        )}
+        {runningTimer && !isRunningHere && (
+          <p className="text-xs text-muted-foreground">
+            A timer is running on "{runningTimer.task_title}". Starting here will stop it.
+          </p>
+        )}
+      </div>
+
+      {showForm ? (
+        <div className="rounded-lg border p-4 space-y-3">
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="time-entry-date">Date</Label>
+              <Input
+                id="time-entry-date"
+                type="date"
+                value={manualEntry.date}
+                onChange={(e) => setManualEntry(prev => ({ ...prev, date: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="time-entry-start">Start</Label>
+              <Input
+                id="time-entry-start"
+                type="time"
+                value={manualEntry.start}
+                onChange={(e) => setManualEntry(prev => ({ ...prev, start: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="time-entry-end">End</Label>
+              <Input
+                id="time-entry-end"
+                type="time"
+                value={manualEntry.end}
+                onChange={(e) => setManualEntry(prev => ({ ...prev, end: e.target.value }))}
+              />
+            </div>
+          </div>
+          <Input
+            placeholder="What did you work on? (optional)"
+            value={manualEntry.note}
+            onChange={(e) => setManualEntry(prev => ({ ...prev, note: e.target.value }))}
+          />
+          {manualRangeInvalid && (
+            <p className="text-xs text-destructive">End time must be after the start time</p>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setShowForm(false)} disabled={busy}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleAddEntry} disabled={busy || manualRangeInvalid}>
+              Add Entry
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => setShowForm(true)}>
+          <Plus className="h-4 w-4" />
+          Add Time Manually
+        </Button>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-6 text-muted-foreground">
+          <Clock className="h-8 w-8 mx-auto mb-2 opacity-50" />
+          <p className="text-sm">No time logged yet</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {entries.map(entry => (
+            <div key={entry.id} className="flex items-start justify-between gap-3 rounded-md border p-3">
+              <div className="min-w-0 space-y-0.5">
+                <p className="text-sm font-medium">
+                  {entry.user_name || 'Unknown'}
+                  <span className="font-normal text-muted-foreground">
+                    {' · '}
+                    {format(new Date(entry.started_at), 'MMM d, HH:mm')}
+                    {' – '}
+                    {entry.ended_at ? format(new Date(entry.ended_at), 'HH:mm') : 'running'}
+                  </span>
+                </p>
+                {entry.note && <p className="text-sm text-muted-foreground break-words">{entry.note}</p>}
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <span className="text-sm font-medium">
+                  {entry.ended_at ? formatHours(getEntryHours(entry)) : formatElapsed(now.getTime() - new Date(entry.started_at).getTime())}
+                </span>
+                {entry.locked ? (
+                  <Lock className="h-4 w-4 text-muted-foreground ml-1" aria-label="On a submitted timesheet" />
+                ) : entry.user_id === user?.id && entry.ended_at ? (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => handleDelete(entry.id)}
+                    title="Delete entry"
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                ) : null}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
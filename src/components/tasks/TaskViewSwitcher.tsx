@@ -3,6 +3,9 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Toggle } from '@/components/ui/toggle';
 import { Search, Filter, List, Columns, Table, Calendar, User } from 'lucide-react';
+import { LabelFilter } from '@/components/labels/LabelFilter';
+import type { ProjectLabel } from '@/lib/taskLabels';
+import { DEFAULT_WORKFLOW_STATUSES, type WorkflowStatus } from '@/lib/taskStatus';
 import type { ViewType, TaskFilters } from './types';
 
 interface Project {
@@ -18,6 +21,10 @@ interface TaskViewSwitcherProps {
   currentUserId?: string;
   projects?: Project[];
   showProjectFilter?: boolean;
+  /** Labels offered in the label filter; hidden when empty */
+  labels?: ProjectLabel[];
+  /** Statuses offered in the status filter; defaults to the built-in statuses */
+  statuses?: WorkflowStatus[];
 }
 
 export function TaskViewSwitcher({ 
@@ -27,7 +34,9 @@ export function TaskViewSwitcher({
   onFiltersChange,
   currentUserId,
   projects = [],
-  showProjectFilter = false
+  showProjectFilter = false,
+  labels = [],
+  statuses = DEFAULT_WORKFLOW_STATUSES
 }: TaskViewSwitcherProps) {
   const updateFilter = (key: keyof TaskFilters, value: any) => {
     onFiltersChange({ ...filters, [key]: value });
@@ -98,11 +107,9 @@ export function TaskViewSwitcher({
           <SelectContent>
             <SelectItem value="all">All Status</SelectItem>
             <SelectItem value="overdue">Overdue</SelectItem>
-            <SelectItem value="todo">Not Started</SelectItem>
-            <SelectItem value="in_progress">In Progress</SelectItem>
-            <SelectItem value="review">Review</SelectItem>
-            <SelectItem value="done">Completed</SelectItem>
-            <SelectItem value="blocked">Blocked</SelectItem>
+            {statuses.map(status => (
+              <SelectItem key={status.key} value={status.key}>{status.label}</SelectItem>
+            ))}
           </SelectContent>
         </Select>
 
@@ -120,8 +127,13 @@ export function TaskViewSwitcher({
           </SelectContent>
         </Select>
 
+        {/* Label Filter */}
+        {labels.length > 0 && (
+          <LabelFilter labels={labels} value={filters.labels || []} onChange={(v) => updateFilter('labels', v)} />
+        )}
+
         {/* Clear Filters */}
-        {(filters.search || filters.status !== 'all' || filters.priority !== 'all' || filters.myTasks || (filters.project && filters.project !== 'all')) && (
+        {(filters.search || filters.status !== 'all' || filters.priority !== 'all' || filters.myTasks || (filters.project && filters.project !== 'all') || (filters.labels && filters.labels.length > 0)) && (
           <Button
             variant="ghost"
             size="sm"
@@ -132,6 +144,7 @@ export function TaskViewSwitcher({
               assignee: 'all',
               myTasks: false,
               project: 'all',
+              labels: [],
             })}
           >
             Clear filters
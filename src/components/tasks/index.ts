@@ -5,3 +5,9 @@ export { TaskTableView } from './TaskTableView';
 export { TaskCalendarView } from './TaskCalendarView';
 export { TaskListView } from './TaskListView';
 export { TaskDetailDrawer } from './TaskDetailDrawer';
+export { TaskComments } from './TaskComments';
+export { TaskAttachments } from './TaskAttachments';
+export { TaskActivityTimeline } from './TaskActivityTimeline';
+export { TaskTimeTracking } from './TaskTimeTracking';
+
+export { ConvertToSubtaskDialog } from './ConvertToSubtaskDialog';
\ No newline at end of file
@@ -1,3 +1,5 @@
+import type { WorkflowStatus } from '@/lib/taskStatus';
+
 export interface AssignedUser {
   id: string;
   name: string;
@@ -8,6 +10,7 @@ export interface TaskWithProfile {
   id: string;
   title: string;
   status: string;
+  status_category?: string | null;
   priority: string;
   start_date: string;
   due_date: string;
@@ -21,6 +24,9 @@ export interface TaskWithProfile {
   element_id?: string;
   element_name?: string;
   project_id?: string;
+  parent_task_id?: string | null;
+  labels?: string[] | null;
+  recurrence_id?: string | null;
   profiles?: {
     full_name: string | null;
     email: string;
@@ -45,11 +51,14 @@ export type ViewType = 'list' | 'kanban' | 'table' | 'calendar';
 export interface TaskViewProps {
   tasks: TaskWithProfile[];
   elements?: Element[];
+  /** Workflow of the project being shown; defaults to the built-in statuses */
+  statuses?: WorkflowStatus[];
   onStatusUpdate: (taskId: string, status: string) => void;
   onProgressUpdate: (taskId: string, progress: number) => void;
   onDateUpdate?: (taskId: string, field: 'start_date' | 'due_date', date: string) => void;
   onEditTask?: (task: TaskWithProfile) => void;
   onDeleteTask?: (taskId: string) => void;
+  onConvertToSubtask?: (task: TaskWithProfile) => void;
   canEdit?: boolean;
   canDelete?: boolean;
   showProject?: boolean;
@@ -62,4 +71,5 @@ export interface TaskFilters {
   assignee: string;
   myTasks: boolean;
   project?: string;
+  labels?: string[];
 }
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { Download, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useToast } from '@/hooks/use-toast';
+import { fetchApprovedTimeEntries } from '@/hooks/useTimesheets';
+import { downloadTimesheetExport, formatHours, sumEntryHours } from '@/lib/timeTracking';
+
+export function ExportTimesheetsDialog() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [from, setFrom] = useState(() => format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(() => format(endOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [fileType, setFileType] = useState<'xlsx' | 'csv'>('xlsx');
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const entries = await fetchApprovedTimeEntries(from, to);
+      if (entries.length === 0) {
+        toast({ title: 'Nothing to export', description: 'No approved time was found in this date range.' });
+        return;
+      }
+
+      downloadTimesheetExport(entries, `approved-time-${from}-to-${to}`, fileType);
+      toast({
+        title: 'Export ready',
+        description: `${entries.length} entries, ${formatHours(sumEntryHours(entries))} of approved time`,
+      });
+      setOpen(false);
+    } catch (error) {
+      console.error('Error exporting timesheets:', error);
+      toast({ title: 'Error', description: 'Failed to export approved timesheets', variant: 'destructive' });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Download className="h-4 w-4" />
+          Export Approved
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Approved Time</DialogTitle>
+          <DialogDescription>
+            Download every approved time entry in a date range for client billing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="export-from">From</Label>
+              <Input id="export-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="export-to">To</Label>
+              <Input id="export-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+          <RadioGroup value={fileType} onValueChange={(value) => setFileType(value as 'xlsx' | 'csv')} className="flex gap-6">
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="xlsx" id="export-xlsx" />
+              <Label htmlFor="export-xlsx">Excel (.xlsx)</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="csv" id="export-csv" />
+              <Label htmlFor="export-csv">CSV</Label>
+            </div>
+          </RadioGroup>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={exporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={exporting || !from || !to || from > to}>
+            {exporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
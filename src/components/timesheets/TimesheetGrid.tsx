@@ -0,0 +1,75 @@
+import { format, isSameDay } from 'date-fns';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { TimesheetEntry } from '@/hooks/useTimesheets';
+import { formatHours, getEntryHours, getWeekDays } from '@/lib/timeTracking';
+
+interface TimesheetGridProps {
+  weekStart: string;
+  entries: TimesheetEntry[];
+}
+
+/**
+ * Task rows by weekday columns, with daily and weekly totals
+ */
+export function TimesheetGrid({ weekStart, entries }: TimesheetGridProps) {
+  const days = getWeekDays(weekStart);
+
+  const rows = [...new Set(entries.map(e => e.task_id))].map(taskId => {
+    const taskEntries = entries.filter(e => e.task_id === taskId);
+    return {
+      taskId,
+      title: taskEntries[0].task_title,
+      perDay: days.map(day =>
+        taskEntries
+          .filter(e => isSameDay(new Date(e.started_at), day))
+          .reduce((sum, e) => sum + getEntryHours(e), 0)
+      ),
+    };
+  });
+
+  const dayTotals = days.map((_, i) => rows.reduce((sum, row) => sum + row.perDay[i], 0));
+  const weekTotal = dayTotals.reduce((sum, h) => sum + h, 0);
+
+  const cell = (hours: number) => (hours > 0 ? formatHours(hours) : <span className="text-muted-foreground/50">–</span>);
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="min-w-48">Task</TableHead>
+            {days.map(day => (
+              <TableHead key={day.toISOString()} className="text-center w-20">
+                <div>{format(day, 'EEE')}</div>
+                <div className="text-xs font-normal">{format(day, 'MMM d')}</div>
+              </TableHead>
+            ))}
+            <TableHead className="text-right w-24">Total</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.taskId}>
+              <TableCell className="font-medium">{row.title}</TableCell>
+              {row.perDay.map((hours, i) => (
+                <TableCell key={i} className="text-center">{cell(hours)}</TableCell>
+              ))}
+              <TableCell className="text-right font-medium">
+                {formatHours(row.perDay.reduce((sum, h) => sum + h, 0))}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell>Total</TableCell>
+            {dayTotals.map((hours, i) => (
+              <TableCell key={i} className="text-center">{cell(hours)}</TableCell>
+            ))}
+            <TableCell className="text-right">{formatHours(weekTotal)}</TableCell>
+          </TableRow>
+        </TableFooter>
+      </Table>
+    </div>
+  );
+}
@@ -13,10 +13,14 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { 
   ArrowLeft, ArrowRight, Check, Upload, X, Loader2, 
-  Plus, Trash2, FileText, Folder, ListTodo, Users, Sparkles
+  Plus, Trash2, FileText, Folder, ListTodo, Users, Sparkles, LayoutTemplate
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { ClientNameInput } from '@/components/ClientNameInput';
+import { useProjectTemplates, type ProjectTemplate } from '@/hooks/useProjectTemplates';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useWorkingCalendar } from '@/hooks/useWorkingCalendar';
+import { resolveTemplateDate } from '@/lib/projectTemplates';
 
 interface WizardDepartment {
   tempId: string;
@@ -59,6 +63,12 @@ export default function ProjectWizard() {
   const { toast } = useToast();
   const [currentStep, setCurrentStep] = useState(0);
   const [creating, setCreating] = useState(false);
+  const { isAdmin } = useUserRole();
+  const { templates, deleteTemplate, applyTemplate } = useProjectTemplates();
+  // A new project starts on the organisation calendar
+  const { calendar } = useWorkingCalendar();
+  const [templateId, setTemplateId] = useState('none');
+  const selectedTemplate = templates.find(t => t.id === templateId) || null;
 
   // Step 1 - Project details
   const [projectData, setProjectData] = useState({
@@ -85,6 +95,47 @@ export default function ProjectWizard() {
 
   const progress = ((currentStep + 1) / STEPS.length) * 100;
 
+  // A template fills in departments and elements so they can still be edited in the next steps
+  const handleTemplateChange = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    setTemplateId(template ? id : 'none');
+    if (!template) {
+      setDepartments([]);
+      setElements([]);
+      return;
+    }
+
+    const { content } = template;
+    setDepartments(content.departments.map(d => ({ tempId: d.key, name: d.name, description: d.description || '' })));
+    setElements(content.elements.map(e => ({
+      tempId: e.key,
+      title: e.title,
+      description: e.description || '',
+      departmentTempId: e.department_key || '',
+      priority: e.priority || 'medium',
+    })));
+    setProjectData(prev => ({
+      ...prev,
+      description: prev.description || template.description || '',
+      end_date: prev.start_date && content.end_offset != null
+        ? resolveTemplateDate(prev.start_date, content.end_offset, calendar)!
+        : prev.end_date,
+    }));
+  };
+
+  const handleStartDateChange = (startDate: string) => {
+    const endOffset = selectedTemplate?.content.end_offset;
+    setProjectData(prev => ({
+      ...prev,
+      start_date: startDate,
+      end_date: startDate && endOffset != null ? resolveTemplateDate(startDate, endOffset, calendar)! : prev.end_date,
+    }));
+  };
+
+  const handleDeleteTemplate = async (template: ProjectTemplate) => {
+    if (await deleteTemplate(template.id)) handleTemplateChange('none');
+  };
+
   const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -198,6 +249,7 @@ export default function ProjectWizard() {
       const elementIdMap: Record<string, string> = {};
       for (const el of elements) {
         if (!el.title.trim()) continue;
+        const templateElement = selectedTemplate?.content.elements.find(e => e.key === el.tempId);
         const { data: elData, error: elError } = await supabase
           .from('elements')
           .insert({
@@ -206,6 +258,8 @@ export default function ProjectWizard() {
             project_id: projectId,
             department_id: deptIdMap[el.departmentTempId] || null,
             priority: el.priority,
+            start_date: templateElement ? resolveTemplateDate(projectData.start_date, templateElement.start_offset, calendar) : null,
+            due_date: templateElement ? resolveTemplateDate(projectData.start_date, templateElement.due_offset, calendar) : null,
           })
           .select('id')
           .single();
@@ -213,6 +267,14 @@ export default function ProjectWizard() {
         elementIdMap[el.tempId] = elData.id;
       }
 
+      // 6. Lay out the template's tasks, dependencies and folders from the new start date
+      if (selectedTemplate) {
+        await applyTemplate(projectId, selectedTemplate.content, projectData.start_date, {
+          departments: deptIdMap,
+          elements: elementIdMap,
+        });
+      }
+
       toast({ title: 'Project created!', description: 'Your project workspace is ready.' });
       navigate(`/projects/${projectId}?onboarding=true`);
     } catch (error: any) {
@@ -276,6 +338,46 @@ export default function ProjectWizard() {
               <p className="text-sm text-muted-foreground mt-1">Set up the basics for your new project.</p>
             </div>
             <div className="space-y-4">
+              {/* Template */}
+              {templates.length > 0 && (
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-1.5">
+                    <LayoutTemplate className="h-3.5 w-3.5" />
+                    Start From
+                  </Label>
+                  <div className="flex gap-2">
+                    <Select value={templateId} onValueChange={handleTemplateChange}>
+                      <SelectTrigger className="bg-card"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Blank project</SelectItem>
+                        {templates.map(t => (
+                          <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {selectedTemplate && (isAdmin || selectedTemplate.created_by === user?.id) && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-10 w-10 text-muted-foreground hover:text-destructive flex-shrink-0"
+                        title="Delete template"
+                        onClick={() => handleDeleteTemplate(selectedTemplate)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                  {selectedTemplate && (
+                    <p className="text-xs text-muted-foreground">
+                      {selectedTemplate.content.departments.length} departments, {selectedTemplate.content.elements.length} elements,{' '}
+                      {selectedTemplate.content.tasks.length} tasks, {selectedTemplate.content.folders.length} folders and{' '}
+                      {(selectedTemplate.content.labels || []).length} labels.
+                      Dates are scheduled from the start date in working days.
+                    </p>
+                  )}
+                </div>
+              )}
               {/* Project Category */}
               <div className="space-y-2">
                 <Label>Project Category *</Label>
@@ -323,7 +425,7 @@ export default function ProjectWizard() {
                   <Input
                     type="date"
                     value={projectData.start_date}
-                    onChange={e => setProjectData({ ...projectData, start_date: e.target.value })}
+                    onChange={e => handleStartDateChange(e.target.value)}
                     className="bg-card"
                   />
                 </div>
@@ -535,9 +637,15 @@ export default function ProjectWizard() {
                       <Badge variant="outline" className="text-xs">{projectData.client_name}</Badge>
                     )}
                     <Badge variant="outline" className="capitalize text-xs">{projectData.status}</Badge>
+                    {selectedTemplate && (
+                      <Badge variant="outline" className="text-xs gap-1">
+                        <LayoutTemplate className="h-3 w-3" />
+                        {selectedTemplate.name}
+                      </Badge>
+                    )}
                   </div>
                 </div>
-                <div className="grid grid-cols-3 gap-4 pt-2 border-t">
+                <div className={cn('grid gap-4 pt-2 border-t', selectedTemplate ? 'grid-cols-4' : 'grid-cols-3')}>
                   <div>
                     <p className="text-xs text-muted-foreground">Departments</p>
                     <p className="text-lg font-bold">{departments.length}</p>
@@ -546,6 +654,14 @@ export default function ProjectWizard() {
                     <p className="text-xs text-muted-foreground">Elements</p>
                     <p className="text-lg font-bold">{elements.filter(e => e.title.trim()).length}</p>
                   </div>
+                  {selectedTemplate && (
+                    <div>
+                      <p className="text-xs text-muted-foreground">Template Tasks</p>
+                      <p className="text-lg font-bold">
+                        {selectedTemplate.content.tasks.filter(t => !t.department_key || departments.some(d => d.tempId === t.department_key)).length}
+                      </p>
+                    </div>
+                  )}
                   <div>
                     <p className="text-xs text-muted-foreground">Dates</p>
                     <p className="text-xs font-medium">{projectData.start_date}{projectData.end_date ? ` → ${projectData.end_date}` : ''}</p>
@@ -0,0 +1,342 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, GitBranch, Loader2, Plus, RotateCcw, Trash2, Workflow } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ColorSwatchPicker } from '@/components/labels/ColorSwatchPicker';
+import { useProjectWorkflow } from '@/hooks/useProjectWorkflow';
+import {
+  STATUS_CATEGORY_COLORS,
+  TASK_STATUSES,
+  type TaskStatusCategory,
+  type WorkflowStatus,
+} from '@/lib/taskStatus';
+
+interface ManageWorkflowDialogProps {
+  projectId: string;
+}
+
+function CategorySelect({ value, onChange }: { value: TaskStatusCategory; onChange: (category: TaskStatusCategory) => void }) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as TaskStatusCategory)}>
+      <SelectTrigger className="h-8 w-[130px] shrink-0" title="Category used by analytics">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {TASK_STATUSES.map(category => (
+          <SelectItem key={category.value} value={category.value}>{category.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function TransitionsPicker({
+  status,
+  statuses,
+  onChange,
+}: {
+  status: WorkflowStatus;
+  statuses: WorkflowStatus[];
+  onChange: (allowed: string[] | null) => void;
+}) {
+  const others = statuses.filter(s => s.key !== status.key);
+  const allowed = status.allowed_transitions;
+
+  const toggle = (key: string, checked: boolean) => {
+    const current = allowed ?? others.map(s => s.key);
+    onChange(checked ? [...current, key] : current.filter(k => k !== key));
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 gap-1 shrink-0 px-2" title="Allowed transitions">
+          <GitBranch className="h-3.5 w-3.5" />
+          <span className="text-xs">{allowed ? allowed.length : 'Any'}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-60 p-3" align="end">
+        <p className="text-sm font-medium mb-2">From "{status.label}" tasks can move to</p>
+        <div className="flex items-center gap-2 pb-2 mb-2 border-b">
+          <Checkbox
+            id={`any-${status.key}`}
+            checked={allowed === null}
+            onCheckedChange={(checked) => onChange(checked ? null : others.map(s => s.key))}
+          />
+          <Label htmlFor={`any-${status.key}`} className="text-sm font-normal">Any status</Label>
+        </div>
+        <div className="space-y-2">
+          {others.map(other => (
+            <div key={other.key} className="flex items-center gap-2">
+              <Checkbox
+                id={`${status.key}-${other.key}`}
+                checked={allowed === null || allowed.includes(other.key)}
+                disabled={allowed === null}
+                onCheckedChange={(checked) => toggle(other.key, !!checked)}
+              />
+              <span className="h-2 w-2 rounded-full shrink-0" style={{ backgroundColor: other.color }} />
+              <Label htmlFor={`${status.key}-${other.key}`} className="text-sm font-normal truncate">{other.label}</Label>
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function StatusRow({
+  status,
+  statuses,
+  isFirst,
+  isLast,
+  onUpdate,
+  onMove,
+  onDelete,
+}: {
+  status: WorkflowStatus;
+  statuses: WorkflowStatus[];
+  isFirst: boolean;
+  isLast: boolean;
+  onUpdate: (updates: Partial<Pick<WorkflowStatus, 'label' | 'category' | 'color' | 'allowed_transitions'>>) => Promise<boolean>;
+  onMove: (direction: -1 | 1) => void;
+  onDelete?: () => void;
+}) {
+  const [label, setLabel] = useState(status.label);
+
+  const commit = () => {
+    if (label.trim() && label.trim() !== status.label) {
+      onUpdate({ label }).then(saved => !saved && setLabel(status.label));
+    } else {
+      setLabel(status.label);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <ColorSwatchPicker value={status.color} onChange={(color) => onUpdate({ color })} />
+      <Input
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            commit();
+          }
+        }}
+        className="h-8 min-w-0"
+      />
+      <CategorySelect value={status.category} onChange={(category) => onUpdate({ category })} />
+      <TransitionsPicker
+        status={status}
+        statuses={statuses}
+        onChange={(allowed_transitions) => onUpdate({ allowed_transitions })}
+      />
+      <div className="flex shrink-0">
+        <Button variant="ghost" size="icon" className="h-8 w-7" disabled={isFirst} onClick={() => onMove(-1)} title="Move up">
+          <ArrowUp className="h-3.5 w-3.5" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-7" disabled={isLast} onClick={() => onMove(1)} title="Move down">
+          <ArrowDown className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 shrink-0"
+        onClick={onDelete}
+        disabled={!onDelete}
+        title="Delete status"
+      >
+        <Trash2 className="h-3.5 w-3.5 text-destructive" />
+      </Button>
+    </div>
+  );
+}
+
+export function ManageWorkflowDialog({ projectId }: ManageWorkflowDialogProps) {
+  const {
+    statuses,
+    isCustom,
+    loading,
+    createStatus,
+    updateStatus,
+    reorderStatuses,
+    deleteStatus,
+    resetWorkflow,
+  } = useProjectWorkflow(projectId);
+  const [open, setOpen] = useState(false);
+  const [newLabel, setNewLabel] = useState('');
+  const [newCategory, setNewCategory] = useState<TaskStatusCategory>('in_progress');
+  const [newColor, setNewColor] = useState<string>(STATUS_CATEGORY_COLORS.in_progress);
+  const [creating, setCreating] = useState(false);
+  const [deleting, setDeleting] = useState<WorkflowStatus | null>(null);
+  const [replacementKey, setReplacementKey] = useState('');
+  const [confirmReset, setConfirmReset] = useState(false);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newLabel.trim()) return;
+    setCreating(true);
+    const status = await createStatus({ label: newLabel, category: newCategory, color: newColor });
+    setCreating(false);
+    if (status) setNewLabel('');
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const keys = statuses.map(s => s.key);
+    const [moved] = keys.splice(index, 1);
+    keys.splice(index + direction, 0, moved);
+    reorderStatuses(keys);
+  };
+
+  const openDelete = (status: WorkflowStatus) => {
+    const sameCategory = statuses.find(s => s.key !== status.key && s.category === status.category);
+    setReplacementKey((sameCategory || statuses.find(s => s.key !== status.key))?.key || '');
+    setDeleting(status);
+  };
+
+  const handleDelete = async () => {
+    if (!deleting || !replacementKey) return;
+    await deleteStatus(deleting.key, replacementKey);
+    setDeleting(null);
+  };
+
+  const handleReset = async () => {
+    await resetWorkflow();
+    setConfirmReset(false);
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="icon" onClick={() => setOpen(true)} title="Task Workflow">
+        <Workflow className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Task Workflow</DialogTitle>
+            <DialogDescription>
+              Statuses available to tasks in this project, in board order. Each status counts towards
+              its category in analytics; transitions limit where members can move a task next.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleCreate} className="flex items-center gap-2">
+            <ColorSwatchPicker value={newColor} onChange={setNewColor} />
+            <Input
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+              placeholder="New status, e.g. Awaiting client approval"
+              className="h-8 min-w-0"
+            />
+            <CategorySelect
+              value={newCategory}
+              onChange={(category) => {
+                setNewCategory(category);
+                setNewColor(STATUS_CATEGORY_COLORS[category]);
+              }}
+            />
+            <Button type="submit" size="sm" className="h-8 gap-1.5 shrink-0" disabled={creating || !newLabel.trim()}>
+              {creating ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Plus className="h-3.5 w-3.5" />}
+              Add
+            </Button>
+          </form>
+
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {loading ? (
+              <div className="flex items-center justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              statuses.map((status, index) => (
+                <StatusRow
+                  key={`${status.key}-${status.label}`}
+                  status={status}
+                  statuses={statuses}
+                  isFirst={index === 0}
+                  isLast={index === statuses.length - 1}
+                  onUpdate={(updates) => updateStatus(status.key, updates)}
+                  onMove={(direction) => handleMove(index, direction)}
+                  onDelete={statuses.length > 1 ? () => openDelete(status) : undefined}
+                />
+              ))
+            )}
+          </div>
+
+          {isCustom && (
+            <div className="flex justify-end">
+              <Button variant="ghost" size="sm" className="gap-1.5" onClick={() => setConfirmReset(true)}>
+                <RotateCcw className="h-3.5 w-3.5" />
+                Reset to default
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(isOpen) => !isOpen && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete status?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tasks currently in "{deleting?.label}" will be moved to the status you choose.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Select value={replacementKey} onValueChange={setReplacementKey}>
+            <SelectTrigger>
+              <SelectValue placeholder="Move tasks to..." />
+            </SelectTrigger>
+            <SelectContent>
+              {statuses.filter(s => s.key !== deleting?.key).map(status => (
+                <SelectItem key={status.key} value={status.key}>{status.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={!replacementKey}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={confirmReset} onOpenChange={setConfirmReset}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset workflow?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The project goes back to the standard statuses. Tasks in custom statuses move to the
+              standard status of the same category.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleReset}>Reset</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
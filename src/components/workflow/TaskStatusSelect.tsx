@@ -0,0 +1,46 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useProjectWorkflow } from '@/hooks/useProjectWorkflow';
+import { useUserRole } from '@/hooks/useUserRole';
+import { getSelectableStatuses, resolveWorkflowStatus } from '@/lib/taskStatus';
+
+interface TaskStatusSelectProps {
+  projectId: string | null | undefined;
+  value: string;
+  onChange: (status: string) => void;
+  /** Stored category of the task, used to place statuses outside the workflow */
+  category?: string | null;
+  /** Offer every status, e.g. for tasks that are still being created */
+  anyStatus?: boolean;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Status picker for a task, offering its project's workflow statuses. Members
+ * only see the statuses the workflow allows next; managers can pick any.
+ */
+export function TaskStatusSelect({ projectId, value, onChange, category, anyStatus, disabled, className }: TaskStatusSelectProps) {
+  const { statuses } = useProjectWorkflow(projectId);
+  const { isAdmin, isProjectManager } = useUserRole();
+
+  const current = resolveWorkflowStatus(value, statuses, category);
+  const options = getSelectableStatuses(statuses, current?.key, anyStatus || isAdmin || isProjectManager);
+
+  return (
+    <Select value={current?.key} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger className={className}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map(status => (
+          <SelectItem key={status.key} value={status.key}>
+            <div className="flex items-center gap-2">
+              <span className="h-2 w-2 rounded-full shrink-0" style={{ backgroundColor: status.color }} />
+              {status.label}
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
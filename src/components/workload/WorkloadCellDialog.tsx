@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Link } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import {
+  LOAD_LEVEL_STYLES,
+  formatLoadHours,
+  getLoadLevel,
+  type WorkloadBucket,
+  type WorkloadCell,
+  type WorkloadRow,
+  type WorkloadTask,
+} from '@/lib/workload';
+
+interface WorkloadCellDialogProps {
+  row: WorkloadRow | null;
+  bucket: WorkloadBucket | null;
+  cell: WorkloadCell | null;
+  /** Everyone's row for the same columns, to show how loaded a reassignment target is */
+  people: WorkloadRow[];
+  bucketIndex: number;
+  personNames: Map<string, string>;
+  canReassign: boolean;
+  onReassign: (task: WorkloadTask, fromUserId: string, toUserId: string) => Promise<boolean>;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatTaskDates = (task: WorkloadTask) => {
+  const due = task.due_date ? format(parseISO(task.due_date), 'MMM d') : '';
+  if (!task.start_date || task.start_date === task.due_date) return due;
+  return `${format(parseISO(task.start_date), 'MMM d')} – ${due}`;
+};
+
+/**
+ * The tasks behind one heatmap cell; project managers can hand a person's task
+ * to someone with room in the same period
+ */
+export function WorkloadCellDialog({
+  row,
+  bucket,
+  cell,
+  people,
+  bucketIndex,
+  personNames,
+  canReassign,
+  onReassign,
+  onOpenChange,
+}: WorkloadCellDialogProps) {
+  const [busyTaskId, setBusyTaskId] = useState<string | null>(null);
+
+  if (!row || !bucket || !cell) return null;
+
+  const canMove = canReassign && row.grouping === 'user';
+  // Least loaded people first
+  const targets = people
+    .filter(p => p.id !== row.id)
+    .map(p => ({ row: p, cell: p.cells[bucketIndex] }))
+    .sort((a, b) => (a.cell.hours - a.cell.capacity) - (b.cell.hours - b.cell.capacity));
+
+  const handleReassign = async (task: WorkloadTask, toUserId: string) => {
+    setBusyTaskId(task.id);
+    await onReassign(task, row.id, toUserId);
+    setBusyTaskId(null);
+  };
+
+  const allocations = [...cell.allocations].sort((a, b) => b.hours - a.hours);
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{row.name}</DialogTitle>
+          <DialogDescription>
+            {bucket.days.length === 1 ? format(parseISO(bucket.key), 'EEEE, MMM d') : `Week of ${bucket.sublabel}`}:{' '}
+            {formatLoadHours(cell.hours)} planned of {formatLoadHours(cell.capacity)} available
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[420px]">
+          <div className="divide-y rounded-md border">
+            {allocations.map(({ task, hours }) => (
+              <div key={task.id} className="flex flex-col sm:flex-row sm:items-center gap-2 px-3 py-2.5">
+                <div className="min-w-0 flex-1">
+                  <Link
+                    to={`/projects/${task.project_id}`}
+                    className="text-sm font-medium hover:underline truncate block"
+                  >
+                    {task.title}
+                  </Link>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {task.project_name}
+                    {task.department_name ? ` · ${task.department_name}` : ''}
+                    {' · '}{formatTaskDates(task)}
+                    {' · '}{formatLoadHours(task.estimate_hours || 0)} estimate
+                    {row.grouping === 'department' && task.assignee_ids.length > 0 && (
+                      <> · {task.assignee_ids.map(id => personNames.get(id) || 'Unknown').join(', ')}</>
+                    )}
+                    {row.grouping === 'department' && task.assignee_ids.length === 0 && ' · Unassigned'}
+                  </div>
+                </div>
+                <Badge variant="secondary" className="w-fit tabular-nums shrink-0">{formatLoadHours(hours)} here</Badge>
+                {canMove && (
+                  <div className="flex items-center gap-2 shrink-0">
+                    {busyTaskId === task.id && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                    <Select
+                      value=""
+                      onValueChange={(userId) => handleReassign(task, userId)}
+                      disabled={busyTaskId !== null}
+                    >
+                      <SelectTrigger className="h-8 w-[200px]">
+                        <SelectValue placeholder="Reassign to..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {targets.map(target => {
+                          const level = getLoadLevel(target.cell.hours, target.cell.capacity);
+                          return (
+                            <SelectItem
+                              key={target.row.id}
+                              value={target.row.id}
+                              disabled={task.assignee_ids.includes(target.row.id)}
+                            >
+                              <span className="flex items-center gap-2">
+                                <span className={cn('h-2.5 w-2.5 rounded-sm', LOAD_LEVEL_STYLES[level])} />
+                                {target.row.name}
+                                <span className="text-muted-foreground text-xs">
+                                  {formatLoadHours(target.cell.hours)}/{formatLoadHours(target.cell.capacity)}
+                                </span>
+                              </span>
+                            </SelectItem>
+                          );
+                        })}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { isToday, parseISO } from 'date-fns';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import {
+  LOAD_LEVEL_LABELS,
+  LOAD_LEVEL_STYLES,
+  formatLoadHours,
+  getLoadLevel,
+  type LoadLevel,
+  type WorkloadBucket,
+  type WorkloadRow,
+} from '@/lib/workload';
+
+interface WorkloadHeatmapProps {
+  rows: WorkloadRow[];
+  buckets: WorkloadBucket[];
+  onCellClick: (row: WorkloadRow, bucketIndex: number) => void;
+  /** Lets the viewer change a person's hours per day */
+  onCapacityChange?: (userId: string, hoursPerDay: number) => Promise<boolean>;
+}
+
+function CapacityEditor({ row, onSave }: { row: WorkloadRow; onSave: (hours: number) => Promise<boolean> }) {
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState(String(row.hoursPerDay));
+
+  const handleSave = async () => {
+    const hours = Number(value);
+    if (Number.isNaN(hours) || hours < 0 || hours > 24) return;
+    if (await onSave(hours)) setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={(next) => { setOpen(next); setValue(String(row.hoursPerDay)); }}>
+      <PopoverTrigger asChild>
+        <button className="text-[11px] text-muted-foreground hover:text-foreground hover:underline" title="Change capacity">
+          {row.hoursPerDay}h/day
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 space-y-2" align="start">
+        <p className="text-sm font-medium">Capacity for {row.name}</p>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={0}
+            max={24}
+            step={0.5}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            className="h-8"
+          />
+          <span className="text-sm text-muted-foreground shrink-0">h/day</span>
+        </div>
+        <Button size="sm" className="w-full" onClick={handleSave}>Save</Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/**
+ * People or departments down the side, days or weeks across, each cell coloured
+ * by how much of the capacity the planned hours use
+ */
+export function WorkloadHeatmap({ rows, buckets, onCellClick, onCapacityChange }: WorkloadHeatmapProps) {
+  const cellWidth = buckets.length > 14 ? 'min-w-[52px]' : 'min-w-[84px]';
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto rounded-md border">
+        <table className="w-full border-collapse text-xs">
+          <thead>
+            <tr className="bg-muted/40">
+              <th className="sticky left-0 z-10 bg-muted min-w-[180px] border-b border-r px-3 py-2 text-left font-semibold">
+                {rows[0]?.grouping === 'department' ? 'Department' : 'Person'}
+              </th>
+              {buckets.map(bucket => {
+                const today = bucket.days.some(day => isToday(parseISO(day)));
+                return (
+                  <th
+                    key={bucket.key}
+                    className={cn('border-b border-r px-1 py-2 text-center font-medium', cellWidth, today && 'bg-primary/10 text-primary')}
+                  >
+                    <div>{bucket.label}</div>
+                    <div className="text-[10px] font-normal text-muted-foreground">{bucket.sublabel}</div>
+                  </th>
+                );
+              })}
+              <th className="border-b px-3 py-2 text-right font-semibold min-w-[110px]">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => {
+              const totalLevel = getLoadLevel(row.totalHours, row.totalCapacity);
+              return (
+                <tr key={row.id} className="group">
+                  <td className="sticky left-0 z-10 bg-background border-b border-r px-3 py-1.5">
+                    <div className="font-medium text-sm truncate max-w-[220px]" title={row.name}>{row.name}</div>
+                    <div className="flex items-center gap-2">
+                      {row.grouping === 'user' && onCapacityChange ? (
+                        <CapacityEditor row={row} onSave={(hours) => onCapacityChange(row.id, hours)} />
+                      ) : (
+                        <span className="text-[11px] text-muted-foreground">{row.hoursPerDay}h/day</span>
+                      )}
+                      {row.unestimatedTasks.length > 0 && (
+                        <span
+                          className="flex items-center gap-0.5 text-[11px] text-warning"
+                          title={`Without an estimate: ${row.unestimatedTasks.map(t => t.title).join(', ')}`}
+                        >
+                          <AlertTriangle className="h-3 w-3" />
+                          {row.unestimatedTasks.length} unestimated
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                  {row.cells.map((cell, idx) => {
+                    const level = getLoadLevel(cell.hours, cell.capacity);
+                    const percent = cell.capacity > 0 ? Math.round((cell.hours / cell.capacity) * 100) : null;
+                    return (
+                      <td key={buckets[idx].key} className="border-b border-r p-0.5">
+                        <button
+                          type="button"
+                          className={cn(
+                            'w-full h-10 rounded-sm text-[11px] font-medium tabular-nums transition-opacity hover:opacity-80 disabled:cursor-default disabled:hover:opacity-100',
+                            LOAD_LEVEL_STYLES[level],
+                          )}
+                          disabled={cell.allocations.length === 0}
+                          onClick={() => onCellClick(row, idx)}
+                          title={`${formatLoadHours(cell.hours)} of ${formatLoadHours(cell.capacity)}${percent !== null ? ` (${percent}%)` : ''} · ${cell.allocations.length} task${cell.allocations.length === 1 ? '' : 's'}`}
+                        >
+                          {level === 'none' ? (cell.capacity > 0 ? '' : '–') : formatLoadHours(cell.hours)}
+                        </button>
+                      </td>
+                    );
+                  })}
+                  <td className="border-b px-3 py-1.5 text-right tabular-nums">
+                    <span className={cn('font-semibold', totalLevel === 'over' && 'text-destructive')}>
+                      {formatLoadHours(row.totalHours)}
+                    </span>
+                    <span className="text-muted-foreground"> / {formatLoadHours(row.totalCapacity)}</span>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        {(Object.keys(LOAD_LEVEL_LABELS) as LoadLevel[]).map(level => (
+          <span key={level} className="flex items-center gap-1.5">
+            <span className={cn('h-3 w-3 rounded-sm border', LOAD_LEVEL_STYLES[level])} />
+            {LOAD_LEVEL_LABELS[level]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useQuery } from '@tanstack/react-query';
+import { addDays, format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { getReferencedUserIds } from '@/lib/auditDiff';
+
+export interface AuditLogEntry {
+  id: string;
+  user_id: string | null;
+  action: string;
+  entity_type: string;
+  entity_id: string | null;
+  old_values: Json | null;
+  new_values: Json | null;
+  created_at: string | null;
+}
+
+export interface AuditLogFilters {
+  entityType: string;
+  userId: string;
+  from: string;
+  to: string;
+  entityId?: string;
+}
+
+export interface AuditProfile {
+  id: string;
+  full_name: string | null;
+  email: string;
+}
+
+export const AUDIT_PAGE_SIZE = 50;
+
+export function useAuditLogs(filters: AuditLogFilters, page: number) {
+  const { data, isLoading: loading, refetch } = useQuery({
+    queryKey: ['audit-logs', filters, page],
+    queryFn: async () => {
+      let query = supabase
+        .from('audit_logs')
+        .select('id, user_id, action, entity_type, entity_id, old_values, new_values, created_at', { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range(page * AUDIT_PAGE_SIZE, (page + 1) * AUDIT_PAGE_SIZE - 1);
+
+      if (filters.entityType !== 'all') query = query.eq('entity_type', filters.entityType);
+      if (filters.userId !== 'all') query = query.eq('user_id', filters.userId);
+      if (filters.entityId) query = query.eq('entity_id', filters.entityId);
+      if (filters.from) query = query.gte('created_at', filters.from);
+      // Inclusive end date: everything before the start of the following day
+      if (filters.to) query = query.lt('created_at', format(addDays(parseISO(filters.to), 1), 'yyyy-MM-dd'));
+
+      const { data: logs, error, count } = await query;
+      if (error) throw error;
+
+      // Resolve actors and any users referenced by the changed rows
+      const userIds = new Set<string>();
+      (logs || []).forEach(log => {
+        if (log.user_id) userIds.add(log.user_id);
+        getReferencedUserIds(log.old_values).forEach(id => userIds.add(id));
+        getReferencedUserIds(log.new_values).forEach(id => userIds.add(id));
+      });
+
+      const { data: profiles } = userIds.size > 0
+        ? await supabase.from('profiles').select('id, full_name, email').in('id', [...userIds])
+        : { data: [] as AuditProfile[] };
+
+      return {
+        logs: (logs || []) as AuditLogEntry[],
+        total: count || 0,
+        profiles: Object.fromEntries((profiles || []).map(p => [p.id, p])) as Record<string, AuditProfile>,
+      };
+    },
+    staleTime: 30 * 1000,
+  });
+
+  return {
+    logs: data?.logs || [],
+    total: data?.total || 0,
+    profiles: data?.profiles || {},
+    loading,
+    refetch,
+  };
+}
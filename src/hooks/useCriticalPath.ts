@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchProjectSchedule } from '@/hooks/useTaskDependencies';
+import { computeCriticalPath } from '@/lib/criticalPath';
+import { useWorkingCalendar } from '@/hooks/useWorkingCalendar';
+
+export function useCriticalPath(projectId: string | undefined) {
+  const { calendar } = useWorkingCalendar(projectId);
+
+  const { data, isLoading: loading, refetch } = useQuery({
+    queryKey: ['critical-path', projectId, calendar],
+    queryFn: async () => {
+      const { tasks, dependencies } = await fetchProjectSchedule(projectId!);
+      return computeCriticalPath(tasks, dependencies, calendar);
+    },
+    enabled: !!projectId,
+    staleTime: 30 * 1000,
+  });
+
+  return {
+    criticalPath: data,
+    loading,
+    refetch,
+  };
+}
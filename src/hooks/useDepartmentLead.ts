@@ -130,3 +130,29 @@ export function useDepartmentLead(departmentId: string | undefined) {
     refetch,
   };
 }
+
+/**
+ * Ids of the departments the current user leads
+ */
+export function useLedDepartmentIds() {
+  const { user } = useAuth();
+
+  const { data: departmentIds = [], isLoading: loading } = useQuery({
+    queryKey: ['led-departments', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('department_leads')
+        .select('department_id')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      return (data || []).map(l => l.department_id);
+    },
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return { departmentIds, loading };
+}
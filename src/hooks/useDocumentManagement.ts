@@ -168,7 +168,7 @@ export function useDocumentManagement(projectId: string | undefined) {
     }
   };
 
-  const uploadDocument = async (file: File, departmentId?: string) => {
+  const uploadDocument = async (file: File, departmentId?: string): Promise<Document | undefined> => {
     if (!projectId || !user) return;
 
     try {
@@ -210,6 +210,7 @@ export function useDocumentManagement(projectId: string | undefined) {
 
       toast({ title: 'Document uploaded successfully' });
       invalidateData();
+      return docData as Document;
     } catch (error) {
       console.error('Error uploading document:', error);
       toast({
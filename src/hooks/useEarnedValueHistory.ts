@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { EarnedValueHistoryEntry } from '@/lib/earnedValue';
+
+/**
+ * Progress and actual cost changes recorded for a project's tasks,
+ * used to replay earned value and actual cost over time
+ */
+export function useEarnedValueHistory(projectId: string | undefined) {
+  const { data: history = [], isLoading: loading } = useQuery({
+    queryKey: ['earned-value-history', projectId],
+    queryFn: async () => {
+      if (!projectId) return [];
+
+      const { data, error } = await supabase
+        .from('task_activity')
+        .select('task_id, field, old_value, new_value, created_at')
+        .eq('project_id', projectId)
+        .in('field', ['progress_percentage', 'actual_cost'])
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as EarnedValueHistoryEntry[];
+    },
+    enabled: !!projectId,
+    staleTime: 60 * 1000,
+  });
+
+  return { history, loading };
+}
@@ -22,6 +22,17 @@ interface TaskCompletedNotificationData {
   task_creator_id?: string;
 }
 
+interface TaskMentionNotificationData {
+  task_id: string;
+  task_name: string;
+  project_id: string;
+  project_name: string;
+  mentioned_by_id: string;
+  mentioned_by_name: string;
+  comment_preview: string;
+  mentioned_user_ids: string[];
+}
+
 export const sendChatMessageNotification = async (data: ChatMessageNotificationData) => {
   try {
     // Filter out sender from recipients
@@ -86,6 +97,40 @@ export const sendTaskCompletedNotification = async (data: TaskCompletedNotificat
   }
 };
 
+export const sendTaskMentionNotification = async (data: TaskMentionNotificationData) => {
+  try {
+    // Never notify people about their own mentions
+    const recipientIds = data.mentioned_user_ids.filter(id => id !== data.mentioned_by_id);
+    if (recipientIds.length === 0) return { data: null, error: null };
+
+    const response = await supabase.functions.invoke('send-email-notification', {
+      body: {
+        type: 'task_mention',
+        data: {
+          task_id: data.task_id,
+          task_name: data.task_name,
+          project_id: data.project_id,
+          project_name: data.project_name,
+          mentioned_by_name: data.mentioned_by_name,
+          comment_preview: data.comment_preview,
+          mentioned_user_ids: recipientIds,
+        },
+      },
+    });
+
+    if (response.error) {
+      console.error('Error sending task mention notification:', response.error);
+    } else {
+      console.log('Task mention notification sent:', response.data);
+    }
+
+    return response;
+  } catch (error) {
+    console.error('Failed to send task mention notification:', error);
+    return { error };
+  }
+};
+
 // Helper function to get project managers
 export const getProjectManagers = async (projectId: string): Promise<string[]> => {
   try {
@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { PortfolioElement } from '@/lib/portfolio';
+
+/**
+ * Elements of the given projects for the portfolio timeline, only fetched once
+ * the timeline is asked to show them
+ */
+export function usePortfolioElements(projectIds: string[], enabled: boolean) {
+  const sortedIds = [...projectIds].sort();
+
+  const { data, isLoading: loading } = useQuery({
+    queryKey: ['portfolio-elements', sortedIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('elements')
+        .select('id, project_id, title, start_date, due_date')
+        .in('project_id', sortedIds)
+        .order('start_date', { ascending: true, nullsFirst: false });
+
+      if (error) throw error;
+      return (data || []) as PortfolioElement[];
+    },
+    enabled: enabled && sortedIds.length > 0,
+    staleTime: 60 * 1000,
+  });
+
+  return { elements: data ?? [], loading: enabled && loading };
+}
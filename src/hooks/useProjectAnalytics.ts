@@ -1,7 +1,9 @@
 import { useState, useEffect, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { computeTaskAnalytics, computeProjectKPIs, computeBudgetStatusDistribution, TaskAnalytics, ProjectKPIs, BudgetStatusDistribution } from '@/lib/workingDays';
+import { computeEarnedValue, getEarnedValueTasks, EarnedValueMetrics } from '@/lib/earnedValue';
 import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { useWorkingCalendar } from '@/hooks/useWorkingCalendar';
 
 interface Task {
   id: string;
@@ -14,7 +16,11 @@ interface Task {
   estimated_cost: number;
   actual_cost: number;
   assignee_department_id: string | null;
+  element_id: string | null;
+  parent_task_id: string | null;
+  labels: string[] | null;
   project_id: string;
+  created_at: string | null;
 }
 
 interface UseProjectAnalyticsOptions {
@@ -29,6 +35,7 @@ interface UseProjectAnalyticsReturn {
   filteredTaskAnalytics: TaskAnalytics[];
   kpis: ProjectKPIs;
   budgetDistribution: BudgetStatusDistribution;
+  earnedValue: EarnedValueMetrics;
   loading: boolean;
   refreshData: () => Promise<void>;
 }
@@ -44,6 +51,7 @@ export function useProjectAnalytics({
 }: UseProjectAnalyticsOptions): UseProjectAnalyticsReturn {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
+  const { calendar } = useWorkingCalendar(projectId);
 
   // Fetch data from Supabase
   const fetchData = async () => {
@@ -117,8 +125,8 @@ export function useProjectAnalytics({
     return tasks.map(task => computeTaskAnalytics({
       ...task,
       progress: task.progress_percentage
-    }));
-  }, [tasks]);
+    }, calendar));
+  }, [tasks, calendar]);
 
   // Filter tasks based on status and search query
   const filteredTaskAnalytics = useMemo(() => {
@@ -139,12 +147,18 @@ export function useProjectAnalytics({
     return computeBudgetStatusDistribution(filteredTaskAnalytics);
   }, [filteredTaskAnalytics]);
 
+  // Earned value covers the whole project regardless of the table filters
+  const earnedValue = useMemo(() => {
+    return computeEarnedValue(getEarnedValueTasks(tasks), new Date(), calendar);
+  }, [tasks, calendar]);
+
   return {
     tasks,
     taskAnalytics,
     filteredTaskAnalytics,
     kpis,
     budgetDistribution,
+    earnedValue,
     loading,
     refreshData: fetchData
   };
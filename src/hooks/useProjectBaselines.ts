@@ -0,0 +1,169 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { BaselineElement, BaselineTask } from '@/lib/baselines';
+
+export interface ProjectBaseline {
+  id: string;
+  project_id: string;
+  name: string;
+  created_by: string | null;
+  created_at: string;
+  creator_name?: string;
+}
+
+export function useProjectBaselines(projectId: string | undefined) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const queryKey = ['project-baselines', projectId];
+
+  const { data: baselines = [], isLoading: loading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      if (!projectId) return [];
+
+      const { data, error } = await supabase
+        .from('project_baselines')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const creatorIds = [...new Set((data || []).map(b => b.created_by).filter(Boolean))] as string[];
+      const { data: profiles } = creatorIds.length > 0
+        ? await supabase.from('profiles').select('id, full_name, email').in('id', creatorIds)
+        : { data: [] };
+
+      return (data || []).map(baseline => {
+        const profile = profiles?.find(p => p.id === baseline.created_by);
+        return { ...baseline, creator_name: profile?.full_name || profile?.email || undefined } as ProjectBaseline;
+      });
+    },
+    enabled: !!projectId,
+    staleTime: 60 * 1000,
+  });
+
+  /**
+   * Snapshot the current dates, estimates and costs of every task and element in the project
+   */
+  const createBaseline = async (name: string) => {
+    if (!projectId) return null;
+
+    const [tasksResult, elementsResult] = await Promise.all([
+      supabase
+        .from('tasks')
+        .select('id, element_id, title, start_date, due_date, estimate_hours, estimated_cost')
+        .eq('project_id', projectId),
+      supabase
+        .from('elements')
+        .select('id, title, start_date, due_date')
+        .eq('project_id', projectId),
+    ]);
+
+    const loadError = tasksResult.error || elementsResult.error;
+    if (loadError) {
+      toast({ title: 'Error', description: loadError.message, variant: 'destructive' });
+      return null;
+    }
+
+    const { data: baseline, error } = await supabase
+      .from('project_baselines')
+      .insert({ project_id: projectId, name: name.trim() })
+      .select('*')
+      .single();
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return null;
+    }
+
+    const taskRows = (tasksResult.data || []).map(task => ({
+      baseline_id: baseline.id,
+      task_id: task.id,
+      element_id: task.element_id,
+      title: task.title,
+      start_date: task.start_date,
+      due_date: task.due_date,
+      estimate_hours: task.estimate_hours,
+      estimated_cost: task.estimated_cost,
+    }));
+    const elementRows = (elementsResult.data || []).map(element => ({
+      baseline_id: baseline.id,
+      element_id: element.id,
+      title: element.title,
+      start_date: element.start_date,
+      due_date: element.due_date,
+    }));
+
+    const [taskInsert, elementInsert] = await Promise.all([
+      taskRows.length > 0 ? supabase.from('baseline_tasks').insert(taskRows) : { error: null },
+      elementRows.length > 0 ? supabase.from('baseline_elements').insert(elementRows) : { error: null },
+    ]);
+
+    // Don't leave a half-recorded baseline behind
+    const snapshotError = taskInsert.error || elementInsert.error;
+    if (snapshotError) {
+      await supabase.from('project_baselines').delete().eq('id', baseline.id);
+      toast({ title: 'Error', description: snapshotError.message, variant: 'destructive' });
+      return null;
+    }
+
+    toast({ title: 'Baseline saved', description: `"${baseline.name}" captured ${taskRows.length} tasks` });
+    queryClient.invalidateQueries({ queryKey });
+    return baseline as ProjectBaseline;
+  };
+
+  const deleteBaseline = async (baselineId: string) => {
+    const { error } = await supabase.from('project_baselines').delete().eq('id', baselineId);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return false;
+    }
+
+    toast({ title: 'Baseline deleted' });
+    queryClient.invalidateQueries({ queryKey });
+    return true;
+  };
+
+  return { baselines, loading, createBaseline, deleteBaseline };
+}
+
+export function useBaselineSnapshot(baselineId: string | null | undefined) {
+  const { data, isLoading: loading } = useQuery({
+    queryKey: ['baseline-snapshot', baselineId],
+    queryFn: async () => {
+      if (!baselineId) return { tasks: [], elements: [] };
+
+      const [tasksResult, elementsResult] = await Promise.all([
+        supabase
+          .from('baseline_tasks')
+          .select('task_id, element_id, title, start_date, due_date, estimate_hours, estimated_cost')
+          .eq('baseline_id', baselineId),
+        supabase
+          .from('baseline_elements')
+          .select('element_id, title, start_date, due_date')
+          .eq('baseline_id', baselineId),
+      ]);
+
+      if (tasksResult.error) throw tasksResult.error;
+      if (elementsResult.error) throw elementsResult.error;
+
+      return {
+        tasks: (tasksResult.data || []) as BaselineTask[],
+        elements: (elementsResult.data || []) as BaselineElement[],
+      };
+    },
+    enabled: !!baselineId,
+    // A baseline never changes once saved
+    staleTime: Infinity,
+  });
+
+  return {
+    baselineTasks: data?.tasks || [],
+    baselineElements: data?.elements || [],
+    loading: !!baselineId && loading,
+  };
+}
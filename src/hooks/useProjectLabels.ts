@@ -0,0 +1,82 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { normalizeLabelName, type ProjectLabel } from '@/lib/taskLabels';
+
+/**
+ * Label catalogue of one or more projects. Chips rendered per task share the
+ * cached query, so passing the same project id from many places is cheap.
+ */
+export function useProjectLabels(projectIds: string | string[] | null | undefined) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const ids = (Array.isArray(projectIds) ? projectIds : [projectIds]).filter((id): id is string => !!id);
+  const sortedIds = [...new Set(ids)].sort();
+
+  const { data: labels = [], isLoading: loading } = useQuery({
+    queryKey: ['project-labels', ...sortedIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('project_labels')
+        .select('id, project_id, name, color')
+        .in('project_id', sortedIds)
+        .order('name');
+
+      if (error) throw error;
+      return (data || []) as ProjectLabel[];
+    },
+    enabled: sortedIds.length > 0,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // Every catalogue query containing the project is stale after a change
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['project-labels'] });
+
+  const createLabel = async (projectId: string, name: string, color: string) => {
+    const { data, error } = await supabase
+      .from('project_labels')
+      .insert({ project_id: projectId, name: normalizeLabelName(name), color })
+      .select('id, project_id, name, color')
+      .single();
+
+    if (error) {
+      const description = error.code === '23505' ? 'A label with this name already exists' : error.message;
+      toast({ title: 'Error', description, variant: 'destructive' });
+      return null;
+    }
+
+    invalidate();
+    return data as ProjectLabel;
+  };
+
+  const updateLabel = async (labelId: string, updates: { name?: string; color?: string }) => {
+    const { error } = await supabase
+      .from('project_labels')
+      .update({ ...updates, ...(updates.name !== undefined ? { name: normalizeLabelName(updates.name) } : {}) })
+      .eq('id', labelId);
+
+    if (error) {
+      const description = error.code === '23505' ? 'A label with this name already exists' : error.message;
+      toast({ title: 'Error', description, variant: 'destructive' });
+      return false;
+    }
+
+    invalidate();
+    return true;
+  };
+
+  const deleteLabel = async (labelId: string) => {
+    const { error } = await supabase.from('project_labels').delete().eq('id', labelId);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return false;
+    }
+
+    invalidate();
+    return true;
+  };
+
+  return { labels, loading, createLabel, updateLabel, deleteLabel };
+}
@@ -0,0 +1,164 @@
+import { useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  getMilestoneStatus,
+  type MilestoneApprovalStatus,
+  type MilestoneStatus,
+  type MilestoneTask,
+  type ProjectMilestone,
+} from '@/lib/milestones';
+
+const MILESTONE_SELECT = `
+  id, project_id, title, description, due_date, owner_user_id, department_id,
+  completed_at, approval_status, approval_note, approved_by, approved_at,
+  milestone_tasks(task_id, tasks(id, title, status, status_category, due_date))
+`;
+
+interface MilestoneRow extends Omit<ProjectMilestone, 'task_ids'> {
+  milestone_tasks: { task_id: string; tasks: (MilestoneTask & { title: string }) | null }[];
+}
+
+export interface MilestoneWithStatus extends ProjectMilestone {
+  status: MilestoneStatus;
+  tasks: (MilestoneTask & { title: string })[];
+}
+
+export interface MilestoneInput {
+  title: string;
+  description?: string | null;
+  due_date: string;
+  owner_user_id?: string | null;
+  department_id?: string | null;
+}
+
+/**
+ * Milestones of a project with their linked tasks, each given a hit / missed /
+ * at risk / upcoming status
+ */
+export function useProjectMilestones(projectId: string | undefined) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ['project-milestones', projectId];
+
+  const { data: rows = [], isLoading: loading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('project_milestones')
+        .select(MILESTONE_SELECT)
+        .eq('project_id', projectId!)
+        .order('due_date');
+
+      if (error) throw error;
+      return (data || []) as unknown as MilestoneRow[];
+    },
+    enabled: !!projectId,
+    staleTime: 60 * 1000,
+  });
+
+  const milestones = useMemo<MilestoneWithStatus[]>(() => rows.map(({ milestone_tasks, ...row }) => {
+    const tasks = milestone_tasks.map(link => link.tasks).filter(Boolean) as (MilestoneTask & { title: string })[];
+    const milestone = { ...row, task_ids: milestone_tasks.map(link => link.task_id) };
+    return { ...milestone, tasks, status: getMilestoneStatus(milestone, tasks) };
+  }), [rows]);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['project-milestones', projectId] });
+  const showError = (message: string) => toast({ title: 'Error', description: message, variant: 'destructive' });
+
+  const replaceLinkedTasks = async (milestoneId: string, taskIds: string[]) => {
+    const { error: deleteError } = await supabase.from('milestone_tasks').delete().eq('milestone_id', milestoneId);
+    if (deleteError) throw deleteError;
+    if (taskIds.length === 0) return;
+    const { error } = await supabase
+      .from('milestone_tasks')
+      .insert(taskIds.map(taskId => ({ milestone_id: milestoneId, task_id: taskId })));
+    if (error) throw error;
+  };
+
+  const createMilestone = async (input: MilestoneInput, taskIds: string[] = []) => {
+    try {
+      const { data, error } = await supabase
+        .from('project_milestones')
+        .insert({ ...input, project_id: projectId! })
+        .select('id')
+        .single();
+      if (error) throw error;
+
+      await replaceLinkedTasks(data.id, taskIds);
+      toast({ title: 'Milestone added', description: input.title });
+      return true;
+    } catch (error) {
+      showError((error as Error).message);
+      return false;
+    } finally {
+      invalidate();
+    }
+  };
+
+  const updateMilestone = async (milestoneId: string, updates: Partial<MilestoneInput>, taskIds?: string[]) => {
+    try {
+      const { error } = await supabase.from('project_milestones').update(updates).eq('id', milestoneId);
+      if (error) throw error;
+      if (taskIds) await replaceLinkedTasks(milestoneId, taskIds);
+      return true;
+    } catch (error) {
+      showError((error as Error).message);
+      return false;
+    } finally {
+      invalidate();
+    }
+  };
+
+  /** Report the milestone reached today, or take that back */
+  const setReached = async (milestoneId: string, reached: boolean) => {
+    const { error } = await supabase
+      .from('project_milestones')
+      .update({ completed_at: reached ? new Date().toISOString() : null })
+      .eq('id', milestoneId);
+
+    invalidate();
+    if (error) {
+      showError(error.message);
+      return false;
+    }
+    return true;
+  };
+
+  /** Sign a reached milestone off, or send it back with a note */
+  const reviewMilestone = async (milestoneId: string, approvalStatus: MilestoneApprovalStatus, note?: string) => {
+    const { error } = await supabase
+      .from('project_milestones')
+      .update({ approval_status: approvalStatus, approval_note: note?.trim() || null })
+      .eq('id', milestoneId);
+
+    invalidate();
+    if (error) {
+      showError(error.message);
+      return false;
+    }
+    return true;
+  };
+
+  const deleteMilestone = async (milestoneId: string) => {
+    const { error } = await supabase.from('project_milestones').delete().eq('id', milestoneId);
+
+    invalidate();
+    if (error) {
+      showError(error.message);
+      return false;
+    }
+    return true;
+  };
+
+  return {
+    milestones,
+    loading,
+    createMilestone,
+    updateMilestone,
+    setReached,
+    reviewMilestone,
+    deleteMilestone,
+  };
+}
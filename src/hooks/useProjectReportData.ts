@@ -1,11 +1,15 @@
 import { useState, useEffect, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { format, subDays, isAfter, isBefore, parseISO } from 'date-fns';
+import { format, subDays, isAfter, isBefore, parseISO, startOfDay } from 'date-fns';
+import { describeTaskActivity, type TaskActivityEntry } from '@/lib/taskActivity';
+import { isTaskDoneStatus, isTaskInProgressStatus, isTaskTodoStatus } from '@/lib/taskStatus';
+import { getProjectHealth, isTaskOverdue, type ProjectHealthStatus } from '@/lib/projectHealth';
 
 interface Task {
   id: string;
   title: string;
   status: string;
+  status_category: string;
   priority: string;
   progress_percentage: number;
   start_date: string | null;
@@ -45,6 +49,15 @@ interface UserActivity {
   tasksCompleted: number;
 }
 
+interface TaskChange {
+  id: string;
+  taskId: string;
+  taskTitle: string;
+  userName: string;
+  description: string;
+  at: string;
+}
+
 interface SmartInsights {
   topDepartment: string | null;
   fallingBehindDepartments: string[];
@@ -66,9 +79,10 @@ export interface ProjectReportData {
   tasksCompletedToday: number;
   tasksCreatedToday: number;
   tasksUpdatedToday: number;
-  healthStatus: 'on_track' | 'needs_attention' | 'at_risk';
+  healthStatus: ProjectHealthStatus;
   departmentSummaries: DepartmentSummary[];
   userActivities: UserActivity[];
+  todayChanges: TaskChange[];
   smartInsights: SmartInsights;
 }
 
@@ -76,6 +90,7 @@ export function useProjectReportData(projectId: string) {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
   const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [todayActivity, setTodayActivity] = useState<TaskActivityEntry[]>([]);
   const [projectName, setProjectName] = useState('');
   const [loading, setLoading] = useState(true);
 
@@ -106,6 +121,38 @@ export function useProjectReportData(projectId: string) {
       
       setTasks((tasksData || []) as Task[]);
 
+      // Fetch today's change history (field changes and comments)
+      const todayStart = startOfDay(new Date()).toISOString();
+      const taskIds = (tasksData || []).map(t => t.id);
+      const [activityRes, commentsRes] = await Promise.all([
+        supabase
+          .from('task_activity')
+          .select('id, task_id, user_id, activity_type, field, old_value, new_value, created_at')
+          .eq('project_id', projectId)
+          .gte('created_at', todayStart),
+        taskIds.length > 0
+          ? supabase
+              .from('task_comments')
+              .select('id, task_id, user_id, comment, created_at')
+              .in('task_id', taskIds)
+              .gte('created_at', todayStart)
+          : Promise.resolve({ data: [] as { id: string; task_id: string; user_id: string; comment: string; created_at: string | null }[] }),
+      ]);
+
+      setTodayActivity([
+        ...((activityRes.data || []) as TaskActivityEntry[]),
+        ...(commentsRes.data || []).map(comment => ({
+          id: comment.id,
+          task_id: comment.task_id,
+          user_id: comment.user_id,
+          activity_type: 'commented' as const,
+          field: null,
+          old_value: null,
+          new_value: comment.comment,
+          created_at: comment.created_at || todayStart,
+        })),
+      ].sort((a, b) => a.created_at.localeCompare(b.created_at)));
+
       // Fetch departments
       const { data: deptData } = await supabase
         .from('departments')
@@ -134,15 +181,12 @@ export function useProjectReportData(projectId: string) {
 
     // Basic task counts
     const totalTasks = tasks.length;
-    const completedTasks = tasks.filter(t => t.status === 'done').length;
-    const inProgressTasks = tasks.filter(t => t.status === 'in_progress').length;
-    const todoTasks = tasks.filter(t => t.status === 'todo').length;
+    const completedTasks = tasks.filter(t => isTaskDoneStatus(t.status, t.status_category)).length;
+    const inProgressTasks = tasks.filter(t => isTaskInProgressStatus(t.status, t.status_category)).length;
+    const todoTasks = tasks.filter(t => isTaskTodoStatus(t.status, t.status_category)).length;
     
     // Overdue tasks
-    const overdueTasks = tasks.filter(t => {
-      if (t.status === 'done' || !t.due_date) return false;
-      return isBefore(parseISO(t.due_date), todayStart);
-    }).length;
+    const overdueTasks = tasks.filter(t => isTaskOverdue(t, todayStart)).length;
 
     // Today's activity
     const tasksCompletedToday = tasks.filter(t => {
@@ -154,33 +198,23 @@ export function useProjectReportData(projectId: string) {
       return t.created_at?.startsWith(todayStr);
     }).length;
 
-    const tasksUpdatedToday = tasks.filter(t => {
-      return t.updated_at?.startsWith(todayStr);
-    }).length;
+    // Tasks with a recorded change today (creation alone doesn't count as an update)
+    const todayUpdates = todayActivity.filter(a => a.activity_type !== 'created');
+    const tasksUpdatedToday = new Set(todayUpdates.map(a => a.task_id)).size;
 
     // Overall completion
     const overallCompletion = totalTasks > 0 
       ? Math.round((completedTasks / totalTasks) * 100) 
       : 0;
 
-    // Health status calculation
-    const overdueRate = totalTasks > 0 ? overdueTasks / totalTasks : 0;
-    let healthStatus: 'on_track' | 'needs_attention' | 'at_risk' = 'on_track';
-    if (overdueRate > 0.3 || overdueTasks > 10) {
-      healthStatus = 'at_risk';
-    } else if (overdueRate > 0.1 || overdueTasks > 5) {
-      healthStatus = 'needs_attention';
-    }
+    const healthStatus = getProjectHealth(totalTasks, overdueTasks);
 
     // Department summaries
     const departmentSummaries: DepartmentSummary[] = departments.map(dept => {
       const deptTasks = tasks.filter(t => t.assignee_department_id === dept.id);
-      const deptCompleted = deptTasks.filter(t => t.status === 'done').length;
-      const deptInProgress = deptTasks.filter(t => t.status === 'in_progress').length;
-      const deptOverdue = deptTasks.filter(t => {
-        if (t.status === 'done' || !t.due_date) return false;
-        return isBefore(parseISO(t.due_date), todayStart);
-      }).length;
+      const deptCompleted = deptTasks.filter(t => isTaskDoneStatus(t.status, t.status_category)).length;
+      const deptInProgress = deptTasks.filter(t => isTaskInProgressStatus(t.status, t.status_category)).length;
+      const deptOverdue = deptTasks.filter(t => isTaskOverdue(t, todayStart)).length;
       const deptCompletedToday = deptTasks.filter(t => {
         if (!t.completed_at) return false;
         return t.completed_at.startsWith(todayStr);
@@ -199,29 +233,31 @@ export function useProjectReportData(projectId: string) {
       };
     });
 
-    // User activity
-    const userActivityMap = new Map<string, { updated: number; completed: number }>();
-    tasks.forEach(task => {
-      if (task.assignee_user_id && task.updated_at?.startsWith(todayStr)) {
-        const current = userActivityMap.get(task.assignee_user_id) || { updated: 0, completed: 0 };
-        current.updated++;
-        if (task.completed_at?.startsWith(todayStr)) {
-          current.completed++;
-        }
-        userActivityMap.set(task.assignee_user_id, current);
+    const getUserName = (userId: string | null) => {
+      if (!userId) return 'System';
+      const profile = profiles.find(p => p.id === userId);
+      return profile?.full_name || profile?.email || 'Unknown';
+    };
+
+    // User activity, attributed to whoever made the change
+    const userActivityMap = new Map<string, { updated: Set<string>; completed: Set<string> }>();
+    todayUpdates.forEach(activity => {
+      if (!activity.user_id) return;
+      const current = userActivityMap.get(activity.user_id) || { updated: new Set<string>(), completed: new Set<string>() };
+      current.updated.add(activity.task_id);
+      if (activity.activity_type === 'status_changed' && activity.new_value === 'done') {
+        current.completed.add(activity.task_id);
       }
+      userActivityMap.set(activity.user_id, current);
     });
 
     const userActivities: UserActivity[] = Array.from(userActivityMap.entries())
-      .map(([userId, activity]) => {
-        const profile = profiles.find(p => p.id === userId);
-        return {
-          userId,
-          userName: profile?.full_name || profile?.email || 'Unknown',
-          tasksUpdated: activity.updated,
-          tasksCompleted: activity.completed,
-        };
-      })
+      .map(([userId, activity]) => ({
+        userId,
+        userName: getUserName(userId),
+        tasksUpdated: activity.updated.size,
+        tasksCompleted: activity.completed.size,
+      }))
       .sort((a, b) => b.tasksUpdated - a.tasksUpdated)
       .slice(0, 10);
 
@@ -236,14 +272,14 @@ export function useProjectReportData(projectId: string) {
 
     const weekAgo = subDays(today, 7);
     const staleTasks = tasks.filter(t => {
-      if (t.status === 'done') return false;
+      if (isTaskDoneStatus(t.status, t.status_category)) return false;
       const updatedDate = parseISO(t.updated_at);
       return isBefore(updatedDate, weekAgo);
     }).length;
 
     const nextWeek = subDays(today, -7);
     const upcomingDeadlines = tasks.filter(t => {
-      if (t.status === 'done' || !t.due_date) return false;
+      if (isTaskDoneStatus(t.status, t.status_category) || !t.due_date) return false;
       const dueDate = parseISO(t.due_date);
       return isAfter(dueDate, todayStart) && isBefore(dueDate, nextWeek);
     }).length;
@@ -261,6 +297,15 @@ export function useProjectReportData(projectId: string) {
 
     const mostActiveUsers = userActivities.slice(0, 3).map(u => u.userName);
 
+    const todayChanges: TaskChange[] = todayActivity.map(activity => ({
+      id: `${activity.activity_type}-${activity.id}`,
+      taskId: activity.task_id,
+      taskTitle: tasks.find(t => t.id === activity.task_id)?.title || 'Unknown task',
+      userName: getUserName(activity.user_id),
+      description: describeTaskActivity(activity, getUserName),
+      at: activity.created_at,
+    }));
+
     return {
       projectName,
       reportDate: format(today, 'MMMM d, yyyy'),
@@ -276,6 +321,7 @@ export function useProjectReportData(projectId: string) {
       healthStatus,
       departmentSummaries,
       userActivities,
+      todayChanges,
       smartInsights: {
         topDepartment,
         fallingBehindDepartments,
@@ -285,7 +331,7 @@ export function useProjectReportData(projectId: string) {
         completionTrend,
       },
     };
-  }, [tasks, departments, profiles, projectName]);
+  }, [tasks, departments, profiles, projectName, todayActivity]);
 
   return {
     reportData,
@@ -0,0 +1,227 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { fetchWorkingCalendar } from '@/hooks/useWorkingCalendar';
+import {
+  buildTemplateContent,
+  resolveTemplateDate,
+  sortParentsFirst,
+  type ProjectTemplateContent,
+} from '@/lib/projectTemplates';
+import type { WorkingCalendar } from '@/lib/workingDays';
+
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  source_project_id: string | null;
+  content: ProjectTemplateContent;
+  created_by: string | null;
+  created_at: string;
+}
+
+/** Ids already created for the template's departments and elements, keyed by template key */
+export interface TemplateIdMaps {
+  departments: Record<string, string>;
+  elements: Record<string, string>;
+}
+
+export function useProjectTemplates() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const queryKey = ['project-templates'];
+
+  const { data: templates = [], isLoading: loading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('project_templates')
+        .select('id, name, description, source_project_id, content, created_by, created_at')
+        .order('name');
+
+      if (error) throw error;
+      return (data || []) as unknown as ProjectTemplate[];
+    },
+    staleTime: 60 * 1000,
+  });
+
+  /**
+   * Save the structure of a project as a new template
+   */
+  const saveProjectAsTemplate = async (projectId: string, name: string, description: string) => {
+    const [projectRes, departmentsRes, elementsRes, tasksRes, foldersRes, labelsRes] = await Promise.all([
+      supabase.from('projects').select('start_date, end_date').eq('id', projectId).single(),
+      supabase.from('departments').select('id, name, description').eq('project_id', projectId).order('name'),
+      supabase
+        .from('elements')
+        .select('id, title, description, department_id, priority, start_date, due_date')
+        .eq('project_id', projectId)
+        .order('start_date', { ascending: true, nullsFirst: false }),
+      supabase
+        .from('tasks')
+        .select('id, title, description, assignee_department_id, element_id, parent_task_id, priority, labels, estimate_hours, estimated_cost, start_date, due_date')
+        .eq('project_id', projectId)
+        .order('start_date', { ascending: true, nullsFirst: false }),
+      supabase.from('document_folders').select('id, name, department_id, parent_folder_id').eq('project_id', projectId),
+      supabase.from('project_labels').select('name, color').eq('project_id', projectId).order('name'),
+    ]);
+
+    const loadError = projectRes.error || departmentsRes.error || elementsRes.error || tasksRes.error || foldersRes.error
+      || labelsRes.error;
+    if (loadError) {
+      toast({ title: 'Error', description: loadError.message, variant: 'destructive' });
+      return null;
+    }
+
+    const taskIds = (tasksRes.data || []).map(t => t.id);
+    const { data: dependencies, error: depsError } = taskIds.length > 0
+      ? await supabase.from('task_dependencies').select('task_id, depends_on_task_id').in('task_id', taskIds)
+      : { data: [], error: null };
+
+    if (depsError) {
+      toast({ title: 'Error', description: depsError.message, variant: 'destructive' });
+      return null;
+    }
+
+    // Offsets are counted on the source project's calendar
+    let calendar: WorkingCalendar;
+    try {
+      calendar = await fetchWorkingCalendar(projectId);
+    } catch (calendarError) {
+      toast({ title: 'Error', description: (calendarError as Error).message, variant: 'destructive' });
+      return null;
+    }
+
+    const content = buildTemplateContent({
+      project: projectRes.data,
+      departments: departmentsRes.data || [],
+      elements: elementsRes.data || [],
+      tasks: tasksRes.data || [],
+      dependencies: dependencies || [],
+      folders: foldersRes.data || [],
+      labels: labelsRes.data || [],
+    }, calendar);
+
+    const { data: template, error } = await supabase
+      .from('project_templates')
+      .insert({
+        name: name.trim(),
+        description: description.trim() || null,
+        source_project_id: projectId,
+        content: content as unknown as Json,
+        created_by: user?.id,
+      })
+      .select('id, name')
+      .single();
+
+    if (error) {
+      const message = error.code === '23505' ? `A template named "${name.trim()}" already exists` : error.message;
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+      return null;
+    }
+
+    toast({ title: 'Template saved', description: `"${template.name}" captured ${content.tasks.length} tasks` });
+    queryClient.invalidateQueries({ queryKey });
+    return template;
+  };
+
+  const deleteTemplate = async (templateId: string) => {
+    const { error } = await supabase.from('project_templates').delete().eq('id', templateId);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return false;
+    }
+
+    toast({ title: 'Template deleted' });
+    queryClient.invalidateQueries({ queryKey });
+    return true;
+  };
+
+  /**
+   * Create the template's labels, tasks, dependencies and folders in a new project.
+   * Departments and elements are created by the caller (the wizard lets users
+   * edit them first); work under a department that was left out is skipped.
+   */
+  const applyTemplate = async (
+    projectId: string,
+    content: ProjectTemplateContent,
+    startDate: string,
+    ids: TemplateIdMaps
+  ) => {
+    const departmentOf = (key: string | null) => (key ? ids.departments[key] : undefined);
+    const calendar = await fetchWorkingCalendar(projectId);
+
+    // The catalogue goes in first so the tasks' labels have their colours
+    const labels = content.labels || [];
+    if (labels.length > 0) {
+      const { error } = await supabase.from('project_labels').upsert(
+        labels.map(l => ({ project_id: projectId, name: l.name, color: l.color, created_by: user?.id })),
+        { onConflict: 'project_id,name', ignoreDuplicates: true }
+      );
+      if (error) throw error;
+    }
+
+    // Ids are generated here so parents, subtasks and dependencies go in one insert each
+    const taskIdMap: Record<string, string> = {};
+    const included = sortParentsFirst(content.tasks).filter(t => !t.department_key || departmentOf(t.department_key));
+    included.forEach(t => { taskIdMap[t.key] = crypto.randomUUID(); });
+
+    const taskRows = included.map(t => ({
+      id: taskIdMap[t.key],
+      project_id: projectId,
+      title: t.title,
+      description: t.description,
+      assignee_department_id: departmentOf(t.department_key) || null,
+      element_id: t.element_key ? ids.elements[t.element_key] || null : null,
+      parent_task_id: t.parent_key ? taskIdMap[t.parent_key] || null : null,
+      priority: t.priority || 'medium',
+      labels: t.labels,
+      estimate_hours: t.estimate_hours,
+      estimated_cost: t.estimated_cost,
+      start_date: resolveTemplateDate(startDate, t.start_offset, calendar),
+      due_date: resolveTemplateDate(startDate, t.due_offset, calendar),
+      status: 'todo',
+      progress_percentage: 0,
+    }));
+
+    if (taskRows.length > 0) {
+      const { error } = await supabase.from('tasks').insert(taskRows);
+      if (error) throw error;
+    }
+
+    const dependencyRows = content.dependencies
+      .filter(d => taskIdMap[d.task_key] && taskIdMap[d.depends_on_key])
+      .map(d => ({ task_id: taskIdMap[d.task_key], depends_on_task_id: taskIdMap[d.depends_on_key] }));
+
+    if (dependencyRows.length > 0) {
+      const { error } = await supabase.from('task_dependencies').insert(dependencyRows);
+      if (error) throw error;
+    }
+
+    const folderIdMap: Record<string, string> = {};
+    const folders = sortParentsFirst(content.folders)
+      .filter(f => !f.department_key || departmentOf(f.department_key));
+    folders.forEach(f => { folderIdMap[f.key] = crypto.randomUUID(); });
+
+    if (folders.length > 0) {
+      const { error } = await supabase.from('document_folders').insert(folders.map(f => ({
+        id: folderIdMap[f.key],
+        name: f.name,
+        project_id: projectId,
+        department_id: departmentOf(f.department_key) || null,
+        parent_folder_id: f.parent_key ? folderIdMap[f.parent_key] || null : null,
+        created_by: user?.id,
+      })));
+      if (error) throw error;
+    }
+
+    return { labels: labels.length, tasks: taskRows.length, folders: folders.length };
+  };
+
+  return { templates, loading, saveProjectAsTemplate, deleteTemplate, applyTemplate };
+}
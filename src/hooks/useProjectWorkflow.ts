@@ -0,0 +1,224 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DEFAULT_WORKFLOW_STATUSES,
+  toStatusKey,
+  type TaskStatusCategory,
+  type WorkflowStatus,
+} from '@/lib/taskStatus';
+
+const WORKFLOW_COLUMNS = 'id, key, label, category, color, position, allowed_transitions';
+
+/**
+ * Task statuses of a project. Projects that never customised their workflow get
+ * the built-in statuses; the first change stores those so they can be edited.
+ */
+export function useProjectWorkflow(projectId: string | null | undefined) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const queryKey = ['project-workflow', projectId];
+
+  const { data: stored = [], isLoading: loading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('project_task_statuses')
+        .select(WORKFLOW_COLUMNS)
+        .eq('project_id', projectId!)
+        .order('position');
+
+      if (error) throw error;
+      return (data || []) as WorkflowStatus[];
+    },
+    enabled: !!projectId,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const isCustom = stored.length > 0;
+  const statuses = isCustom ? stored : DEFAULT_WORKFLOW_STATUSES;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ['project-workflows'] });
+  };
+
+  const showError = (message: string) => toast({ title: 'Error', description: message, variant: 'destructive' });
+
+  // Store the built-in statuses so they can be renamed, reordered and extended
+  const ensureCustomWorkflow = async (): Promise<WorkflowStatus[] | null> => {
+    if (!projectId) return null;
+    if (isCustom) return stored;
+
+    const { data, error } = await supabase
+      .from('project_task_statuses')
+      .insert(DEFAULT_WORKFLOW_STATUSES.map(({ key, label, category, color, position }) => ({
+        project_id: projectId,
+        key,
+        label,
+        category,
+        color,
+        position,
+      })))
+      .select(WORKFLOW_COLUMNS)
+      .order('position');
+
+    if (error) {
+      showError(error.message);
+      return null;
+    }
+    return (data || []) as WorkflowStatus[];
+  };
+
+  const createStatus = async (status: { label: string; category: TaskStatusCategory; color: string }) => {
+    const current = await ensureCustomWorkflow();
+    if (!current) return null;
+
+    const key = toStatusKey(status.label);
+    if (!key) {
+      showError('Status names need at least one letter or number');
+      return null;
+    }
+    if (current.some(s => s.key === key)) {
+      showError('A status with this name already exists');
+      invalidate();
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('project_task_statuses')
+      .insert({
+        project_id: projectId!,
+        key,
+        label: status.label.trim(),
+        category: status.category,
+        color: status.color,
+        position: Math.max(-1, ...current.map(s => s.position)) + 1,
+      })
+      .select(WORKFLOW_COLUMNS)
+      .single();
+
+    invalidate();
+    if (error) {
+      showError(error.code === '23505' ? 'A status with this name already exists' : error.message);
+      return null;
+    }
+    return data as WorkflowStatus;
+  };
+
+  const updateStatus = async (
+    key: string,
+    updates: Partial<Pick<WorkflowStatus, 'label' | 'category' | 'color' | 'allowed_transitions'>>
+  ) => {
+    if (!(await ensureCustomWorkflow())) return false;
+
+    const { error } = await supabase
+      .from('project_task_statuses')
+      .update({ ...updates, ...(updates.label !== undefined ? { label: updates.label.trim() } : {}) })
+      .eq('project_id', projectId!)
+      .eq('key', key);
+
+    invalidate();
+    if (error) {
+      showError(error.message);
+      return false;
+    }
+    return true;
+  };
+
+  const reorderStatuses = async (keys: string[]) => {
+    if (!(await ensureCustomWorkflow())) return false;
+
+    for (const [position, key] of keys.entries()) {
+      const { error } = await supabase
+        .from('project_task_statuses')
+        .update({ position })
+        .eq('project_id', projectId!)
+        .eq('key', key);
+
+      if (error) {
+        showError(error.message);
+        invalidate();
+        return false;
+      }
+    }
+
+    invalidate();
+    return true;
+  };
+
+  // Tasks in the removed status move to `replacementKey` in the same transaction
+  const deleteStatus = async (key: string, replacementKey: string) => {
+    if (!(await ensureCustomWorkflow())) return false;
+
+    const { error } = await supabase.rpc('delete_task_status', {
+      _project_id: projectId!,
+      _key: key,
+      _replacement_key: replacementKey,
+    });
+
+    invalidate();
+    if (error) {
+      showError(error.message);
+      return false;
+    }
+    return true;
+  };
+
+  // Back to the built-in statuses; the database moves tasks in custom ones to their category
+  const resetWorkflow = async () => {
+    if (!projectId || !isCustom) return true;
+
+    const { error } = await supabase.from('project_task_statuses').delete().eq('project_id', projectId);
+
+    invalidate();
+    if (error) {
+      showError(error.message);
+      return false;
+    }
+    return true;
+  };
+
+  return {
+    statuses,
+    isCustom,
+    loading,
+    createStatus,
+    updateStatus,
+    reorderStatuses,
+    deleteStatus,
+    resetWorkflow,
+  };
+}
+
+/**
+ * Workflows of several projects at once, for cross-project lists such as My Tasks
+ */
+export function useProjectWorkflows(projectIds: string[]) {
+  const ids = [...new Set(projectIds)].sort();
+
+  const { data: stored = [], isLoading: loading } = useQuery({
+    queryKey: ['project-workflows', ...ids],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('project_task_statuses')
+        .select(`project_id, ${WORKFLOW_COLUMNS}`)
+        .in('project_id', ids)
+        .order('position');
+
+      if (error) throw error;
+      return (data || []) as WorkflowStatus[];
+    },
+    enabled: ids.length > 0,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const getWorkflow = useCallback((projectId: string | null | undefined): WorkflowStatus[] => {
+    const statuses = stored.filter(s => s.project_id === projectId);
+    return statuses.length > 0 ? statuses : DEFAULT_WORKFLOW_STATUSES;
+  }, [stored]);
+
+  return { getWorkflow, loading };
+}
@@ -0,0 +1,72 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { getActivityUserIds, type TaskActivityEntry } from '@/lib/taskActivity';
+
+interface ActivityProfile {
+  id: string;
+  full_name: string | null;
+  email: string;
+}
+
+export function useTaskActivity(taskId: string | undefined) {
+  const { data, isLoading: loading, refetch } = useQuery({
+    queryKey: ['task-activity', taskId],
+    queryFn: async () => {
+      if (!taskId) return { entries: [] as TaskActivityEntry[], profiles: {} as Record<string, ActivityProfile> };
+
+      const [activityRes, commentsRes] = await Promise.all([
+        supabase
+          .from('task_activity')
+          .select('id, task_id, user_id, activity_type, field, old_value, new_value, created_at')
+          .eq('task_id', taskId),
+        supabase
+          .from('task_comments')
+          .select('id, task_id, user_id, comment, created_at')
+          .eq('task_id', taskId),
+      ]);
+
+      if (activityRes.error) throw activityRes.error;
+      if (commentsRes.error) throw commentsRes.error;
+
+      // Comments live in their own table so edits and deletions are reflected here too
+      const entries: TaskActivityEntry[] = [
+        ...((activityRes.data || []) as TaskActivityEntry[]),
+        ...(commentsRes.data || []).map(comment => ({
+          id: comment.id,
+          task_id: comment.task_id,
+          user_id: comment.user_id,
+          activity_type: 'commented' as const,
+          field: null,
+          old_value: null,
+          new_value: comment.comment,
+          created_at: comment.created_at || '',
+        })),
+      ].sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+      const userIds = [...new Set(entries.flatMap(getActivityUserIds))];
+      const { data: profiles } = userIds.length > 0
+        ? await supabase.from('profiles').select('id, full_name, email').in('id', userIds)
+        : { data: [] as ActivityProfile[] };
+
+      return {
+        entries,
+        profiles: Object.fromEntries((profiles || []).map(p => [p.id, p])) as Record<string, ActivityProfile>,
+      };
+    },
+    enabled: !!taskId,
+    staleTime: 30 * 1000,
+  });
+
+  const profiles = data?.profiles || {};
+  const userName = (id: string | null) => {
+    if (!id) return 'System';
+    return profiles[id]?.full_name || profiles[id]?.email || 'Unknown user';
+  };
+
+  return {
+    entries: data?.entries || [],
+    userName,
+    loading,
+    refetch,
+  };
+}
@@ -0,0 +1,202 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useDocumentManagement, type Document } from '@/hooks/useDocumentManagement';
+
+export interface TaskAttachment {
+  id: string;
+  task_id: string;
+  file_name: string;
+  file_url: string;
+  file_type: string | null;
+  file_size: number | null;
+  uploaded_by: string | null;
+  document_id: string | null;
+  created_at: string | null;
+  uploader_name?: string;
+}
+
+/**
+ * Upload a file into the project's storage and attach it to a task.
+ * Shared by the task drawer and the Kanban card drop target.
+ */
+export async function uploadTaskAttachment(
+  task: { id: string; project_id?: string },
+  file: File,
+  userId: string
+) {
+  const filePath = `${task.project_id || 'unassigned'}/tasks/${task.id}/${Date.now()}-${file.name}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from('project-documents')
+    .upload(filePath, file);
+
+  if (uploadError) throw uploadError;
+
+  const { data: urlData } = supabase.storage
+    .from('project-documents')
+    .getPublicUrl(filePath);
+
+  const { error } = await supabase.from('task_attachments').insert({
+    task_id: task.id,
+    file_name: file.name,
+    file_url: urlData.publicUrl,
+    file_type: file.type || null,
+    file_size: file.size,
+    uploaded_by: userId,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Present an attachment in the shape `DocumentPreviewDialog` expects
+ */
+export function attachmentToDocument(attachment: TaskAttachment, projectId: string): Document {
+  return {
+    id: attachment.id,
+    project_id: projectId,
+    department_id: null,
+    folder_id: null,
+    name: attachment.file_name,
+    file_url: attachment.file_url,
+    file_type: attachment.file_type,
+    file_size: attachment.file_size,
+    uploaded_by: attachment.uploaded_by,
+    created_at: attachment.created_at || new Date().toISOString(),
+    updated_at: attachment.created_at || new Date().toISOString(),
+    uploader_name: attachment.uploader_name,
+  };
+}
+
+export function useTaskAttachments(taskId: string | undefined, projectId: string | undefined) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { uploadDocument } = useDocumentManagement(projectId);
+
+  const queryKey = ['task-attachments', taskId];
+
+  const { data: attachments = [], isLoading: loading, refetch } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      if (!taskId) return [];
+
+      const { data, error } = await supabase
+        .from('task_attachments')
+        .select('*')
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const uploaderIds = [...new Set((data || []).map(a => a.uploaded_by).filter(Boolean))] as string[];
+      const { data: profiles } = uploaderIds.length > 0
+        ? await supabase.from('profiles').select('id, full_name, email').in('id', uploaderIds)
+        : { data: [] };
+
+      return (data || []).map(attachment => {
+        const profile = profiles?.find(p => p.id === attachment.uploaded_by);
+        return {
+          ...attachment,
+          uploader_name: profile?.full_name || profile?.email || undefined,
+        } as TaskAttachment;
+      });
+    },
+    enabled: !!taskId,
+    staleTime: 30 * 1000,
+  });
+
+  const invalidateAttachments = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['task-attachments', taskId] });
+  }, [queryClient, taskId]);
+
+  const uploadAttachments = async (files: File[]) => {
+    if (!taskId || !user || files.length === 0) return;
+
+    let uploaded = 0;
+    for (const file of files) {
+      try {
+        await uploadTaskAttachment({ id: taskId, project_id: projectId }, file, user.id);
+        uploaded++;
+      } catch (error) {
+        console.error('Error uploading attachment:', error);
+        toast({
+          title: 'Error',
+          description: `Failed to upload ${file.name}`,
+          variant: 'destructive',
+        });
+      }
+    }
+
+    if (uploaded > 0) {
+      toast({ title: `${uploaded} attachment${uploaded !== 1 ? 's' : ''} uploaded` });
+      invalidateAttachments();
+    }
+  };
+
+  const deleteAttachment = async (attachmentId: string) => {
+    try {
+      const { error } = await supabase
+        .from('task_attachments')
+        .delete()
+        .eq('id', attachmentId);
+
+      if (error) throw error;
+
+      toast({ title: 'Attachment removed' });
+      invalidateAttachments();
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to remove attachment',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Copy the file into the project's document library and remember the link
+  const promoteAttachment = async (attachment: TaskAttachment, departmentId?: string) => {
+    if (attachment.document_id) return;
+
+    try {
+      const response = await fetch(attachment.file_url);
+      if (!response.ok) throw new Error(`Failed to fetch ${attachment.file_name}`);
+      const blob = await response.blob();
+      const file = new File([blob], attachment.file_name, {
+        type: attachment.file_type || blob.type,
+      });
+
+      const document = await uploadDocument(file, departmentId);
+      if (!document) return;
+
+      const { error } = await supabase
+        .from('task_attachments')
+        .update({ document_id: document.id })
+        .eq('id', attachment.id);
+
+      if (error) throw error;
+
+      invalidateAttachments();
+    } catch (error) {
+      console.error('Error promoting attachment:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to add attachment to the document library',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return {
+    attachments,
+    loading,
+    uploadAttachments,
+    deleteAttachment,
+    promoteAttachment,
+    refetch,
+  };
+}
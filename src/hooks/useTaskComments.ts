@@ -0,0 +1,237 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from './use-toast';
+import { sendTaskMentionNotification } from './useEmailNotifications';
+import { extractMentionIds, mentionsToPlainText } from '@/lib/mentions';
+
+export interface TaskComment {
+  id: string;
+  task_id: string;
+  user_id: string;
+  comment: string;
+  created_at: string;
+  updated_at: string;
+  user?: {
+    full_name: string | null;
+    avatar_url: string | null;
+    email: string | null;
+  };
+}
+
+const fetchCommentAuthors = async (userIds: string[]) => {
+  if (userIds.length === 0) return [];
+  const { data } = await supabase
+    .from('profiles')
+    .select('id, full_name, avatar_url, email')
+    .in('id', userIds);
+  return data || [];
+};
+
+const notifyMentions = async (taskId: string, authorId: string, comment: string, userIds: string[]) => {
+  if (userIds.filter(id => id !== authorId).length === 0) return;
+
+  const [{ data: task }, { data: profile }] = await Promise.all([
+    supabase.from('tasks').select('title, project_id, projects(name)').eq('id', taskId).single(),
+    supabase.from('profiles').select('full_name, email').eq('id', authorId).single(),
+  ]);
+  if (!task) return;
+
+  await sendTaskMentionNotification({
+    task_id: taskId,
+    task_name: task.title,
+    project_id: task.project_id,
+    project_name: task.projects?.name || 'Project',
+    mentioned_by_id: authorId,
+    mentioned_by_name: profile?.full_name || profile?.email || 'Someone',
+    comment_preview: mentionsToPlainText(comment),
+    mentioned_user_ids: userIds,
+  });
+};
+
+export const useTaskComments = (taskId: string | null | undefined) => {
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!taskId) {
+      setComments([]);
+      setLoading(false);
+      return;
+    }
+
+    const fetchComments = async () => {
+      setLoading(true);
+
+      const { data: commentsData, error } = await supabase
+        .from('task_comments')
+        .select('*')
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        toast({
+          title: 'Error loading comments',
+          description: error.message,
+          variant: 'destructive',
+        });
+        setLoading(false);
+        return;
+      }
+
+      const profiles = await fetchCommentAuthors([...new Set((commentsData || []).map(c => c.user_id))]);
+      setComments((commentsData || []).map(comment => ({
+        ...comment,
+        user: profiles.find(p => p.id === comment.user_id),
+      })));
+      setLoading(false);
+    };
+
+    fetchComments();
+
+    const channel = supabase
+      .channel(`task-comments-${taskId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'task_comments',
+          filter: `task_id=eq.${taskId}`,
+        },
+        async (payload) => {
+          const comment = payload.new as TaskComment;
+          const [profile] = await fetchCommentAuthors([comment.user_id]);
+          setComments(prev =>
+            prev.some(c => c.id === comment.id) ? prev : [...prev, { ...comment, user: profile }]
+          );
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'task_comments',
+          filter: `task_id=eq.${taskId}`,
+        },
+        (payload) => {
+          setComments(prev =>
+            prev.map(c =>
+              c.id === payload.new.id
+                ? { ...c, comment: payload.new.comment, updated_at: payload.new.updated_at }
+                : c
+            )
+          );
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'task_comments',
+          filter: `task_id=eq.${taskId}`,
+        },
+        (payload) => {
+          setComments(prev => prev.filter(c => c.id !== payload.old.id));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [taskId, toast]);
+
+  const addComment = async (comment: string) => {
+    if (!taskId) return false;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast({
+        title: 'Error posting comment',
+        description: 'You must be logged in to comment',
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    const { data, error } = await supabase
+      .from('task_comments')
+      .insert({ task_id: taskId, user_id: user.id, comment })
+      .select()
+      .single();
+
+    if (error) {
+      toast({
+        title: 'Error posting comment',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    const [profile] = await fetchCommentAuthors([user.id]);
+    setComments(prev => prev.some(c => c.id === data.id) ? prev : [...prev, { ...data, user: profile }]);
+
+    // Notify mentioned users in the background (don't block the UI)
+    notifyMentions(taskId, user.id, comment, extractMentionIds(comment)).catch(notifyError =>
+      console.error('Error sending mention notification:', notifyError)
+    );
+
+    return true;
+  };
+
+  const editComment = async (commentId: string, comment: string) => {
+    const existing = comments.find(c => c.id === commentId);
+
+    const { error } = await supabase
+      .from('task_comments')
+      .update({ comment })
+      .eq('id', commentId);
+
+    if (error) {
+      toast({
+        title: 'Error editing comment',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    setComments(prev => prev.map(c => c.id === commentId ? { ...c, comment, updated_at: new Date().toISOString() } : c));
+
+    // Only people newly mentioned by the edit get notified
+    if (taskId && existing) {
+      const previousIds = extractMentionIds(existing.comment);
+      const addedIds = extractMentionIds(comment).filter(id => !previousIds.includes(id));
+      notifyMentions(taskId, existing.user_id, comment, addedIds).catch(notifyError =>
+        console.error('Error sending mention notification:', notifyError)
+      );
+    }
+
+    return true;
+  };
+
+  const deleteComment = async (commentId: string) => {
+    const { error } = await supabase
+      .from('task_comments')
+      .delete()
+      .eq('id', commentId);
+
+    if (error) {
+      toast({
+        title: 'Error deleting comment',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    setComments(prev => prev.filter(c => c.id !== commentId));
+    return true;
+  };
+
+  return { comments, loading, addComment, editComment, deleteComment };
+};
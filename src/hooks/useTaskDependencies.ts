@@ -0,0 +1,194 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  computeDependentShifts,
+  wouldCreateDependencyCycle,
+  type TaskDependency,
+  type TaskDateShift,
+} from '@/lib/taskDependencies';
+import { fetchWorkingCalendar } from '@/hooks/useWorkingCalendar';
+
+const CYCLE_ERROR_MESSAGE = 'This link would create a circular dependency. A task cannot (directly or indirectly) depend on itself.';
+
+export async function fetchProjectSchedule(projectId: string) {
+  const { data: tasks, error: tasksError } = await supabase
+    .from('tasks')
+    .select('id, title, start_date, due_date')
+    .eq('project_id', projectId);
+
+  if (tasksError) throw tasksError;
+
+  const taskIds = (tasks || []).map(t => t.id);
+  if (taskIds.length === 0) return { tasks: [], dependencies: [] as TaskDependency[] };
+
+  const { data: dependencies, error: depsError } = await supabase
+    .from('task_dependencies')
+    .select('id, task_id, depends_on_task_id')
+    .in('task_id', taskIds);
+
+  if (depsError) throw depsError;
+
+  return { tasks: tasks || [], dependencies: (dependencies || []) as TaskDependency[] };
+}
+
+/**
+ * Push every task that (transitively) depends on `taskIds` forward so it starts
+ * after its predecessors finish. Returns the shifts that were written.
+ */
+export async function rescheduleDependentTasks(projectId: string, taskIds: string | string[]): Promise<TaskDateShift[]> {
+  const [{ tasks, dependencies }, calendar] = await Promise.all([
+    fetchProjectSchedule(projectId),
+    fetchWorkingCalendar(projectId),
+  ]);
+  const shifts = computeDependentShifts(tasks, dependencies, Array.isArray(taskIds) ? taskIds : [taskIds], calendar);
+
+  for (const shift of shifts) {
+    const { error } = await supabase
+      .from('tasks')
+      .update({ start_date: shift.start_date, due_date: shift.due_date })
+      .eq('id', shift.id);
+
+    if (error) throw error;
+  }
+
+  return shifts;
+}
+
+export function useTaskDependencies(projectId: string | undefined) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const queryKey = ['task-dependencies', projectId];
+
+  const { data: dependencies = [], isLoading: loading, refetch } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      if (!projectId) return [];
+      const { dependencies } = await fetchProjectSchedule(projectId);
+      return dependencies;
+    },
+    enabled: !!projectId,
+    staleTime: 60 * 1000,
+  });
+
+  const notifyShifts = useCallback((shifts: TaskDateShift[]) => {
+    if (shifts.length === 0) return;
+    toast({
+      title: 'Schedule updated',
+      description: `${shifts.length} dependent task${shifts.length !== 1 ? 's were' : ' was'} moved to start after ${shifts.length !== 1 ? 'their' : 'its'} predecessors.`,
+    });
+  }, [toast]);
+
+  const addDependencyMutation = useMutation({
+    mutationFn: async ({ predecessorId, successorId }: { predecessorId: string; successorId: string }) => {
+      if (!projectId) throw new Error('Missing project');
+
+      // Check against fresh data so concurrent edits cannot sneak a cycle past us
+      const { dependencies: current } = await fetchProjectSchedule(projectId);
+      if (wouldCreateDependencyCycle(current, successorId, predecessorId)) {
+        throw new Error(CYCLE_ERROR_MESSAGE);
+      }
+
+      const { error } = await supabase.from('task_dependencies').insert({
+        task_id: successorId,
+        depends_on_task_id: predecessorId,
+      });
+
+      if (error) {
+        if (error.message?.toLowerCase().includes('circular')) throw new Error(CYCLE_ERROR_MESSAGE);
+        throw error;
+      }
+
+      return rescheduleDependentTasks(projectId, predecessorId);
+    },
+    onSuccess: (shifts) => {
+      toast({ title: 'Dependency added' });
+      notifyShifts(shifts);
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ['critical-path', projectId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Cannot link tasks',
+        description: error.message || 'Failed to add dependency',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const removeDependencyMutation = useMutation({
+    mutationFn: async (dependencyId: string) => {
+      const { error } = await supabase
+        .from('task_dependencies')
+        .delete()
+        .eq('id', dependencyId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({ title: 'Dependency removed' });
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ['critical-path', projectId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to remove dependency',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const addDependency = useCallback((predecessorId: string, successorId: string) => {
+    return addDependencyMutation.mutateAsync({ predecessorId, successorId });
+  }, [addDependencyMutation]);
+
+  const removeDependency = useCallback((dependencyId: string) => {
+    return removeDependencyMutation.mutateAsync(dependencyId);
+  }, [removeDependencyMutation]);
+
+  // Dragging from one bar onto another links them, or unlinks them if already linked
+  const toggleDependency = useCallback(async (predecessorId: string, successorId: string) => {
+    const existing = dependencies.find(
+      d => d.depends_on_task_id === predecessorId && d.task_id === successorId
+    );
+    try {
+      if (existing) {
+        await removeDependency(existing.id);
+      } else {
+        await addDependency(predecessorId, successorId);
+      }
+    } catch {
+      // Surfaced through the mutation's onError toast
+    }
+  }, [dependencies, addDependency, removeDependency]);
+
+  const rescheduleDependents = useCallback(async (taskId: string) => {
+    if (!projectId) return [];
+    try {
+      const shifts = await rescheduleDependentTasks(projectId, taskId);
+      notifyShifts(shifts);
+      queryClient.invalidateQueries({ queryKey: ['critical-path', projectId] });
+      return shifts;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to reschedule dependent tasks',
+        variant: 'destructive',
+      });
+      return [];
+    }
+  }, [projectId, notifyShifts, toast, queryClient]);
+
+  return {
+    dependencies,
+    loading,
+    addDependency,
+    removeDependency,
+    toggleDependency,
+    rescheduleDependents,
+    refetch,
+  };
+}
@@ -0,0 +1,149 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { syncTaskAssignments } from '@/lib/taskAssignments';
+import type { RecurrenceRule } from '@/lib/recurrence';
+
+const RULE_COLUMNS = 'id, frequency, interval_count, weekdays, generate_on, ends_on';
+
+export interface TaskRecurrence extends RecurrenceRule {
+  id: string;
+}
+
+/** Task fields that are copied to every open task when a series is edited */
+export interface SeriesUpdates {
+  title?: string;
+  element_id?: string | null;
+  assignee_department_id?: string;
+  estimated_cost?: number;
+  labels?: string[];
+}
+
+/**
+ * Repeat rule of a recurring task series, plus the number of its tasks still open
+ */
+export function useTaskRecurrence(recurrenceId: string | null | undefined) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const queryKey = ['task-recurrence', recurrenceId];
+
+  const { data, isLoading: loading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const [ruleRes, openRes] = await Promise.all([
+        supabase.from('task_recurrences').select(RULE_COLUMNS).eq('id', recurrenceId!).maybeSingle(),
+        supabase
+          .from('tasks')
+          .select('id', { count: 'exact', head: true })
+          .eq('recurrence_id', recurrenceId!)
+          .neq('status_category', 'done'),
+      ]);
+
+      if (ruleRes.error) throw ruleRes.error;
+      if (openRes.error) throw openRes.error;
+      return {
+        recurrence: ruleRes.data as TaskRecurrence | null,
+        openCount: openRes.count || 0,
+      };
+    },
+    enabled: !!recurrenceId,
+  });
+
+  const showError = (message: string) => toast({ title: 'Error', description: message, variant: 'destructive' });
+
+  // Create the rule for a task that didn't repeat yet, or change the existing one
+  const saveRecurrence = async (taskId: string, projectId: string, rule: RecurrenceRule): Promise<string | null> => {
+    const values = {
+      frequency: rule.frequency,
+      interval_count: Math.max(1, rule.interval_count),
+      weekdays: rule.frequency === 'weekly' ? rule.weekdays : [],
+      generate_on: rule.generate_on,
+      ends_on: rule.ends_on || null,
+    };
+
+    if (recurrenceId) {
+      const { error } = await supabase.from('task_recurrences').update(values).eq('id', recurrenceId);
+      queryClient.invalidateQueries({ queryKey });
+      if (error) {
+        showError(error.message);
+        return null;
+      }
+      return recurrenceId;
+    }
+
+    const { data: created, error } = await supabase
+      .from('task_recurrences')
+      .insert({ ...values, project_id: projectId, created_by: user?.id })
+      .select('id')
+      .single();
+
+    if (error) {
+      showError(error.message);
+      return null;
+    }
+
+    const { error: linkError } = await supabase.from('tasks').update({ recurrence_id: created.id }).eq('id', taskId);
+    if (linkError) {
+      showError(linkError.message);
+      return null;
+    }
+    return created.id;
+  };
+
+  // Tasks already created stay; no new ones are generated
+  const stopRecurrence = async () => {
+    if (!recurrenceId) return true;
+    const { error } = await supabase.from('task_recurrences').delete().eq('id', recurrenceId);
+    queryClient.invalidateQueries({ queryKey });
+    if (error) {
+      showError(error.message);
+      return false;
+    }
+    return true;
+  };
+
+  // Copy the edited fields to the other open tasks of the series; the newest one
+  // is the template for future instances
+  const applyToSeries = async (exceptTaskId: string, updates: SeriesUpdates, userIds: string[]) => {
+    if (!recurrenceId) return true;
+
+    const { data: openTasks, error } = await supabase
+      .from('tasks')
+      .select('id')
+      .eq('recurrence_id', recurrenceId)
+      .neq('status_category', 'done')
+      .neq('id', exceptTaskId);
+
+    if (error) {
+      showError(error.message);
+      return false;
+    }
+
+    const ids = (openTasks || []).map(t => t.id);
+    if (ids.length === 0) return true;
+
+    try {
+      const { error: updateError } = await supabase.from('tasks').update(updates).in('id', ids);
+      if (updateError) throw updateError;
+      for (const id of ids) {
+        await syncTaskAssignments(id, userIds);
+      }
+    } catch (err) {
+      showError((err as Error).message);
+      return false;
+    }
+    return true;
+  };
+
+  return {
+    recurrence: data?.recurrence ?? null,
+    openCount: data?.openCount ?? 0,
+    loading,
+    saveRecurrence,
+    stopRecurrence,
+    applyToSeries,
+  };
+}
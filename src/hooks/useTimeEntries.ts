@@ -0,0 +1,168 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { isLockedTimesheetStatus, type TimeEntry } from '@/lib/timeTracking';
+
+export interface TaskTimeEntry extends TimeEntry {
+  user_name?: string;
+  locked: boolean;
+}
+
+export interface RunningTimer extends TimeEntry {
+  task_title: string;
+}
+
+/**
+ * Refresh every view that shows time entries or the hours rolled up from them
+ */
+function useInvalidateTimeTracking() {
+  const queryClient = useQueryClient();
+  return useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['time-entries'] });
+    queryClient.invalidateQueries({ queryKey: ['running-timer'] });
+    queryClient.invalidateQueries({ queryKey: ['timesheet'] });
+  }, [queryClient]);
+}
+
+export function useTaskTimeEntries(taskId: string | undefined) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const invalidate = useInvalidateTimeTracking();
+
+  const { data: entries = [], isLoading: loading } = useQuery({
+    queryKey: ['time-entries', 'task', taskId],
+    queryFn: async () => {
+      if (!taskId) return [];
+
+      const { data, error } = await supabase
+        .from('time_entries')
+        .select('id, task_id, user_id, started_at, ended_at, note, timesheet_id, timesheets(status)')
+        .eq('task_id', taskId)
+        .order('started_at', { ascending: false });
+
+      if (error) throw error;
+
+      const userIds = [...new Set((data || []).map(e => e.user_id))];
+      const { data: profiles } = userIds.length > 0
+        ? await supabase.from('profiles').select('id, full_name, email').in('id', userIds)
+        : { data: [] };
+
+      return (data || []).map(({ timesheets, ...entry }) => {
+        const profile = profiles?.find(p => p.id === entry.user_id);
+        return {
+          ...entry,
+          user_name: profile?.full_name || profile?.email || undefined,
+          locked: isLockedTimesheetStatus(timesheets?.status),
+        } as TaskTimeEntry;
+      });
+    },
+    enabled: !!taskId,
+    staleTime: 30 * 1000,
+  });
+
+  const addEntry = async (entry: { started_at: string; ended_at: string; note?: string }) => {
+    if (!taskId || !user) return false;
+
+    const { error } = await supabase.from('time_entries').insert({
+      task_id: taskId,
+      user_id: user.id,
+      started_at: entry.started_at,
+      ended_at: entry.ended_at,
+      note: entry.note?.trim() || null,
+    });
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return false;
+    }
+
+    invalidate();
+    return true;
+  };
+
+  const deleteEntry = async (entryId: string) => {
+    const { error } = await supabase.from('time_entries').delete().eq('id', entryId);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return false;
+    }
+
+    invalidate();
+    return true;
+  };
+
+  return { entries, loading, addEntry, deleteEntry };
+}
+
+/**
+ * The current user's running timer. Starting a timer stops any other one first,
+ * since each user can only have one running entry.
+ */
+export function useRunningTimer() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const invalidate = useInvalidateTimeTracking();
+
+  const { data: runningTimer = null, isLoading: loading } = useQuery({
+    queryKey: ['running-timer', user?.id],
+    queryFn: async () => {
+      if (!user) return null;
+
+      const { data, error } = await supabase
+        .from('time_entries')
+        .select('id, task_id, user_id, started_at, ended_at, note, timesheet_id, tasks(title)')
+        .eq('user_id', user.id)
+        .is('ended_at', null)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      const { tasks, ...entry } = data;
+      return { ...entry, task_title: tasks?.title || 'Task' } as RunningTimer;
+    },
+    enabled: !!user,
+    staleTime: 60 * 1000,
+  });
+
+  const stopTimer = async () => {
+    if (!runningTimer) return true;
+
+    const { error } = await supabase
+      .from('time_entries')
+      .update({ ended_at: new Date().toISOString() })
+      .eq('id', runningTimer.id);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return false;
+    }
+
+    invalidate();
+    return true;
+  };
+
+  const startTimer = async (taskId: string) => {
+    if (!user) return false;
+    if (!(await stopTimer())) return false;
+
+    const { error } = await supabase.from('time_entries').insert({
+      task_id: taskId,
+      user_id: user.id,
+      started_at: new Date().toISOString(),
+    });
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return false;
+    }
+
+    invalidate();
+    return true;
+  };
+
+  return { runningTimer, loading, startTimer, stopTimer };
+}
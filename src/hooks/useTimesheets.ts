@@ -0,0 +1,346 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { addDays, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useLedDepartmentIds } from '@/hooks/useDepartmentLead';
+import type { TimeEntry, TimesheetExportEntry, TimesheetStatus } from '@/lib/timeTracking';
+
+export interface Timesheet {
+  id: string;
+  user_id: string;
+  department_id: string;
+  week_start: string;
+  status: TimesheetStatus;
+  submitted_at: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+}
+
+export interface TimesheetEntry extends TimeEntry {
+  task_title: string;
+  project_name: string;
+  department_id: string | null;
+  department_name: string;
+}
+
+/**
+ * One user's hours for a department in a week, with its timesheet if one was started
+ */
+export interface WeeklyDepartmentSheet {
+  departmentId: string | null;
+  departmentName: string;
+  projectName: string;
+  entries: TimesheetEntry[];
+  timesheet: Timesheet | null;
+}
+
+export interface TimesheetForReview extends Timesheet {
+  user_name: string;
+  department_name: string;
+  project_name: string;
+  entries: TimesheetEntry[];
+}
+
+const ENTRY_SELECT = `
+  id, task_id, user_id, started_at, ended_at, note, timesheet_id,
+  tasks(title, assignee_department_id, projects(name), departments!tasks_assignee_department_id_fkey(name))
+`;
+
+interface EntryRow extends TimeEntry {
+  tasks: {
+    title: string;
+    assignee_department_id: string | null;
+    projects: { name: string } | null;
+    departments: { name: string } | null;
+  } | null;
+}
+
+const toTimesheetEntry = ({ tasks, ...entry }: EntryRow): TimesheetEntry => ({
+  ...entry,
+  task_title: tasks?.title || 'Deleted task',
+  project_name: tasks?.projects?.name || '',
+  department_id: tasks?.assignee_department_id || null,
+  department_name: tasks?.departments?.name || 'No department',
+});
+
+/** Distinct titles of the tasks a sheet's hours were logged on */
+export const getSheetTaskTitles = (sheet: WeeklyDepartmentSheet) => [...new Set(sheet.entries.map(e => e.task_title))];
+
+// Local-time bounds of a week, so entries land on the day the user worked them
+const getWeekRange = (weekStart: string) => ({
+  from: parseISO(weekStart).toISOString(),
+  to: addDays(parseISO(weekStart), 7).toISOString(),
+});
+
+async function fetchProfileNames(userIds: string[]) {
+  if (userIds.length === 0) return {} as Record<string, string>;
+
+  const { data } = await supabase.from('profiles').select('id, full_name, email').in('id', userIds);
+  return (data || []).reduce((acc, p) => {
+    acc[p.id] = p.full_name || p.email;
+    return acc;
+  }, {} as Record<string, string>);
+}
+
+export function useWeeklyTimesheet(weekStart: string) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const queryKey = ['timesheet', 'week', user?.id, weekStart];
+
+  const { data, isLoading: loading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      if (!user) return { entries: [], timesheets: [] };
+
+      const { from, to } = getWeekRange(weekStart);
+      const [entriesResult, timesheetsResult] = await Promise.all([
+        supabase
+          .from('time_entries')
+          .select(ENTRY_SELECT)
+          .eq('user_id', user.id)
+          .gte('started_at', from)
+          .lt('started_at', to)
+          .order('started_at', { ascending: true }),
+        supabase
+          .from('timesheets')
+          .select('*')
+          .eq('user_id', user.id)
+          .eq('week_start', weekStart),
+      ]);
+
+      if (entriesResult.error) throw entriesResult.error;
+      if (timesheetsResult.error) throw timesheetsResult.error;
+
+      return {
+        entries: ((entriesResult.data || []) as unknown as EntryRow[]).map(toTimesheetEntry),
+        timesheets: (timesheetsResult.data || []) as Timesheet[],
+      };
+    },
+    enabled: !!user,
+    staleTime: 30 * 1000,
+  });
+
+  const sheets = useMemo<WeeklyDepartmentSheet[]>(() => {
+    const byDepartment = new Map<string, WeeklyDepartmentSheet>();
+    (data?.entries || []).forEach(entry => {
+      const key = entry.department_id || 'none';
+      if (!byDepartment.has(key)) {
+        byDepartment.set(key, {
+          departmentId: entry.department_id,
+          departmentName: entry.department_name,
+          projectName: entry.project_name,
+          entries: [],
+          timesheet: data?.timesheets.find(t => t.department_id === entry.department_id) || null,
+        });
+      }
+      byDepartment.get(key)!.entries.push(entry);
+    });
+    // Keep weeks that were submitted even if all their entries were since removed
+    (data?.timesheets || []).forEach(timesheet => {
+      if (byDepartment.has(timesheet.department_id)) return;
+      byDepartment.set(timesheet.department_id, {
+        departmentId: timesheet.department_id,
+        departmentName: 'Department',
+        projectName: '',
+        entries: [],
+        timesheet,
+      });
+    });
+    return [...byDepartment.values()].sort((a, b) =>
+      `${a.projectName} ${a.departmentName}`.localeCompare(`${b.projectName} ${b.departmentName}`)
+    );
+  }, [data]);
+
+  const invalidate = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['timesheet'] });
+    queryClient.invalidateQueries({ queryKey: ['time-entries'] });
+  }, [queryClient]);
+
+  const submitTimesheet = async (sheet: WeeklyDepartmentSheet) => {
+    if (!user) return false;
+
+    // Timesheets are approved per department; hours on tasks without one need the task fixed first
+    if (!sheet.departmentId) {
+      toast({
+        title: 'No department',
+        description: `Assign ${getSheetTaskTitles(sheet).join(', ')} to a department before submitting these hours.`,
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    if (sheet.entries.some(e => !e.ended_at)) {
+      toast({ title: 'Timer still running', description: 'Stop the running timer before submitting this week.', variant: 'destructive' });
+      return false;
+    }
+
+    let timesheetId = sheet.timesheet?.id;
+    if (!timesheetId) {
+      const { data: created, error } = await supabase
+        .from('timesheets')
+        .insert({ user_id: user.id, department_id: sheet.departmentId, week_start: weekStart })
+        .select('id')
+        .single();
+
+      if (error) {
+        toast({ title: 'Error', description: error.message, variant: 'destructive' });
+        return false;
+      }
+      timesheetId = created.id;
+    }
+
+    // Attach the week's entries before the status change locks them
+    const { error: attachError } = await supabase
+      .from('time_entries')
+      .update({ timesheet_id: timesheetId })
+      .in('id', sheet.entries.map(e => e.id));
+
+    if (attachError) {
+      toast({ title: 'Error', description: attachError.message, variant: 'destructive' });
+      return false;
+    }
+
+    const { error } = await supabase
+      .from('timesheets')
+      .update({ status: 'submitted' })
+      .eq('id', timesheetId);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return false;
+    }
+
+    toast({ title: 'Timesheet submitted', description: `${sheet.departmentName} hours were sent for approval` });
+    invalidate();
+    return true;
+  };
+
+  const withdrawTimesheet = async (sheet: WeeklyDepartmentSheet) => {
+    if (!sheet.timesheet) return false;
+
+    const { error } = await supabase
+      .from('timesheets')
+      .update({ status: 'draft' })
+      .eq('id', sheet.timesheet.id);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return false;
+    }
+
+    invalidate();
+    return true;
+  };
+
+  return { sheets, loading, submitTimesheet, withdrawTimesheet };
+}
+
+/**
+ * Submitted timesheets waiting on the current user as admin or department lead
+ */
+export function useTimesheetApprovals() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { isAdmin } = useUserRole();
+  const { departmentIds } = useLedDepartmentIds();
+
+  const canReview = isAdmin || departmentIds.length > 0;
+
+  const { data: pending = [], isLoading: loading } = useQuery({
+    queryKey: ['timesheet', 'approvals', user?.id, isAdmin, departmentIds],
+    queryFn: async () => {
+      let query = supabase
+        .from('timesheets')
+        .select('*, departments(name, projects(name))')
+        .eq('status', 'submitted')
+        .order('week_start', { ascending: true });
+
+      if (!isAdmin) query = query.in('department_id', departmentIds);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const timesheets = (data || []).filter(t => isAdmin || t.user_id !== user?.id);
+      if (timesheets.length === 0) return [];
+
+      const { data: entryRows, error: entriesError } = await supabase
+        .from('time_entries')
+        .select(ENTRY_SELECT)
+        .in('timesheet_id', timesheets.map(t => t.id))
+        .order('started_at', { ascending: true });
+
+      if (entriesError) throw entriesError;
+
+      const entries = ((entryRows || []) as unknown as EntryRow[]).map(toTimesheetEntry);
+      const names = await fetchProfileNames([...new Set(timesheets.map(t => t.user_id))]);
+
+      return timesheets.map(({ departments, ...timesheet }) => ({
+        ...timesheet,
+        status: timesheet.status as TimesheetStatus,
+        user_name: names[timesheet.user_id] || 'Unknown',
+        department_name: departments?.name || 'Department',
+        project_name: departments?.projects?.name || '',
+        entries: entries.filter(e => e.timesheet_id === timesheet.id),
+      })) as TimesheetForReview[];
+    },
+    enabled: !!user && canReview,
+    staleTime: 30 * 1000,
+  });
+
+  const reviewTimesheet = async (timesheetId: string, status: 'approved' | 'rejected', note?: string) => {
+    const { error } = await supabase
+      .from('timesheets')
+      .update({ status, review_note: note?.trim() || null })
+      .eq('id', timesheetId);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return false;
+    }
+
+    toast({ title: status === 'approved' ? 'Timesheet approved' : 'Timesheet returned for changes' });
+    queryClient.invalidateQueries({ queryKey: ['timesheet'] });
+    return true;
+  };
+
+  return {
+    pending,
+    loading,
+    canReview,
+    approveTimesheet: (timesheetId: string) => reviewTimesheet(timesheetId, 'approved'),
+    rejectTimesheet: (timesheetId: string, note: string) => reviewTimesheet(timesheetId, 'rejected', note),
+  };
+}
+
+/**
+ * Approved time entries started between two dates (inclusive), ready for billing export
+ */
+export async function fetchApprovedTimeEntries(fromDate: string, toDate: string): Promise<TimesheetExportEntry[]> {
+  const { data, error } = await supabase
+    .from('time_entries')
+    .select(`${ENTRY_SELECT}, timesheets!inner(status, reviewed_by)`)
+    .eq('timesheets.status', 'approved')
+    .gte('started_at', parseISO(fromDate).toISOString())
+    .lt('started_at', addDays(parseISO(toDate), 1).toISOString())
+    .order('started_at', { ascending: true });
+
+  if (error) throw error;
+
+  const rows = (data || []) as unknown as (EntryRow & { timesheets: { reviewed_by: string | null } })[];
+  const names = await fetchProfileNames([
+    ...new Set(rows.flatMap(r => [r.user_id, r.timesheets.reviewed_by]).filter(Boolean) as string[]),
+  ]);
+
+  return rows.map(({ timesheets, ...row }) => ({
+    ...toTimesheetEntry(row),
+    user_name: names[row.user_id] || 'Unknown',
+    approved_by_name: timesheets.reviewed_by ? names[timesheets.reviewed_by] : undefined,
+  }));
+}
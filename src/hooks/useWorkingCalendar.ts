@@ -0,0 +1,189 @@
+import { useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  buildWorkingCalendar,
+  type CalendarDay,
+  type CalendarDayKind,
+  type WorkingCalendar,
+} from '@/lib/workingDays';
+
+export interface StoredCalendarDay extends CalendarDay {
+  id: string;
+}
+
+interface CalendarLevel {
+  /** working_calendars row id, null until the weekend is first saved */
+  id: string | null;
+  /** null on a project means it uses the organisation weekend */
+  weekendDays: number[] | null;
+  days: StoredCalendarDay[];
+}
+
+const EMPTY_LEVEL: CalendarLevel = { id: null, weekendDays: null, days: [] };
+
+async function fetchCalendarLevel(projectId: string | null): Promise<CalendarLevel> {
+  let settingsQuery = supabase.from('working_calendars').select('id, weekend_days');
+  let daysQuery = supabase.from('working_calendar_days').select('id, date, name, kind').order('date');
+  if (projectId) {
+    settingsQuery = settingsQuery.eq('project_id', projectId);
+    daysQuery = daysQuery.eq('project_id', projectId);
+  } else {
+    settingsQuery = settingsQuery.is('project_id', null);
+    daysQuery = daysQuery.is('project_id', null);
+  }
+
+  const [{ data: settings, error: settingsError }, { data: days, error: daysError }] = await Promise.all([
+    settingsQuery.maybeSingle(),
+    daysQuery,
+  ]);
+  if (settingsError) throw settingsError;
+  if (daysError) throw daysError;
+
+  return {
+    id: settings?.id ?? null,
+    weekendDays: settings?.weekend_days ?? null,
+    days: (days || []).map(d => ({ ...d, kind: d.kind as CalendarDayKind })),
+  };
+}
+
+/**
+ * The organisation calendar merged with the project's, for code that runs
+ * outside a component (scheduling, template building)
+ */
+export async function fetchWorkingCalendar(projectId?: string | null): Promise<WorkingCalendar> {
+  const [organisation, project] = await Promise.all([
+    fetchCalendarLevel(null),
+    projectId ? fetchCalendarLevel(projectId) : Promise.resolve(null),
+  ]);
+  return buildWorkingCalendar(organisation, project);
+}
+
+/**
+ * The organisation calendar and each project's merged calendar, for views that
+ * span projects. Projects without calendar rows get the organisation's.
+ */
+export async function fetchProjectCalendars(
+  projectIds: string[]
+): Promise<{ organisation: WorkingCalendar; projects: Map<string, WorkingCalendar> }> {
+  const ids = Array.from(new Set(projectIds));
+  const [organisation, settingsResult, daysResult] = await Promise.all([
+    fetchCalendarLevel(null),
+    ids.length > 0
+      ? supabase.from('working_calendars').select('project_id, weekend_days').in('project_id', ids)
+      : Promise.resolve({ data: [], error: null }),
+    ids.length > 0
+      ? supabase.from('working_calendar_days').select('project_id, date, name, kind').in('project_id', ids)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+  if (settingsResult.error) throw settingsResult.error;
+  if (daysResult.error) throw daysResult.error;
+
+  const projects = new Map(ids.map(id => {
+    const settings = (settingsResult.data || []).find(row => row.project_id === id);
+    const days = (daysResult.data || [])
+      .filter(row => row.project_id === id)
+      .map(row => ({ date: row.date, name: row.name, kind: row.kind as CalendarDayKind }));
+    return [id, buildWorkingCalendar(organisation, { weekendDays: settings?.weekend_days ?? null, days })];
+  }));
+
+  return { organisation: buildWorkingCalendar(organisation), projects };
+}
+
+/**
+ * Organisation working calendar, merged with the project's when a project is
+ * given. Pass `calendar` to the working-day helpers in src/lib/workingDays.ts
+ * so durations, overdue counts and scheduling follow it.
+ */
+export function useWorkingCalendar(projectId?: string | null) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: organisation = EMPTY_LEVEL, isLoading: organisationLoading } = useQuery({
+    queryKey: ['working-calendar', null],
+    queryFn: () => fetchCalendarLevel(null),
+    enabled: !!user,
+    staleTime: 10 * 60 * 1000,
+  });
+
+  const { data: project = EMPTY_LEVEL, isLoading: projectLoading } = useQuery({
+    queryKey: ['working-calendar', projectId],
+    queryFn: () => fetchCalendarLevel(projectId!),
+    enabled: !!user && !!projectId,
+    staleTime: 10 * 60 * 1000,
+  });
+
+  const calendar = useMemo(
+    () => buildWorkingCalendar(organisation, projectId ? project : null),
+    [organisation, project, projectId]
+  );
+
+  const level = projectId ? project : organisation;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['working-calendar'] });
+  };
+
+  const showError = (message: string) => toast({ title: 'Error', description: message, variant: 'destructive' });
+
+  // Edits apply to the project calendar when a project is given, otherwise to the organisation's
+  const saveWeekendDays = async (weekendDays: number[] | null) => {
+    const { error } = level.id
+      ? await supabase.from('working_calendars').update({ weekend_days: weekendDays }).eq('id', level.id)
+      : await supabase.from('working_calendars').insert({ project_id: projectId || null, weekend_days: weekendDays });
+
+    invalidate();
+    if (error) {
+      showError(error.message);
+      return false;
+    }
+    return true;
+  };
+
+  /** Add days, skipping dates the calendar already has. Returns how many were added. */
+  const addCalendarDays = async (days: CalendarDay[]) => {
+    const existing = new Set(level.days.map(d => d.date));
+    const fresh = days.filter(d => !existing.has(d.date));
+    if (fresh.length === 0) return 0;
+
+    const { error } = await supabase.from('working_calendar_days').insert(
+      fresh.map(d => ({
+        project_id: projectId || null,
+        date: d.date,
+        name: d.name.trim(),
+        kind: d.kind,
+        created_by: user?.id ?? null,
+      }))
+    );
+
+    invalidate();
+    if (error) {
+      showError(error.code === '23505' ? 'That date is already in the calendar' : error.message);
+      return null;
+    }
+    return fresh.length;
+  };
+
+  const removeCalendarDay = async (id: string) => {
+    const { error } = await supabase.from('working_calendar_days').delete().eq('id', id);
+    invalidate();
+    if (error) {
+      showError(error.message);
+      return false;
+    }
+    return true;
+  };
+
+  return {
+    calendar,
+    organisation,
+    project: projectId ? project : null,
+    loading: organisationLoading || (!!projectId && projectLoading),
+    saveWeekendDays,
+    addCalendarDays,
+    removeCalendarDay,
+  };
+}
@@ -0,0 +1,150 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { fetchProjectCalendars } from '@/hooks/useWorkingCalendar';
+import { syncTaskAssignments } from '@/lib/taskAssignments';
+import { DEFAULT_DAILY_CAPACITY, reassignIds, type WorkloadCalendars, type WorkloadPerson, type WorkloadTask } from '@/lib/workload';
+import { DEFAULT_WORKING_CALENDAR } from '@/lib/workingDays';
+
+const NO_CALENDARS: WorkloadCalendars = { organisation: DEFAULT_WORKING_CALENDAR, projects: new Map() };
+
+const TASK_SELECT = `
+  id, title, project_id, parent_task_id, start_date, due_date, estimate_hours, assignee_user_id,
+  projects(name),
+  departments!tasks_assignee_department_id_fkey(name),
+  task_assignments(user_id)
+`;
+
+interface TaskRow {
+  id: string;
+  title: string;
+  project_id: string;
+  parent_task_id: string | null;
+  start_date: string | null;
+  due_date: string | null;
+  estimate_hours: number | null;
+  assignee_user_id: string | null;
+  projects: { name: string } | null;
+  departments: { name: string } | null;
+  task_assignments: { user_id: string }[];
+}
+
+/**
+ * Open tasks overlapping a date range in every project the user can see, with
+ * everyone's capacity and the working calendars of the projects involved.
+ * Parent tasks are left out when their subtasks are in range so the same work
+ * is not counted twice.
+ */
+export function useWorkload(rangeStart: string, rangeEnd: string) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const queryKey = ['workload', rangeStart, rangeEnd];
+
+  const { data, isLoading: loading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const [tasksResult, profilesResult, capacitiesResult] = await Promise.all([
+        supabase
+          .from('tasks')
+          .select(TASK_SELECT)
+          .neq('status_category', 'done')
+          .or(`and(start_date.lte.${rangeEnd},due_date.gte.${rangeStart}),and(start_date.is.null,due_date.gte.${rangeStart},due_date.lte.${rangeEnd})`),
+        supabase.from('profiles').select('id, full_name, email').order('full_name'),
+        supabase.from('user_capacities').select('user_id, hours_per_day'),
+      ]);
+
+      if (tasksResult.error) throw tasksResult.error;
+      if (profilesResult.error) throw profilesResult.error;
+      if (capacitiesResult.error) throw capacitiesResult.error;
+
+      const rows = (tasksResult.data || []) as unknown as TaskRow[];
+      const parentIds = new Set(rows.map(t => t.parent_task_id).filter(Boolean));
+
+      const tasks: WorkloadTask[] = rows
+        .filter(t => !parentIds.has(t.id))
+        .map(t => {
+          const assignees = new Set(t.task_assignments.map(a => a.user_id));
+          if (t.assignee_user_id) assignees.add(t.assignee_user_id);
+          return {
+            id: t.id,
+            title: t.title,
+            project_id: t.project_id,
+            project_name: t.projects?.name || 'Unknown project',
+            department_name: t.departments?.name || null,
+            start_date: t.start_date,
+            due_date: t.due_date,
+            estimate_hours: t.estimate_hours,
+            assignee_ids: Array.from(assignees),
+          };
+        });
+
+      const capacities = new Map((capacitiesResult.data || []).map(c => [c.user_id, Number(c.hours_per_day)]));
+      const people: WorkloadPerson[] = (profilesResult.data || []).map(p => ({
+        id: p.id,
+        name: p.full_name || p.email || 'Unknown user',
+        hoursPerDay: capacities.get(p.id) ?? DEFAULT_DAILY_CAPACITY,
+      }));
+
+      const calendars = await fetchProjectCalendars(tasks.map(t => t.project_id));
+
+      return { tasks, people, calendars };
+    },
+    enabled: !!user && !!rangeStart && !!rangeEnd,
+    staleTime: 60 * 1000,
+  });
+
+  const showError = (message: string) => toast({ title: 'Error', description: message, variant: 'destructive' });
+
+  const setCapacity = async (userId: string, hoursPerDay: number) => {
+    const { error } = await supabase
+      .from('user_capacities')
+      .upsert({ user_id: userId, hours_per_day: hoursPerDay, updated_by: user?.id ?? null });
+
+    queryClient.invalidateQueries({ queryKey: ['workload'] });
+    if (error) {
+      showError(error.message);
+      return false;
+    }
+    return true;
+  };
+
+  /** Hand a task from one person to another, keeping any other assignees */
+  const reassignTask = async (task: WorkloadTask, fromUserId: string, toUserId: string) => {
+    try {
+      const { data: current, error: fetchError } = await supabase
+        .from('tasks')
+        .select('assignee_user_id, task_assignments(user_id)')
+        .eq('id', task.id)
+        .single();
+      if (fetchError) throw fetchError;
+
+      const assigned = current.task_assignments.map(a => a.user_id);
+      await syncTaskAssignments(task.id, reassignIds(assigned, fromUserId, toUserId));
+
+      if (current.assignee_user_id === fromUserId) {
+        const { error } = await supabase.from('tasks').update({ assignee_user_id: toUserId }).eq('id', task.id);
+        if (error) throw error;
+      }
+
+      toast({ title: 'Task reassigned', description: task.title });
+      return true;
+    } catch (error) {
+      showError((error as Error).message);
+      return false;
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ['workload'] });
+    }
+  };
+
+  return {
+    tasks: data?.tasks ?? [],
+    people: data?.people ?? [],
+    calendars: data?.calendars ?? NO_CALENDARS,
+    loading,
+    setCapacity,
+    reassignTask,
+  };
+}
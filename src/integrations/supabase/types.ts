@@ -50,6 +50,106 @@ export type Database = {
         }
         Relationships: []
       }
+      baseline_elements: {
+        Row: {
+          baseline_id: string
+          due_date: string | null
+          element_id: string
+          id: string
+          start_date: string | null
+          title: string
+        }
+        Insert: {
+          baseline_id: string
+          due_date?: string | null
+          element_id: string
+          id?: string
+          start_date?: string | null
+          title: string
+        }
+        Update: {
+          baseline_id?: string
+          due_date?: string | null
+          element_id?: string
+          id?: string
+          start_date?: string | null
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "baseline_elements_baseline_id_fkey"
+            columns: ["baseline_id"]
+            isOneToOne: false
+            referencedRelation: "project_baselines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      baseline_tasks: {
+        Row: {
+          baseline_id: string
+          due_date: string | null
+          element_id: string | null
+          estimate_hours: number | null
+          estimated_cost: number | null
+          id: string
+          start_date: string | null
+          task_id: string
+          title: string
+        }
+        Insert: {
+          baseline_id: string
+          due_date?: string | null
+          element_id?: string | null
+          estimate_hours?: number | null
+          estimated_cost?: number | null
+          id?: string
+          start_date?: string | null
+          task_id: string
+          title: string
+        }
+        Update: {
+          baseline_id?: string
+          due_date?: string | null
+          element_id?: string | null
+          estimate_hours?: number | null
+          estimated_cost?: number | null
+          id?: string
+          start_date?: string | null
+          task_id?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "baseline_tasks_baseline_id_fkey"
+            columns: ["baseline_id"]
+            isOneToOne: false
+            referencedRelation: "project_baselines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          token: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       chat_messages: {
         Row: {
           attachment_name: string | null
@@ -979,6 +1079,39 @@ export type Database = {
           },
         ]
       }
+      milestone_tasks: {
+        Row: {
+          created_at: string
+          milestone_id: string
+          task_id: string
+        }
+        Insert: {
+          created_at?: string
+          milestone_id: string
+          task_id: string
+        }
+        Update: {
+          created_at?: string
+          milestone_id?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "milestone_tasks_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "project_milestones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "milestone_tasks_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
           created_at: string | null
@@ -1122,6 +1255,87 @@ export type Database = {
         }
         Relationships: []
       }
+      project_baselines: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          project_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          project_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          project_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_baselines_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "project_analytics"
+            referencedColumns: ["project_id"]
+          },
+          {
+            foreignKeyName: "project_baselines_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_labels: {
+        Row: {
+          color: string
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          project_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          project_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          project_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_labels_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "project_analytics"
+            referencedColumns: ["project_id"]
+          },
+          {
+            foreignKeyName: "project_labels_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       project_members: {
         Row: {
           created_at: string | null
@@ -1161,6 +1375,89 @@ export type Database = {
           },
         ]
       }
+      project_milestones: {
+        Row: {
+          approval_note: string | null
+          approval_status: string
+          approved_at: string | null
+          approved_by: string | null
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          department_id: string | null
+          description: string | null
+          due_date: string
+          id: string
+          owner_user_id: string | null
+          project_id: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          approval_note?: string | null
+          approval_status?: string
+          approved_at?: string | null
+          approved_by?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          department_id?: string | null
+          description?: string | null
+          due_date: string
+          id?: string
+          owner_user_id?: string | null
+          project_id: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          approval_note?: string | null
+          approval_status?: string
+          approved_at?: string | null
+          approved_by?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          department_id?: string | null
+          description?: string | null
+          due_date?: string
+          id?: string
+          owner_user_id?: string | null
+          project_id?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_milestones_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "department_analytics"
+            referencedColumns: ["department_id"]
+          },
+          {
+            foreignKeyName: "project_milestones_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_milestones_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "project_analytics"
+            referencedColumns: ["project_id"]
+          },
+          {
+            foreignKeyName: "project_milestones_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       project_report_recipients: {
         Row: {
           added_by: string | null
@@ -1269,28 +1566,129 @@ export type Database = {
           },
         ]
       }
-      projects: {
+      project_task_statuses: {
         Row: {
-          client_name: string | null
-          created_at: string | null
-          department_id: string | null
-          description: string | null
-          end_date: string | null
+          allowed_transitions: string[] | null
+          category: string
+          color: string
+          created_at: string
           id: string
-          logo_url: string | null
-          name: string
-          owner_id: string | null
-          project_category: Database["public"]["Enums"]["project_category"]
-          start_date: string
-          status: string | null
-          theme_colors: Json | null
-          updated_at: string | null
+          key: string
+          label: string
+          position: number
+          project_id: string
         }
         Insert: {
-          client_name?: string | null
-          created_at?: string | null
-          department_id?: string | null
-          description?: string | null
+          allowed_transitions?: string[] | null
+          category: string
+          color?: string
+          created_at?: string
+          id?: string
+          key: string
+          label: string
+          position?: number
+          project_id: string
+        }
+        Update: {
+          allowed_transitions?: string[] | null
+          category?: string
+          color?: string
+          created_at?: string
+          id?: string
+          key?: string
+          label?: string
+          position?: number
+          project_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_task_statuses_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "project_analytics"
+            referencedColumns: ["project_id"]
+          },
+          {
+            foreignKeyName: "project_task_statuses_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_templates: {
+        Row: {
+          content: Json
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          name: string
+          source_project_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          content: Json
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          source_project_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          content?: Json
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          source_project_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_templates_source_project_id_fkey"
+            columns: ["source_project_id"]
+            isOneToOne: false
+            referencedRelation: "project_analytics"
+            referencedColumns: ["project_id"]
+          },
+          {
+            foreignKeyName: "project_templates_source_project_id_fkey"
+            columns: ["source_project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      projects: {
+        Row: {
+          client_name: string | null
+          created_at: string | null
+          department_id: string | null
+          description: string | null
+          duplication_result: Json | null
+          end_date: string | null
+          id: string
+          logo_url: string | null
+          name: string
+          owner_id: string | null
+          project_category: Database["public"]["Enums"]["project_category"]
+          start_date: string
+          status: string | null
+          theme_colors: Json | null
+          updated_at: string | null
+        }
+        Insert: {
+          client_name?: string | null
+          created_at?: string | null
+          department_id?: string | null
+          description?: string | null
+          duplication_result?: Json | null
           end_date?: string | null
           id?: string
           logo_url?: string | null
@@ -1307,6 +1705,7 @@ export type Database = {
           created_at?: string | null
           department_id?: string | null
           description?: string | null
+          duplication_result?: Json | null
           end_date?: string | null
           id?: string
           logo_url?: string | null
@@ -1335,6 +1734,57 @@ export type Database = {
           },
         ]
       }
+      task_activity: {
+        Row: {
+          activity_type: string
+          created_at: string
+          field: string | null
+          id: string
+          new_value: string | null
+          old_value: string | null
+          project_id: string
+          task_id: string
+          user_id: string | null
+        }
+        Insert: {
+          activity_type: string
+          created_at?: string
+          field?: string | null
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          project_id: string
+          task_id: string
+          user_id?: string | null
+        }
+        Update: {
+          activity_type?: string
+          created_at?: string
+          field?: string | null
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          project_id?: string
+          task_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_activity_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_activity_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       task_assignments: {
         Row: {
           created_at: string | null
@@ -1367,8 +1817,10 @@ export type Database = {
       task_attachments: {
         Row: {
           created_at: string | null
+          document_id: string | null
           file_name: string
           file_size: number | null
+          file_type: string | null
           file_url: string
           id: string
           task_id: string
@@ -1376,8 +1828,10 @@ export type Database = {
         }
         Insert: {
           created_at?: string | null
+          document_id?: string | null
           file_name: string
           file_size?: number | null
+          file_type?: string | null
           file_url: string
           id?: string
           task_id: string
@@ -1385,14 +1839,23 @@ export type Database = {
         }
         Update: {
           created_at?: string | null
+          document_id?: string | null
           file_name?: string
           file_size?: number | null
+          file_type?: string | null
           file_url?: string
           id?: string
           task_id?: string
           uploaded_by?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "task_attachments_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "task_attachments_task_id_fkey"
             columns: ["task_id"]
@@ -1473,6 +1936,60 @@ export type Database = {
           },
         ]
       }
+      task_recurrences: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          ends_on: string | null
+          frequency: string
+          generate_on: string
+          id: string
+          interval_count: number
+          project_id: string
+          updated_at: string
+          weekdays: number[]
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          ends_on?: string | null
+          frequency: string
+          generate_on?: string
+          id?: string
+          interval_count?: number
+          project_id: string
+          updated_at?: string
+          weekdays?: number[]
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          ends_on?: string | null
+          frequency?: string
+          generate_on?: string
+          id?: string
+          interval_count?: number
+          project_id?: string
+          updated_at?: string
+          weekdays?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_recurrences_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "project_analytics"
+            referencedColumns: ["project_id"]
+          },
+          {
+            foreignKeyName: "task_recurrences_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tasks: {
         Row: {
           actual_cost: number | null
@@ -1492,8 +2009,10 @@ export type Database = {
           priority: string | null
           progress_percentage: number | null
           project_id: string
+          recurrence_id: string | null
           start_date: string | null
           status: string | null
+          status_category: string
           title: string
           updated_at: string | null
         }
@@ -1515,8 +2034,10 @@ export type Database = {
           priority?: string | null
           progress_percentage?: number | null
           project_id: string
+          recurrence_id?: string | null
           start_date?: string | null
           status?: string | null
+          status_category?: string
           title: string
           updated_at?: string | null
         }
@@ -1538,8 +2059,10 @@ export type Database = {
           priority?: string | null
           progress_percentage?: number | null
           project_id?: string
+          recurrence_id?: string | null
           start_date?: string | null
           status?: string | null
+          status_category?: string
           title?: string
           updated_at?: string | null
         }
@@ -1586,8 +2109,140 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tasks_recurrence_id_fkey"
+            columns: ["recurrence_id"]
+            isOneToOne: false
+            referencedRelation: "task_recurrences"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      time_entries: {
+        Row: {
+          created_at: string
+          ended_at: string | null
+          id: string
+          note: string | null
+          started_at: string
+          task_id: string
+          timesheet_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          note?: string | null
+          started_at?: string
+          task_id: string
+          timesheet_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          note?: string | null
+          started_at?: string
+          task_id?: string
+          timesheet_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "time_entries_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_timesheet_id_fkey"
+            columns: ["timesheet_id"]
+            isOneToOne: false
+            referencedRelation: "timesheets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      timesheets: {
+        Row: {
+          created_at: string
+          department_id: string
+          id: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          submitted_at: string | null
+          updated_at: string
+          user_id: string
+          week_start: string
+        }
+        Insert: {
+          created_at?: string
+          department_id: string
+          id?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submitted_at?: string | null
+          updated_at?: string
+          user_id: string
+          week_start: string
+        }
+        Update: {
+          created_at?: string
+          department_id?: string
+          id?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submitted_at?: string | null
+          updated_at?: string
+          user_id?: string
+          week_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timesheets_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      user_capacities: {
+        Row: {
+          created_at: string
+          hours_per_day: number
+          updated_at: string
+          updated_by: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          hours_per_day?: number
+          updated_at?: string
+          updated_by?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          hours_per_day?: number
+          updated_at?: string
+          updated_by?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_presence: {
         Row: {
           custom_status: string | null
@@ -1692,6 +2347,90 @@ export type Database = {
           },
         ]
       }
+      working_calendar_days: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          date: string
+          id: string
+          kind: string
+          name: string
+          project_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          date: string
+          id?: string
+          kind?: string
+          name?: string
+          project_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          date?: string
+          id?: string
+          kind?: string
+          name?: string
+          project_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "working_calendar_days_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "project_analytics"
+            referencedColumns: ["project_id"]
+          },
+          {
+            foreignKeyName: "working_calendar_days_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      working_calendars: {
+        Row: {
+          created_at: string
+          id: string
+          project_id: string | null
+          updated_at: string
+          weekend_days: number[] | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          project_id?: string | null
+          updated_at?: string
+          weekend_days?: number[] | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          project_id?: string | null
+          updated_at?: string
+          weekend_days?: number[] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "working_calendars_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "project_analytics"
+            referencedColumns: ["project_id"]
+          },
+          {
+            foreignKeyName: "working_calendars_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       department_analytics: {
@@ -1751,6 +2490,14 @@ export type Database = {
         Args: { _department_id: string; _user_id: string }
         Returns: boolean
       }
+      can_review_timesheet: {
+        Args: { _department_id: string; _user_id: string }
+        Returns: boolean
+      }
+      delete_task_status: {
+        Args: { _key: string; _project_id: string; _replacement_key: string }
+        Returns: undefined
+      }
       get_external_user_department: {
         Args: { _user_id: string }
         Returns: string
@@ -1815,6 +2562,10 @@ export type Database = {
         Args: { _project_id: string; _user_id: string }
         Returns: boolean
       }
+      is_working_day: {
+        Args: { _date: string; _project_id?: string }
+        Returns: boolean
+      }
       user_has_tasks_in_project: {
         Args: { _project_id: string; _user_id: string }
         Returns: boolean
@@ -0,0 +1,93 @@
+// Helpers for presenting audit_logs rows (written by the record_audit_log trigger).
+import type { Json } from '@/integrations/supabase/types';
+
+export const AUDITED_ENTITIES = [
+  { value: 'tasks', label: 'Tasks' },
+  { value: 'elements', label: 'Briefs' },
+  { value: 'projects', label: 'Projects' },
+  { value: 'project_members', label: 'Project members' },
+  { value: 'user_roles', label: 'User roles' },
+] as const;
+
+export interface AuditFieldChange {
+  field: string;
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Bookkeeping columns that change on every write and carry no meaning for reviewers
+const IGNORED_FIELDS = new Set(['id', 'created_at', 'updated_at']);
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  name: 'Name',
+  description: 'Description',
+  status: 'Status',
+  priority: 'Priority',
+  start_date: 'Start date',
+  due_date: 'Due date',
+  progress_percentage: 'Progress',
+  estimate_hours: 'Estimated hours',
+  logged_hours: 'Logged hours',
+  estimated_cost: 'Estimated cost',
+  actual_cost: 'Actual cost',
+  assignee_user_id: 'Assignee',
+  assignee_department_id: 'Department',
+  department_id: 'Department',
+  element_id: 'Brief',
+  project_id: 'Project',
+  owner_id: 'Owner',
+  user_id: 'User',
+  role: 'Role',
+};
+
+const asRecord = (value: Json | null): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+export function getFieldLabel(field: string): string {
+  return FIELD_LABELS[field] || field.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+}
+
+export function getEntityLabel(entityType: string): string {
+  return AUDITED_ENTITIES.find(e => e.value === entityType)?.label || entityType;
+}
+
+/**
+ * Field-by-field changes between the old and new row snapshots.
+ * Creates list every populated field, deletes list every field that was populated.
+ */
+export function computeAuditDiff(oldValues: Json | null, newValues: Json | null): AuditFieldChange[] {
+  const before = asRecord(oldValues);
+  const after = asRecord(newValues);
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+  return fields
+    .filter(field => !IGNORED_FIELDS.has(field))
+    .filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map(field => ({
+      field,
+      label: getFieldLabel(field),
+      before: before[field] ?? null,
+      after: after[field] ?? null,
+    }));
+}
+
+/**
+ * Human readable name of the audited record, taken from whichever snapshot exists
+ */
+export function getAuditRecordName(oldValues: Json | null, newValues: Json | null): string | null {
+  const row = { ...asRecord(oldValues), ...asRecord(newValues) };
+  const name = row.title ?? row.name;
+  return typeof name === 'string' ? name : null;
+}
+
+/**
+ * User ids referenced by a snapshot, so they can be resolved to names
+ */
+export function getReferencedUserIds(values: Json | null): string[] {
+  const row = asRecord(values);
+  return ['user_id', 'owner_id', 'assignee_user_id']
+    .map(field => row[field])
+    .filter((value): value is string => typeof value === 'string');
+}
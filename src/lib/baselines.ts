@@ -0,0 +1,226 @@
+import { countWorkingDays, type WorkingCalendar } from '@/lib/workingDays';
+
+/**
+ * Planned dates captured for a task or element when a baseline was saved
+ */
+export interface BaselineDates {
+  start_date: string | null;
+  due_date: string | null;
+}
+
+export interface BaselineTask extends BaselineDates {
+  task_id: string;
+  element_id: string | null;
+  title: string;
+  estimate_hours: number | null;
+  estimated_cost: number | null;
+}
+
+export interface BaselineElement extends BaselineDates {
+  element_id: string;
+  title: string;
+}
+
+/**
+ * Signed number of working days from `planned` to `actual`.
+ * Positive means the actual date is later than planned.
+ */
+export function workingDayOffset(planned: string, actual: string, calendar: WorkingCalendar): number {
+  const plannedDay = planned.split('T')[0];
+  const actualDay = actual.split('T')[0];
+  if (plannedDay === actualDay) return 0;
+  return actualDay > plannedDay
+    ? countWorkingDays(plannedDay, actualDay, calendar) - 1
+    : -(countWorkingDays(actualDay, plannedDay, calendar) - 1);
+}
+
+/**
+ * Calculate schedule variance metrics
+ */
+export interface ScheduleVariance {
+  startVariance: number | null;
+  finishVariance: number | null;
+  status: 'ahead' | 'on' | 'behind' | 'na';
+  statusColor: string;
+  statusLabel: string;
+}
+
+export function calculateScheduleVariance(
+  baseline: BaselineDates | null | undefined,
+  current: BaselineDates,
+  calendar: WorkingCalendar
+): ScheduleVariance {
+  const startVariance = baseline?.start_date && current.start_date
+    ? workingDayOffset(baseline.start_date, current.start_date, calendar)
+    : null;
+  const finishVariance = baseline?.due_date && current.due_date
+    ? workingDayOffset(baseline.due_date, current.due_date, calendar)
+    : null;
+
+  // Schedule status follows the finish date, which is what the client sees
+  if (finishVariance === null) {
+    return {
+      startVariance,
+      finishVariance,
+      status: 'na',
+      statusColor: 'text-muted-foreground',
+      statusLabel: baseline ? 'N/A' : 'Not in baseline'
+    };
+  }
+
+  if (finishVariance < 0) {
+    return { startVariance, finishVariance, status: 'ahead', statusColor: 'text-green-600', statusLabel: '🟢 Ahead of Plan' };
+  }
+  if (finishVariance === 0) {
+    return { startVariance, finishVariance, status: 'on', statusColor: 'text-yellow-600', statusLabel: '🟡 On Schedule' };
+  }
+  return { startVariance, finishVariance, status: 'behind', statusColor: 'text-red-600', statusLabel: '🔴 Behind Plan' };
+}
+
+/**
+ * "+3 days" / "-1 day" / "On plan"
+ */
+export function formatDayVariance(days: number | null): string {
+  if (days === null) return 'N/A';
+  if (days === 0) return 'On plan';
+  const abs = Math.abs(days);
+  return `${days > 0 ? '+' : '-'}${abs} day${abs === 1 ? '' : 's'}`;
+}
+
+/**
+ * Earliest start and latest due date across a set of dated items
+ */
+export function getDateSpan(items: BaselineDates[]): BaselineDates {
+  const starts = items.map(i => i.start_date?.split('T')[0]).filter(Boolean) as string[];
+  const dues = items.map(i => i.due_date?.split('T')[0]).filter(Boolean) as string[];
+  return {
+    start_date: starts.length > 0 ? starts.reduce((a, b) => (a < b ? a : b)) : null,
+    due_date: dues.length > 0 ? dues.reduce((a, b) => (a > b ? a : b)) : null,
+  };
+}
+
+export interface TaskBaselineComparison {
+  id: string;
+  title: string;
+  element_id: string | null;
+  start_date: string | null;
+  due_date: string | null;
+  in_baseline: boolean;
+  baseline_start_date: string | null;
+  baseline_due_date: string | null;
+  estimated_cost: number;
+  baseline_estimated_cost: number | null;
+  schedule: ScheduleVariance;
+}
+
+export function compareTasksToBaseline(
+  tasks: { id: string; title: string; element_id?: string | null; start_date: string | null; due_date: string | null; estimated_cost?: number | null }[],
+  baselineTasks: BaselineTask[],
+  calendar: WorkingCalendar
+): { rows: TaskBaselineComparison[]; removed: BaselineTask[] } {
+  const byTaskId = new Map(baselineTasks.map(b => [b.task_id, b]));
+  const currentIds = new Set(tasks.map(t => t.id));
+
+  const rows = tasks.map(task => {
+    const baseline = byTaskId.get(task.id) || null;
+    return {
+      id: task.id,
+      title: task.title,
+      element_id: task.element_id || null,
+      start_date: task.start_date,
+      due_date: task.due_date,
+      in_baseline: !!baseline,
+      baseline_start_date: baseline?.start_date || null,
+      baseline_due_date: baseline?.due_date || null,
+      estimated_cost: task.estimated_cost || 0,
+      baseline_estimated_cost: baseline ? baseline.estimated_cost || 0 : null,
+      schedule: calculateScheduleVariance(baseline, task, calendar),
+    };
+  });
+
+  return { rows, removed: baselineTasks.filter(b => !currentIds.has(b.task_id)) };
+}
+
+export interface ElementBaselineComparison {
+  id: string;
+  title: string;
+  current: BaselineDates;
+  baseline: BaselineDates | null;
+  schedule: ScheduleVariance;
+}
+
+/**
+ * Elements fall back to the span of their tasks when their own dates are not set
+ */
+export function compareElementsToBaseline(
+  elements: { id: string; title: string; start_date: string | null; due_date: string | null }[],
+  baselineElements: BaselineElement[],
+  tasks: { element_id?: string | null; start_date: string | null; due_date: string | null }[],
+  baselineTasks: BaselineTask[],
+  calendar: WorkingCalendar
+): ElementBaselineComparison[] {
+  return elements.map(element => {
+    const ownTaskSpan = getDateSpan(tasks.filter(t => t.element_id === element.id));
+    const current = {
+      start_date: element.start_date || ownTaskSpan.start_date,
+      due_date: element.due_date || ownTaskSpan.due_date,
+    };
+
+    const saved = baselineElements.find(b => b.element_id === element.id);
+    const savedTaskSpan = getDateSpan(baselineTasks.filter(b => b.element_id === element.id));
+    const baseline = (saved || savedTaskSpan.due_date)
+      ? {
+          start_date: saved?.start_date || savedTaskSpan.start_date,
+          due_date: saved?.due_date || savedTaskSpan.due_date,
+        }
+      : null;
+
+    return {
+      id: element.id,
+      title: element.title,
+      current,
+      baseline,
+      schedule: calculateScheduleVariance(baseline, current, calendar),
+    };
+  });
+}
+
+/**
+ * Aggregate schedule KPIs for the baseline vs actual panel
+ */
+export interface ScheduleVarianceSummary {
+  ahead: number;
+  onSchedule: number;
+  behind: number;
+  notBaselined: number;
+  removed: number;
+  projectFinishVariance: number | null;
+  baselineFinish: string | null;
+  currentFinish: string | null;
+  averageFinishVariance: number | null;
+}
+
+export function computeScheduleVarianceSummary(
+  rows: TaskBaselineComparison[],
+  baselineTasks: BaselineTask[],
+  removedCount: number,
+  calendar: WorkingCalendar
+): ScheduleVarianceSummary {
+  const measured = rows.filter(r => r.schedule.finishVariance !== null);
+  const baselineFinish = getDateSpan(baselineTasks).due_date;
+  const currentFinish = getDateSpan(rows).due_date;
+
+  return {
+    ahead: rows.filter(r => r.schedule.status === 'ahead').length,
+    onSchedule: rows.filter(r => r.schedule.status === 'on').length,
+    behind: rows.filter(r => r.schedule.status === 'behind').length,
+    notBaselined: rows.filter(r => !r.in_baseline).length,
+    removed: removedCount,
+    projectFinishVariance: baselineFinish && currentFinish ? workingDayOffset(baselineFinish, currentFinish, calendar) : null,
+    baselineFinish,
+    currentFinish,
+    averageFinishVariance: measured.length > 0
+      ? measured.reduce((sum, r) => sum + (r.schedule.finishVariance || 0), 0) / measured.length
+      : null,
+  };
+}
@@ -0,0 +1,139 @@
+// Critical path method (CPM) over task dates and finish-to-start dependencies.
+// All durations and float values are measured in working days.
+import { addDays, format, parseISO } from 'date-fns';
+import { addWorkingDays, countWorkingDays, type WorkingCalendar } from '@/lib/workingDays';
+import type { SchedulableTask, TaskDependency } from '@/lib/taskDependencies';
+
+export interface TaskSchedule {
+  taskId: string;
+  earliestStart: string;
+  earliestFinish: string;
+  latestStart: string;
+  latestFinish: string;
+  totalFloat: number;
+  isCritical: boolean;
+}
+
+export interface CriticalPathResult {
+  schedules: Record<string, TaskSchedule>;
+  criticalTaskIds: string[];
+  projectStart: string | null;
+  projectFinish: string | null;
+}
+
+const EMPTY_RESULT: CriticalPathResult = {
+  schedules: {},
+  criticalTaskIds: [],
+  projectStart: null,
+  projectFinish: null,
+};
+
+/**
+ * Compute earliest/latest start and total float for every dated task.
+ *
+ * The current plan is used as the early schedule (a task cannot start before its
+ * planned start or before its predecessors finish). The backward pass runs from
+ * the latest finish in the project, so tasks with zero float are the ones whose
+ * slip would move the project end date.
+ */
+export function computeCriticalPath(
+  tasks: SchedulableTask[],
+  dependencies: Pick<TaskDependency, 'task_id' | 'depends_on_task_id'>[],
+  calendar: WorkingCalendar
+): CriticalPathResult {
+  const dated = tasks.filter(t => t.start_date && t.due_date);
+  if (dated.length === 0) return EMPTY_RESULT;
+
+  const projectStart = dated.map(t => t.start_date!.split('T')[0]).sort()[0];
+  const ids = new Set(dated.map(t => t.id));
+
+  // Working-day offsets from the project start: a task occupies [start, finish)
+  const offsetBefore = (date: string) =>
+    countWorkingDays(projectStart, format(addDays(parseISO(date.split('T')[0]), -1), 'yyyy-MM-dd'), calendar);
+  const offsetThrough = (date: string) => countWorkingDays(projectStart, date, calendar);
+
+  const duration: Record<string, number> = {};
+  const es: Record<string, number> = {};
+  const ef: Record<string, number> = {};
+  dated.forEach(t => {
+    es[t.id] = offsetBefore(t.start_date!);
+    duration[t.id] = Math.max(offsetThrough(t.due_date!) - es[t.id], 1);
+  });
+
+  const successors: Record<string, string[]> = {};
+  const predecessors: Record<string, string[]> = {};
+  dependencies.forEach(dep => {
+    if (!ids.has(dep.task_id) || !ids.has(dep.depends_on_task_id)) return;
+    if (!successors[dep.depends_on_task_id]) successors[dep.depends_on_task_id] = [];
+    successors[dep.depends_on_task_id].push(dep.task_id);
+    if (!predecessors[dep.task_id]) predecessors[dep.task_id] = [];
+    predecessors[dep.task_id].push(dep.depends_on_task_id);
+  });
+
+  // Kahn's algorithm; tasks caught in a cycle are left out of the ordering
+  const inDegree: Record<string, number> = {};
+  dated.forEach(t => { inDegree[t.id] = (predecessors[t.id] || []).length; });
+  const queue = dated.filter(t => inDegree[t.id] === 0).map(t => t.id);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    (successors[id] || []).forEach(s => {
+      inDegree[s]--;
+      if (inDegree[s] === 0) queue.push(s);
+    });
+  }
+
+  if (order.length === 0) return EMPTY_RESULT;
+
+  // Forward pass
+  order.forEach(id => {
+    const predecessorFinish = Math.max(0, ...(predecessors[id] || []).map(p => ef[p] ?? 0));
+    es[id] = Math.max(es[id], predecessorFinish);
+    ef[id] = es[id] + duration[id];
+  });
+
+  const projectEnd = Math.max(...order.map(id => ef[id]));
+
+  // Backward pass
+  const ls: Record<string, number> = {};
+  const lf: Record<string, number> = {};
+  [...order].reverse().forEach(id => {
+    const next = successors[id] || [];
+    lf[id] = next.length > 0 ? Math.min(...next.map(s => ls[s])) : projectEnd;
+    ls[id] = lf[id] - duration[id];
+  });
+
+  const toStartDate = (offset: number) => format(addWorkingDays(projectStart, offset, calendar), 'yyyy-MM-dd');
+  const toFinishDate = (offset: number) => format(addWorkingDays(projectStart, Math.max(offset - 1, 0), calendar), 'yyyy-MM-dd');
+
+  const schedules: Record<string, TaskSchedule> = {};
+  order.forEach(id => {
+    const totalFloat = ls[id] - es[id];
+    schedules[id] = {
+      taskId: id,
+      earliestStart: toStartDate(es[id]),
+      earliestFinish: toFinishDate(ef[id]),
+      latestStart: toStartDate(ls[id]),
+      latestFinish: toFinishDate(lf[id]),
+      totalFloat,
+      isCritical: totalFloat <= 0,
+    };
+  });
+
+  return {
+    schedules,
+    criticalTaskIds: order.filter(id => schedules[id].isCritical),
+    projectStart: toStartDate(0),
+    projectFinish: toFinishDate(projectEnd),
+  };
+}
+
+/**
+ * Format a float value for display
+ */
+export function formatFloat(days: number): string {
+  if (days <= 0) return 'No float (critical)';
+  if (days === 1) return '1 working day';
+  return `${days} working days`;
+}
@@ -0,0 +1,271 @@
+import { addDays, format, parseISO, startOfWeek } from 'date-fns';
+import { calculateWorkingDays, type WorkingCalendar } from '@/lib/workingDays';
+import { getChildrenMap } from '@/lib/subtasks';
+
+/**
+ * Task fields needed for earned value management
+ */
+export interface EarnedValueTask {
+  id: string;
+  parent_task_id?: string | null;
+  start_date: string | null;
+  due_date: string | null;
+  progress_percentage: number | null;
+  estimated_cost: number | null;
+  actual_cost: number | null;
+  created_at?: string | null;
+}
+
+/**
+ * Standard EVM figures. Indexes are null when their denominator is zero.
+ */
+export interface EarnedValueMetrics {
+  /** Budget at completion */
+  bac: number;
+  /** Planned value */
+  pv: number;
+  /** Earned value */
+  ev: number;
+  /** Actual cost */
+  ac: number;
+  /** Cost variance (EV - AC) */
+  cv: number;
+  /** Schedule variance (EV - PV) */
+  sv: number;
+  /** Cost performance index (EV / AC) */
+  cpi: number | null;
+  /** Schedule performance index (EV / PV) */
+  spi: number | null;
+  /** Estimate at completion */
+  eac: number;
+  /** Estimate to complete */
+  etc: number;
+  /** Variance at completion (BAC - EAC) */
+  vac: number;
+  taskCount: number;
+}
+
+export interface EarnedValuePoint {
+  date: string;
+  pv: number;
+  ev: number;
+  ac: number;
+}
+
+/**
+ * A recorded change to a task's progress or actual cost (task_activity row)
+ */
+export interface EarnedValueHistoryEntry {
+  task_id: string;
+  field: string | null;
+  old_value: string | null;
+  new_value: string | null;
+  created_at: string;
+}
+
+export interface PerformanceStatus {
+  status: 'good' | 'watch' | 'poor' | 'na';
+  statusColor: string;
+  statusLabel: string;
+}
+
+const toDay = (date: string | Date) => (typeof date === 'string' ? date.split('T')[0] : format(date, 'yyyy-MM-dd'));
+
+/**
+ * Parent tasks roll their subtasks up, so only leaf tasks are measured to
+ * avoid counting the same work twice.
+ */
+export function getEarnedValueTasks<T extends EarnedValueTask>(tasks: T[]): T[] {
+  const children = getChildrenMap(tasks);
+  return tasks.filter(task => !children.has(task.id));
+}
+
+/**
+ * Share of a task's working days that should be done by `asOf` (0-1).
+ * Tasks without dates have no schedule and are never planned.
+ */
+export function plannedFraction(
+  task: { start_date: string | null; due_date: string | null },
+  asOf: string | Date,
+  calendar: WorkingCalendar
+): number {
+  if (!task.start_date || !task.due_date) return 0;
+  const day = toDay(asOf);
+  const start = toDay(task.start_date);
+  const due = toDay(task.due_date);
+  if (day < start) return 0;
+  if (day >= due) return 1;
+
+  const total = calculateWorkingDays(start, due, calendar);
+  if (total === 0) return 1;
+  return Math.min(1, calculateWorkingDays(start, day, calendar) / total);
+}
+
+/**
+ * Derive CPI, SPI, EAC and ETC from budget, planned, earned and actual values.
+ * EAC assumes the current cost efficiency continues; without any actual cost
+ * yet it falls back to the budget.
+ */
+export function deriveEarnedValueMetrics(bac: number, pv: number, ev: number, ac: number, taskCount = 0): EarnedValueMetrics {
+  const cpi = ac > 0 ? ev / ac : null;
+  const spi = pv > 0 ? ev / pv : null;
+  const eac = cpi ? bac / cpi : ac + (bac - ev);
+  const etc = Math.max(0, eac - ac);
+
+  return {
+    bac,
+    pv,
+    ev,
+    ac,
+    cv: ev - ac,
+    sv: ev - pv,
+    cpi,
+    spi,
+    eac,
+    etc,
+    vac: bac - eac,
+    taskCount,
+  };
+}
+
+/**
+ * Earned value of a set of leaf tasks as of a date
+ */
+export function computeEarnedValue(
+  tasks: EarnedValueTask[],
+  asOf: string | Date,
+  calendar: WorkingCalendar
+): EarnedValueMetrics {
+  let bac = 0;
+  let pv = 0;
+  let ev = 0;
+  let ac = 0;
+  let taskCount = 0;
+
+  tasks.forEach(task => {
+    const budget = task.estimated_cost || 0;
+    ac += task.actual_cost || 0;
+    if (budget <= 0) return;
+
+    taskCount++;
+    bac += budget;
+    pv += budget * plannedFraction(task, asOf, calendar);
+    ev += budget * Math.min(100, Math.max(0, task.progress_percentage || 0)) / 100;
+  });
+
+  return deriveEarnedValueMetrics(bac, pv, ev, ac, taskCount);
+}
+
+/**
+ * Earned value per group (department, element, ...). Tasks whose key is null
+ * are collected under `null`.
+ */
+export function groupEarnedValue<T extends EarnedValueTask>(
+  tasks: T[],
+  keyOf: (task: T) => string | null | undefined,
+  asOf: string | Date,
+  calendar: WorkingCalendar
+): Map<string | null, EarnedValueMetrics> {
+  const groups = new Map<string | null, T[]>();
+  tasks.forEach(task => {
+    const key = keyOf(task) || null;
+    groups.set(key, [...(groups.get(key) || []), task]);
+  });
+
+  const result = new Map<string | null, EarnedValueMetrics>();
+  groups.forEach((groupTasks, key) => result.set(key, computeEarnedValue(groupTasks, asOf, calendar)));
+  return result;
+}
+
+/**
+ * Value a task field had at the end of `day`, replayed from its change history.
+ * The first change after `day` tells us what the value was before it; with no
+ * later change the current value applies.
+ */
+function valueOnDay(changes: EarnedValueHistoryEntry[], current: number, day: string): number {
+  const next = changes.find(change => toDay(change.created_at) > day);
+  if (!next) return current;
+  return Number(next.old_value) || 0;
+}
+
+/**
+ * Weekly PV, EV and AC from the earliest task start up to `asOf`.
+ * EV and AC are reconstructed from progress and actual cost history; tasks
+ * count as zero before they were created.
+ */
+export function buildEarnedValueSeries(
+  tasks: EarnedValueTask[],
+  history: EarnedValueHistoryEntry[],
+  asOf: string | Date,
+  calendar: WorkingCalendar
+): EarnedValuePoint[] {
+  const starts = tasks
+    .filter(t => (t.estimated_cost || 0) > 0 || (t.actual_cost || 0) > 0)
+    .map(t => t.start_date || t.created_at)
+    .filter((d): d is string => !!d)
+    .map(toDay)
+    .sort();
+  if (starts.length === 0) return [];
+
+  const end = toDay(asOf);
+  if (starts[0] > end) return [];
+
+  const byTask = new Map<string, { progress: EarnedValueHistoryEntry[]; cost: EarnedValueHistoryEntry[] }>();
+  [...history]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .forEach(entry => {
+      const changes = byTask.get(entry.task_id) || { progress: [], cost: [] };
+      if (entry.field === 'progress_percentage') changes.progress.push(entry);
+      if (entry.field === 'actual_cost') changes.cost.push(entry);
+      byTask.set(entry.task_id, changes);
+    });
+
+  const days: string[] = [];
+  let cursor = startOfWeek(parseISO(starts[0]), { weekStartsOn: 1 });
+  while (toDay(cursor) < end) {
+    days.push(toDay(cursor));
+    cursor = addDays(cursor, 7);
+  }
+  days.push(end);
+
+  return days.map(day => {
+    let pv = 0;
+    let ev = 0;
+    let ac = 0;
+
+    tasks.forEach(task => {
+      if (task.created_at && toDay(task.created_at) > day) return;
+      const changes = byTask.get(task.id) || { progress: [], cost: [] };
+      const budget = task.estimated_cost || 0;
+
+      ac += valueOnDay(changes.cost, task.actual_cost || 0, day);
+      if (budget <= 0) return;
+
+      const progress = valueOnDay(changes.progress, task.progress_percentage || 0, day);
+      pv += budget * plannedFraction(task, day, calendar);
+      ev += budget * Math.min(100, Math.max(0, progress)) / 100;
+    });
+
+    return { date: day, pv, ev, ac };
+  });
+}
+
+/**
+ * Traffic-light status for a CPI or SPI value. Within 5% of 1 counts as on target.
+ */
+export function getPerformanceStatus(index: number | null): PerformanceStatus {
+  if (index === null) {
+    return { status: 'na', statusColor: 'text-muted-foreground', statusLabel: 'N/A' };
+  }
+  if (index >= 0.95) {
+    return { status: 'good', statusColor: 'text-green-600', statusLabel: '🟢 On Target' };
+  }
+  if (index >= 0.85) {
+    return { status: 'watch', statusColor: 'text-yellow-600', statusLabel: '🟡 Watch' };
+  }
+  return { status: 'poor', statusColor: 'text-red-600', statusLabel: '🔴 Poor' };
+}
+
+export function formatIndex(index: number | null): string {
+  return index === null ? 'N/A' : index.toFixed(2);
+}
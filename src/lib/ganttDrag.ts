@@ -0,0 +1,49 @@
+// Date maths for dragging and resizing bars on the Gantt timeline.
+import { addDays, format, parseISO } from 'date-fns';
+
+export type BarDragMode = 'move' | 'start' | 'end';
+
+export interface BarDates {
+  start_date: string;
+  due_date: string;
+}
+
+/**
+ * Day view moves bars a day at a time; the coarser week and month views snap
+ * to whole weeks so bars keep their weekday.
+ */
+export function getDragSnapDays(viewMode: 'day' | 'week' | 'month'): number {
+  return viewMode === 'day' ? 1 : 7;
+}
+
+/**
+ * Convert a horizontal pointer offset into a whole number of days, rounded to
+ * the nearest snap step.
+ */
+export function snapDragDelta(offsetPx: number, dayWidthPx: number, snapDays: number): number {
+  if (dayWidthPx <= 0) return 0;
+  const steps = Math.round(offsetPx / dayWidthPx / snapDays);
+  return steps * snapDays || 0;
+}
+
+const shiftDate = (date: string, days: number) => format(addDays(parseISO(date.split('T')[0]), days), 'yyyy-MM-dd');
+
+/**
+ * New dates for a bar after dragging it `deltaDays`. Moving keeps the duration;
+ * resizing an edge never lets start pass due.
+ */
+export function applyBarDrag(dates: BarDates, mode: BarDragMode, deltaDays: number): BarDates {
+  const start = dates.start_date.split('T')[0];
+  const due = dates.due_date.split('T')[0];
+  if (deltaDays === 0) return { start_date: start, due_date: due };
+
+  if (mode === 'move') {
+    return { start_date: shiftDate(start, deltaDays), due_date: shiftDate(due, deltaDays) };
+  }
+  if (mode === 'start') {
+    const next = shiftDate(start, deltaDays);
+    return { start_date: next > due ? due : next, due_date: due };
+  }
+  const next = shiftDate(due, deltaDays);
+  return { start_date: start, due_date: next < start ? start : next };
+}
@@ -0,0 +1,475 @@
+// Gantt export: the whole timeline drawn from data rather than captured from
+// the screen, as paged PDF (task column repeated on every page) or one PNG.
+import {
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  endOfWeek,
+  format,
+  isSameDay,
+  startOfDay,
+  startOfWeek,
+} from 'date-fns';
+import jsPDF from 'jspdf';
+
+export type GanttExportPageSize = 'a4' | 'a3';
+
+export type GanttExportRowKind = 'group' | 'summary' | 'task' | 'milestone';
+
+export interface GanttExportRow {
+  kind: GanttExportRowKind;
+  label: string;
+  /** Indent level in the task column */
+  depth?: number;
+  start?: Date | null;
+  end?: Date | null;
+  /** Diamond colour for milestones, progress colour for tasks */
+  color: string;
+  /** Bar colour behind the progress; a tint of `color` when omitted */
+  barColor?: string;
+  /** 0-100 */
+  progress?: number;
+}
+
+export interface GanttExportLegendItem {
+  label: string;
+  color: string;
+  shape?: 'bar' | 'diamond' | 'line';
+}
+
+export interface GanttExportOptions {
+  title: string;
+  subtitle?: string;
+  /** Shown at the top left of every page, see loadExportImage */
+  logo?: GanttExportImage | null;
+  rows: GanttExportRow[];
+  legend: GanttExportLegendItem[];
+  rangeStart: Date;
+  rangeEnd: Date;
+  /** Shaded on the timeline, e.g. weekends and holidays */
+  isNonWorkingDay?: (day: Date) => boolean;
+  today?: Date;
+}
+
+export interface GanttExportImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+const PAGE_SIZES: Record<GanttExportPageSize, { width: number; height: number; labelWidth: number }> = {
+  a4: { width: 297, height: 210, labelWidth: 70 },
+  a3: { width: 420, height: 297, labelWidth: 90 },
+};
+
+// All sizes in millimetres
+const MARGIN = 10;
+const HEADER_HEIGHT = 16;
+const SCALE_HEIGHT = 10;
+const LEGEND_HEIGHT = 9;
+const ROW_HEIGHT = 6;
+const DAY_WIDTH = 4;
+const PNG_PX_PER_MM = 4;
+const PNG_MAX_PX = 16000;
+const PT_TO_MM = 0.3528;
+
+const TEXT_COLOR = '#1f2937';
+const MUTED_COLOR = '#6b7280';
+const GRID_COLOR = '#e5e7eb';
+const GROUP_FILL = '#f3f4f6';
+const SHADE_FILL = '#f5f5f4';
+const TODAY_COLOR = '#ef4444';
+
+interface TextStyle {
+  size: number;
+  color?: string;
+  bold?: boolean;
+  align?: 'left' | 'right' | 'center';
+}
+
+/** Drawing calls shared by the PDF and PNG output, in millimetres */
+interface Painter {
+  rect(x: number, y: number, width: number, height: number, fill: string): void;
+  line(x1: number, y1: number, x2: number, y2: number, color: string, width?: number): void;
+  diamond(cx: number, cy: number, radius: number, fill: string): void;
+  text(text: string, x: number, y: number, style: TextStyle): void;
+  textWidth(text: string, style: TextStyle): number;
+  image(image: GanttExportImage, x: number, y: number, width: number, height: number): void;
+}
+
+function pdfPainter(pdf: jsPDF): Painter {
+  const setFont = (style: TextStyle) => {
+    pdf.setFont('helvetica', style.bold ? 'bold' : 'normal');
+    pdf.setFontSize(style.size);
+  };
+  return {
+    rect(x, y, width, height, fill) {
+      pdf.setFillColor(fill);
+      pdf.rect(x, y, width, height, 'F');
+    },
+    line(x1, y1, x2, y2, color, width = 0.2) {
+      pdf.setDrawColor(color);
+      pdf.setLineWidth(width);
+      pdf.line(x1, y1, x2, y2);
+    },
+    diamond(cx, cy, radius, fill) {
+      pdf.setFillColor(fill);
+      pdf.triangle(cx - radius, cy, cx, cy - radius, cx + radius, cy, 'F');
+      pdf.triangle(cx - radius, cy, cx, cy + radius, cx + radius, cy, 'F');
+    },
+    text(text, x, y, style) {
+      setFont(style);
+      pdf.setTextColor(style.color || TEXT_COLOR);
+      pdf.text(text, x, y, { align: style.align || 'left', baseline: 'middle' });
+    },
+    textWidth(text, style) {
+      setFont(style);
+      return pdf.getTextWidth(text);
+    },
+    image(image, x, y, width, height) {
+      pdf.addImage(image.dataUrl, 'PNG', x, y, width, height);
+    },
+  };
+}
+
+/** `images` holds decoded images by data URL, since canvas drawing is synchronous */
+function canvasPainter(ctx: CanvasRenderingContext2D, images: Map<string, HTMLImageElement>): Painter {
+  const setFont = (style: TextStyle) => {
+    ctx.font = `${style.bold ? 'bold ' : ''}${style.size * PT_TO_MM}px Helvetica, Arial, sans-serif`;
+  };
+  return {
+    rect(x, y, width, height, fill) {
+      ctx.fillStyle = fill;
+      ctx.fillRect(x, y, width, height);
+    },
+    line(x1, y1, x2, y2, color, width = 0.2) {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = width;
+      ctx.beginPath();
+      ctx.moveTo(x1, y1);
+      ctx.lineTo(x2, y2);
+      ctx.stroke();
+    },
+    diamond(cx, cy, radius, fill) {
+      ctx.fillStyle = fill;
+      ctx.beginPath();
+      ctx.moveTo(cx - radius, cy);
+      ctx.lineTo(cx, cy - radius);
+      ctx.lineTo(cx + radius, cy);
+      ctx.lineTo(cx, cy + radius);
+      ctx.closePath();
+      ctx.fill();
+    },
+    text(text, x, y, style) {
+      setFont(style);
+      ctx.fillStyle = style.color || TEXT_COLOR;
+      ctx.textAlign = style.align || 'left';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(text, x, y);
+    },
+    textWidth(text, style) {
+      setFont(style);
+      return ctx.measureText(text).width;
+    },
+    image(image, x, y, width, height) {
+      const element = images.get(image.dataUrl);
+      if (element) ctx.drawImage(element, x, y, width, height);
+    },
+  };
+}
+
+/** Mixes a hex colour with white; amount 1 is white */
+function tint(hex: string, amount: number): string {
+  const value = hex.replace('#', '');
+  if (!/^[0-9a-f]{6}$/i.test(value)) return hex;
+  const channel = (offset: number) => {
+    const c = parseInt(value.slice(offset, offset + 2), 16);
+    return Math.round(c + (255 - c) * amount).toString(16).padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(2)}${channel(4)}`;
+}
+
+function fitText(painter: Painter, text: string, maxWidth: number, style: TextStyle): string {
+  if (painter.textWidth(text, style) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 1 && painter.textWidth(`${fitted}...`, style) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+}
+
+interface PageLayout {
+  width: number;
+  height: number;
+  labelWidth: number;
+}
+
+interface PageContent {
+  rows: GanttExportRow[];
+  days: Date[];
+  /** "Page 2 of 6", omitted for the PNG */
+  pageLabel?: string;
+}
+
+function drawHeader(painter: Painter, options: GanttExportOptions, layout: PageLayout, pageLabel?: string) {
+  let textX = MARGIN;
+  if (options.logo) {
+    // Fit within 40 x 12 mm, keeping the aspect ratio
+    const aspect = options.logo.width / options.logo.height;
+    const height = Math.min(HEADER_HEIGHT - 4, 40 / aspect);
+    const width = aspect * height;
+    painter.image(options.logo, MARGIN, MARGIN, width, height);
+    textX += width + 4;
+  }
+  const titleStyle = { size: 14, bold: true };
+  painter.text(fitText(painter, options.title, layout.width - textX - 60, titleStyle), textX, MARGIN + 3, titleStyle);
+  const dateRange = `${format(options.rangeStart, 'd MMM yyyy')} - ${format(options.rangeEnd, 'd MMM yyyy')}`;
+  painter.text(
+    options.subtitle ? `${options.subtitle}  |  ${dateRange}` : dateRange,
+    textX,
+    MARGIN + 9,
+    { size: 9, color: MUTED_COLOR }
+  );
+
+  const right = layout.width - MARGIN;
+  painter.text(`Generated ${format(options.today || new Date(), 'd MMM yyyy')}`, right, MARGIN + 3, { size: 8, color: MUTED_COLOR, align: 'right' });
+  if (pageLabel) painter.text(pageLabel, right, MARGIN + 9, { size: 8, color: MUTED_COLOR, align: 'right' });
+}
+
+function drawLegend(painter: Painter, legend: GanttExportLegendItem[], layout: PageLayout) {
+  const y = layout.height - MARGIN - LEGEND_HEIGHT / 2 + 1;
+  let x = MARGIN;
+  legend.forEach(item => {
+    if (item.shape === 'diamond') {
+      painter.diamond(x + 1.5, y, 1.5, item.color);
+    } else if (item.shape === 'line') {
+      painter.line(x + 1.5, y - 2, x + 1.5, y + 2, item.color, 0.5);
+    } else {
+      painter.rect(x, y - 1.25, 4, 2.5, item.color);
+    }
+    const style = { size: 7, color: MUTED_COLOR };
+    painter.text(item.label, x + 5.5, y, style);
+    x += 5.5 + painter.textWidth(item.label, style) + 5;
+  });
+}
+
+function drawPage(painter: Painter, options: GanttExportOptions, layout: PageLayout, content: PageContent) {
+  const { rows, days } = content;
+  const top = MARGIN + HEADER_HEIGHT;
+  const bodyTop = top + SCALE_HEIGHT;
+  const chartLeft = MARGIN + layout.labelWidth;
+  const chartWidth = days.length * DAY_WIDTH;
+  const bodyBottom = bodyTop + rows.length * ROW_HEIGHT;
+  const firstDay = days[0];
+  const dayX = (date: Date) => chartLeft + differenceInCalendarDays(startOfDay(date), firstDay) * DAY_WIDTH;
+
+  drawHeader(painter, options, layout, content.pageLabel);
+
+  // Date scale: months above, week starts below
+  painter.rect(MARGIN, top, layout.labelWidth + chartWidth, SCALE_HEIGHT, GROUP_FILL);
+  painter.text('Task', MARGIN + 2, top + SCALE_HEIGHT / 2, { size: 8, bold: true, color: MUTED_COLOR });
+  days.forEach((day, index) => {
+    const x = chartLeft + index * DAY_WIDTH;
+    if (index === 0 || day.getDate() === 1) {
+      if (index > 0) painter.line(x, top, x, top + SCALE_HEIGHT / 2, GRID_COLOR);
+      const remaining = chartLeft + chartWidth - x;
+      const monthStyle = { size: 7, bold: true };
+      painter.text(fitText(painter, format(day, 'MMMM yyyy'), remaining - 2, monthStyle), x + 1, top + 2.5, monthStyle);
+    }
+    if (options.isNonWorkingDay?.(day)) {
+      painter.rect(x, bodyTop, DAY_WIDTH, bodyBottom - bodyTop, SHADE_FILL);
+    }
+    if (day.getDay() === 1) {
+      painter.line(x, top + SCALE_HEIGHT / 2, x, bodyBottom, GRID_COLOR);
+      if (chartLeft + chartWidth - x >= 8) {
+        painter.text(format(day, 'd MMM'), x + 1, top + SCALE_HEIGHT * 0.75, { size: 6, color: MUTED_COLOR });
+      }
+    }
+  });
+
+  rows.forEach((row, index) => {
+    const y = bodyTop + index * ROW_HEIGHT;
+    const midY = y + ROW_HEIGHT / 2;
+    if (row.kind === 'group') {
+      painter.rect(MARGIN, y, layout.labelWidth + chartWidth, ROW_HEIGHT, GROUP_FILL);
+      painter.rect(MARGIN + 1, midY - 1, 2, 2, row.color);
+    }
+
+    // Task column, repeated on every page
+    const indent = 2 + (row.kind === 'group' ? 3 : 0) + (row.depth || 0) * 3;
+    const labelStyle = { size: 7, bold: row.kind === 'group' || row.kind === 'summary' };
+    const dates = row.start && row.end && row.kind !== 'group'
+      ? row.kind === 'milestone' || isSameDay(row.start, row.end)
+        ? format(row.end, 'd MMM')
+        : `${format(row.start, 'd MMM')} - ${format(row.end, 'd MMM')}`
+      : '';
+    const dateStyle = { size: 6, color: MUTED_COLOR, align: 'right' as const };
+    const dateWidth = dates ? painter.textWidth(dates, dateStyle) + 2 : 0;
+    painter.text(fitText(painter, row.label, layout.labelWidth - indent - dateWidth - 2, labelStyle), MARGIN + indent, midY, labelStyle);
+    if (dates) painter.text(dates, chartLeft - 1.5, midY, dateStyle);
+
+    if (row.start && row.end && row.kind !== 'group') {
+      const start = Math.max(dayX(row.start), chartLeft);
+      const end = Math.min(dayX(row.end) + DAY_WIDTH, chartLeft + chartWidth);
+      if (row.kind === 'milestone') {
+        const cx = dayX(row.end) + DAY_WIDTH / 2;
+        if (cx >= chartLeft && cx <= chartLeft + chartWidth) painter.diamond(cx, midY, 2, row.color);
+      } else if (end > start) {
+        const barHeight = row.kind === 'summary' ? 2.5 : 3.6;
+        const barY = midY - barHeight / 2;
+        painter.rect(start, barY, end - start, barHeight, row.barColor || tint(row.color, row.kind === 'summary' ? 0 : 0.6));
+        if (row.kind === 'task' && row.progress) {
+          const fullStart = dayX(row.start);
+          const progressEnd = Math.min(fullStart + (dayX(row.end) + DAY_WIDTH - fullStart) * Math.min(row.progress, 100) / 100, end);
+          if (progressEnd > start) painter.rect(start, barY, progressEnd - start, barHeight, row.color);
+        }
+      }
+    }
+    painter.line(MARGIN, y + ROW_HEIGHT, chartLeft + chartWidth, y + ROW_HEIGHT, GRID_COLOR, 0.1);
+  });
+
+  const today = startOfDay(options.today || new Date());
+  if (today >= firstDay && today <= days[days.length - 1]) {
+    const x = dayX(today) + DAY_WIDTH / 2;
+    painter.line(x, bodyTop, x, bodyBottom, TODAY_COLOR, 0.3);
+  }
+
+  painter.line(chartLeft, top, chartLeft, bodyBottom, GRID_COLOR, 0.3);
+  drawLegend(painter, options.legend, layout);
+}
+
+/** Whole weeks from the Monday before the first date to the Sunday after the last */
+export function getExportDays(rangeStart: Date, rangeEnd: Date): Date[] {
+  return eachDayOfInterval({
+    start: startOfWeek(startOfDay(rangeStart), { weekStartsOn: 1 }),
+    end: endOfWeek(startOfDay(rangeEnd), { weekStartsOn: 1 }),
+  }).map(day => startOfDay(day));
+}
+
+/**
+ * Splits rows into pages, never leaving a group heading alone at the bottom
+ * of a page
+ */
+export function paginateRows(rows: GanttExportRow[], rowsPerPage: number): GanttExportRow[][] {
+  const pages: GanttExportRow[][] = [];
+  let page: GanttExportRow[] = [];
+  rows.forEach(row => {
+    if (page.length === rowsPerPage) {
+      const carried = page[page.length - 1].kind === 'group' && page.length > 1 ? [page.pop()!] : [];
+      pages.push(page);
+      page = carried;
+    }
+    page.push(row);
+  });
+  if (page.length > 0 || pages.length === 0) pages.push(page);
+  return pages;
+}
+
+/** Splits the days into page-wide runs of whole weeks */
+export function paginateDays(days: Date[], daysPerPage: number): Date[][] {
+  const perPage = Math.max(7, Math.floor(daysPerPage / 7) * 7);
+  const pages: Date[][] = [];
+  for (let i = 0; i < days.length; i += perPage) pages.push(days.slice(i, i + perPage));
+  return pages;
+}
+
+/**
+ * Paged landscape PDF. Rows are split down the pages and the timeline across
+ * them; each page repeats the task column, header and legend.
+ */
+export function exportGanttPdf(options: GanttExportOptions, pageSize: GanttExportPageSize, fileName: string) {
+  const layout = PAGE_SIZES[pageSize];
+  const pdf = new jsPDF({ orientation: 'landscape', unit: 'mm', format: pageSize });
+  const painter = pdfPainter(pdf);
+
+  const bodyHeight = layout.height - 2 * MARGIN - HEADER_HEIGHT - SCALE_HEIGHT - LEGEND_HEIGHT;
+  const rowPages = paginateRows(options.rows, Math.floor(bodyHeight / ROW_HEIGHT));
+  const dayPages = paginateDays(
+    getExportDays(options.rangeStart, options.rangeEnd),
+    Math.floor((layout.width - 2 * MARGIN - layout.labelWidth) / DAY_WIDTH)
+  );
+  const total = rowPages.length * dayPages.length;
+
+  rowPages.forEach((rows, rowIndex) => {
+    dayPages.forEach((days, dayIndex) => {
+      const number = rowIndex * dayPages.length + dayIndex + 1;
+      if (number > 1) pdf.addPage(pageSize, 'landscape');
+      drawPage(painter, options, layout, {
+        rows,
+        days,
+        pageLabel: total > 1 ? `Page ${number} of ${total}` : undefined,
+      });
+    });
+  });
+
+  pdf.save(fileName);
+}
+
+/** The full timeline as a single PNG image */
+export async function exportGanttPng(options: GanttExportOptions, fileName: string) {
+  const days = getExportDays(options.rangeStart, options.rangeEnd);
+  const labelWidth = PAGE_SIZES.a3.labelWidth;
+  const layout = {
+    labelWidth,
+    width: 2 * MARGIN + labelWidth + days.length * DAY_WIDTH,
+    height: 2 * MARGIN + HEADER_HEIGHT + SCALE_HEIGHT + options.rows.length * ROW_HEIGHT + LEGEND_HEIGHT,
+  };
+  const scale = Math.min(PNG_PX_PER_MM, PNG_MAX_PX / layout.width, PNG_MAX_PX / layout.height);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(layout.width * scale);
+  canvas.height = Math.ceil(layout.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser');
+  ctx.scale(scale, scale);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, layout.width, layout.height);
+
+  const images = new Map<string, HTMLImageElement>();
+  if (options.logo) images.set(options.logo.dataUrl, await decodeImage(options.logo.dataUrl));
+  drawPage(canvasPainter(ctx, images), options, layout, { rows: options.rows, days });
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('Could not create the image');
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function decodeImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load image'));
+    image.src = src;
+  });
+}
+
+/**
+ * Loads an image (e.g. the project logo) as a PNG data URL. Returns null when
+ * it cannot be read, so the export goes ahead without it.
+ */
+export async function loadExportImage(url: string | null | undefined): Promise<GanttExportImage | null> {
+  if (!url) return null;
+  try {
+    const image = await decodeImage(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth || 200;
+    canvas.height = image.naturalHeight || 200;
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return { dataUrl: canvas.toDataURL('image/png'), width: canvas.width, height: canvas.height };
+  } catch {
+    return null;
+  }
+}
+
+/** Earliest and latest date across the rows, or null when nothing is dated */
+export function getRowsRange(rows: GanttExportRow[]): { start: Date; end: Date } | null {
+  const dates = rows.flatMap(row => [row.start, row.end]).filter((date): date is Date => !!date);
+  if (dates.length === 0) return null;
+  const times = dates.map(date => date.getTime());
+  return { start: new Date(Math.min(...times)), end: new Date(Math.max(...times)) };
+}
@@ -0,0 +1,82 @@
+// iCalendar (RFC 5545) export of tasks. The calendar-feed edge function writes
+// the same events for subscriptions; this builds a one-off .ics download.
+import { addDays, format, parseISO } from 'date-fns';
+import { isTaskDoneStatus } from '@/lib/taskStatus';
+
+export interface IcsTask {
+  id: string;
+  title: string;
+  description?: string | null;
+  status: string;
+  status_category?: string | null;
+  start_date?: string | null;
+  due_date?: string | null;
+  progress_percentage?: number | null;
+  projects?: { name: string } | null;
+  element_name?: string;
+  elements?: { title: string } | null;
+}
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 characters continue on the next line after a space
+const foldLine = (line: string) => line.match(/.{1,74}/g)?.join('\r\n ') ?? line;
+
+const toIcsDate = (date: string) => date.replace(/-/g, '');
+
+/**
+ * Calendar with one all-day event per task on its due date. Tasks without a
+ * due date are left out.
+ */
+export function buildTaskCalendar(name: string, tasks: IcsTask[]): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Project Planner//Task Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  tasks.filter(task => task.due_date).forEach(task => {
+    const dueDate = task.due_date!;
+    const details = [
+      task.projects?.name ? `Project: ${task.projects.name}` : null,
+      task.elements?.title || task.element_name ? `Element: ${task.elements?.title || task.element_name}` : null,
+      task.start_date && task.start_date !== dueDate ? `Starts: ${task.start_date}` : null,
+      `Progress: ${task.progress_percentage ?? 0}%`,
+      task.description || null,
+    ].filter(Boolean);
+    const done = isTaskDoneStatus(task.status, task.status_category);
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:task-${task.id}@project-planner`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(dueDate)}`,
+      `DTEND;VALUE=DATE:${format(addDays(parseISO(dueDate), 1), 'yyyyMMdd')}`,
+      `SUMMARY:${escapeText(`${done ? '✓ ' : ''}${task.title}`)}`,
+      `DESCRIPTION:${escapeText(details.join('\n'))}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export function downloadTaskCalendar(name: string, tasks: IcsTask[]) {
+  const slug = name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'tasks';
+  const blob = new Blob([buildTaskCalendar(name, tasks)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${slug}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,79 @@
+// @mention helpers for task comments.
+// Comments are stored with mentions encoded as `@[Full Name](user-id)` so they survive
+// renames of the display text; the editor works with the plain `@Full Name` form.
+
+export interface MentionUser {
+  id: string;
+  name: string;
+}
+
+export type MentionSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; text: string; userId: string };
+
+const MENTION_PATTERN = /@\[([^\]]+)\]\(([0-9a-fA-F-]{36})\)/g;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Replace plain `@Name` occurrences of the given users with encoded mentions.
+ * Longer names are matched first so "@Ann Lee" wins over "@Ann".
+ */
+export function encodeMentions(text: string, mentions: MentionUser[]): string {
+  return [...mentions]
+    .sort((a, b) => b.name.length - a.name.length)
+    .reduce(
+      (result, mention) =>
+        result.replace(new RegExp(`@${escapeRegExp(mention.name)}(?![\\w])`, 'g'), `@[${mention.name}](${mention.id})`),
+      text
+    );
+}
+
+/**
+ * Turn a stored comment back into editable text plus the mentions it contained
+ */
+export function decodeMentions(text: string): { text: string; mentions: MentionUser[] } {
+  const mentions: MentionUser[] = [];
+  const plain = text.replace(MENTION_PATTERN, (_match, name: string, id: string) => {
+    if (!mentions.some(m => m.id === id)) mentions.push({ id, name });
+    return `@${name}`;
+  });
+  return { text: plain, mentions };
+}
+
+/**
+ * Unique user ids mentioned in a stored comment
+ */
+export function extractMentionIds(text: string): string[] {
+  const ids = new Set<string>();
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    ids.add(match[2]);
+  }
+  return [...ids];
+}
+
+/**
+ * Split a stored comment into text and mention segments for rendering
+ */
+export function splitMentions(text: string): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    if (match.index! > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, match.index) });
+    }
+    segments.push({ type: 'mention', text: `@${match[1]}`, userId: match[2] });
+    lastIndex = match.index! + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+  return segments;
+}
+
+/**
+ * Strip mention markup, e.g. for notification previews
+ */
+export function mentionsToPlainText(text: string): string {
+  return decodeMentions(text).text;
+}
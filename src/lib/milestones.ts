@@ -0,0 +1,98 @@
+// Milestones: dated checkpoints with an owner, linked tasks and a manager sign-off.
+import { addDays, format, parseISO, startOfDay } from 'date-fns';
+import { isTaskDoneStatus } from '@/lib/taskStatus';
+
+export type MilestoneApprovalStatus = 'pending' | 'approved' | 'rejected';
+export type MilestoneStatus = 'hit' | 'missed' | 'at_risk' | 'upcoming';
+
+/** Open milestones this close to their date are at risk until reached */
+export const MILESTONE_AT_RISK_DAYS = 7;
+
+export interface ProjectMilestone {
+  id: string;
+  project_id: string;
+  title: string;
+  description: string | null;
+  due_date: string;
+  owner_user_id: string | null;
+  department_id: string | null;
+  completed_at: string | null;
+  approval_status: MilestoneApprovalStatus;
+  approval_note: string | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  task_ids: string[];
+}
+
+export interface MilestoneTask {
+  id: string;
+  status: string;
+  status_category?: string | null;
+  due_date: string | null;
+}
+
+export const MILESTONE_STATUS_LABELS: Record<MilestoneStatus, string> = {
+  hit: 'Hit',
+  missed: 'Missed',
+  at_risk: 'At risk',
+  upcoming: 'Upcoming',
+};
+
+/** Hex colours so the diamonds match in SVG charts and emails */
+export const MILESTONE_STATUS_COLORS: Record<MilestoneStatus, string> = {
+  hit: '#22c55e',
+  missed: '#ef4444',
+  at_risk: '#f59e0b',
+  upcoming: '#6366f1',
+};
+
+export const MILESTONE_APPROVAL_LABELS: Record<MilestoneApprovalStatus, string> = {
+  pending: 'Awaiting sign-off',
+  approved: 'Signed off',
+  rejected: 'Rejected',
+};
+
+/** Reached and not turned down at sign-off */
+export const isMilestoneReached = (milestone: Pick<ProjectMilestone, 'completed_at' | 'approval_status'>) =>
+  !!milestone.completed_at && milestone.approval_status !== 'rejected';
+
+/**
+ * Hit when reached on or before its date, missed when reached late or still
+ * open after it. An open milestone is at risk when a linked task is overdue or
+ * due after the milestone, or inside its last week with work still open.
+ */
+export function getMilestoneStatus(
+  milestone: Pick<ProjectMilestone, 'due_date' | 'completed_at' | 'approval_status' | 'task_ids'>,
+  tasks: MilestoneTask[] = [],
+  today: Date = new Date()
+): MilestoneStatus {
+  const due = milestone.due_date.split('T')[0];
+  const todayKey = format(startOfDay(today), 'yyyy-MM-dd');
+
+  if (isMilestoneReached(milestone)) {
+    return format(parseISO(milestone.completed_at!), 'yyyy-MM-dd') <= due ? 'hit' : 'missed';
+  }
+  if (due < todayKey) return 'missed';
+
+  const linked = new Set(milestone.task_ids);
+  const openTasks = tasks.filter(task => linked.has(task.id) && !isTaskDoneStatus(task.status, task.status_category));
+  const blocking = openTasks.some(task => {
+    const taskDue = task.due_date?.split('T')[0];
+    return !!taskDue && (taskDue < todayKey || taskDue > due);
+  });
+  if (blocking) return 'at_risk';
+
+  const closingIn = due <= format(addDays(startOfDay(today), MILESTONE_AT_RISK_DAYS), 'yyyy-MM-dd');
+  const workLeft = milestone.task_ids.length === 0 || openTasks.length > 0;
+  return closingIn && workLeft ? 'at_risk' : 'upcoming';
+}
+
+/** Done and total linked tasks */
+export function getMilestoneTaskProgress(milestone: Pick<ProjectMilestone, 'task_ids'>, tasks: MilestoneTask[]) {
+  const linked = new Set(milestone.task_ids);
+  const linkedTasks = tasks.filter(task => linked.has(task.id));
+  return {
+    done: linkedTasks.filter(task => isTaskDoneStatus(task.status, task.status_category)).length,
+    total: linkedTasks.length,
+  };
+}
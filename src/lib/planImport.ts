@@ -0,0 +1,334 @@
+// Schedules from other tools (MS Project / ProjectLibre XML, CSV) turned into
+// elements, tasks and dependencies. Summary tasks become elements, leaf tasks
+// become tasks and resources are mapped to departments or people by the user.
+import { parseSheetDate } from '@/lib/taskSpreadsheet';
+
+export interface PlanTask {
+  uid: string;
+  name: string;
+  outlineLevel: number;
+  summary: boolean;
+  parentUid: string | null;
+  start: string | null;
+  finish: string | null;
+  percentComplete: number;
+  notes: string | null;
+  /** UIDs of predecessor tasks */
+  predecessors: string[];
+  resources: string[];
+}
+
+export interface ParsedPlan {
+  tasks: PlanTask[];
+  resources: string[];
+}
+
+type RawPlanTask = Omit<PlanTask, 'summary' | 'parentUid'> & { summary?: boolean };
+
+/**
+ * Fill in parents from outline levels (tasks are listed in outline order) and
+ * mark tasks with children as summaries where the source didn't say.
+ */
+function linkOutline(raw: RawPlanTask[]): ParsedPlan {
+  const stack: PlanTask[] = [];
+  const tasks: PlanTask[] = [];
+
+  raw.forEach(item => {
+    while (stack.length > 0 && stack[stack.length - 1].outlineLevel >= item.outlineLevel) stack.pop();
+    const parent = stack[stack.length - 1] || null;
+    if (parent) parent.summary = true;
+
+    const task: PlanTask = { ...item, summary: !!item.summary, parentUid: parent?.uid ?? null };
+    tasks.push(task);
+    stack.push(task);
+  });
+
+  const resources = [...new Set(tasks.flatMap(t => t.resources))].sort((a, b) => a.localeCompare(b));
+  return { tasks, resources };
+}
+
+const childText = (parent: Element, name: string) => {
+  const child = Array.from(parent.children).find(el => el.localName === name);
+  return child?.textContent?.trim() || null;
+};
+
+const childElements = (parent: Element | null | undefined, name: string) =>
+  parent ? Array.from(parent.children).filter(el => el.localName === name) : [];
+
+const toDate = (value: string | null) => (value ? value.slice(0, 10) : null);
+
+/**
+ * Parse an MS Project XML (MSPDI) file, as saved by MS Project or ProjectLibre
+ */
+export function parseMspdi(xml: string): ParsedPlan {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || root?.localName !== 'Project') {
+    throw new Error('This is not an MS Project XML file');
+  }
+
+  const section = (name: string) => Array.from(root.children).find(el => el.localName === name);
+
+  const resourceNames = new Map<string, string>();
+  childElements(section('Resources'), 'Resource').forEach(resource => {
+    const uid = childText(resource, 'UID');
+    const name = childText(resource, 'Name');
+    if (uid && name) resourceNames.set(uid, name);
+  });
+
+  const taskResources = new Map<string, string[]>();
+  childElements(section('Assignments'), 'Assignment').forEach(assignment => {
+    const taskUid = childText(assignment, 'TaskUID');
+    const name = resourceNames.get(childText(assignment, 'ResourceUID') || '');
+    if (!taskUid || !name) return;
+    taskResources.set(taskUid, [...(taskResources.get(taskUid) || []), name]);
+  });
+
+  const raw: RawPlanTask[] = [];
+  childElements(section('Tasks'), 'Task').forEach(task => {
+    const uid = childText(task, 'UID');
+    const name = childText(task, 'Name');
+    const outlineLevel = parseInt(childText(task, 'OutlineLevel') || '1', 10);
+    // Level 0 is the project summary task; blank rows have no name
+    if (!uid || !name || outlineLevel === 0 || childText(task, 'IsNull') === '1') return;
+
+    raw.push({
+      uid,
+      name,
+      outlineLevel,
+      summary: childText(task, 'Summary') === '1',
+      start: toDate(childText(task, 'Start')),
+      finish: toDate(childText(task, 'Finish')),
+      percentComplete: parseInt(childText(task, 'PercentComplete') || '0', 10) || 0,
+      notes: childText(task, 'Notes'),
+      predecessors: childElements(task, 'PredecessorLink')
+        .map(link => childText(link, 'PredecessorUID'))
+        .filter((predecessor): predecessor is string => !!predecessor),
+      resources: taskResources.get(uid) || [],
+    });
+  });
+
+  if (raw.length === 0) throw new Error('The file contains no tasks');
+  return linkOutline(raw);
+}
+
+/**
+ * Split CSV text into rows of cells (quoted cells may contain commas,
+ * newlines and doubled quotes)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const delimiter = text.split('\n')[0].includes(';') && !text.split('\n')[0].includes(',') ? ';' : ',';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(c => c.trim()));
+}
+
+export const CSV_FIELDS = [
+  { key: 'name', label: 'Task name', required: true, aliases: ['name', 'task name', 'task', 'title', 'task title'] },
+  { key: 'id', label: 'ID', required: false, aliases: ['id', 'task id', 'uid', 'unique id', 'wbs'] },
+  { key: 'outlineLevel', label: 'Outline level', required: false, aliases: ['outline level', 'level', 'outlinelevel'] },
+  { key: 'start', label: 'Start', required: false, aliases: ['start', 'start date', 'begin'] },
+  { key: 'finish', label: 'Finish', required: false, aliases: ['finish', 'finish date', 'end', 'end date', 'due date', 'due'] },
+  { key: 'percentComplete', label: '% complete', required: false, aliases: ['% complete', 'percent complete', 'progress', 'complete'] },
+  { key: 'predecessors', label: 'Predecessors', required: false, aliases: ['predecessors', 'predecessor', 'depends on'] },
+  { key: 'resources', label: 'Resources', required: false, aliases: ['resource names', 'resources', 'resource', 'assigned to', 'assignee'] },
+  { key: 'notes', label: 'Notes', required: false, aliases: ['notes', 'description', 'comments'] },
+] as const;
+
+export type CsvField = (typeof CSV_FIELDS)[number]['key'];
+
+/** Column index per field, or -1 when the field isn't in the file */
+export type CsvColumnMapping = Record<CsvField, number>;
+
+export function guessCsvMapping(headers: string[]): CsvColumnMapping {
+  const normalized = headers.map(h => h.trim().toLowerCase());
+  return Object.fromEntries(
+    CSV_FIELDS.map(field => [field.key, normalized.findIndex(h => (field.aliases as readonly string[]).includes(h))])
+  ) as CsvColumnMapping;
+}
+
+// "3", "3FS", "3FS+2 days" -> "3"; "Design[50%]" -> "Design"
+const splitList = (value: string) => value.split(/[,;]/).map(part => part.trim()).filter(Boolean);
+const predecessorId = (value: string) => value.match(/^(.+?)(FS|SS|FF|SF)?([+-]\s*\d.*)?$/i)?.[1] ?? value;
+const resourceName = (value: string) => value.replace(/\[[^\]]*\]$/, '').trim();
+
+/**
+ * Plan from CSV rows (header first). Without an outline level column every
+ * row is a task; without an ID column rows are numbered from 1.
+ */
+export function planFromCsv(rows: string[][], mapping: CsvColumnMapping): ParsedPlan {
+  const cell = (row: string[], field: CsvField) => (mapping[field] >= 0 ? (row[mapping[field]] ?? '').trim() : '');
+
+  const raw: RawPlanTask[] = [];
+  rows.slice(1).forEach((row, index) => {
+    const name = cell(row, 'name');
+    if (!name) return;
+
+    raw.push({
+      uid: cell(row, 'id') || String(index + 1),
+      name,
+      outlineLevel: parseInt(cell(row, 'outlineLevel'), 10) || 1,
+      start: parseSheetDate(cell(row, 'start')),
+      finish: parseSheetDate(cell(row, 'finish')),
+      percentComplete: Math.min(100, Math.max(0, parseFloat(cell(row, 'percentComplete')) || 0)),
+      notes: cell(row, 'notes') || null,
+      predecessors: splitList(cell(row, 'predecessors')).map(predecessorId),
+      resources: splitList(cell(row, 'resources')).map(resourceName).filter(Boolean),
+    });
+  });
+
+  if (raw.length === 0) throw new Error('The file contains no tasks');
+  return linkOutline(raw);
+}
+
+// ---------------------------------------------------------------------------
+// Mapping onto the project
+// ---------------------------------------------------------------------------
+
+/**
+ * Where a resource's tasks go: an existing department, a new department named
+ * after the resource, a project member, or nowhere.
+ */
+export type ResourceTarget =
+  | { kind: 'department'; departmentId: string }
+  | { kind: 'new_department' }
+  | { kind: 'user'; userId: string }
+  | { kind: 'ignore' };
+
+/** Existing department id, or `new:<name>` for one the import creates */
+export type DepartmentKey = string;
+
+export const newDepartmentKey = (name: string): DepartmentKey => `new:${name}`;
+
+export function guessResourceTarget(
+  resource: string,
+  departments: { id: string; name: string }[],
+  people: { id: string; full_name: string | null; email: string | null }[]
+): ResourceTarget | null {
+  const name = resource.trim().toLowerCase();
+  const department = departments.find(d => d.name.trim().toLowerCase() === name);
+  if (department) return { kind: 'department', departmentId: department.id };
+  const person = people.find(p => p.full_name?.trim().toLowerCase() === name || p.email?.toLowerCase() === name);
+  if (person) return { kind: 'user', userId: person.id };
+  return null;
+}
+
+export interface PlanImport {
+  newDepartments: string[];
+  elements: { uid: string; title: string; department: DepartmentKey; start: string | null; finish: string | null }[];
+  tasks: {
+    uid: string;
+    title: string;
+    description: string | null;
+    department: DepartmentKey;
+    elementUid: string | null;
+    userIds: string[];
+    start: string | null;
+    finish: string | null;
+    percentComplete: number;
+  }[];
+  /** [task UID, predecessor UID] between imported tasks */
+  dependencies: [string, string][];
+  /** Links touching summary tasks or tasks outside the file */
+  skippedDependencies: number;
+}
+
+/**
+ * Decide what to create. A task goes to the department of its first resource
+ * mapped to one, otherwise `fallback`; an element goes where most of its tasks go.
+ */
+export function buildPlanImport(
+  plan: ParsedPlan,
+  targets: Record<string, ResourceTarget>,
+  fallback: DepartmentKey
+): PlanImport {
+  const byUid = new Map(plan.tasks.map(task => [task.uid, task]));
+  const leaves = plan.tasks.filter(task => !task.summary);
+  const newDepartments = new Set<string>();
+
+  const tasks = leaves.map(task => {
+    let department: DepartmentKey | null = null;
+    const userIds: string[] = [];
+    task.resources.forEach(resource => {
+      const target = targets[resource];
+      if (!target) return;
+      if (target.kind === 'department') department ??= target.departmentId;
+      if (target.kind === 'new_department') {
+        department ??= newDepartmentKey(resource);
+      }
+      if (target.kind === 'user' && !userIds.includes(target.userId)) userIds.push(target.userId);
+    });
+    department ??= fallback;
+    if (department.startsWith('new:')) newDepartments.add(department.slice(4));
+
+    const parent = task.parentUid ? byUid.get(task.parentUid) : null;
+    return {
+      uid: task.uid,
+      title: task.name,
+      description: task.notes,
+      department,
+      elementUid: parent?.uid ?? null,
+      userIds,
+      start: task.start,
+      finish: task.finish,
+      percentComplete: task.percentComplete,
+    };
+  });
+
+  // Only summaries holding tasks become elements; outer levels only group them
+  const elements = plan.tasks
+    .filter(task => task.summary && tasks.some(t => t.elementUid === task.uid))
+    .map(summary => {
+      const counts = new Map<DepartmentKey, number>();
+      tasks.filter(t => t.elementUid === summary.uid).forEach(t => counts.set(t.department, (counts.get(t.department) || 0) + 1));
+      const department = [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+      return { uid: summary.uid, title: summary.name, department, start: summary.start, finish: summary.finish };
+    });
+
+  const imported = new Set(tasks.map(t => t.uid));
+  const dependencies: [string, string][] = [];
+  let skippedDependencies = 0;
+  leaves.forEach(task => {
+    [...new Set(task.predecessors)].forEach(predecessor => {
+      if (imported.has(predecessor) && predecessor !== task.uid) dependencies.push([task.uid, predecessor]);
+      else skippedDependencies++;
+    });
+  });
+  plan.tasks.filter(task => task.summary).forEach(task => { skippedDependencies += task.predecessors.length; });
+
+  return { newDepartments: [...newDepartments], elements, tasks, dependencies, skippedDependencies };
+}
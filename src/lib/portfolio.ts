@@ -0,0 +1,117 @@
+// Portfolio timeline: every project as one bar, grouped by category and client.
+import { addDays, differenceInCalendarDays, max as maxDate, min as minDate, parseISO, startOfDay } from 'date-fns';
+import type { ProjectHealthStatus } from '@/lib/projectHealth';
+
+export type PortfolioZoom = 'week' | 'month' | 'quarter';
+
+export interface PortfolioProject {
+  id: string;
+  name: string;
+  status: string;
+  start_date: string;
+  end_date: string | null;
+  project_category?: string;
+  client_name?: string | null;
+  taskCount: number;
+  completedCount: number;
+  overdueCount: number;
+  progress: number;
+  health: ProjectHealthStatus;
+  /** Latest task due date, used when the project has no end date */
+  lastDueDate: string | null;
+}
+
+export interface PortfolioElement {
+  id: string;
+  project_id: string;
+  title: string;
+  start_date: string | null;
+  due_date: string | null;
+}
+
+export interface PortfolioGroup {
+  key: string;
+  label: string;
+  projects: PortfolioProject[];
+}
+
+export interface PortfolioSpan {
+  start: Date;
+  end: Date;
+  /** No end date on the project or its tasks, so the bar is only a start marker */
+  openEnded: boolean;
+}
+
+/** Pixels per day at each zoom level */
+export const PORTFOLIO_DAY_WIDTH: Record<PortfolioZoom, number> = {
+  week: 14,
+  month: 4,
+  quarter: 1.5,
+};
+
+const toDate = (value: string) => startOfDay(parseISO(value.split('T')[0]));
+
+export function getProjectSpan(project: PortfolioProject): PortfolioSpan {
+  const start = toDate(project.start_date);
+  const endValue = project.end_date || project.lastDueDate;
+  if (!endValue) return { start, end: start, openEnded: true };
+  const end = toDate(endValue);
+  return { start, end: end < start ? start : end, openEnded: false };
+}
+
+export function getElementSpan(element: PortfolioElement): PortfolioSpan | null {
+  const startValue = element.start_date || element.due_date;
+  const endValue = element.due_date || element.start_date;
+  if (!startValue || !endValue) return null;
+  const start = toDate(startValue);
+  const end = toDate(endValue);
+  return { start, end: end < start ? start : end, openEnded: false };
+}
+
+/**
+ * CIO Africa projects first, then one group per client in name order. Client
+ * projects without a client name share an "Unnamed client" group at the end.
+ */
+export function groupPortfolioProjects(projects: PortfolioProject[]): PortfolioGroup[] {
+  const internal: PortfolioProject[] = [];
+  const clients = new Map<string, PortfolioGroup>();
+
+  projects.forEach(project => {
+    if (project.project_category !== 'client') {
+      internal.push(project);
+      return;
+    }
+    const name = project.client_name?.trim() || '';
+    const key = `client:${name.toLowerCase()}`;
+    if (!clients.has(key)) clients.set(key, { key, label: name || 'Unnamed client', projects: [] });
+    clients.get(key)!.projects.push(project);
+  });
+
+  const byStart = (a: PortfolioProject, b: PortfolioProject) =>
+    a.start_date.localeCompare(b.start_date) || a.name.localeCompare(b.name);
+
+  const clientGroups = Array.from(clients.values()).sort((a, b) => {
+    if (a.key === 'client:') return 1;
+    if (b.key === 'client:') return -1;
+    return a.label.localeCompare(b.label);
+  });
+
+  return [
+    ...(internal.length > 0 ? [{ key: 'cio_africa', label: 'CIO Africa', projects: internal }] : []),
+    ...clientGroups,
+  ].map(group => ({ ...group, projects: [...group.projects].sort(byStart) }));
+}
+
+/**
+ * Date range covering every bar plus today, padded a week either side
+ */
+export function getPortfolioRange(projects: PortfolioProject[], elements: PortfolioElement[] = []): { start: Date; end: Date; days: number } {
+  const spans = [
+    ...projects.map(getProjectSpan),
+    ...elements.map(getElementSpan).filter((span): span is PortfolioSpan => span !== null),
+  ];
+  const today = startOfDay(new Date());
+  const start = addDays(minDate([today, ...spans.map(s => s.start)]), -7);
+  const end = addDays(maxDate([today, ...spans.map(s => s.end)]), 7);
+  return { start, end, days: differenceInCalendarDays(end, start) + 1 };
+}
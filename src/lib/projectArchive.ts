@@ -0,0 +1,62 @@
+import { format } from 'date-fns';
+
+export const PROJECT_ARCHIVE_FORMAT = 'project-archive';
+
+/**
+ * Portable copy of a whole project, produced and consumed by the
+ * `project-archive` edge function. Only the parts the UI reads are typed here.
+ */
+export interface ProjectArchive {
+  format: string;
+  version: number;
+  exported_at: string;
+  project: { name: string; start_date: string; end_date: string | null; client_name?: string | null };
+  users: { id: string; email: string | null; full_name: string | null }[];
+  departments: unknown[];
+  elements: unknown[];
+  tasks: unknown[];
+  task_dependencies: unknown[];
+  folders: unknown[];
+  links: unknown[];
+}
+
+export interface ProjectImportSummary {
+  departments: number;
+  elements: number;
+  tasks: number;
+  dependencies: number;
+  folders: number;
+  links: number;
+  members: number;
+  /** Emails (or names) of archived users with no account in this environment */
+  unmatchedUsers: string[];
+}
+
+/**
+ * Read an archive file, rejecting anything that isn't one
+ */
+export async function readProjectArchive(file: File): Promise<ProjectArchive> {
+  let archive: ProjectArchive;
+  try {
+    archive = JSON.parse(await file.text());
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (archive?.format !== PROJECT_ARCHIVE_FORMAT || !archive.project) {
+    throw new Error('This file is not a project archive');
+  }
+  return archive;
+}
+
+export function downloadProjectArchive(archive: ProjectArchive) {
+  const slug = archive.project.name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'project';
+  const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${slug}-archive-${format(new Date(), 'yyyy-MM-dd')}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,34 @@
+// Project health from overdue work, shared by the daily report and the portfolio timeline.
+import { isBefore, parseISO, startOfDay } from 'date-fns';
+import { isTaskDoneStatus } from '@/lib/taskStatus';
+
+export type ProjectHealthStatus = 'on_track' | 'needs_attention' | 'at_risk';
+
+export const PROJECT_HEALTH_LABELS: Record<ProjectHealthStatus, string> = {
+  on_track: 'On Track',
+  needs_attention: 'Needs Attention',
+  at_risk: 'At Risk',
+};
+
+interface HealthTask {
+  status: string;
+  status_category?: string | null;
+  due_date: string | null;
+}
+
+/** An open task whose due date is before today */
+export function isTaskOverdue(task: HealthTask, todayStart: Date = startOfDay(new Date())): boolean {
+  if (isTaskDoneStatus(task.status, task.status_category) || !task.due_date) return false;
+  return isBefore(parseISO(task.due_date), todayStart);
+}
+
+/**
+ * At risk when more than 30% of tasks (or more than 10) are overdue, needs
+ * attention above 10% (or more than 5)
+ */
+export function getProjectHealth(totalTasks: number, overdueTasks: number): ProjectHealthStatus {
+  const overdueRate = totalTasks > 0 ? overdueTasks / totalTasks : 0;
+  if (overdueRate > 0.3 || overdueTasks > 10) return 'at_risk';
+  if (overdueRate > 0.1 || overdueTasks > 5) return 'needs_attention';
+  return 'on_track';
+}
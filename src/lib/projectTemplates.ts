@@ -0,0 +1,187 @@
+import { addDays, format } from 'date-fns';
+import { workingDayOffset } from '@/lib/baselines';
+import { addWorkingDays, isWorkingDay, nextWorkingDay, type WorkingCalendar } from '@/lib/workingDays';
+
+/**
+ * A project's structure saved for reuse. Records refer to each other by `key`
+ * (the id they had in the source project) and dates are working-day offsets
+ * from the project's start date, so the same template lays out any new project.
+ */
+export interface ProjectTemplateContent {
+  version: 1;
+  /** Working days from start to end date of the source project */
+  end_offset: number | null;
+  departments: TemplateDepartment[];
+  elements: TemplateElement[];
+  tasks: TemplateTask[];
+  dependencies: TemplateDependency[];
+  folders: TemplateFolder[];
+  /** The project's label catalogue; missing in templates saved before it was captured */
+  labels: TemplateLabel[];
+}
+
+export interface TemplateDepartment {
+  key: string;
+  name: string;
+  description: string | null;
+}
+
+export interface TemplateElement {
+  key: string;
+  title: string;
+  description: string | null;
+  department_key: string | null;
+  priority: string | null;
+  start_offset: number | null;
+  due_offset: number | null;
+}
+
+export interface TemplateTask {
+  key: string;
+  title: string;
+  description: string | null;
+  department_key: string | null;
+  element_key: string | null;
+  parent_key: string | null;
+  priority: string | null;
+  labels: string[];
+  estimate_hours: number | null;
+  estimated_cost: number | null;
+  start_offset: number | null;
+  due_offset: number | null;
+}
+
+export interface TemplateDependency {
+  task_key: string;
+  depends_on_key: string;
+}
+
+export interface TemplateFolder {
+  key: string;
+  name: string;
+  department_key: string | null;
+  parent_key: string | null;
+}
+
+export interface TemplateLabel {
+  name: string;
+  color: string;
+}
+
+/** Rows of the source project, as read from the database */
+export interface TemplateSource {
+  project: { start_date: string; end_date: string | null };
+  departments: { id: string; name: string; description: string | null }[];
+  elements: {
+    id: string;
+    title: string;
+    description: string | null;
+    department_id: string | null;
+    priority: string | null;
+    start_date: string | null;
+    due_date: string | null;
+  }[];
+  tasks: {
+    id: string;
+    title: string;
+    description: string | null;
+    assignee_department_id: string | null;
+    element_id: string | null;
+    parent_task_id: string | null;
+    priority: string | null;
+    labels: string[] | null;
+    estimate_hours: number | null;
+    estimated_cost: number | null;
+    start_date: string | null;
+    due_date: string | null;
+  }[];
+  dependencies: { task_id: string; depends_on_task_id: string }[];
+  folders: { id: string; name: string; department_id: string | null; parent_folder_id: string | null }[];
+  labels: { name: string; color: string }[];
+}
+
+/**
+ * Turn a project's rows into template content with relative dates, counted in
+ * working days of the source project's calendar
+ */
+export function buildTemplateContent(source: TemplateSource, calendar: WorkingCalendar): ProjectTemplateContent {
+  const start = source.project.start_date;
+  const offsetFrom = (projectStart: string, date: string | null) =>
+    date ? workingDayOffset(projectStart, date, calendar) : null;
+  const taskKeys = new Set(source.tasks.map(t => t.id));
+
+  return {
+    version: 1,
+    end_offset: offsetFrom(start, source.project.end_date),
+    departments: source.departments.map(d => ({ key: d.id, name: d.name, description: d.description })),
+    elements: source.elements.map(e => ({
+      key: e.id,
+      title: e.title,
+      description: e.description,
+      department_key: e.department_id,
+      priority: e.priority,
+      start_offset: offsetFrom(start, e.start_date),
+      due_offset: offsetFrom(start, e.due_date),
+    })),
+    tasks: source.tasks.map(t => ({
+      key: t.id,
+      title: t.title,
+      description: t.description,
+      department_key: t.assignee_department_id,
+      element_key: t.element_id,
+      parent_key: t.parent_task_id && taskKeys.has(t.parent_task_id) ? t.parent_task_id : null,
+      priority: t.priority,
+      labels: t.labels || [],
+      estimate_hours: t.estimate_hours,
+      estimated_cost: t.estimated_cost,
+      start_offset: offsetFrom(start, t.start_date),
+      due_offset: offsetFrom(start, t.due_date),
+    })),
+    dependencies: source.dependencies
+      .filter(d => taskKeys.has(d.task_id) && taskKeys.has(d.depends_on_task_id))
+      .map(d => ({ task_key: d.task_id, depends_on_key: d.depends_on_task_id })),
+    folders: source.folders.map(f => ({
+      key: f.id,
+      name: f.name,
+      department_key: f.department_id,
+      parent_key: f.parent_folder_id,
+    })),
+    labels: source.labels.map(l => ({ name: l.name, color: l.color })),
+  };
+}
+
+/**
+ * Date `offset` working days from the new project's start (negative offsets
+ * count back), as yyyy-MM-dd
+ */
+export function resolveTemplateDate(
+  projectStart: string,
+  offset: number | null,
+  calendar: WorkingCalendar
+): string | null {
+  if (offset === null || offset === undefined) return null;
+  if (offset >= 0) return format(addWorkingDays(projectStart, offset, calendar), 'yyyy-MM-dd');
+
+  let current = nextWorkingDay(projectStart, calendar);
+  let remaining = -offset;
+  while (remaining > 0) {
+    current = addDays(current, -1);
+    if (isWorkingDay(current, calendar)) remaining--;
+  }
+  return format(current, 'yyyy-MM-dd');
+}
+
+/**
+ * Tasks or folders ordered so every parent comes before its children, as the
+ * database checks a new subtask against its parent row
+ */
+export function sortParentsFirst<T extends { key: string; parent_key: string | null }>(items: T[]): T[] {
+  const byKey = new Map(items.map(item => [item.key, item]));
+  const depth = (item: T, seen = new Set<string>()): number => {
+    if (!item.parent_key || !byKey.has(item.parent_key) || seen.has(item.key)) return 0;
+    seen.add(item.key);
+    return 1 + depth(byKey.get(item.parent_key)!, seen);
+  };
+  return [...items].sort((a, b) => depth(a) - depth(b));
+}
+
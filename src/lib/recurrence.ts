@@ -0,0 +1,141 @@
+import { addDays, addMonths, differenceInCalendarDays, differenceInCalendarMonths, format, getDay, parseISO, startOfWeek } from 'date-fns';
+import { addWorkingDays, countWorkingDays, type WorkingCalendar } from '@/lib/workingDays';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'working_days';
+
+export type RecurrenceTrigger = 'completion' | 'schedule';
+
+/**
+ * How a recurring task repeats. Mirrors the `task_recurrences` table; the
+ * database generates the instances with the same rules as below.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval_count: number;
+  /** Weekly rules only: 0 = Sunday ... 6 = Saturday. Empty repeats on the task's own weekday */
+  weekdays: number[];
+  generate_on: RecurrenceTrigger;
+  ends_on: string | null;
+}
+
+export const RECURRENCE_FREQUENCIES: { value: RecurrenceFrequency; label: string; unit: string }[] = [
+  { value: 'daily', label: 'Daily', unit: 'day' },
+  { value: 'weekly', label: 'Weekly', unit: 'week' },
+  { value: 'monthly', label: 'Monthly', unit: 'month' },
+  { value: 'working_days', label: 'Working days', unit: 'working day' },
+];
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const DEFAULT_RECURRENCE_RULE: RecurrenceRule = {
+  frequency: 'weekly',
+  interval_count: 1,
+  weekdays: [],
+  generate_on: 'completion',
+  ends_on: null,
+};
+
+const toDay = (date: string) => parseISO(date.split('T')[0]);
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Start date of the occurrence after `from`. `calendar` is the project's
+ * working calendar, used by working-day series. Monthly series count from
+ * `seriesStart`, the first occurrence, so they keep its day of the month
+ * (Jan 31, Feb 28, Mar 31) instead of drifting after a short month.
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  from: string,
+  calendar: WorkingCalendar,
+  seriesStart: string = from
+): string {
+  const start = toDay(from);
+  const interval = Math.max(1, rule.interval_count);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return toDateString(addDays(start, interval));
+    case 'working_days':
+      return toDateString(addWorkingDays(start, interval, calendar));
+    case 'monthly': {
+      const anchor = toDay(seriesStart);
+      // addMonths clamps to the end of shorter months
+      let months = Math.max(Math.floor(differenceInCalendarMonths(start, anchor) / interval) * interval, 0);
+      while (addMonths(anchor, months) <= start) months += interval;
+      return toDateString(addMonths(anchor, months));
+    }
+  }
+
+  // Weekly: the next chosen weekday, skipping weeks between repeats
+  const weekdays = rule.weekdays.length > 0 ? rule.weekdays : [getDay(start)];
+  const weekStart = startOfWeek(start, { weekStartsOn: 1 });
+  let candidate = start;
+  for (;;) {
+    candidate = addDays(candidate, 1);
+    const week = Math.floor(differenceInCalendarDays(candidate, weekStart) / 7);
+    if (weekdays.includes(getDay(candidate)) && week % interval === 0) {
+      return toDateString(candidate);
+    }
+  }
+}
+
+/**
+ * The next `count` start dates after `from`, stopping at the rule's end date
+ */
+export function getUpcomingOccurrences(
+  rule: RecurrenceRule,
+  from: string,
+  count: number,
+  calendar: WorkingCalendar
+): string[] {
+  const dates: string[] = [];
+  const seriesStart = from.split('T')[0];
+  let current = seriesStart;
+  while (dates.length < count) {
+    current = getNextOccurrence(rule, current, calendar, seriesStart);
+    if (rule.ends_on && current > rule.ends_on) break;
+    dates.push(current);
+  }
+  return dates;
+}
+
+/**
+ * Due date of an instance starting on `nextStart`. Working-day series keep the
+ * task's length in working days, the others in calendar days.
+ */
+export function getOccurrenceDueDate(
+  rule: RecurrenceRule,
+  template: { start_date: string; due_date: string | null },
+  nextStart: string,
+  calendar: WorkingCalendar
+): string | null {
+  if (!template.due_date) return null;
+  if (rule.frequency === 'working_days') {
+    const span = Math.max(countWorkingDays(template.start_date, template.due_date, calendar) - 1, 0);
+    return toDateString(addWorkingDays(nextStart, span, calendar));
+  }
+  const offset = Math.max(differenceInCalendarDays(toDay(template.due_date), toDay(template.start_date)), 0);
+  return toDateString(addDays(toDay(nextStart), offset));
+}
+
+/**
+ * Short description such as "Every 2 weeks on Mon, Thu"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const frequency = RECURRENCE_FREQUENCIES.find(f => f.value === rule.frequency)!;
+  const interval = Math.max(1, rule.interval_count);
+  let text = interval === 1
+    ? `Every ${frequency.unit}`
+    : `Every ${interval} ${frequency.unit}s`;
+
+  if (rule.frequency === 'weekly' && rule.weekdays.length > 0) {
+    // Monday first, as in the rest of the app
+    const ordered = [...rule.weekdays].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+    text += ` on ${ordered.map(d => WEEKDAY_LABELS[d]).join(', ')}`;
+  }
+  if (rule.ends_on) {
+    text += ` until ${format(toDay(rule.ends_on), 'MMM d, yyyy')}`;
+  }
+  return text;
+}
@@ -0,0 +1,73 @@
+// Subtask hierarchy helpers for tasks nested through parent_task_id.
+
+export interface HierarchyTask {
+  id: string;
+  parent_task_id?: string | null;
+}
+
+export interface TaskTreeRow<T> {
+  task: T;
+  depth: number;
+  childCount: number;
+}
+
+/**
+ * Map of parent id -> direct subtasks, keeping the input order.
+ * Only parents present in `tasks` are included.
+ */
+export function getChildrenMap<T extends HierarchyTask>(tasks: T[]): Map<string, T[]> {
+  const ids = new Set(tasks.map(t => t.id));
+  const children = new Map<string, T[]>();
+  tasks.forEach(task => {
+    if (!task.parent_task_id || !ids.has(task.parent_task_id)) return;
+    const siblings = children.get(task.parent_task_id) || [];
+    siblings.push(task);
+    children.set(task.parent_task_id, siblings);
+  });
+  return children;
+}
+
+/**
+ * Orders tasks parent-first with each subtask directly below its parent.
+ * Tasks whose parent is not in the list are shown as top-level rows, and
+ * subtasks of a collapsed parent are left out.
+ */
+export function flattenTaskTree<T extends HierarchyTask>(tasks: T[], collapsed?: Set<string>): TaskTreeRow<T>[] {
+  const ids = new Set(tasks.map(t => t.id));
+  const children = getChildrenMap(tasks);
+  const rows: TaskTreeRow<T>[] = [];
+  const visited = new Set<string>();
+
+  const visit = (task: T, depth: number) => {
+    if (visited.has(task.id)) return;
+    visited.add(task.id);
+    const subtasks = children.get(task.id) || [];
+    rows.push({ task, depth, childCount: subtasks.length });
+    if (collapsed?.has(task.id)) return;
+    subtasks.forEach(child => visit(child, depth + 1));
+  };
+
+  tasks
+    .filter(task => !task.parent_task_id || !ids.has(task.parent_task_id))
+    .forEach(task => visit(task, 0));
+
+  return rows;
+}
+
+/**
+ * Ids of every task nested below `taskId`
+ */
+export function getDescendantIds<T extends HierarchyTask>(tasks: T[], taskId: string): Set<string> {
+  const children = getChildrenMap(tasks);
+  const descendants = new Set<string>();
+  const stack = [taskId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    (children.get(id) || []).forEach(child => {
+      if (descendants.has(child.id)) return;
+      descendants.add(child.id);
+      stack.push(child.id);
+    });
+  }
+  return descendants;
+}
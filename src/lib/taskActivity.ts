@@ -0,0 +1,69 @@
+// Task history entries (task_activity rows written by database triggers, plus comments).
+import { format, parseISO } from 'date-fns';
+import { getStatusLabel } from '@/lib/taskStatus';
+import { mentionsToPlainText } from '@/lib/mentions';
+
+export type TaskActivityType =
+  | 'created'
+  | 'status_changed'
+  | 'progress_changed'
+  | 'date_changed'
+  | 'assigned'
+  | 'unassigned'
+  | 'cost_changed'
+  | 'commented';
+
+export interface TaskActivityEntry {
+  id: string;
+  task_id: string;
+  user_id: string | null;
+  activity_type: TaskActivityType;
+  field: string | null;
+  old_value: string | null;
+  new_value: string | null;
+  created_at: string;
+}
+
+const formatDateValue = (value: string | null) =>
+  value ? format(parseISO(value), 'MMM d, yyyy') : 'no date';
+
+/**
+ * One-line description of a history entry, e.g. "moved the due date from Mar 3 to Mar 7".
+ * `userName` resolves user ids referenced by assignment entries.
+ */
+export function describeTaskActivity(entry: TaskActivityEntry, userName: (id: string | null) => string): string {
+  switch (entry.activity_type) {
+    case 'created':
+      return 'created the task';
+    case 'status_changed':
+      return `changed status from ${getStatusLabel(entry.old_value)} to ${getStatusLabel(entry.new_value)}`;
+    case 'progress_changed':
+      return `updated progress from ${entry.old_value ?? 0}% to ${entry.new_value ?? 0}%`;
+    case 'date_changed': {
+      const label = entry.field === 'start_date' ? 'start date' : 'due date';
+      return `moved the ${label} from ${formatDateValue(entry.old_value)} to ${formatDateValue(entry.new_value)}`;
+    }
+    case 'assigned':
+      return `assigned ${userName(entry.new_value)}`;
+    case 'unassigned':
+      return `unassigned ${userName(entry.old_value)}`;
+    case 'cost_changed':
+      return `updated actual cost from ${Number(entry.old_value || 0).toLocaleString()} to ${Number(entry.new_value || 0).toLocaleString()}`;
+    case 'commented': {
+      const text = mentionsToPlainText(entry.new_value || '');
+      return `commented: "${text.length > 120 ? `${text.slice(0, 120)}...` : text}"`;
+    }
+    default:
+      return 'updated the task';
+  }
+}
+
+/**
+ * User ids an entry refers to, besides its actor
+ */
+export function getActivityUserIds(entry: TaskActivityEntry): string[] {
+  const ids = [entry.user_id];
+  if (entry.activity_type === 'assigned') ids.push(entry.new_value);
+  if (entry.activity_type === 'unassigned') ids.push(entry.old_value);
+  return ids.filter((id): id is string => !!id);
+}
@@ -0,0 +1,36 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Make a task's assignments match `userIds`, touching only the rows that change
+ * so the task history records real reassignments rather than a full reset.
+ */
+export async function syncTaskAssignments(taskId: string, userIds: string[]) {
+  const { data: current, error: fetchError } = await supabase
+    .from('task_assignments')
+    .select('user_id')
+    .eq('task_id', taskId);
+
+  if (fetchError) throw fetchError;
+
+  const currentIds = (current || []).map(a => a.user_id);
+  const removed = currentIds.filter(id => !userIds.includes(id));
+  const added = userIds.filter(id => !currentIds.includes(id));
+
+  if (removed.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('task_assignments')
+      .delete()
+      .eq('task_id', taskId)
+      .in('user_id', removed);
+
+    if (deleteError) throw deleteError;
+  }
+
+  if (added.length > 0) {
+    const { error: assignError } = await supabase
+      .from('task_assignments')
+      .insert(added.map(userId => ({ task_id: taskId, user_id: userId })));
+
+    if (assignError) throw assignError;
+  }
+}
@@ -0,0 +1,130 @@
+// Finish-to-start dependency helpers shared by the Gantt views and the scheduling hook.
+import { addDays, format, parseISO } from 'date-fns';
+import { addWorkingDays, countWorkingDays, nextWorkingDay, type WorkingCalendar } from '@/lib/workingDays';
+
+export interface TaskDependency {
+  id: string;
+  task_id: string;
+  depends_on_task_id: string;
+}
+
+export interface SchedulableTask {
+  id: string;
+  title?: string;
+  start_date: string | null;
+  due_date: string | null;
+}
+
+export interface TaskDateShift {
+  id: string;
+  start_date: string;
+  due_date: string;
+  previous_start_date: string;
+  previous_due_date: string;
+}
+
+/**
+ * Check whether making `taskId` depend on `dependsOnTaskId` would close a loop.
+ * Walks the predecessors of `dependsOnTaskId`; reaching `taskId` means a cycle.
+ */
+export function wouldCreateDependencyCycle(
+  dependencies: Pick<TaskDependency, 'task_id' | 'depends_on_task_id'>[],
+  taskId: string,
+  dependsOnTaskId: string
+): boolean {
+  if (taskId === dependsOnTaskId) return true;
+
+  const predecessors = new Map<string, string[]>();
+  dependencies.forEach(dep => {
+    if (!predecessors.has(dep.task_id)) predecessors.set(dep.task_id, []);
+    predecessors.get(dep.task_id)!.push(dep.depends_on_task_id);
+  });
+
+  const visited = new Set<string>();
+  const stack = [dependsOnTaskId];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    stack.push(...(predecessors.get(current) || []));
+  }
+
+  return false;
+}
+
+/**
+ * Push successors of the changed tasks forward so each one starts on the first
+ * working day after all of its predecessors are due. Durations are preserved in
+ * working days of the project's calendar and tasks are never pulled earlier.
+ */
+export function computeDependentShifts(
+  tasks: SchedulableTask[],
+  dependencies: Pick<TaskDependency, 'task_id' | 'depends_on_task_id'>[],
+  changedTaskIds: string[],
+  calendar: WorkingCalendar
+): TaskDateShift[] {
+  const dates = new Map<string, { start_date: string; due_date: string }>();
+  tasks.forEach(task => {
+    if (task.start_date && task.due_date) {
+      dates.set(task.id, { start_date: task.start_date.split('T')[0], due_date: task.due_date.split('T')[0] });
+    }
+  });
+
+  const successors = new Map<string, string[]>();
+  const predecessors = new Map<string, string[]>();
+  dependencies.forEach(dep => {
+    if (!successors.has(dep.depends_on_task_id)) successors.set(dep.depends_on_task_id, []);
+    successors.get(dep.depends_on_task_id)!.push(dep.task_id);
+    if (!predecessors.has(dep.task_id)) predecessors.set(dep.task_id, []);
+    predecessors.get(dep.task_id)!.push(dep.depends_on_task_id);
+  });
+
+  const original = new Map(dates);
+  const queue = [...changedTaskIds];
+  // Guard against runaway loops if a cycle ever slipped into the data
+  let iterations = 0;
+  const maxIterations = tasks.length * Math.max(dependencies.length, 1) + 1;
+
+  while (queue.length > 0 && iterations++ < maxIterations) {
+    const current = queue.shift()!;
+
+    for (const successorId of successors.get(current) || []) {
+      const successor = dates.get(successorId);
+      if (!successor) continue;
+
+      const latestPredecessorDue = (predecessors.get(successorId) || [])
+        .map(id => dates.get(id)?.due_date)
+        .filter(Boolean)
+        .sort()
+        .pop();
+      if (!latestPredecessorDue) continue;
+
+      const earliestStart = format(nextWorkingDay(addDays(parseISO(latestPredecessorDue), 1), calendar), 'yyyy-MM-dd');
+      if (successor.start_date >= earliestStart) continue;
+
+      const duration = Math.max(countWorkingDays(successor.start_date, successor.due_date, calendar), 1);
+      dates.set(successorId, {
+        start_date: earliestStart,
+        due_date: format(addWorkingDays(earliestStart, duration - 1, calendar), 'yyyy-MM-dd'),
+      });
+      queue.push(successorId);
+    }
+  }
+
+  const shifts: TaskDateShift[] = [];
+  dates.forEach((value, id) => {
+    const before = original.get(id)!;
+    if (before.start_date !== value.start_date || before.due_date !== value.due_date) {
+      shifts.push({
+        id,
+        start_date: value.start_date,
+        due_date: value.due_date,
+        previous_start_date: before.start_date,
+        previous_due_date: before.due_date,
+      });
+    }
+  });
+
+  return shifts;
+}
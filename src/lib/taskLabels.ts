@@ -0,0 +1,102 @@
+// Task label helpers. Tasks store label names in tasks.labels; colours come from
+// the project's label catalogue (project_labels).
+import { isTaskDoneStatus } from '@/lib/taskStatus';
+
+export interface ProjectLabel {
+  id: string;
+  project_id: string;
+  name: string;
+  color: string;
+}
+
+// Palette offered when creating or editing a label
+export const LABEL_COLORS = [
+  '#6b7280',
+  '#ef4444',
+  '#f97316',
+  '#f59e0b',
+  '#22c55e',
+  '#14b8a6',
+  '#3b82f6',
+  '#8b5cf6',
+  '#ec4899',
+] as const;
+
+export const DEFAULT_LABEL_COLOR = LABEL_COLORS[0];
+
+export function normalizeLabelName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Colour of a label name in the given catalogue, grey for labels it doesn't know
+ */
+export function getLabelColor(catalogue: ProjectLabel[], name: string): string {
+  return catalogue.find(label => label.name === name)?.color || DEFAULT_LABEL_COLOR;
+}
+
+/**
+ * Inline style for a label chip: tinted background with a coloured border and text
+ */
+export function getLabelChipStyle(color: string): { backgroundColor: string; borderColor: string; color: string } {
+  return { backgroundColor: `${color}1a`, borderColor: `${color}66`, color };
+}
+
+/**
+ * A task passes the label filter when it carries any of the selected labels.
+ * An empty selection matches every task.
+ */
+export function matchesLabelFilter(taskLabels: string[] | null | undefined, selected: string[] | undefined): boolean {
+  if (!selected || selected.length === 0) return true;
+  return (taskLabels || []).some(label => selected.includes(label));
+}
+
+/**
+ * Unique label names across catalogues of several projects, sorted by name.
+ * The first colour seen for a name wins.
+ */
+export function mergeLabelCatalogues(labels: ProjectLabel[]): ProjectLabel[] {
+  const byName = new Map<string, ProjectLabel>();
+  labels.forEach(label => {
+    if (!byName.has(label.name)) byName.set(label.name, label);
+  });
+  return Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export interface LabelBreakdown {
+  name: string;
+  color: string;
+  total: number;
+  completed: number;
+  completionPct: number;
+  estimatedCost: number;
+  actualCost: number;
+}
+
+/**
+ * Task counts and costs per label. A task with several labels counts towards each.
+ */
+export function computeLabelBreakdown(
+  tasks: { status: string; status_category?: string | null; labels?: string[] | null; estimated_cost?: number | null; actual_cost?: number | null }[],
+  catalogue: ProjectLabel[]
+): LabelBreakdown[] {
+  const rows = new Map<string, LabelBreakdown>();
+  catalogue.forEach(label => {
+    rows.set(label.name, { name: label.name, color: label.color, total: 0, completed: 0, completionPct: 0, estimatedCost: 0, actualCost: 0 });
+  });
+
+  tasks.forEach(task => {
+    (task.labels || []).forEach(name => {
+      const row = rows.get(name) || { name, color: DEFAULT_LABEL_COLOR, total: 0, completed: 0, completionPct: 0, estimatedCost: 0, actualCost: 0 };
+      row.total++;
+      if (isTaskDoneStatus(task.status, task.status_category)) row.completed++;
+      row.estimatedCost += task.estimated_cost || 0;
+      row.actualCost += task.actual_cost || 0;
+      rows.set(name, row);
+    });
+  });
+
+  return Array.from(rows.values())
+    .map(row => ({ ...row, completionPct: row.total > 0 ? Math.round((row.completed / row.total) * 100) : 0 }))
+    .sort((a, b) => b.total - a.total || a.name.localeCompare(b.name));
+}
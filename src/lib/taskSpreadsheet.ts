@@ -0,0 +1,340 @@
+// Excel round-trip for department tasks: the export written by ImportTasksDialog
+// and the plan (dry run) computed before a re-import touches anything.
+import { format, parseISO } from 'date-fns';
+import { z } from 'zod';
+import {
+  getCategoryDefaultStatus,
+  normalizeTaskStatus,
+  type WorkflowStatus,
+} from '@/lib/taskStatus';
+
+export const TASK_SHEET_COLUMNS = [
+  { key: 'Task ID', width: 38 },
+  { key: 'Task Title', width: 30 },
+  { key: 'Element', width: 20 },
+  { key: 'Status', width: 15 },
+  { key: 'Priority', width: 10 },
+  { key: 'Start Date', width: 12 },
+  { key: 'Due Date', width: 12 },
+  { key: 'Description', width: 40 },
+  { key: 'Estimated Cost', width: 15 },
+  { key: 'Actual Cost', width: 15 },
+  { key: 'Last Updated', width: 22 },
+] as const;
+
+const taskRowSchema = z.object({
+  'Task Title': z.string().min(1, 'Task title is required'),
+  'Element': z.string().optional(),
+  'Priority': z.enum(['low', 'medium', 'high']).optional(),
+  'Description': z.string().optional(),
+  'Estimated Cost': z.union([z.number(), z.string()]).optional(),
+  'Actual Cost': z.union([z.number(), z.string()]).optional(),
+});
+
+/** Task fields the spreadsheet can change */
+export interface TaskSheetValues {
+  title: string;
+  element: string | null;
+  status: string;
+  priority: string;
+  start_date: string | null;
+  due_date: string | null;
+  description: string | null;
+  estimated_cost: number;
+  actual_cost: number;
+}
+
+export interface SheetTask {
+  id: string;
+  title: string;
+  status: string | null;
+  priority: string | null;
+  start_date: string | null;
+  due_date: string | null;
+  description: string | null;
+  estimated_cost: number | null;
+  actual_cost: number | null;
+  progress_percentage: number | null;
+  updated_at: string | null;
+  element?: { id: string; title: string } | null;
+}
+
+export interface TaskFieldChange {
+  field: keyof TaskSheetValues;
+  label: string;
+  from: string;
+  to: string;
+}
+
+export interface TaskImportPlan {
+  creates: { row: number; values: TaskSheetValues }[];
+  updates: { row: number; task: SheetTask; values: TaskSheetValues; changes: TaskFieldChange[] }[];
+  conflicts: { row: number; title: string; reason: string }[];
+  /** Tasks of the department missing from the file; only removed when asked to */
+  missing: SheetTask[];
+  unchanged: number;
+  errors: string[];
+  /** Element titles that don't exist yet and will be created */
+  newElements: string[];
+  /** Whether the file came from an export, i.e. rows carry task IDs */
+  hasTaskIds: boolean;
+}
+
+const FIELD_LABELS: Record<keyof TaskSheetValues, string> = {
+  title: 'Title',
+  element: 'Element',
+  status: 'Status',
+  priority: 'Priority',
+  start_date: 'Start date',
+  due_date: 'Due date',
+  description: 'Description',
+  estimated_cost: 'Estimated cost',
+  actual_cost: 'Actual cost',
+};
+
+// Edits made within this window of the export are treated as the exported state
+const CONFLICT_TOLERANCE_MS = 1000;
+
+export function parseSheetDate(serial: unknown): string | null {
+  if (!serial) return null;
+
+  // If it's already a string in YYYY-MM-DD format (for database storage)
+  if (typeof serial === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(serial)) {
+    return serial;
+  }
+
+  // If it's in MM-DD-YYYY format (our template format)
+  if (typeof serial === 'string' && /^\d{2}-\d{2}-\d{4}$/.test(serial)) {
+    const [month, day, year] = serial.split('-');
+    return `${year}-${month}-${day}`;
+  }
+
+  // Helper function to format date as YYYY-MM-DD in local timezone
+  const formatLocalDate = (date: Date): string => {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+  };
+
+  // If it's an Excel serial number
+  if (typeof serial === 'number') {
+    const date = new Date((serial - 25569) * 86400 * 1000);
+    return formatLocalDate(date);
+  }
+
+  // Try to parse as date string
+  const date = new Date(serial as string);
+  if (!isNaN(date.getTime())) {
+    return formatLocalDate(date);
+  }
+
+  return null;
+}
+
+const toSheetDate = (date: string | null) => (date ? format(parseISO(date), 'MM-dd-yyyy') : '');
+
+/**
+ * One spreadsheet row per task, in the same columns the import reads back
+ */
+export function buildTaskSheetRows(tasks: SheetTask[]) {
+  return tasks.map(task => ({
+    'Task ID': task.id,
+    'Task Title': task.title,
+    'Element': task.element?.title || '',
+    'Status': task.status || 'todo',
+    'Priority': task.priority || 'medium',
+    'Start Date': toSheetDate(task.start_date),
+    'Due Date': toSheetDate(task.due_date),
+    'Description': task.description || '',
+    'Estimated Cost': task.estimated_cost ?? 0,
+    'Actual Cost': task.actual_cost ?? 0,
+    'Last Updated': task.updated_at || '',
+  }));
+}
+
+/**
+ * Workflow key for a status cell: a key, a label, or one of the built-in
+ * spellings ("completed", "in progress"...). Null when nothing matches.
+ */
+export function resolveSheetStatus(value: unknown, workflow: WorkflowStatus[]): string | null {
+  const text = String(value ?? '').trim();
+  if (!text) return getCategoryDefaultStatus(workflow, 'todo');
+
+  const match = workflow.find(s => s.key === text)
+    || workflow.find(s => s.key === text.toLowerCase() || s.label.toLowerCase() === text.toLowerCase());
+  if (match) return match.key;
+
+  const category = normalizeTaskStatus(text);
+  return category === 'unknown' ? null : getCategoryDefaultStatus(workflow, category);
+}
+
+const parseCost = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return 0;
+  const cost = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(cost) ? 0 : cost;
+};
+
+const cleanText = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : String(value).trim();
+  return text || null;
+};
+
+function currentValues(task: SheetTask): TaskSheetValues {
+  return {
+    title: task.title,
+    element: task.element?.title || null,
+    status: task.status || 'todo',
+    priority: task.priority || 'medium',
+    start_date: task.start_date,
+    due_date: task.due_date,
+    description: cleanText(task.description),
+    estimated_cost: task.estimated_cost ?? 0,
+    actual_cost: task.actual_cost ?? 0,
+  };
+}
+
+const displayValue = (field: keyof TaskSheetValues, value: TaskSheetValues[keyof TaskSheetValues], workflow: WorkflowStatus[]) => {
+  if (value === null || value === '') return '—';
+  if (field === 'status') return workflow.find(s => s.key === value)?.label || String(value);
+  if (field === 'start_date' || field === 'due_date') return format(parseISO(String(value)), 'MMM d, yyyy');
+  return String(value);
+};
+
+/**
+ * Compare spreadsheet rows with the department's tasks without writing
+ * anything. Rows with a Task ID update that task, rows without one create a
+ * task; IDs that don't belong here, repeats and tasks edited in the app since
+ * the export are reported as conflicts and left alone.
+ */
+export function buildTaskImportPlan(
+  rows: Record<string, unknown>[],
+  existing: SheetTask[],
+  elementTitles: string[],
+  workflow: WorkflowStatus[]
+): TaskImportPlan {
+  const plan: TaskImportPlan = {
+    creates: [],
+    updates: [],
+    conflicts: [],
+    missing: [],
+    unchanged: 0,
+    errors: [],
+    newElements: [],
+    hasTaskIds: false,
+  };
+
+  const tasksById = new Map(existing.map(task => [task.id, task]));
+  const knownElements = new Set(elementTitles);
+  const seenIds = new Set<string>();
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2; // header is row 1
+    const title = cleanText(row['Task Title']);
+    const taskId = cleanText(row['Task ID']);
+    if (taskId) plan.hasTaskIds = true;
+
+    // Skip empty rows (rows without a Task Title). A task whose title was
+    // cleared is reported instead, so it is not taken as missing and deleted.
+    if (!title) {
+      if (taskId) {
+        seenIds.add(taskId);
+        plan.errors.push(`Row ${rowNumber}: Task Title is required`);
+      }
+      return;
+    }
+
+    let values: TaskSheetValues;
+    try {
+      const validated = taskRowSchema.parse({
+        'Task Title': title,
+        'Element': cleanText(row['Element']) ?? undefined,
+        'Priority': cleanText(row['Priority'])?.toLowerCase(),
+        'Description': cleanText(row['Description']) ?? undefined,
+        'Estimated Cost': row['Estimated Cost'],
+        'Actual Cost': row['Actual Cost'],
+      });
+
+      // A task keeps a status from outside the workflow as long as the cell is untouched
+      const exported = taskId ? tasksById.get(taskId)?.status : null;
+      const status = exported && cleanText(row['Status']) === exported
+        ? exported
+        : resolveSheetStatus(row['Status'], workflow);
+      if (!status) throw new Error(`Unknown status "${row['Status']}"`);
+
+      values = {
+        title: validated['Task Title'],
+        element: validated['Element'] || null,
+        status,
+        priority: validated['Priority'] || 'medium',
+        start_date: parseSheetDate(row['Start Date']),
+        due_date: parseSheetDate(row['Due Date']),
+        description: validated['Description'] || null,
+        estimated_cost: parseCost(validated['Estimated Cost']),
+        actual_cost: parseCost(validated['Actual Cost']),
+      };
+    } catch (error) {
+      const message = error instanceof z.ZodError
+        ? error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')
+        : (error as Error).message;
+      plan.errors.push(`Row ${rowNumber}: ${message}`);
+      // The task is still in the file, so it is not missing
+      if (taskId) seenIds.add(taskId);
+      return;
+    }
+
+    if (values.element && !knownElements.has(values.element)) {
+      knownElements.add(values.element);
+      plan.newElements.push(values.element);
+    }
+
+    if (!taskId) {
+      plan.creates.push({ row: rowNumber, values });
+      return;
+    }
+
+    if (seenIds.has(taskId)) {
+      plan.conflicts.push({ row: rowNumber, title, reason: 'This task appears more than once in the file' });
+      return;
+    }
+    seenIds.add(taskId);
+
+    const task = tasksById.get(taskId);
+    if (!task) {
+      plan.conflicts.push({ row: rowNumber, title, reason: 'No such task in this department; it may have been deleted or moved' });
+      return;
+    }
+
+    const current = currentValues(task);
+    const changes = (Object.keys(FIELD_LABELS) as (keyof TaskSheetValues)[])
+      .filter(field => current[field] !== values[field])
+      .map(field => ({
+        field,
+        label: FIELD_LABELS[field],
+        from: displayValue(field, current[field], workflow),
+        to: displayValue(field, values[field], workflow),
+      }));
+
+    if (changes.length === 0) {
+      plan.unchanged++;
+      return;
+    }
+
+    const exportedAt = cleanText(row['Last Updated']);
+    if (exportedAt && task.updated_at) {
+      const editedAfterExport = new Date(task.updated_at).getTime() - new Date(exportedAt).getTime() > CONFLICT_TOLERANCE_MS;
+      if (editedAfterExport) {
+        plan.conflicts.push({ row: rowNumber, title, reason: 'Changed in the app after this file was exported' });
+        return;
+      }
+    }
+
+    plan.updates.push({ row: rowNumber, task, values, changes });
+  });
+
+  if (plan.hasTaskIds) {
+    plan.missing = existing.filter(task => !seenIds.has(task.id));
+  }
+
+  return plan;
+}
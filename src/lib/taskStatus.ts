@@ -11,7 +11,22 @@ export const TASK_STATUSES = [
 
 export type NormalizedTaskStatus = 'todo' | 'in_progress' | 'review' | 'done' | 'blocked' | 'unknown';
 
-export function normalizeTaskStatus(status: string | null | undefined): NormalizedTaskStatus {
+// Every workflow status belongs to one of the canonical statuses, its category
+export type TaskStatusCategory = Exclude<NormalizedTaskStatus, 'unknown'>;
+
+const STATUS_CATEGORIES: TaskStatusCategory[] = ['todo', 'in_progress', 'review', 'done', 'blocked'];
+
+export function isTaskStatusCategory(value: string | null | undefined): value is TaskStatusCategory {
+  return STATUS_CATEGORIES.includes(value as TaskStatusCategory);
+}
+
+/**
+ * Tasks carry a `status_category` maintained by the database; pass it when
+ * available so custom workflow statuses are counted correctly.
+ */
+export function normalizeTaskStatus(status: string | null | undefined, category?: string | null): NormalizedTaskStatus {
+  if (isTaskStatusCategory(category)) return category;
+
   const s = (status ?? '')
     .toString()
     .trim()
@@ -30,29 +45,167 @@ export function normalizeTaskStatus(status: string | null | undefined): Normaliz
   return 'unknown';
 }
 
-export function getStatusLabel(status: string | null | undefined): string {
+export function getStatusLabel(status: string | null | undefined, workflow?: WorkflowStatus[]): string {
+  const custom = workflow?.find(s => s.key === status);
+  if (custom) return custom.label;
+
   const normalized = normalizeTaskStatus(status);
   const found = TASK_STATUSES.find(s => s.value === normalized);
-  return found?.label || 'Unknown';
+  if (found) return found.label;
+
+  // Statuses from another project's workflow: show the key readably
+  return status ? humanizeStatusKey(status) : 'Unknown';
 }
 
-export function isTaskDoneStatus(status: string | null | undefined): boolean {
-  return normalizeTaskStatus(status) === 'done';
+export function isTaskDoneStatus(status: string | null | undefined, category?: string | null): boolean {
+  return normalizeTaskStatus(status, category) === 'done';
 }
 
-export function isTaskInProgressStatus(status: string | null | undefined): boolean {
-  return normalizeTaskStatus(status) === 'in_progress';
+export function isTaskInProgressStatus(status: string | null | undefined, category?: string | null): boolean {
+  return normalizeTaskStatus(status, category) === 'in_progress';
 }
 
-export function isTaskTodoStatus(status: string | null | undefined): boolean {
-  const normalized = normalizeTaskStatus(status);
+export function isTaskTodoStatus(status: string | null | undefined, category?: string | null): boolean {
+  const normalized = normalizeTaskStatus(status, category);
   return normalized === 'todo' || normalized === 'unknown';
 }
 
-export function isTaskBlockedStatus(status: string | null | undefined): boolean {
-  return normalizeTaskStatus(status) === 'blocked';
+export function isTaskBlockedStatus(status: string | null | undefined, category?: string | null): boolean {
+  return normalizeTaskStatus(status, category) === 'blocked';
+}
+
+export function isTaskReviewStatus(status: string | null | undefined, category?: string | null): boolean {
+  return normalizeTaskStatus(status, category) === 'review';
+}
+
+// ---------------------------------------------------------------------------
+// Project workflows
+// ---------------------------------------------------------------------------
+
+/**
+ * A status in a project's workflow (project_task_statuses row). `key` is what
+ * tasks store; `allowed_transitions` lists the keys a task may move to, or null
+ * for any.
+ */
+export interface WorkflowStatus {
+  id?: string;
+  project_id?: string;
+  key: string;
+  label: string;
+  category: TaskStatusCategory;
+  color: string;
+  position: number;
+  allowed_transitions: string[] | null;
+}
+
+export const STATUS_CATEGORY_COLORS: Record<TaskStatusCategory, string> = {
+  todo: '#6b7280',
+  in_progress: '#3b82f6',
+  review: '#eab308',
+  done: '#22c55e',
+  blocked: '#ef4444',
+};
+
+// Workflow of projects that have not customised theirs
+export const DEFAULT_WORKFLOW_STATUSES: WorkflowStatus[] = TASK_STATUSES.map((status, index) => ({
+  key: status.value,
+  label: status.label,
+  category: status.value,
+  color: STATUS_CATEGORY_COLORS[status.value],
+  position: index,
+  allowed_transitions: null,
+}));
+
+export function humanizeStatusKey(key: string): string {
+  const text = key.replace(/_/g, ' ').trim();
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Storage key for a new status label, e.g. "Awaiting client approval" ->
+ * "awaiting_client_approval"
+ */
+export function toStatusKey(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Category of a task's status within a workflow. Keys outside the workflow fall
+ * back to the stored category, then to the built-in spellings.
+ */
+export function getStatusCategory(
+  status: string | null | undefined,
+  workflow: WorkflowStatus[],
+  storedCategory?: string | null
+): TaskStatusCategory {
+  const custom = workflow.find(s => s.key === status);
+  if (custom) return custom.category;
+  const normalized = normalizeTaskStatus(status, storedCategory);
+  return normalized === 'unknown' ? 'todo' : normalized;
+}
+
+/**
+ * Workflow status a task is shown under, e.g. its Kanban column. Tasks whose
+ * status is not in the workflow land in the first status of their category.
+ */
+export function resolveWorkflowStatus(
+  status: string | null | undefined,
+  workflow: WorkflowStatus[],
+  storedCategory?: string | null
+): WorkflowStatus | undefined {
+  const exact = workflow.find(s => s.key === status);
+  if (exact) return exact;
+  const category = getStatusCategory(status, workflow, storedCategory);
+  return workflow.find(s => s.category === category) || workflow[0];
+}
+
+/**
+ * First status of a category, used when progress moves a task into it
+ */
+export function getCategoryDefaultStatus(workflow: WorkflowStatus[], category: TaskStatusCategory): string {
+  return workflow.find(s => s.category === category)?.key || category;
+}
+
+/**
+ * Status after a progress change. A task keeps its status while that status's
+ * category still fits; otherwise it moves to the category's built-in key, which
+ * the database maps to the project's first status of that category.
+ */
+export function getStatusForProgress(progress: number, status: string, category?: string | null): string {
+  const target: TaskStatusCategory = progress >= 100 ? 'done' : progress > 0 ? 'in_progress' : 'todo';
+  return normalizeTaskStatus(status, category) === target ? status : target;
+}
+
+/**
+ * Progress to store alongside a status change into `category`
+ */
+export function getProgressForStatus(category: NormalizedTaskStatus, progress: number): number {
+  if (category === 'todo') return 0;
+  if (category === 'done') return 100;
+  if (category === 'in_progress' && progress === 0) return 1;
+  return progress;
+}
+
+export function canTransitionStatus(workflow: WorkflowStatus[], from: string | null | undefined, to: string): boolean {
+  if (!from || from === to) return true;
+  const current = workflow.find(s => s.key === from);
+  if (!current || !current.allowed_transitions) return true;
+  return current.allowed_transitions.includes(to);
 }
 
-export function isTaskReviewStatus(status: string | null | undefined): boolean {
-  return normalizeTaskStatus(status) === 'review';
+/**
+ * Statuses offered for a task: everything for managers, otherwise the current
+ * status plus the ones its workflow allows moving to.
+ */
+export function getSelectableStatuses(
+  workflow: WorkflowStatus[],
+  current: string | null | undefined,
+  canOverride = false
+): WorkflowStatus[] {
+  if (canOverride) return workflow;
+  return workflow.filter(s => s.key === current || canTransitionStatus(workflow, current, s.key));
 }
@@ -0,0 +1,110 @@
+// Time entry and timesheet helpers shared by the task timer, the timesheet page and exports.
+import * as XLSX from 'xlsx';
+import { addDays, format, parseISO, startOfWeek } from 'date-fns';
+
+export type TimesheetStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+
+export interface TimeEntry {
+  id: string;
+  task_id: string;
+  user_id: string;
+  started_at: string;
+  ended_at: string | null;
+  note: string | null;
+  timesheet_id: string | null;
+}
+
+export const TIMESHEET_STATUS_LABELS: Record<TimesheetStatus, string> = {
+  draft: 'Not submitted',
+  submitted: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+/**
+ * Entries on a submitted or approved timesheet can no longer be changed
+ */
+export const isLockedTimesheetStatus = (status: string | null | undefined) =>
+  status === 'submitted' || status === 'approved';
+
+/**
+ * Hours covered by an entry; a running timer counts up to `now`
+ */
+export function getEntryHours(entry: Pick<TimeEntry, 'started_at' | 'ended_at'>, now: Date = new Date()): number {
+  const end = entry.ended_at ? new Date(entry.ended_at) : now;
+  return Math.max(end.getTime() - new Date(entry.started_at).getTime(), 0) / 3600000;
+}
+
+export function sumEntryHours(entries: Pick<TimeEntry, 'started_at' | 'ended_at'>[], now?: Date): number {
+  return entries.reduce((sum, entry) => sum + getEntryHours(entry, now), 0);
+}
+
+/**
+ * "2h 15m" style duration
+ */
+export function formatHours(hours: number): string {
+  const totalMinutes = Math.round(hours * 60);
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  if (h === 0) return `${m}m`;
+  return m === 0 ? `${h}h` : `${h}h ${m}m`;
+}
+
+/**
+ * "01:02:03" clock for a running timer
+ */
+export function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(Math.floor(ms / 1000), 0);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor((totalSeconds % 3600) / 60))}:${pad(totalSeconds % 60)}`;
+}
+
+/**
+ * Monday of the week containing `date`, as yyyy-MM-dd
+ */
+export const getWeekStart = (date: Date) => format(startOfWeek(date, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+
+/**
+ * The seven days of a timesheet week, Monday first
+ */
+export const getWeekDays = (weekStart: string) =>
+  Array.from({ length: 7 }, (_, i) => addDays(parseISO(weekStart), i));
+
+export const formatWeekLabel = (weekStart: string) =>
+  `${format(parseISO(weekStart), 'MMM d')} – ${format(addDays(parseISO(weekStart), 6), 'MMM d, yyyy')}`;
+
+export interface TimesheetExportEntry extends TimeEntry {
+  user_name: string;
+  task_title: string;
+  project_name: string;
+  department_name: string;
+  approved_by_name?: string;
+}
+
+/**
+ * One spreadsheet row per approved time entry, for client billing
+ */
+export function buildTimesheetExportRows(entries: TimesheetExportEntry[]) {
+  return [...entries]
+    .sort((a, b) => a.started_at.localeCompare(b.started_at))
+    .map(entry => ({
+      'Date': format(new Date(entry.started_at), 'yyyy-MM-dd'),
+      'Project': entry.project_name,
+      'Department': entry.department_name,
+      'Task': entry.task_title,
+      'Team Member': entry.user_name,
+      'Start': format(new Date(entry.started_at), 'HH:mm'),
+      'End': entry.ended_at ? format(new Date(entry.ended_at), 'HH:mm') : '',
+      'Hours': Number(getEntryHours(entry).toFixed(2)),
+      'Note': entry.note || '',
+      'Approved By': entry.approved_by_name || '',
+    }));
+}
+
+export function downloadTimesheetExport(entries: TimesheetExportEntry[], fileName: string, bookType: 'csv' | 'xlsx') {
+  const wb = XLSX.utils.book_new();
+  const ws = XLSX.utils.json_to_sheet(buildTimesheetExportRows(entries));
+  ws['!cols'] = [{ wch: 12 }, { wch: 28 }, { wch: 20 }, { wch: 36 }, { wch: 24 }, { wch: 8 }, { wch: 8 }, { wch: 8 }, { wch: 40 }, { wch: 24 }];
+  XLSX.utils.book_append_sheet(wb, ws, 'Approved Time');
+  XLSX.writeFile(wb, `${fileName}.${bookType}`, { bookType });
+}
@@ -1,14 +1,95 @@
-import { differenceInDays, isWeekend, addDays, parseISO } from 'date-fns';
+import { addDays, format, getDay, parseISO, startOfDay } from 'date-fns';
+import { isTaskDoneStatus, isTaskInProgressStatus, isTaskTodoStatus } from '@/lib/taskStatus';
 
 /**
- * Calculate the number of working days (Monday-Friday) between two dates
+ * Working calendars: weekend days plus dated exceptions (public holidays,
+ * blackout days, half-days and extra working days). The organisation calendar
+ * applies everywhere; a project calendar overrides it for that project. Every
+ * helper takes the calendar to use, see useWorkingCalendar.
+ */
+export type CalendarDayKind = 'holiday' | 'non_working' | 'half_day' | 'working';
+
+export interface CalendarDay {
+  date: string;
+  name: string;
+  kind: CalendarDayKind;
+}
+
+export interface WorkingCalendar {
+  /** Day numbers as in Date.getDay(): 0 = Sunday */
+  weekendDays: number[];
+  /** Exceptions keyed by yyyy-MM-dd */
+  days: Record<string, CalendarDay>;
+}
+
+export const CALENDAR_DAY_KINDS: { value: CalendarDayKind; label: string }[] = [
+  { value: 'holiday', label: 'Public holiday' },
+  { value: 'non_working', label: 'Non-working day' },
+  { value: 'half_day', label: 'Half-day' },
+  { value: 'working', label: 'Working day' },
+];
+
+export const DEFAULT_WEEKEND_DAYS = [0, 6];
+
+/** Weekends only, for when no organisation or project calendar applies */
+export const DEFAULT_WORKING_CALENDAR: WorkingCalendar = { weekendDays: DEFAULT_WEEKEND_DAYS, days: {} };
+
+/**
+ * Build a calendar from database rows. Project days override organisation days
+ * on the same date, and a project without its own weekend uses the organisation's.
+ */
+export function buildWorkingCalendar(
+  organisation: { weekendDays: number[] | null; days: CalendarDay[] },
+  project?: { weekendDays: number[] | null; days: CalendarDay[] } | null
+): WorkingCalendar {
+  const days: Record<string, CalendarDay> = {};
+  organisation.days.forEach(day => { days[day.date] = day; });
+  project?.days.forEach(day => { days[day.date] = day; });
+
+  return {
+    weekendDays: project?.weekendDays ?? organisation.weekendDays ?? DEFAULT_WEEKEND_DAYS,
+    days,
+  };
+}
+
+const toDay = (date: string | Date) =>
+  typeof date === 'string' ? parseISO(date.split('T')[0]) : startOfDay(date);
+
+/** The dated exception for a day, if the calendar has one */
+export function getCalendarDay(date: string | Date, calendar: WorkingCalendar): CalendarDay | undefined {
+  return calendar.days[format(toDay(date), 'yyyy-MM-dd')];
+}
+
+/**
+ * How much of a working day a date is: 1, 0.5 for a half-day or 0 for
+ * weekends, holidays and non-working days
+ */
+export function getDayWeight(date: string | Date, calendar: WorkingCalendar): number {
+  const day = getCalendarDay(date, calendar);
+  if (day) {
+    if (day.kind === 'working') return 1;
+    if (day.kind === 'half_day') return 0.5;
+    return 0;
+  }
+  return calendar.weekendDays.includes(getDay(toDay(date))) ? 0 : 1;
+}
+
+/** Half-days count as working days for scheduling */
+export function isWorkingDay(date: string | Date, calendar: WorkingCalendar): boolean {
+  return getDayWeight(date, calendar) > 0;
+}
+
+/**
+ * Calculate the number of working days between two dates
  * @param startDate - Start date (string or Date)
  * @param endDate - End date (string or Date)
- * @returns Number of working days (excluding weekends)
+ * @param calendar - Working calendar of the task's project
+ * @returns Number of working days (excluding weekends and holidays, half-days count 0.5)
  */
 export function calculateWorkingDays(
   startDate: string | Date | null | undefined,
-  endDate: string | Date | null | undefined
+  endDate: string | Date | null | undefined,
+  calendar: WorkingCalendar
 ): number {
   if (!startDate || !endDate) return 0;
 
@@ -23,20 +104,122 @@ export function calculateWorkingDays(
 
   // Include both start and end dates in the count
   while (currentDate <= end) {
-    if (!isWeekend(currentDate)) {
-      workingDays++;
-    }
+    workingDays += getDayWeight(currentDate, calendar);
     currentDate = addDays(currentDate, 1);
   }
 
   return workingDays;
 }
 
+/**
+ * Whole working days between two dates, inclusive, with half-days counted as
+ * full days. Scheduling uses this so offsets line up with addWorkingDays.
+ */
+export function countWorkingDays(
+  startDate: string | Date | null | undefined,
+  endDate: string | Date | null | undefined,
+  calendar: WorkingCalendar
+): number {
+  if (!startDate || !endDate) return 0;
+
+  const end = toDay(endDate);
+  let count = 0;
+  for (let current = toDay(startDate); current <= end; current = addDays(current, 1)) {
+    if (isWorkingDay(current, calendar)) count++;
+  }
+  return count;
+}
+
+/**
+ * Return the given date if it is a working day, otherwise the next working day
+ */
+export function nextWorkingDay(date: string | Date, calendar: WorkingCalendar): Date {
+  let current = toDay(date);
+  // A year of non-working days means a broken calendar; stop rather than loop forever
+  for (let i = 0; i < 366 && !isWorkingDay(current, calendar); i++) {
+    current = addDays(current, 1);
+  }
+  return current;
+}
+
+/**
+ * Add a number of working days to a date, skipping weekends and holidays.
+ * Adding 0 days returns the date itself moved onto a working day.
+ */
+export function addWorkingDays(date: string | Date, days: number, calendar: WorkingCalendar): Date {
+  let current = nextWorkingDay(date, calendar);
+  let remaining = days;
+  while (remaining > 0) {
+    current = nextWorkingDay(addDays(current, 1), calendar);
+    remaining--;
+  }
+  return current;
+}
+
+// Anonymous Gregorian algorithm for Easter Sunday
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Kenyan public holidays with fixed dates or dates set by Easter. A holiday
+ * falling on a Sunday is also observed on the next free weekday. Idd-ul-Fitr
+ * and any one-off gazetted holidays have to be added by hand.
+ */
+export function kenyanPublicHolidays(year: number): CalendarDay[] {
+  const easter = easterSunday(year);
+  const holidays: [Date, string][] = [
+    [new Date(year, 0, 1), "New Year's Day"],
+    [addDays(easter, -2), 'Good Friday'],
+    [addDays(easter, 1), 'Easter Monday'],
+    [new Date(year, 4, 1), 'Labour Day'],
+    [new Date(year, 5, 1), 'Madaraka Day'],
+    [new Date(year, 9, 10), 'Mazingira Day'],
+    [new Date(year, 9, 20), 'Mashujaa Day'],
+    [new Date(year, 11, 12), 'Jamhuri Day'],
+    [new Date(year, 11, 25), 'Christmas Day'],
+    [new Date(year, 11, 26), 'Boxing Day'],
+  ];
+
+  const days: Record<string, CalendarDay> = {};
+  holidays.forEach(([date, name]) => {
+    const key = format(date, 'yyyy-MM-dd');
+    days[key] = { date: key, name, kind: 'holiday' };
+  });
+
+  holidays.forEach(([date, name]) => {
+    if (getDay(date) !== 0) return;
+    let observed = addDays(date, 1);
+    while (days[format(observed, 'yyyy-MM-dd')]) observed = addDays(observed, 1);
+    const key = format(observed, 'yyyy-MM-dd');
+    days[key] = { date: key, name: `${name} (observed)`, kind: 'holiday' };
+  });
+
+  return Object.values(days).sort((a, b) => a.date.localeCompare(b.date));
+}
+
 /**
  * Compute working days for a task object
  */
-export function computeTaskWorkingDays(task: { start_date: string | null; due_date: string | null }): number {
-  return calculateWorkingDays(task.start_date, task.due_date);
+export function computeTaskWorkingDays(
+  task: { start_date: string | null; due_date: string | null },
+  calendar: WorkingCalendar
+): number {
+  return calculateWorkingDays(task.start_date, task.due_date, calendar);
 }
 
 /**
@@ -116,6 +299,7 @@ export interface TaskAnalytics {
   start_date: string | null;
   due_date: string | null;
   status: string;
+  status_category?: string | null;
   progress: number;
   estimated_cost: number;
   actual_cost: number;
@@ -136,13 +320,14 @@ export function computeTaskAnalytics(task: {
   start_date: string | null;
   due_date: string | null;
   status: string;
+  status_category?: string | null;
   progress?: number;
   estimated_cost?: number;
   actual_cost?: number;
-}): TaskAnalytics {
+}, calendar: WorkingCalendar): TaskAnalytics {
   const estimatedCost = task.estimated_cost || 0;
   const actualCost = task.actual_cost || 0;
-  const workingDays = computeTaskWorkingDays(task);
+  const workingDays = computeTaskWorkingDays(task, calendar);
   const costVariance = calculateCostVariance(estimatedCost, actualCost);
 
   return {
@@ -151,6 +336,7 @@ export function computeTaskAnalytics(task: {
     start_date: task.start_date,
     due_date: task.due_date,
     status: task.status,
+    status_category: task.status_category,
     progress: task.progress || 0,
     estimated_cost: estimatedCost,
     actual_cost: actualCost,
@@ -190,9 +376,9 @@ export function computeProjectKPIs(tasks: TaskAnalytics[]): ProjectKPIs {
   const totalWorkingDays = tasks.reduce((sum, t) => sum + t.working_days, 0);
   const averageWorkingDays = tasks.length > 0 ? totalWorkingDays / tasks.length : 0;
 
-  const completedTasks = tasks.filter(t => t.status === 'completed').length;
-  const inProgressTasks = tasks.filter(t => t.status === 'in_progress').length;
-  const notStartedTasks = tasks.filter(t => t.status === 'todo' || t.status === 'not_started').length;
+  const completedTasks = tasks.filter(t => isTaskDoneStatus(t.status, t.status_category)).length;
+  const inProgressTasks = tasks.filter(t => isTaskInProgressStatus(t.status, t.status_category)).length;
+  const notStartedTasks = tasks.filter(t => isTaskTodoStatus(t.status, t.status_category)).length;
   const totalTasks = tasks.length;
   const projectCompletionPct = totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0;
 
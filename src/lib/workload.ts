@@ -0,0 +1,275 @@
+// Workload and capacity: spreads each open task's estimate over its working days
+// and compares the hours per person or department with what they can take on.
+import { addDays, eachDayOfInterval, format, parseISO, startOfWeek } from 'date-fns';
+import { getDayWeight, type WorkingCalendar } from '@/lib/workingDays';
+
+/** Hours per working day for people without a capacity of their own */
+export const DEFAULT_DAILY_CAPACITY = 8;
+
+export type WorkloadGranularity = 'day' | 'week';
+export type WorkloadGrouping = 'user' | 'department';
+export type LoadLevel = 'none' | 'low' | 'ok' | 'high' | 'over';
+
+export interface WorkloadTask {
+  id: string;
+  title: string;
+  project_id: string;
+  project_name: string;
+  department_name: string | null;
+  start_date: string | null;
+  due_date: string | null;
+  estimate_hours: number | null;
+  assignee_ids: string[];
+}
+
+export interface WorkloadPerson {
+  id: string;
+  name: string;
+  hoursPerDay: number;
+}
+
+export interface WorkloadCalendars {
+  /** Capacity follows the organisation calendar, as people work across projects */
+  organisation: WorkingCalendar;
+  /** Each task's hours are spread over its own project's calendar */
+  projects: Map<string, WorkingCalendar>;
+}
+
+export interface WorkloadBucket {
+  /** First day of the bucket, yyyy-MM-dd */
+  key: string;
+  label: string;
+  sublabel: string;
+  days: string[];
+}
+
+export interface WorkloadAllocation {
+  task: WorkloadTask;
+  hours: number;
+}
+
+export interface WorkloadCell {
+  hours: number;
+  capacity: number;
+  allocations: WorkloadAllocation[];
+}
+
+export interface WorkloadRow {
+  id: string;
+  name: string;
+  grouping: WorkloadGrouping;
+  /** Hours per working day; for departments the sum over the people working in them */
+  hoursPerDay: number;
+  cells: WorkloadCell[];
+  totalHours: number;
+  totalCapacity: number;
+  /** Tasks in range without an estimate, which add no hours */
+  unestimatedTasks: WorkloadTask[];
+}
+
+/**
+ * Day or week columns covering `weeks` weeks from the Monday of `from`
+ */
+export function buildWorkloadBuckets(from: string, weeks: number, granularity: WorkloadGranularity): WorkloadBucket[] {
+  const start = startOfWeek(parseISO(from), { weekStartsOn: 1 });
+  const days = eachDayOfInterval({ start, end: addDays(start, weeks * 7 - 1) });
+
+  if (granularity === 'day') {
+    return days.map(day => {
+      const key = format(day, 'yyyy-MM-dd');
+      return { key, label: format(day, 'EEE'), sublabel: format(day, 'MMM d'), days: [key] };
+    });
+  }
+
+  const buckets: WorkloadBucket[] = [];
+  for (let i = 0; i < days.length; i += 7) {
+    const week = days.slice(i, i + 7);
+    buckets.push({
+      key: format(week[0], 'yyyy-MM-dd'),
+      label: format(week[0], "'W'I"),
+      sublabel: `${format(week[0], 'MMM d')} - ${format(week[week.length - 1], 'MMM d')}`,
+      days: week.map(day => format(day, 'yyyy-MM-dd')),
+    });
+  }
+  return buckets;
+}
+
+/**
+ * Hours of a task on each of its days: the estimate spread evenly over its
+ * working days, half-days taking half. A task that only spans non-working days
+ * puts everything on its due date.
+ */
+export function spreadTaskHours(task: WorkloadTask, calendar: WorkingCalendar): Map<string, number> {
+  const hours = new Map<string, number>();
+  const estimate = task.estimate_hours || 0;
+  const due = task.due_date?.split('T')[0];
+  if (!due || estimate <= 0) return hours;
+
+  const start = task.start_date?.split('T')[0] || due;
+  const first = start <= due ? start : due;
+  const days = eachDayOfInterval({ start: parseISO(first), end: parseISO(due) });
+  const weights = days.map(day => getDayWeight(day, calendar));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+
+  if (total === 0) {
+    hours.set(due, estimate);
+    return hours;
+  }
+
+  days.forEach((day, idx) => {
+    if (weights[idx] > 0) hours.set(format(day, 'yyyy-MM-dd'), (estimate * weights[idx]) / total);
+  });
+  return hours;
+}
+
+/** Working hours available on the given days */
+export function capacityForDays(hoursPerDay: number, days: string[], calendar: WorkingCalendar): number {
+  return days.reduce((sum, day) => sum + hoursPerDay * getDayWeight(day, calendar), 0);
+}
+
+const calendarOf = (task: WorkloadTask, calendars: WorkloadCalendars) =>
+  calendars.projects.get(task.project_id) ?? calendars.organisation;
+
+const emptyCells = (buckets: WorkloadBucket[]): WorkloadCell[] =>
+  buckets.map(() => ({ hours: 0, capacity: 0, allocations: [] }));
+
+function addToCells(cells: WorkloadCell[], buckets: WorkloadBucket[], task: WorkloadTask, dailyHours: Map<string, number>, share: number) {
+  buckets.forEach((bucket, idx) => {
+    const hours = bucket.days.reduce((sum, day) => sum + (dailyHours.get(day) || 0), 0) * share;
+    if (hours <= 0) return;
+    cells[idx].hours += hours;
+    cells[idx].allocations.push({ task, hours });
+  });
+}
+
+const overlapsRange = (task: WorkloadTask, buckets: WorkloadBucket[]) => {
+  const due = task.due_date?.split('T')[0];
+  if (!due || buckets.length === 0) return false;
+  const start = task.start_date?.split('T')[0] || due;
+  const lastBucket = buckets[buckets.length - 1];
+  return start <= lastBucket.days[lastBucket.days.length - 1] && due >= buckets[0].days[0];
+};
+
+const finishRow = (row: Omit<WorkloadRow, 'totalHours' | 'totalCapacity'>): WorkloadRow => ({
+  ...row,
+  totalHours: row.cells.reduce((sum, c) => sum + c.hours, 0),
+  totalCapacity: row.cells.reduce((sum, c) => sum + c.capacity, 0),
+});
+
+/**
+ * One row per person. A task's estimate is shared equally between its assignees.
+ * People with no work in the range still get a row so they can take tasks over.
+ */
+export function buildUserWorkload(
+  tasks: WorkloadTask[],
+  people: WorkloadPerson[],
+  buckets: WorkloadBucket[],
+  calendars: WorkloadCalendars
+): WorkloadRow[] {
+  const rows = new Map(people.map(person => [person.id, {
+    id: person.id,
+    name: person.name,
+    grouping: 'user' as const,
+    hoursPerDay: person.hoursPerDay,
+    cells: emptyCells(buckets),
+    unestimatedTasks: [] as WorkloadTask[],
+  }]));
+
+  tasks.filter(task => overlapsRange(task, buckets)).forEach(task => {
+    const dailyHours = spreadTaskHours(task, calendarOf(task, calendars));
+    const assignees = task.assignee_ids.filter(id => rows.has(id));
+    assignees.forEach(id => {
+      const row = rows.get(id)!;
+      if (!task.estimate_hours) {
+        row.unestimatedTasks.push(task);
+        return;
+      }
+      addToCells(row.cells, buckets, task, dailyHours, 1 / task.assignee_ids.length);
+    });
+  });
+
+  return Array.from(rows.values()).map(row => {
+    row.cells.forEach((cell, idx) => { cell.capacity = capacityForDays(row.hoursPerDay, buckets[idx].days, calendars.organisation); });
+    return finishRow(row);
+  });
+}
+
+/**
+ * One row per department name, so the same department across projects adds up.
+ * Capacity counts everyone with work in the department in the range; work with
+ * nobody assigned still counts towards the department's hours.
+ */
+export function buildDepartmentWorkload(
+  tasks: WorkloadTask[],
+  people: WorkloadPerson[],
+  buckets: WorkloadBucket[],
+  calendars: WorkloadCalendars
+): WorkloadRow[] {
+  const capacityById = new Map(people.map(p => [p.id, p.hoursPerDay]));
+  const groups = new Map<string, { name: string; tasks: WorkloadTask[]; people: Set<string> }>();
+
+  tasks.filter(task => overlapsRange(task, buckets)).forEach(task => {
+    const name = task.department_name?.trim() || 'No department';
+    const key = name.toLowerCase();
+    if (!groups.has(key)) groups.set(key, { name, tasks: [], people: new Set() });
+    const group = groups.get(key)!;
+    group.tasks.push(task);
+    task.assignee_ids.forEach(id => group.people.add(id));
+  });
+
+  return Array.from(groups.entries()).map(([key, group]) => {
+    const cells = emptyCells(buckets);
+    const unestimatedTasks: WorkloadTask[] = [];
+    group.tasks.forEach(task => {
+      if (!task.estimate_hours) {
+        unestimatedTasks.push(task);
+        return;
+      }
+      addToCells(cells, buckets, task, spreadTaskHours(task, calendarOf(task, calendars)), 1);
+    });
+
+    const hoursPerDay = Array.from(group.people)
+      .reduce((sum, id) => sum + (capacityById.get(id) ?? DEFAULT_DAILY_CAPACITY), 0);
+    cells.forEach((cell, idx) => { cell.capacity = capacityForDays(hoursPerDay, buckets[idx].days, calendars.organisation); });
+
+    return finishRow({ id: key, name: group.name, grouping: 'department', hoursPerDay, cells, unestimatedTasks });
+  });
+}
+
+/**
+ * How loaded a cell is. Anything above capacity is over-allocated, including
+ * work on days with no capacity at all.
+ */
+export function getLoadLevel(hours: number, capacity: number): LoadLevel {
+  if (hours < 0.05) return 'none';
+  if (capacity <= 0 || hours > capacity + 0.05) return 'over';
+  const ratio = hours / capacity;
+  if (ratio >= 0.85) return 'high';
+  if (ratio >= 0.5) return 'ok';
+  return 'low';
+}
+
+export const LOAD_LEVEL_STYLES: Record<LoadLevel, string> = {
+  none: 'bg-muted/30 text-muted-foreground',
+  low: 'bg-success/15 text-foreground',
+  ok: 'bg-success/35 text-foreground',
+  high: 'bg-warning/40 text-foreground',
+  over: 'bg-destructive/70 text-destructive-foreground',
+};
+
+export const LOAD_LEVEL_LABELS: Record<LoadLevel, string> = {
+  none: 'No work',
+  low: 'Under 50%',
+  ok: '50-85%',
+  high: '85-100%',
+  over: 'Over capacity',
+};
+
+export const formatLoadHours = (hours: number) =>
+  hours >= 10 || Number.isInteger(hours) ? `${Math.round(hours)}h` : `${hours.toFixed(1)}h`;
+
+/** Assignees after moving a task from one person to another */
+export function reassignIds(assigneeIds: string[], fromUserId: string, toUserId: string): string[] {
+  const next = assigneeIds.filter(id => id !== fromUserId);
+  return next.includes(toUserId) ? next : [...next, toUserId];
+}
@@ -127,7 +127,7 @@ export default function Dashboard() {
         .in('project_id', projectIds)
         .not('due_date', 'is', null)
         .lt('due_date', today.toISOString())
-        .or('status.is.null,status.not.in.(done,completed,complete)')
+        .neq('status_category', 'done')
         .order('due_date', { ascending: true })
         .limit(50);
 
@@ -144,10 +144,10 @@ export default function Dashboard() {
           .from('tasks')
           .select('id', { count: 'exact', head: true })
           .in('project_id', projectIds)
-          .in('status', ['done', 'completed', 'complete', 'Done', 'Completed', 'DONE', 'COMPLETED']),
+          .eq('status_category', 'done'),
         overdueQuery,
         recentProjectIds.length > 0
-          ? supabase.from('tasks').select('id, status, project_id').in('project_id', recentProjectIds)
+          ? supabase.from('tasks').select('id, status, status_category, project_id').in('project_id', recentProjectIds)
           : (Promise.resolve({ data: [] as any[] }) as any),
       ]);
 
@@ -174,7 +174,7 @@ export default function Dashboard() {
       const progressTasks = (progressTasksRes.data || []) as any[];
       const projectsWithProgress = recent.map(project => {
         const projectTasks = progressTasks.filter(t => t.project_id === project.id);
-        const completedProjectTasks = projectTasks.filter(t => isTaskDoneStatus(t.status));
+        const completedProjectTasks = projectTasks.filter(t => isTaskDoneStatus(t.status, t.status_category));
         const progress = projectTasks.length > 0
           ? Math.round((completedProjectTasks.length / projectTasks.length) * 100)
           : 0;
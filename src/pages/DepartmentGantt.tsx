@@ -20,6 +20,9 @@ import { DepartmentLeadDialog } from '@/components/DepartmentLeadDialog';
 import { useUserRole } from '@/hooks/useUserRole';
 import { useDepartmentLead } from '@/hooks/useDepartmentLead';
 import { useViewPreference } from '@/hooks/useViewPreference';
+import { useTaskDependencies } from '@/hooks/useTaskDependencies';
+import { useProjectLabels } from '@/hooks/useProjectLabels';
+import { useProjectWorkflow } from '@/hooks/useProjectWorkflow';
 import { ArrowLeft, Plus, Filter, Calendar, Clock, Search, Trash2, Edit as EditIcon, MoreVertical, Folder, Users } from 'lucide-react';
 import {
   AlertDialog,
@@ -39,13 +42,22 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
-import { isTaskDoneStatus, isTaskInProgressStatus, isTaskTodoStatus } from '@/lib/taskStatus';
+import {
+  getProgressForStatus,
+  getStatusCategory,
+  getStatusForProgress,
+  isTaskDoneStatus,
+  isTaskInProgressStatus,
+  isTaskTodoStatus,
+} from '@/lib/taskStatus';
+import { matchesLabelFilter } from '@/lib/taskLabels';
 import {
   TaskViewSwitcher,
   TaskKanbanView,
   TaskTableView,
   TaskCalendarView,
   TaskDetailDrawer,
+  ConvertToSubtaskDialog,
   type ViewType,
   type TaskFilters,
   type TaskWithProfile as TaskType,
@@ -67,6 +79,7 @@ interface Task {
   id: string;
   title: string;
   status: string;
+  status_category?: string | null;
   priority: string;
   start_date: string;
   due_date: string;
@@ -76,6 +89,9 @@ interface Task {
   progress_percentage?: number;
   estimate_hours?: number;
   logged_hours?: number;
+  parent_task_id?: string | null;
+  project_id?: string;
+  labels?: string[] | null;
 }
 
 interface AssignedUser {
@@ -113,7 +129,10 @@ export default function DepartmentGantt() {
   const { toast } = useToast();
   const { isAdmin, isProjectManager } = useUserRole();
   const { isCurrentUserLead } = useDepartmentLead(departmentId);
+  const { labels: projectLabels } = useProjectLabels(projectId);
+  const { statuses } = useProjectWorkflow(projectId);
   const { viewType, setViewType } = useViewPreference(departmentId);
+  const { rescheduleDependents } = useTaskDependencies(projectId);
 
   const [department, setDepartment] = useState<Department | null>(null);
   const [project, setProject] = useState<Project | null>(null);
@@ -127,9 +146,11 @@ export default function DepartmentGantt() {
     priority: 'all',
     assignee: 'all',
     myTasks: false,
+    labels: [],
   });
   const [editingTask, setEditingTask] = useState<any>(null);
   const [drawerTask, setDrawerTask] = useState<TaskType | null>(null);
+  const [convertingTask, setConvertingTask] = useState<TaskType | null>(null);
   const [editingElement, setEditingElement] = useState<{ id: string; title: string; description?: string } | null>(null);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [hasAssignedTasks, setHasAssignedTasks] = useState(false);
@@ -277,13 +298,13 @@ export default function DepartmentGantt() {
   };
 
   // Compute local analytics from actual tasks (always in sync)
-  const completedCount = tasks.filter(t => isTaskDoneStatus(t.status)).length;
+  const completedCount = tasks.filter(t => isTaskDoneStatus(t.status, t.status_category)).length;
   const computedAnalytics = {
     department_id: departmentId || '',
     total_tasks: tasks.length,
     completed_tasks: completedCount,
-    in_progress_tasks: tasks.filter(t => isTaskInProgressStatus(t.status)).length,
-    todo_tasks: tasks.filter(t => isTaskTodoStatus(t.status)).length,
+    in_progress_tasks: tasks.filter(t => isTaskInProgressStatus(t.status, t.status_category)).length,
+    todo_tasks: tasks.filter(t => isTaskTodoStatus(t.status, t.status_category)).length,
     completion_percentage: tasks.length > 0
       ? Math.round((completedCount / tasks.length) * 100)
       : 0,
@@ -315,6 +336,7 @@ export default function DepartmentGantt() {
     if (filters.status !== 'all' && task.status !== filters.status) return false;
     if (filters.priority !== 'all' && task.priority !== filters.priority) return false;
     if (filters.search && !task.title.toLowerCase().includes(filters.search.toLowerCase())) return false;
+    if (!matchesLabelFilter(task.labels, filters.labels)) return false;
     return true;
   });
 
@@ -323,16 +345,10 @@ export default function DepartmentGantt() {
     // Guard: don't update if status is already the same
     if (!currentTask || currentTask.status === newStatus) return;
 
-    // Sync percentage with status
-    let newPercentage = currentTask.progress_percentage || 0;
-    
-    if (newStatus === 'todo') {
-      newPercentage = 0;
-    } else if (newStatus === 'in_progress' && newPercentage === 0) {
-      newPercentage = 1;
-    } else if (newStatus === 'done') {
-      newPercentage = 100;
-    }
+    // Sync percentage with the status's category
+    const category = getStatusCategory(newStatus, statuses);
+    const newPercentage = getProgressForStatus(category, currentTask.progress_percentage || 0);
+    const completedAt = category === 'done' ? new Date().toISOString() : null;
 
     // Optimistically update local state
     setTasks(prevTasks => 
@@ -341,8 +357,9 @@ export default function DepartmentGantt() {
           ? { 
               ...task, 
               status: newStatus,
+              status_category: category,
               progress_percentage: newPercentage,
-              completed_at: newStatus === 'done' ? new Date().toISOString() : null
+              completed_at: completedAt
             } 
           : task
       )
@@ -354,7 +371,7 @@ export default function DepartmentGantt() {
         .update({ 
           status: newStatus,
           progress_percentage: newPercentage,
-          completed_at: newStatus === 'done' ? new Date().toISOString() : null 
+          completed_at: completedAt
         })
         .eq('id', taskId);
 
@@ -365,6 +382,9 @@ export default function DepartmentGantt() {
         description: 'Task status updated successfully',
       });
 
+      // The parent's progress is rolled up in the database
+      if (currentTask.parent_task_id) fetchTasksAndAnalytics();
+
       // Silently refresh analytics without showing loading
       const { data: analyticsData } = await supabase
         .from('department_analytics')
@@ -389,18 +409,10 @@ export default function DepartmentGantt() {
     // Guard: don't update if progress is already the same
     if (!currentTask || currentTask.progress_percentage === progress) return;
 
-    // Determine new status based on progress
-    let newStatus = 'todo';
-    let completedAt = null;
-    
-    if (progress === 0) {
-      newStatus = 'todo';
-    } else if (progress > 0 && progress < 100) {
-      newStatus = 'in_progress';
-    } else if (progress === 100) {
-      newStatus = 'done';
-      completedAt = new Date().toISOString();
-    }
+    // Determine new status based on progress; statuses that still fit are kept
+    const newStatus = getStatusForProgress(progress, currentTask.status, currentTask.status_category);
+    const category = getStatusCategory(newStatus, statuses, currentTask.status_category);
+    const completedAt = progress === 100 ? new Date().toISOString() : null;
 
     // Optimistically update local state
     setTasks(prevTasks => 
@@ -410,6 +422,7 @@ export default function DepartmentGantt() {
               ...task, 
               progress_percentage: progress,
               status: newStatus,
+              status_category: category,
               completed_at: completedAt
             } 
           : task
@@ -435,6 +448,9 @@ export default function DepartmentGantt() {
         description: progress === 100 ? 'Task completed!' : 'Progress updated successfully',
       });
 
+      // The parent's progress is rolled up in the database
+      if (currentTask.parent_task_id) fetchTasksAndAnalytics();
+
       // Silently refresh analytics without showing loading
       const { data: analyticsData } = await supabase
         .from('department_analytics')
@@ -479,6 +495,9 @@ export default function DepartmentGantt() {
         title: 'Success',
         description: 'Date updated successfully',
       });
+
+      const shifts = await rescheduleDependents(taskId);
+      if (shifts.length > 0) fetchTasksAndAnalytics();
     } catch (error: any) {
       // Revert optimistic update on error
       fetchData();
@@ -713,6 +732,8 @@ export default function DepartmentGantt() {
                 filters={filters}
                 onFiltersChange={setFilters}
                 currentUserId={currentUserId || undefined}
+                labels={projectLabels}
+                statuses={statuses}
               />
             </CardContent>
           </Card>
@@ -753,6 +774,7 @@ export default function DepartmentGantt() {
                 <TaskKanbanView
                   tasks={filteredTasks}
                   elements={elements}
+                  statuses={statuses}
                   onStatusUpdate={handleStatusUpdate}
                   onProgressUpdate={handleProgressUpdate}
                   onEditTask={(task) => setDrawerTask(task as TaskType)}
@@ -764,11 +786,13 @@ export default function DepartmentGantt() {
                 <TaskTableView
                   tasks={filteredTasks}
                   elements={elements}
+                  statuses={statuses}
                   onStatusUpdate={handleStatusUpdate}
                   onProgressUpdate={handleProgressUpdate}
                   onDateUpdate={handleDateUpdate}
                   onEditTask={(task) => setDrawerTask(task as TaskType)}
                   onDeleteTask={handleDeleteTask}
+                  onConvertToSubtask={isAdmin || isProjectManager || isCurrentUserLead ? setConvertingTask : undefined}
                   canEdit={isAdmin || isProjectManager || isCurrentUserLead || hasAssignedTasks}
                   canDelete={isAdmin || isProjectManager}
                 />
@@ -777,7 +801,10 @@ export default function DepartmentGantt() {
               {viewType === 'calendar' && (
                 <TaskCalendarView
                   tasks={filteredTasks}
+                  calendarName={`${department.name} - ${project.name}`}
+                  feedProjectId={projectId}
                   elements={elements}
+                  statuses={statuses}
                   onStatusUpdate={handleStatusUpdate}
                   onProgressUpdate={handleProgressUpdate}
                   onDateUpdate={handleDateUpdate}
@@ -791,10 +818,13 @@ export default function DepartmentGantt() {
 
         <TabsContent value="gantt" className="space-y-4">
           <DepartmentGanttView
+            projectId={projectId!}
             departmentId={department.id}
             departmentName={department.name}
             tasks={tasks}
             onTasksUpdate={fetchTasksAndAnalytics}
+            canEditDependencies={isAdmin || isProjectManager || isCurrentUserLead}
+            canMoveMilestones={isAdmin || isProjectManager}
           />
         </TabsContent>
 
@@ -826,6 +856,13 @@ export default function DepartmentGantt() {
         canEdit={isAdmin || isProjectManager || isCurrentUserLead || (drawerTask?.assigned_users?.some(u => u.id === currentUserId) ?? false)}
       />
 
+      <ConvertToSubtaskDialog
+        task={convertingTask}
+        open={!!convertingTask}
+        onOpenChange={(open) => !open && setConvertingTask(null)}
+        onConverted={() => fetchTasksAndAnalytics()}
+      />
+
       <EditTaskDialog
         open={!!editingTask}
         onOpenChange={(open) => !open && setEditingTask(null)}
@@ -16,23 +16,38 @@ import {
   TaskTableView,
   TaskCalendarView,
   TaskDetailDrawer,
+  ConvertToSubtaskDialog,
   type ViewType,
   type TaskFilters,
   type TaskWithProfile
 } from "@/components/tasks";
 import { useViewPreference } from "@/hooks/useViewPreference";
+import { useProjectLabels } from "@/hooks/useProjectLabels";
+import { useProjectWorkflows } from "@/hooks/useProjectWorkflow";
+import { matchesLabelFilter, mergeLabelCatalogues } from "@/lib/taskLabels";
+import {
+  getProgressForStatus,
+  getStatusCategory,
+  getStatusForProgress,
+  isTaskDoneStatus,
+  isTaskInProgressStatus,
+  normalizeTaskStatus,
+} from "@/lib/taskStatus";
 
 interface Task {
   id: string;
   title: string;
   description: string | null;
   status: string;
+  status_category: string;
   priority: string;
   due_date: string | null;
   start_date: string | null;
   project_id: string;
   element_id: string | null;
+  parent_task_id: string | null;
   progress_percentage: number;
+  labels: string[] | null;
   projects: { name: string; } | null;
   elements: { id: string; title: string; } | null;
 }
@@ -53,6 +68,7 @@ export default function MyTasks() {
   const { viewType, setViewType } = useViewPreference(undefined, undefined);
   const [selectedTask, setSelectedTask] = useState<TaskWithProfile | null>(null);
   const [editingTask, setEditingTask] = useState<any>(null);
+  const [convertingTask, setConvertingTask] = useState<TaskWithProfile | null>(null);
   
   const [filters, setFilters] = useState<TaskFilters>({
     search: '',
@@ -60,7 +76,8 @@ export default function MyTasks() {
     priority: 'all',
     assignee: 'all',
     myTasks: false,
-    project: 'all'
+    project: 'all',
+    labels: []
   });
 
   useEffect(() => {
@@ -103,7 +120,7 @@ export default function MyTasks() {
 
       const { data, error } = await supabase
         .from('tasks')
-        .select(`id, title, description, status, priority, due_date, start_date, project_id, element_id, progress_percentage, projects (name), elements (id, title)`)
+        .select(`id, title, description, status, status_category, priority, due_date, start_date, project_id, element_id, parent_task_id, progress_percentage, labels, projects (name), elements (id, title)`)
         .in('id', allTaskIds)
         .order('due_date', { ascending: true, nullsFirst: false });
       if (error) throw error;
@@ -127,13 +144,21 @@ export default function MyTasks() {
 
   const transformedTasks: TaskWithProfile[] = useMemo(() => {
     return tasks.map(task => ({
-      id: task.id, title: task.title, description: task.description, status: task.status,
+      id: task.id, title: task.title, description: task.description, status: task.status, status_category: task.status_category,
       priority: task.priority, due_date: task.due_date || '', start_date: task.start_date || '',
-      project_id: task.project_id, element_id: task.element_id, assignee_department_id: '',
-      progress_percentage: task.progress_percentage, projects: task.projects, elements: task.elements
+      project_id: task.project_id, element_id: task.element_id, parent_task_id: task.parent_task_id, assignee_department_id: '',
+      progress_percentage: task.progress_percentage, labels: task.labels, projects: task.projects, elements: task.elements
     }));
   }, [tasks]);
 
+  // Labels from the catalogues of the projects these tasks belong to
+  const taskProjectIds = useMemo(() => [...new Set(tasks.map(t => t.project_id))], [tasks]);
+  const { labels: projectLabels } = useProjectLabels(
+    filters.project && filters.project !== 'all' ? filters.project : taskProjectIds
+  );
+  const labelOptions = useMemo(() => mergeLabelCatalogues(projectLabels), [projectLabels]);
+  const { getWorkflow } = useProjectWorkflows(taskProjectIds);
+
   const filteredTasks = useMemo(() => {
     let filtered = transformedTasks;
     if (filters.search) {
@@ -150,35 +175,39 @@ export default function MyTasks() {
     if (filters.status === 'overdue') {
       const today = new Date();
       today.setHours(0, 0, 0, 0);
-      filtered = filtered.filter(task => task.due_date && task.status !== 'done' && new Date(task.due_date) < today);
+      filtered = filtered.filter(task => task.due_date && !isTaskDoneStatus(task.status, task.status_category) && new Date(task.due_date) < today);
     } else if (filters.status !== 'all') {
-      filtered = filtered.filter(task => task.status === filters.status);
+      // Tasks span several workflows, so the filter works on categories
+      filtered = filtered.filter(task => normalizeTaskStatus(task.status, task.status_category) === filters.status);
     }
     if (filters.priority !== 'all') {
       filtered = filtered.filter(task => task.priority === filters.priority);
     }
+    if (filters.labels && filters.labels.length > 0) {
+      filtered = filtered.filter(task => matchesLabelFilter(task.labels, filters.labels));
+    }
     return filtered;
   }, [transformedTasks, filters]);
 
   const handleStatusUpdate = async (taskId: string, newStatus: string) => {
     try {
       const task = tasks.find(t => t.id === taskId);
-      let newPercentage = task?.progress_percentage || 0;
-      const previousStatus = task?.status;
-      if (newStatus === 'todo') newPercentage = 0;
-      else if (newStatus === 'in_progress' && newPercentage === 0) newPercentage = 1;
-      else if (newStatus === 'done') newPercentage = 100;
+      const category = getStatusCategory(newStatus, getWorkflow(task?.project_id));
+      const newPercentage = getProgressForStatus(category, task?.progress_percentage || 0);
+      const wasDone = isTaskDoneStatus(task?.status, task?.status_category);
 
       const { error } = await supabase
         .from('tasks')
-        .update({ status: newStatus, progress_percentage: newPercentage, ...(newStatus === 'done' && { completed_at: new Date().toISOString() }) })
+        .update({ status: newStatus, progress_percentage: newPercentage, ...(category === 'done' && { completed_at: new Date().toISOString() }) })
         .eq('id', taskId);
       if (error) throw error;
 
-      setTasks(tasks.map(t => t.id === taskId ? { ...t, status: newStatus, progress_percentage: newPercentage } : t));
+      setTasks(tasks.map(t => t.id === taskId ? { ...t, status: newStatus, status_category: category, progress_percentage: newPercentage } : t));
       toast({ title: "Success", description: "Task status updated" });
+      // Pick up the parent's rolled-up progress
+      if (task?.parent_task_id) fetchMyTasks();
 
-      if (newStatus === 'done' && previousStatus !== 'done' && task && user) {
+      if (category === 'done' && !wasDone && task && user) {
         sendTaskCompletionEmail(task);
       }
     } catch (error: any) {
@@ -202,13 +231,15 @@ export default function MyTasks() {
 
   const handleProgressUpdate = async (taskId: string, newProgress: number) => {
     try {
-      let newStatus = 'todo';
-      if (newProgress > 0 && newProgress < 100) newStatus = 'in_progress';
-      else if (newProgress === 100) newStatus = 'done';
-      const { error } = await supabase.from('tasks').update({ progress_percentage: newProgress, status: newStatus, ...(newStatus === 'done' && { completed_at: new Date().toISOString() }) }).eq('id', taskId);
+      const current = tasks.find(task => task.id === taskId);
+      const newStatus = getStatusForProgress(newProgress, current?.status || 'todo', current?.status_category);
+      const category = getStatusCategory(newStatus, getWorkflow(current?.project_id), current?.status_category);
+      const { error } = await supabase.from('tasks').update({ progress_percentage: newProgress, status: newStatus, ...(newProgress === 100 && { completed_at: new Date().toISOString() }) }).eq('id', taskId);
       if (error) throw error;
-      setTasks(tasks.map(task => task.id === taskId ? { ...task, progress_percentage: newProgress, status: newStatus } : task));
+      setTasks(tasks.map(task => task.id === taskId ? { ...task, progress_percentage: newProgress, status: newStatus, status_category: category } : task));
       toast({ title: "Success", description: "Task progress updated" });
+      // Pick up the parent's rolled-up progress
+      if (current?.parent_task_id) fetchMyTasks();
     } catch (error: any) {
       toast({ title: "Error", description: error.message, variant: "destructive" });
     }
@@ -249,11 +280,11 @@ export default function MyTasks() {
 
   const taskSummary = {
     total: transformedTasks.length,
-    done: transformedTasks.filter(t => t.status === 'done').length,
-    inProgress: transformedTasks.filter(t => t.status === 'in_progress').length,
+    done: transformedTasks.filter(t => isTaskDoneStatus(t.status, t.status_category)).length,
+    inProgress: transformedTasks.filter(t => isTaskInProgressStatus(t.status, t.status_category)).length,
     overdue: transformedTasks.filter(t => {
       const today = new Date(); today.setHours(0,0,0,0);
-      return t.due_date && t.status !== 'done' && new Date(t.due_date) < today;
+      return t.due_date && !isTaskDoneStatus(t.status, t.status_category) && new Date(t.due_date) < today;
     }).length,
   };
 
@@ -270,11 +301,18 @@ export default function MyTasks() {
         </Card>
       );
     }
-    const commonProps = { tasks: filteredTasks, onStatusUpdate: handleStatusUpdate, onProgressUpdate: handleProgressUpdate, onDateUpdate: handleDateUpdate, onEditTask: handleEditTask, canEdit: true, showProject: true };
+    const commonProps = { tasks: filteredTasks, onStatusUpdate: handleStatusUpdate, onProgressUpdate: handleProgressUpdate, onDateUpdate: handleDateUpdate, onEditTask: handleEditTask, onConvertToSubtask: setConvertingTask, canEdit: true, showProject: true };
     switch (viewType) {
       case 'kanban': return <TaskKanbanView {...commonProps} />;
       case 'table': return <TaskTableView {...commonProps} />;
-      case 'calendar': return <TaskCalendarView {...commonProps} />;
+      case 'calendar':
+        return (
+          <TaskCalendarView
+            {...commonProps}
+            calendarName="My Tasks"
+            feedProjectId={filters.project !== 'all' ? filters.project : null}
+          />
+        );
       default: return <TaskListView {...commonProps} groupByElement={true} />;
     }
   };
@@ -314,6 +352,7 @@ export default function MyTasks() {
         currentUserId={user?.id}
         projects={projects}
         showProjectFilter={true}
+        labels={labelOptions}
       />
 
       {renderView()}
@@ -323,9 +362,17 @@ export default function MyTasks() {
         open={!!selectedTask}
         onOpenChange={(open) => !open && setSelectedTask(null)}
         onUpdate={handleTaskUpdate}
+        onTaskUpdated={fetchMyTasks}
         canEdit={true}
       />
 
+      <ConvertToSubtaskDialog
+        task={convertingTask}
+        open={!!convertingTask}
+        onOpenChange={(open) => !open && setConvertingTask(null)}
+        onConverted={fetchMyTasks}
+      />
+
       {editingTask && (
         <EditTaskDialog
           task={editingTask}
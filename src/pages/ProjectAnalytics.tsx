@@ -22,6 +22,10 @@ import {
   prepareWorkingDaysBarData,
   prepareProgressOverTimeData
 } from '@/hooks/useProjectAnalytics';
+import { BaselineVariancePanel } from '@/components/baselines/BaselineVariancePanel';
+import { EarnedValuePanel } from '@/components/analytics/EarnedValuePanel';
+import { LabelBreakdownCard } from '@/components/analytics/LabelBreakdownCard';
+import { formatIndex } from '@/lib/earnedValue';
 
 interface Project {
   id: string;
@@ -44,6 +48,7 @@ export default function ProjectAnalytics() {
     filteredTaskAnalytics,
     kpis,
     budgetDistribution,
+    earnedValue,
     loading,
     refreshData
   } = useProjectAnalytics({
@@ -147,6 +152,14 @@ export default function ProjectAnalytics() {
       [`Average Working Days: ${kpis.averageWorkingDays.toFixed(1)} days`],
       [`Project Completion: ${kpis.projectCompletionPct.toFixed(1)}%`],
       [],
+      [`Earned Value`],
+      [`Planned Value: ${formatCurrency(earnedValue.pv, currency)}`],
+      [`Earned Value: ${formatCurrency(earnedValue.ev, currency)}`],
+      [`CPI: ${formatIndex(earnedValue.cpi)}`],
+      [`SPI: ${formatIndex(earnedValue.spi)}`],
+      [`Estimate at Completion: ${formatCurrency(earnedValue.eac, currency)}`],
+      [`Estimate to Complete: ${formatCurrency(earnedValue.etc, currency)}`],
+      [],
       headers,
       ...rows
     ]
@@ -446,6 +459,15 @@ export default function ProjectAnalytics() {
           </Card>
         </div>
 
+        {/* Earned value: cost and schedule performance */}
+        {projectId && <EarnedValuePanel projectId={projectId} tasks={tasks} metrics={earnedValue} currency={currency} />}
+
+        {/* Task counts and costs per label */}
+        {projectId && <LabelBreakdownCard projectId={projectId} tasks={tasks} currency={currency} />}
+
+        {/* Schedule variance against the selected baseline */}
+        {projectId && <BaselineVariancePanel projectId={projectId} tasks={tasks} currency={currency} />}
+
         {/* Detailed Data Table */}
         <Card>
           <CardHeader>
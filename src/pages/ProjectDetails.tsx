@@ -6,6 +6,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { CreateDepartmentDialog } from '@/components/CreateDepartmentDialog';
+import { ImportPlanDialog } from '@/components/ImportPlanDialog';
 import { CreateTaskDialog } from '@/components/CreateTaskDialog';
 import { ProjectMembersCard } from '@/components/ProjectMembersCard';
 import { useUserRole } from '@/hooks/useUserRole';
@@ -14,7 +15,13 @@ import { ProjectLoadingScreen } from '@/components/ProjectLoadingScreen';
 import { MessagingCenter } from '@/components/MessagingCenter';
 import { EditProjectDialog } from '@/components/EditProjectDialog';
 import { ChatSettingsDialog } from '@/components/ChatSettingsDialog';
+import { ManageLabelsDialog } from '@/components/labels/ManageLabelsDialog';
+import { ManageWorkflowDialog } from '@/components/workflow/ManageWorkflowDialog';
+import { WorkingCalendarDialog } from '@/components/calendar/WorkingCalendarDialog';
+import { MilestonesPanel } from '@/components/milestones/MilestonesPanel';
 import { useUnreadMessages } from '@/hooks/useUnreadMessages';
+import { useProjectMilestones } from '@/hooks/useProjectMilestones';
+import { isTaskDoneStatus, isTaskInProgressStatus, isTaskTodoStatus } from '@/lib/taskStatus';
 import {
   ArrowLeft,
   Folder,
@@ -39,6 +46,7 @@ import {
   Layers,
   Building2,
   AlertCircle,
+  Diamond,
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Progress } from '@/components/ui/progress';
@@ -82,6 +90,7 @@ interface Task {
   id: string;
   title: string;
   status: string;
+  status_category?: string;
   priority: string;
   start_date: string;
   due_date: string;
@@ -103,6 +112,7 @@ export default function ProjectDetails() {
   const { toast } = useToast();
   const { user } = useAuth();
   const { isAdmin, isProjectManager } = useUserRole();
+  const { milestones } = useProjectMilestones(projectId);
 
   const [project, setProject] = useState<Project | null>(null);
   const [departments, setDepartments] = useState<Department[]>([]);
@@ -267,11 +277,11 @@ export default function ProjectDetails() {
     return <ProjectLoadingScreen projectId={projectId} />;
   }
 
-  const completedCount = tasks.filter(t => t.status === 'done').length;
-  const inProgressCount = tasks.filter(t => t.status === 'in_progress').length;
-  const todoCount = tasks.filter(t => t.status === 'todo' || t.status === 'pending').length;
+  const completedCount = tasks.filter(t => isTaskDoneStatus(t.status, t.status_category)).length;
+  const inProgressCount = tasks.filter(t => isTaskInProgressStatus(t.status, t.status_category)).length;
+  const todoCount = tasks.filter(t => isTaskTodoStatus(t.status, t.status_category) || t.status === 'pending').length;
   const projectProgress = tasks.length > 0 ? Math.round((completedCount / tasks.length) * 100) : 0;
-  const overdueTasks = tasks.filter(t => t.due_date && new Date(t.due_date) < new Date() && t.status !== 'done');
+  const overdueTasks = tasks.filter(t => t.due_date && new Date(t.due_date) < new Date() && !isTaskDoneStatus(t.status, t.status_category));
 
   const statusConfig: Record<string, { label: string; className: string }> = {
     active: { label: 'Active', className: 'bg-success/10 text-success border-success/20' },
@@ -285,6 +295,7 @@ export default function ProjectDetails() {
   const navItems = [
     { id: 'overview', label: 'Overview', icon: TrendingUp },
     { id: 'departments', label: 'Departments', icon: Building2, count: departments.length },
+    { id: 'milestones', label: 'Milestones', icon: Diamond, count: milestones.length },
     { id: 'team', label: 'Team', icon: Users },
     { id: 'chat', label: 'Chat', icon: MessageSquare, count: unreadCount || undefined },
     { id: 'gantt', label: 'Gantt', icon: GanttChartSquare, action: () => navigate(`/projects/${projectId}/gantt`) },
@@ -360,6 +371,9 @@ export default function ProjectDetails() {
                   </Button>
                   <UpdateProjectLogoDialog projectId={projectId!} currentLogoUrl={project.logo_url} onLogoUpdated={fetchProjectData} />
                   <CreateTaskDialog projectId={projectId} onTaskCreated={fetchProjectData} showTrigger={false} />
+                  <ManageLabelsDialog projectId={projectId!} />
+                  <ManageWorkflowDialog projectId={projectId!} />
+                  <WorkingCalendarDialog projectId={projectId!} />
                   <ChatSettingsDialog projectId={projectId!} />
                 </div>
               )}
@@ -498,6 +512,7 @@ export default function ProjectDetails() {
               <div className="flex flex-wrap gap-2 items-center">
                 <CreateTaskDialog projectId={projectId} onTaskCreated={fetchProjectData} showTrigger={true} />
                 <CreateDepartmentDialog projectId={projectId!} onDepartmentCreated={fetchProjectData} />
+                <ImportPlanDialog projectId={projectId!} onPlanImported={fetchProjectData} />
                 <Button variant="outline" size="sm" className="gap-1.5 rounded-lg" onClick={() => setActiveTab('team')}>
                   <Users className="h-3.5 w-3.5" />
                   Invite User
@@ -756,6 +771,20 @@ export default function ProjectDetails() {
         </div>
       )}
 
+      {/* ============ MILESTONES TAB ============ */}
+      {activeTab === 'milestones' && (
+        <div className="pt-4">
+          <MilestonesPanel
+            projectId={projectId!}
+            tasks={tasks}
+            departments={departments}
+            people={teamMembers}
+            canManage={isAdmin || isProjectManager}
+            currentUserId={user?.id}
+          />
+        </div>
+      )}
+
       {/* ============ TEAM TAB ============ */}
       {activeTab === 'team' && (
         <div className="pt-4">
@@ -4,13 +4,20 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { Search, Calendar, Loader2, ArrowRight, Trash2, FolderKanban, Plus, MoreHorizontal, Power } from 'lucide-react';
+import { Search, Calendar, Loader2, ArrowRight, Trash2, FolderKanban, Plus, MoreHorizontal, Power, LayoutTemplate, Download, Upload, LayoutGrid, GanttChartSquare } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { EditProjectDialog } from '@/components/EditProjectDialog';
 import { DuplicateProjectDialog } from '@/components/DuplicateProjectDialog';
+import { SaveAsTemplateDialog } from '@/components/templates/SaveAsTemplateDialog';
+import { ImportProjectDialog } from '@/components/ImportProjectDialog';
+import { PortfolioGantt } from '@/components/portfolio/PortfolioGantt';
+import { downloadProjectArchive } from '@/lib/projectArchive';
+import { getProjectHealth, isTaskOverdue } from '@/lib/projectHealth';
+import type { PortfolioProject } from '@/lib/portfolio';
 import { useUserRole } from '@/hooks/useUserRole';
 import { Progress } from '@/components/ui/progress';
 import {
@@ -43,11 +50,7 @@ interface Project {
   client_name?: string | null;
 }
 
-interface ProjectWithStats extends Project {
-  taskCount: number;
-  completedCount: number;
-  progress: number;
-}
+type ProjectWithStats = Project & PortfolioProject;
 
 export default function Projects() {
   const { user } = useAuth();
@@ -59,9 +62,13 @@ export default function Projects() {
   const [loading, setLoading] = useState(true);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [projectToDelete, setProjectToDelete] = useState<Project | null>(null);
+  const [templateProject, setTemplateProject] = useState<Project | null>(null);
+  const [duplicateProject, setDuplicateProject] = useState<Project | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
   const [clientFilter, setClientFilter] = useState<string>('all');
+  const [view, setView] = useState<'grid' | 'timeline'>('grid');
 
   useEffect(() => {
     if (user && (isAdmin !== undefined && isProjectManager !== undefined)) {
@@ -83,30 +90,36 @@ export default function Projects() {
 
       // Fetch task stats for all projects in a single query
       const projectIds = (data || []).map(p => p.id);
-      let taskStats: Record<string, { total: number; completed: number }> = {};
+      const taskStats: Record<string, { total: number; completed: number; overdue: number; lastDue: string | null }> = {};
       
       if (projectIds.length > 0) {
         const { data: tasks } = await supabase
           .from('tasks')
-          .select('status, project_id')
+          .select('status, status_category, project_id, due_date')
           .in('project_id', projectIds);
 
         (tasks || []).forEach(t => {
-          if (!taskStats[t.project_id]) taskStats[t.project_id] = { total: 0, completed: 0 };
-          taskStats[t.project_id].total++;
-          if (['done', 'completed', 'complete'].includes(t.status || '')) {
-            taskStats[t.project_id].completed++;
+          if (!taskStats[t.project_id]) taskStats[t.project_id] = { total: 0, completed: 0, overdue: 0, lastDue: null };
+          const stats = taskStats[t.project_id];
+          stats.total++;
+          if (t.status_category === 'done') {
+            stats.completed++;
           }
+          if (isTaskOverdue(t)) stats.overdue++;
+          if (t.due_date && (!stats.lastDue || t.due_date > stats.lastDue)) stats.lastDue = t.due_date;
         });
       }
 
       const projectsWithStats: ProjectWithStats[] = (data || []).map(p => {
-        const stats = taskStats[p.id] || { total: 0, completed: 0 };
+        const stats = taskStats[p.id] || { total: 0, completed: 0, overdue: 0, lastDue: null };
         return {
           ...p,
           taskCount: stats.total,
           completedCount: stats.completed,
+          overdueCount: stats.overdue,
           progress: stats.total > 0 ? Math.round((stats.completed / stats.total) * 100) : 0,
+          health: getProjectHealth(stats.total, stats.overdue),
+          lastDueDate: stats.lastDue,
         };
       });
 
@@ -148,6 +161,19 @@ export default function Projects() {
     }
   };
 
+  const handleExportProject = async (project: Project) => {
+    try {
+      const { data, error } = await supabase.functions.invoke('project-archive', {
+        body: { action: 'export', projectId: project.id },
+      });
+      if (error) throw error;
+      downloadProjectArchive(data);
+      toast({ title: "Success", description: `Exported "${project.name}"` });
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
   const canToggleStatus = (project: Project) => {
     if (isAdmin) return true;
     if (isProjectManager && project.owner_id === user?.id) return true;
@@ -198,16 +224,34 @@ export default function Projects() {
           </p>
         </div>
         {(isAdmin || isProjectManager) && (
-          <Button className="gap-2" onClick={() => navigate('/projects/new')}>
-            <Plus className="h-4 w-4" />
-            New Project
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" className="gap-2" onClick={() => setImportOpen(true)}>
+              <Upload className="h-4 w-4" />
+              Import
+            </Button>
+            <Button className="gap-2" onClick={() => navigate('/projects/new')}>
+              <Plus className="h-4 w-4" />
+              New Project
+            </Button>
+          </div>
         )}
       </div>
 
       {/* Search & Filter Bar */}
       <div className="flex flex-col gap-3">
         <div className="flex flex-col sm:flex-row gap-3">
+          <Tabs value={view} onValueChange={(v) => setView(v as 'grid' | 'timeline')}>
+            <TabsList>
+              <TabsTrigger value="grid" className="gap-1.5">
+                <LayoutGrid className="h-4 w-4" />
+                Grid
+              </TabsTrigger>
+              <TabsTrigger value="timeline" className="gap-1.5">
+                <GanttChartSquare className="h-4 w-4" />
+                Timeline
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
           <div className="relative flex-1">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
             <Input
@@ -282,6 +326,8 @@ export default function Projects() {
             )}
           </CardContent>
         </Card>
+      ) : view === 'timeline' ? (
+        <PortfolioGantt projects={filteredProjects} />
       ) : (
         <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
           {filteredProjects.map((project) => (
@@ -331,10 +377,22 @@ export default function Projects() {
                           </DropdownMenuItem>
                         )}
                         {(isAdmin || project.owner_id === user?.id) && (
-                          <DropdownMenuItem onClick={() => {}}>
+                          <DropdownMenuItem onClick={() => setDuplicateProject(project)}>
                             Duplicate
                           </DropdownMenuItem>
                         )}
+                        {(isAdmin || isProjectManager) && (
+                          <DropdownMenuItem onClick={() => setTemplateProject(project)}>
+                            <LayoutTemplate className="h-4 w-4 mr-2" />
+                            Save as Template
+                          </DropdownMenuItem>
+                        )}
+                        {(isAdmin || isProjectManager) && (
+                          <DropdownMenuItem onClick={() => handleExportProject(project)}>
+                            <Download className="h-4 w-4 mr-2" />
+                            Export
+                          </DropdownMenuItem>
+                        )}
                         {isAdmin && (
                           <DropdownMenuItem 
                             className="text-destructive"
@@ -384,6 +442,24 @@ export default function Projects() {
         </div>
       )}
 
+      <DuplicateProjectDialog
+        open={!!duplicateProject}
+        onOpenChange={(open) => !open && setDuplicateProject(null)}
+        project={duplicateProject}
+      />
+
+      <ImportProjectDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        onImported={fetchProjects}
+      />
+
+      <SaveAsTemplateDialog
+        open={!!templateProject}
+        onOpenChange={(open) => !open && setTemplateProject(null)}
+        project={templateProject}
+      />
+
       {/* Delete Dialog */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
@@ -0,0 +1,334 @@
+import { useEffect, useState } from "react";
+import { addWeeks, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertCircle, Check, ChevronLeft, ChevronRight, Clock, Loader2, Send, Square, Undo2, X } from "lucide-react";
+import { useUserRole } from "@/hooks/useUserRole";
+import { useRunningTimer } from "@/hooks/useTimeEntries";
+import { getSheetTaskTitles, useTimesheetApprovals, useWeeklyTimesheet, type WeeklyDepartmentSheet } from "@/hooks/useTimesheets";
+import { TimesheetGrid } from "@/components/timesheets/TimesheetGrid";
+import { ExportTimesheetsDialog } from "@/components/timesheets/ExportTimesheetsDialog";
+import {
+  TIMESHEET_STATUS_LABELS,
+  formatElapsed,
+  formatHours,
+  formatWeekLabel,
+  getWeekStart,
+  isLockedTimesheetStatus,
+  sumEntryHours,
+  type TimesheetStatus,
+} from "@/lib/timeTracking";
+
+const statusVariant = (status: TimesheetStatus): "default" | "secondary" | "destructive" | "outline" => {
+  switch (status) {
+    case 'approved': return 'default';
+    case 'submitted': return 'secondary';
+    case 'rejected': return 'destructive';
+    default: return 'outline';
+  }
+};
+
+function RunningTimerCard() {
+  const { runningTimer, stopTimer } = useRunningTimer();
+  const [now, setNow] = useState(() => Date.now());
+  const [stopping, setStopping] = useState(false);
+
+  useEffect(() => {
+    if (!runningTimer) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [runningTimer]);
+
+  if (!runningTimer) return null;
+
+  const handleStop = async () => {
+    setStopping(true);
+    await stopTimer();
+    setStopping(false);
+  };
+
+  return (
+    <Card className="border-primary/40 bg-primary/5">
+      <CardContent className="flex items-center justify-between gap-4 py-4">
+        <div className="flex items-center gap-3 min-w-0">
+          <Clock className="h-5 w-5 text-primary shrink-0 animate-pulse" />
+          <div className="min-w-0">
+            <p className="text-sm text-muted-foreground">Timer running</p>
+            <p className="font-medium truncate">{runningTimer.task_title}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="font-mono text-lg">{formatElapsed(now - new Date(runningTimer.started_at).getTime())}</span>
+          <Button variant="destructive" size="sm" onClick={handleStop} disabled={stopping} className="gap-2">
+            {stopping ? <Loader2 className="h-4 w-4 animate-spin" /> : <Square className="h-4 w-4" />}
+            Stop
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function MyTimesheet() {
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const { sheets, loading, submitTimesheet, withdrawTimesheet } = useWeeklyTimesheet(weekStart);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const currentWeek = getWeekStart(new Date());
+  const weekTotal = sumEntryHours(sheets.flatMap(s => s.entries));
+
+  const runAction = async (sheet: WeeklyDepartmentSheet, action: (sheet: WeeklyDepartmentSheet) => Promise<boolean>) => {
+    setBusyKey(sheet.departmentId);
+    await action(sheet);
+    setBusyKey(null);
+  };
+
+  const shiftWeek = (weeks: number) => setWeekStart(getWeekStart(addWeeks(parseISO(weekStart), weeks)));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => shiftWeek(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="font-medium min-w-52 text-center">{formatWeekLabel(weekStart)}</span>
+          <Button variant="outline" size="icon" onClick={() => shiftWeek(1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          {weekStart !== currentWeek && (
+            <Button variant="ghost" size="sm" onClick={() => setWeekStart(currentWeek)}>
+              This week
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">{formatHours(weekTotal)} logged this week</p>
+      </div>
+
+      <RunningTimerCard />
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-[200px]">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : sheets.length === 0 ? (
+        <Card>
+          <CardContent className="py-16 text-center">
+            <Clock className="h-10 w-10 text-muted-foreground/20 mx-auto mb-3" />
+            <p className="text-sm text-muted-foreground">
+              No time logged this week. Start a timer or add time from a task's Time tab.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        sheets.map(sheet => {
+          const status = sheet.timesheet?.status || 'draft';
+          const locked = isLockedTimesheetStatus(status);
+          const unattached = locked ? sheet.entries.filter(e => e.timesheet_id !== sheet.timesheet?.id).length : 0;
+          const busy = busyKey === sheet.departmentId;
+          const taskTitles = sheet.departmentId ? [] : getSheetTaskTitles(sheet);
+
+          return (
+            <Card key={sheet.departmentId || 'none'}>
+              <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div>
+                  <CardTitle className="text-base">{sheet.departmentName}</CardTitle>
+                  <CardDescription>
+                    {sheet.projectName && `${sheet.projectName} · `}
+                    {formatHours(sumEntryHours(sheet.entries))}
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={statusVariant(status)}>{TIMESHEET_STATUS_LABELS[status]}</Badge>
+                  {(status === 'draft' || status === 'rejected') && (
+                    <Button size="sm" className="gap-2" disabled={busy || sheet.entries.length === 0} onClick={() => runAction(sheet, submitTimesheet)}>
+                      {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                      {status === 'rejected' ? 'Resubmit' : 'Submit'}
+                    </Button>
+                  )}
+                  {status === 'submitted' && (
+                    <Button size="sm" variant="outline" className="gap-2" disabled={busy} onClick={() => runAction(sheet, withdrawTimesheet)}>
+                      {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Undo2 className="h-4 w-4" />}
+                      Withdraw
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {status === 'rejected' && sheet.timesheet?.review_note && (
+                  <div className="flex items-start gap-2 rounded-md border border-destructive/40 bg-destructive/5 p-3 text-sm">
+                    <AlertCircle className="h-4 w-4 text-destructive mt-0.5 shrink-0" />
+                    <span>{sheet.timesheet.review_note}</span>
+                  </div>
+                )}
+                {!sheet.departmentId && (
+                  <p className="text-sm text-muted-foreground">
+                    {taskTitles.join(", ")} {taskTitles.length === 1 ? "is" : "are"} not assigned to a department. Ask a project
+                    manager to assign {taskTitles.length === 1 ? "it" : "them"}, or log the time on another task, so these hours can
+                    be submitted for approval.
+                  </p>
+                )}
+                {unattached > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    {unattached} entr{unattached === 1 ? 'y was' : 'ies were'} added after submitting and {unattached === 1 ? 'is' : 'are'} not part of this timesheet.
+                  </p>
+                )}
+                {sheet.entries.length > 0 && <TimesheetGrid weekStart={weekStart} entries={sheet.entries} />}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
+
+function TimesheetApprovals() {
+  const { pending, loading, approveTimesheet, rejectTimesheet } = useTimesheetApprovals();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<{ id: string; userName: string } | null>(null);
+  const [rejectNote, setRejectNote] = useState('');
+
+  const handleApprove = async (timesheetId: string) => {
+    setBusyId(timesheetId);
+    await approveTimesheet(timesheetId);
+    setBusyId(null);
+  };
+
+  const handleReject = async () => {
+    if (!rejecting || !rejectNote.trim()) return;
+    setBusyId(rejecting.id);
+    const ok = await rejectTimesheet(rejecting.id, rejectNote);
+    setBusyId(null);
+    if (ok) {
+      setRejecting(null);
+      setRejectNote('');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[200px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (pending.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-16 text-center">
+          <Check className="h-10 w-10 text-muted-foreground/20 mx-auto mb-3" />
+          <p className="text-sm text-muted-foreground">No timesheets are waiting for approval</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {pending.map(timesheet => (
+        <Card key={timesheet.id}>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div>
+              <CardTitle className="text-base">{timesheet.user_name}</CardTitle>
+              <CardDescription>
+                {formatWeekLabel(timesheet.week_start)} · {timesheet.project_name && `${timesheet.project_name} · `}
+                {timesheet.department_name} · {formatHours(sumEntryHours(timesheet.entries))}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-2"
+                disabled={busyId === timesheet.id}
+                onClick={() => setRejecting({ id: timesheet.id, userName: timesheet.user_name })}
+              >
+                <X className="h-4 w-4" />
+                Reject
+              </Button>
+              <Button size="sm" className="gap-2" disabled={busyId === timesheet.id} onClick={() => handleApprove(timesheet.id)}>
+                {busyId === timesheet.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                Approve
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <TimesheetGrid weekStart={timesheet.week_start} entries={timesheet.entries} />
+          </CardContent>
+        </Card>
+      ))}
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reject Timesheet</DialogTitle>
+            <DialogDescription>
+              {rejecting?.userName} will see this note and can correct and resubmit the week.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={rejectNote}
+            onChange={(e) => setRejectNote(e.target.value)}
+            placeholder="What needs to change?"
+            rows={4}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleReject} disabled={!rejectNote.trim() || busyId === rejecting?.id}>
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export default function Timesheets() {
+  const { isAdmin, isProjectManager } = useUserRole();
+  const { pending, canReview } = useTimesheetApprovals();
+
+  const canExport = isAdmin || isProjectManager || canReview;
+
+  return (
+    <div className="space-y-6 max-w-7xl">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Timesheets</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Review your weekly hours and submit them to your department lead
+          </p>
+        </div>
+        {canExport && <ExportTimesheetsDialog />}
+      </div>
+
+      {canReview ? (
+        <Tabs defaultValue="mine">
+          <TabsList>
+            <TabsTrigger value="mine">My Timesheet</TabsTrigger>
+            <TabsTrigger value="approvals" className="gap-2">
+              Approvals
+              {pending.length > 0 && <Badge variant="secondary" className="h-5 px-1.5">{pending.length}</Badge>}
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value="mine" className="pt-2">
+            <MyTimesheet />
+          </TabsContent>
+          <TabsContent value="approvals" className="pt-2">
+            <TimesheetApprovals />
+          </TabsContent>
+        </Tabs>
+      ) : (
+        <MyTimesheet />
+      )}
+    </div>
+  );
+}
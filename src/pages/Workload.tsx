@@ -0,0 +1,234 @@
+import { useMemo, useState } from 'react';
+import { addDays, addWeeks, format, parseISO } from 'date-fns';
+import { ChevronLeft, ChevronRight, Loader2, Search } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { WorkloadHeatmap } from '@/components/workload/WorkloadHeatmap';
+import { WorkloadCellDialog } from '@/components/workload/WorkloadCellDialog';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useWorkload } from '@/hooks/useWorkload';
+import { getWeekStart } from '@/lib/timeTracking';
+import {
+  buildDepartmentWorkload,
+  buildUserWorkload,
+  buildWorkloadBuckets,
+  formatLoadHours,
+  getLoadLevel,
+  type WorkloadGranularity,
+  type WorkloadGrouping,
+  type WorkloadRow,
+} from '@/lib/workload';
+
+const RANGE_OPTIONS = [2, 4, 8, 12];
+
+// Share of capacity used over the whole range; work without any capacity sorts first
+const utilisation = (row: WorkloadRow) => {
+  if (row.totalCapacity > 0) return row.totalHours / row.totalCapacity;
+  return row.totalHours > 0 ? Number.MAX_VALUE : 0;
+};
+
+export default function Workload() {
+  const { isAdmin, isProjectManager } = useUserRole();
+  const canManage = isAdmin || isProjectManager;
+
+  const [grouping, setGrouping] = useState<WorkloadGrouping>('user');
+  const [granularity, setGranularity] = useState<WorkloadGranularity>('day');
+  const [weeks, setWeeks] = useState(2);
+  const [from, setFrom] = useState(() => getWeekStart(new Date()));
+  const [projectFilter, setProjectFilter] = useState('all');
+  const [search, setSearch] = useState('');
+  const [overOnly, setOverOnly] = useState(false);
+  const [showIdle, setShowIdle] = useState(false);
+  const [selected, setSelected] = useState<{ rowId: string; grouping: WorkloadGrouping; bucketIndex: number } | null>(null);
+
+  const buckets = useMemo(() => buildWorkloadBuckets(from, weeks, granularity), [from, weeks, granularity]);
+  const rangeEnd = format(addDays(parseISO(from), weeks * 7 - 1), 'yyyy-MM-dd');
+  const { tasks, people, calendars, loading, setCapacity, reassignTask } = useWorkload(from, rangeEnd);
+
+  const projects = useMemo(() => {
+    const names = new Map<string, string>();
+    tasks.forEach(t => names.set(t.project_id, t.project_name));
+    return Array.from(names.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [tasks]);
+
+  const scopedTasks = useMemo(
+    () => (projectFilter === 'all' ? tasks : tasks.filter(t => t.project_id === projectFilter)),
+    [tasks, projectFilter]
+  );
+
+  const userRows = useMemo(
+    () => buildUserWorkload(scopedTasks, people, buckets, calendars),
+    [scopedTasks, people, buckets, calendars]
+  );
+
+  const rows = useMemo(() => {
+    const all = grouping === 'user'
+      ? userRows
+      : buildDepartmentWorkload(scopedTasks, people, buckets, calendars);
+    const query = search.trim().toLowerCase();
+
+    return all
+      .filter(row => grouping === 'department' || showIdle || row.totalHours > 0 || row.unestimatedTasks.length > 0)
+      .filter(row => !query || row.name.toLowerCase().includes(query))
+      .filter(row => !overOnly || row.cells.some(cell => getLoadLevel(cell.hours, cell.capacity) === 'over'))
+      .sort((a, b) => utilisation(b) - utilisation(a) || a.name.localeCompare(b.name));
+  }, [grouping, userRows, scopedTasks, people, buckets, calendars, search, overOnly, showIdle]);
+
+  const personNames = useMemo(() => new Map(people.map(p => [p.id, p.name])), [people]);
+
+  const overAllocated = rows.filter(row => row.cells.some(cell => getLoadLevel(cell.hours, cell.capacity) === 'over')).length;
+  const plannedHours = rows.reduce((sum, row) => sum + row.totalHours, 0);
+  const capacityHours = rows.reduce((sum, row) => sum + row.totalCapacity, 0);
+
+  const selectedRow = selected && selected.grouping === grouping ? rows.find(r => r.id === selected.rowId) ?? null : null;
+
+  return (
+    <div className="space-y-6 max-w-7xl">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Workload</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Planned hours from task estimates against capacity, across all projects
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => setFrom(getWeekStart(addWeeks(parseISO(from), -1)))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setFrom(getWeekStart(new Date()))}>
+            This week
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => setFrom(getWeekStart(addWeeks(parseISO(from), 1)))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground hidden md:inline">
+            {format(parseISO(from), 'MMM d')} – {format(parseISO(rangeEnd), 'MMM d, yyyy')}
+          </span>
+        </div>
+      </div>
+
+      <div className="grid gap-4 grid-cols-1 sm:grid-cols-3">
+        <Card>
+          <CardContent className="pt-5 pb-4 px-5">
+            <p className="text-sm text-muted-foreground">Planned</p>
+            <p className="text-2xl font-bold">{formatLoadHours(plannedHours)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-5 pb-4 px-5">
+            <p className="text-sm text-muted-foreground">Capacity</p>
+            <p className="text-2xl font-bold">
+              {formatLoadHours(capacityHours)}
+              {capacityHours > 0 && (
+                <span className="text-sm font-normal text-muted-foreground ml-2">
+                  {Math.round((plannedHours / capacityHours) * 100)}% used
+                </span>
+              )}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-5 pb-4 px-5">
+            <p className="text-sm text-muted-foreground">Over-allocated</p>
+            <p className={`text-2xl font-bold ${overAllocated > 0 ? 'text-destructive' : ''}`}>
+              {overAllocated} {grouping === 'user' ? (overAllocated === 1 ? 'person' : 'people') : (overAllocated === 1 ? 'department' : 'departments')}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Tabs value={grouping} onValueChange={(v) => setGrouping(v as WorkloadGrouping)}>
+          <TabsList>
+            <TabsTrigger value="user">People</TabsTrigger>
+            <TabsTrigger value="department">Departments</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <Tabs value={granularity} onValueChange={(v) => setGranularity(v as WorkloadGranularity)}>
+          <TabsList>
+            <TabsTrigger value="day">Daily</TabsTrigger>
+            <TabsTrigger value="week">Weekly</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <Select value={String(weeks)} onValueChange={(v) => setWeeks(Number(v))}>
+          <SelectTrigger className="w-[120px] h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGE_OPTIONS.map(option => (
+              <SelectItem key={option} value={String(option)}>{option} weeks</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={projectFilter} onValueChange={setProjectFilter}>
+          <SelectTrigger className="w-[200px] h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All projects</SelectItem>
+            {projects.map(([id, name]) => (
+              <SelectItem key={id} value={id}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="relative">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={grouping === 'user' ? 'Search people' : 'Search departments'}
+            className="h-9 w-[200px] pl-8"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="over-only" checked={overOnly} onCheckedChange={setOverOnly} />
+          <Label htmlFor="over-only" className="text-sm font-normal">Over-allocated only</Label>
+        </div>
+        {grouping === 'user' && (
+          <div className="flex items-center gap-2">
+            <Switch id="show-idle" checked={showIdle} onCheckedChange={setShowIdle} />
+            <Label htmlFor="show-idle" className="text-sm font-normal">Include people without work</Label>
+          </div>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-[300px]">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : rows.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-sm text-muted-foreground">
+            No open tasks with dates in this period
+          </CardContent>
+        </Card>
+      ) : (
+        <WorkloadHeatmap
+          rows={rows}
+          buckets={buckets}
+          onCellClick={(row, bucketIndex) => setSelected({ rowId: row.id, grouping: row.grouping, bucketIndex })}
+          onCapacityChange={canManage ? setCapacity : undefined}
+        />
+      )}
+
+      {selectedRow && selected && (
+        <WorkloadCellDialog
+          row={selectedRow}
+          bucket={buckets[selected.bucketIndex] ?? null}
+          cell={selectedRow.cells[selected.bucketIndex] ?? null}
+          bucketIndex={selected.bucketIndex}
+          people={userRows}
+          personNames={personNames}
+          canReassign={canManage}
+          onReassign={reassignTask}
+          onOpenChange={(open) => !open && setSelected(null)}
+        />
+      )}
+    </div>
+  );
+}
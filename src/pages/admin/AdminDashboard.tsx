@@ -4,15 +4,17 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
-import { Users, FolderKanban, CheckSquare, TrendingUp, UserPlus, BarChart3, Shield, FileText, Loader2, ArrowRight } from "lucide-react";
+import { Users, FolderKanban, CheckSquare, TrendingUp, UserPlus, BarChart3, Shield, FileText, Loader2, ArrowRight, History, CalendarDays } from "lucide-react";
 
 import { Progress } from "@/components/ui/progress";
 import { OverdueReminderSettings } from "@/components/OverdueReminderSettings";
+import { WorkingCalendarDialog } from "@/components/calendar/WorkingCalendarDialog";
+import { isTaskDoneStatus, isTaskInProgressStatus, isTaskTodoStatus } from "@/lib/taskStatus";
 
 interface RawData {
   users: number;
   projects: number;
-  tasks: { id: string; status: string | null }[];
+  tasks: { id: string; status: string | null; status_category: string }[];
 }
 
 export default function AdminDashboard() {
@@ -24,6 +26,7 @@ export default function AdminDashboard() {
     tasks: [],
   });
   const [loading, setLoading] = useState(true);
+  const [calendarOpen, setCalendarOpen] = useState(false);
 
   const stats = useMemo(() => {
     const tasks = rawData.tasks;
@@ -31,9 +34,9 @@ export default function AdminDashboard() {
       totalUsers: rawData.users,
       totalProjects: rawData.projects,
       totalTasks: tasks.length,
-      activeTasks: tasks.filter(t => t.status === 'in_progress').length,
-      completedTasks: tasks.filter(t => t.status === 'done').length,
-      todoTasks: tasks.filter(t => t.status === 'todo' || !t.status).length,
+      activeTasks: tasks.filter(t => isTaskInProgressStatus(t.status, t.status_category)).length,
+      completedTasks: tasks.filter(t => isTaskDoneStatus(t.status, t.status_category)).length,
+      todoTasks: tasks.filter(t => isTaskTodoStatus(t.status, t.status_category) || !t.status).length,
     };
   }, [rawData]);
 
@@ -45,7 +48,7 @@ export default function AdminDashboard() {
       const [usersRes, projectsRes, tasksRes] = await Promise.all([
         supabase.from('profiles').select('id', { count: 'exact', head: true }),
         supabase.from('projects').select('id', { count: 'exact', head: true }),
-        supabase.from('tasks').select('id, status'),
+        supabase.from('tasks').select('id, status, status_category'),
       ]);
 
       setRawData({
@@ -66,7 +69,7 @@ export default function AdminDashboard() {
     const channel = supabase
       .channel('admin-dashboard-tasks')
       .on('postgres_changes', { event: '*', schema: 'public', table: 'tasks' }, () => {
-        supabase.from('tasks').select('id, status').then(({ data }) => {
+        supabase.from('tasks').select('id, status, status_category').then(({ data }) => {
           if (data) setRawData(prev => ({ ...prev, tasks: data }));
         });
       })
@@ -94,6 +97,8 @@ export default function AdminDashboard() {
     { label: "View Projects", desc: "Browse and manage all projects", icon: FolderKanban, onClick: () => navigate('/projects') },
     { label: "View Tasks", desc: "See all tasks across projects", icon: CheckSquare, onClick: () => navigate('/my-tasks') },
     { label: "Analytics", desc: "View detailed reports", icon: BarChart3, onClick: () => navigate('/analytics') },
+    { label: "Audit Trail", desc: "See who changed what and when", icon: History, onClick: () => navigate('/admin/audit') },
+    { label: "Working Calendar", desc: "Weekends, public holidays and blackout days", icon: CalendarDays, onClick: () => setCalendarOpen(true) },
   ];
 
   return (
@@ -174,6 +179,8 @@ export default function AdminDashboard() {
           ))}
         </div>
       </div>
+
+      <WorkingCalendarDialog open={calendarOpen} onOpenChange={setCalendarOpen} />
     </div>
   );
 }
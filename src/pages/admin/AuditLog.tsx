@@ -0,0 +1,257 @@
+import { Fragment, useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { format, parseISO, isValid } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronDown, ChevronRight, ChevronLeft, History, Loader2, Filter, X } from "lucide-react";
+import { useAuditLogs, AUDIT_PAGE_SIZE, type AuditLogEntry, type AuditProfile } from "@/hooks/useAuditLogs";
+import { AUDITED_ENTITIES, computeAuditDiff, getAuditRecordName, getEntityLabel } from "@/lib/auditDiff";
+
+const USER_FIELDS = new Set(['user_id', 'owner_id', 'assignee_user_id']);
+
+const actionVariant = (action: string): "default" | "secondary" | "destructive" | "outline" => {
+  switch (action) {
+    case 'created': return 'default';
+    case 'deleted': return 'destructive';
+    default: return 'secondary';
+  }
+};
+
+export default function AuditLog() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [entityType, setEntityType] = useState(searchParams.get('entity') || 'all');
+  const [userId, setUserId] = useState('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [page, setPage] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [users, setUsers] = useState<AuditProfile[]>([]);
+  const entityId = searchParams.get('entityId') || undefined;
+
+  const { logs, total, profiles, loading } = useAuditLogs({ entityType, userId, from, to, entityId }, page);
+
+  useEffect(() => {
+    supabase.from('profiles').select('id, full_name, email').order('full_name').then(({ data }) => {
+      if (data) setUsers(data);
+    });
+  }, []);
+
+  // Any filter change starts again from the first page
+  useEffect(() => { setPage(0); }, [entityType, userId, from, to, entityId]);
+
+  const hasFilters = entityType !== 'all' || userId !== 'all' || !!from || !!to || !!entityId;
+  const pageCount = Math.max(Math.ceil(total / AUDIT_PAGE_SIZE), 1);
+
+  const clearFilters = () => {
+    setEntityType('all');
+    setUserId('all');
+    setFrom('');
+    setTo('');
+    setSearchParams({});
+  };
+
+  const userName = (id: string | null) => {
+    if (!id) return 'System';
+    const profile = profiles[id];
+    return profile?.full_name || profile?.email || 'Unknown user';
+  };
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === '') return <span className="text-muted-foreground">—</span>;
+    if (USER_FIELDS.has(field) && typeof value === 'string') return userName(value);
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+      const date = parseISO(value);
+      if (isValid(date)) return value.length > 10 ? format(date, 'MMM d, yyyy HH:mm') : format(date, 'MMM d, yyyy');
+    }
+    if (typeof value === 'object') return <code className="text-xs break-all">{JSON.stringify(value)}</code>;
+    return String(value);
+  };
+
+  const describeRecord = (log: AuditLogEntry) => {
+    const name = getAuditRecordName(log.old_values, log.new_values);
+    if (name) return name;
+    // Membership and role rows are identified by the user they belong to
+    const row = (log.new_values || log.old_values) as Record<string, unknown> | null;
+    if (row && typeof row.user_id === 'string') {
+      return `${userName(row.user_id)}${row.role ? ` (${row.role})` : ''}`;
+    }
+    return log.entity_id || '—';
+  };
+
+  return (
+    <div className="space-y-6 max-w-7xl">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <History className="h-6 w-6" />
+          Audit Trail
+        </h1>
+        <p className="text-sm text-muted-foreground mt-1">Every change to projects, briefs, tasks, memberships and roles</p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col lg:flex-row gap-3 lg:items-end">
+        <div className="space-y-1">
+          <Label className="text-xs">Entity</Label>
+          <Select value={entityType} onValueChange={setEntityType}>
+            <SelectTrigger className="w-full lg:w-[180px] h-9 bg-card"><Filter className="h-3.5 w-3.5 mr-1.5" /><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Entities</SelectItem>
+              {AUDITED_ENTITIES.map(entity => (
+                <SelectItem key={entity.value} value={entity.value}>{entity.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Changed by</Label>
+          <Select value={userId} onValueChange={setUserId}>
+            <SelectTrigger className="w-full lg:w-[220px] h-9 bg-card"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Users</SelectItem>
+              {users.map(user => (
+                <SelectItem key={user.id} value={user.id}>{user.full_name || user.email}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">From</Label>
+          <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="h-9 bg-card" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">To</Label>
+          <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="h-9 bg-card" />
+        </div>
+        {entityId && (
+          <Badge variant="outline" className="h-9 gap-1.5 px-3">
+            Single record
+            <button type="button" onClick={() => setSearchParams({})}><X className="h-3 w-3" /></button>
+          </Badge>
+        )}
+        {hasFilters && (
+          <Button variant="ghost" size="sm" className="h-9 text-xs" onClick={clearFilters}>Clear filters</Button>
+        )}
+      </div>
+
+      <Card className="border shadow-sm overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-muted/30 hover:bg-muted/30">
+              <TableHead className="w-8" />
+              <TableHead className="font-semibold">When</TableHead>
+              <TableHead className="font-semibold">User</TableHead>
+              <TableHead className="font-semibold">Action</TableHead>
+              <TableHead className="font-semibold">Entity</TableHead>
+              <TableHead className="font-semibold">Record</TableHead>
+              <TableHead className="font-semibold text-right">Fields</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow><TableCell colSpan={7} className="text-center py-16">
+                <Loader2 className="h-6 w-6 animate-spin text-primary mx-auto" />
+              </TableCell></TableRow>
+            ) : logs.length === 0 ? (
+              <TableRow><TableCell colSpan={7} className="text-center py-16 text-muted-foreground">
+                <div className="flex flex-col items-center gap-2">
+                  <History className="h-8 w-8 text-muted-foreground/40" />
+                  <p>No changes recorded</p>
+                </div>
+              </TableCell></TableRow>
+            ) : (
+              logs.map(log => {
+                const changes = computeAuditDiff(log.old_values, log.new_values);
+                const expanded = expandedId === log.id;
+
+                return (
+                  <Fragment key={log.id}>
+                    <TableRow className="cursor-pointer" onClick={() => setExpandedId(expanded ? null : log.id)}>
+                      <TableCell>
+                        {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {log.created_at ? format(new Date(log.created_at), 'MMM d, yyyy HH:mm') : '—'}
+                      </TableCell>
+                      <TableCell className="text-sm">{userName(log.user_id)}</TableCell>
+                      <TableCell><Badge variant={actionVariant(log.action)} className="capitalize">{log.action}</Badge></TableCell>
+                      <TableCell className="text-sm">{getEntityLabel(log.entity_type)}</TableCell>
+                      <TableCell className="text-sm max-w-[260px] truncate">
+                        <button
+                          type="button"
+                          className="hover:underline truncate max-w-full text-left"
+                          title="Show the history of this record"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            if (log.entity_id) setSearchParams({ entityId: log.entity_id });
+                          }}
+                        >
+                          {describeRecord(log)}
+                        </button>
+                      </TableCell>
+                      <TableCell className="text-sm text-right text-muted-foreground">{changes.length}</TableCell>
+                    </TableRow>
+                    {expanded && (
+                      <TableRow className="bg-muted/20 hover:bg-muted/20">
+                        <TableCell />
+                        <TableCell colSpan={6}>
+                          {changes.length === 0 ? (
+                            <p className="text-sm text-muted-foreground py-2">No field changes</p>
+                          ) : (
+                            <div className="rounded-md border bg-background overflow-hidden">
+                              <table className="w-full text-sm">
+                                <thead>
+                                  <tr className="border-b bg-muted/30 text-left">
+                                    <th className="px-3 py-2 font-medium w-1/4">Field</th>
+                                    <th className="px-3 py-2 font-medium">Before</th>
+                                    <th className="px-3 py-2 font-medium">After</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {changes.map(change => (
+                                    <tr key={change.field} className="border-b last:border-0 align-top">
+                                      <td className="px-3 py-2 text-muted-foreground">{change.label}</td>
+                                      <td className="px-3 py-2 bg-destructive/5 line-through decoration-destructive/40">
+                                        {formatValue(change.field, change.before)}
+                                      </td>
+                                      <td className="px-3 py-2 bg-success/5">
+                                        {formatValue(change.field, change.after)}
+                                      </td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+
+      <div className="flex items-center justify-between text-xs text-muted-foreground px-1">
+        <span>{total} change{total !== 1 ? 's' : ''}</span>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" className="h-7" disabled={page === 0} onClick={() => setPage(p => p - 1)}>
+            <ChevronLeft className="h-3.5 w-3.5" />
+          </Button>
+          <span>Page {page + 1} of {pageCount}</span>
+          <Button variant="outline" size="sm" className="h-7" disabled={page + 1 >= pageCount} onClick={() => setPage(p => p + 1)}>
+            <ChevronRight className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
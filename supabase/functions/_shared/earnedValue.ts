@@ -0,0 +1,102 @@
+// Earned value for edge functions, with the same rules as src/lib/earnedValue.ts
+// so the report email shows the figures the analytics page does.
+import { calculateWorkingDays, type WorkingCalendar } from "./workingCalendar.ts";
+
+export interface EarnedValueTask {
+  id: string;
+  parent_task_id?: string | null;
+  start_date: string | null;
+  due_date: string | null;
+  progress_percentage: number | null;
+  estimated_cost: number | string | null;
+  actual_cost: number | string | null;
+}
+
+export interface EarnedValueMetrics {
+  bac: number;
+  pv: number;
+  ev: number;
+  ac: number;
+  cv: number;
+  sv: number;
+  cpi: number | null;
+  spi: number | null;
+  eac: number;
+  etc: number;
+  vac: number;
+  /** Tasks with a budget */
+  taskCount: number;
+}
+
+const toDay = (date: string) => date.split("T")[0];
+
+/**
+ * Parent tasks roll their subtasks up, so only leaf tasks are measured
+ */
+export function getEarnedValueTasks<T extends EarnedValueTask>(tasks: T[]): T[] {
+  const parentIds = new Set(tasks.map(t => t.parent_task_id).filter(Boolean));
+  return tasks.filter(t => !parentIds.has(t.id));
+}
+
+/**
+ * Share of a task's working days that should be done by `asOf` (0-1)
+ */
+export function plannedFraction(task: EarnedValueTask, asOf: string, calendar: WorkingCalendar): number {
+  if (!task.start_date || !task.due_date) return 0;
+  const day = toDay(asOf);
+  const start = toDay(task.start_date);
+  const due = toDay(task.due_date);
+  if (day < start) return 0;
+  if (day >= due) return 1;
+
+  const total = calculateWorkingDays(start, due, calendar);
+  if (total === 0) return 1;
+  return Math.min(1, calculateWorkingDays(start, day, calendar) / total);
+}
+
+export function deriveEarnedValueMetrics(bac: number, pv: number, ev: number, ac: number, taskCount = 0): EarnedValueMetrics {
+  const cpi = ac > 0 ? ev / ac : null;
+  const spi = pv > 0 ? ev / pv : null;
+  const eac = cpi ? bac / cpi : ac + (bac - ev);
+  const etc = Math.max(0, eac - ac);
+  return { bac, pv, ev, ac, cv: ev - ac, sv: ev - pv, cpi, spi, eac, etc, vac: bac - eac, taskCount };
+}
+
+/**
+ * Earned value of a set of leaf tasks as of a date
+ */
+export function computeEarnedValue(tasks: EarnedValueTask[], asOf: string, calendar: WorkingCalendar): EarnedValueMetrics {
+  let bac = 0, pv = 0, ev = 0, ac = 0, taskCount = 0;
+  tasks.forEach(task => {
+    const budget = Number(task.estimated_cost) || 0;
+    ac += Number(task.actual_cost) || 0;
+    if (budget <= 0) return;
+
+    taskCount++;
+    bac += budget;
+    pv += budget * plannedFraction(task, asOf, calendar);
+    ev += budget * Math.min(100, Math.max(0, task.progress_percentage || 0)) / 100;
+  });
+  return deriveEarnedValueMetrics(bac, pv, ev, ac, taskCount);
+}
+
+/**
+ * Earned value per group (department, element, ...); tasks without a key are
+ * collected under `null`
+ */
+export function groupEarnedValue<T extends EarnedValueTask>(
+  tasks: T[],
+  keyOf: (task: T) => string | null | undefined,
+  asOf: string,
+  calendar: WorkingCalendar
+): Map<string | null, EarnedValueMetrics> {
+  const groups = new Map<string | null, T[]>();
+  tasks.forEach(task => {
+    const key = keyOf(task) || null;
+    groups.set(key, [...(groups.get(key) || []), task]);
+  });
+
+  const result = new Map<string | null, EarnedValueMetrics>();
+  groups.forEach((groupTasks, key) => result.set(key, computeEarnedValue(groupTasks, asOf, calendar)));
+  return result;
+}
@@ -0,0 +1,69 @@
+// Working calendars for edge functions. Mirrors src/lib/workingDays.ts: a
+// project day overrides an organisation day, which overrides the weekend, and
+// half-days count half. Dates are yyyy-MM-dd strings handled in UTC.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+export interface WorkingCalendar {
+  /** Day numbers as in Date.getUTCDay(): 0 = Sunday */
+  weekendDays: number[];
+  /** Exception kind keyed by yyyy-MM-dd */
+  days: Record<string, string>;
+}
+
+/**
+ * The organisation calendar merged with the project's
+ */
+export async function loadWorkingCalendar(supabase: SupabaseClient, projectId: string): Promise<WorkingCalendar> {
+  const [organisationSettings, projectSettings, organisationDays, projectDays] = await Promise.all([
+    supabase.from("working_calendars").select("weekend_days").is("project_id", null).maybeSingle(),
+    supabase.from("working_calendars").select("weekend_days").eq("project_id", projectId).maybeSingle(),
+    supabase.from("working_calendar_days").select("date, kind").is("project_id", null),
+    supabase.from("working_calendar_days").select("date, kind").eq("project_id", projectId),
+  ]);
+  const failed = [organisationSettings, projectSettings, organisationDays, projectDays].find(r => r.error);
+  if (failed) throw failed.error;
+
+  const days: Record<string, string> = {};
+  (organisationDays.data || []).forEach((d: { date: string; kind: string }) => { days[d.date] = d.kind; });
+  (projectDays.data || []).forEach((d: { date: string; kind: string }) => { days[d.date] = d.kind; });
+
+  return {
+    weekendDays: projectSettings.data?.weekend_days ?? organisationSettings.data?.weekend_days ?? [0, 6],
+    days,
+  };
+}
+
+const shiftDay = (day: string, amount: number) => {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + amount);
+  return date.toISOString().split("T")[0];
+};
+
+/** 1, 0.5 for a half-day, or 0 for weekends, holidays and non-working days */
+export function getDayWeight(day: string, calendar: WorkingCalendar): number {
+  const kind = calendar.days[day];
+  if (kind) return kind === "working" ? 1 : kind === "half_day" ? 0.5 : 0;
+  return calendar.weekendDays.includes(new Date(`${day}T00:00:00Z`).getUTCDay()) ? 0 : 1;
+}
+
+/** Working days from `from` to `to`, both included, half-days counting 0.5 */
+export function calculateWorkingDays(from: string, to: string, calendar: WorkingCalendar): number {
+  let count = 0;
+  for (let day = from.split("T")[0]; day <= to.split("T")[0]; day = shiftDay(day, 1)) {
+    count += getDayWeight(day, calendar);
+  }
+  return count;
+}
+
+/**
+ * The last working day on or before `day`. Overdue counts compare due dates
+ * against it, so a task due on Friday does not turn overdue over the weekend.
+ */
+export function lastWorkingDay(day: string, calendar: WorkingCalendar): string {
+  let current = day;
+  // A year without a working day means the calendar is empty; stop there
+  for (let i = 0; i < 366 && getDayWeight(current, calendar) === 0; i++) {
+    current = shiftDay(current, -1);
+  }
+  return current;
+}
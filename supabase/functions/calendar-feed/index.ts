@@ -0,0 +1,322 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Calendar apps poll the feed, so keep it to recent and upcoming work
+const PAST_DAYS = 90;
+
+interface FeedEvent {
+  uid: string;
+  date: string;
+  summary: string;
+  description: string;
+}
+
+// ---------------------------------------------------------------------------
+// Signing: the feed URL carries an HMAC of the user, the project and the
+// user's feed token so calendar apps can fetch it without a session.
+// Resetting the token revokes every link signed with the old one.
+// ---------------------------------------------------------------------------
+
+function getFeedSecret(): string {
+  return Deno.env.get("CALENDAR_FEED_SECRET") || Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+}
+
+async function signFeed(userId: string, projectId: string | null, token: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(getFeedSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${userId}:${projectId ?? ""}:${token}`));
+  return btoa(String.fromCharCode(...new Uint8Array(signature)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function getFeedToken(supabase: any, userId: string, { create = false, rotate = false } = {}): Promise<string | null> {
+  if (rotate) {
+    const { data, error } = await supabase
+      .from("calendar_feed_tokens")
+      .upsert({ user_id: userId, token: crypto.randomUUID() })
+      .select("token")
+      .single();
+    if (error) throw error;
+    return data.token;
+  }
+
+  const { data, error } = await supabase.from("calendar_feed_tokens").select("token").eq("user_id", userId).maybeSingle();
+  if (error) throw error;
+  if (data || !create) return data?.token ?? null;
+
+  const { data: created, error: createError } = await supabase
+    .from("calendar_feed_tokens")
+    .insert({ user_id: userId })
+    .select("token")
+    .single();
+  if (createError) throw createError;
+  return created.token;
+}
+
+// Owners, members, admins and project managers; others must not learn the project's name
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function canAccessProject(supabase: any, userId: string, projectId: string): Promise<boolean> {
+  const [{ data: project }, { data: membership }, { data: roles }] = await Promise.all([
+    supabase.from("projects").select("owner_id").eq("id", projectId).maybeSingle(),
+    supabase.from("project_members").select("user_id").eq("project_id", projectId).eq("user_id", userId).maybeSingle(),
+    supabase.from("user_roles").select("role").eq("user_id", userId).in("role", ["admin", "project_manager"]),
+  ]);
+  if (!project) return false;
+  return project.owner_id === userId || !!membership || (roles || []).length > 0;
+}
+
+const isUuid = (value: string) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
+
+// Constant-time comparison so the signature can't be guessed byte by byte
+function signaturesMatch(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+// ---------------------------------------------------------------------------
+// iCalendar output (RFC 5545)
+// ---------------------------------------------------------------------------
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 characters continue on the next line after a space
+const foldLine = (line: string) => line.match(/.{1,74}/g)?.join("\r\n ") ?? line;
+
+const toIcsDate = (date: string) => date.replace(/-/g, "");
+
+function nextDay(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().split("T")[0];
+}
+
+function buildCalendar(name: string, events: FeedEvent[]): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Project Planner//Task Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+
+  events.forEach((event) => {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(event.date)}`,
+      `DTEND;VALUE=DATE:${toIcsDate(nextDay(event.date))}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `DESCRIPTION:${escapeText(event.description)}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+    );
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// ---------------------------------------------------------------------------
+// Feed contents
+// ---------------------------------------------------------------------------
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function collectEvents(supabase: any, userId: string, projectId: string | null) {
+  const since = new Date(Date.now() - PAST_DAYS * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+
+  // Tasks assigned through task_assignments or the legacy assignee column
+  const [{ data: assignments, error: assignmentError }, { data: memberships }] = await Promise.all([
+    supabase.from("task_assignments").select("task_id").eq("user_id", userId),
+    supabase.from("project_members").select("project_id").eq("user_id", userId),
+  ]);
+  if (assignmentError) throw assignmentError;
+
+  const assignedIds = (assignments || []).map((a: { task_id: string }) => a.task_id);
+  const assigneeFilter = assignedIds.length > 0
+    ? `assignee_user_id.eq.${userId},id.in.(${assignedIds.join(",")})`
+    : `assignee_user_id.eq.${userId}`;
+
+  let taskQuery = supabase
+    .from("tasks")
+    .select("id, title, description, status, status_category, start_date, due_date, progress_percentage, projects (name), elements (title)")
+    .or(assigneeFilter)
+    .gte("due_date", since)
+    .order("due_date");
+  if (projectId) taskQuery = taskQuery.eq("project_id", projectId);
+
+  const { data: tasks, error: taskError } = await taskQuery;
+  if (taskError) throw taskError;
+
+  // Deadlines and milestones of the projects the user owns or is a member of
+  const memberOf = (memberships || []).map((m: { project_id: string }) => m.project_id);
+  let projectQuery = supabase
+    .from("projects")
+    .select("id, name, end_date")
+    .or(memberOf.length > 0 ? `owner_id.eq.${userId},id.in.(${memberOf.join(",")})` : `owner_id.eq.${userId}`);
+  if (projectId) projectQuery = projectQuery.eq("id", projectId);
+  const { data: projects, error: projectError } = await projectQuery;
+  if (projectError) throw projectError;
+
+  const projectIds = (projects || []).map((p: { id: string }) => p.id);
+  const { data: milestones, error: milestoneError } = projectIds.length > 0
+    ? await supabase
+      .from("project_milestones")
+      .select("id, title, description, due_date, completed_at, approval_status, projects (name)")
+      .in("project_id", projectIds)
+      .gte("due_date", since)
+      .order("due_date")
+    : { data: [], error: null };
+  if (milestoneError) throw milestoneError;
+
+  const events: FeedEvent[] = [];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (tasks || []).forEach((task: any) => {
+    const done = task.status_category === "done";
+    const details = [
+      task.projects?.name ? `Project: ${task.projects.name}` : null,
+      task.elements?.title ? `Element: ${task.elements.title}` : null,
+      task.start_date && task.start_date !== task.due_date ? `Starts: ${task.start_date}` : null,
+      `Progress: ${task.progress_percentage ?? 0}%`,
+      task.description || null,
+    ].filter(Boolean);
+
+    events.push({
+      uid: `task-${task.id}@project-planner`,
+      date: task.due_date,
+      summary: `${done ? "✓ " : ""}${task.title}`,
+      description: details.join("\n"),
+    });
+  });
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (projects || []).filter((project: any) => project.end_date && project.end_date >= since).forEach((project: any) => {
+    events.push({
+      uid: `project-${project.id}-deadline@project-planner`,
+      date: project.end_date,
+      summary: `${project.name} deadline`,
+      description: `Project end date for ${project.name}`,
+    });
+  });
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (milestones || []).forEach((milestone: any) => {
+    const details = [
+      milestone.projects?.name ? `Project: ${milestone.projects.name}` : null,
+      milestone.completed_at ? `Completed: ${milestone.completed_at.split("T")[0]} (${milestone.approval_status})` : null,
+      milestone.description || null,
+    ].filter(Boolean);
+
+    events.push({
+      uid: `milestone-${milestone.id}@project-planner`,
+      date: milestone.due_date,
+      summary: `${milestone.completed_at ? "✓ " : "◆ "}${milestone.title}`,
+      description: details.join("\n"),
+    });
+  });
+
+  return events;
+}
+
+serve(async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  // Calendar apps fetch the signed URL
+  if (req.method === "GET") {
+    const url = new URL(req.url);
+    const userId = url.searchParams.get("user");
+    const projectId = url.searchParams.get("project") || null;
+    const signature = url.searchParams.get("sig") || "";
+
+    try {
+      const token = userId && isUuid(userId) && (!projectId || isUuid(projectId))
+        ? await getFeedToken(supabase, userId)
+        : null;
+      if (!userId || !token || !signaturesMatch(signature, await signFeed(userId, projectId, token))) {
+        return new Response("Invalid calendar link", { status: 403, headers: corsHeaders });
+      }
+      // Access may have been removed since the link was made
+      if (projectId && !(await canAccessProject(supabase, userId, projectId))) {
+        return new Response("Invalid calendar link", { status: 403, headers: corsHeaders });
+      }
+
+      const events = await collectEvents(supabase, userId, projectId);
+      let name = "My Tasks";
+      if (projectId) {
+        const { data: project } = await supabase.from("projects").select("name").eq("id", projectId).maybeSingle();
+        name = `${project?.name || "Project"} Tasks`;
+      }
+
+      return new Response(buildCalendar(name, events), {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "text/calendar; charset=utf-8",
+          "Content-Disposition": 'inline; filename="tasks.ics"',
+          "Cache-Control": "private, max-age=900",
+        },
+      });
+    } catch (error) {
+      console.error("Error building calendar feed:", error);
+      return new Response("Calendar unavailable", { status: 500, headers: corsHeaders });
+    }
+  }
+
+  // Signed-in users ask for their subscription URL
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) throw new Error("No authorization header");
+
+    const { data: userData, error: userError } = await supabase.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (userError || !userData.user) throw new Error("Unauthorized");
+    const userId = userData.user.id;
+
+    // `reset` replaces the user's feed token, so links handed out before stop working
+    const { projectId, reset } = await req.json().catch(() => ({}));
+    if (projectId && !(await canAccessProject(supabase, userId, projectId))) {
+      throw new Error("You don't have access to this project");
+    }
+
+    const token = await getFeedToken(supabase, userId, { create: true, rotate: !!reset });
+    const params = new URLSearchParams({ user: userId });
+    if (projectId) params.set("project", projectId);
+    params.set("sig", await signFeed(userId, projectId || null, token!));
+
+    const url = `${supabaseUrl}/functions/v1/calendar-feed?${params.toString()}`;
+    return new Response(JSON.stringify({ url }), {
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+  } catch (error) {
+    console.error("Error creating calendar link:", error);
+    return new Response(JSON.stringify({ error: (error as Error).message }), {
+      status: 400,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+  }
+});
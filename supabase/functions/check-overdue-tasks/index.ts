@@ -125,9 +125,11 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
+    const now = new Date();
+    const todayStr = now.toISOString().split('T')[0];
+
     // Check if today is a reminder day (skip for test)
     if (!isTest) {
-      const now = new Date();
       const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
       const todayDay = dayNames[now.getDay()];
       
@@ -142,8 +144,6 @@ const handler = async (req: Request): Promise<Response> => {
 
     console.log(isTest ? "Running TEST overdue check..." : "Checking for overdue tasks...");
 
-    const todayStr = now.toISOString().split('T')[0];
-
     // Find overdue tasks - only those with an assigned user
     const { data: overdueTasks, error: tasksError } = await supabase
       .from('tasks')
@@ -153,7 +153,7 @@ const handler = async (req: Request): Promise<Response> => {
         departments!tasks_assignee_department_id_fkey(id, name)
       `)
       .lt('due_date', todayStr)
-      .neq('status', 'done')
+      .neq('status_category', 'done')
       .not('assignee_user_id', 'is', null);
 
     if (tasksError) {
@@ -171,6 +171,10 @@ const handler = async (req: Request): Promise<Response> => {
     }
 
     let sentCount = 0;
+    // Whether today is a working day for each project, looked up once per project.
+    // The project calendar falls back to the organisation's, and can make an
+    // organisation holiday a working day, so there is no organisation-wide check.
+    const projectWorkingToday = new Map<string, boolean>();
 
     // Group tasks by assignee to send one consolidated or per-task email
     for (const task of overdueTasks) {
@@ -180,6 +184,14 @@ const handler = async (req: Request): Promise<Response> => {
       const projectName = project?.name || 'Unknown Project';
       const projectId = project?.id || task.project_id;
 
+      if (!isTest) {
+        if (!projectWorkingToday.has(projectId)) {
+          const { data: isWorkingDay } = await supabase.rpc('is_working_day', { _date: todayStr, _project_id: projectId });
+          projectWorkingToday.set(projectId, isWorkingDay !== false);
+        }
+        if (!projectWorkingToday.get(projectId)) continue;
+      }
+
       // Only email the assigned user
       const { data: profile, error: profileError } = await supabase
         .from('profiles')
@@ -51,6 +51,7 @@ interface Task {
   element_id: string | null;
   assignee_department_id: string | null;
   parent_task_id: string | null;
+  assignee_user_id: string | null;
   status: string;
   priority: string;
   labels: string[] | null;
@@ -58,6 +59,27 @@ interface Task {
   due_date: string | null;
   estimated_cost: number | null;
   estimate_hours: number | null;
+  progress_percentage: number | null;
+  completed_at: string | null;
+}
+
+interface TaskAssignment {
+  task_id: string;
+  user_id: string;
+}
+
+interface WorkflowStatus {
+  key: string;
+  label: string;
+  category: string;
+  color: string;
+  position: number;
+  allowed_transitions: string[] | null;
+}
+
+interface ProjectLabel {
+  name: string;
+  color: string;
 }
 
 interface TaskDependency {
@@ -113,15 +135,164 @@ interface Project {
   logo_url: string | null;
 }
 
+// What to bring over besides the project structure
+interface CopyOptions {
+  assignees: boolean;
+  progress: boolean;
+  documents: boolean;
+  chat: boolean;
+}
+
+interface DuplicationCounts {
+  departments: number;
+  elements: number;
+  tasks: number;
+  members: number;
+  assignments: number;
+  folders: number;
+  links: number;
+  chatRooms: number;
+}
+
+const DEFAULT_COPY_OPTIONS: CopyOptions = {
+  assignees: false,
+  progress: false,
+  documents: true,
+  chat: true,
+};
+
+type DateShifter = (date: string | null) => string | null;
+
+// ===== DATE SHIFTING =====
+// Dates are plain yyyy-MM-dd days; working days follow the organisation calendar as in src/lib/workingDays.ts
+
+interface WorkingCalendar {
+  weekendDays: number[];
+  // Dated exceptions: holidays and non-working days are off, half-days and extra working days are on
+  days: Map<string, string>;
+}
+
+const toDay = (date: string) => new Date(`${date.split('T')[0]}T00:00:00Z`);
+const formatDay = (date: Date) => date.toISOString().split('T')[0];
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * 86400000);
+
+const isWorkingDay = (date: Date, calendar: WorkingCalendar) => {
+  const kind = calendar.days.get(formatDay(date));
+  if (kind) return kind === 'working' || kind === 'half_day';
+  return !calendar.weekendDays.includes(date.getUTCDay());
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function loadOrganisationCalendar(supabaseAdmin: any): Promise<WorkingCalendar> {
+  const [{ data: settings }, { data: days }] = await Promise.all([
+    supabaseAdmin.from('working_calendars').select('weekend_days').is('project_id', null).maybeSingle(),
+    supabaseAdmin.from('working_calendar_days').select('date, kind').is('project_id', null),
+  ]);
+  return {
+    weekendDays: settings?.weekend_days ?? [0, 6],
+    days: new Map((days || []).map((d: { date: string; kind: string }) => [d.date, d.kind])),
+  };
+}
+
+const nextWorkingDay = (date: Date, calendar: WorkingCalendar) => {
+  let current = date;
+  for (let i = 0; i < 366 && !isWorkingDay(current, calendar); i++) current = addDays(current, 1);
+  return current;
+};
+
+// Signed number of working days from one day to another
+function workingDayOffset(from: string, to: string, calendar: WorkingCalendar): number {
+  const start = toDay(from);
+  const end = toDay(to);
+  const step = end >= start ? 1 : -1;
+  let count = 0;
+  for (let current = start; current.getTime() !== end.getTime();) {
+    current = addDays(current, step);
+    if (isWorkingDay(current, calendar)) count += step;
+  }
+  return count;
+}
+
+function addWorkingDays(date: string, days: number, calendar: WorkingCalendar): string {
+  let current = nextWorkingDay(toDay(date), calendar);
+  const step = days >= 0 ? 1 : -1;
+  let remaining = Math.abs(days);
+  while (remaining > 0) {
+    current = addDays(current, step);
+    if (isWorkingDay(current, calendar)) remaining--;
+  }
+  return formatDay(current);
+}
+
+// Moves every date by the gap between the old and new project start
+function createDateShifter(oldStart: string, newStart: string | null, calendar: WorkingCalendar | null) {
+  if (!newStart || newStart === oldStart.split('T')[0]) {
+    return { shift: ((date: string | null) => date) as DateShifter, offset: 0 };
+  }
+
+  if (calendar) {
+    // Measured between the first working days on or after each start, so the
+    // old start (which addWorkingDays rolls forward too) lands on the new one
+    const offset = workingDayOffset(
+      formatDay(nextWorkingDay(toDay(oldStart), calendar)),
+      formatDay(nextWorkingDay(toDay(newStart), calendar)),
+      calendar
+    );
+    return {
+      shift: ((date: string | null) => (date ? addWorkingDays(date, offset, calendar) : null)) as DateShifter,
+      offset,
+    };
+  }
+
+  const offset = Math.round((toDay(newStart).getTime() - toDay(oldStart).getTime()) / 86400000);
+  return {
+    shift: ((date: string | null) => (date ? formatDay(addDays(toDay(date), offset)) : null)) as DateShifter,
+    offset,
+  };
+}
+
+// Counts of what the background copy is planned to create, taken before it
+// starts. What it did create is stored in projects.duplication_result.
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function summarizeDuplication(supabaseAdmin: any, projectId: string, options: CopyOptions): Promise<DuplicationCounts> {
+  const count = async (table: string, select = 'id', filter = 'project_id') => {
+    const { count: total } = await supabaseAdmin
+      .from(table)
+      .select(select, { count: 'exact', head: true })
+      .eq(filter, projectId);
+    return total || 0;
+  };
+
+  const [departments, elements, tasks, members, assignments, folders, links, chatRooms] = await Promise.all([
+    count('departments'),
+    count('elements'),
+    count('tasks'),
+    count('project_members'),
+    options.assignees ? count('task_assignments', 'id, tasks!inner(project_id)', 'tasks.project_id') : 0,
+    options.documents ? count('document_folders') : 0,
+    options.documents ? count('document_links') : 0,
+    options.chat ? count('chat_rooms') : 0,
+  ]);
+
+  return { departments, elements, tasks, members, assignments, folders, links, chatRooms };
+}
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 async function performDuplication(
   supabaseAdmin: any,
   projectId: string,
   userId: string,
-  newProjectId: string
+  newProjectId: string,
+  shiftDate: DateShifter,
+  options: CopyOptions
 ) {
   console.log(`Background: Starting duplication for project ${projectId}`);
 
+  // Rows created so far; stored on the new project when the copy ends or stops
+  const copied: DuplicationCounts = {
+    departments: 0, elements: 0, tasks: 0, members: 0, assignments: 0, folders: 0, links: 0, chatRooms: 0,
+  };
+
   try {
     // ===== DUPLICATE DEPARTMENTS =====
     const { data: departmentsData, error: deptError } = await supabaseAdmin
@@ -161,6 +332,7 @@ async function performDuplication(
       if (newDeptError) throw newDeptError;
       const newDept = newDeptData as unknown as { id: string };
       deptIdMap.set(dept.id, newDept.id);
+      copied.departments++;
     }
     console.log(`Background: Duplicated ${deptIdMap.size} departments`);
 
@@ -209,15 +381,54 @@ async function performDuplication(
         .maybeSingle();
 
       if (!existingMember) {
-        await supabaseAdmin.from('project_members').insert({
+        const { error: memberError } = await supabaseAdmin.from('project_members').insert({
           project_id: newProjectId,
           user_id: member.user_id,
           role: member.role,
         });
+        if (!memberError) copied.members++;
       }
     }
     console.log(`Background: Duplicated project members`);
 
+    // ===== DUPLICATE WORKFLOW STATUSES AND LABELS =====
+    // Copied before tasks so their statuses and labels resolve in the new project
+    const { data: statusesData } = await supabaseAdmin
+      .from('project_task_statuses')
+      .select('key, label, category, color, position, allowed_transitions')
+      .eq('project_id', projectId);
+
+    const statuses = (statusesData || []) as unknown as WorkflowStatus[];
+    if (statuses.length > 0) {
+      await supabaseAdmin
+        .from('project_task_statuses')
+        .upsert(statuses.map(s => ({ ...s, project_id: newProjectId })), { onConflict: 'project_id,key', ignoreDuplicates: true });
+    }
+
+    const { data: labelsData } = await supabaseAdmin
+      .from('project_labels')
+      .select('name, color')
+      .eq('project_id', projectId);
+
+    const labels = (labelsData || []) as unknown as ProjectLabel[];
+    for (const label of labels) {
+      const { data: existingLabel } = await supabaseAdmin
+        .from('project_labels')
+        .select('id')
+        .eq('project_id', newProjectId)
+        .eq('name', label.name)
+        .maybeSingle();
+
+      if (!existingLabel) {
+        await supabaseAdmin.from('project_labels').insert({
+          project_id: newProjectId,
+          name: label.name,
+          color: label.color,
+          created_by: userId,
+        });
+      }
+    }
+
     // ===== DUPLICATE ELEMENTS =====
     const { data: elementsData, error: elemError } = await supabaseAdmin
       .from('elements')
@@ -251,8 +462,8 @@ async function performDuplication(
           project_id: newProjectId,
           department_id: element.department_id ? deptIdMap.get(element.department_id) : null,
           priority: element.priority,
-          start_date: element.start_date,
-          due_date: element.due_date,
+          start_date: shiftDate(element.start_date),
+          due_date: shiftDate(element.due_date),
         })
         .select()
         .single();
@@ -260,6 +471,7 @@ async function performDuplication(
       if (newElementError) throw newElementError;
       const newElement = newElementData as unknown as { id: string };
       elementIdMap.set(element.id, newElement.id);
+      copied.elements++;
     }
     console.log(`Background: Duplicated ${elementIdMap.size} elements`);
 
@@ -296,16 +508,18 @@ async function performDuplication(
           project_id: newProjectId,
           element_id: task.element_id ? elementIdMap.get(task.element_id) : null,
           assignee_department_id: task.assignee_department_id ? deptIdMap.get(task.assignee_department_id) : null,
-          status: 'todo',
+          assignee_user_id: options.assignees ? task.assignee_user_id : null,
+          status: options.progress ? task.status : 'todo',
           priority: task.priority,
           labels: task.labels,
-          start_date: task.start_date,
-          due_date: task.due_date,
+          start_date: shiftDate(task.start_date),
+          due_date: shiftDate(task.due_date),
           estimated_cost: task.estimated_cost,
           estimate_hours: task.estimate_hours,
           actual_cost: 0,
           logged_hours: 0,
-          progress_percentage: 0,
+          progress_percentage: options.progress ? task.progress_percentage || 0 : 0,
+          completed_at: options.progress ? task.completed_at : null,
         })
         .select()
         .single();
@@ -313,6 +527,7 @@ async function performDuplication(
       if (newTaskError) throw newTaskError;
       const newTask = newTaskData as unknown as { id: string };
       taskIdMap.set(task.id, newTask.id);
+      copied.tasks++;
     }
 
     // Update parent task references
@@ -327,6 +542,26 @@ async function performDuplication(
     }
     console.log(`Background: Duplicated ${taskIdMap.size} tasks`);
 
+    // ===== DUPLICATE TASK ASSIGNMENTS =====
+    if (options.assignees && taskIdMap.size > 0) {
+      const { data: assignmentsData } = await supabaseAdmin
+        .from('task_assignments')
+        .select('task_id, user_id')
+        .in('task_id', Array.from(taskIdMap.keys()));
+
+      const assignments = ((assignmentsData || []) as unknown as TaskAssignment[])
+        .filter(a => taskIdMap.has(a.task_id))
+        .map(a => ({ task_id: taskIdMap.get(a.task_id), user_id: a.user_id }));
+
+      if (assignments.length > 0) {
+        const { error: assignmentError } = await supabaseAdmin
+          .from('task_assignments')
+          .upsert(assignments, { onConflict: 'task_id,user_id', ignoreDuplicates: true });
+        if (!assignmentError) copied.assignments = assignments.length;
+      }
+      console.log(`Background: Duplicated ${assignments.length} task assignments`);
+    }
+
     // ===== DUPLICATE TASK DEPENDENCIES =====
     if (taskIdMap.size > 0) {
       const { data: depsData } = await supabaseAdmin
@@ -356,164 +591,174 @@ async function performDuplication(
       }
     }
 
-    // ===== DUPLICATE DOCUMENT FOLDERS =====
-    const { data: foldersData } = await supabaseAdmin
-      .from('document_folders')
-      .select('*')
-      .eq('project_id', projectId);
-
-    const folders = (foldersData || []) as unknown as DocumentFolder[];
-    const folderIdMap = new Map<string, string>();
-
-    for (const folder of folders) {
-      const { data: existingFolderData } = await supabaseAdmin
+    // Folders and links only; uploaded files stay with the original project
+    if (options.documents) {
+      // ===== DUPLICATE DOCUMENT FOLDERS =====
+      const { data: foldersData } = await supabaseAdmin
         .from('document_folders')
-        .select('id')
-        .eq('project_id', newProjectId)
-        .eq('name', folder.name)
-        .maybeSingle();
-
-      if (existingFolderData) {
-        const existing = existingFolderData as unknown as { id: string };
-        folderIdMap.set(folder.id, existing.id);
-        continue;
-      }
+        .select('*')
+        .eq('project_id', projectId);
+
+      const folders = (foldersData || []) as unknown as DocumentFolder[];
+      const folderIdMap = new Map<string, string>();
+
+      for (const folder of folders) {
+        const { data: existingFolderData } = await supabaseAdmin
+          .from('document_folders')
+          .select('id')
+          .eq('project_id', newProjectId)
+          .eq('name', folder.name)
+          .maybeSingle();
+
+        if (existingFolderData) {
+          const existing = existingFolderData as unknown as { id: string };
+          folderIdMap.set(folder.id, existing.id);
+          continue;
+        }
 
-      const { data: newFolderData } = await supabaseAdmin
-        .from('document_folders')
-        .insert({
-          name: folder.name,
-          project_id: newProjectId,
-          department_id: folder.department_id ? deptIdMap.get(folder.department_id) : null,
-          created_by: userId,
-        })
-        .select()
-        .single();
+        const { data: newFolderData } = await supabaseAdmin
+          .from('document_folders')
+          .insert({
+            name: folder.name,
+            project_id: newProjectId,
+            department_id: folder.department_id ? deptIdMap.get(folder.department_id) : null,
+            created_by: userId,
+          })
+          .select()
+          .single();
 
-      if (newFolderData) {
-        const newFolder = newFolderData as unknown as { id: string };
-        folderIdMap.set(folder.id, newFolder.id);
+        if (newFolderData) {
+          const newFolder = newFolderData as unknown as { id: string };
+          folderIdMap.set(folder.id, newFolder.id);
+          copied.folders++;
+        }
       }
-    }
 
-    // Update parent folder references
-    for (const folder of folders) {
-      if (folder.parent_folder_id) {
-        const newFolderId = folderIdMap.get(folder.id);
-        const newParentId = folderIdMap.get(folder.parent_folder_id);
-        if (newFolderId && newParentId) {
-          await supabaseAdmin.from('document_folders').update({ parent_folder_id: newParentId }).eq('id', newFolderId);
+      // Update parent folder references
+      for (const folder of folders) {
+        if (folder.parent_folder_id) {
+          const newFolderId = folderIdMap.get(folder.id);
+          const newParentId = folderIdMap.get(folder.parent_folder_id);
+          if (newFolderId && newParentId) {
+            await supabaseAdmin.from('document_folders').update({ parent_folder_id: newParentId }).eq('id', newFolderId);
+          }
         }
       }
-    }
-    console.log(`Background: Duplicated ${folderIdMap.size} folders`);
+      console.log(`Background: Duplicated ${folderIdMap.size} folders`);
 
-    // ===== DUPLICATE DOCUMENT LINKS =====
-    const { data: linksData } = await supabaseAdmin
-      .from('document_links')
-      .select('*')
-      .eq('project_id', projectId);
-
-    const links = (linksData || []) as unknown as DocumentLink[];
-    for (const link of links) {
-      const { data: existingLink } = await supabaseAdmin
+      // ===== DUPLICATE DOCUMENT LINKS =====
+      const { data: linksData } = await supabaseAdmin
         .from('document_links')
-        .select('id')
-        .eq('project_id', newProjectId)
-        .eq('url', link.url)
-        .maybeSingle();
-
-      if (!existingLink) {
-        await supabaseAdmin.from('document_links').insert({
-          title: link.title,
-          url: link.url,
-          description: link.description,
-          project_id: newProjectId,
-          department_id: link.department_id ? deptIdMap.get(link.department_id) : null,
-          folder_id: link.folder_id ? folderIdMap.get(link.folder_id) : null,
-          created_by: userId,
-        });
+        .select('*')
+        .eq('project_id', projectId);
+
+      const links = (linksData || []) as unknown as DocumentLink[];
+      for (const link of links) {
+        const { data: existingLink } = await supabaseAdmin
+          .from('document_links')
+          .select('id')
+          .eq('project_id', newProjectId)
+          .eq('url', link.url)
+          .maybeSingle();
+
+        if (!existingLink) {
+          const { error: linkError } = await supabaseAdmin.from('document_links').insert({
+            title: link.title,
+            url: link.url,
+            description: link.description,
+            project_id: newProjectId,
+            department_id: link.department_id ? deptIdMap.get(link.department_id) : null,
+            folder_id: link.folder_id ? folderIdMap.get(link.folder_id) : null,
+            created_by: userId,
+          });
+          if (!linkError) copied.links++;
+        }
       }
+      console.log(`Background: Duplicated document links`);
     }
-    console.log(`Background: Duplicated document links`);
 
-    // ===== DUPLICATE CHAT SETTINGS =====
-    const { data: settingsData } = await supabaseAdmin
-      .from('chat_settings')
-      .select('*')
-      .eq('project_id', projectId)
-      .maybeSingle();
-
-    if (settingsData) {
-      const settings = settingsData as unknown as ChatSettings;
-      const { data: existingSettings } = await supabaseAdmin
+    // Chat settings and empty rooms; messages are never copied
+    if (options.chat) {
+      // ===== DUPLICATE CHAT SETTINGS =====
+      const { data: settingsData } = await supabaseAdmin
         .from('chat_settings')
-        .select('id')
-        .eq('project_id', newProjectId)
+        .select('*')
+        .eq('project_id', projectId)
         .maybeSingle();
 
-      if (!existingSettings) {
-        await supabaseAdmin.from('chat_settings').insert({
-          project_id: newProjectId,
-          public_chat_enabled: settings.public_chat_enabled,
-          max_file_size_mb: settings.max_file_size_mb,
-          message_retention_days: settings.message_retention_days,
-          notifications_enabled: settings.notifications_enabled,
-          allowed_file_types: settings.allowed_file_types,
-        });
-      }
-    }
+      if (settingsData) {
+        const settings = settingsData as unknown as ChatSettings;
+        const { data: existingSettings } = await supabaseAdmin
+          .from('chat_settings')
+          .select('id')
+          .eq('project_id', newProjectId)
+          .maybeSingle();
 
-    // ===== DUPLICATE CHAT ROOMS =====
-    const { data: roomsData } = await supabaseAdmin
-      .from('chat_rooms')
-      .select('*')
-      .eq('project_id', projectId);
+        if (!existingSettings) {
+          await supabaseAdmin.from('chat_settings').insert({
+            project_id: newProjectId,
+            public_chat_enabled: settings.public_chat_enabled,
+            max_file_size_mb: settings.max_file_size_mb,
+            message_retention_days: settings.message_retention_days,
+            notifications_enabled: settings.notifications_enabled,
+            allowed_file_types: settings.allowed_file_types,
+          });
+        }
+      }
 
-    const rooms = (roomsData || []) as unknown as ChatRoom[];
-    for (const room of rooms) {
-      const { data: existingRoom } = await supabaseAdmin
+      // ===== DUPLICATE CHAT ROOMS =====
+      const { data: roomsData } = await supabaseAdmin
         .from('chat_rooms')
-        .select('id')
-        .eq('project_id', newProjectId)
-        .eq('name', room.name)
-        .maybeSingle();
+        .select('*')
+        .eq('project_id', projectId);
 
-      if (!existingRoom) {
-        const { data: newRoomData } = await supabaseAdmin
+      const rooms = (roomsData || []) as unknown as ChatRoom[];
+      for (const room of rooms) {
+        const { data: existingRoom } = await supabaseAdmin
           .from('chat_rooms')
-          .insert({
-            name: room.name,
-            project_id: newProjectId,
-            room_type: room.room_type,
-            created_by: userId,
-          })
-          .select()
-          .single();
-
-        if (newRoomData) {
-          const newRoom = newRoomData as unknown as { id: string };
-          await supabaseAdmin.from('chat_participants').insert({
-            room_id: newRoom.id,
-            user_id: userId,
-          });
+          .select('id')
+          .eq('project_id', newProjectId)
+          .eq('name', room.name)
+          .maybeSingle();
+
+        if (!existingRoom) {
+          const { data: newRoomData } = await supabaseAdmin
+            .from('chat_rooms')
+            .insert({
+              name: room.name,
+              project_id: newProjectId,
+              room_type: room.room_type,
+              created_by: userId,
+            })
+            .select()
+            .single();
+
+          if (newRoomData) {
+            copied.chatRooms++;
+            const newRoom = newRoomData as unknown as { id: string };
+            await supabaseAdmin.from('chat_participants').insert({
+              room_id: newRoom.id,
+              user_id: userId,
+            });
+          }
         }
       }
+      console.log(`Background: Duplicated chat rooms`);
     }
-    console.log(`Background: Duplicated chat rooms`);
 
     // Update project status to indicate duplication is complete
     await supabaseAdmin
       .from('projects')
-      .update({ status: 'active' })
+      .update({ status: 'active', duplication_result: { ...copied, error: null } })
       .eq('id', newProjectId);
 
     console.log(`Background: Duplication completed for project ${newProjectId}`);
   } catch (error) {
     console.error('Background: Error during duplication:', error);
+    const message = error instanceof Error ? error.message : (error as { message?: string })?.message || 'Unknown error';
     await supabaseAdmin
       .from('projects')
-      .update({ status: 'error' })
+      .update({ status: 'error', duplication_result: { ...copied, error: message } })
       .eq('id', newProjectId);
   }
 }
@@ -542,12 +787,18 @@ Deno.serve(async (req) => {
     }
 
     const user = userData.user;
-    const { projectId, newProjectName } = await req.json();
+    const { projectId, newProjectName, newStartDate, shiftInWorkingDays, copy } = await req.json();
 
     if (!projectId || !newProjectName) {
       throw new Error('Missing required parameters');
     }
 
+    if (newStartDate && !/^\d{4}-\d{2}-\d{2}$/.test(newStartDate)) {
+      throw new Error('New start date must be a yyyy-MM-dd date');
+    }
+
+    const options: CopyOptions = { ...DEFAULT_COPY_OPTIONS, ...(copy || {}) };
+
     console.log(`Starting duplication for project ${projectId} with name: ${newProjectName}`);
 
     // Get the original project
@@ -572,6 +823,12 @@ Deno.serve(async (req) => {
       throw new Error(`A project with the name "${newProjectName}" already exists`);
     }
 
+    const { shift: shiftDate, offset } = createDateShifter(
+      originalProject.start_date,
+      newStartDate || null,
+      shiftInWorkingDays && newStartDate ? await loadOrganisationCalendar(supabaseAdmin) : null
+    );
+
     // Create the new project immediately with 'duplicating' status
     const { data: newProjectData, error: newProjectError } = await supabaseAdmin
       .from('projects')
@@ -579,8 +836,9 @@ Deno.serve(async (req) => {
         name: newProjectName,
         description: originalProject.description,
         status: 'duplicating',
-        start_date: originalProject.start_date,
-        end_date: originalProject.end_date,
+        // The chosen date as is; a non-working start would otherwise roll forward
+        start_date: newStartDate || originalProject.start_date,
+        end_date: shiftDate(originalProject.end_date),
         owner_id: user.id,
         theme_colors: originalProject.theme_colors,
         logo_url: originalProject.logo_url,
@@ -591,11 +849,13 @@ Deno.serve(async (req) => {
     if (newProjectError) throw newProjectError;
     const newProject = newProjectData as unknown as Project;
 
+    const summary = await summarizeDuplication(supabaseAdmin, projectId, options);
+
     console.log(`Created project shell: ${newProject.id}, starting background duplication`);
 
     // Start background duplication
     EdgeRuntime.waitUntil(
-      performDuplication(supabaseAdmin, projectId, user.id, newProject.id)
+      performDuplication(supabaseAdmin, projectId, user.id, newProject.id, shiftDate, options)
     );
 
     // Return immediately
@@ -605,6 +865,13 @@ Deno.serve(async (req) => {
         newProjectId: newProject.id,
         message: 'Project duplication started. The project will appear shortly.',
         status: 'duplicating',
+        summary: {
+          ...summary,
+          startDate: newProject.start_date,
+          dateShift: offset,
+          shiftUnit: shiftInWorkingDays ? 'working_days' : 'days',
+          copied: options,
+        },
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -0,0 +1,85 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Safety net so a rule with a far-past template can't create unbounded tasks in one run
+const MAX_TASKS_PER_SERIES = 60;
+
+serve(async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Today in EAT (Africa/Nairobi is UTC+3)
+    const eatTime = new Date(Date.now() + 3 * 60 * 60 * 1000);
+    const today = eatTime.toISOString().split("T")[0];
+
+    console.log(`Generating scheduled recurring tasks up to ${today} (EAT)`);
+
+    const { data: series, error: seriesError } = await supabase
+      .from("task_recurrences")
+      .select("id")
+      .eq("generate_on", "schedule")
+      .or(`ends_on.is.null,ends_on.gte.${today}`);
+
+    if (seriesError) {
+      throw new Error(`Failed to fetch recurrences: ${seriesError.message}`);
+    }
+
+    if (!series?.length) {
+      console.log("No scheduled recurring tasks found");
+      return new Response(JSON.stringify({ message: "No recurring tasks to generate" }), {
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      });
+    }
+
+    // Each call creates the occurrence after the newest task, so keep going until
+    // the series has caught up with today
+    const results = [];
+    for (const { id } of series) {
+      let created = 0;
+      try {
+        while (created < MAX_TASKS_PER_SERIES) {
+          const { data: taskId, error } = await supabase.rpc("generate_next_recurring_task", {
+            _recurrence_id: id,
+            _until: today,
+          });
+          if (error) throw error;
+          if (!taskId) break;
+          created++;
+        }
+        results.push({ recurrenceId: id, success: true, created });
+      } catch (error) {
+        console.error(`Failed to generate tasks for recurrence ${id}:`, error);
+        results.push({ recurrenceId: id, success: false, created, error: (error as Error).message });
+      }
+    }
+
+    const createdCount = results.reduce((sum, r) => sum + r.created, 0);
+    console.log(`Created ${createdCount} tasks across ${results.length} recurring series`);
+
+    return new Response(
+      JSON.stringify({
+        message: `Processed ${results.length} recurring series`,
+        created: createdCount,
+        results,
+      }),
+      { headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error("Error generating recurring tasks:", error);
+    return new Response(
+      JSON.stringify({ error: (error as Error).message }),
+      { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
+});
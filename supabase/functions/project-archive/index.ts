@@ -0,0 +1,471 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const ARCHIVE_FORMAT = "project-archive";
+const ARCHIVE_VERSION = 1;
+
+type ColumnType = "text" | "number" | "boolean" | "date" | "timestamp" | "uuid" | "text[]" | "json";
+type ColumnSchema = Record<string, ColumnType>;
+
+// Columns carried in the archive for each record. Ids are kept so records can
+// refer to each other; they are replaced with fresh ids on import. Imports
+// accept exactly these columns, since they are written with the service role.
+const PROJECT_SCHEMA: ColumnSchema = {
+  name: "text", description: "text", status: "text", start_date: "date", end_date: "date",
+  theme_colors: "json", logo_url: "text", project_category: "text", client_name: "text",
+};
+const DEPARTMENT_SCHEMA: ColumnSchema = { id: "uuid", name: "text", description: "text" };
+const ELEMENT_SCHEMA: ColumnSchema = {
+  id: "uuid", title: "text", description: "text", department_id: "uuid", priority: "text", start_date: "date", due_date: "date",
+};
+const TASK_SCHEMA: ColumnSchema = {
+  id: "uuid", title: "text", description: "text", element_id: "uuid", assignee_department_id: "uuid",
+  assignee_user_id: "uuid", parent_task_id: "uuid", status: "text", priority: "text", labels: "text[]",
+  start_date: "date", due_date: "date", completed_at: "timestamp", progress_percentage: "number",
+  estimate_hours: "number", logged_hours: "number", estimated_cost: "number", actual_cost: "number",
+};
+const STATUS_SCHEMA: ColumnSchema = {
+  key: "text", label: "text", category: "text", color: "text", position: "number", allowed_transitions: "text[]",
+};
+const REPORT_SETTINGS_SCHEMA: ColumnSchema = {
+  enabled: "boolean", frequency: "text", send_time: "text", timezone: "text",
+  include_department_summary: "boolean", include_smart_insights: "boolean", include_user_activity: "boolean",
+};
+const USER_SCHEMA: ColumnSchema = { id: "uuid", email: "text", full_name: "text" };
+const MEMBER_SCHEMA: ColumnSchema = { user_id: "uuid", role: "text" };
+const LEAD_SCHEMA: ColumnSchema = { department_id: "uuid", user_id: "uuid" };
+const LABEL_SCHEMA: ColumnSchema = { name: "text", color: "text" };
+const ASSIGNMENT_SCHEMA: ColumnSchema = { task_id: "uuid", user_id: "uuid" };
+const DEPENDENCY_SCHEMA: ColumnSchema = { task_id: "uuid", depends_on_task_id: "uuid" };
+const FOLDER_SCHEMA: ColumnSchema = { id: "uuid", name: "text", department_id: "uuid", parent_folder_id: "uuid" };
+const LINK_SCHEMA: ColumnSchema = { title: "text", url: "text", description: "text", department_id: "uuid", folder_id: "uuid" };
+
+const columns = (schema: ColumnSchema) => Object.keys(schema).join(", ");
+const PROJECT_COLUMNS = columns(PROJECT_SCHEMA);
+const DEPARTMENT_COLUMNS = columns(DEPARTMENT_SCHEMA);
+const ELEMENT_COLUMNS = columns(ELEMENT_SCHEMA);
+const TASK_COLUMNS = columns(TASK_SCHEMA);
+const STATUS_COLUMNS = columns(STATUS_SCHEMA);
+const REPORT_SETTINGS_COLUMNS = columns(REPORT_SETTINGS_SCHEMA);
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Row = Record<string, any>;
+
+interface ProjectArchive {
+  format: string;
+  version: number;
+  exported_at: string;
+  project: Row;
+  /** Everyone referenced by the project, matched by email on import */
+  users: { id: string; email: string | null; full_name: string | null }[];
+  members: { user_id: string; role: string }[];
+  departments: Row[];
+  department_leads: { department_id: string; user_id: string }[];
+  elements: Row[];
+  workflow_statuses: Row[];
+  labels: { name: string; color: string }[];
+  tasks: Row[];
+  task_assignments: { task_id: string; user_id: string }[];
+  task_dependencies: { task_id: string; depends_on_task_id: string }[];
+  folders: { id: string; name: string; department_id: string | null; parent_folder_id: string | null }[];
+  links: { title: string; url: string; description: string | null; department_id: string | null; folder_id: string | null }[];
+  report_settings: Row | null;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+// Parents must be inserted before their children
+function parentsFirst<T extends Row>(rows: T[], parentKey: string): T[] {
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  const depth = (row: T, seen = new Set<string>()): number => {
+    const parent = row[parentKey];
+    if (!parent || !byId.has(parent) || seen.has(row.id)) return 0;
+    seen.add(row.id);
+    return 1 + depth(byId.get(parent)!, seen);
+  };
+  return [...rows].sort((a, b) => depth(a) - depth(b));
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function exportProject(supabase: any, projectId: string): Promise<ProjectArchive> {
+  const { data: project, error: projectError } = await supabase
+    .from("projects")
+    .select(PROJECT_COLUMNS)
+    .eq("id", projectId)
+    .single();
+
+  if (projectError) throw new Error(`Project not found: ${projectError.message}`);
+
+  const [departments, elements, tasks, members, statuses, labels, folders, links, reportSettings] = await Promise.all([
+    supabase.from("departments").select(DEPARTMENT_COLUMNS).eq("project_id", projectId),
+    supabase.from("elements").select(ELEMENT_COLUMNS).eq("project_id", projectId),
+    supabase.from("tasks").select(TASK_COLUMNS).eq("project_id", projectId),
+    supabase.from("project_members").select("user_id, role").eq("project_id", projectId),
+    supabase.from("project_task_statuses").select(STATUS_COLUMNS).eq("project_id", projectId).order("position"),
+    supabase.from("project_labels").select(columns(LABEL_SCHEMA)).eq("project_id", projectId),
+    supabase.from("document_folders").select(columns(FOLDER_SCHEMA)).eq("project_id", projectId),
+    supabase.from("document_links").select(columns(LINK_SCHEMA)).eq("project_id", projectId),
+    supabase.from("project_report_settings").select(REPORT_SETTINGS_COLUMNS).eq("project_id", projectId).maybeSingle(),
+  ]);
+
+  for (const result of [departments, elements, tasks, members, statuses, labels, folders, links, reportSettings]) {
+    if (result.error) throw new Error(result.error.message);
+  }
+
+  const taskIds = (tasks.data || []).map((t: Row) => t.id);
+  const departmentIds = (departments.data || []).map((d: Row) => d.id);
+
+  const [assignments, dependencies, leads] = await Promise.all([
+    taskIds.length > 0
+      ? supabase.from("task_assignments").select("task_id, user_id").in("task_id", taskIds)
+      : { data: [], error: null },
+    taskIds.length > 0
+      ? supabase.from("task_dependencies").select("task_id, depends_on_task_id").in("task_id", taskIds)
+      : { data: [], error: null },
+    departmentIds.length > 0
+      ? supabase.from("department_leads").select("department_id, user_id").in("department_id", departmentIds)
+      : { data: [], error: null },
+  ]);
+
+  for (const result of [assignments, dependencies, leads]) {
+    if (result.error) throw new Error(result.error.message);
+  }
+
+  const userIds = new Set<string>([
+    ...(members.data || []).map((m: Row) => m.user_id),
+    ...(assignments.data || []).map((a: Row) => a.user_id),
+    ...(leads.data || []).map((l: Row) => l.user_id),
+    ...(tasks.data || []).map((t: Row) => t.assignee_user_id).filter(Boolean),
+  ]);
+
+  const { data: profiles, error: profilesError } = userIds.size > 0
+    ? await supabase.from("profiles").select("id, email, full_name").in("id", Array.from(userIds))
+    : { data: [], error: null };
+
+  if (profilesError) throw new Error(profilesError.message);
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exported_at: new Date().toISOString(),
+    project,
+    users: profiles || [],
+    members: members.data || [],
+    departments: departments.data || [],
+    department_leads: leads.data || [],
+    elements: elements.data || [],
+    workflow_statuses: statuses.data || [],
+    labels: labels.data || [],
+    tasks: tasks.data || [],
+    task_assignments: assignments.data || [],
+    task_dependencies: dependencies.data || [],
+    folders: folders.data || [],
+    links: links.data || [],
+    report_settings: reportSettings.data || null,
+  };
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+function matchesType(value: unknown, type: ColumnType): boolean {
+  switch (type) {
+    case "text":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "date":
+    case "timestamp":
+      return typeof value === "string" && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+    case "uuid":
+      return typeof value === "string" && UUID_PATTERN.test(value);
+    case "text[]":
+      return Array.isArray(value) && value.every((item) => typeof item === "string");
+    case "json":
+      return typeof value === "object";
+  }
+}
+
+/**
+ * Copy of an archived record with only the schema's columns, each checked
+ * against its type. Unknown fields are rejected rather than dropped.
+ */
+function pickColumns(row: unknown, schema: ColumnSchema, record: string, required: string[] = []): Row {
+  if (!row || typeof row !== "object" || Array.isArray(row)) {
+    throw new Error(`The archive has an invalid ${record}`);
+  }
+  const unknown = Object.keys(row).find((key) => !(key in schema));
+  if (unknown) throw new Error(`Unexpected field "${unknown}" on ${record} in the archive`);
+
+  const picked: Row = {};
+  for (const [column, type] of Object.entries(schema)) {
+    const value = (row as Row)[column];
+    if (value === undefined || value === null) {
+      if (required.includes(column)) throw new Error(`A ${record} in the archive has no ${column}`);
+      if (value === null) picked[column] = null;
+      continue;
+    }
+    if (!matchesType(value, type)) throw new Error(`Invalid ${column} on ${record} in the archive`);
+    picked[column] = value;
+  }
+  return picked;
+}
+
+function pickRows(rows: unknown, schema: ColumnSchema, record: string, required: string[] = []): Row[] {
+  if (rows === undefined || rows === null) return [];
+  if (!Array.isArray(rows)) throw new Error(`The archive's ${record} list is invalid`);
+  return rows.map((row) => pickColumns(row, schema, record, required));
+}
+
+const ARCHIVE_KEYS = [
+  "format", "version", "exported_at", "project", "users", "members", "departments", "department_leads", "elements",
+  "workflow_statuses", "labels", "tasks", "task_assignments", "task_dependencies", "folders", "links", "report_settings",
+];
+
+/** Checks an uploaded archive and returns a copy holding only known, well-typed columns */
+function validateArchive(archive: ProjectArchive): ProjectArchive {
+  if (!archive || typeof archive !== "object" || archive.format !== ARCHIVE_FORMAT) {
+    throw new Error("This file is not a project archive");
+  }
+  if (typeof archive.version !== "number" || archive.version > ARCHIVE_VERSION) {
+    throw new Error(`Archive version ${archive.version} is newer than this environment supports (${ARCHIVE_VERSION})`);
+  }
+  const unknown = Object.keys(archive).find((key) => !ARCHIVE_KEYS.includes(key));
+  if (unknown) throw new Error(`Unexpected section "${unknown}" in the archive`);
+  if (!archive.project?.name || !archive.project?.start_date) {
+    throw new Error("The archive has no project details");
+  }
+
+  return {
+    format: archive.format,
+    version: archive.version,
+    exported_at: archive.exported_at,
+    project: pickColumns(archive.project, PROJECT_SCHEMA, "project", ["name", "start_date"]),
+    users: pickRows(archive.users, USER_SCHEMA, "user", ["id"]) as ProjectArchive["users"],
+    members: pickRows(archive.members, MEMBER_SCHEMA, "member", ["user_id"]) as ProjectArchive["members"],
+    departments: pickRows(archive.departments, DEPARTMENT_SCHEMA, "department", ["id", "name"]),
+    department_leads: pickRows(archive.department_leads, LEAD_SCHEMA, "department lead", ["department_id", "user_id"]) as ProjectArchive["department_leads"],
+    elements: pickRows(archive.elements, ELEMENT_SCHEMA, "element", ["id", "title"]),
+    workflow_statuses: pickRows(archive.workflow_statuses, STATUS_SCHEMA, "workflow status", ["key", "label", "category"]),
+    labels: pickRows(archive.labels, LABEL_SCHEMA, "label", ["name", "color"]) as ProjectArchive["labels"],
+    tasks: pickRows(archive.tasks, TASK_SCHEMA, "task", ["id", "title"]),
+    task_assignments: pickRows(archive.task_assignments, ASSIGNMENT_SCHEMA, "task assignment", ["task_id", "user_id"]) as ProjectArchive["task_assignments"],
+    task_dependencies: pickRows(archive.task_dependencies, DEPENDENCY_SCHEMA, "task dependency", ["task_id", "depends_on_task_id"]) as ProjectArchive["task_dependencies"],
+    folders: pickRows(archive.folders, FOLDER_SCHEMA, "folder", ["id", "name"]) as ProjectArchive["folders"],
+    links: pickRows(archive.links, LINK_SCHEMA, "link", ["title", "url"]) as ProjectArchive["links"],
+    report_settings: archive.report_settings ? pickColumns(archive.report_settings, REPORT_SETTINGS_SCHEMA, "report settings") : null,
+  };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function importProject(supabase: any, upload: ProjectArchive, userId: string, projectName?: string) {
+  const archive = validateArchive(upload);
+
+  const name = (typeof projectName === "string" && projectName.trim() ? projectName : archive.project.name).trim();
+  const { data: existing } = await supabase
+    .from("projects")
+    .select("id")
+    .eq("name", name)
+    .eq("owner_id", userId)
+    .maybeSingle();
+
+  if (existing) throw new Error(`A project with the name "${name}" already exists`);
+
+  // Users are matched by email, since ids differ between environments
+  const emails = archive.users.map((u) => u.email).filter(Boolean) as string[];
+  const { data: localProfiles, error: profilesError } = emails.length > 0
+    ? await supabase.from("profiles").select("id, email").in("email", emails)
+    : { data: [], error: null };
+
+  if (profilesError) throw new Error(profilesError.message);
+
+  const userIdMap = new Map<string, string>();
+  const unmatchedUsers: string[] = [];
+  for (const user of archive.users) {
+    const local = (localProfiles || []).find((p: Row) => p.email?.toLowerCase() === user.email?.toLowerCase());
+    if (local) userIdMap.set(user.id, local.id);
+    else unmatchedUsers.push(user.email || user.full_name || user.id);
+  }
+
+  const { data: project, error: projectError } = await supabase
+    .from("projects")
+    .insert({ ...archive.project, name, owner_id: userId })
+    .select("id")
+    .single();
+
+  if (projectError) throw new Error(projectError.message);
+  const projectId = project.id as string;
+
+  const newId = () => crypto.randomUUID();
+  const remap = (ids: Map<string, string>, id: string | null) => (id ? ids.get(id) || null : null);
+  const insert = async (table: string, rows: Row[], options?: { onConflict: string }) => {
+    if (rows.length === 0) return;
+    const { error } = options
+      ? await supabase.from(table).upsert(rows, { ...options, ignoreDuplicates: true })
+      : await supabase.from(table).insert(rows);
+    if (error) throw new Error(`${table}: ${error.message}`);
+  };
+
+  const members = archive.members
+    .filter((m) => userIdMap.has(m.user_id))
+    .map((m) => ({ project_id: projectId, user_id: userIdMap.get(m.user_id), role: m.role }));
+  if (!members.some((m) => m.user_id === userId)) {
+    members.push({ project_id: projectId, user_id: userId, role: "owner" });
+  }
+
+  try {
+    // ===== MEMBERS =====
+    await insert("project_members", members, { onConflict: "project_id,user_id" });
+
+    // ===== WORKFLOW AND LABELS =====
+    await insert("project_task_statuses", archive.workflow_statuses.map((s) => ({ ...s, project_id: projectId })));
+    await insert("project_labels", archive.labels.map((l) => ({ ...l, project_id: projectId, created_by: userId })));
+
+    // ===== DEPARTMENTS =====
+    const deptIdMap = new Map(archive.departments.map((d) => [d.id, newId()]));
+    await insert("departments", archive.departments.map((d) => ({
+      ...d,
+      id: deptIdMap.get(d.id),
+      project_id: projectId,
+    })));
+
+    await insert("department_leads", archive.department_leads
+      .filter((l) => deptIdMap.has(l.department_id) && userIdMap.has(l.user_id))
+      .map((l) => ({
+        department_id: deptIdMap.get(l.department_id),
+        user_id: userIdMap.get(l.user_id),
+        assigned_by: userId,
+      })));
+
+    // ===== ELEMENTS =====
+    const elementIdMap = new Map(archive.elements.map((e) => [e.id, newId()]));
+    await insert("elements", archive.elements.map((e) => ({
+      ...e,
+      id: elementIdMap.get(e.id),
+      project_id: projectId,
+      department_id: remap(deptIdMap, e.department_id),
+    })));
+
+    // ===== TASKS =====
+    const taskIdMap = new Map(archive.tasks.map((t) => [t.id, newId()]));
+    await insert("tasks", parentsFirst(archive.tasks, "parent_task_id").map((t) => ({
+      ...t,
+      id: taskIdMap.get(t.id),
+      project_id: projectId,
+      element_id: remap(elementIdMap, t.element_id),
+      assignee_department_id: remap(deptIdMap, t.assignee_department_id),
+      assignee_user_id: remap(userIdMap, t.assignee_user_id),
+      parent_task_id: remap(taskIdMap, t.parent_task_id),
+    })));
+
+    await insert("task_assignments", archive.task_assignments
+      .filter((a) => taskIdMap.has(a.task_id) && userIdMap.has(a.user_id))
+      .map((a) => ({ task_id: taskIdMap.get(a.task_id), user_id: userIdMap.get(a.user_id) })),
+      { onConflict: "task_id,user_id" });
+
+    await insert("task_dependencies", archive.task_dependencies
+      .filter((d) => taskIdMap.has(d.task_id) && taskIdMap.has(d.depends_on_task_id))
+      .map((d) => ({ task_id: taskIdMap.get(d.task_id), depends_on_task_id: taskIdMap.get(d.depends_on_task_id) })));
+
+    // ===== DOCUMENTS =====
+    const folderIdMap = new Map(archive.folders.map((f) => [f.id, newId()]));
+    await insert("document_folders", parentsFirst(archive.folders, "parent_folder_id").map((f) => ({
+      id: folderIdMap.get(f.id),
+      name: f.name,
+      project_id: projectId,
+      department_id: remap(deptIdMap, f.department_id),
+      parent_folder_id: remap(folderIdMap, f.parent_folder_id),
+      created_by: userId,
+    })));
+
+    await insert("document_links", archive.links.map((l) => ({
+      ...l,
+      project_id: projectId,
+      department_id: remap(deptIdMap, l.department_id),
+      folder_id: remap(folderIdMap, l.folder_id),
+      created_by: userId,
+    })));
+
+    // ===== REPORT SETTINGS =====
+    if (archive.report_settings) {
+      await insert("project_report_settings", [{ ...archive.report_settings, project_id: projectId, created_by: userId }]);
+    }
+  } catch (error) {
+    // Don't leave a half-imported project behind
+    await supabase.from("projects").delete().eq("id", projectId);
+    throw error;
+  }
+
+  return {
+    projectId,
+    summary: {
+      departments: archive.departments.length,
+      elements: archive.elements.length,
+      tasks: archive.tasks.length,
+      dependencies: archive.task_dependencies.length,
+      folders: archive.folders.length,
+      links: archive.links.length,
+      members: members.length,
+      unmatchedUsers,
+    },
+  };
+}
+
+serve(async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) throw new Error("No authorization header");
+
+    const { data: userData, error: userError } = await supabase.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (userError || !userData.user) throw new Error("Unauthorized");
+    const userId = userData.user.id;
+
+    // Archives contain every record of a project, so only managers may move them
+    const [{ data: isAdmin }, { data: isProjectManager }] = await Promise.all([
+      supabase.rpc("has_role", { _user_id: userId, _role: "admin" }),
+      supabase.rpc("has_role", { _user_id: userId, _role: "project_manager" }),
+    ]);
+    if (!isAdmin && !isProjectManager) {
+      throw new Error("Only admins and project managers can export or import projects");
+    }
+
+    const { action, projectId, archive, projectName } = await req.json();
+
+    if (action === "export") {
+      if (!projectId) throw new Error("Missing projectId");
+      console.log(`Exporting project ${projectId}`);
+      return jsonResponse(await exportProject(supabase, projectId));
+    }
+
+    if (action === "import") {
+      console.log(`Importing archived project "${archive?.project?.name}"`);
+      const result = await importProject(supabase, archive, userId, projectName);
+      console.log(`Imported project ${result.projectId}`);
+      return jsonResponse({ success: true, ...result });
+    }
+
+    throw new Error(`Unknown action "${action}"`);
+  } catch (error) {
+    console.error("Error in project-archive:", error);
+    return jsonResponse({ error: (error as Error).message }, 400);
+  }
+});
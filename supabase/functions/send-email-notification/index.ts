@@ -34,8 +34,8 @@ const corsHeaders = {
 };
 
 interface EmailNotificationRequest {
-  type: 'chat_message' | 'task_overdue' | 'task_completed' | 'document_access_granted' | 'external_user_activity';
-  data: ChatMessageData | TaskOverdueData | TaskCompletedData | DocumentAccessData | ExternalUserActivityData;
+  type: 'chat_message' | 'task_overdue' | 'task_completed' | 'task_mention' | 'document_access_granted' | 'external_user_activity';
+  data: ChatMessageData | TaskOverdueData | TaskCompletedData | TaskMentionData | DocumentAccessData | ExternalUserActivityData;
 }
 
 interface DocumentAccessData {
@@ -93,6 +93,16 @@ interface TaskCompletedData {
   task_creator_id?: string;
 }
 
+interface TaskMentionData {
+  task_id: string;
+  task_name: string;
+  project_id: string;
+  project_name: string;
+  mentioned_by_name: string;
+  comment_preview: string;
+  mentioned_user_ids: string[];
+}
+
 const getBaseUrl = () => {
   // Use the production domain
   return "https://projects.cioafrica.co";
@@ -350,6 +360,46 @@ const handler = async (req: Request): Promise<Response> => {
           `This notification is from ${taskData.project_name} on CIO Africa Project Planner`
         );
 
+        emails.push({ to: profile.email, subject, html });
+      }
+    } else if (type === 'task_mention') {
+      const mentionData = data as TaskMentionData;
+      const ctaLink = `${baseUrl}/projects/${mentionData.project_id}`;
+      const subject = `💬 ${mentionData.mentioned_by_name} mentioned you on ${mentionData.task_name} in ${mentionData.project_name}`;
+      const commentPreview = truncateMessage(mentionData.comment_preview, 4);
+
+      const uniqueRecipientIds = [...new Set(mentionData.mentioned_user_ids.filter(Boolean))];
+
+      const { data: profiles, error: profileError } = await supabase
+        .from('profiles')
+        .select('id, email, full_name')
+        .in('id', uniqueRecipientIds);
+
+      if (profileError) {
+        console.error('Error fetching profiles:', profileError);
+        throw profileError;
+      }
+
+      for (const profile of profiles || []) {
+        if (!profile.email) continue;
+
+        const body = `
+          <p style="margin: 0 0 12px; color: #334155; font-size: 14px;">
+            <strong>${mentionData.mentioned_by_name}</strong> mentioned you in a comment on <strong>${mentionData.task_name}</strong>:
+          </p>
+          <div class="message">
+            <p>${commentPreview}</p>
+          </div>
+        `;
+
+        const html = generateEmailHtml(
+          '💬 You were mentioned',
+          body,
+          'View in Project Planner',
+          ctaLink,
+          `This notification is from ${mentionData.project_name} on CIO Africa Project Planner`
+        );
+
         emails.push({ to: profile.email, subject, html });
       }
     } else if (type === 'document_access_granted') {
@@ -537,7 +587,7 @@ const handler = async (req: Request): Promise<Response> => {
     }
 
     // Create in-app notifications
-    const notifications: { user_id: string; title: string; message: string; type: string }[] = [];
+    const notifications: { user_id: string; title: string; message: string; type: string; related_task_id?: string }[] = [];
 
     if (type === 'chat_message') {
       const chatData = data as ChatMessageData;
@@ -592,6 +642,18 @@ const handler = async (req: Request): Promise<Response> => {
           type: 'task_completed',
         });
       }
+    } else if (type === 'task_mention') {
+      const mentionData = data as TaskMentionData;
+
+      for (const userId of [...new Set(mentionData.mentioned_user_ids.filter(Boolean))]) {
+        notifications.push({
+          user_id: userId,
+          title: `💬 You were mentioned`,
+          message: `${mentionData.mentioned_by_name} mentioned you on "${mentionData.task_name}": ${truncateMessage(mentionData.comment_preview, 1)}`,
+          type: 'task_mention',
+          related_task_id: mentionData.task_id,
+        });
+      }
     } else if (type === 'document_access_granted') {
       const accessData = data as DocumentAccessData;
       const itemTypeLabel = accessData.item_type === 'document' ? 'File' : 
@@ -1,6 +1,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
 import { Resend } from "npm:resend@2.0.0";
+import { lastWorkingDay, loadWorkingCalendar } from "../_shared/workingCalendar.ts";
+import { computeEarnedValue, getEarnedValueTasks, groupEarnedValue } from "../_shared/earnedValue.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -46,7 +48,7 @@ serve(async (req: Request): Promise<Response> => {
     // Fetch tasks
     const { data: tasks } = await supabase
       .from("tasks")
-      .select("id, title, status, due_date, completed_at, assignee_department_id")
+      .select("id, title, status, status_category, start_date, due_date, completed_at, assignee_department_id, element_id, parent_task_id, progress_percentage, estimated_cost, actual_cost")
       .eq("project_id", projectId);
 
     // Fetch departments
@@ -55,16 +57,36 @@ serve(async (req: Request): Promise<Response> => {
       .select("id, name")
       .eq("project_id", projectId);
 
+    // Fetch elements
+    const { data: elements } = await supabase
+      .from("elements")
+      .select("id, title")
+      .eq("project_id", projectId)
+      .order("created_at");
+
+    // Fetch milestones with the tasks they depend on
+    const { data: milestones } = await supabase
+      .from("project_milestones")
+      .select("title, due_date, completed_at, approval_status, milestone_tasks(task_id)")
+      .eq("project_id", projectId)
+      .order("due_date");
+
     // Calculate stats
     const today = new Date();
     const todayStr = today.toISOString().split("T")[0];
     const taskList = tasks || [];
+    // Durations and lateness follow the project's working calendar
+    const calendar = await loadWorkingCalendar(supabase, projectId);
+    const overdueCutoff = lastWorkingDay(todayStr, calendar);
+    const isOverdue = (t: typeof taskList[number]) =>
+      t.status_category !== "done" && !!t.due_date && t.due_date.split("T")[0] < overdueCutoff;
     
     const total = taskList.length;
-    const completed = taskList.filter(t => t.status === "done").length;
-    const inProgress = taskList.filter(t => t.status === "in_progress").length;
-    const todo = taskList.filter(t => t.status === "todo").length;
-    const overdue = taskList.filter(t => t.status !== "done" && t.due_date && t.due_date < todayStr).length;
+    // Custom workflow statuses are counted by their category
+    const completed = taskList.filter(t => t.status_category === "done").length;
+    const inProgress = taskList.filter(t => t.status_category === "in_progress").length;
+    const todo = taskList.filter(t => t.status_category === "todo").length;
+    const overdue = taskList.filter(isOverdue).length;
     const completedToday = taskList.filter(t => t.completed_at?.startsWith(todayStr)).length;
     const completion = total > 0 ? Math.round((completed / total) * 100) : 0;
 
@@ -74,17 +96,114 @@ serve(async (req: Request): Promise<Response> => {
     if (overdueRate > 0.3) health = { icon: "🔴", label: "At Risk", color: "#ef4444" };
     else if (overdueRate > 0.1) health = { icon: "🟠", label: "Needs Attention", color: "#f97316" };
 
+    // Today's change history, recorded by the task_activity triggers
+    const { data: activity } = await supabase
+      .from("task_activity")
+      .select("task_id, user_id, activity_type, field, old_value, new_value, created_at")
+      .eq("project_id", projectId)
+      .neq("activity_type", "created")
+      .gte("created_at", `${todayStr}T00:00:00Z`)
+      .order("created_at", { ascending: true });
+
+    const activityList = activity || [];
+    const activityUserIds = [...new Set(activityList.flatMap(a => [
+      a.user_id,
+      a.activity_type === "assigned" ? a.new_value : null,
+      a.activity_type === "unassigned" ? a.old_value : null,
+    ]).filter(Boolean))];
+    const { data: activityProfiles } = activityUserIds.length > 0
+      ? await supabase.from("profiles").select("id, full_name, email").in("id", activityUserIds)
+      : { data: [] };
+    const nameOf = (id: string | null) => {
+      if (!id) return "System";
+      const p = (activityProfiles || []).find((profile: { id: string; full_name: string | null; email: string }) => profile.id === id);
+      return p?.full_name || p?.email || "Unknown";
+    };
+    const statusLabels: Record<string, string> = { todo: "Not Started", in_progress: "In Progress", review: "Review", done: "Completed", blocked: "Blocked" };
+    const describeChange = (a: typeof activityList[number]) => {
+      switch (a.activity_type) {
+        case "status_changed": return `changed status from ${statusLabels[a.old_value] || a.old_value} to ${statusLabels[a.new_value] || a.new_value}`;
+        case "progress_changed": return `updated progress from ${a.old_value ?? 0}% to ${a.new_value ?? 0}%`;
+        case "date_changed": return `moved the ${a.field === "start_date" ? "start" : "due"} date from ${a.old_value || "no date"} to ${a.new_value || "no date"}`;
+        case "assigned": return `assigned ${nameOf(a.new_value)}`;
+        case "unassigned": return `unassigned ${nameOf(a.old_value)}`;
+        case "cost_changed": return `updated actual cost from ${Number(a.old_value || 0).toLocaleString()} to ${Number(a.new_value || 0).toLocaleString()}`;
+        default: return "updated the task";
+      }
+    };
+    const changes = activityList.map(a => ({
+      task: taskList.find(t => t.id === a.task_id)?.title || "Unknown task",
+      text: `${nameOf(a.user_id)} ${describeChange(a)}`,
+    }));
+    const tasksChanged = new Set(activityList.map(a => a.task_id)).size;
+
     const reportDate = today.toLocaleDateString("en-US", { weekday: "long", year: "numeric", month: "long", day: "numeric" });
     const projectUrl = `https://cioafrica.lovable.app/projects/${projectId}`;
 
     // Department stats
     const deptStats = (departments || []).map(d => {
       const dt = taskList.filter(t => t.assignee_department_id === d.id);
-      const dc = dt.filter(t => t.status === "done").length;
-      const dov = dt.filter(t => t.status !== "done" && t.due_date && t.due_date < todayStr).length;
+      const dc = dt.filter(t => t.status_category === "done").length;
+      const dov = dt.filter(isOverdue).length;
       return { name: d.name, total: dt.length, completed: dc, overdue: dov, pct: dt.length ? Math.round((dc / dt.length) * 100) : 0 };
     });
 
+    // Earned value over leaf tasks (parents roll their subtasks up), per department and element
+    const evTasks = getEarnedValueTasks(taskList);
+    const evm = computeEarnedValue(evTasks, todayStr, calendar);
+    const evmRows = (groups: { id: string; name: string }[], keyOf: (t: typeof taskList[number]) => string | null) => {
+      const byGroup = groupEarnedValue(evTasks, keyOf, todayStr, calendar);
+      return groups
+        .filter(g => (byGroup.get(g.id)?.taskCount || 0) > 0)
+        .map(g => ({ name: g.name, ...byGroup.get(g.id)! }));
+    };
+    const evmDepts = evmRows(departments || [], t => t.assignee_department_id);
+    const evmElements = evmRows((elements || []).map(e => ({ id: e.id, name: e.title })), t => t.element_id);
+    // Milestones: hit / missed when reached or past, at risk when linked work
+    // slips or the date is a week out with work still open (as in the app)
+    const weekAhead = new Date(today.getTime() + 7 * 86400000).toISOString().split("T")[0];
+    const milestoneRows = (milestones || []).map(m => {
+      const due = m.due_date.split("T")[0];
+      const reached = !!m.completed_at && m.approval_status !== "rejected";
+      const linked = (m.milestone_tasks || []).map((l: { task_id: string }) => l.task_id);
+      const open = taskList.filter(t => linked.includes(t.id) && t.status_category !== "done");
+      const blocking = open.some(t => t.due_date && (t.due_date.split("T")[0] < overdueCutoff || t.due_date.split("T")[0] > due));
+      const status = reached
+        ? (m.completed_at!.split("T")[0] <= due ? "hit" : "missed")
+        : due < todayStr ? "missed"
+        : blocking || (due <= weekAhead && (linked.length === 0 || open.length > 0)) ? "at_risk"
+        : "upcoming";
+      return { title: m.title, due, status, signedOff: reached && m.approval_status === "approved", openTasks: open.length };
+    });
+    const milestoneStyles: Record<string, { label: string; color: string }> = {
+      hit: { label: "Hit", color: "#22c55e" },
+      missed: { label: "Missed", color: "#ef4444" },
+      at_risk: { label: "At risk", color: "#f59e0b" },
+      upcoming: { label: "Upcoming", color: "#6366f1" },
+    };
+    const milestoneCount = (status: string) => milestoneRows.filter(m => m.status === status).length;
+    const fmtDay = (d: string) => new Date(`${d}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+
+    const money = (n: number) => Math.round(n).toLocaleString("en-US");
+    const fmtIndex = (i: number | null) => i === null ? "N/A" : i.toFixed(2);
+    const indexColor = (i: number | null) => i === null ? "#6b7280" : i >= 0.95 ? "#22c55e" : i >= 0.85 ? "#f59e0b" : "#ef4444";
+    const evmTable = (label: string, rows: typeof evmDepts) => rows.length === 0 ? "" : `
+    <table width="100%" style="border:1px solid #e5e7eb;border-radius:8px;overflow:hidden;margin-top:12px" cellpadding="0" cellspacing="0">
+      <tr style="background:#f9fafb">
+        <td style="padding:10px 12px;font-weight:600;font-size:12px;color:#6b7280">${label}</td>
+        <td style="padding:10px 12px;font-weight:600;font-size:12px;color:#6b7280;text-align:center">CPI</td>
+        <td style="padding:10px 12px;font-weight:600;font-size:12px;color:#6b7280;text-align:center">SPI</td>
+        <td style="padding:10px 12px;font-weight:600;font-size:12px;color:#6b7280;text-align:right">EAC</td>
+      </tr>
+      ${rows.map(d => `
+      <tr style="border-top:1px solid #e5e7eb">
+        <td style="padding:10px 12px;font-size:14px;color:#374151">${d.name}</td>
+        <td style="padding:10px 12px;font-size:14px;text-align:center;color:${indexColor(d.cpi)}">${fmtIndex(d.cpi)}</td>
+        <td style="padding:10px 12px;font-size:14px;text-align:center;color:${indexColor(d.spi)}">${fmtIndex(d.spi)}</td>
+        <td style="padding:10px 12px;font-size:14px;text-align:right">${money(d.eac)}</td>
+      </tr>`).join('')}
+    </table>`;
+
     const emailHtml = `
 <!DOCTYPE html>
 <html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"></head>
@@ -129,12 +248,63 @@ serve(async (req: Request): Promise<Response> => {
       </td>
     </tr></table>
   </td></tr>
+  ${evm.taskCount > 0 ? `
+  <tr><td style="padding:0 25px 25px">
+    <h3 style="margin:0 0 15px;font-size:16px;color:#374151">💰 Earned Value</h3>
+    <table width="100%" cellpadding="0" cellspacing="10">
+    <tr>
+      <td width="25%" style="text-align:center;background:#f8fafc;border-radius:8px;padding:15px">
+        <div style="font-size:24px;font-weight:bold;color:${indexColor(evm.cpi)}">${fmtIndex(evm.cpi)}</div>
+        <div style="font-size:12px;color:#6b7280;margin-top:5px">CPI</div>
+      </td>
+      <td width="25%" style="text-align:center;background:#f8fafc;border-radius:8px;padding:15px">
+        <div style="font-size:24px;font-weight:bold;color:${indexColor(evm.spi)}">${fmtIndex(evm.spi)}</div>
+        <div style="font-size:12px;color:#6b7280;margin-top:5px">SPI</div>
+      </td>
+      <td width="25%" style="text-align:center;background:#f8fafc;border-radius:8px;padding:15px">
+        <div style="font-size:20px;font-weight:bold;color:${evm.eac > evm.bac ? '#ef4444' : '#374151'}">${money(evm.eac)}</div>
+        <div style="font-size:12px;color:#6b7280;margin-top:5px">EAC (budget ${money(evm.bac)})</div>
+      </td>
+      <td width="25%" style="text-align:center;background:#f8fafc;border-radius:8px;padding:15px">
+        <div style="font-size:20px;font-weight:bold;color:#374151">${money(evm.etc)}</div>
+        <div style="font-size:12px;color:#6b7280;margin-top:5px">ETC</div>
+      </td>
+    </tr></table>
+    <p style="margin:5px 0 0;font-size:12px;color:#9ca3af">Planned ${money(evm.pv)} • Earned ${money(evm.ev)} • Actual ${money(evm.ac)}</p>
+    ${evmTable("Department", evmDepts)}
+    ${evmTable("Element", evmElements)}
+  </td></tr>` : ''}
+  ${milestoneRows.length > 0 ? `
+  <tr><td style="padding:0 25px 25px">
+    <h3 style="margin:0 0 15px;font-size:16px;color:#374151">◆ Milestones</h3>
+    <p style="margin:0 0 12px;font-size:13px;color:#6b7280">${["hit", "missed", "at_risk", "upcoming"].filter(s => milestoneCount(s) > 0).map(s => `<span style="color:${milestoneStyles[s].color};font-weight:bold">${milestoneCount(s)}</span> ${milestoneStyles[s].label.toLowerCase()}`).join(" • ")}</p>
+    <table width="100%" style="border:1px solid #e5e7eb;border-radius:8px;overflow:hidden" cellpadding="0" cellspacing="0">
+      ${milestoneRows.map(m => `
+      <tr style="border-top:1px solid #e5e7eb">
+        <td style="padding:10px 12px;font-size:14px;color:#374151"><span style="color:${milestoneStyles[m.status].color}">◆</span> ${m.title}${m.openTasks > 0 && m.status !== "hit" ? `<br><span style="font-size:12px;color:#6b7280">${m.openTasks} linked task${m.openTasks === 1 ? "" : "s"} open</span>` : ""}</td>
+        <td style="padding:10px 12px;font-size:13px;color:#6b7280;white-space:nowrap">${fmtDay(m.due)}</td>
+        <td style="padding:10px 12px;font-size:13px;text-align:right;font-weight:bold;color:${milestoneStyles[m.status].color};white-space:nowrap">${milestoneStyles[m.status].label}${m.signedOff ? " ✓" : ""}</td>
+      </tr>`).join('')}
+    </table>
+  </td></tr>` : ''}
   <tr><td style="padding:0 25px 25px">
     <div style="background:#f8fafc;border-radius:8px;padding:20px">
       <h3 style="margin:0 0 10px;font-size:16px;color:#374151">⚡ Today's Activity</h3>
       <p style="margin:0;font-size:14px;color:#6b7280"><span style="color:#22c55e;font-weight:bold">${completedToday}</span> tasks completed today</p>
+      <p style="margin:5px 0 0;font-size:14px;color:#6b7280"><span style="color:#3b82f6;font-weight:bold">${tasksChanged}</span> tasks changed today</p>
     </div>
   </td></tr>
+  ${changes.length > 0 ? `
+  <tr><td style="padding:0 25px 25px">
+    <h3 style="margin:0 0 15px;font-size:16px;color:#374151">📝 What Changed</h3>
+    <table width="100%" style="border:1px solid #e5e7eb;border-radius:8px;overflow:hidden" cellpadding="0" cellspacing="0">
+      ${changes.slice(-15).map(c => `
+      <tr style="border-top:1px solid #e5e7eb">
+        <td style="padding:10px 12px;font-size:13px;color:#374151"><strong>${c.task}</strong><br><span style="color:#6b7280">${c.text}</span></td>
+      </tr>`).join('')}
+    </table>
+    ${changes.length > 15 ? `<p style="margin:8px 0 0;font-size:12px;color:#9ca3af">+${changes.length - 15} more changes</p>` : ''}
+  </td></tr>` : ''}
   ${deptStats.length > 0 ? `
   <tr><td style="padding:0 25px 25px">
     <h3 style="margin:0 0 15px;font-size:16px;color:#374151">🏢 Department Performance</h3>
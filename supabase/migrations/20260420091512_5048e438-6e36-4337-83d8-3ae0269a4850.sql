@@ -0,0 +1,32 @@
+-- Reject self-referencing task dependencies
+ALTER TABLE public.task_dependencies
+  ADD CONSTRAINT task_dependencies_not_self CHECK (task_id <> depends_on_task_id);
+
+-- Reject dependency links that would create a cycle
+CREATE OR REPLACE FUNCTION public.prevent_task_dependency_cycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    WITH RECURSIVE upstream(id) AS (
+      SELECT NEW.depends_on_task_id
+      UNION
+      SELECT d.depends_on_task_id
+      FROM public.task_dependencies d
+      JOIN upstream u ON d.task_id = u.id
+    )
+    SELECT 1 FROM upstream WHERE id = NEW.task_id
+  ) THEN
+    RAISE EXCEPTION 'Circular dependency: this task already precedes the task it would depend on'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_task_dependency_cycle
+  BEFORE INSERT OR UPDATE ON public.task_dependencies
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_task_dependency_cycle();
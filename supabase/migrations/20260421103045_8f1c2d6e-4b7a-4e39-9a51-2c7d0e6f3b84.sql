@@ -0,0 +1,18 @@
+-- Stream task comment changes to open task drawers/dialogs
+ALTER TABLE public.task_comments REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.task_comments;
+
+-- Allow @mention notifications
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check 
+CHECK (type = ANY (ARRAY[
+  'task_created'::text, 
+  'task_updated'::text, 
+  'task_due_soon'::text, 
+  'task_overdue'::text, 
+  'task_completed'::text,
+  'task_mention'::text,
+  'document_access'::text,
+  'chat_message'::text
+]));
@@ -0,0 +1,18 @@
+-- Task attachments: keep the mime type for previews and remember which
+-- library document an attachment was promoted to
+ALTER TABLE public.task_attachments
+  ADD COLUMN file_type TEXT,
+  ADD COLUMN document_id UUID REFERENCES public.documents(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_task_attachments_task_id ON public.task_attachments(task_id);
+
+CREATE POLICY "Uploaders and document managers can update attachments"
+  ON public.task_attachments FOR UPDATE
+  USING (
+    uploaded_by = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM public.tasks t
+      WHERE t.id = task_attachments.task_id
+      AND public.can_manage_documents(auth.uid(), t.project_id)
+    )
+  );
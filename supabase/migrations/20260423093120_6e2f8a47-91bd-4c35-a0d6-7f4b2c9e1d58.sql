@@ -0,0 +1,65 @@
+-- Record every change to core planning tables in audit_logs
+CREATE OR REPLACE FUNCTION public.record_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB;
+  v_new JSONB;
+  v_action TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_action := 'created';
+    v_new := to_jsonb(NEW);
+  ELSIF TG_OP = 'UPDATE' THEN
+    v_action := 'updated';
+    v_old := to_jsonb(OLD);
+    v_new := to_jsonb(NEW);
+    -- Ignore writes that only touch the timestamp
+    IF (v_old - 'updated_at') = (v_new - 'updated_at') THEN
+      RETURN NEW;
+    END IF;
+  ELSE
+    v_action := 'deleted';
+    v_old := to_jsonb(OLD);
+  END IF;
+
+  INSERT INTO public.audit_logs (user_id, action, entity_type, entity_id, old_values, new_values)
+  VALUES (
+    auth.uid(),
+    v_action,
+    TG_TABLE_NAME,
+    COALESCE((v_new ->> 'id')::uuid, (v_old ->> 'id')::uuid),
+    v_old,
+    v_new
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER audit_tasks
+  AFTER INSERT OR UPDATE OR DELETE ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_elements
+  AFTER INSERT OR UPDATE OR DELETE ON public.elements
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_projects
+  AFTER INSERT OR UPDATE OR DELETE ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_project_members
+  AFTER INSERT OR UPDATE OR DELETE ON public.project_members
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_user_roles
+  AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE INDEX idx_audit_logs_created_at ON public.audit_logs(created_at DESC);
+CREATE INDEX idx_audit_logs_entity ON public.audit_logs(entity_type, entity_id);
+CREATE INDEX idx_audit_logs_user_id ON public.audit_logs(user_id);
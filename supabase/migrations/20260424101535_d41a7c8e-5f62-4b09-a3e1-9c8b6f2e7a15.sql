@@ -0,0 +1,105 @@
+-- Per-task change history shown in the task drawer and used by the daily report
+CREATE TABLE public.task_activity (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  activity_type TEXT NOT NULL CHECK (activity_type IN (
+    'created', 'status_changed', 'progress_changed', 'date_changed', 'assigned', 'unassigned'
+  )),
+  field TEXT,
+  old_value TEXT,
+  new_value TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_task_activity_task_id ON public.task_activity(task_id, created_at);
+CREATE INDEX idx_task_activity_project_id ON public.task_activity(project_id, created_at);
+
+ALTER TABLE public.task_activity ENABLE ROW LEVEL SECURITY;
+
+-- Visible to anyone who can see the task; rows are only written by the triggers below
+CREATE POLICY "Task activity is viewable with the task"
+  ON public.task_activity FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.tasks t WHERE t.id = task_activity.task_id));
+
+CREATE OR REPLACE FUNCTION public.log_task_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.task_activity (task_id, project_id, user_id, activity_type, new_value)
+    VALUES (NEW.id, NEW.project_id, auth.uid(), 'created', NEW.status);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.task_activity (task_id, project_id, user_id, activity_type, field, old_value, new_value)
+    VALUES (NEW.id, NEW.project_id, auth.uid(), 'status_changed', 'status', OLD.status, NEW.status);
+  END IF;
+
+  IF NEW.progress_percentage IS DISTINCT FROM OLD.progress_percentage THEN
+    INSERT INTO public.task_activity (task_id, project_id, user_id, activity_type, field, old_value, new_value)
+    VALUES (NEW.id, NEW.project_id, auth.uid(), 'progress_changed', 'progress_percentage',
+      OLD.progress_percentage::text, NEW.progress_percentage::text);
+  END IF;
+
+  IF NEW.start_date IS DISTINCT FROM OLD.start_date THEN
+    INSERT INTO public.task_activity (task_id, project_id, user_id, activity_type, field, old_value, new_value)
+    VALUES (NEW.id, NEW.project_id, auth.uid(), 'date_changed', 'start_date', OLD.start_date::text, NEW.start_date::text);
+  END IF;
+
+  IF NEW.due_date IS DISTINCT FROM OLD.due_date THEN
+    INSERT INTO public.task_activity (task_id, project_id, user_id, activity_type, field, old_value, new_value)
+    VALUES (NEW.id, NEW.project_id, auth.uid(), 'date_changed', 'due_date', OLD.due_date::text, NEW.due_date::text);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_task_activity
+  AFTER INSERT OR UPDATE ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.log_task_activity();
+
+CREATE OR REPLACE FUNCTION public.log_task_assignment_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project_id UUID;
+BEGIN
+  -- When the task itself is being deleted the assignments cascade; nothing to log
+  SELECT project_id INTO v_project_id
+  FROM public.tasks
+  WHERE id = COALESCE(NEW.task_id, OLD.task_id);
+
+  IF v_project_id IS NULL THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.task_activity (task_id, project_id, user_id, activity_type, field, new_value)
+    VALUES (NEW.task_id, v_project_id, auth.uid(), 'assigned', 'user_id', NEW.user_id::text);
+  ELSE
+    INSERT INTO public.task_activity (task_id, project_id, user_id, activity_type, field, old_value)
+    VALUES (OLD.task_id, v_project_id, auth.uid(), 'unassigned', 'user_id', OLD.user_id::text);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER log_task_assignment_activity
+  AFTER INSERT OR DELETE ON public.task_assignments
+  FOR EACH ROW EXECUTE FUNCTION public.log_task_assignment_activity();
+
+-- Existing tasks start their history at creation time
+INSERT INTO public.task_activity (task_id, project_id, activity_type, new_value, created_at)
+SELECT id, project_id, 'created', status, COALESCE(created_at, now())
+FROM public.tasks;
@@ -0,0 +1,130 @@
+-- Subtask hierarchy: keep parent_task_id acyclic and within a single project
+CREATE OR REPLACE FUNCTION public.prevent_task_parent_cycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_task_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors(id) AS (
+      SELECT NEW.parent_task_id
+      UNION
+      SELECT t.parent_task_id
+      FROM public.tasks t
+      JOIN ancestors a ON t.id = a.id
+      WHERE t.parent_task_id IS NOT NULL
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Circular subtask: a task cannot be nested under itself or one of its subtasks'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF (SELECT project_id FROM public.tasks WHERE id = NEW.parent_task_id) IS DISTINCT FROM NEW.project_id THEN
+    RAISE EXCEPTION 'A subtask must belong to the same project as its parent'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_task_parent_cycle
+  BEFORE INSERT OR UPDATE OF parent_task_id, project_id ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_task_parent_cycle();
+
+CREATE INDEX IF NOT EXISTS idx_tasks_parent_task_id ON public.tasks(parent_task_id);
+
+-- Roll a parent's progress up from its direct subtasks, weighted by estimate_hours.
+-- Subtasks without an estimate weigh as much as the average estimated sibling.
+CREATE OR REPLACE FUNCTION public.refresh_task_progress_rollup(_task_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _mean_estimate NUMERIC;
+  _progress INTEGER;
+  _status TEXT;
+  _current RECORD;
+BEGIN
+  IF _task_id IS NULL OR NOT EXISTS (SELECT 1 FROM public.tasks WHERE parent_task_id = _task_id) THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(AVG(estimate_hours) FILTER (WHERE estimate_hours > 0), 1)
+  INTO _mean_estimate
+  FROM public.tasks
+  WHERE parent_task_id = _task_id;
+
+  SELECT ROUND(SUM(COALESCE(progress_percentage, 0) * weight) / SUM(weight))::INTEGER
+  INTO _progress
+  FROM (
+    SELECT progress_percentage,
+           CASE WHEN estimate_hours > 0 THEN estimate_hours ELSE _mean_estimate END AS weight
+    FROM public.tasks
+    WHERE parent_task_id = _task_id
+  ) children;
+
+  SELECT status, progress_percentage INTO _current FROM public.tasks WHERE id = _task_id;
+
+  _status := CASE
+    WHEN _progress >= 100 THEN 'done'
+    WHEN _current.status = 'blocked' THEN 'blocked'
+    WHEN _progress = 0 THEN 'todo'
+    WHEN _current.status = 'review' THEN 'review'
+    ELSE 'in_progress'
+  END;
+
+  IF _current.progress_percentage IS DISTINCT FROM _progress OR _current.status IS DISTINCT FROM _status THEN
+    UPDATE public.tasks
+    SET progress_percentage = _progress,
+        status = _status,
+        completed_at = CASE WHEN _status = 'done' THEN COALESCE(completed_at, now()) ELSE NULL END
+    WHERE id = _task_id;
+  END IF;
+END;
+$$;
+
+-- Refreshes the affected parents; a parent's own update then cascades to its parent
+CREATE OR REPLACE FUNCTION public.rollup_parent_task_progress()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_task_progress_rollup(OLD.parent_task_id);
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.progress_percentage IS NOT DISTINCT FROM OLD.progress_percentage
+       AND NEW.estimate_hours IS NOT DISTINCT FROM OLD.estimate_hours
+       AND NEW.parent_task_id IS NOT DISTINCT FROM OLD.parent_task_id THEN
+      RETURN NEW;
+    END IF;
+
+    IF OLD.parent_task_id IS DISTINCT FROM NEW.parent_task_id THEN
+      PERFORM public.refresh_task_progress_rollup(OLD.parent_task_id);
+    END IF;
+  END IF;
+
+  PERFORM public.refresh_task_progress_rollup(NEW.parent_task_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rollup_parent_task_progress
+  AFTER INSERT OR DELETE OR UPDATE OF progress_percentage, estimate_hours, parent_task_id ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.rollup_parent_task_progress();
+
+-- Bring existing parents in line with their subtasks
+SELECT public.refresh_task_progress_rollup(parent_id)
+FROM (SELECT DISTINCT parent_task_id AS parent_id FROM public.tasks WHERE parent_task_id IS NOT NULL) parents;
@@ -0,0 +1,251 @@
+-- Weekly timesheets: one per user, department and week, reviewed by the department lead
+CREATE TABLE public.timesheets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  department_id UUID NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  week_start DATE NOT NULL CHECK (EXTRACT(ISODOW FROM week_start) = 1),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted', 'approved', 'rejected')),
+  submitted_at TIMESTAMPTZ,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  review_note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, department_id, week_start)
+);
+
+CREATE INDEX idx_timesheets_department_status ON public.timesheets(department_id, status);
+
+-- Individual time entries; an entry without ended_at is a running timer
+CREATE TABLE public.time_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ended_at TIMESTAMPTZ,
+  note TEXT,
+  timesheet_id UUID REFERENCES public.timesheets(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT time_entries_valid_range CHECK (ended_at IS NULL OR ended_at > started_at)
+);
+
+CREATE INDEX idx_time_entries_task_id ON public.time_entries(task_id);
+CREATE INDEX idx_time_entries_user_started ON public.time_entries(user_id, started_at);
+CREATE INDEX idx_time_entries_timesheet_id ON public.time_entries(timesheet_id);
+-- At most one running timer per user
+CREATE UNIQUE INDEX idx_time_entries_one_running ON public.time_entries(user_id) WHERE ended_at IS NULL;
+
+CREATE TRIGGER update_timesheets_updated_at
+  BEFORE UPDATE ON public.timesheets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_time_entries_updated_at
+  BEFORE UPDATE ON public.time_entries
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.can_review_timesheet(_user_id uuid, _department_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_role(_user_id, 'admin'::app_role) OR is_department_lead(_user_id, _department_id)
+$$;
+
+ALTER TABLE public.timesheets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.time_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own timesheets"
+  ON public.timesheets FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Reviewers and managers can view department timesheets"
+  ON public.timesheets FOR SELECT
+  USING (can_review_timesheet(auth.uid(), department_id) OR has_role(auth.uid(), 'project_manager'::app_role));
+
+CREATE POLICY "Users can create their own timesheets"
+  ON public.timesheets FOR INSERT
+  WITH CHECK (user_id = auth.uid() AND status = 'draft');
+
+-- Allowed status transitions are enforced by enforce_timesheet_transition below
+CREATE POLICY "Owners and reviewers can update timesheets"
+  ON public.timesheets FOR UPDATE
+  USING (user_id = auth.uid() OR can_review_timesheet(auth.uid(), department_id));
+
+CREATE POLICY "Users can view their own time entries"
+  ON public.time_entries FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Reviewers and managers can view department time entries"
+  ON public.time_entries FOR SELECT
+  USING (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'project_manager'::app_role)
+    OR EXISTS (
+      SELECT 1 FROM public.tasks t
+      WHERE t.id = time_entries.task_id
+        AND is_department_lead(auth.uid(), t.assignee_department_id)
+    )
+  );
+
+CREATE POLICY "Users can log time on visible tasks"
+  ON public.time_entries FOR INSERT
+  WITH CHECK (user_id = auth.uid() AND EXISTS (SELECT 1 FROM public.tasks t WHERE t.id = time_entries.task_id));
+
+CREATE POLICY "Users can update their own time entries"
+  ON public.time_entries FOR UPDATE
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own time entries"
+  ON public.time_entries FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Owners submit or withdraw; reviewers approve or reject submitted weeks, never their own
+CREATE OR REPLACE FUNCTION public.enforce_timesheet_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IN ('approved', 'rejected') THEN
+    IF OLD.status <> 'submitted' THEN
+      RAISE EXCEPTION 'Only submitted timesheets can be reviewed' USING ERRCODE = 'check_violation';
+    END IF;
+    IF NOT can_review_timesheet(auth.uid(), NEW.department_id)
+       OR (NEW.user_id = auth.uid() AND NOT has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Only the department lead can review this timesheet' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := now();
+  ELSE
+    IF NEW.user_id <> auth.uid() THEN
+      RAISE EXCEPTION 'Only the owner can submit or withdraw a timesheet' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    IF OLD.status = 'approved' THEN
+      RAISE EXCEPTION 'Approved timesheets cannot be changed' USING ERRCODE = 'check_violation';
+    END IF;
+    IF NEW.status = 'submitted' THEN
+      NEW.submitted_at := now();
+      NEW.reviewed_by := NULL;
+      NEW.reviewed_at := NULL;
+      NEW.review_note := NULL;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_timesheet_transition
+  BEFORE UPDATE ON public.timesheets
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_timesheet_transition();
+
+-- Entries on a submitted or approved timesheet are locked, except when their task is deleted
+CREATE OR REPLACE FUNCTION public.prevent_locked_time_entry_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM public.tasks WHERE id = OLD.task_id) THEN
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') AND EXISTS (
+    SELECT 1 FROM public.timesheets WHERE id = OLD.timesheet_id AND status IN ('submitted', 'approved')
+  ) THEN
+    RAISE EXCEPTION 'This time entry is on a submitted timesheet and can no longer be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND EXISTS (
+    SELECT 1 FROM public.timesheets WHERE id = NEW.timesheet_id AND status IN ('submitted', 'approved')
+  ) THEN
+    RAISE EXCEPTION 'Time cannot be added to a submitted timesheet'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_locked_time_entry_change
+  BEFORE INSERT OR UPDATE OR DELETE ON public.time_entries
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_locked_time_entry_change();
+
+-- tasks.logged_hours is the sum of the task's finished time entries
+CREATE OR REPLACE FUNCTION public.refresh_task_logged_hours(_task_id uuid)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.tasks
+  SET logged_hours = COALESCE((
+    SELECT ROUND((SUM(EXTRACT(EPOCH FROM (ended_at - started_at))) / 3600)::numeric, 2)
+    FROM public.time_entries
+    WHERE task_id = _task_id AND ended_at IS NOT NULL
+  ), 0)
+  WHERE id = _task_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_task_logged_hours()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_task_logged_hours(OLD.task_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.task_id IS DISTINCT FROM OLD.task_id OR
+      NEW.started_at IS DISTINCT FROM OLD.started_at OR NEW.ended_at IS DISTINCT FROM OLD.ended_at) THEN
+    PERFORM public.refresh_task_logged_hours(NEW.task_id);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_task_logged_hours
+  AFTER INSERT OR UPDATE OR DELETE ON public.time_entries
+  FOR EACH ROW EXECUTE FUNCTION public.sync_task_logged_hours();
+
+-- Keep hours logged before time tracking existed as a single entry for the
+-- assignee. Tasks without a (still existing) assignee are attributed to the
+-- project owner, or failing that the first admin, so no hours are lost when
+-- the total is next recalculated from the entries.
+WITH first_admin AS (
+  SELECT ur.user_id
+  FROM public.user_roles ur
+  JOIN auth.users u ON u.id = ur.user_id
+  WHERE ur.role = 'admin'::app_role
+  ORDER BY ur.created_at
+  LIMIT 1
+)
+INSERT INTO public.time_entries (task_id, user_id, started_at, ended_at, note)
+SELECT t.id,
+       COALESCE(assignee.id, project_owner.id, first_admin.user_id),
+       COALESCE(t.start_date::timestamptz, t.created_at, now()),
+       COALESCE(t.start_date::timestamptz, t.created_at, now()) + make_interval(secs => (t.logged_hours * 3600)::double precision),
+       'Hours logged before time tracking'
+FROM public.tasks t
+LEFT JOIN auth.users assignee ON assignee.id = t.assignee_user_id
+LEFT JOIN public.projects p ON p.id = t.project_id
+LEFT JOIN auth.users project_owner ON project_owner.id = p.owner_id
+LEFT JOIN first_admin ON true
+WHERE t.logged_hours > 0
+  AND COALESCE(assignee.id, project_owner.id, first_admin.user_id) IS NOT NULL;
@@ -0,0 +1,67 @@
+-- Named snapshots of a project's plan, used to track schedule variance
+CREATE TABLE public.project_baselines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_project_baselines_project_id ON public.project_baselines(project_id, created_at DESC);
+
+-- Planned values of each task at the time of the snapshot. task_id is kept
+-- without a foreign key so a deleted task still shows up against the baseline.
+CREATE TABLE public.baseline_tasks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  baseline_id UUID NOT NULL REFERENCES public.project_baselines(id) ON DELETE CASCADE,
+  task_id UUID NOT NULL,
+  element_id UUID,
+  title TEXT NOT NULL,
+  start_date DATE,
+  due_date DATE,
+  estimate_hours NUMERIC,
+  estimated_cost NUMERIC,
+  UNIQUE (baseline_id, task_id)
+);
+
+CREATE TABLE public.baseline_elements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  baseline_id UUID NOT NULL REFERENCES public.project_baselines(id) ON DELETE CASCADE,
+  element_id UUID NOT NULL,
+  title TEXT NOT NULL,
+  start_date DATE,
+  due_date DATE,
+  UNIQUE (baseline_id, element_id)
+);
+
+ALTER TABLE public.project_baselines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.baseline_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.baseline_elements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view baselines"
+  ON public.project_baselines FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins and project managers can create baselines"
+  ON public.project_baselines FOR INSERT
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'project_manager'::app_role));
+
+CREATE POLICY "Admins and project managers can delete baselines"
+  ON public.project_baselines FOR DELETE
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'project_manager'::app_role));
+
+CREATE POLICY "Authenticated users can view baseline tasks"
+  ON public.baseline_tasks FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins and project managers can record baseline tasks"
+  ON public.baseline_tasks FOR INSERT
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'project_manager'::app_role));
+
+CREATE POLICY "Authenticated users can view baseline elements"
+  ON public.baseline_elements FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins and project managers can record baseline elements"
+  ON public.baseline_elements FOR INSERT
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'project_manager'::app_role));
@@ -0,0 +1,48 @@
+-- Record actual cost changes so earned value can be charted over time
+ALTER TABLE public.task_activity DROP CONSTRAINT task_activity_activity_type_check;
+ALTER TABLE public.task_activity ADD CONSTRAINT task_activity_activity_type_check CHECK (activity_type IN (
+  'created', 'status_changed', 'progress_changed', 'date_changed', 'assigned', 'unassigned', 'cost_changed'
+));
+
+CREATE OR REPLACE FUNCTION public.log_task_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.task_activity (task_id, project_id, user_id, activity_type, new_value)
+    VALUES (NEW.id, NEW.project_id, auth.uid(), 'created', NEW.status);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.task_activity (task_id, project_id, user_id, activity_type, field, old_value, new_value)
+    VALUES (NEW.id, NEW.project_id, auth.uid(), 'status_changed', 'status', OLD.status, NEW.status);
+  END IF;
+
+  IF NEW.progress_percentage IS DISTINCT FROM OLD.progress_percentage THEN
+    INSERT INTO public.task_activity (task_id, project_id, user_id, activity_type, field, old_value, new_value)
+    VALUES (NEW.id, NEW.project_id, auth.uid(), 'progress_changed', 'progress_percentage',
+      OLD.progress_percentage::text, NEW.progress_percentage::text);
+  END IF;
+
+  IF NEW.start_date IS DISTINCT FROM OLD.start_date THEN
+    INSERT INTO public.task_activity (task_id, project_id, user_id, activity_type, field, old_value, new_value)
+    VALUES (NEW.id, NEW.project_id, auth.uid(), 'date_changed', 'start_date', OLD.start_date::text, NEW.start_date::text);
+  END IF;
+
+  IF NEW.due_date IS DISTINCT FROM OLD.due_date THEN
+    INSERT INTO public.task_activity (task_id, project_id, user_id, activity_type, field, old_value, new_value)
+    VALUES (NEW.id, NEW.project_id, auth.uid(), 'date_changed', 'due_date', OLD.due_date::text, NEW.due_date::text);
+  END IF;
+
+  IF NEW.actual_cost IS DISTINCT FROM OLD.actual_cost THEN
+    INSERT INTO public.task_activity (task_id, project_id, user_id, activity_type, field, old_value, new_value)
+    VALUES (NEW.id, NEW.project_id, auth.uid(), 'cost_changed', 'actual_cost', OLD.actual_cost::text, NEW.actual_cost::text);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
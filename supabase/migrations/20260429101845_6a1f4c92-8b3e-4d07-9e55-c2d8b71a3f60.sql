@@ -0,0 +1,68 @@
+-- Project-level label catalogue. Tasks keep the label names in tasks.labels;
+-- the catalogue supplies their colours and the list offered in pickers and filters.
+CREATE TABLE public.project_labels (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  color TEXT NOT NULL DEFAULT '#6b7280',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (project_id, name)
+);
+
+CREATE INDEX idx_project_labels_project_id ON public.project_labels(project_id);
+CREATE INDEX idx_tasks_labels ON public.tasks USING GIN (labels);
+
+ALTER TABLE public.project_labels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view project labels"
+  ON public.project_labels FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins and project managers can create project labels"
+  ON public.project_labels FOR INSERT
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'project_manager'::app_role));
+
+CREATE POLICY "Admins and project managers can update project labels"
+  ON public.project_labels FOR UPDATE
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'project_manager'::app_role));
+
+CREATE POLICY "Admins and project managers can delete project labels"
+  ON public.project_labels FOR DELETE
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'project_manager'::app_role));
+
+-- Keep task labels in step when a label is renamed or removed from the catalogue
+CREATE OR REPLACE FUNCTION public.sync_task_labels()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    UPDATE public.tasks
+    SET labels = array_remove(labels, OLD.name)
+    WHERE project_id = OLD.project_id AND labels @> ARRAY[OLD.name];
+    RETURN OLD;
+  END IF;
+
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    UPDATE public.tasks
+    SET labels = array_replace(labels, OLD.name, NEW.name)
+    WHERE project_id = NEW.project_id AND labels @> ARRAY[OLD.name];
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_task_labels
+  AFTER UPDATE OR DELETE ON public.project_labels
+  FOR EACH ROW EXECUTE FUNCTION public.sync_task_labels();
+
+-- Seed the catalogue with any labels already set on tasks
+INSERT INTO public.project_labels (project_id, name, created_by)
+SELECT DISTINCT t.project_id, trim(label), NULL::uuid
+FROM public.tasks t, unnest(t.labels) AS label
+WHERE t.project_id IS NOT NULL AND length(trim(label)) > 0
+ON CONFLICT (project_id, name) DO NOTHING;
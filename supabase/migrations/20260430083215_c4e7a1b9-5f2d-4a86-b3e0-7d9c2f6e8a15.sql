@@ -0,0 +1,244 @@
+-- Per-project task workflows. Each custom status belongs to one of the built-in
+-- categories (todo / in_progress / review / done / blocked) so analytics can keep
+-- counting work the same way whatever the statuses are called. Projects without
+-- rows use the built-in statuses.
+CREATE TABLE public.project_task_statuses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  key TEXT NOT NULL CHECK (key ~ '^[a-z0-9_]+$'),
+  label TEXT NOT NULL CHECK (length(trim(label)) > 0),
+  category TEXT NOT NULL CHECK (category IN ('todo', 'in_progress', 'review', 'done', 'blocked')),
+  color TEXT NOT NULL DEFAULT '#6b7280',
+  position INTEGER NOT NULL DEFAULT 0,
+  -- Statuses a task may move to from this one; NULL allows any
+  allowed_transitions TEXT[],
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (project_id, key)
+);
+
+CREATE INDEX idx_project_task_statuses_project_id ON public.project_task_statuses(project_id, position);
+
+ALTER TABLE public.project_task_statuses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view project task statuses"
+  ON public.project_task_statuses FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins and project managers can create project task statuses"
+  ON public.project_task_statuses FOR INSERT
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'project_manager'::app_role));
+
+CREATE POLICY "Admins and project managers can update project task statuses"
+  ON public.project_task_statuses FOR UPDATE
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'project_manager'::app_role));
+
+CREATE POLICY "Admins and project managers can delete project task statuses"
+  ON public.project_task_statuses FOR DELETE
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'project_manager'::app_role));
+
+-- Statuses are now validated against the project's workflow instead of a fixed list
+ALTER TABLE public.tasks DROP CONSTRAINT IF EXISTS tasks_status_check;
+
+ALTER TABLE public.tasks
+  ADD COLUMN status_category TEXT NOT NULL DEFAULT 'todo'
+  CHECK (status_category IN ('todo', 'in_progress', 'review', 'done', 'blocked'));
+
+CREATE INDEX idx_tasks_status_category ON public.tasks(project_id, status_category);
+
+-- Resolve a task's status against its project's workflow and record its category.
+-- Workflow keys and labels match first; the built-in statuses and their usual
+-- spellings (e.g. "Completed") are always accepted and stand for the project's
+-- first status of that category, so progress-driven updates can simply write
+-- 'in_progress' or 'done'. Direct edits by members must
+-- follow the workflow's allowed transitions; managers, the service role and
+-- nested updates (such as the parent progress rollup) are not restricted.
+CREATE OR REPLACE FUNCTION public.apply_task_workflow_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _match RECORD;
+  _slug TEXT;
+  _mapped TEXT;
+  _allowed TEXT[];
+BEGIN
+  NEW.status := COALESCE(NULLIF(trim(NEW.status), ''), 'todo');
+
+  SELECT key, category INTO _match
+  FROM public.project_task_statuses
+  WHERE project_id = NEW.project_id
+    AND (key = NEW.status OR lower(label) = lower(NEW.status))
+  ORDER BY (key = NEW.status) DESC, position
+  LIMIT 1;
+
+  IF FOUND THEN
+    NEW.status := _match.key;
+    NEW.status_category := _match.category;
+  ELSE
+    _slug := regexp_replace(lower(NEW.status), '[\s-]+', '_', 'g');
+    _slug := CASE
+      WHEN _slug IN ('done', 'completed', 'complete') THEN 'done'
+      WHEN _slug IN ('in_progress', 'inprogress', 'in_process') THEN 'in_progress'
+      WHEN _slug IN ('review', 'in_review') THEN 'review'
+      WHEN _slug = 'blocked' THEN 'blocked'
+      WHEN _slug IN ('todo', 'to_do', 'not_started') THEN 'todo'
+    END;
+
+    IF _slug IS NULL THEN
+      RAISE EXCEPTION 'Unknown task status "%"', NEW.status USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT key INTO _mapped
+    FROM public.project_task_statuses
+    WHERE project_id = NEW.project_id AND category = _slug
+    ORDER BY position
+    LIMIT 1;
+
+    NEW.status := COALESCE(_mapped, _slug);
+    NEW.status_category := _slug;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND NEW.status IS DISTINCT FROM OLD.status
+     AND pg_trigger_depth() = 1
+     AND auth.uid() IS NOT NULL
+     AND NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'project_manager'::app_role)) THEN
+    SELECT allowed_transitions INTO _allowed
+    FROM public.project_task_statuses
+    WHERE project_id = NEW.project_id AND key = OLD.status;
+
+    IF _allowed IS NOT NULL AND NOT (NEW.status = ANY(_allowed)) THEN
+      RAISE EXCEPTION 'Tasks cannot move from "%" to "%" in this project''s workflow', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_task_workflow_status
+  BEFORE INSERT OR UPDATE OF status, project_id ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.apply_task_workflow_status();
+
+-- Keep tasks and transitions in step when a workflow status is recategorised or removed
+CREATE OR REPLACE FUNCTION public.sync_workflow_status_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    UPDATE public.project_task_statuses
+    SET allowed_transitions = array_remove(allowed_transitions, OLD.key)
+    WHERE project_id = OLD.project_id AND allowed_transitions @> ARRAY[OLD.key];
+    RETURN OLD;
+  END IF;
+
+  IF NEW.category IS DISTINCT FROM OLD.category THEN
+    UPDATE public.tasks
+    SET status_category = NEW.category
+    WHERE project_id = NEW.project_id AND status = NEW.key;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_workflow_status_changes
+  AFTER UPDATE OR DELETE ON public.project_task_statuses
+  FOR EACH ROW EXECUTE FUNCTION public.sync_workflow_status_changes();
+
+-- Parent rollup works on categories: a parent already in the right category keeps
+-- its custom status, otherwise it takes the project's first status of that category.
+CREATE OR REPLACE FUNCTION public.refresh_task_progress_rollup(_task_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _mean_estimate NUMERIC;
+  _progress INTEGER;
+  _category TEXT;
+  _status TEXT;
+  _current RECORD;
+BEGIN
+  IF _task_id IS NULL OR NOT EXISTS (SELECT 1 FROM public.tasks WHERE parent_task_id = _task_id) THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(AVG(estimate_hours) FILTER (WHERE estimate_hours > 0), 1)
+  INTO _mean_estimate
+  FROM public.tasks
+  WHERE parent_task_id = _task_id;
+
+  SELECT ROUND(SUM(COALESCE(progress_percentage, 0) * weight) / SUM(weight))::INTEGER
+  INTO _progress
+  FROM (
+    SELECT progress_percentage,
+           CASE WHEN estimate_hours > 0 THEN estimate_hours ELSE _mean_estimate END AS weight
+    FROM public.tasks
+    WHERE parent_task_id = _task_id
+  ) children;
+
+  SELECT project_id, status, status_category, progress_percentage INTO _current FROM public.tasks WHERE id = _task_id;
+
+  _category := CASE
+    WHEN _progress >= 100 THEN 'done'
+    WHEN _current.status_category = 'blocked' THEN 'blocked'
+    WHEN _progress = 0 THEN 'todo'
+    WHEN _current.status_category = 'review' THEN 'review'
+    ELSE 'in_progress'
+  END;
+
+  IF _current.status_category = _category THEN
+    _status := _current.status;
+  ELSE
+    SELECT key INTO _status
+    FROM public.project_task_statuses
+    WHERE project_id = _current.project_id AND category = _category
+    ORDER BY position
+    LIMIT 1;
+    _status := COALESCE(_status, _category);
+  END IF;
+
+  IF _current.progress_percentage IS DISTINCT FROM _progress OR _current.status IS DISTINCT FROM _status THEN
+    UPDATE public.tasks
+    SET progress_percentage = _progress,
+        status = _status,
+        completed_at = CASE WHEN _category = 'done' THEN COALESCE(completed_at, now()) ELSE NULL END
+    WHERE id = _task_id;
+  END IF;
+END;
+$$;
+
+-- Categorise existing tasks; anything unrecognised is treated as not started.
+-- This is a schema backfill, not a user edit, so it is kept out of the audit
+-- log, the task activity feed and updated_at, and only rows that change are touched.
+ALTER TABLE public.tasks DISABLE TRIGGER audit_tasks;
+ALTER TABLE public.tasks DISABLE TRIGGER log_task_activity;
+ALTER TABLE public.tasks DISABLE TRIGGER update_tasks_updated_at;
+
+WITH categorised AS (
+  SELECT id, CASE
+    WHEN regexp_replace(lower(trim(status)), '[\s-]+', '_', 'g') IN ('done', 'completed', 'complete') THEN 'done'
+    WHEN regexp_replace(lower(trim(status)), '[\s-]+', '_', 'g') IN ('in_progress', 'inprogress', 'in_process') THEN 'in_progress'
+    WHEN regexp_replace(lower(trim(status)), '[\s-]+', '_', 'g') IN ('review', 'in_review') THEN 'review'
+    WHEN regexp_replace(lower(trim(status)), '[\s-]+', '_', 'g') = 'blocked' THEN 'blocked'
+    ELSE 'todo'
+  END AS category
+  FROM public.tasks
+)
+UPDATE public.tasks t
+SET status_category = c.category
+FROM categorised c
+WHERE c.id = t.id
+  AND t.status_category IS DISTINCT FROM c.category;
+
+ALTER TABLE public.tasks ENABLE TRIGGER audit_tasks;
+ALTER TABLE public.tasks ENABLE TRIGGER log_task_activity;
+ALTER TABLE public.tasks ENABLE TRIGGER update_tasks_updated_at;
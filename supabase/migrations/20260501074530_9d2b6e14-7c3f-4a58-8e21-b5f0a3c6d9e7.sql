@@ -0,0 +1,226 @@
+-- Recurring tasks. A rule describes how often a series repeats; every task in the
+-- series points at it. The newest task in the series is the template for the next
+-- one, so editing the open tasks of a series edits what future instances look like.
+CREATE TABLE public.task_recurrences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly', 'working_days')),
+  interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count BETWEEN 1 AND 365),
+  -- Weekly rules only: days of the week, 0 = Sunday ... 6 = Saturday
+  weekdays SMALLINT[] NOT NULL DEFAULT '{}' CHECK (weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]),
+  -- 'completion' creates the next task when the current one is done,
+  -- 'schedule' creates it on its start date whether or not the last one is done
+  generate_on TEXT NOT NULL DEFAULT 'completion' CHECK (generate_on IN ('completion', 'schedule')),
+  ends_on DATE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_task_recurrences_project_id ON public.task_recurrences(project_id);
+
+ALTER TABLE public.task_recurrences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view task recurrences"
+  ON public.task_recurrences FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users can create task recurrences"
+  ON public.task_recurrences FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users can update task recurrences"
+  ON public.task_recurrences FOR UPDATE
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Creators, admins and project managers can delete task recurrences"
+  ON public.task_recurrences FOR DELETE
+  USING (
+    created_by = auth.uid() OR
+    has_role(auth.uid(), 'admin'::app_role) OR
+    has_role(auth.uid(), 'project_manager'::app_role)
+  );
+
+CREATE TRIGGER update_task_recurrences_updated_at
+  BEFORE UPDATE ON public.task_recurrences
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.tasks
+  ADD COLUMN recurrence_id UUID REFERENCES public.task_recurrences(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_tasks_recurrence_id ON public.tasks(recurrence_id, start_date);
+
+-- Weekday arithmetic matching src/lib/workingDays.ts: Saturday and Sunday are skipped
+CREATE OR REPLACE FUNCTION public.add_working_days(_date DATE, _days INTEGER)
+RETURNS DATE
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _current DATE := _date;
+  _remaining INTEGER := GREATEST(_days, 0);
+BEGIN
+  WHILE extract(isodow FROM _current) > 5 LOOP
+    _current := _current + 1;
+  END LOOP;
+
+  WHILE _remaining > 0 LOOP
+    _current := _current + 1;
+    IF extract(isodow FROM _current) <= 5 THEN
+      _remaining := _remaining - 1;
+    END IF;
+  END LOOP;
+
+  RETURN _current;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.count_working_days(_start DATE, _end DATE)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM generate_series(_start, _end, INTERVAL '1 day') AS d
+  WHERE extract(isodow FROM d) <= 5;
+$$;
+
+-- Start date of the occurrence after `_from`; mirrors getNextOccurrence in src/lib/recurrence.ts
+CREATE OR REPLACE FUNCTION public.next_recurrence_date(
+  _frequency TEXT,
+  _interval INTEGER,
+  _weekdays SMALLINT[],
+  _from DATE
+)
+RETURNS DATE
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _days SMALLINT[] := CASE WHEN cardinality(_weekdays) > 0 THEN _weekdays ELSE ARRAY[extract(dow FROM _from)::SMALLINT] END;
+  _week_start DATE := _from - ((extract(isodow FROM _from)::INTEGER) - 1);
+  _candidate DATE := _from;
+BEGIN
+  IF _frequency = 'daily' THEN
+    RETURN _from + _interval;
+  ELSIF _frequency = 'working_days' THEN
+    RETURN public.add_working_days(_from, _interval);
+  ELSIF _frequency = 'monthly' THEN
+    RETURN (_from + make_interval(months => _interval))::DATE;
+  END IF;
+
+  -- Weekly: the next chosen weekday, skipping weeks between repeats
+  LOOP
+    _candidate := _candidate + 1;
+    IF extract(dow FROM _candidate)::SMALLINT = ANY(_days)
+       AND ((_candidate - _week_start) / 7) % _interval = 0 THEN
+      RETURN _candidate;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Create the next task of a series from its newest task. Returns the new task's id,
+-- or NULL when the series has ended or the next start is after `_until`.
+CREATE OR REPLACE FUNCTION public.generate_next_recurring_task(_recurrence_id UUID, _until DATE DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rule public.task_recurrences%ROWTYPE;
+  _template public.tasks%ROWTYPE;
+  _anchor DATE;
+  _next_start DATE;
+  _next_due DATE;
+  _new_id UUID;
+BEGIN
+  SELECT * INTO _rule FROM public.task_recurrences WHERE id = _recurrence_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO _template
+  FROM public.tasks
+  WHERE recurrence_id = _recurrence_id
+  ORDER BY start_date DESC NULLS LAST, created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  _anchor := COALESCE(_template.start_date, _template.due_date, current_date);
+  _next_start := public.next_recurrence_date(_rule.frequency, _rule.interval_count, _rule.weekdays, _anchor);
+
+  IF (_rule.ends_on IS NOT NULL AND _next_start > _rule.ends_on)
+     OR (_until IS NOT NULL AND _next_start > _until) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Working-day series keep their length in working days, the rest in calendar days
+  IF _template.due_date IS NULL THEN
+    _next_due := NULL;
+  ELSIF _rule.frequency = 'working_days' THEN
+    _next_due := public.add_working_days(_next_start, GREATEST(public.count_working_days(_anchor, _template.due_date) - 1, 0));
+  ELSE
+    _next_due := _next_start + GREATEST(_template.due_date - _anchor, 0);
+  END IF;
+
+  INSERT INTO public.tasks (
+    project_id, title, description, priority, status, progress_percentage,
+    start_date, due_date, assignee_department_id, assignee_user_id, element_id,
+    parent_task_id, estimate_hours, estimated_cost, labels, recurrence_id
+  ) VALUES (
+    _template.project_id, _template.title, _template.description, _template.priority, 'todo', 0,
+    _next_start, _next_due, _template.assignee_department_id, _template.assignee_user_id, _template.element_id,
+    _template.parent_task_id, _template.estimate_hours, _template.estimated_cost, _template.labels, _recurrence_id
+  )
+  RETURNING id INTO _new_id;
+
+  INSERT INTO public.task_assignments (task_id, user_id)
+  SELECT _new_id, user_id FROM public.task_assignments WHERE task_id = _template.id;
+
+  RETURN _new_id;
+END;
+$$;
+
+-- Only the completion trigger and the scheduler (service role) create instances
+REVOKE EXECUTE ON FUNCTION public.generate_next_recurring_task(UUID, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Completing the newest task of a completion-driven series creates the next one
+CREATE OR REPLACE FUNCTION public.handle_recurring_task_completed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status_category = 'done'
+     AND OLD.status_category IS DISTINCT FROM 'done'
+     AND EXISTS (
+       SELECT 1 FROM public.task_recurrences
+       WHERE id = NEW.recurrence_id AND generate_on = 'completion'
+     )
+     AND NOT EXISTS (
+       SELECT 1 FROM public.tasks
+       WHERE recurrence_id = NEW.recurrence_id
+         AND id <> NEW.id
+         AND start_date > NEW.start_date
+     ) THEN
+    PERFORM public.generate_next_recurring_task(NEW.recurrence_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER handle_recurring_task_completed
+  AFTER UPDATE OF status, status_category ON public.tasks
+  FOR EACH ROW
+  WHEN (NEW.recurrence_id IS NOT NULL)
+  EXECUTE FUNCTION public.handle_recurring_task_completed();
@@ -0,0 +1,38 @@
+-- Reusable project templates. The content is a self-contained snapshot of a
+-- project's structure (departments, elements, tasks, dependencies and folders)
+-- with dates stored as working-day offsets from the project start, so a new
+-- project can be laid out from any start date. See src/lib/projectTemplates.ts.
+CREATE TABLE public.project_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  description TEXT,
+  source_project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+  content JSONB NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_project_templates_name ON public.project_templates(lower(name));
+
+ALTER TABLE public.project_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view project templates"
+  ON public.project_templates FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins and project managers can create project templates"
+  ON public.project_templates FOR INSERT
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'project_manager'::app_role));
+
+CREATE POLICY "Creators and admins can update project templates"
+  ON public.project_templates FOR UPDATE
+  USING (created_by = auth.uid() OR has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Creators and admins can delete project templates"
+  ON public.project_templates FOR DELETE
+  USING (created_by = auth.uid() OR has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_project_templates_updated_at
+  BEFORE UPDATE ON public.project_templates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,264 @@
+-- Working calendars: which weekdays are the weekend and which dates are holidays,
+-- blackout days or half-days. Rows with a NULL project_id are the organisation
+-- calendar; project rows override it.
+CREATE TABLE public.working_calendars (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  -- Day numbers as in extract(dow): 0 = Sunday. NULL on a project inherits the organisation weekend.
+  weekend_days SMALLINT[],
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_working_calendars_project
+  ON public.working_calendars (COALESCE(project_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+CREATE TRIGGER update_working_calendars_updated_at
+  BEFORE UPDATE ON public.working_calendars
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.working_calendars (project_id, weekend_days) VALUES (NULL, ARRAY[0, 6]::SMALLINT[]);
+
+CREATE TABLE public.working_calendar_days (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  name TEXT NOT NULL DEFAULT '',
+  -- 'working' turns a weekend day into a working day
+  kind TEXT NOT NULL DEFAULT 'holiday' CHECK (kind IN ('holiday', 'non_working', 'half_day', 'working')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_working_calendar_days_date
+  ON public.working_calendar_days (COALESCE(project_id, '00000000-0000-0000-0000-000000000000'::uuid), date);
+
+CREATE INDEX idx_working_calendar_days_project ON public.working_calendar_days (project_id, date);
+
+ALTER TABLE public.working_calendars ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.working_calendar_days ENABLE ROW LEVEL SECURITY;
+
+-- Everyone schedules against the calendars; admins own the organisation calendar
+-- and project managers may adjust project calendars
+CREATE POLICY "Authenticated users can view working calendars"
+  ON public.working_calendars FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins and project managers can create working calendars"
+  ON public.working_calendars FOR INSERT
+  WITH CHECK (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR (project_id IS NOT NULL AND has_role(auth.uid(), 'project_manager'::app_role))
+  );
+
+CREATE POLICY "Admins and project managers can update working calendars"
+  ON public.working_calendars FOR UPDATE
+  USING (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR (project_id IS NOT NULL AND has_role(auth.uid(), 'project_manager'::app_role))
+  );
+
+CREATE POLICY "Admins and project managers can delete working calendars"
+  ON public.working_calendars FOR DELETE
+  USING (
+    project_id IS NOT NULL
+    AND (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'project_manager'::app_role))
+  );
+
+CREATE POLICY "Authenticated users can view working calendar days"
+  ON public.working_calendar_days FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins and project managers can create working calendar days"
+  ON public.working_calendar_days FOR INSERT
+  WITH CHECK (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR (project_id IS NOT NULL AND has_role(auth.uid(), 'project_manager'::app_role))
+  );
+
+CREATE POLICY "Admins and project managers can update working calendar days"
+  ON public.working_calendar_days FOR UPDATE
+  USING (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR (project_id IS NOT NULL AND has_role(auth.uid(), 'project_manager'::app_role))
+  );
+
+CREATE POLICY "Admins and project managers can delete working calendar days"
+  ON public.working_calendar_days FOR DELETE
+  USING (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR (project_id IS NOT NULL AND has_role(auth.uid(), 'project_manager'::app_role))
+  );
+
+-- Mirrors isWorkingDay in src/lib/workingDays.ts: a project day overrides an
+-- organisation day, which overrides the weekend. Half-days count as working days.
+CREATE OR REPLACE FUNCTION public.is_working_day(_date DATE, _project_id UUID DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT d.kind IN ('working', 'half_day')
+      FROM public.working_calendar_days d
+      WHERE d.date = _date
+        AND (d.project_id IS NULL OR d.project_id = _project_id)
+      ORDER BY d.project_id NULLS LAST
+      LIMIT 1
+    ),
+    NOT (extract(dow FROM _date)::SMALLINT = ANY (COALESCE(
+      (SELECT weekend_days FROM public.working_calendars WHERE project_id = _project_id),
+      (SELECT weekend_days FROM public.working_calendars WHERE project_id IS NULL),
+      ARRAY[0, 6]::SMALLINT[]
+    )))
+  );
+$$;
+
+-- The weekday-only versions are replaced by calendar-aware ones
+DROP FUNCTION IF EXISTS public.next_recurrence_date(TEXT, INTEGER, SMALLINT[], DATE);
+DROP FUNCTION IF EXISTS public.add_working_days(DATE, INTEGER);
+DROP FUNCTION IF EXISTS public.count_working_days(DATE, DATE);
+
+CREATE OR REPLACE FUNCTION public.add_working_days(_date DATE, _days INTEGER, _project_id UUID DEFAULT NULL)
+RETURNS DATE
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _current DATE := _date;
+  _remaining INTEGER := GREATEST(_days, 0);
+BEGIN
+  WHILE NOT public.is_working_day(_current, _project_id) LOOP
+    _current := _current + 1;
+  END LOOP;
+
+  WHILE _remaining > 0 LOOP
+    _current := _current + 1;
+    IF public.is_working_day(_current, _project_id) THEN
+      _remaining := _remaining - 1;
+    END IF;
+  END LOOP;
+
+  RETURN _current;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.count_working_days(_start DATE, _end DATE, _project_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM generate_series(_start, _end, INTERVAL '1 day') AS d
+  WHERE public.is_working_day(d::DATE, _project_id);
+$$;
+
+-- Start date of the occurrence after `_from`; mirrors getNextOccurrence in src/lib/recurrence.ts
+CREATE OR REPLACE FUNCTION public.next_recurrence_date(
+  _frequency TEXT,
+  _interval INTEGER,
+  _weekdays SMALLINT[],
+  _from DATE,
+  _project_id UUID DEFAULT NULL
+)
+RETURNS DATE
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _days SMALLINT[] := CASE WHEN cardinality(_weekdays) > 0 THEN _weekdays ELSE ARRAY[extract(dow FROM _from)::SMALLINT] END;
+  _week_start DATE := _from - ((extract(isodow FROM _from)::INTEGER) - 1);
+  _candidate DATE := _from;
+BEGIN
+  IF _frequency = 'daily' THEN
+    RETURN _from + _interval;
+  ELSIF _frequency = 'working_days' THEN
+    RETURN public.add_working_days(_from, _interval, _project_id);
+  ELSIF _frequency = 'monthly' THEN
+    RETURN (_from + make_interval(months => _interval))::DATE;
+  END IF;
+
+  -- Weekly: the next chosen weekday, skipping weeks between repeats
+  LOOP
+    _candidate := _candidate + 1;
+    IF extract(dow FROM _candidate)::SMALLINT = ANY(_days)
+       AND ((_candidate - _week_start) / 7) % _interval = 0 THEN
+      RETURN _candidate;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Same as before, but working-day series follow the project's calendar
+CREATE OR REPLACE FUNCTION public.generate_next_recurring_task(_recurrence_id UUID, _until DATE DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rule public.task_recurrences%ROWTYPE;
+  _template public.tasks%ROWTYPE;
+  _anchor DATE;
+  _next_start DATE;
+  _next_due DATE;
+  _new_id UUID;
+BEGIN
+  SELECT * INTO _rule FROM public.task_recurrences WHERE id = _recurrence_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO _template
+  FROM public.tasks
+  WHERE recurrence_id = _recurrence_id
+  ORDER BY start_date DESC NULLS LAST, created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  _anchor := COALESCE(_template.start_date, _template.due_date, current_date);
+  _next_start := public.next_recurrence_date(_rule.frequency, _rule.interval_count, _rule.weekdays, _anchor, _template.project_id);
+
+  IF (_rule.ends_on IS NOT NULL AND _next_start > _rule.ends_on)
+     OR (_until IS NOT NULL AND _next_start > _until) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Working-day series keep their length in working days, the rest in calendar days
+  IF _template.due_date IS NULL THEN
+    _next_due := NULL;
+  ELSIF _rule.frequency = 'working_days' THEN
+    _next_due := public.add_working_days(
+      _next_start,
+      GREATEST(public.count_working_days(_anchor, _template.due_date, _template.project_id) - 1, 0),
+      _template.project_id
+    );
+  ELSE
+    _next_due := _next_start + GREATEST(_template.due_date - _anchor, 0);
+  END IF;
+
+  INSERT INTO public.tasks (
+    project_id, title, description, priority, status, progress_percentage,
+    start_date, due_date, assignee_department_id, assignee_user_id, element_id,
+    parent_task_id, estimate_hours, estimated_cost, labels, recurrence_id
+  ) VALUES (
+    _template.project_id, _template.title, _template.description, _template.priority, 'todo', 0,
+    _next_start, _next_due, _template.assignee_department_id, _template.assignee_user_id, _template.element_id,
+    _template.parent_task_id, _template.estimate_hours, _template.estimated_cost, _template.labels, _recurrence_id
+  )
+  RETURNING id INTO _new_id;
+
+  INSERT INTO public.task_assignments (task_id, user_id)
+  SELECT _new_id, user_id FROM public.task_assignments WHERE task_id = _template.id;
+
+  RETURN _new_id;
+END;
+$$;
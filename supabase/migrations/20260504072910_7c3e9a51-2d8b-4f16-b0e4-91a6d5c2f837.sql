@@ -0,0 +1,34 @@
+-- Working hours per day each person can take on, for the workload view.
+-- People without a row get the default capacity set in the app.
+CREATE TABLE public.user_capacities (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  hours_per_day NUMERIC(4, 1) NOT NULL DEFAULT 8 CHECK (hours_per_day >= 0 AND hours_per_day <= 24),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_user_capacities_updated_at
+  BEFORE UPDATE ON public.user_capacities
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.user_capacities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view capacities"
+  ON public.user_capacities FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins and project managers can set capacities"
+  ON public.user_capacities FOR INSERT
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'project_manager'::app_role));
+
+CREATE POLICY "Admins and project managers can update capacities"
+  ON public.user_capacities FOR UPDATE
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'project_manager'::app_role));
+
+CREATE POLICY "Admins and project managers can delete capacities"
+  ON public.user_capacities FOR DELETE
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'project_manager'::app_role));
+
+-- The workload view reads open tasks by date range across projects
+CREATE INDEX IF NOT EXISTS idx_tasks_workload_dates ON public.tasks (due_date, start_date) WHERE status_category <> 'done';
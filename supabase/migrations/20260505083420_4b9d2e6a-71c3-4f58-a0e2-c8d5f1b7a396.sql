@@ -0,0 +1,130 @@
+-- Milestones: dated checkpoints of a project (contract signed, speakers locked,
+-- show day) with an owner, the tasks that lead up to them and a sign-off.
+CREATE TABLE public.project_milestones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (length(trim(title)) > 0),
+  description TEXT,
+  due_date DATE NOT NULL,
+  owner_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL,
+  -- Set when the owner reports the milestone reached; a manager then signs it off
+  completed_at TIMESTAMPTZ,
+  approval_status TEXT NOT NULL DEFAULT 'pending' CHECK (approval_status IN ('pending', 'approved', 'rejected')),
+  approval_note TEXT,
+  approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  approved_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_project_milestones_project_id ON public.project_milestones(project_id, due_date);
+
+CREATE TABLE public.milestone_tasks (
+  milestone_id UUID NOT NULL REFERENCES public.project_milestones(id) ON DELETE CASCADE,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (milestone_id, task_id)
+);
+
+CREATE INDEX idx_milestone_tasks_task_id ON public.milestone_tasks(task_id);
+
+CREATE TRIGGER update_project_milestones_updated_at
+  BEFORE UPDATE ON public.project_milestones
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Only managers may sign a milestone off or change its plan; milestone owners
+-- may only report it reached (or withdraw that). Reporting it reached again,
+-- withdrawing it or moving its due date puts it back up for approval.
+CREATE OR REPLACE FUNCTION public.guard_milestone_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _is_manager BOOLEAN := has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'project_manager'::app_role);
+BEGIN
+  IF TG_OP = 'UPDATE' AND auth.uid() IS NOT NULL AND NOT _is_manager
+     AND (NEW.project_id, NEW.title, NEW.description, NEW.due_date, NEW.owner_user_id, NEW.department_id,
+          NEW.approval_note, NEW.approved_by, NEW.approved_at, NEW.created_by, NEW.created_at)
+         IS DISTINCT FROM
+         (OLD.project_id, OLD.title, OLD.description, OLD.due_date, OLD.owner_user_id, OLD.department_id,
+          OLD.approval_note, OLD.approved_by, OLD.approved_at, OLD.created_by, OLD.created_at) THEN
+    RAISE EXCEPTION 'Milestone owners can only report a milestone reached';
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND (NEW.completed_at IS DISTINCT FROM OLD.completed_at OR NEW.due_date IS DISTINCT FROM OLD.due_date)
+     AND NEW.approval_status IS NOT DISTINCT FROM OLD.approval_status THEN
+    NEW.approval_status := 'pending';
+  END IF;
+
+  IF (TG_OP = 'INSERT' AND NEW.approval_status <> 'pending')
+     OR (TG_OP = 'UPDATE' AND NEW.approval_status IS DISTINCT FROM OLD.approval_status) THEN
+    -- Service-role writes (imports, duplication) keep the values they carry
+    IF auth.uid() IS NOT NULL THEN
+      IF NEW.approval_status <> 'pending' AND NOT _is_manager THEN
+        RAISE EXCEPTION 'Only admins and project managers can approve or reject milestones';
+      END IF;
+      NEW.approved_by := CASE WHEN NEW.approval_status = 'pending' THEN NULL ELSE auth.uid() END;
+      NEW.approved_at := CASE WHEN NEW.approval_status = 'pending' THEN NULL ELSE now() END;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_milestone_approval
+  BEFORE INSERT OR UPDATE ON public.project_milestones
+  FOR EACH ROW EXECUTE FUNCTION public.guard_milestone_approval();
+
+ALTER TABLE public.project_milestones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.milestone_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view milestones"
+  ON public.project_milestones FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins and project managers can create milestones"
+  ON public.project_milestones FOR INSERT
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'project_manager'::app_role));
+
+CREATE POLICY "Managers and owners can update milestones"
+  ON public.project_milestones FOR UPDATE
+  USING (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'project_manager'::app_role)
+    OR owner_user_id = auth.uid()
+  );
+
+CREATE POLICY "Admins and project managers can delete milestones"
+  ON public.project_milestones FOR DELETE
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'project_manager'::app_role));
+
+CREATE POLICY "Authenticated users can view milestone tasks"
+  ON public.milestone_tasks FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Managers and milestone owners can link tasks"
+  ON public.milestone_tasks FOR INSERT
+  WITH CHECK (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'project_manager'::app_role)
+    OR EXISTS (
+      SELECT 1 FROM public.project_milestones m
+      WHERE m.id = milestone_id AND m.owner_user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Managers and milestone owners can unlink tasks"
+  ON public.milestone_tasks FOR DELETE
+  USING (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'project_manager'::app_role)
+    OR EXISTS (
+      SELECT 1 FROM public.project_milestones m
+      WHERE m.id = milestone_id AND m.owner_user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,135 @@
+-- Monthly series keep the day of the month they started on. Stepping from the
+-- previous occurrence drifted after a short month (Jan 31 -> Feb 28 -> Mar 28),
+-- so occurrences are now counted from the series start and clamped to the
+-- length of each month (Jan 31 -> Feb 28 -> Mar 31).
+DROP FUNCTION IF EXISTS public.next_recurrence_date(TEXT, INTEGER, SMALLINT[], DATE, UUID);
+
+-- Start date of the occurrence after `_from`; mirrors getNextOccurrence in src/lib/recurrence.ts
+CREATE OR REPLACE FUNCTION public.next_recurrence_date(
+  _frequency TEXT,
+  _interval INTEGER,
+  _weekdays SMALLINT[],
+  _from DATE,
+  _project_id UUID DEFAULT NULL,
+  _series_start DATE DEFAULT NULL
+)
+RETURNS DATE
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _days SMALLINT[] := CASE WHEN cardinality(_weekdays) > 0 THEN _weekdays ELSE ARRAY[extract(dow FROM _from)::SMALLINT] END;
+  _week_start DATE := _from - ((extract(isodow FROM _from)::INTEGER) - 1);
+  _candidate DATE := _from;
+  _anchor DATE := COALESCE(_series_start, _from);
+  _months INTEGER;
+BEGIN
+  IF _frequency = 'daily' THEN
+    RETURN _from + _interval;
+  ELSIF _frequency = 'working_days' THEN
+    RETURN public.add_working_days(_from, _interval, _project_id);
+  ELSIF _frequency = 'monthly' THEN
+    -- Whole steps of the series up to `_from`, then the first one after it.
+    -- Adding months to a date clamps to the end of shorter months.
+    _months := GREATEST(
+      ((extract(year FROM _from)::INTEGER - extract(year FROM _anchor)::INTEGER) * 12
+        + extract(month FROM _from)::INTEGER - extract(month FROM _anchor)::INTEGER) / _interval * _interval,
+      0
+    );
+    LOOP
+      _candidate := (_anchor + make_interval(months => _months))::DATE;
+      IF _candidate > _from THEN
+        RETURN _candidate;
+      END IF;
+      _months := _months + _interval;
+    END LOOP;
+  END IF;
+
+  -- Weekly: the next chosen weekday, skipping weeks between repeats
+  LOOP
+    _candidate := _candidate + 1;
+    IF extract(dow FROM _candidate)::SMALLINT = ANY(_days)
+       AND ((_candidate - _week_start) / 7) % _interval = 0 THEN
+      RETURN _candidate;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Same as before, but monthly series are anchored on the first task of the series
+CREATE OR REPLACE FUNCTION public.generate_next_recurring_task(_recurrence_id UUID, _until DATE DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rule public.task_recurrences%ROWTYPE;
+  _template public.tasks%ROWTYPE;
+  _anchor DATE;
+  _series_start DATE;
+  _next_start DATE;
+  _next_due DATE;
+  _new_id UUID;
+BEGIN
+  SELECT * INTO _rule FROM public.task_recurrences WHERE id = _recurrence_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO _template
+  FROM public.tasks
+  WHERE recurrence_id = _recurrence_id
+  ORDER BY start_date DESC NULLS LAST, created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  _anchor := COALESCE(_template.start_date, _template.due_date, current_date);
+
+  SELECT MIN(COALESCE(start_date, due_date)) INTO _series_start
+  FROM public.tasks
+  WHERE recurrence_id = _recurrence_id;
+
+  _next_start := public.next_recurrence_date(
+    _rule.frequency, _rule.interval_count, _rule.weekdays, _anchor, _template.project_id, _series_start
+  );
+
+  IF (_rule.ends_on IS NOT NULL AND _next_start > _rule.ends_on)
+     OR (_until IS NOT NULL AND _next_start > _until) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Working-day series keep their length in working days, the rest in calendar days
+  IF _template.due_date IS NULL THEN
+    _next_due := NULL;
+  ELSIF _rule.frequency = 'working_days' THEN
+    _next_due := public.add_working_days(
+      _next_start,
+      GREATEST(public.count_working_days(_anchor, _template.due_date, _template.project_id) - 1, 0),
+      _template.project_id
+    );
+  ELSE
+    _next_due := _next_start + GREATEST(_template.due_date - _anchor, 0);
+  END IF;
+
+  INSERT INTO public.tasks (
+    project_id, title, description, priority, status, progress_percentage,
+    start_date, due_date, assignee_department_id, assignee_user_id, element_id,
+    parent_task_id, estimate_hours, estimated_cost, labels, recurrence_id
+  ) VALUES (
+    _template.project_id, _template.title, _template.description, _template.priority, 'todo', 0,
+    _next_start, _next_due, _template.assignee_department_id, _template.assignee_user_id, _template.element_id,
+    _template.parent_task_id, _template.estimate_hours, _template.estimated_cost, _template.labels, _recurrence_id
+  )
+  RETURNING id INTO _new_id;
+
+  INSERT INTO public.task_assignments (task_id, user_id)
+  SELECT _new_id, user_id FROM public.task_assignments WHERE task_id = _template.id;
+
+  RETURN _new_id;
+END;
+$$;
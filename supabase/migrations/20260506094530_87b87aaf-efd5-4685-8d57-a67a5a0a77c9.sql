@@ -0,0 +1,15 @@
+-- Per-user secret mixed into the signature of calendar feed links. Resetting it
+-- invalidates every link the user has handed out, so a leaked link can be revoked.
+-- Only the calendar-feed function (service role) reads or writes it.
+CREATE TABLE public.calendar_feed_tokens (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token UUID NOT NULL DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_calendar_feed_tokens_updated_at
+  BEFORE UPDATE ON public.calendar_feed_tokens
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
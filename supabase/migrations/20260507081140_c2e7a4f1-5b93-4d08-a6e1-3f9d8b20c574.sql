@@ -0,0 +1,69 @@
+-- Removing a workflow status moves its tasks along in the same transaction.
+-- Tasks left on a removed key go to the project's first remaining status of the
+-- same category, or to the built-in status once the workflow is gone, so a reset
+-- (deleting every row) leaves no task on a key the project no longer knows.
+CREATE OR REPLACE FUNCTION public.sync_workflow_status_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _replacement TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    UPDATE public.project_task_statuses
+    SET allowed_transitions = array_remove(allowed_transitions, OLD.key)
+    WHERE project_id = OLD.project_id AND allowed_transitions @> ARRAY[OLD.key];
+
+    -- Nothing to move when the whole project is being deleted
+    IF EXISTS (SELECT 1 FROM public.projects WHERE id = OLD.project_id) THEN
+      SELECT key INTO _replacement
+      FROM public.project_task_statuses
+      WHERE project_id = OLD.project_id AND category = OLD.category
+      ORDER BY position
+      LIMIT 1;
+
+      UPDATE public.tasks
+      SET status = COALESCE(_replacement, OLD.category)
+      WHERE project_id = OLD.project_id AND status = OLD.key;
+    END IF;
+
+    RETURN OLD;
+  END IF;
+
+  IF NEW.category IS DISTINCT FROM OLD.category THEN
+    UPDATE public.tasks
+    SET status_category = NEW.category
+    WHERE project_id = NEW.project_id AND status = NEW.key;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Remove a workflow status after moving its tasks to `_replacement_key`, as one
+-- transaction. Runs with the caller's rights, so the usual policies apply.
+CREATE OR REPLACE FUNCTION public.delete_task_status(_project_id UUID, _key TEXT, _replacement_key TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF _replacement_key = _key
+     OR NOT EXISTS (SELECT 1 FROM public.project_task_statuses WHERE project_id = _project_id AND key = _replacement_key) THEN
+    RAISE EXCEPTION 'Choose another status of this workflow for its tasks';
+  END IF;
+
+  UPDATE public.tasks
+  SET status = _replacement_key
+  WHERE project_id = _project_id AND status = _key;
+
+  DELETE FROM public.project_task_statuses
+  WHERE project_id = _project_id AND key = _key;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Status "%" could not be removed', _key;
+  END IF;
+END;
+$$;
@@ -0,0 +1,4 @@
+-- What the background copy of a duplicated project actually created, and the
+-- error it stopped on, so the duplicate dialog can report the outcome rather
+-- than the counts of the source project.
+ALTER TABLE public.projects ADD COLUMN duplication_result JSONB;